@@ -0,0 +1,184 @@
+"use client"
+
+import { Suspense, useEffect, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import Image from "next/image"
+import { NavigationLink } from "@/components/navigation-link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertCircle, CheckCircle, Loader2, Wallet, XCircle } from "lucide-react"
+import { useTranslation } from "@/components/language-provider"
+
+interface PendingChange {
+  status: "pending_confirmation" | "confirmed" | "cancelled" | "expired"
+  previousAddress: string | null
+  newAddress: string
+  requestedAt: string
+  holdHours: number
+  holdUntil: string | null
+}
+
+function ConfirmPayoutWalletContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token")
+  const { t } = useTranslation()
+  const [change, setChange] = useState<PendingChange | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [acting, setActing] = useState<"confirm" | "cancel" | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!token) {
+      setError(t("payoutWalletConfirm.invalidLink"))
+      setLoading(false)
+      return
+    }
+
+    const loadChange = async () => {
+      try {
+        const response = await fetch(`/api/user/payout-wallet/confirm?token=${encodeURIComponent(token)}`)
+        const data = await response.json()
+        if (data.success) {
+          setChange(data.data)
+        } else {
+          setError(data.error || t("payoutWalletConfirm.invalidLink"))
+        }
+      } catch {
+        setError(t("payoutWalletConfirm.loadError"))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadChange()
+  }, [token, t])
+
+  const handleAction = async (action: "confirm" | "cancel") => {
+    setActing(action)
+    setError("")
+
+    try {
+      const response = await fetch("/api/user/payout-wallet/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, action }),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        setError(data.error || t("payoutWalletConfirm.actionError"))
+        return
+      }
+      setChange((prev) => prev && { ...prev, status: data.data.status, holdUntil: data.data.holdUntil })
+    } catch {
+      setError(t("payoutWalletConfirm.actionError"))
+    } finally {
+      setActing(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-background">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <NavigationLink href="/" className="inline-flex items-center space-x-3">
+            <Image src="/gold-logo.svg" alt="Trading Hub" width={40} height={40} className="w-10 h-10" />
+            <span className="font-bold text-xl text-foreground">{t("common.brandName")}</span>
+          </NavigationLink>
+        </div>
+
+        <Card className="border-border-subtle">
+          <CardHeader className="space-y-1 pb-4">
+            <div className="flex justify-center mb-4">
+              <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                <Wallet className="h-6 w-6 text-primary" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl font-bold text-center">{t("payoutWalletConfirm.title")}</CardTitle>
+            <CardDescription className="text-center">{t("payoutWalletConfirm.subtitle")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm text-red-600 flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4 shrink-0" />
+                      {error}
+                    </p>
+                  </div>
+                )}
+
+                {change && (
+                  <div className="space-y-3 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">{t("payoutWalletConfirm.currentWallet")}</p>
+                      <p className="font-mono break-all">{change.previousAddress || t("payoutWalletConfirm.none")}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">{t("payoutWalletConfirm.newWallet")}</p>
+                      <p className="font-mono break-all font-medium">{change.newAddress}</p>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t("payoutWalletConfirm.requestedAt", { date: new Date(change.requestedAt).toLocaleString() })}
+                    </p>
+                  </div>
+                )}
+
+                {change?.status === "pending_confirmation" && (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      {t("payoutWalletConfirm.holdNotice", { hours: change.holdHours })}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button className="flex-1" onClick={() => handleAction("confirm")} disabled={acting !== null}>
+                        {acting === "confirm" && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                        {t("payoutWalletConfirm.confirm")}
+                      </Button>
+                      <Button variant="outline" className="flex-1" onClick={() => handleAction("cancel")} disabled={acting !== null}>
+                        {acting === "cancel" && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                        {t("payoutWalletConfirm.cancel")}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{t("payoutWalletConfirm.notYou")}</p>
+                  </>
+                )}
+
+                {change?.status === "confirmed" && (
+                  <p className="text-sm text-green-600 flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 shrink-0" />
+                    {change.holdUntil
+                      ? t("payoutWalletConfirm.confirmedWithHold", { date: new Date(change.holdUntil).toLocaleString() })
+                      : t("payoutWalletConfirm.confirmed")}
+                  </p>
+                )}
+
+                {(change?.status === "cancelled" || change?.status === "expired") && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <XCircle className="h-4 w-4 shrink-0" />
+                    {change.status === "cancelled" ? t("payoutWalletConfirm.cancelled") : t("payoutWalletConfirm.expired")}
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default function ConfirmPayoutWalletPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    }>
+      <ConfirmPayoutWalletContent />
+    </Suspense>
+  )
+}
@@ -33,6 +33,8 @@ function LoginForm() {
       setError(messageParam || t("auth.login.incompleteSignup"))
     } else if (errorParam === "auth_failed") {
       setError(t("auth.login.authFailed"))
+    } else if (errorParam === "rate_limited") {
+      setError(t("auth.login.rateLimited"))
     } else if (messageParam && !errorParam) {
       // Success message (like password reset)
       setSuccess(messageParam)
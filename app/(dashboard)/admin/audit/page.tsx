@@ -0,0 +1,407 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  ScrollText,
+  Loader2,
+  RefreshCw,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Search,
+} from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import { hasPrivilege } from "@/lib/admin/permissions"
+import type { AdminAuditEntry } from "@/lib/admin/audit-log"
+import { useTranslation } from "@/components/language-provider"
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+  hasMore: boolean
+}
+
+interface Filters {
+  actor: string
+  target: string
+  action: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: Filters = { actor: "", target: "", action: "all", from: "", to: "" }
+
+function filterParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim())
+  if (filters.target.trim()) params.set("target", filters.target.trim())
+  if (filters.action !== "all") params.set("action", filters.action)
+  if (filters.from) params.set("from", filters.from)
+  if (filters.to) params.set("to", filters.to)
+  return params
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—"
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+function UserCell({ id, user }: { id: string | null; user: AdminAuditEntry["actor"] }) {
+  const { t } = useTranslation()
+
+  if (!id) return <span className="text-xs text-muted-foreground">-</span>
+
+  return (
+    <div>
+      <p className="font-medium text-sm">{user?.name || t("common.noName")}</p>
+      <p className="text-xs text-muted-foreground">{user?.email || id}</p>
+    </div>
+  )
+}
+
+export default function AdminAuditPage() {
+  const { t } = useTranslation()
+
+  const [loading, setLoading] = useState(true)
+  const [canView, setCanView] = useState(false)
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([])
+  const [actions, setActions] = useState<string[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [refreshing, setRefreshing] = useState(false)
+
+  // Filters are edited in `draft` and take effect on Apply
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS)
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const params = filterParams(filters)
+      params.set("page", page.toString())
+      params.set("limit", "50")
+
+      const response = await fetch(`/api/admin/audit?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setEntries(data.entries)
+        setActions(data.actions)
+        setPagination(data.pagination)
+      }
+    } catch (error) {
+      console.error("Failed to fetch admin audit log:", error)
+    }
+  }, [filters, page])
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    await fetchEntries()
+    setRefreshing(false)
+  }
+
+  const applyFilters = (event: React.FormEvent) => {
+    event.preventDefault()
+    setPage(1)
+    setFilters(draft)
+  }
+
+  const clearFilters = () => {
+    setPage(1)
+    setDraft(EMPTY_FILTERS)
+    setFilters(EMPTY_FILTERS)
+  }
+
+  const checkAccess = useCallback(async () => {
+    const supabase = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (user) {
+      const { data: userData } = await supabase
+        .from("users")
+        .select("role, permissions")
+        .eq("id", user.id)
+        .single()
+
+      if (hasPrivilege(userData?.role, userData?.permissions, "view_admin_audit")) {
+        setCanView(true)
+      }
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    checkAccess()
+  }, [checkAccess])
+
+  useEffect(() => {
+    if (canView) {
+      fetchEntries()
+    }
+  }, [canView, fetchEntries])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!canView) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-muted-foreground">{t("admin.accessDenied")}</div>
+      </div>
+    )
+  }
+
+  const exportParams = filterParams(filters)
+  exportParams.set("format", "csv")
+
+  return (
+    <div>
+      <div className="mb-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 mb-2">
+            <ScrollText className="h-6 w-6 text-primary" />
+            <h1 className="text-3xl font-bold text-foreground">{t("admin.audit.title")}</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/admin/audit?${exportParams}`}>
+                <Download className="h-4 w-4 mr-2" />
+                {t("admin.audit.exportCsv")}
+              </a>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRefresh}
+              disabled={refreshing}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? "animate-spin" : ""}`} />
+              {t("admin.audit.refresh")}
+            </Button>
+          </div>
+        </div>
+        <p className="text-muted-foreground">{t("admin.audit.description")}</p>
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg">{t("admin.audit.filters")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={applyFilters} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">{t("admin.audit.actor")}</label>
+                <Input
+                  value={draft.actor}
+                  onChange={(e) => setDraft({ ...draft, actor: e.target.value })}
+                  placeholder={t("admin.audit.userPlaceholder")}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">{t("admin.audit.target")}</label>
+                <Input
+                  value={draft.target}
+                  onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+                  placeholder={t("admin.audit.userPlaceholder")}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">{t("admin.audit.action")}</label>
+                <Select value={draft.action} onValueChange={(action) => setDraft({ ...draft, action })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("admin.audit.allActions")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("admin.audit.allActions")}</SelectItem>
+                    {actions.map((action) => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">{t("admin.audit.from")}</label>
+                <Input
+                  type="date"
+                  value={draft.from}
+                  onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">{t("admin.audit.to")}</label>
+                <Input
+                  type="date"
+                  value={draft.to}
+                  onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button type="submit" size="sm">
+                <Search className="h-4 w-4 mr-2" />
+                {t("admin.audit.apply")}
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={clearFilters}>
+                {t("admin.audit.clear")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Audit Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            {t("admin.audit.entries")}
+            {pagination && (
+              <span className="text-sm font-normal text-muted-foreground">
+                {t("admin.audit.totalCount").replace("{count}", String(pagination.total))}
+              </span>
+            )}
+          </CardTitle>
+          <CardDescription>
+            {t("admin.audit.entriesDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("admin.audit.date")}</TableHead>
+                  <TableHead>{t("admin.audit.actor")}</TableHead>
+                  <TableHead>{t("admin.audit.action")}</TableHead>
+                  <TableHead>{t("admin.audit.target")}</TableHead>
+                  <TableHead>{t("admin.audit.changes")}</TableHead>
+                  <TableHead>{t("admin.audit.reason")}</TableHead>
+                  <TableHead>{t("admin.audit.source")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      {t("admin.audit.noEntries")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => {
+                    const changes = Object.entries(entry.changes || {})
+                    return (
+                      <TableRow key={entry.id}>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <UserCell id={entry.actor_id} user={entry.actor} />
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="font-mono">{entry.action}</Badge>
+                          {entry.entity_type && entry.entity_type !== "user" && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {entry.entity_type} {entry.entity_id}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <UserCell id={entry.target_user_id} user={entry.target} />
+                        </TableCell>
+                        <TableCell className="text-xs max-w-xs">
+                          {changes.length === 0 ? (
+                            <span className="text-muted-foreground">-</span>
+                          ) : (
+                            <div className="space-y-1">
+                              {changes.map(([column, change]) => (
+                                <p key={column} className="break-all">
+                                  <span className="font-medium">{column}</span>:{" "}
+                                  <span className="text-red-600 line-through">{formatValue(change.from)}</span>{" → "}
+                                  <span className="text-[#D4A853]">{formatValue(change.to)}</span>
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs">
+                          {entry.reason || <span className="text-xs text-muted-foreground">-</span>}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          <p className="font-mono">{entry.ip_address || "-"}</p>
+                          {entry.user_agent && (
+                            <p className="truncate max-w-[12rem]" title={entry.user_agent}>{entry.user_agent}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-sm text-muted-foreground">
+                {t("admin.audit.pageOf").replace("{page}", String(pagination.page)).replace("{total}", String(pagination.totalPages))}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  {t("admin.audit.previous")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={!pagination.hasMore}
+                >
+                  {t("admin.audit.next")}
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
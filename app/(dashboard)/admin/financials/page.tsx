@@ -26,6 +26,11 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import { LedgerSummaryCard } from "@/components/admin/ledger-summary-card"
+import { ReconciliationReportCard } from "@/components/admin/reconciliation-report-card"
+import { TreasuryHistoryCard } from "@/components/admin/treasury-history-card"
+import { PayoutApprovalPolicyCard } from "@/components/admin/payout-approval-policy-card"
+import { CommissionSimulationCard } from "@/components/admin/commission-simulation-card"
 
 interface TreasurySettings {
   treasuryWalletAddress: string
@@ -39,6 +44,16 @@ interface TreasurySettings {
   payoutWalletAddress: string
   isPayoutWalletConfigured: boolean
   hasPayoutPrivateKey: boolean
+  // Encrypted key custody status (never key material)
+  custodyKeys?: Record<CustodyKeyId, CustodyKeyStatus | null>
+}
+
+type CustodyKeyId = "master_xprv" | "payout_wallet"
+
+interface CustodyKeyStatus {
+  version: number
+  rotatedAt: string | null
+  lastAccessedAt: string | null
 }
 
 interface Payment {
@@ -209,6 +224,7 @@ export default function AdminFinancialsPage() {
   const [payoutSuccess, setPayoutSuccess] = useState(false)
   const [payoutWalletBalance, setPayoutWalletBalance] = useState<{ usdc: string; matic: string } | null>(null)
   const [payoutBalanceLoading, setPayoutBalanceLoading] = useState(false)
+  const [rotatingKey, setRotatingKey] = useState<CustodyKeyId | null>(null)
 
   // Review queue state
   const [reviewQueue, setReviewQueue] = useState<ReviewQueueItem[]>([])
@@ -251,6 +267,8 @@ export default function AdminFinancialsPage() {
     linkedUserId: string | null
     linkedUserEmail: string | null
     linkedUsdcBalance: string | null
+    bumpCount: number
+    escalatedAt: string | null
   }
   const [stuckTxs, setStuckTxs] = useState<{
     gasTankAddress: string
@@ -490,6 +508,33 @@ export default function AdminFinancialsPage() {
     }
   }
 
+  // Re-encrypt a custody key under a fresh data key
+  const rotateCustodyKey = async (keyId: CustodyKeyId) => {
+    const setError = keyId === "master_xprv" ? setTreasuryError : setPayoutError
+    setRotatingKey(keyId)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/crypto/treasury/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rotateKey: keyId }),
+      })
+
+      const data = await response.json()
+
+      if (!data.success) {
+        setError(data.error || t("admin.financials.rotateKeyError"))
+      } else {
+        await fetchTreasurySettings()
+      }
+    } catch {
+      setError(t("admin.financials.rotateKeyError"))
+    } finally {
+      setRotatingKey(null)
+    }
+  }
+
   // Save payout wallet settings
   const savePayoutWalletSettings = async () => {
     setPayoutSaving(true)
@@ -785,7 +830,8 @@ export default function AdminFinancialsPage() {
     if (!fresh || fresh.stuckTxs.length === 0) return
     for (const tx of fresh.stuckTxs) {
       if (tx.nonce < fresh.confirmedNonce) continue
-      const action = tx.linkedUserId ? "replace" : "cancel"
+      // Linked funding txs and nonce-manager sends (hash known) can be replayed
+      const action = tx.linkedUserId || tx.hash ? "replace" : "cancel"
       await replaceStuckTx(tx.nonce, action, gasMultiplier)
     }
   }
@@ -1093,6 +1139,28 @@ export default function AdminFinancialsPage() {
                     ? t("admin.financials.xprvSetUpdate")
                     : t("admin.financials.xprvRequired")}
                 </p>
+                {treasurySettings?.custodyKeys?.master_xprv && (
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {t("admin.financials.custodyKeyVersion", { version: String(treasurySettings.custodyKeys.master_xprv.version) })}
+                      {treasurySettings.custodyKeys.master_xprv.rotatedAt &&
+                        ` · ${t("admin.financials.custodyKeyRotated", { date: new Date(treasurySettings.custodyKeys.master_xprv.rotatedAt).toLocaleDateString() })}`}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rotateCustodyKey("master_xprv")}
+                      disabled={rotatingKey !== null}
+                    >
+                      {rotatingKey === "master_xprv" ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                      )}
+                      {t("admin.financials.rotateKey")}
+                    </Button>
+                  </div>
+                )}
                 {!treasurySettings?.hasMasterXprv && (
                   <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
                     <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5" />
@@ -1241,6 +1309,28 @@ export default function AdminFinancialsPage() {
                     ? t("admin.financials.privateKeySetUpdate")
                     : t("admin.financials.privateKeyRequired")}
                 </p>
+                {treasurySettings?.custodyKeys?.payout_wallet && (
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {t("admin.financials.custodyKeyVersion", { version: String(treasurySettings.custodyKeys.payout_wallet.version) })}
+                      {treasurySettings.custodyKeys.payout_wallet.rotatedAt &&
+                        ` · ${t("admin.financials.custodyKeyRotated", { date: new Date(treasurySettings.custodyKeys.payout_wallet.rotatedAt).toLocaleDateString() })}`}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rotateCustodyKey("payout_wallet")}
+                      disabled={rotatingKey !== null}
+                    >
+                      {rotatingKey === "payout_wallet" ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                      )}
+                      {t("admin.financials.rotateKey")}
+                    </Button>
+                  </div>
+                )}
               </div>
 
               {/* Security warning */}
@@ -1541,6 +1631,12 @@ export default function AdminFinancialsPage() {
                                     <TableCell className="text-xs font-mono">{tx.nonce}</TableCell>
                                     <TableCell className="text-xs">
                                       {tx.linkedUserEmail || <span className="italic text-muted-foreground">unlinked</span>}
+                                      {tx.bumpCount > 0 && (
+                                        <span className="block text-muted-foreground">auto-bumped {tx.bumpCount}×</span>
+                                      )}
+                                      {tx.escalatedAt && (
+                                        <span className="block text-amber-700 font-semibold">over fee cap</span>
+                                      )}
                                     </TableCell>
                                     <TableCell className="text-xs">
                                       {tx.linkedUsdcBalance ? `$${parseFloat(tx.linkedUsdcBalance).toFixed(2)}` : "—"}
@@ -1560,7 +1656,7 @@ export default function AdminFinancialsPage() {
                                         <Button
                                           size="sm"
                                           variant="outline"
-                                          disabled={isActing || !tx.linkedUserId}
+                                          disabled={isActing || (!tx.linkedUserId && !tx.hash)}
                                           onClick={() => replaceStuckTx(tx.nonce, "replace", 1.5)}
                                         >
                                           {isActing && stuckTxAction?.status === "Replacing" ? (
@@ -1896,6 +1992,9 @@ export default function AdminFinancialsPage() {
         </CardContent>
       </Card>
 
+      {/* What-if commission simulation */}
+      <CommissionSimulationCard />
+
       {/* Overpayments Requiring Review */}
       {reviewQueue.length > 0 && (
         <Card className="mb-6 border-amber-200 bg-amber-50/50">
@@ -2025,6 +2124,18 @@ export default function AdminFinancialsPage() {
         </Card>
       )}
 
+      {/* Ledger */}
+      <LedgerSummaryCard />
+
+      {/* On-chain reconciliation */}
+      <ReconciliationReportCard />
+
+      {/* Treasury history */}
+      <TreasuryHistoryCard />
+
+      {/* Multi-signature payout approvals */}
+      <PayoutApprovalPolicyCard />
+
       {/* Stats Overview */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         <Card>
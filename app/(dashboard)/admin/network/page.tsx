@@ -30,6 +30,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
+import { PayoutWalletHistory } from "@/components/admin/payout-wallet-history"
 
 type NetworkRole = "member" | "admin" | "superadmin" | "superadmin+"
 
@@ -1353,6 +1354,14 @@ export default function AdminNetworkPage() {
                   </div>
                 </div>
 
+                {/* Payout Wallet History */}
+                {isSuperAdmin && (
+                  <div>
+                    <h4 className="text-sm font-semibold mb-2">{t("admin.payoutWalletHistory.title")}</h4>
+                    <PayoutWalletHistory userId={selectedUser.id} />
+                  </div>
+                )}
+
                 {/* Admin Actions */}
                 {isSuperAdmin && (
                   <div>
@@ -13,6 +13,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Bell, Loader2, CheckCircle2, AlertCircle, Send, User } from 'lucide-react'
 import { useTranslation } from "@/components/language-provider"
+import { NotificationCampaignsCard } from "@/components/admin/notification-campaigns-card"
+import { NotificationTemplatesCard } from "@/components/admin/notification-templates-card"
+import { ReEnableRequestsCard } from "@/components/admin/re-enable-requests-card"
 
 interface GlobalSetting {
   id: string
@@ -537,6 +540,10 @@ export default function AdminNotificationsPage() {
           })}
         </CardContent>
       </Card>
+
+      <NotificationCampaignsCard />
+      <NotificationTemplatesCard />
+      <ReEnableRequestsCard />
     </div>
   )
 }
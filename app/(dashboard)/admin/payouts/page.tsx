@@ -31,6 +31,7 @@ import {
 } from "@/components/ui/select"
 import { DollarSign, AlertCircle, CheckCircle, XCircle, Loader2, RefreshCw, Wallet, Plus, ExternalLink } from "lucide-react"
 import { ManualPayoutDialog } from "@/components/admin/manual-payout-dialog"
+import { WithdrawalQueueCard } from "@/components/admin/withdrawal-queue-card"
 import { useTranslation } from "@/components/language-provider"
 import { PayoutUser } from "@/components/admin/user-search-combobox"
 
@@ -53,6 +54,20 @@ interface Commission {
   createdAt: string
   description?: string | null
   createdByAdminId?: string | null
+  approval: PayoutApproval | null
+}
+
+interface PayoutApproval {
+  count: number
+  required: number
+  quorumReached: boolean
+  approvedByMe: boolean
+}
+
+interface ApprovalPolicy {
+  thresholdUsd: number
+  requiredApprovals: number
+  windowHours: number
 }
 
 interface Summary {
@@ -87,6 +102,8 @@ export default function AdminPayoutsPage() {
   const [showResultsModal, setShowResultsModal] = useState(false)
   const [showManualPayoutDialog, setShowManualPayoutDialog] = useState(false)
   const [users, setUsers] = useState<PayoutUser[]>([])
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy | null>(null)
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
 
   const fetchCommissions = useCallback(async () => {
     try {
@@ -96,6 +113,8 @@ export default function AdminPayoutsPage() {
       if (response.ok) {
         setCommissions(data.commissions)
         setSummary(data.summary)
+        setApprovalPolicy(data.approvalPolicy)
+        setCurrentUserId(data.currentUserId)
       }
     } catch (error) {
       console.error("Error fetching commissions:", error)
@@ -184,6 +203,32 @@ export default function AdminPayoutsPage() {
     }
   }
 
+  const handleApprove = async (commissionId: string) => {
+    setProcessingId(commissionId)
+    try {
+      const response = await fetch("/api/admin/payouts/approve-single", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commissionId }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        alert(t("admin.payouts.approvalRecorded").replace("{count}", data.approvals.count).replace("{required}", data.approvals.required))
+      } else {
+        alert(`Failed: ${data.error || t("common.unknown")}`)
+      }
+
+      await fetchData()
+    } catch (error) {
+      alert(t("admin.payouts.errorApproving"))
+      console.error(error)
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
   const handleMarkCompleted = async (commissionId: string) => {
     if (!confirm(t("admin.payouts.markCompletedConfirm"))) {
       return
@@ -214,6 +259,27 @@ export default function AdminPayoutsPage() {
     }
   }
 
+  const handleApproveBulk = async (commissionIds: string[]) => {
+    try {
+      const response = await fetch("/api/admin/payouts/approve-bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commissionIds }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        alert(t("admin.payouts.approvalRecorded").replace("{count}", data.approvals.count).replace("{required}", data.approvals.required))
+      } else {
+        alert(`Failed: ${data.error || t("common.unknown")}`)
+      }
+    } catch (error) {
+      alert(t("admin.payouts.errorApproving"))
+      console.error(error)
+    }
+  }
+
   const handleProcessBulk = async () => {
     setShowConfirmModal(false)
     setProcessing(true)
@@ -231,6 +297,14 @@ export default function AdminPayoutsPage() {
         setProcessResults(data.results)
         setShowResultsModal(true)
         await fetchData()
+      } else if (data.approval && !data.approval.approvedByMe) {
+        // The run's total is above the threshold and still needs approvals
+        if (confirm(t("admin.payouts.approveBulkConfirm")
+          .replace("{amount}", parseFloat(data.approval.amount).toFixed(2))
+          .replace("{count}", data.approval.count)
+          .replace("{required}", data.approval.required))) {
+          await handleApproveBulk(data.approval.commissionIds)
+        }
       } else {
         alert(`Error: ${data.error}`)
       }
@@ -399,11 +473,22 @@ export default function AdminPayoutsPage() {
         </CardContent>
       </Card>
 
+      {/* Member withdrawal requests */}
+      <WithdrawalQueueCard onPaid={fetchData} />
+
       {/* Commissions Table */}
       <Card>
         <CardHeader>
           <CardTitle>{t("admin.payouts.commissionDetails")}</CardTitle>
           <CardDescription>{t("admin.payouts.commissionDetailsDesc")}</CardDescription>
+          {approvalPolicy && approvalPolicy.requiredApprovals > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {t("admin.payouts.approvalPolicyNote")
+                .replace("{threshold}", approvalPolicy.thresholdUsd.toFixed(2))
+                .replace("{required}", String(approvalPolicy.requiredApprovals))
+                .replace("{hours}", String(approvalPolicy.windowHours))}
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <div className="rounded-md border">
@@ -486,6 +571,17 @@ export default function AdminPayoutsPage() {
                             {commission.status}
                           </Badge>
                         )}
+                        {commission.approval && (
+                          <Badge
+                            variant="outline"
+                            className={`ml-1 ${commission.approval.quorumReached ? "text-[#C49B3E] border-[#D4A853]" : "text-muted-foreground"}`}
+                            title={commission.approval.quorumReached ? undefined : t("admin.payouts.awaitingApprovals")}
+                          >
+                            {t("admin.payouts.approvals")
+                              .replace("{count}", String(commission.approval.count))
+                              .replace("{required}", String(commission.approval.required))}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         {commission.usdcTransactionId ? (
@@ -514,12 +610,46 @@ export default function AdminPayoutsPage() {
                       <TableCell className="text-right">
                         {(commission.status === "pending" || commission.status === "failed") ? (
                           <div className="flex gap-2 justify-end">
+                            {commission.approval && !commission.approval.quorumReached && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleApprove(commission.id)}
+                                disabled={
+                                  processing ||
+                                  processingId === commission.id ||
+                                  commission.approval.approvedByMe ||
+                                  commission.createdByAdminId === currentUserId
+                                }
+                                title={
+                                  commission.approval.approvedByMe
+                                    ? t("admin.payouts.approvedByYou")
+                                    : commission.createdByAdminId === currentUserId
+                                      ? t("admin.payouts.cannotApproveOwn")
+                                      : ""
+                                }
+                              >
+                                <CheckCircle className="h-3 w-3 mr-1" />
+                                {t("admin.payouts.approve")}
+                              </Button>
+                            )}
                             <Button
                               size="sm"
                               variant="outline"
                               onClick={() => handleProcessSingle(commission.id)}
-                              disabled={processing || processingId === commission.id || !commission.payoutWalletAddress}
-                              title={!commission.payoutWalletAddress ? t("admin.payouts.noPayoutWallet") : ""}
+                              disabled={
+                                processing ||
+                                processingId === commission.id ||
+                                !commission.payoutWalletAddress ||
+                                (commission.approval !== null && !commission.approval.quorumReached)
+                              }
+                              title={
+                                !commission.payoutWalletAddress
+                                  ? t("admin.payouts.noPayoutWallet")
+                                  : commission.approval && !commission.approval.quorumReached
+                                    ? t("admin.payouts.awaitingApprovals")
+                                    : ""
+                              }
                             >
                               {processingId === commission.id ? (
                                 <>
@@ -57,6 +57,9 @@ interface DashboardData {
   completedStructures: number
   unlockedStructures: number
   maxMembersPerStructure: number
+  // Commission % for structure 1, 2, ... under the current compensation plan
+  structureRates: number[]
+  directReferralsPerStructure: number
   payoutWalletAddress?: string | null
 }
 
@@ -116,6 +119,8 @@ export function DashboardClient({
   const [bannerDismissed, setBannerDismissed] = useState(bypassBannerDismissed)
   const [showReferralModal, setShowReferralModal] = useState(false)
   const rankInfo = getRankInfo(data.completedStructures)
+  const structureRate = (structureNum: number) =>
+    data.structureRates[Math.min(structureNum, data.structureRates.length) - 1] ?? 0
 
   // Check if we should show the referral confirmation modal
   useEffect(() => {
@@ -552,16 +557,16 @@ export function DashboardClient({
                   <div className="p-3 rounded-lg bg-surface-2">
                     <p className="text-sm text-muted-foreground">{t("dashboard.commissionRate")}</p>
                     <p className="text-2xl font-bold">
-                      {10 + data.completedStructures}%
+                      {(data.commissionRate * 100).toFixed(0)}%
                     </p>
                   </div>
-                  <div className={`p-3 rounded-lg ${data.directReferrals >= 3 ? 'bg-[#D4A853]/20 border-2 border-[#D4A853]' : 'bg-red-500/20 border-2 border-red-500'}`}>
+                  <div className={`p-3 rounded-lg ${data.directReferrals >= data.directReferralsPerStructure ? 'bg-[#D4A853]/20 border-2 border-[#D4A853]' : 'bg-red-500/20 border-2 border-red-500'}`}>
                     <p className="text-sm text-muted-foreground">{t("dashboard.activeDirectReferrals")}</p>
-                    <p className={`text-2xl font-bold ${data.directReferrals >= 3 ? 'text-[#D4A853]' : 'text-red-600'}`}>{data.directReferrals}</p>
+                    <p className={`text-2xl font-bold ${data.directReferrals >= data.directReferralsPerStructure ? 'text-[#D4A853]' : 'text-red-600'}`}>{data.directReferrals}</p>
                   </div>
                   <div className="p-3 rounded-lg bg-surface-2">
                     <p className="text-sm text-muted-foreground">{t("dashboard.totalTeam")}</p>
-                    <p className="text-2xl font-bold">{data.activeTeamSize}/{data.unlockedStructures * 1092}</p>
+                    <p className="text-2xl font-bold">{data.activeTeamSize}/{data.unlockedStructures * data.maxMembersPerStructure}</p>
                   </div>
                 </div>
                 
@@ -576,8 +581,8 @@ export function DashboardClient({
                     >
                       {Array.from({ length: 6 }, (_, i) => i + 1).map((structureNum) => {
                       const isUnlocked = structureNum <= data.unlockedStructures
-                      const structureStart = (structureNum - 1) * 1092
-                      const membersInStructure = Math.max(0, Math.min(data.activeTeamSize - structureStart, 1092))
+                      const structureStart = (structureNum - 1) * data.maxMembersPerStructure
+                      const membersInStructure = Math.max(0, Math.min(data.activeTeamSize - structureStart, data.maxMembersPerStructure))
                       const isComplete = structureNum <= data.completedStructures
 
                       // Get rank info for this specific structure based on completion
@@ -610,7 +615,7 @@ export function DashboardClient({
                               <div className="text-center">
                                 <div className="font-bold text-sm">{t("dashboard.structure", { num: structureNum })}</div>
                                 <div className="text-xs text-muted-foreground">
-                                  {isComplete ? 10 + structureNum : 10 + Math.max(0, structureNum - 1)}% {t("dashboard.commission")}
+                                  {structureRate(structureNum)}% {t("dashboard.commission")}
                                 </div>
                                 <div className="text-xs font-medium mt-1">
                                   {structureRank.name}
@@ -620,7 +625,7 @@ export function DashboardClient({
                                 )}
                                 {isUnlocked && !isComplete && (
                                   <div className="text-xs mt-1 text-muted-foreground">
-                                    {membersInStructure}/1092
+                                    {membersInStructure}/{data.maxMembersPerStructure}
                                   </div>
                                 )}
                                 {!isUnlocked && (
@@ -648,7 +653,7 @@ export function DashboardClient({
                           <div className="text-center">
                             <div className="font-bold text-sm">{t("dashboard.ultimate")}</div>
                             <div className="text-xs text-muted-foreground">
-                              16% {t("dashboard.commission")}
+                              {structureRate(data.structureRates.length)}% {t("dashboard.commission")}
                             </div>
                             <div className="text-xs font-medium mt-1 text-yellow-500">
                               Lion Master Sniper
@@ -670,10 +675,10 @@ export function DashboardClient({
                   {(() => {
                     const structureNum = parseInt(selectedStructure)
                     const isUnlocked = structureNum <= data.unlockedStructures
-                    const requiredDirectReferrals = structureNum === 1 ? 3 : structureNum * 3
-                    const structureStart = (structureNum - 1) * 1092
-                    const membersInStructure = Math.max(0, Math.min(data.activeTeamSize - structureStart, 1092))
-                    const progress = isUnlocked ? (membersInStructure / 1092) * 100 : 0
+                    const requiredDirectReferrals = structureNum * data.directReferralsPerStructure
+                    const structureStart = (structureNum - 1) * data.maxMembersPerStructure
+                    const membersInStructure = Math.max(0, Math.min(data.activeTeamSize - structureStart, data.maxMembersPerStructure))
+                    const progress = isUnlocked ? (membersInStructure / data.maxMembersPerStructure) * 100 : 0
                     
                     return (
                       <>
@@ -681,7 +686,7 @@ export function DashboardClient({
                           <div>
                             <h3 className="font-semibold">{t("dashboard.structure", { num: structureNum })}</h3>
                             <p className="text-sm text-muted-foreground">
-                              {t("dashboard.commissionRateDesc", { rate: structureNum <= data.completedStructures ? 10 + structureNum : 10 + Math.max(0, structureNum - 1) })} • {t("dashboard.requires", { count: requiredDirectReferrals })}
+                              {t("dashboard.commissionRateDesc", { rate: structureRate(structureNum) })} • {t("dashboard.requires", { count: requiredDirectReferrals })}
                             </p>
                           </div>
                           {isUnlocked ? (
@@ -696,7 +701,7 @@ export function DashboardClient({
                           <div>
                             <div className="flex justify-between text-sm mb-1">
                               <span className="text-muted-foreground">{t("dashboard.members")}</span>
-                              <span>{membersInStructure}/1092</span>
+                              <span>{membersInStructure}/{data.maxMembersPerStructure}</span>
                             </div>
                             <Progress value={progress} className="h-2" />
                           </div>
@@ -750,7 +755,7 @@ export function DashboardClient({
                 <AnimatedNumber value={data.monthlyCommission} prefix="$" decimals={2} />
               </div>
               <p className="text-[12px] text-foreground-tertiary mt-1">
-                {t("dashboard.ofTeamPool", { rate: 10 + data.completedStructures })}
+                {t("dashboard.ofTeamPool", { rate: (data.commissionRate * 100).toFixed(0) })}
               </p>
             </CardContent>
           </Card>
@@ -765,8 +770,8 @@ export function DashboardClient({
               <CardTitle className="text-[13px] font-medium text-foreground-secondary">{t("dashboard.activeDirectReferrals")}</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className={`text-2xl font-bold ${data.directReferrals >= 3 ? 'text-gold-400' : 'text-red-400'}`}>
-                {data.directReferrals}/{data.unlockedStructures * 3}
+              <div className={`text-2xl font-bold ${data.directReferrals >= data.directReferralsPerStructure ? 'text-gold-400' : 'text-red-400'}`}>
+                {data.directReferrals}/{data.unlockedStructures * data.directReferralsPerStructure}
               </div>
               <p className="text-[12px] text-foreground-tertiary mt-1">
                 {t("dashboard.acrossStructures", { count: data.unlockedStructures })}
@@ -2,6 +2,7 @@ import { createClient } from "@/lib/supabase/server"
 import { isTestUser, mockDashboardData } from "@/lib/mock-data"
 import { DashboardClient } from "./dashboard-client"
 import { redirect } from "next/navigation"
+import { cookies } from "next/headers"
 
 async function getDashboardData(userId: string) {
   // Return mock data for test user
@@ -27,6 +28,8 @@ async function getDashboardData(userId: string) {
       completedStructures: 0,
       unlockedStructures: 1,
       maxMembersPerStructure: 1092,
+      structureRates: [10, 11, 12, 13, 14, 15, 16],
+      directReferralsPerStructure: 3,
     }
   }
 
@@ -45,8 +48,11 @@ async function getDashboardData(userId: string) {
 
   // Get network stats from new API
   const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  // Forward the session so the API's member access check sees this user
+  const cookieStore = await cookies()
   const statsResponse = await fetch(`${baseUrl}/api/network/stats?userId=${userId}`, {
-    cache: 'no-store'
+    cache: 'no-store',
+    headers: { cookie: cookieStore.toString() }
   })
 
   let networkStats = null
@@ -98,7 +104,19 @@ async function getDashboardData(userId: string) {
   const pendingEarnings = commissions?.filter(c => c.status === "pending")
     .reduce((sum, c) => sum + Number(c.amount), 0) || 0
 
-  const maxMembersPerStructure = 1092 // 3 + 9 + 27 + 81 + 243 + 729
+  // Structure size, rates and referral requirement come from the compensation
+  // plan in effect; fall back to the original plan if stats are unavailable
+  const plan = networkStats?.plan
+  const maxMembersPerStructure: number = plan?.structureSize || 1092 // 3 + 9 + 27 + 81 + 243 + 729
+  const directReferralsPerStructure: number = plan?.directReferralsPerStructure ?? 3
+  const structureRates: number[] = plan
+    ? Array.from({ length: plan.maxStructures }, (_, i) => {
+        const tier = plan.rateTiers
+          .filter((t: { structure: number; rate: number }) => t.structure <= i + 1)
+          .pop()
+        return Math.round((tier?.rate || 0) * 10000) / 100
+      })
+    : [10, 11, 12, 13, 14, 15, 16]
 
   return {
     user,
@@ -119,6 +137,8 @@ async function getDashboardData(userId: string) {
     completedStructures,
     unlockedStructures,
     maxMembersPerStructure,
+    structureRates,
+    directReferralsPerStructure,
     payoutWalletAddress: user?.payout_wallet_address || null,
   }
 }
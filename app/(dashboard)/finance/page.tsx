@@ -21,11 +21,14 @@ import {
 } from "lucide-react"
 import { AccountStatusCard } from "@/components/account-status-card"
 import PayoutWalletSetup from "@/components/crypto/PayoutWalletSetup"
+import WithdrawalRequestCard from "@/components/crypto/WithdrawalRequestCard"
 import { motion } from "framer-motion"
 import { staggerContainer, staggerItem } from "@/lib/motion"
 import { AnimatedNumber } from "@/components/motion/animated-number"
 import { PageHeader } from "@/components/page-header"
 import { useTranslation } from "@/components/language-provider"
+import { EarningsProjection } from "@/components/earnings-projection"
+import type { PlanTerms } from "@/lib/compensation/plan-engine"
 
 interface DirectBonus {
   id: string
@@ -82,6 +85,11 @@ export default function FinancePage() {
     activeMembers: 0,
     commissionRate: 0.10
   })
+  const [projectionStart, setProjectionStart] = useState<{
+    plan: PlanTerms & { version: number }
+    activeNetworkCount: number
+    directReferrals: number
+  } | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -132,6 +140,13 @@ export default function FinancePage() {
         // Fetch real network stats
         const statsResponse = await fetch(`/api/network/stats?userId=${userId}`)
         const stats = await statsResponse.json()
+        if (stats.plan) {
+          setProjectionStart({
+            plan: stats.plan,
+            activeNetworkCount: stats.network?.activeMembers || 0,
+            directReferrals: Math.max(stats.network?.directReferrals || 0, userData?.bypass_direct_referrals || 0)
+          })
+        }
 
         // Fetch real payment history
         const { data: payments } = await supabase
@@ -296,6 +311,8 @@ export default function FinancePage() {
       </Card>
       </div>{/* end Account Status + Payout grid */}
 
+      <WithdrawalRequestCard />
+
       {/* Legacy Qualification Status - Hidden when using new countdown */}
       {false && !financialStats.isQualified && (
         <Card className="mb-6 border-yellow-500/20 bg-yellow-500/5">
@@ -474,6 +491,7 @@ export default function FinancePage() {
           <TabsTrigger value="residual">{t("finance.residualIncome")}</TabsTrigger>
           <TabsTrigger value="bonuses">{t("finance.directBonuses")}</TabsTrigger>
           <TabsTrigger value="history">{t("finance.earningsHistory")}</TabsTrigger>
+          <TabsTrigger value="projection">{t("finance.projection")}</TabsTrigger>
           <TabsTrigger value="settings">{t("finance.payoutSettings")}</TabsTrigger>
         </TabsList>
 
@@ -698,6 +716,18 @@ export default function FinancePage() {
           </Card>
         </TabsContent>
 
+        {/* Earnings Projection Tab */}
+        <TabsContent value="projection" className="space-y-4">
+          {projectionStart && (
+            <EarningsProjection
+              plan={projectionStart.plan}
+              activeNetworkCount={projectionStart.activeNetworkCount}
+              directReferrals={projectionStart.directReferrals}
+              paymentSchedule={accountStatus.paymentSchedule}
+            />
+          )}
+        </TabsContent>
+
         {/* Payout Settings Tab */}
         <TabsContent value="settings" className="space-y-4">
           <Card>
@@ -10,12 +10,16 @@ import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Separator } from '@/components/ui/separator'
 import { Badge } from '@/components/ui/badge'
-import { Bell, BellOff, Mail, MessageSquare, Clock, CheckCircle2, XCircle, AlertCircle, Loader2 } from 'lucide-react'
+import { Bell, BellOff, Mail, MessageSquare, MessageCircle, Clock, CheckCircle2, XCircle, AlertCircle, Loader2, Layers } from 'lucide-react'
 import { motion } from "framer-motion"
 import { PageHeader } from "@/components/page-header"
 import { SectionHeader } from "@/components/section-header"
 import { useTranslation } from "@/components/language-provider"
 
+type DigestFrequency = 'immediate' | 'daily' | 'weekly'
+
+const DIGEST_FREQUENCIES: DigestFrequency[] = ['immediate', 'daily', 'weekly']
+
 // Common timezones for the select
 const COMMON_TIMEZONES = [
   { value: 'America/New_York', label: 'Eastern Time (ET)' },
@@ -57,6 +61,24 @@ interface NotificationPreferences {
     payment_failed: boolean
     account_inactive: boolean
   }
+  whatsapp?: {
+    enabled: boolean
+    referral_signups: boolean
+    network_joins: boolean
+    direct_bonus: boolean
+    monthly_commission: boolean
+    payouts: boolean
+    volume_updates: boolean
+    structure_milestones: boolean
+    payment_failed: boolean
+    account_inactive: boolean
+  }
+  in_app?: {
+    enabled: boolean
+  }
+  digest?: {
+    frequency: DigestFrequency
+  }
   quiet_hours: {
     enabled: boolean
     start: string
@@ -70,12 +92,23 @@ interface SMSConsent {
   phone_number: string
 }
 
+interface DisabledChannel {
+  channel: 'email' | 'sms' | 'whatsapp'
+  reason: string | null
+  disabled_at: string | null
+  re_enable_requested: boolean
+  re_enable_requested_at: string | null
+  re_enable_declined_reason: string | null
+}
+
 interface NotificationHealth {
   email_bounces: number
   email_complaints: number
   sms_failures: number
   email_disabled: boolean
   sms_disabled: boolean
+  whatsapp_disabled?: boolean
+  disabled_channels?: DisabledChannel[]
 }
 
 export default function NotificationsPage() {
@@ -94,8 +127,20 @@ export default function NotificationsPage() {
   const [verificationCode, setVerificationCode] = useState('')
   const [showVerification, setShowVerification] = useState(false)
   const [smsLoading, setSmsLoading] = useState(false)
+
+  // WhatsApp opt-in flow
+  const [whatsappConsent, setWhatsappConsent] = useState<SMSConsent | null>(null)
+  const [showWhatsappOptIn, setShowWhatsappOptIn] = useState(false)
+  const [whatsappPhone, setWhatsappPhone] = useState('')
+  const [whatsappCode, setWhatsappCode] = useState('')
+  const [showWhatsappVerification, setShowWhatsappVerification] = useState(false)
+  const [whatsappLoading, setWhatsappLoading] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
 
+  // Re-enable requests for channels disabled by delivery problems
+  const [reEnableNotes, setReEnableNotes] = useState<Record<string, string>>({})
+  const [reEnableLoading, setReEnableLoading] = useState<string | null>(null)
+
   useEffect(() => {
     fetchPreferences()
   }, [])
@@ -110,6 +155,7 @@ export default function NotificationsPage() {
         setPhoneNumber(data.phoneNumber || '')
         setTimezone(data.timezone || 'America/New_York')
         setSmsConsent(data.smsConsent)
+        setWhatsappConsent(data.whatsappConsent)
         setNotificationHealth(data.health)
       }
     } catch (error) {
@@ -202,6 +248,90 @@ export default function NotificationsPage() {
     }
   }
 
+  const handleWhatsappOptIn = async () => {
+    setWhatsappLoading(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/notifications/opt-in-whatsapp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber: whatsappPhone })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: data.message })
+        setShowWhatsappVerification(true)
+        setShowWhatsappOptIn(false)
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to send verification code' })
+      }
+    } catch (error) {
+      console.error('Error opting in to WhatsApp:', error)
+      setMessage({ type: 'error', text: 'An error occurred' })
+    } finally {
+      setWhatsappLoading(false)
+    }
+  }
+
+  const handleVerifyWhatsapp = async () => {
+    setWhatsappLoading(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/notifications/verify-whatsapp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: whatsappCode })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: data.message })
+        setShowWhatsappVerification(false)
+        setWhatsappCode('')
+        fetchPreferences()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Invalid verification code' })
+      }
+    } catch (error) {
+      console.error('Error verifying WhatsApp:', error)
+      setMessage({ type: 'error', text: 'An error occurred' })
+    } finally {
+      setWhatsappLoading(false)
+    }
+  }
+
+  const handleRequestReEnable = async (channel: DisabledChannel['channel']) => {
+    setReEnableLoading(channel)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/notifications/re-enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel, note: reEnableNotes[channel] })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: t("notifications.reEnableRequested") })
+        fetchPreferences()
+      } else {
+        setMessage({ type: 'error', text: data.error || t("notifications.reEnableFailed") })
+      }
+    } catch (error) {
+      console.error('Error requesting re-enable:', error)
+      setMessage({ type: 'error', text: 'An error occurred' })
+    } finally {
+      setReEnableLoading(null)
+    }
+  }
+
   const toggleEmailChannel = () => {
     if (!preferences) return
     setPreferences({
@@ -218,6 +348,22 @@ export default function NotificationsPage() {
     })
   }
 
+  const toggleWhatsappChannel = () => {
+    if (!preferences?.whatsapp) return
+    setPreferences({
+      ...preferences,
+      whatsapp: { ...preferences.whatsapp, enabled: !preferences.whatsapp.enabled }
+    })
+  }
+
+  const toggleInAppChannel = () => {
+    if (!preferences) return
+    setPreferences({
+      ...preferences,
+      in_app: { enabled: preferences.in_app?.enabled === false }
+    })
+  }
+
   const toggleEmailNotification = (type: keyof Omit<NotificationPreferences['email'], 'enabled'>) => {
     if (!preferences) return
     setPreferences({
@@ -240,6 +386,17 @@ export default function NotificationsPage() {
     })
   }
 
+  const toggleWhatsappNotification = (type: keyof Omit<NonNullable<NotificationPreferences['whatsapp']>, 'enabled'>) => {
+    if (!preferences?.whatsapp) return
+    setPreferences({
+      ...preferences,
+      whatsapp: {
+        ...preferences.whatsapp,
+        [type]: !preferences.whatsapp[type]
+      }
+    })
+  }
+
   const toggleQuietHours = () => {
     if (!preferences) return
     setPreferences({
@@ -251,6 +408,14 @@ export default function NotificationsPage() {
     })
   }
 
+  const updateDigestFrequency = (frequency: DigestFrequency) => {
+    if (!preferences) return
+    setPreferences({
+      ...preferences,
+      digest: { frequency }
+    })
+  }
+
   const updateQuietHoursTime = (field: 'start' | 'end', value: string) => {
     if (!preferences) return
     setPreferences({
@@ -300,27 +465,52 @@ export default function NotificationsPage() {
       )}
 
       {/* Notification Health Status */}
-      {notificationHealth && (notificationHealth.email_disabled || notificationHealth.sms_disabled) && (
+      {notificationHealth?.disabled_channels && notificationHealth.disabled_channels.length > 0 && (
         <Card className="mb-6 border-yellow-200 bg-yellow-50">
           <CardHeader>
             <div className="flex items-center gap-2">
               <AlertCircle className="h-5 w-5 text-yellow-600" />
-              <CardTitle className="text-yellow-900">Notification Health Alert</CardTitle>
+              <CardTitle className="text-yellow-900">{t("notifications.healthAlert")}</CardTitle>
             </div>
           </CardHeader>
-          <CardContent className="text-yellow-800">
-            {notificationHealth.email_disabled && (
-              <p className="mb-2">
-                ⚠️ Email notifications have been automatically disabled due to bounces or complaints.
-                Please verify your email address in settings.
-              </p>
-            )}
-            {notificationHealth.sms_disabled && (
-              <p>
-                ⚠️ SMS notifications have been automatically disabled due to delivery failures.
-                Please update your phone number.
-              </p>
-            )}
+          <CardContent className="space-y-4 text-yellow-800">
+            {notificationHealth.disabled_channels.map((disabled) => (
+              <div key={disabled.channel} className="space-y-2">
+                <p>
+                  ⚠️ {t(`notifications.channelDisabled_${disabled.channel}`)}
+                  {disabled.reason && <span className="text-sm"> ({disabled.reason})</span>}
+                </p>
+                {disabled.re_enable_requested ? (
+                  <Badge variant="outline" className="border-yellow-300 text-yellow-900">
+                    {t("notifications.reEnablePending", {
+                      date: disabled.re_enable_requested_at ? new Date(disabled.re_enable_requested_at).toLocaleDateString() : ''
+                    })}
+                  </Badge>
+                ) : (
+                  <>
+                    {disabled.re_enable_declined_reason && (
+                      <p className="text-sm">{t("notifications.reEnableDeclined", { reason: disabled.re_enable_declined_reason })}</p>
+                    )}
+                    <div className="flex flex-col gap-2 sm:flex-row">
+                      <Input
+                        className="bg-white"
+                        placeholder={t("notifications.reEnableNotePlaceholder")}
+                        value={reEnableNotes[disabled.channel] || ''}
+                        onChange={(e) => setReEnableNotes({ ...reEnableNotes, [disabled.channel]: e.target.value })}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => handleRequestReEnable(disabled.channel)}
+                        disabled={reEnableLoading === disabled.channel}
+                      >
+                        {reEnableLoading === disabled.channel && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t("notifications.requestReEnable")}
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
           </CardContent>
         </Card>
       )}
@@ -356,6 +546,25 @@ export default function NotificationsPage() {
 
           <Separator />
 
+          {/* In-app Channel */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Bell className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <Label className="text-base font-medium">{t("notifications.inAppNotifications")}</Label>
+                <p className="text-sm text-muted-foreground">
+                  {t("notifications.receiveInApp")}
+                </p>
+              </div>
+            </div>
+            <Switch
+              checked={preferences?.in_app?.enabled !== false}
+              onCheckedChange={toggleInAppChannel}
+            />
+          </div>
+
+          <Separator />
+
           {/* SMS Channel */}
           <div>
             <div className="flex items-center justify-between mb-4">
@@ -460,6 +669,115 @@ export default function NotificationsPage() {
               </div>
             )}
           </div>
+
+          <Separator />
+
+          {/* WhatsApp Channel */}
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <MessageCircle className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <Label className="text-base font-medium">{t("notifications.whatsappNotifications")}</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {t("notifications.receiveViaWhatsapp")}
+                  </p>
+                </div>
+              </div>
+              {whatsappConsent?.is_verified && whatsappConsent.opted_in ? (
+                <Switch
+                  checked={preferences?.whatsapp?.enabled || false}
+                  onCheckedChange={toggleWhatsappChannel}
+                  disabled={notificationHealth?.whatsapp_disabled}
+                />
+              ) : (
+                <Badge variant="outline">{t("notifications.notSetUp")}</Badge>
+              )}
+            </div>
+
+            {/* WhatsApp Opt-in Section */}
+            {!(whatsappConsent?.is_verified && whatsappConsent.opted_in) && (
+              <div className="ml-8 p-4 bg-surface-2 rounded-lg">
+                {!showWhatsappOptIn && !showWhatsappVerification && (
+                  <div>
+                    <p className="text-sm text-muted-foreground mb-3">
+                      {t("notifications.whatsappNotEnabled")}
+                    </p>
+                    <Button
+                      onClick={() => {
+                        setWhatsappPhone(phoneNumber)
+                        setShowWhatsappOptIn(true)
+                      }}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {t("notifications.enableWhatsapp")}
+                    </Button>
+                  </div>
+                )}
+
+                {showWhatsappOptIn && (
+                  <div className="space-y-3">
+                    <Label htmlFor="whatsapp-phone">{t("notifications.whatsappNumber")}</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="whatsapp-phone"
+                        type="tel"
+                        placeholder="+1234567890"
+                        value={whatsappPhone}
+                        onChange={(e) => setWhatsappPhone(e.target.value)}
+                        disabled={whatsappLoading}
+                      />
+                      <Button
+                        onClick={handleWhatsappOptIn}
+                        disabled={whatsappLoading || !whatsappPhone}
+                      >
+                        {whatsappLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : t("notifications.sendCode")}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t("notifications.whatsappConsentNotice")}
+                    </p>
+                  </div>
+                )}
+
+                {showWhatsappVerification && (
+                  <div className="space-y-3">
+                    <Label htmlFor="whatsapp-code">{t("notifications.verificationCode")}</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t("notifications.whatsappEnterCode")}
+                    </p>
+                    <div className="flex gap-2">
+                      <Input
+                        id="whatsapp-code"
+                        type="text"
+                        placeholder="123456"
+                        value={whatsappCode}
+                        onChange={(e) => setWhatsappCode(e.target.value)}
+                        disabled={whatsappLoading}
+                        maxLength={6}
+                      />
+                      <Button
+                        onClick={handleVerifyWhatsapp}
+                        disabled={whatsappLoading || whatsappCode.length !== 6}
+                      >
+                        {whatsappLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : t("notifications.verify")}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {whatsappConsent?.is_verified && whatsappConsent.opted_in && (
+              <div className="ml-8 p-3 bg-[#D4A853]/10 border border-[#D4A853]/20 rounded-lg flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-[#D4A853]" />
+                <span className="text-sm text-[#C49B3E]">
+                  {t("notifications.whatsappVerifiedFor", { last4: whatsappConsent.phone_number.slice(-4) })}
+                </span>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -496,6 +814,14 @@ export default function NotificationsPage() {
                     />
                     <Label className="text-sm">SMS</Label>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={preferences?.whatsapp?.[type.id as keyof Omit<NonNullable<NotificationPreferences['whatsapp']>, 'enabled'>] || false}
+                      onCheckedChange={() => toggleWhatsappNotification(type.id as keyof Omit<NonNullable<NotificationPreferences['whatsapp']>, 'enabled'>)}
+                      disabled={!preferences?.whatsapp?.enabled || !whatsappConsent?.is_verified || notificationHealth?.whatsapp_disabled}
+                    />
+                    <Label className="text-sm">WhatsApp</Label>
+                  </div>
                 </div>
               </div>
             ))}
@@ -584,6 +910,40 @@ export default function NotificationsPage() {
         </CardContent>
       </Card>
 
+      {/* Digest */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            {t("notifications.digest")}
+          </CardTitle>
+          <CardDescription>
+            {t("notifications.digestDesc")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select
+            value={preferences?.digest?.frequency || 'immediate'}
+            onValueChange={(value) => updateDigestFrequency(value as DigestFrequency)}
+            disabled={!preferences?.email.enabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIGEST_FREQUENCIES.map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {t(`notifications.digest_${frequency}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t("notifications.digestHint")}
+          </p>
+        </CardContent>
+      </Card>
+
       </div>{/* end Schedule grid */}
 
       {/* Save Button */}
@@ -633,7 +993,7 @@ export default function NotificationsPage() {
               <div>
                 <p className="text-muted-foreground">{t("notifications.statusLabel")}</p>
                 <div className="flex items-center gap-2">
-                  {!notificationHealth.email_disabled && !notificationHealth.sms_disabled ? (
+                  {!notificationHealth.disabled_channels?.length ? (
                     <>
                       <CheckCircle2 className="h-4 w-4 text-[#D4A853]" />
                       <span className="text-[#D4A853] font-medium">{t("notifications.healthy")}</span>
@@ -11,6 +11,10 @@ import { Progress } from "@/components/ui/progress"
 import { StructureDropdown } from "@/components/team/structure-dropdown"
 import { MemberInsights } from "@/components/team/member-insights"
 import { TeamExplorer } from "@/components/team/team-explorer"
+import { PlacementSettings } from "@/components/team/placement-settings"
+import { HoldingTank } from "@/components/team/holding-tank"
+import { EarningsProjection } from "@/components/earnings-projection"
+import { getCommissionRate, type PlanTerms } from "@/lib/compensation/plan-engine"
 import {
   Users,
   UserPlus,
@@ -67,16 +71,22 @@ interface TreeChild {
   is_direct_referral: boolean
 }
 
+// Rows per network_closure read; the API caps a single read
+const DOWNLINE_PAGE_SIZE = 1000
+
 export default function TeamPage() {
   const { t } = useTranslation()
   const [userId, setUserId] = useState<string | null>(null)
+  const [networkPositionId, setNetworkPositionId] = useState<string | null>(null)
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
   const [directReferrals, setDirectReferrals] = useState<TeamMember[]>([])
   const [treeChildren, setTreeChildren] = useState<TreeChild[]>([])
   const [selectedMember, setSelectedMember] = useState<TeamMember | null>(null)
   const [showMemberDialog, setShowMemberDialog] = useState(false)
+  const [placementMember, setPlacementMember] = useState<{ id: string; name: string } | null>(null)
   const [isUserActive, setIsUserActive] = useState(false)
   const [hasPremiumBypass, setHasPremiumBypass] = useState(false)
+  const [bypassDirectReferrals, setBypassDirectReferrals] = useState(0)
   const [teamStats, setTeamStats] = useState({
     totalMembers: 0,
     activeMembers: 0,
@@ -91,6 +101,17 @@ export default function TeamPage() {
     currentStructureProgress: 0
   })
   const [loading, setLoading] = useState(true)
+  // Compensation plan in effect (from /api/network/stats); defaults to the original plan
+  const [plan, setPlan] = useState<PlanTerms & { version: number }>({
+    version: 1,
+    structureSize: 1092,
+    maxStructures: 7,
+    contributionAmount: 199,
+    directReferralsPerStructure: 3,
+    rateTiers: [1, 2, 3, 4, 5, 6, 7].map((structure) => ({ structure, rate: (9 + structure) / 100 })),
+    maxCommissionableVolume: null,
+    maxMonthlyCommission: null,
+  })
 
   useEffect(() => {
     async function getUser() {
@@ -110,6 +131,7 @@ export default function TeamPage() {
       // Fetch network stats from API
       const statsResponse = await fetch(`/api/network/stats?userId=${userId}`)
       const stats = await statsResponse.json()
+      if (stats.plan) setPlan(stats.plan)
 
       const supabase = createClient()
 
@@ -122,6 +144,8 @@ export default function TeamPage() {
 
       setIsUserActive(currentUser?.is_active || currentUser?.bypass_subscription || false)
       setHasPremiumBypass((currentUser?.bypass_direct_referrals || 0) > 0)
+      setBypassDirectReferrals(currentUser?.bypass_direct_referrals || 0)
+      setNetworkPositionId(currentUser?.network_position_id || null)
 
       if (!currentUser?.network_position_id) {
         // User doesn't have a network position yet
@@ -129,10 +153,19 @@ export default function TeamPage() {
         return
       }
 
-      // Get all downline members using the database function
-      const { data: downlineMembers } = await supabase
-        .rpc("get_downline_contributors", { p_user_id: userId })
-        .limit(10000)
+      // Get all downline members with their details, a page at a time
+      const downlineRows = []
+      for (let offset = 0; ; offset += DOWNLINE_PAGE_SIZE) {
+        const { data: page } = await supabase
+          .from("network_closure")
+          .select("member:users!network_closure_descendant_id_fkey(id, name, email, network_position_id, network_level, is_active, created_at, direct_referrals_count, active_network_count)")
+          .eq("ancestor_id", userId)
+          .order("descendant_id")
+          .range(offset, offset + DOWNLINE_PAGE_SIZE - 1)
+
+        downlineRows.push(...(page || []))
+        if (!page || page.length < DOWNLINE_PAGE_SIZE) break
+      }
 
       // Get tree children (3 direct positions below user)
       const treeChildrenResponse = await fetch(`/api/network/tree-children?userId=${userId}`)
@@ -145,40 +178,34 @@ export default function TeamPage() {
         .select("id, name, email, network_position_id, network_level, is_active, created_at, direct_referrals_count, active_direct_referrals_count, active_network_count, total_network_count")
         .eq("referred_by", userId)
 
-      // Get full user details for all downline members
-      const downlineIds = downlineMembers?.map((m: { contributor_id: string }) => m.contributor_id) || []
-      const { data: fullUserData } = await supabase
-        .from("users")
-        .select("id, name, email, created_at, is_active, direct_referrals_count, active_network_count, network_level")
-        .in("id", downlineIds)
-        .limit(10000)
-
-      // Create a map for quick lookup
-      const userDataMap = new Map(fullUserData?.map(u => [u.id, u]) || [])
-
       // Format member data
-      const formattedMembers: TeamMember[] = downlineMembers?.map((m: {
-        contributor_id: string
-        contributor_name: string
-        contributor_position_id: string
-        is_active: boolean
-      }) => {
-        const userData = userDataMap.get(m.contributor_id)
-        const isDirectReferral = directRefs?.some(d => d.id === m.contributor_id) || false
-
-        return {
-          id: m.contributor_id,
-          name: m.contributor_name || "Unknown",
-          email: userData?.email || "",
-          network_position_id: m.contributor_position_id,
-          level: userData?.network_level || 1,
-          created_at: userData?.created_at || new Date().toISOString(),
+      const formattedMembers: TeamMember[] = downlineRows.flatMap((row) => {
+        const m = (Array.isArray(row.member) ? row.member[0] : row.member) as {
+          id: string
+          name: string | null
+          email: string | null
+          network_position_id: string
+          network_level: number | null
+          is_active: boolean | null
+          created_at: string | null
+          direct_referrals_count: number | null
+          active_network_count: number | null
+        } | null
+        if (!m) return []
+
+        return [{
+          id: m.id,
+          name: m.name || "Unknown",
+          email: m.email || "",
+          network_position_id: m.network_position_id,
+          level: m.network_level || 1,
+          created_at: m.created_at || new Date().toISOString(),
           subscription_status: m.is_active ? "active" : "inactive",
-          is_direct_referral: isDirectReferral,
-          referrals_count: userData?.direct_referrals_count || 0,
-          active_network_count: userData?.active_network_count || 0
-        }
-      }) || []
+          is_direct_referral: directRefs?.some(d => d.id === m.id) || false,
+          referrals_count: m.direct_referrals_count || 0,
+          active_network_count: m.active_network_count || 0
+        }]
+      })
 
       // Separate direct referrals with full stats
       const directs = directRefs?.map(d => ({
@@ -234,7 +261,7 @@ export default function TeamPage() {
     fetchTeamData()
   }, [fetchTeamData])
 
-  const totalMaxMembers = 1092
+  const totalMaxMembers = plan.structureSize
 
   if (loading) {
     return (
@@ -246,7 +273,7 @@ export default function TeamPage() {
 
   // Calculate qualification requirements based on current structure
   const getRequiredActiveReferrals = (structureNum: number) => {
-    return structureNum * 3 // Structure 1 = 3, Structure 2 = 6, etc.
+    return structureNum * plan.directReferralsPerStructure // Structure 1 = 3, Structure 2 = 6, etc.
   }
 
   const requiredActiveReferrals = getRequiredActiveReferrals(teamStats.structures)
@@ -433,7 +460,21 @@ export default function TeamPage() {
       {/* Team Explorer - horizontal drill-down */}
       {userId && (
         <div className="mb-6">
-          <TeamExplorer rootUserId={userId} />
+          <TeamExplorer rootUserId={userId} onPlaceUnder={setPlacementMember} />
+        </div>
+      )}
+
+      {/* Members waiting for the user to place them */}
+      {networkPositionId && (
+        <div className="mb-6">
+          <HoldingTank rootPositionId={networkPositionId} members={teamMembers} onPlaced={fetchTeamData} />
+        </div>
+      )}
+
+      {/* Placement strategy for new members */}
+      {userId && (
+        <div className="mb-6">
+          <PlacementSettings pickedMember={placementMember} />
         </div>
       )}
 
@@ -616,8 +657,8 @@ export default function TeamPage() {
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
             <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
               <p className="text-sm text-muted-foreground">{t("team.activeMembers")}</p>
-              <p className="text-3xl font-bold text-primary">{teamStats.currentStructureProgress}/1092</p>
-              <Progress value={(teamStats.currentStructureProgress / 1092) * 100} className="h-2 mt-2" />
+              <p className="text-3xl font-bold text-primary">{teamStats.currentStructureProgress}/{plan.structureSize}</p>
+              <Progress value={(teamStats.currentStructureProgress / plan.structureSize) * 100} className="h-2 mt-2" />
             </div>
             <div className="p-4 rounded-lg bg-surface-2">
               <p className="text-sm text-muted-foreground">{t("team.totalMembers")}</p>
@@ -626,8 +667,8 @@ export default function TeamPage() {
             </div>
             <div className="p-4 rounded-lg bg-surface-2">
               <p className="text-sm text-muted-foreground">{t("team.monthlyEarnings")}</p>
-              <p className="text-3xl font-bold text-primary">${(teamStats.activeMembers * 199 * teamStats.commissionRate).toFixed(0)}</p>
-              <p className="text-xs text-muted-foreground mt-1">{(teamStats.commissionRate * 100).toFixed(0)}% of $199 × active count</p>
+              <p className="text-3xl font-bold text-primary">${(teamStats.activeMembers * plan.contributionAmount * teamStats.commissionRate).toFixed(0)}</p>
+              <p className="text-xs text-muted-foreground mt-1">{(teamStats.commissionRate * 100).toFixed(0)}% of ${plan.contributionAmount} × active count</p>
             </div>
           </div>
         </CardContent>
@@ -660,7 +701,7 @@ export default function TeamPage() {
             </div>
             <div className="p-3 rounded-lg bg-surface-2">
               <p className="text-sm text-muted-foreground">{t("team.nextStructureAt")}</p>
-              <p className="text-2xl font-bold">{1092 - teamStats.currentStructureProgress}</p>
+              <p className="text-2xl font-bold">{plan.structureSize - teamStats.currentStructureProgress}</p>
             </div>
           </div>
           
@@ -668,7 +709,7 @@ export default function TeamPage() {
           <div className="space-y-3">
             {(() => {
               // Assign every team member to a structure. Structures fill with ACTIVE
-              // members (1092 active = 1 structure), so a member's structure is decided
+              // members (plan.structureSize active = 1 structure), so a member's structure is decided
               // by how many active members precede it in fill order. Inactive members sit
               // in whichever structure is currently being filled. This keeps each modal's
               // member list and count consistent with the active-based progress.
@@ -679,7 +720,7 @@ export default function TeamPage() {
               const membersByStructure = new Map<number, typeof teamMembers>()
               let activeSeen = 0
               for (const m of ordered) {
-                const structureIndex = Math.floor(activeSeen / 1092) + 1
+                const structureIndex = Math.floor(activeSeen / plan.structureSize) + 1
                 if (!membersByStructure.has(structureIndex)) membersByStructure.set(structureIndex, [])
                 membersByStructure.get(structureIndex)!.push(m)
                 if (m.subscription_status === "active") activeSeen++
@@ -698,8 +739,8 @@ export default function TeamPage() {
                     isComplete={isComplete}
                     members={structureMembers}
                     totalMembers={structureMembers.length}
-                    maxMembers={1092}
-                    commissionRate={10 + (structureNum - 1)}
+                    maxMembers={plan.structureSize}
+                    commissionRate={Math.round(getCommissionRate(plan, structureNum) * 100)}
                   />
                 )
               })
@@ -740,7 +781,7 @@ export default function TeamPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{teamStats.directReferralsCount}/3</div>
+              <div className="text-2xl font-bold">{teamStats.directReferralsCount}/{plan.directReferralsPerStructure}</div>
               <p className="text-xs text-foreground-tertiary">
                 {teamStats.qualificationStatus ? t("team.qualified") : t("team.notQualified")}
               </p>
@@ -800,6 +841,15 @@ export default function TeamPage() {
 
       {/* Member Insights - Payment tracking, at-risk members, activity feed */}
       {userId && <MemberInsights userId={userId} />}
+
+      {/* Earnings Projection - what-if growth calculator */}
+      <div className="mt-8">
+        <EarningsProjection
+          plan={plan}
+          activeNetworkCount={teamStats.activeMembers}
+          directReferrals={Math.max(teamStats.activeDirectReferralsCount, bypassDirectReferrals)}
+        />
+      </div>
     </div>
   )
 }
\ No newline at end of file
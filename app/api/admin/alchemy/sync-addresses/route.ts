@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { roleRank } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 import {
   registerMultipleAddressesWithAlchemy,
   isAlchemyNotifyConfigured,
@@ -83,11 +84,10 @@ export async function POST(req: NextRequest) {
     // Register all addresses with Alchemy
     const result = await registerMultipleAddressesWithAlchemy(addresses);
 
-    // Log audit event
-    await serviceSupabase.from('crypto_audit_log').insert({
-      event_type: 'alchemy_bulk_sync',
-      admin_id: user.id,
-      entity_type: 'system',
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'system.alchemy_sync_addresses',
+      entityType: 'system',
       details: {
         total_addresses: addresses.length,
         registered: result.registered,
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import {
+  adminAuditToCsv,
+  listAdminAuditActions,
+  listAdminAuditLog,
+  listAllAdminAuditLog,
+  validateAdminAuditFilters,
+} from "@/lib/admin/audit-log"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/admin/audit
+ * The admin audit trail, filtered by actor, target, action and date range.
+ * `format=csv` downloads every matching entry instead of a page.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireAdminPrivilege("view_admin_audit")
+  if (!auth.ok) return auth.response
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const filters = {
+      actor: searchParams.get("actor"),
+      target: searchParams.get("target"),
+      action: searchParams.get("action"),
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+    }
+
+    const invalid = validateAdminAuditFilters(filters)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    if (searchParams.get("format") === "csv") {
+      const entries = await listAllAdminAuditLog(filters)
+      const date = new Date().toISOString().slice(0, 10)
+
+      return new NextResponse(adminAuditToCsv(entries), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="admin-audit-${date}.csv"`,
+        },
+      })
+    }
+
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10), 1)
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 100)
+    const offset = (page - 1) * limit
+
+    const [{ entries, total }, actions] = await Promise.all([
+      listAdminAuditLog(filters, { limit, offset }),
+      listAdminAuditActions(),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      actions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasMore: offset + limit < total,
+      },
+    })
+  } catch (error: unknown) {
+    console.error("[AdminAuditAPI] Error:", error)
+    return NextResponse.json(
+      { error: "Internal server error", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
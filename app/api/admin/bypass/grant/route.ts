@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from "next/server"
 import { createServiceRoleClient } from "@/lib/supabase/server"
 import { createClient } from "@/lib/supabase/server"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+
+// User columns a bypass grant can change, snapshotted for the audit trail
+const AUDITED_COLUMNS =
+  "bypass_initial_payment, bypass_subscription, bypass_direct_referrals, membership_status, " +
+  "initial_payment_completed, is_active, network_position_id, next_payment_due_date"
 
 export async function POST(req: NextRequest) {
   try {
@@ -35,7 +41,8 @@ export async function POST(req: NextRequest) {
       userId,
       bypassInitialPayment = false,
       bypassSubscription = false,
-      bypassDirectReferralsCount = 0
+      bypassDirectReferralsCount = 0,
+      reason
     } = body
 
     if (!userId) {
@@ -56,6 +63,12 @@ export async function POST(req: NextRequest) {
     // Use service role client for privileged operations
     const serviceSupabase = createServiceRoleClient()
 
+    const { data: auditBefore } = await serviceSupabase
+      .from("users")
+      .select(AUDITED_COLUMNS)
+      .eq("id", userId)
+      .single()
+
     const processLog: string[] = []
 
     // Process bypass_initial_payment
@@ -78,7 +91,7 @@ export async function POST(req: NextRequest) {
           processLog.push("Assigning network position...")
 
           const { data: positionId, error: positionError } = await serviceSupabase
-            .rpc('assign_network_position', {
+            .rpc('place_network_member', {
               p_user_id: userId,
               p_referrer_id: userBeforeUpdate?.referred_by || null
             })
@@ -248,6 +261,21 @@ export async function POST(req: NextRequest) {
       processLog.push("✅ Direct referrals bypass removed (count set to 0)")
     }
 
+    const { data: auditAfter } = await serviceSupabase
+      .from("users")
+      .select(AUDITED_COLUMNS)
+      .eq("id", userId)
+      .single()
+
+    await recordAdminAction(req, {
+      actorId: authUser.id,
+      action: "user.bypass_grant",
+      targetUserId: userId,
+      before: auditBefore,
+      after: auditAfter,
+      reason,
+    })
+
     return NextResponse.json({
       success: true,
       message: "Bypass access granted successfully",
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPrivilege } from '@/lib/admin/access-control';
+import { loadSimulationSnapshot } from '@/lib/compensation/simulation-service';
+import {
+  SimulationChange,
+  SimulationScenario,
+  SimulationSnapshot,
+  simulateScenario,
+  validateScenario,
+} from '@/lib/compensation/simulation';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+// Members returned per response; totals always cover everyone
+const MAX_MEMBER_ROWS = 500;
+
+/**
+ * Changes may name members by email as well as id; map emails to ids
+ */
+function resolveMembers(snapshot: SimulationSnapshot, changes: SimulationChange[]): SimulationChange[] {
+  const byEmail = new Map(
+    snapshot.members.filter((m) => m.email).map((m) => [m.email!.toLowerCase(), m.userId])
+  );
+  const resolve = (value: string) => byEmail.get(value?.trim().toLowerCase()) || value;
+
+  return changes.map((change) =>
+    change.type === 'add_members'
+      ? { ...change, underUserId: resolve(change.underUserId) }
+      : change.type === 'deactivate_subtree'
+        ? { ...change, rootUserId: resolve(change.rootUserId) }
+        : change
+  );
+}
+
+/**
+ * POST /api/admin/commission-simulation
+ * What-if run of the monthly residual commission. Applies hypothetical changes
+ * to a snapshot of the network and returns per-member commission deltas, total
+ * payout liability and payout wallet coverage. Nothing is written.
+ *
+ * Body: { changes: SimulationChange[], rateTiers?: RateTier[] }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    let body: Partial<SimulationScenario>;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const snapshot = await loadSimulationSnapshot();
+    const scenario: SimulationScenario = {
+      changes: Array.isArray(body.changes) ? resolveMembers(snapshot, body.changes) : [],
+      rateTiers: body.rateTiers,
+    };
+
+    const errors = validateScenario(snapshot, scenario);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid scenario', errors }, { status: 400 });
+    }
+
+    const result = simulateScenario(snapshot, scenario);
+    console.log(`[CommissionSimulation] ${auth.ctx.userId} ran ${scenario.changes.length} change(s)${scenario.rateTiers ? ' with custom rates' : ''}: liability ${result.totals.baselineLiability} -> ${result.totals.simulatedLiability}`);
+
+    return NextResponse.json({
+      snapshotTakenAt: snapshot.takenAt,
+      memberCount: snapshot.members.length,
+      ...result,
+      members: result.members.slice(0, MAX_MEMBER_ROWS),
+      changedMembers: result.members.length,
+    });
+  } catch (error) {
+    console.error('[CommissionSimulation] Unexpected error:', error);
+    return NextResponse.json({ error: 'Simulation failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPrivilege } from '@/lib/admin/access-control';
+import { recordAdminAction } from '@/lib/admin/audit-log';
+import {
+  createCompensationPlan,
+  getCurrentCompensationPlan,
+  listCompensationPlans,
+  NewCompensationPlan,
+} from '@/lib/compensation/plan-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/compensation-plans
+ * Every plan version (newest first) and the version in effect this month.
+ */
+export async function GET() {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    const [plans, current] = await Promise.all([
+      listCompensationPlans(),
+      getCurrentCompensationPlan(),
+    ]);
+
+    return NextResponse.json({ plans, currentVersion: current.version });
+  } catch (error) {
+    console.error('[AdminCompensationPlans] Error listing plans:', error);
+    return NextResponse.json({ error: 'Failed to fetch compensation plans' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/compensation-plans
+ * Schedule a new plan version starting in a future month. Versions already in
+ * effect are immutable, so a change in terms is always a new version.
+ * Body: NewCompensationPlan
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('manage_payouts');
+    if (!auth.ok) return auth.response;
+
+    const body = (await req.json()) as NewCompensationPlan;
+    const result = await createCompensationPlan(body, auth.ctx.userId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: 'Invalid compensation plan', errors: result.errors }, { status: 400 });
+    }
+
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: 'compensation_plan.create',
+      entityType: 'compensation_plan',
+      entityId: result.plan.id,
+      after: { ...result.plan },
+    });
+
+    return NextResponse.json({ plan: result.plan }, { status: 201 });
+  } catch (error) {
+    console.error('[AdminCompensationPlans] Error creating plan:', error);
+    return NextResponse.json({ error: 'Failed to create compensation plan' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { roleRank } from '@/lib/admin/permissions'
+import { recordAdminAction } from '@/lib/admin/audit-log'
 
 export const runtime = 'nodejs'
 
@@ -192,7 +193,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { paymentId, referrerId, referredId, amount = 249 } = body
+    const { paymentId, referrerId, referredId, amount = 249, reason } = body
 
     if (!paymentId || !referrerId || !referredId) {
       return NextResponse.json({
@@ -236,21 +237,18 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Failed to create commission' }, { status: 500 })
     }
 
-    // Log the action
-    await supabase.from('crypto_audit_log').insert({
-      event_type: 'commission_created_manual',
-      user_id: referrerId,
-      admin_id: user.id,
-      entity_type: 'commission',
-      entity_id: commission.id,
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'commission.create_direct_bonus',
+      targetUserId: referrerId,
+      entityType: 'commission',
+      entityId: commission.id,
+      after: { amount, status: commission.status, commission_type: 'direct_bonus' },
+      reason,
       details: {
         payment_id: paymentId,
         referred_id: referredId,
-        amount: amount,
-        commission_type: 'direct_bonus'
       },
-      ip_address: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
-      user_agent: req.headers.get('user-agent'),
     })
 
     return NextResponse.json({
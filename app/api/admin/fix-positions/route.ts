@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { requireAdminAccess } from '@/lib/admin/access-control'
+import { recordAdminAction } from '@/lib/admin/audit-log'
+import { getWaitingUserIds } from '@/lib/network-holding-tank'
 
 /**
  * Admin API to fix orphaned users (users without network positions)
@@ -10,6 +13,9 @@ import { createClient } from '@/lib/supabase/server'
  * POST /api/admin/fix-positions
  * - Fix a specific user by userId
  * - Or fix all orphaned users if no userId provided
+ *
+ * Members waiting in the holding tank aren't orphaned and are left out of both
+ * the list and fixAll; fixing one by userId still places them immediately.
  */
 
 export async function GET() {
@@ -17,7 +23,7 @@ export async function GET() {
     const supabase = await createClient()
 
     // Find all orphaned users
-    const { data: orphanedUsers, error } = await supabase
+    const { data: unplacedUsers, error } = await supabase
       .from('users')
       .select('id, email, name, created_at, referred_by, network_position_id')
       .is('network_position_id', null)
@@ -28,9 +34,12 @@ export async function GET() {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    const waiting = await getWaitingUserIds()
+    const orphanedUsers = (unplacedUsers || []).filter((user) => !waiting.has(user.id))
+
     return NextResponse.json({
-      count: orphanedUsers?.length || 0,
-      users: orphanedUsers || []
+      count: orphanedUsers.length,
+      users: orphanedUsers
     })
   } catch (error) {
     console.error('Error in fix-positions GET:', error)
@@ -39,10 +48,16 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
+  // Mutations need an accountable admin for the audit trail
+  const auth = await requireAdminAccess('superadmin', 'manage_network')
+  if (!auth.ok) return auth.response
+
   try {
     const body = await request.json()
-    const { userId, fixAll } = body
+    const { userId, fixAll, reason } = body
     const supabase = await createClient()
+    // place_network_member is service-role only
+    const service = createServiceRoleClient()
 
     // Fix single user
     if (userId && !fixAll) {
@@ -64,8 +79,8 @@ export async function POST(request: Request) {
       }
 
       // Assign position
-      const { data: positionId, error: assignError } = await supabase.rpc(
-        'assign_network_position',
+      const { data: positionId, error: assignError } = await service.rpc(
+        'place_network_member',
         {
           p_user_id: user.id,
           p_referrer_id: user.referred_by
@@ -81,6 +96,15 @@ export async function POST(request: Request) {
         }, { status: 500 })
       }
 
+      await recordAdminAction(request, {
+        actorId: auth.ctx.userId,
+        action: 'network.assign_position',
+        targetUserId: user.id,
+        before: { network_position_id: null },
+        after: { network_position_id: positionId },
+        reason,
+      })
+
       return NextResponse.json({
         success: true,
         userId: user.id,
@@ -92,13 +116,16 @@ export async function POST(request: Request) {
 
     // Fix all orphaned users
     if (fixAll) {
-      const { data: orphanedUsers } = await supabase
+      const { data: unplacedUsers } = await supabase
         .from('users')
         .select('id, email, referred_by')
         .is('network_position_id', null)
         .order('created_at', { ascending: true })
 
-      if (!orphanedUsers || orphanedUsers.length === 0) {
+      const waiting = await getWaitingUserIds()
+      const orphanedUsers = (unplacedUsers || []).filter((user) => !waiting.has(user.id))
+
+      if (orphanedUsers.length === 0) {
         return NextResponse.json({
           success: true,
           message: 'No orphaned users found',
@@ -114,8 +141,8 @@ export async function POST(request: Request) {
 
       for (const user of orphanedUsers) {
         try {
-          const { data: positionId, error: assignError } = await supabase.rpc(
-            'assign_network_position',
+          const { data: positionId, error: assignError } = await service.rpc(
+            'place_network_member',
             {
               p_user_id: user.id,
               p_referrer_id: user.referred_by
@@ -150,6 +177,18 @@ export async function POST(request: Request) {
         }
       }
 
+      await recordAdminAction(request, {
+        actorId: auth.ctx.userId,
+        action: 'network.assign_orphaned_positions',
+        reason,
+        details: {
+          processed: orphanedUsers.length,
+          successful: successCount,
+          failed: failureCount,
+          results,
+        },
+      })
+
       return NextResponse.json({
         success: true,
         message: `Processed ${orphanedUsers.length} orphaned users`,
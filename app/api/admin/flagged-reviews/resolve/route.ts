@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { roleRank } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 
 export const runtime = 'nodejs';
 
@@ -30,7 +31,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { userId, action } = body;
+    const { userId, action, reason } = body;
 
     if (!userId || !['dismiss', 'deactivate'].includes(action)) {
       return NextResponse.json({ error: 'Invalid request. Required: userId, action (dismiss|deactivate)' }, { status: 400 });
@@ -41,7 +42,7 @@ export async function POST(req: NextRequest) {
     // Verify the user exists and is flagged
     const { data: targetUser, error: userError } = await serviceSupabase
       .from('users')
-      .select('id, email, name, flagged_for_review, network_position_id')
+      .select('id, email, name, flagged_for_review, flagged_for_review_at, is_active, inactive_since, network_position_id')
       .eq('id', userId)
       .single();
 
@@ -83,6 +84,15 @@ export async function POST(req: NextRequest) {
         },
       });
 
+      await recordAdminAction(req, {
+        actorId: user.id,
+        action: 'user.dismiss_review_flag',
+        targetUserId: userId,
+        before: { flagged_for_review: targetUser.flagged_for_review, flagged_for_review_at: targetUser.flagged_for_review_at },
+        after: { flagged_for_review: false, flagged_for_review_at: null },
+        reason,
+      });
+
       return NextResponse.json({
         success: true,
         message: `Flag dismissed for ${targetUser.email}`,
@@ -130,6 +140,20 @@ export async function POST(req: NextRequest) {
         },
       });
 
+      await recordAdminAction(req, {
+        actorId: user.id,
+        action: 'user.deactivate_flagged',
+        targetUserId: userId,
+        before: {
+          is_active: targetUser.is_active,
+          inactive_since: targetUser.inactive_since,
+          flagged_for_review: targetUser.flagged_for_review,
+          flagged_for_review_at: targetUser.flagged_for_review_at,
+        },
+        after: { is_active: false, inactive_since: now, flagged_for_review: false, flagged_for_review_at: null },
+        reason,
+      });
+
       return NextResponse.json({
         success: true,
         message: `User ${targetUser.email} deactivated and flag cleared`,
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { requireAdminPrivilege } from '@/lib/admin/access-control';
+import { getLedgerBalances, checkLedgerIntegrity } from '@/lib/ledger/ledger-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/ledger
+ * Ledger account balances, integrity check result and recent journal entries.
+ * Query: ?entries=N (default 25, max 100)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = new URL(req.url);
+    const entryLimit = Math.min(parseInt(searchParams.get('entries') || '25', 10), 100);
+
+    const supabase = createServiceRoleClient();
+
+    const [balances, integrityIssues] = await Promise.all([
+      getLedgerBalances(),
+      checkLedgerIntegrity(),
+    ]);
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('ledger_entries')
+      .select(`
+        id,
+        entry_type,
+        description,
+        reference_type,
+        reference_id,
+        tx_hash,
+        created_at,
+        ledger_postings (
+          direction,
+          amount,
+          ledger_accounts (
+            account_code,
+            currency
+          )
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(entryLimit);
+
+    if (entriesError) {
+      console.error('[AdminLedger] Error fetching entries:', entriesError);
+    }
+
+    // Deposit address accounts are summarised; system accounts are listed individually
+    const systemAccounts = balances.filter((b) => !b.account_code.startsWith('deposit:'));
+    const depositAccounts = balances.filter((b) => b.account_code.startsWith('deposit:'));
+
+    return NextResponse.json({
+      systemAccounts,
+      depositAccounts: {
+        count: depositAccounts.length,
+        totalBalance: depositAccounts.reduce((sum, b) => sum + b.balance, 0),
+        nonZero: depositAccounts.filter((b) => Math.abs(b.balance) >= 0.000001),
+      },
+      integrity: {
+        checked: integrityIssues !== null,
+        balanced: integrityIssues !== null && integrityIssues.length === 0,
+        issues: integrityIssues || [],
+      },
+      entries: entries || [],
+    });
+  } catch (error) {
+    console.error('[AdminLedger] Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminAccess } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import { checkNetworkConsistency } from "@/lib/network-closure"
+
+export const runtime = "nodejs"
+export const maxDuration = 60
+
+/**
+ * GET /api/admin/network/consistency
+ * Dry run: closure rows missing or stale against positions, and users whose
+ * total/active network counters differ from the closure.
+ *
+ * POST /api/admin/network/consistency
+ * Rebuilds the closure if it is off and rewrites the drifted counters.
+ * Body: { reason?: string }
+ */
+export async function GET() {
+  const auth = await requireAdminAccess("superadmin", "manage_network")
+  if (!auth.ok) return auth.response
+
+  try {
+    const report = await checkNetworkConsistency(false)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("[NetworkConsistency] Check failed:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await requireAdminAccess("superadmin", "manage_network")
+  if (!auth.ok) return auth.response
+
+  try {
+    const { reason } = await request.json().catch(() => ({}))
+    const report = await checkNetworkConsistency(true)
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: "network.repair_consistency",
+      entityType: "network_closure",
+      reason,
+      details: {
+        closure_missing: report.closureMissing,
+        closure_stale: report.closureStale,
+        closure_rebuilt: report.closureRebuilt,
+        counters_fixed: report.countersFixed,
+      },
+    })
+
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error("[NetworkConsistency] Repair failed:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
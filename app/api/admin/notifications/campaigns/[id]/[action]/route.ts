@@ -0,0 +1,85 @@
+/**
+ * NOTIFICATION CAMPAIGN WORKFLOW API
+ *
+ * POST /api/admin/notifications/campaigns/:id/:action
+ *   submit  - draft → pending_approval
+ *   approve - pending_approval → approved (not by the campaign's author)
+ *   reject  - pending_approval → draft, body: { reason }
+ *   send    - approved → sending (snapshots the audience)
+ *   cancel  - stop a campaign and withdraw unsent messages
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  approveCampaign,
+  cancelCampaign,
+  getCampaign,
+  rejectCampaign,
+  startCampaign,
+  submitCampaign,
+  type CampaignResult
+} from "@/lib/notifications/campaign-service"
+
+export const runtime = "nodejs"
+export const maxDuration = 60
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; action: string }> }
+) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { id, action } = await params
+    const userId = auth.ctx.userId
+    const before = await getCampaign(id)
+    let reason: string | undefined
+    let result: CampaignResult
+
+    switch (action) {
+      case "submit":
+        result = await submitCampaign(id, userId)
+        break
+      case "approve":
+        result = await approveCampaign(id, userId)
+        break
+      case "reject": {
+        const body = await request.json().catch(() => ({}))
+        reason = body.reason
+        result = await rejectCampaign(id, userId, body.reason)
+        break
+      }
+      case "send":
+        result = await startCampaign(id)
+        break
+      case "cancel":
+        result = await cancelCampaign(id)
+        break
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 404 })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: userId,
+      action: `campaign.${action}`,
+      entityType: "notification_campaign",
+      entityId: id,
+      before: before && { status: before.status },
+      after: { status: result.campaign.status },
+      reason,
+    })
+
+    console.log(`📣 Campaign ${id} ${action} by ${userId}`)
+    return NextResponse.json({ campaign: result.campaign })
+  } catch (error) {
+    console.error("Error updating campaign status:", error)
+    return NextResponse.json({ error: "Failed to update campaign" }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * NOTIFICATION CAMPAIGN API
+ *
+ * GET   - campaign with delivery analytics
+ * PATCH - edit a draft (CampaignInput)
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  getCampaign,
+  getCampaignAnalytics,
+  updateCampaign,
+  type CampaignInput
+} from "@/lib/notifications/campaign-service"
+
+export const runtime = "nodejs"
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const campaign = await getCampaign(id)
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+
+    const analytics = await getCampaignAnalytics(id)
+    return NextResponse.json({ campaign, analytics })
+  } catch (error) {
+    console.error("Error fetching campaign:", error)
+    return NextResponse.json({ error: "Failed to fetch campaign" }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const body = (await request.json()) as CampaignInput
+    const before = await getCampaign(id)
+    const result = await updateCampaign(id, body, auth.ctx.userId)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: "campaign.update",
+      entityType: "notification_campaign",
+      entityId: id,
+      before,
+      after: result.campaign,
+    })
+
+    return NextResponse.json({ campaign: result.campaign })
+  } catch (error) {
+    console.error("Error updating campaign:", error)
+    return NextResponse.json({ error: "Failed to update campaign" }, { status: 500 })
+  }
+}
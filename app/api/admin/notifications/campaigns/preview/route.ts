@@ -0,0 +1,36 @@
+/**
+ * CAMPAIGN AUDIENCE PREVIEW API
+ *
+ * POST - how many users a channel + target filter would reach right now
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { CAMPAIGN_CHANNELS, resolveAudience } from "@/lib/notifications/campaign-service"
+import type { CampaignTargetFilter, NotificationChannel } from "@/lib/notifications/notification-types"
+
+export const runtime = "nodejs"
+
+interface PreviewRequest {
+  channel: NotificationChannel
+  target_filter?: CampaignTargetFilter | null
+  excluded_users?: string[]
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const body = (await request.json()) as PreviewRequest
+    if (!CAMPAIGN_CHANNELS.includes(body.channel)) {
+      return NextResponse.json({ error: `Invalid channel: ${body.channel}` }, { status: 400 })
+    }
+
+    const audience = await resolveAudience(body.channel, body.target_filter || null, body.excluded_users || [])
+    return NextResponse.json({ count: audience.length })
+  } catch (error) {
+    console.error("Error previewing campaign audience:", error)
+    return NextResponse.json({ error: "Failed to preview audience" }, { status: 500 })
+  }
+}
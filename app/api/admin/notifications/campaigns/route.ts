@@ -0,0 +1,53 @@
+/**
+ * NOTIFICATION CAMPAIGNS API
+ *
+ * GET  - recent campaigns, newest first
+ * POST - create a draft campaign (CampaignInput)
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import { createCampaign, listCampaigns, type CampaignInput } from "@/lib/notifications/campaign-service"
+
+export const runtime = "nodejs"
+
+export async function GET() {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const campaigns = await listCampaigns()
+    return NextResponse.json({ campaigns, currentUserId: auth.ctx.userId })
+  } catch (error) {
+    console.error("Error listing campaigns:", error)
+    return NextResponse.json({ error: "Failed to fetch campaigns" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const body = (await request.json()) as CampaignInput
+    const result = await createCampaign(body, auth.ctx.userId)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: "campaign.create",
+      entityType: "notification_campaign",
+      entityId: result.campaign.id,
+      details: { campaign_name: result.campaign.campaign_name, channel: result.campaign.channel },
+    })
+
+    return NextResponse.json({ campaign: result.campaign }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating campaign:", error)
+    return NextResponse.json({ error: "Failed to create campaign" }, { status: 500 })
+  }
+}
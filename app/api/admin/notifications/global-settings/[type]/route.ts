@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { hasPrivilege } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 import { invalidateGlobalSettingsCache } from "@/lib/notifications/utils/global-settings-cache"
 
 export async function PUT(
@@ -46,7 +47,7 @@ export async function PUT(
     // Validate notification type exists
     const { data: existingSetting } = await supabase
       .from("notification_global_settings")
-      .select("id")
+      .select("id, enabled, disabled_reason")
       .eq("notification_type", type)
       .single()
 
@@ -83,6 +84,16 @@ export async function PUT(
     // Note: Redis cache removed, this now does nothing but kept for future cache implementation
     await invalidateGlobalSettingsCache(null)
 
+    await recordAdminAction(request, {
+      actorId: authUser.id,
+      action: "notifications.global_setting_update",
+      entityType: "notification_global_setting",
+      entityId: type,
+      before: { enabled: existingSetting.enabled, disabled_reason: existingSetting.disabled_reason },
+      after: { enabled, disabled_reason: enabled ? null : reason ?? null },
+      reason,
+    })
+
     console.log({
       event: 'global_toggle_changed',
       notification_type: type,
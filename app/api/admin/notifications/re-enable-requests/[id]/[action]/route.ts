@@ -0,0 +1,67 @@
+/**
+ * CHANNEL RE-ENABLE REVIEW API
+ *
+ * POST /api/admin/notifications/re-enable-requests/:id/:action
+ *   approve - turn the channel back on and reset its bounce/complaint counters
+ *   decline - keep the channel disabled, body: { reason }
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import { createServiceRoleClient } from "@/lib/supabase/server"
+import { declineReEnableRequest, reEnableChannel } from "@/lib/notifications/utils/delivery-health"
+import type { NotificationHealth } from "@/lib/notifications/notification-types"
+
+export const runtime = "nodejs"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; action: string }> }
+) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { id, action } = await params
+    const supabase = createServiceRoleClient()
+    let health: NotificationHealth | null
+    let reason: string | null = null
+
+    switch (action) {
+      case "approve":
+        health = await reEnableChannel(supabase, id, auth.ctx.userId)
+        break
+      case "decline": {
+        const body = await request.json().catch(() => ({}))
+        reason = typeof body.reason === "string" ? body.reason.trim() : ""
+        if (!reason) {
+          return NextResponse.json({ error: "A reason is required" }, { status: 400 })
+        }
+        health = await declineReEnableRequest(supabase, id, auth.ctx.userId, reason)
+        break
+      }
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 404 })
+    }
+
+    if (!health) {
+      return NextResponse.json({ error: "No pending request for this channel" }, { status: 409 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: `notifications.re_enable_${action}`,
+      targetUserId: health.user_id,
+      entityType: "notification_health",
+      entityId: id,
+      reason,
+      details: { channel: health.channel },
+    })
+
+    return NextResponse.json({ health })
+  } catch (error) {
+    console.error("Error reviewing re-enable request:", error)
+    return NextResponse.json({ error: "Failed to review request" }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * CHANNEL RE-ENABLE REQUESTS API
+ *
+ * GET - pending member requests to turn a disabled channel back on, oldest first
+ */
+
+import { NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { createServiceRoleClient } from "@/lib/supabase/server"
+
+export const runtime = "nodejs"
+
+export async function GET() {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const supabase = createServiceRoleClient()
+    const { data, error } = await supabase
+      .from("notification_health")
+      .select(`
+        id,
+        channel,
+        hard_bounce_count,
+        soft_bounce_count,
+        complaint_count,
+        carrier_error_count,
+        delivery_failure_count,
+        disabled_reason,
+        disabled_at,
+        re_enable_note,
+        re_enable_requested_at,
+        user:users!notification_health_user_id_fkey(id, name, email, phone_number)
+      `)
+      .eq("re_enable_requested", true)
+      .order("re_enable_requested_at", { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ requests: data || [] })
+  } catch (error) {
+    console.error("Error listing re-enable requests:", error)
+    return NextResponse.json({ error: "Failed to fetch re-enable requests" }, { status: 500 })
+  }
+}
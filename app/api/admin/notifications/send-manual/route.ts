@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { hasPrivilege } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 import { sendNotification } from "@/lib/notifications/notification-service"
 import type { NotificationChannel } from "@/lib/notifications/notification-types"
 
@@ -132,6 +133,20 @@ export async function POST(request: NextRequest) {
     const successful = results.filter(r => r.result.some(res => res.success)).length
     const failed = results.length - successful
 
+    await recordAdminAction(request, {
+      actorId: authUser.id,
+      action: "notifications.send_manual",
+      targetUserId: userIds.length === 1 ? userIds[0] : null,
+      entityType: "notification",
+      details: {
+        recipient_ids: userIds,
+        channels,
+        subject: subject || null,
+        successful,
+        failed,
+      },
+    })
+
     console.log({
       event: 'manual_notification_sent',
       admin_id: authUser.id,
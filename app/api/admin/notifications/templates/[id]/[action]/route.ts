@@ -0,0 +1,66 @@
+/**
+ * NOTIFICATION TEMPLATE PUBLISHING API
+ *
+ * POST /api/admin/notifications/templates/:id/:action
+ *   publish  - draft → published (the previous version is archived)
+ *   rollback - archived → published (restores an earlier version)
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  publishTemplateVersion,
+  rollbackTemplateVersion,
+  type TemplateVersionResult
+} from "@/lib/notifications/template-service"
+
+export const runtime = "nodejs"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; action: string }> }
+) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { id, action } = await params
+    let result: TemplateVersionResult
+
+    switch (action) {
+      case "publish":
+        result = await publishTemplateVersion(id, auth.ctx.userId)
+        break
+      case "rollback":
+        result = await rollbackTemplateVersion(id, auth.ctx.userId)
+        break
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 404 })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: `notification_template.${action}`,
+      entityType: "notification_template_version",
+      entityId: id,
+      before: { status: action === "publish" ? "draft" : "archived" },
+      after: { status: result.version.status },
+      details: {
+        template_key: result.version.template_key,
+        channel: result.version.channel,
+        locale: result.version.locale,
+        version: result.version.version,
+      },
+    })
+
+    return NextResponse.json({ version: result.version })
+  } catch (error) {
+    console.error("Error publishing template version:", error)
+    return NextResponse.json({ error: "Failed to publish template version" }, { status: 500 })
+  }
+}
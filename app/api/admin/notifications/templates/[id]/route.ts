@@ -0,0 +1,71 @@
+/**
+ * NOTIFICATION TEMPLATE VERSION API
+ *
+ * GET   - one template version
+ * PATCH - edit a draft version
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  getTemplateVersion,
+  updateTemplateVersion,
+  type TemplateVersionInput
+} from "@/lib/notifications/template-service"
+
+export const runtime = "nodejs"
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const version = await getTemplateVersion(id)
+    if (!version) {
+      return NextResponse.json({ error: "Template version not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ version })
+  } catch (error) {
+    console.error("Error fetching template version:", error)
+    return NextResponse.json({ error: "Failed to fetch template version" }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const body = (await request.json()) as TemplateVersionInput
+    const before = await getTemplateVersion(id)
+    const result = await updateTemplateVersion(id, body)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: "notification_template.update",
+      entityType: "notification_template_version",
+      entityId: id,
+      before,
+      after: result.version,
+    })
+
+    return NextResponse.json({ version: result.version })
+  } catch (error) {
+    console.error("Error updating template version:", error)
+    return NextResponse.json({ error: "Failed to update template version" }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * NOTIFICATION TEMPLATE PREVIEW API
+ *
+ * POST - render a draft (TemplateVersionInput) with sample data, plus its
+ *        placeholder validation
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { renderTemplatePreview, type TemplateVersionInput } from "@/lib/notifications/template-service"
+import { TEMPLATE_CHANNELS, TEMPLATE_TYPES, type TemplateChannel } from "@/lib/notifications/template-contracts"
+
+export const runtime = "nodejs"
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const body = (await request.json()) as TemplateVersionInput
+    if (!TEMPLATE_TYPES.includes(body.type) || !TEMPLATE_CHANNELS.includes(body.channel as TemplateChannel)) {
+      return NextResponse.json({ error: "A valid type and channel are required" }, { status: 400 })
+    }
+
+    const preview = await renderTemplatePreview({ ...body, body_template: body.body_template || "" })
+    return NextResponse.json({ preview })
+  } catch (error) {
+    console.error("Error rendering template preview:", error)
+    return NextResponse.json({ error: "Failed to render preview" }, { status: 500 })
+  }
+}
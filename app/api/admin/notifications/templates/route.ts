@@ -0,0 +1,73 @@
+/**
+ * NOTIFICATION TEMPLATES API
+ *
+ * GET  - versions of one template, newest first (?type=&channel=&locale=)
+ * POST - create a draft version (TemplateVersionInput)
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  createTemplateVersion,
+  listTemplateVersions,
+  type TemplateVersionInput
+} from "@/lib/notifications/template-service"
+import { TEMPLATE_CHANNELS, TEMPLATE_TYPES, type TemplateChannel } from "@/lib/notifications/template-contracts"
+import type { NotificationChannel, NotificationType } from "@/lib/notifications/notification-types"
+
+export const runtime = "nodejs"
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get("type") as NotificationType
+    const channel = searchParams.get("channel") as NotificationChannel
+    const locale = searchParams.get("locale") || "en"
+
+    if (!TEMPLATE_TYPES.includes(type) || !TEMPLATE_CHANNELS.includes(channel as TemplateChannel)) {
+      return NextResponse.json({ error: "A valid type and channel are required" }, { status: 400 })
+    }
+
+    const versions = await listTemplateVersions(type, channel, locale)
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error("Error listing template versions:", error)
+    return NextResponse.json({ error: "Failed to fetch templates" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const body = (await request.json()) as TemplateVersionInput
+    const result = await createTemplateVersion(body, auth.ctx.userId)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: "notification_template.create",
+      entityType: "notification_template_version",
+      entityId: result.version.id,
+      details: {
+        template_key: result.version.template_key,
+        channel: result.version.channel,
+        locale: result.version.locale,
+        version: result.version.version,
+      },
+    })
+
+    return NextResponse.json({ version: result.version }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating template version:", error)
+    return NextResponse.json({ error: "Failed to create template version" }, { status: 500 })
+  }
+}
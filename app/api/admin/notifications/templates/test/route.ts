@@ -0,0 +1,39 @@
+/**
+ * NOTIFICATION TEMPLATE TEST SEND API
+ *
+ * POST - send a draft (TemplateVersionInput), filled with sample data, to
+ *        the calling admin's own email or phone
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminPrivilege } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import { sendTestTemplate, type TemplateVersionInput } from "@/lib/notifications/template-service"
+
+export const runtime = "nodejs"
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege("send_notifications")
+    if (!auth.ok) return auth.response
+
+    const body = (await request.json()) as TemplateVersionInput
+    const result = await sendTestTemplate(body, auth.ctx.userId)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    await recordAdminAction(request, {
+      actorId: auth.ctx.userId,
+      action: "notification_template.send_test",
+      entityType: "notification_template",
+      details: { type: body.type, channel: body.channel, locale: body.locale, sent_to: result.sentTo },
+    })
+
+    return NextResponse.json({ sentTo: result.sentTo })
+  } catch (error) {
+    console.error("Error sending test template:", error)
+    return NextResponse.json({ error: "Failed to send test" }, { status: 500 })
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceRoleClient } from "@/lib/supabase/server"
+import { requireAdminAccess } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  bulkPayoutEntityId,
+  getPayoutApprovalPolicy,
+  recordPayoutApproval,
+  requiresPayoutApproval,
+} from "@/lib/treasury/payout-approvals"
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/payouts/approve-bulk
+ * Approve a bulk payout run whose total is above the multi-signature
+ * threshold. process-bulk refuses the run until enough distinct admins
+ * approve the same set of commissions for the same total.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdminAccess("superadmin", "manage_payouts")
+    if (!auth.ok) return auth.response
+
+    const supabase = createServiceRoleClient()
+
+    const { commissionIds } = await req.json()
+
+    if (!Array.isArray(commissionIds) || commissionIds.length === 0 || !commissionIds.every((id) => typeof id === "string")) {
+      return NextResponse.json(
+        { error: "Commission IDs are required" },
+        { status: 400 }
+      )
+    }
+
+    const uniqueIds: string[] = Array.from(new Set(commissionIds))
+
+    const { data: commissions, error: commissionsError } = await supabase
+      .from("commissions")
+      .select("id, amount, net_amount_usdc, status")
+      .in("id", uniqueIds)
+
+    if (commissionsError) {
+      return NextResponse.json(
+        { error: "Failed to fetch commissions" },
+        { status: 500 }
+      )
+    }
+
+    if (!commissions || commissions.length !== uniqueIds.length) {
+      return NextResponse.json(
+        { error: "Some commissions were not found" },
+        { status: 404 }
+      )
+    }
+
+    const notPayable = commissions.filter(c => c.status !== "pending" && c.status !== "failed")
+    if (notPayable.length > 0) {
+      return NextResponse.json(
+        { error: `${notPayable.length} commission(s) are no longer pending or failed` },
+        { status: 400 }
+      )
+    }
+
+    const amount = commissions.reduce((sum, c) => sum + parseFloat(c.net_amount_usdc || c.amount), 0)
+    const policy = await getPayoutApprovalPolicy()
+
+    if (!requiresPayoutApproval(amount, policy)) {
+      return NextResponse.json(
+        { error: `Payouts up to $${policy.thresholdUsd.toFixed(2)} do not need approval` },
+        { status: 400 }
+      )
+    }
+
+    const entityId = bulkPayoutEntityId(uniqueIds)
+    const approval = await recordPayoutApproval({
+      entityType: "bulk_payout",
+      entityId,
+      amountUsdc: amount,
+      approverId: auth.ctx.userId,
+      createdBy: null,
+      policy,
+    })
+
+    if (!approval.success || !approval.status) {
+      return NextResponse.json(
+        { error: approval.error },
+        { status: 400 }
+      )
+    }
+
+    await supabase.from("crypto_audit_log").insert({
+      event_type: "payout_approved",
+      admin_id: auth.ctx.userId,
+      entity_type: "bulk_payout",
+      entity_id: entityId,
+      details: {
+        amount: amount.toFixed(6),
+        commission_count: uniqueIds.length,
+        approvals: approval.status.approvals.length,
+        required_approvals: approval.status.required,
+        quorum_reached: approval.status.quorumReached,
+        quorum_expires_at: approval.status.expiresAt,
+      },
+      ip_address: req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip"),
+      user_agent: req.headers.get("user-agent"),
+    })
+
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: "payout.approve_bulk",
+      entityType: "bulk_payout",
+      entityId,
+      details: {
+        amount: amount.toFixed(6),
+        commission_ids: uniqueIds,
+        approvals: approval.status.approvals.length,
+        required_approvals: approval.status.required,
+        quorum_reached: approval.status.quorumReached,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      approvals: {
+        count: approval.status.approvals.length,
+        required: approval.status.required,
+        quorumReached: approval.status.quorumReached,
+        expiresAt: approval.status.expiresAt,
+      },
+    })
+  } catch (error) {
+    console.error("Error approving bulk payout:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
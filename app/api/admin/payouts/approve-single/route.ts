@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceRoleClient } from "@/lib/supabase/server"
+import { requireAdminAccess } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  getPayoutApprovalPolicy,
+  recordPayoutApproval,
+  requiresPayoutApproval,
+} from "@/lib/treasury/payout-approvals"
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/payouts/approve-single
+ * Approve a single commission payout above the multi-signature threshold.
+ * process-single refuses to send it until enough distinct admins approve.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdminAccess("superadmin", "manage_payouts")
+    if (!auth.ok) return auth.response
+
+    const supabase = createServiceRoleClient()
+
+    const { commissionId } = await req.json()
+
+    if (!commissionId) {
+      return NextResponse.json(
+        { error: "Commission ID is required" },
+        { status: 400 }
+      )
+    }
+
+    const { data: commission, error: commissionError } = await supabase
+      .from("commissions")
+      .select("id, referrer_id, amount, net_amount_usdc, status, commission_type, created_by_admin_id")
+      .eq("id", commissionId)
+      .single()
+
+    if (commissionError || !commission) {
+      return NextResponse.json(
+        { error: "Commission not found" },
+        { status: 404 }
+      )
+    }
+
+    if (commission.status !== "pending" && commission.status !== "failed") {
+      return NextResponse.json(
+        { error: `Commission cannot be approved from status: ${commission.status}` },
+        { status: 400 }
+      )
+    }
+
+    const amount = parseFloat(commission.net_amount_usdc || commission.amount)
+    const policy = await getPayoutApprovalPolicy()
+
+    if (!requiresPayoutApproval(amount, policy)) {
+      return NextResponse.json(
+        { error: `Payouts up to $${policy.thresholdUsd.toFixed(2)} do not need approval` },
+        { status: 400 }
+      )
+    }
+
+    const approval = await recordPayoutApproval({
+      entityType: "commission",
+      entityId: commissionId,
+      amountUsdc: amount,
+      approverId: auth.ctx.userId,
+      createdBy: commission.created_by_admin_id,
+      policy,
+    })
+
+    if (!approval.success || !approval.status) {
+      return NextResponse.json(
+        { error: approval.error },
+        { status: 400 }
+      )
+    }
+
+    await supabase.from("crypto_audit_log").insert({
+      event_type: "payout_approved",
+      user_id: commission.referrer_id,
+      admin_id: auth.ctx.userId,
+      entity_type: "commission",
+      entity_id: commissionId,
+      details: {
+        amount: amount.toFixed(6),
+        commission_type: commission.commission_type,
+        approvals: approval.status.approvals.length,
+        required_approvals: approval.status.required,
+        quorum_reached: approval.status.quorumReached,
+        quorum_expires_at: approval.status.expiresAt,
+      },
+      ip_address: req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip"),
+      user_agent: req.headers.get("user-agent"),
+    })
+
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: "payout.approve",
+      targetUserId: commission.referrer_id,
+      entityType: "commission",
+      entityId: commissionId,
+      details: {
+        amount: amount.toFixed(6),
+        approvals: approval.status.approvals.length,
+        required_approvals: approval.status.required,
+        quorum_reached: approval.status.quorumReached,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      commissionId,
+      approvals: {
+        count: approval.status.approvals.length,
+        required: approval.status.required,
+        quorumReached: approval.status.quorumReached,
+        expiresAt: approval.status.expiresAt,
+      },
+    })
+  } catch (error) {
+    console.error("Error approving payout:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
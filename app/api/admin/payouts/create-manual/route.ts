@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { coinbaseWalletService } from "@/lib/coinbase/wallet-service"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import { postCommissionPaid } from "@/lib/ledger/ledger-service"
+import { getPayoutApprovalPolicy, requiresPayoutApproval } from "@/lib/treasury/payout-approvals"
+import { isPayoutWalletOnHold } from "@/lib/treasury/payout-wallet-change-service"
 
 export const runtime = 'nodejs'
 export const maxDuration = 120 // must exceed the 60s confirmation timeout so a stuck tx is recorded, not orphaned
@@ -76,7 +80,7 @@ export async function POST(req: NextRequest) {
     // Get recipient user details
     const { data: recipientUser, error: userError } = await supabase
       .from("users")
-      .select("id, name, email, payout_wallet_address, qualified")
+      .select("id, name, email, payout_wallet_address, payout_wallet_hold_until, qualified")
       .eq("id", userId)
       .single()
 
@@ -98,6 +102,14 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    // Recently changed wallets are held, manual payouts included
+    if (isPayoutWalletOnHold(recipientUser.payout_wallet_hold_until)) {
+      return NextResponse.json(
+        { error: `Payout wallet was changed recently; payouts are held until ${new Date(recipientUser.payout_wallet_hold_until).toUTCString()}` },
+        { status: 409 }
+      )
+    }
+
     // Check payout wallet balance
     const payoutBalanceResult = await coinbaseWalletService.getPayoutWalletBalance()
     if (!payoutBalanceResult.success || !payoutBalanceResult.data) {
@@ -141,6 +153,35 @@ export async function POST(req: NextRequest) {
 
     commissionId = newCommission.id
 
+    const approvalPolicy = await getPayoutApprovalPolicy()
+    const approvalRequired = requiresPayoutApproval(amountNumber, approvalPolicy)
+
+    await recordAdminAction(req, {
+      actorId: authUser.id,
+      action: 'payout.create_manual',
+      targetUserId: userId,
+      entityType: 'commission',
+      entityId: commissionId,
+      reason: description,
+      details: {
+        amount: amountNumber.toFixed(6),
+        wallet_address: recipientUser.payout_wallet_address,
+        approval_required: approvalRequired,
+        required_approvals: approvalRequired ? approvalPolicy.requiredApprovals : null,
+      },
+    })
+
+    // Above the multi-signature threshold: leave the payout pending until other
+    // admins approve it; it is then sent from the payouts page
+    if (approvalRequired) {
+      return NextResponse.json({
+        success: true,
+        approvalRequired: true,
+        commissionId,
+        message: `Payout created. Payouts over $${approvalPolicy.thresholdUsd.toFixed(2)} need ${approvalPolicy.requiredApprovals} approvals from other admins before they are sent.`,
+      })
+    }
+
     // Execute USDC transfer
     try {
       const transferResult = await coinbaseWalletService.transferFromPayoutWallet(
@@ -249,6 +290,14 @@ export async function POST(req: NextRequest) {
         }, { status: 500 })
       }
 
+      await postCommissionPaid({
+        commissionIds: [newCommission.id],
+        userId,
+        amountUsdc: amountNumber,
+        txHash: transferResult.data.transactionHash,
+        adminId: authUser.id,
+      })
+
       // Log audit event
       await supabase.from('crypto_audit_log').insert({
         event_type: 'manual_payout_executed',
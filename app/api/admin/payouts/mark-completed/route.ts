@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 export async function POST(req: NextRequest) {
   try {
@@ -42,7 +43,7 @@ export async function POST(req: NextRequest) {
     const supabase = createServiceRoleClient()
 
     // Parse request body
-    const { commissionId } = await req.json()
+    const { commissionId, reason } = await req.json()
 
     if (!commissionId) {
       return NextResponse.json(
@@ -74,12 +75,13 @@ export async function POST(req: NextRequest) {
     }
 
     // Update commission to paid (manual completion - no on-chain transfer)
+    const paidAt = new Date().toISOString()
     const { error: updateError } = await supabase
       .from("commissions")
       .update({
         status: "paid",
-        paid_at: new Date().toISOString(),
-        processed_at: new Date().toISOString(),
+        paid_at: paidAt,
+        processed_at: paidAt,
         error_message: null, // Clear any previous error
         // Note: crypto_transfer_id remains null to indicate manual completion
       })
@@ -107,6 +109,18 @@ export async function POST(req: NextRequest) {
       console.error("Error sending notification:", notifError)
     }
 
+    await recordAdminAction(req, {
+      actorId: authUser.id,
+      action: "payout.mark_completed",
+      targetUserId: commission.referrer_id,
+      entityType: "commission",
+      entityId: commissionId,
+      before: { status: commission.status, paid_at: null },
+      after: { status: "paid", paid_at: paidAt },
+      reason,
+      details: { amount: commission.amount, commission_type: commission.commission_type },
+    })
+
     console.log({
       event: 'manual_payout_completed',
       commission_id: commissionId,
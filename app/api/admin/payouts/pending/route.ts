@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { roleRank } from "@/lib/admin/permissions"
+import { getPayoutApprovalPolicy, getPayoutApprovalStatuses, requiresPayoutApproval } from "@/lib/treasury/payout-approvals"
 
 export async function GET() {
   try {
@@ -50,6 +51,7 @@ export async function GET() {
         error_message,
         processed_at,
         retry_count,
+        created_by_admin_id,
         users!commissions_referrer_id_fkey (
           name,
           email,
@@ -69,9 +71,20 @@ export async function GET() {
       )
     }
 
+    // Approvals for commissions above the multi-signature threshold
+    const approvalPolicy = await getPayoutApprovalPolicy()
+    const approvalStatuses = await getPayoutApprovalStatuses(
+      "commission",
+      commissions
+        .map(c => ({ id: c.id, amountUsdc: parseFloat(c.net_amount_usdc || c.amount) }))
+        .filter(c => requiresPayoutApproval(c.amountUsdc, approvalPolicy)),
+      approvalPolicy
+    )
+
     // Format the response
     const allCommissions = commissions.map(commission => {
       const user = Array.isArray(commission.users) ? commission.users[0] : commission.users
+      const approval = approvalStatuses.get(commission.id)
       return {
         id: commission.id,
         referrerId: commission.referrer_id,
@@ -89,6 +102,13 @@ export async function GET() {
         processedAt: commission.processed_at,
         retryCount: commission.retry_count || 0,
         createdAt: commission.created_at,
+        createdByAdminId: commission.created_by_admin_id,
+        approval: approval ? {
+          count: approval.approvals.length,
+          required: approval.required,
+          quorumReached: approval.quorumReached,
+          approvedByMe: approval.approvals.some(a => a.approver_id === authUser.id),
+        } : null,
       }
     })
 
@@ -114,7 +134,9 @@ export async function GET() {
         totalAmount: totalAmount,
         excludedUnqualified: excludedUnqualified.length,
         excludedAmount: excludedAmount,
-      }
+      },
+      approvalPolicy,
+      currentUserId: authUser.id,
     })
   } catch (error) {
     console.error("Error in pending payouts API:", error)
@@ -2,6 +2,18 @@ import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { coinbaseWalletService } from "@/lib/coinbase/wallet-service"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import { postCommissionPaid } from "@/lib/ledger/ledger-service"
+import {
+  bulkPayoutEntityId,
+  getPayoutApprovalPolicy,
+  getPayoutApprovalStatus,
+  getPayoutApprovalStatuses,
+  quorumErrorMessage,
+  requiresPayoutApproval,
+} from "@/lib/treasury/payout-approvals"
+import { getCommissionsAwaitingWithdrawalReview } from "@/lib/treasury/withdrawal-service"
+import { isPayoutWalletOnHold } from "@/lib/treasury/payout-wallet-change-service"
 
 export const runtime = 'nodejs'
 export const maxDuration = 300 // 5 minutes for batch processing
@@ -70,6 +82,7 @@ export async function POST(req: NextRequest) {
           name,
           email,
           payout_wallet_address,
+          payout_wallet_hold_until,
           qualified
         )
       `)
@@ -128,6 +141,45 @@ export async function POST(req: NextRequest) {
       }, { status: 400 })
     }
 
+    const approvalPolicy = await getPayoutApprovalPolicy()
+
+    // A run whose total is above the threshold needs quorum for this exact set
+    // of commissions, whatever the size of each one
+    if (requiresPayoutApproval(totalAmount, approvalPolicy)) {
+      const bulkIds = commissions.map(c => c.id)
+      const bulkApproval = await getPayoutApprovalStatus(
+        "bulk_payout",
+        bulkPayoutEntityId(bulkIds),
+        totalAmount,
+        approvalPolicy
+      )
+
+      if (!bulkApproval.quorumReached) {
+        return NextResponse.json({
+          error: quorumErrorMessage(bulkApproval),
+          approval: {
+            commissionIds: bulkIds,
+            amount: totalAmount.toFixed(6),
+            count: bulkApproval.approvals.length,
+            required: bulkApproval.required,
+            approvedByMe: bulkApproval.approvals.some(a => a.approver_id === authUser.id),
+          },
+        }, { status: 403 })
+      }
+    }
+
+    // Commissions above the approval threshold are only sent once they have quorum
+    const approvalStatuses = await getPayoutApprovalStatuses(
+      "commission",
+      commissions
+        .map(c => ({ id: c.id, amountUsdc: parseFloat(c.net_amount_usdc || c.amount) }))
+        .filter(c => requiresPayoutApproval(c.amountUsdc, approvalPolicy)),
+      approvalPolicy
+    )
+
+    // Commissions reserved by an unreviewed withdrawal request wait for that review
+    const awaitingWithdrawalReview = await getCommissionsAwaitingWithdrawalReview(commissions.map(c => c.id))
+
     // Process each commission sequentially
     for (const commission of commissions) {
       const user = Array.isArray(commission.users) ? commission.users[0] : commission.users
@@ -163,6 +215,35 @@ export async function POST(req: NextRequest) {
         continue
       }
 
+      // Skip if a member's withdrawal request for it hasn't been reviewed
+      if (awaitingWithdrawalReview.has(commission.id)) {
+        skippedCount++
+        results.push({
+          commissionId: commission.id,
+          userName: user?.name || "Unknown",
+          amount: amount,
+          success: false,
+          skipped: true,
+          error: "Part of a withdrawal request awaiting review"
+        })
+        continue
+      }
+
+      // Skip if it still needs approvals
+      const approvalStatus = approvalStatuses.get(commission.id)
+      if (approvalStatus && !approvalStatus.quorumReached) {
+        skippedCount++
+        results.push({
+          commissionId: commission.id,
+          userName: user?.name || "Unknown",
+          amount: amount,
+          success: false,
+          skipped: true,
+          error: quorumErrorMessage(approvalStatus)
+        })
+        continue
+      }
+
       // Skip if user is not qualified
       if (!user?.qualified) {
         skippedCount++
@@ -216,6 +297,20 @@ export async function POST(req: NextRequest) {
         continue
       }
 
+      // Skip while a recently changed wallet is on hold (retried once it passes)
+      if (isPayoutWalletOnHold(user.payout_wallet_hold_until)) {
+        skippedCount++
+        results.push({
+          commissionId: commission.id,
+          userName: user.name || "Unknown",
+          amount: amount,
+          success: false,
+          skipped: true,
+          error: `Payout wallet on hold until ${new Date(user.payout_wallet_hold_until).toUTCString()}`
+        })
+        continue
+      }
+
       // Execute USDC transfer
       try {
         const transferResult = await coinbaseWalletService.transferFromPayoutWallet(
@@ -328,6 +423,14 @@ export async function POST(req: NextRequest) {
           continue
         }
 
+        await postCommissionPaid({
+          commissionIds: [commission.id],
+          userId: commission.referrer_id,
+          amountUsdc: amount,
+          txHash: transferResult.data.transactionHash,
+          adminId: authUser.id,
+        })
+
         // Send payout success notification
         try {
           const { notifyPayoutProcessed } = await import('@/lib/notifications/notification-service')
@@ -388,21 +491,17 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Log audit event
-    await supabase.from('crypto_audit_log').insert({
-      event_type: 'bulk_payout_executed',
-      user_id: null,
-      admin_id: authUser.id,
-      entity_type: 'commission',
-      entity_id: null,
+    await recordAdminAction(req, {
+      actorId: authUser.id,
+      action: 'payout.process_bulk',
+      entityType: 'commission',
       details: {
         total_commissions: commissions.length,
         successful: successCount,
         failed: failedCount,
         skipped: skippedCount,
+        results: results.map((r) => ({ commission_id: r.commissionId, success: r.success })),
       },
-      ip_address: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
-      user_agent: req.headers.get('user-agent'),
     })
 
     return NextResponse.json({
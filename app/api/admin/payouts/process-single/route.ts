@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { coinbaseWalletService } from "@/lib/coinbase/wallet-service"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import { postCommissionPaid } from "@/lib/ledger/ledger-service"
+import {
+  getPayoutApprovalPolicy,
+  getPayoutApprovalStatus,
+  quorumErrorMessage,
+  requiresPayoutApproval,
+} from "@/lib/treasury/payout-approvals"
+import { getCommissionsAwaitingWithdrawalReview } from "@/lib/treasury/withdrawal-service"
+import { isPayoutWalletOnHold } from "@/lib/treasury/payout-wallet-change-service"
 
 export const runtime = 'nodejs'
 export const maxDuration = 120 // must exceed the 60s confirmation timeout so a stuck tx is recorded, not orphaned
@@ -62,6 +72,7 @@ export async function POST(req: NextRequest) {
           name,
           email,
           payout_wallet_address,
+          payout_wallet_hold_until,
           qualified
         )
       `)
@@ -85,6 +96,16 @@ export async function POST(req: NextRequest) {
       })
     }
 
+    // Reserved by a member withdrawal request: it must be reviewed first
+    const awaitingWithdrawalReview = await getCommissionsAwaitingWithdrawalReview([commissionId])
+    if (awaitingWithdrawalReview.has(commissionId)) {
+      return NextResponse.json({
+        success: false,
+        error: "This commission is part of a withdrawal request awaiting review. Approve or reject the request first.",
+        commissionId: commission.id,
+      }, { status: 409 })
+    }
+
     // Double-pay guard: a previous attempt may have broadcast a tx that never
     // confirmed before the function returned. Resolve that tx before sending again.
     const priorBroadcast = commission.error_message?.match(/broadcast, awaiting confirmation: (0x[0-9a-fA-F]{64})/)
@@ -110,6 +131,25 @@ export async function POST(req: NextRequest) {
           })
           .eq("id", commissionId)
 
+        await postCommissionPaid({
+          commissionIds: [commissionId],
+          userId: commission.referrer_id,
+          amountUsdc: parseFloat(commission.net_amount_usdc || commission.amount),
+          txHash: priorBroadcast[1],
+          adminId: authUser.id,
+        })
+
+        await recordAdminAction(req, {
+          actorId: authUser.id,
+          action: "payout.process_single",
+          targetUserId: commission.referrer_id,
+          entityType: "commission",
+          entityId: commissionId,
+          before: { status: commission.status },
+          after: { status: "paid" },
+          details: { already_broadcast: true, tx_hash: priorBroadcast[1] },
+        })
+
         return NextResponse.json({
           success: true,
           alreadyBroadcast: true,
@@ -185,6 +225,35 @@ export async function POST(req: NextRequest) {
       })
     }
 
+    // Recently changed wallets are held before anything is sent to them
+    if (isPayoutWalletOnHold(user.payout_wallet_hold_until)) {
+      return NextResponse.json({
+        success: false,
+        error: `Payout wallet was changed recently; payouts are held until ${new Date(user.payout_wallet_hold_until).toUTCString()}`,
+        commissionId: commission.id,
+      }, { status: 409 })
+    }
+
+    const amount = parseFloat(commission.net_amount_usdc || commission.amount)
+
+    // Payouts above the approval threshold need quorum before any funds move
+    const approvalPolicy = await getPayoutApprovalPolicy()
+    if (requiresPayoutApproval(amount, approvalPolicy)) {
+      const approvalStatus = await getPayoutApprovalStatus("commission", commissionId, amount, approvalPolicy)
+      if (!approvalStatus.quorumReached) {
+        return NextResponse.json({
+          success: false,
+          approvalRequired: true,
+          error: quorumErrorMessage(approvalStatus),
+          approvals: {
+            count: approvalStatus.approvals.length,
+            required: approvalStatus.required,
+          },
+          commissionId: commission.id,
+        }, { status: 409 })
+      }
+    }
+
     // Check payout wallet balance before processing
     const payoutBalanceResult = await coinbaseWalletService.getPayoutWalletBalance()
     if (!payoutBalanceResult.success || !payoutBalanceResult.data) {
@@ -195,7 +264,6 @@ export async function POST(req: NextRequest) {
       })
     }
 
-    const amount = parseFloat(commission.net_amount_usdc || commission.amount)
     const availableUSDC = parseFloat(payoutBalanceResult.data.usdc)
 
     if (availableUSDC < amount) {
@@ -206,6 +274,21 @@ export async function POST(req: NextRequest) {
       })
     }
 
+    // The admin's decision to send is what's audited; the outcome goes to
+    // crypto_audit_log and the commission row
+    await recordAdminAction(req, {
+      actorId: authUser.id,
+      action: "payout.process_single",
+      targetUserId: commission.referrer_id,
+      entityType: "commission",
+      entityId: commissionId,
+      details: {
+        amount: amount.toFixed(6),
+        wallet_address: user.payout_wallet_address,
+        commission_status: commission.status,
+      },
+    })
+
     // Execute USDC transfer from payout wallet
     try {
       const transferResult = await coinbaseWalletService.transferFromPayoutWallet(
@@ -312,6 +395,14 @@ export async function POST(req: NextRequest) {
         }, { status: 500 })
       }
 
+      await postCommissionPaid({
+        commissionIds: [commissionId],
+        userId: commission.referrer_id,
+        amountUsdc: amount,
+        txHash: transferResult.data.transactionHash,
+        adminId: authUser.id,
+      })
+
       // Log audit event
       await supabase.from('crypto_audit_log').insert({
         event_type: 'payout_executed',
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { roleRank } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
+import { closeVolumeMonth, evaluateVolumeMonth, MonthCloseResult } from '@/lib/compensation/plan-service';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120; // Allow up to 2 minutes for processing
@@ -100,81 +102,37 @@ export async function POST(req: NextRequest) {
 
       const lastProcessedMonth = lastProcessing?.[0]?.details?.month_period || 'Never';
 
-      // Get all users with volume including their details for commission calculation
-      const { data: usersWithVolume } = await supabase
-        .from('users')
-        .select('id, name, email, sniper_volume_current_month, current_commission_rate, last_payment_date, is_active, bypass_subscription, qualified, payout_wallet_address, active_direct_referrals_count, bypass_direct_referrals')
-        .gt('sniper_volume_current_month', 0)
-        .order('sniper_volume_current_month', { ascending: false });
-
-      const users = usersWithVolume || [];
-
-      // Calculate eligibility and commissions for each user
-      const eligibleUsers: Array<{
-        userId: string;
-        userName: string;
-        userEmail: string;
-        volume: number;
-        commissionRate: number;
-        commissionAmount: number;
-        isActive: boolean;
-        isQualified: boolean;
-        directReferrals: number;
-        hasWallet: boolean;
-      }> = [];
-
-      const ineligibleUsers: Array<{
-        userId: string;
-        userName: string;
-        reason: string;
-        volume: number;
-        isQualified: boolean;
-      }> = [];
-
-      for (const user of users) {
-        const volume = parseFloat(user.sniper_volume_current_month || '0');
-        const commissionRate = parseFloat(user.current_commission_rate || '0.10');
-        // Account for subscription bypass when checking active status
-        const isActive = user.is_active || user.bypass_subscription;
-        const isQualified = user.qualified === true;
-        // Use effective referral count (actual or bypass, whichever is higher)
-        const directReferrals = Math.max(user.active_direct_referrals_count || 0, user.bypass_direct_referrals || 0);
-        const hasWallet = !!user.payout_wallet_address;
-
-        if (isActive) {
-          eligibleUsers.push({
-            userId: user.id,
-            userName: user.name || 'Unknown',
-            userEmail: user.email || '',
-            volume,
-            commissionRate: commissionRate * 100, // Convert to percentage
-            commissionAmount: volume * commissionRate,
-            isActive: true,
-            isQualified,
-            directReferrals,
-            hasWallet,
-          });
-        } else {
-          // User not active (no active subscription and no bypass)
-          ineligibleUsers.push({
-            userId: user.id,
-            userName: user.name || 'Unknown',
-            reason: 'Not active (no subscription or bypass)',
-            volume,
-            isQualified,
-          });
-        }
-      }
-
-      const totalVolume = users.reduce(
-        (sum, u) => sum + parseFloat(u.sniper_volume_current_month || '0'),
-        0
-      );
-
-      const totalCommissionAmount = eligibleUsers.reduce(
-        (sum, u) => sum + u.commissionAmount,
-        0
-      );
+      // Evaluate every member with volume under the plan for this month
+      const evaluation = await evaluateVolumeMonth(monthPeriod);
+
+      const eligibleUsers = evaluation.statements
+        .filter((s) => s.result.eligible)
+        .map((s) => ({
+          userId: s.userId,
+          userName: s.name || 'Unknown',
+          userEmail: s.email || '',
+          volume: s.sniperVolume,
+          commissionRate: s.result.commissionRate * 100, // Convert to percentage
+          commissionAmount: s.result.commissionAmount,
+          isActive: true,
+          isQualified: s.result.meetsReferralRequirement,
+          directReferrals: s.directReferrals,
+          hasWallet: s.hasWallet,
+        }));
+
+      const ineligibleUsers = evaluation.statements
+        .filter((s) => !s.result.eligible)
+        .map((s) => ({
+          userId: s.userId,
+          userName: s.name || 'Unknown',
+          reason: s.result.ineligibleReason || 'Not eligible',
+          volume: s.sniperVolume,
+          isQualified: s.result.meetsReferralRequirement,
+        }));
+
+      const users = evaluation.statements;
+      const totalVolume = evaluation.totalVolume;
+      const totalCommissionAmount = evaluation.totalCommission;
 
       // Add warning if no eligible users
       if (eligibleUsers.length === 0 && users.length > 0) {
@@ -187,6 +145,8 @@ export async function POST(req: NextRequest) {
         message: 'Preview generated - no changes made',
         preview: {
           monthPeriod,
+          planVersion: evaluation.plan.version,
+          planName: evaluation.plan.name,
           lastProcessedMonth,
           usersWithVolume: users.length,
           totalVolumeToArchive: parseFloat(totalVolume.toFixed(2)),
@@ -205,22 +165,23 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Execute the actual monthly processing
-    const { data: result, error: processError } = await supabase.rpc('process_monthly_volumes');
-
-    if (processError) {
-      console.error('[AdminProcessMonthlyVolumes] RPC error:', processError);
+    // Execute the actual monthly processing with the plan for this month
+    let result: MonthCloseResult;
+    try {
+      result = await closeVolumeMonth(monthPeriod);
+    } catch (processError) {
+      console.error('[AdminProcessMonthlyVolumes] Month close error:', processError);
+      const errorMessage = processError instanceof Error ? processError.message : 'Unknown error';
 
       // Log the failure
       await supabase.from('monthly_processing_logs').insert({
         step_name: 'Full Process (Admin Manual)',
         success: false,
-        error_message: processError.message,
+        error_message: errorMessage,
         details: {
           month_period: monthPeriod,
           triggered_by: user.id,
           triggered_by_name: userData?.name,
-          error_code: processError.code,
         },
       });
 
@@ -228,7 +189,7 @@ export async function POST(req: NextRequest) {
         {
           success: false,
           error: 'Monthly processing failed',
-          details: processError.message,
+          details: errorMessage,
           monthPeriod,
         },
         { status: 500 }
@@ -251,6 +212,7 @@ export async function POST(req: NextRequest) {
 
     const summary = {
       monthPeriod,
+      planVersion: result.plan_version,
       triggeredBy: {
         userId: user.id,
         name: userData?.name,
@@ -276,20 +238,12 @@ export async function POST(req: NextRequest) {
 
     console.log('[AdminProcessMonthlyVolumes] Processing completed:', summary);
 
-    // Log audit event
-    await supabase.from('crypto_audit_log').insert({
-      event_type: 'admin_action',
-      admin_id: user.id,
-      entity_type: 'monthly_processing',
-      entity_id: null,
-      details: {
-        action: 'manual_monthly_volumes_processed',
-        trigger: 'admin_manual',
-        month_period: monthPeriod,
-        summary,
-      },
-      ip_address: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
-      user_agent: req.headers.get('user-agent'),
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'compensation.process_monthly_volumes',
+      entityType: 'monthly_processing',
+      entityId: monthPeriod,
+      details: { month_period: monthPeriod, summary },
     });
 
     return NextResponse.json({
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { requireAdminPrivilege } from '@/lib/admin/access-control';
+import { recordAdminAction } from '@/lib/admin/audit-log';
+import { runReconciliation } from '@/lib/treasury/reconciliation-service';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+/**
+ * GET /api/admin/reconciliation
+ * Recent reconciliation reports, or one report's discrepancies grouped by address.
+ * Query: ?reportId=<uuid> | ?limit=N (default 14, max 90)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = new URL(req.url);
+    const reportId = searchParams.get('reportId');
+    const supabase = createServiceRoleClient();
+
+    if (reportId) {
+      const { data: report, error: reportError } = await supabase
+        .from('reconciliation_reports')
+        .select('*')
+        .eq('id', reportId)
+        .single();
+
+      if (reportError || !report) {
+        return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+      }
+
+      const { data: discrepancies, error: discrepancyError } = await supabase
+        .from('reconciliation_discrepancies')
+        .select('*, user:users!reconciliation_discrepancies_user_id_fkey (email, name)')
+        .eq('report_id', reportId)
+        .order('created_at', { ascending: true });
+
+      if (discrepancyError) {
+        console.error('[AdminReconciliation] Error fetching discrepancies:', discrepancyError);
+        return NextResponse.json({ error: 'Failed to fetch discrepancies' }, { status: 500 });
+      }
+
+      type AddressGroup = {
+        address: string;
+        address_type: string;
+        user: { email: string | null; name: string | null } | null;
+        discrepancies: NonNullable<typeof discrepancies>;
+      };
+      const byAddress = new Map<string, AddressGroup>();
+      for (const d of discrepancies || []) {
+        const group: AddressGroup = byAddress.get(d.address) || {
+          address: d.address,
+          address_type: d.address_type,
+          user: d.user || null,
+          discrepancies: [],
+        };
+        group.discrepancies.push(d);
+        byAddress.set(d.address, group);
+      }
+
+      return NextResponse.json({ report, addresses: Array.from(byAddress.values()) });
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '14', 10), 90);
+    const { data: reports, error } = await supabase
+      .from('reconciliation_reports')
+      .select('*')
+      .order('report_date', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[AdminReconciliation] Error fetching reports:', error);
+      return NextResponse.json({ error: 'Failed to fetch reports' }, { status: 500 });
+    }
+
+    return NextResponse.json({ reports: reports || [] });
+  } catch (error) {
+    console.error('[AdminReconciliation] Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation
+ * Run today's reconciliation now (replaces today's report if one exists).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    const result = await runReconciliation({ triggeredBy: auth.ctx.userId });
+
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: 'treasury.run_reconciliation',
+      entityType: 'reconciliation_report',
+      entityId: result.reportId,
+      details: {
+        report_date: result.reportDate,
+        addresses_checked: result.addressesChecked,
+        discrepancies: result.discrepancies,
+      },
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[AdminReconciliation] Run failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reconciliation failed' },
+      { status: 500 }
+    );
+  }
+}
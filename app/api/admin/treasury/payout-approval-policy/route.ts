@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPrivilege } from '@/lib/admin/access-control';
+import { recordAdminAction } from '@/lib/admin/audit-log';
+import { roleRank } from '@/lib/admin/permissions';
+import { getPayoutApprovalPolicy, updatePayoutApprovalPolicy } from '@/lib/treasury/payout-approvals';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/treasury/payout-approval-policy
+ * Current multi-signature payout approval policy
+ */
+export async function GET() {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    const policy = await getPayoutApprovalPolicy();
+
+    return NextResponse.json({ policy, canEdit: roleRank(auth.ctx.role) >= roleRank('superadmin+') });
+  } catch (error) {
+    console.error('[PayoutApprovalPolicy] Error fetching policy:', error);
+    return NextResponse.json({ error: 'Failed to fetch payout approval policy' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/treasury/payout-approval-policy
+ * Update the policy. Superadmin+ only: a manage_payouts grant is not enough,
+ * so the admins the policy constrains can't loosen it.
+ * Body: { thresholdUsd?, requiredApprovals?, windowHours? }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('manage_payouts');
+    if (!auth.ok) return auth.response;
+
+    if (roleRank(auth.ctx.role) < roleRank('superadmin+')) {
+      return NextResponse.json({ error: 'Only superadmin+ can change the payout approval policy' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const previous = await getPayoutApprovalPolicy();
+
+    const result = await updatePayoutApprovalPolicy({
+      thresholdUsd: body.thresholdUsd === undefined ? undefined : Number(body.thresholdUsd),
+      requiredApprovals: body.requiredApprovals === undefined ? undefined : Number(body.requiredApprovals),
+      windowHours: body.windowHours === undefined ? undefined : Number(body.windowHours),
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const policy = await getPayoutApprovalPolicy();
+
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: 'treasury.update_payout_approval_policy',
+      entityType: 'treasury_settings',
+      before: previous,
+      after: policy,
+      reason: body.reason,
+    });
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    console.error('[PayoutApprovalPolicy] Error updating policy:', error);
+    return NextResponse.json({ error: 'Failed to update payout approval policy' }, { status: 500 });
+  }
+}
@@ -7,6 +7,9 @@
  * Body: { nonce: number, action: 'replace' | 'cancel', gasMultiplier?: number }
  *  - replace: re-broadcast the original POL funding to the same deposit address (recovery).
  *  - cancel: send 0-value self-transfer at the same nonce (frees the queue without re-funding).
+ * Nonces without a funding user are replayed from the nonce manager's record
+ * when it has one. The replace-stuck-txs cron does this automatically up to the
+ * chain's fee cap; this route is for escalations and anything sent outside it.
  *
  * Does NOT mutate users.sweep_*; once the replacement is mined and POL lands,
  * sweep-execute step 1 promotes the user to 'ready' on its own.
@@ -17,6 +20,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 import { roleRank } from '@/lib/admin/permissions';
 import {
   GAS_BUFFER_MULTIPLIER,
@@ -24,6 +28,8 @@ import {
   applyMultiplier,
   maxFee,
 } from '@/lib/treasury/gas-config';
+import { getManagedTransaction, recordReplacement } from '@/lib/treasury/nonce-manager';
+import { DEFAULT_CHAIN } from '@/lib/chains/registry';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -109,7 +115,12 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    if (!originalTx && action === 'replace') {
+    // Sends made through the nonce manager (payouts aside, every gas tank send)
+    // recorded their to/value/data, so they can be replaced without a user link
+    const managed = await getManagedTransaction(DEFAULT_CHAIN, wallet.address, nonce);
+    const managedReplayable = !!managed?.to_address && !!managed.gas_limit;
+
+    if (!originalTx && !managedReplayable && action === 'replace') {
       return NextResponse.json(
         {
           error:
@@ -120,8 +131,10 @@ export async function POST(req: NextRequest) {
     }
 
     const feeData = await provider.getFeeData();
-    const originalMaxFee = originalTx?.maxFeePerGas ?? originalTx?.gasPrice ?? BigInt(0);
-    const originalPriorityFee = originalTx?.maxPriorityFeePerGas ?? BigInt(0);
+    const originalMaxFee =
+      originalTx?.maxFeePerGas ?? originalTx?.gasPrice ?? BigInt(managed?.max_fee_per_gas || '0');
+    const originalPriorityFee =
+      originalTx?.maxPriorityFeePerGas ?? BigInt(managed?.max_priority_fee_per_gas || '0');
 
     // newFee = max(network suggestion × user multiplier, original × 1.15)
     // The 1.15 floor satisfies Polygon's ≥10% replacement bump rule, and the user multiplier
@@ -145,6 +158,16 @@ export async function POST(req: NextRequest) {
         maxPriorityFeePerGas: newPriorityFee,
         gasLimit: 21000,
       });
+    } else if (action === 'replace' && managed) {
+      replacementTx = await wallet.sendTransaction({
+        to: managed.to_address!,
+        value: BigInt(managed.value_wei || '0'),
+        data: managed.data || '0x',
+        nonce,
+        maxFeePerGas: newMaxFee,
+        maxPriorityFeePerGas: newPriorityFee,
+        gasLimit: BigInt(managed.gas_limit!),
+      });
     } else {
       // Cancel: 0-value self-transfer
       replacementTx = await wallet.sendTransaction({
@@ -161,6 +184,12 @@ export async function POST(req: NextRequest) {
       `[ReplaceStuckTx] Broadcast ${action} for nonce ${nonce}: ${replacementTx.hash} (admin ${authUser.id})`
     );
 
+    // Keep the nonce manager's record in step so the cron doesn't bump the dead
+    // original (this also repoints stored hashes for managed sends)
+    if (managed) {
+      await recordReplacement(managed, replacementTx, action === 'cancel' ? 'admin_cancel' : undefined);
+    }
+
     // If we have a user linked to this nonce, update their funding tx hash so the
     // sweep-verify / status display point at the new (replacement) hash rather than
     // the dead original.
@@ -171,30 +200,22 @@ export async function POST(req: NextRequest) {
         .eq('id', linkedUserId);
     }
 
-    await supabase.from('crypto_audit_log').insert({
-      event_type: 'admin_action',
-      admin_id: authUser.id,
-      user_id: linkedUserId,
-      entity_type: 'treasury',
-      details: {
-        action: 'replace_stuck_tx',
-        sub_action: action,
-        nonce,
-        gas_tank: wallet.address,
-        original_hash: originalTx?.hash ?? null,
-        new_hash: replacementTx.hash,
-        original_max_fee_gwei: Number(ethers.formatUnits(originalMaxFee, 'gwei')),
-        new_max_fee_gwei: Number(ethers.formatUnits(newMaxFee, 'gwei')),
-        multiplier: userMultiplier,
-        linked_user_id: linkedUserId,
-      },
+    await recordAdminAction(req, {
+      actorId: authUser.id,
+      action: `treasury.${action}_stuck_tx`,
+      targetUserId: linkedUserId,
+      entityType: 'gas_tank_nonce',
+      entityId: `${wallet.address}:${nonce}`,
+      before: { tx_hash: originalTx?.hash ?? managed?.tx_hash ?? null, max_fee_gwei: Number(ethers.formatUnits(originalMaxFee, 'gwei')) },
+      after: { tx_hash: replacementTx.hash, max_fee_gwei: Number(ethers.formatUnits(newMaxFee, 'gwei')) },
+      details: { gas_tank: wallet.address, nonce, multiplier: userMultiplier },
     });
 
     return NextResponse.json({
       success: true,
       action,
       nonce,
-      originalHash: originalTx?.hash ?? null,
+      originalHash: originalTx?.hash ?? managed?.tx_hash ?? null,
       newHash: replacementTx.hash,
       newMaxFeeGwei: Number(ethers.formatUnits(newMaxFee, 'gwei')),
       newPriorityFeeGwei: Number(ethers.formatUnits(newPriorityFee, 'gwei')),
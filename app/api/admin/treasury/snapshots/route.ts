@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPrivilege } from '@/lib/admin/access-control';
+import { recordAdminAction } from '@/lib/admin/audit-log';
+import { captureTreasurySnapshot, getTreasurySnapshots } from '@/lib/treasury/snapshot-service';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * GET /api/admin/treasury/snapshots
+ * Daily treasury snapshots, oldest first.
+ * Query: ?days=N (default 90, max 365)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = new URL(req.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '90', 10) || 90, 1), 365);
+
+    const snapshots = await getTreasurySnapshots(days);
+
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error('[AdminTreasurySnapshots] Error fetching snapshots:', error);
+    return NextResponse.json({ error: 'Failed to fetch treasury snapshots' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/treasury/snapshots
+ * Record today's snapshot now (replaces today's row if one exists).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAdminPrivilege('view_financials');
+    if (!auth.ok) return auth.response;
+
+    const result = await captureTreasurySnapshot({ triggeredBy: auth.ctx.userId });
+
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: 'treasury.capture_snapshot',
+      entityType: 'treasury_snapshot',
+      entityId: result.snapshot.id,
+      details: { snapshot_date: result.snapshot.snapshot_date, replaced: result.replaced },
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[AdminTreasurySnapshots] Snapshot failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Snapshot failed' },
+      { status: 500 }
+    );
+  }
+}
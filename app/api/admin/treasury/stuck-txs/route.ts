@@ -10,6 +10,8 @@ import { NextResponse } from 'next/server';
 import { ethers } from 'ethers';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { roleRank } from '@/lib/admin/permissions';
+import { getManagedTransaction } from '@/lib/treasury/nonce-manager';
+import { DEFAULT_CHAIN } from '@/lib/chains/registry';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -87,6 +89,9 @@ export async function GET() {
       linkedUserId: string | null;
       linkedUserEmail: string | null;
       linkedUsdcBalance: string | null;
+      // From the nonce manager's record, when the tx was sent through it
+      bumpCount: number;
+      escalatedAt: string | null;
     };
 
     // Pre-fetch every funding_sent user's tx once, then index by nonce. Avoids an O(N*M)
@@ -111,6 +116,31 @@ export async function GET() {
     for (let nonce = confirmedNonce; nonce < pendingNonce; nonce++) {
       const match = fundingTxByNonce.get(nonce);
 
+      const managed = await getManagedTransaction(DEFAULT_CHAIN, gasTankAddress, nonce);
+
+      // Not a funding tx we can link to a user: use the nonce manager's record if any
+      if (!match && managed?.tx_hash) {
+        const managedMaxFee = BigInt(managed.max_fee_per_gas || '0');
+        stuckTxs.push({
+          nonce,
+          hash: managed.tx_hash,
+          to: managed.to_address,
+          valuePol: ethers.formatEther(BigInt(managed.value_wei || '0')),
+          ageSeconds: managed.broadcast_at
+            ? Math.round((Date.now() - new Date(managed.broadcast_at).getTime()) / 1000)
+            : null,
+          originalMaxFeeGwei: Number(ethers.formatUnits(managedMaxFee, 'gwei')),
+          currentGasPriceGwei,
+          needsBump: managedMaxFee < (currentMaxFee * BigInt(110)) / BigInt(100),
+          linkedUserId: null,
+          linkedUserEmail: null,
+          linkedUsdcBalance: null,
+          bumpCount: managed.bump_count,
+          escalatedAt: managed.escalated_at,
+        });
+        continue;
+      }
+
       // If nothing matched in DB the nonce is still in the gap (probably a payout or other
       // tx) — surface it without the original-fee diagnostic.
       if (!match) {
@@ -126,6 +156,8 @@ export async function GET() {
           linkedUserId: null,
           linkedUserEmail: null,
           linkedUsdcBalance: null,
+          bumpCount: 0,
+          escalatedAt: null,
         });
         continue;
       }
@@ -149,6 +181,8 @@ export async function GET() {
         linkedUserId: matchedUser.id,
         linkedUserEmail: matchedUser.email,
         linkedUsdcBalance: matchedUser.sweep_usdc_balance?.toString() ?? null,
+        bumpCount: managed?.bump_count ?? 0,
+        escalatedAt: managed?.escalated_at ?? null,
       });
     }
 
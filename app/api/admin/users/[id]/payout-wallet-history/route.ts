@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminAccess } from "@/lib/admin/access-control"
+import { listPayoutWalletHistory } from "@/lib/treasury/payout-wallet-change-service"
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/users/[id]/payout-wallet-history
+ * A member's payout wallet changes (requested, confirmed, cancelled), newest first
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdminAccess("superadmin", "manage_payouts")
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const history = await listPayoutWalletHistory(id)
+
+    return NextResponse.json({ history })
+  } catch (error) {
+    console.error("Error fetching payout wallet history:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { createClient as createAdminClient } from '@supabase/supabase-js';
 import { hasPrivilege } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 
 export const runtime = 'nodejs';
 
@@ -85,6 +86,13 @@ export async function POST(req: NextRequest) {
       { auth: { autoRefreshToken: false, persistSession: false } }
     );
 
+    // Snapshot the row for the audit trail before it's gone
+    const { data: deletedUser } = await serviceSupabase
+      .from('users')
+      .select('email, name, role, is_active, referred_by')
+      .eq('id', request.user_id)
+      .single();
+
     // Delete from public.users first (this will cascade to related tables)
     const { error: deleteUserError } = await serviceSupabase
       .from('users')
@@ -118,6 +126,20 @@ export async function POST(req: NextRequest) {
       .update({ status: 'completed' })
       .eq('id', requestId);
 
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'user.approve_deletion',
+      targetUserId: request.user_id,
+      entityType: 'user_deletion_request',
+      entityId: requestId,
+      before: deletedUser,
+      after: null,
+      details: {
+        requested_by: request.requested_by,
+        auth_user_deleted: !deleteAuthError,
+      },
+    });
+
     return NextResponse.json({
       success: true,
       message: `User ${request.user_email} has been permanently deleted`,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { hasPrivilege } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,7 +31,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { user_id, email_confirmation } = body
+    const { user_id, email_confirmation, reason } = body
 
     if (!user_id) {
       return NextResponse.json(
@@ -86,6 +87,15 @@ export async function POST(request: NextRequest) {
 
     console.log(`✅ Deleted orphaned auth user: ${authUser.email} (${authUser.id})`)
 
+    await recordAdminAction(request, {
+      actorId: user.id,
+      action: "user.delete_auth",
+      targetUserId: user_id,
+      entityType: "auth_user",
+      reason,
+      details: { email: authUser.email },
+    })
+
     return NextResponse.json({
       success: true,
       message: "User deleted successfully from auth.users",
@@ -1,6 +1,7 @@
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { NextRequest, NextResponse } from "next/server"
 import { hasPrivilege } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 export async function POST(request: NextRequest) {
   const supabase = await createClient()
@@ -31,6 +32,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "User ID is required" }, { status: 400 })
     }
 
+    // Snapshot the row for the audit trail before it's gone
+    const { data: deletedUser } = await supabase
+      .from("users")
+      .select("email, name, role, is_active, referred_by")
+      .eq("id", userId)
+      .single()
+
     // Call database function to check downline and delete
     const { data: result, error: dbError } = await supabase
       .rpc("delete_user_and_cleanup", {
@@ -52,6 +60,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(result, { status: 400 })
     }
 
+    await recordAdminAction(request, {
+      actorId: user.id,
+      action: "user.delete",
+      targetUserId: userId,
+      before: deletedUser,
+      after: null,
+      reason: deletionReason,
+    })
+
     // If successful, also delete from auth.users using Supabase Admin API
     try {
       const adminClient = createServiceRoleClient()
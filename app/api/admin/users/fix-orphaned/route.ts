@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { hasPrivilege } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,7 +31,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { user_id, referred_by } = body
+    const { user_id, referred_by, reason } = body
 
     if (!user_id) {
       return NextResponse.json(
@@ -123,6 +124,21 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await recordAdminAction(request, {
+      actorId: user.id,
+      action: "user.fix_orphaned",
+      targetUserId: authUser.id,
+      before: null,
+      after: {
+        email: authUser.email,
+        name: authUser.user_metadata?.name || null,
+        referred_by: finalReferredBy,
+        referral_code: referralCode,
+        is_active: false,
+      },
+      reason,
+    })
+
     console.log(`✅ Fixed orphaned user: ${authUser.email} (${authUser.id})`)
     console.log(`   Referred by: ${finalReferredBy}`)
 
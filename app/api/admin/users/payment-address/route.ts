@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { getOrCreateUserDepositAddress } from '@/lib/treasury/treasury-service';
 import { hasPrivilege } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 
 export const runtime = 'nodejs';
 
@@ -103,6 +104,15 @@ export async function POST(req: NextRequest) {
         );
       }
       depositAddress = addressResult.data.address;
+
+      await recordAdminAction(req, {
+        actorId: user.id,
+        action: 'user.create_deposit_address',
+        targetUserId: userId,
+        before: { crypto_deposit_address: null },
+        after: { crypto_deposit_address: depositAddress },
+        details: { payment_type: paymentType },
+      });
     }
 
     // Calculate expected amount
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { roleRank } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 
 export const runtime = 'nodejs';
 
@@ -93,6 +94,19 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'user.reassign_position',
+      targetUserId: userId,
+      before: result.old_state,
+      after: result.new_state,
+      reason,
+      details: {
+        new_position_id: result.new_position_id,
+        sponsor_changed: result.sponsor_changed,
+      },
+    });
+
     return NextResponse.json(result);
   } catch (err: unknown) {
     console.error('[ReassignPositionAPI] Error:', err);
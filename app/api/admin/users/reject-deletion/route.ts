@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { hasPrivilege } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 
 export const runtime = 'nodejs';
 
@@ -67,6 +68,18 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'user.reject_deletion',
+      targetUserId: request.user_id,
+      entityType: 'user_deletion_request',
+      entityId: requestId,
+      before: { status: request.status },
+      after: { status: 'rejected' },
+      reason,
+      details: { requested_by: request.requested_by },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Deletion request rejected',
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 
 export const runtime = 'nodejs';
 
@@ -29,7 +30,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Parse request body
-    const { userId } = await req.json();
+    const { userId, reason } = await req.json();
 
     if (!userId) {
       return NextResponse.json({ error: 'userId is required' }, { status: 400 });
@@ -98,6 +99,16 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'user.request_deletion',
+      targetUserId: userId,
+      entityType: 'user_deletion_request',
+      entityId: request.id,
+      reason,
+      details: { user_email: targetUser.email, user_role: targetUser.role },
+    });
+
     return NextResponse.json({
       success: true,
       request,
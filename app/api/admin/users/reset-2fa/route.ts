@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 /**
  * POST /api/admin/users/reset-2fa
@@ -25,7 +26,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Forbidden - superadmin+ required" }, { status: 403 })
     }
 
-    const { user_id } = await request.json()
+    const { user_id, reason } = await request.json()
 
     if (!user_id) {
       return NextResponse.json({ error: "user_id is required" }, { status: 400 })
@@ -50,17 +51,14 @@ export async function POST(request: NextRequest) {
 
     const removed = deletedCount || 0
 
-    // Audit log
-    await supabase.from("crypto_audit_log").insert({
-      event_type: "admin_action",
-      admin_id: user.id,
-      entity_type: "user",
-      entity_id: user_id,
+    await recordAdminAction(request, {
+      actorId: user.id,
+      action: "user.reset_2fa",
+      targetUserId: user_id,
+      reason,
       details: {
-        action: "2fa_reset",
         target_email: targetUser.email,
         factors_removed: removed,
-        triggered_by: adminData?.name || user.email,
       },
     })
 
@@ -3,6 +3,7 @@ import crypto from "node:crypto"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { sendEmail } from "@/lib/notifications/twilio/email-service"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 export const runtime = "nodejs"
 
@@ -35,7 +36,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json().catch(() => null) as
-      | { user_id?: string; method?: ResetMethod }
+      | { user_id?: string; method?: ResetMethod; reason?: string }
       | null
 
     if (!body?.user_id || !body?.method) {
@@ -104,16 +105,12 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      await supabase.from("crypto_audit_log").insert({
-        event_type: "admin_action",
-        admin_id: user.id,
-        entity_type: "user",
-        entity_id: body.user_id,
-        details: {
-          action: "password_reset_link_sent",
-          target_email: targetUser.email,
-          triggered_by: triggeredBy,
-        },
+      await recordAdminAction(request, {
+        actorId: user.id,
+        action: "user.reset_password",
+        targetUserId: body.user_id,
+        reason: body.reason,
+        details: { method: "send_link", target_email: targetUser.email },
       })
 
       return NextResponse.json({
@@ -163,15 +160,14 @@ export async function POST(request: NextRequest) {
       console.error("[ResetPassword] SendGrid error (temporary_password):", emailResult.error)
     }
 
-    await supabase.from("crypto_audit_log").insert({
-      event_type: "admin_action",
-      admin_id: user.id,
-      entity_type: "user",
-      entity_id: body.user_id,
+    await recordAdminAction(request, {
+      actorId: user.id,
+      action: "user.reset_password",
+      targetUserId: body.user_id,
+      reason: body.reason,
       details: {
-        action: "password_reset_temp_password_set",
+        method: "temporary_password",
         target_email: targetUser.email,
-        triggered_by: triggeredBy,
         notification_email_sent: emailResult.success,
       },
     })
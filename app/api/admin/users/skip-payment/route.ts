@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
 import { roleRank } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 export const runtime = "nodejs"
 
@@ -10,7 +11,7 @@ export const runtime = "nodejs"
  * next_payment_due_date. Treats the user as if they had just paid for the
  * current period: marks them active, sets paid_for_period, advances the
  * period boundary. Does NOT create payments/commissions/usdc_transactions
- * rows — accounting tables are untouched. Audit trail goes to crypto_audit_log.
+ * rows — accounting tables are untouched. Recorded in the admin audit trail.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -32,7 +33,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json().catch(() => null) as
-      | { user_id?: string; next_payment_due_date?: string }
+      | { user_id?: string; next_payment_due_date?: string; reason?: string }
       | null
 
     if (!body?.user_id || !body?.next_payment_due_date) {
@@ -61,7 +62,7 @@ export async function POST(request: NextRequest) {
 
     const { data: targetUser, error: targetError } = await adminClient
       .from("users")
-      .select("id, email, name, next_payment_due_date, is_active")
+      .select("id, email, name, next_payment_due_date, previous_payment_due_date, paid_for_period, is_active, inactive_since, last_payment_date")
       .eq("id", body.user_id)
       .single()
 
@@ -95,20 +96,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    await supabase.from("crypto_audit_log").insert({
-      event_type: "admin_action",
-      admin_id: user.id,
-      user_id: body.user_id,
-      entity_type: "user",
-      entity_id: body.user_id,
-      details: {
-        action: "skip_payment",
-        old_next_due: oldNextDue,
-        new_next_due: newDueDate.toISOString(),
-        new_previous_due: oldNextDue ?? nowIso,
-        was_inactive: wasInactive,
-        triggered_by: adminData?.name || user.email || "Administrator",
-      },
+    await recordAdminAction(request, {
+      actorId: user.id,
+      action: "user.skip_payment",
+      targetUserId: body.user_id,
+      before: targetUser,
+      after: updated,
+      reason: body.reason,
+      details: { was_inactive: wasInactive },
     })
 
     return NextResponse.json({
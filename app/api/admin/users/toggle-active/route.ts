@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { hasPrivilege } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit-log';
 
 export const runtime = 'nodejs';
 
@@ -30,7 +31,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Parse request body
-    const { userId, isActive } = await req.json();
+    const { userId, isActive, reason } = await req.json();
 
     if (!userId || typeof isActive !== 'boolean') {
       return NextResponse.json(
@@ -50,6 +51,12 @@ export async function POST(req: NextRequest) {
     // Use service role client to bypass RLS for the update
     const serviceSupabase = createServiceRoleClient();
 
+    const { data: previous } = await serviceSupabase
+      .from('users')
+      .select('is_active')
+      .eq('id', userId)
+      .single();
+
     // Update user active status
     const { data: updatedUser, error: updateError } = await serviceSupabase
       .from('users')
@@ -66,6 +73,15 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await recordAdminAction(req, {
+      actorId: user.id,
+      action: 'user.toggle_active',
+      targetUserId: userId,
+      before: previous,
+      after: { is_active: updatedUser.is_active },
+      reason,
+    });
+
     return NextResponse.json({
       success: true,
       user: updatedUser,
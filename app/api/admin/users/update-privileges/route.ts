@@ -9,6 +9,7 @@ import {
   roleRank,
   type PrivilegeKey,
 } from "@/lib/admin/permissions"
+import { recordAdminAction } from "@/lib/admin/audit-log"
 
 // The DB enum user_role has no "user" label — "member" is the base role.
 // Accept "user" from older clients as an alias and normalize before writing.
@@ -153,6 +154,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Failed to update privileges" }, { status: 500 })
     }
 
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: "user.update_privileges",
+      targetUserId: userId,
+      before: { role: target.role, permissions: target.permissions ?? [] },
+      after: { role: updated.role, permissions: updated.permissions ?? [] },
+      reason: typeof body.reason === "string" ? body.reason : null,
+    })
+
     return NextResponse.json({ success: true, user: updated })
   } catch (error) {
     console.error("update-privileges error:", error)
@@ -0,0 +1,71 @@
+/**
+ * WITHDRAWAL REQUEST REVIEW API
+ *
+ * POST /api/admin/withdrawals/:id/:action
+ *   approve - pending → approved; the reserved commissions can then be paid
+ *             from the payouts page (multi-signature rules still apply)
+ *   reject  - pending → rejected, body: { reason }; commissions are released
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminAccess } from "@/lib/admin/access-control"
+import { recordAdminAction } from "@/lib/admin/audit-log"
+import {
+  approveWithdrawalRequest,
+  rejectWithdrawalRequest,
+  type WithdrawalResult,
+} from "@/lib/treasury/withdrawal-service"
+
+export const runtime = 'nodejs'
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; action: string }> }
+) {
+  try {
+    const auth = await requireAdminAccess("superadmin", "manage_payouts")
+    if (!auth.ok) return auth.response
+
+    const { id, action } = await params
+    let result: WithdrawalResult
+    let reason: string | undefined
+
+    switch (action) {
+      case "approve":
+        result = await approveWithdrawalRequest(id, auth.ctx.userId)
+        break
+      case "reject": {
+        const body = await req.json().catch(() => ({}))
+        reason = body.reason
+        result = await rejectWithdrawalRequest(id, auth.ctx.userId, body.reason)
+        break
+      }
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 404 })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await recordAdminAction(req, {
+      actorId: auth.ctx.userId,
+      action: `withdrawal.${action}`,
+      targetUserId: result.request.user_id,
+      entityType: "withdrawal_request",
+      entityId: id,
+      before: { status: "pending" },
+      after: { status: result.request.status },
+      reason,
+      details: { amount_usdc: result.request.amount_usdc, wallet_address: result.request.wallet_address },
+    })
+
+    return NextResponse.json({ success: true, request: result.request })
+  } catch (error) {
+    console.error("Error reviewing withdrawal request:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
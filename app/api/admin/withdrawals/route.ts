@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAdminAccess } from "@/lib/admin/access-control"
+import { listWithdrawalQueue, type WithdrawalStatus } from "@/lib/treasury/withdrawal-service"
+
+export const runtime = 'nodejs'
+
+const STATUSES: WithdrawalStatus[] = ["pending", "approved", "rejected", "cancelled"]
+
+/**
+ * GET /api/admin/withdrawals?status=pending
+ * Member withdrawal requests awaiting review (or in another status)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAdminAccess("superadmin", "manage_payouts")
+    if (!auth.ok) return auth.response
+
+    const status = (req.nextUrl.searchParams.get("status") || "pending") as WithdrawalStatus
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    const requests = await listWithdrawalQueue(status)
+
+    return NextResponse.json({ requests, currentUserId: auth.ctx.userId })
+  } catch (error) {
+    console.error("Error fetching withdrawal requests:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
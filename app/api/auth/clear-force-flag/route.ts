@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import { createClient, createServiceRoleClient } from "@/lib/supabase/server"
+import { withRateLimit, sessionUserKeyGenerator, RATE_LIMITS } from "@/lib/middleware/rate-limit"
 
 export const runtime = "nodejs"
 
@@ -8,7 +9,12 @@ export const runtime = "nodejs"
  * Clears users.force_password_change for the authenticated caller.
  * Called by /reset-password after a forced password change succeeds.
  */
-export async function POST() {
+export const POST = withRateLimit(clearForceFlag, {
+  ...RATE_LIMITS.auth,
+  keyGenerator: sessionUserKeyGenerator,
+})
+
+async function clearForceFlag() {
   try {
     const supabase = await createClient()
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { gasManager } from '@/lib/polygon/gas-manager';
+import { payoutWalletReleasedFilter } from '@/lib/treasury/payout-wallet-change-service';
 
 export const runtime = 'nodejs';
 
@@ -42,6 +43,7 @@ export async function GET(req: NextRequest) {
       `)
       .eq('status', 'pending')
       .is('payout_batch_id', null)
+      .is('withdrawal_request_id', null) // Member withdrawals are paid on review
       .gte('amount', 10) // Minimum $10 payout
       .order('created_at', { ascending: true })
       .limit(500);
@@ -140,10 +142,12 @@ async function createBatch(
     const userIds = Array.from(userTotals.keys());
 
     // Check user qualification status
+    // Wallets on hold after a recent change wait for a later run
     const { data: users } = await supabase
       .from('users')
       .select('id, qualified, payout_wallet_address')
-      .in('id', userIds);
+      .in('id', userIds)
+      .or(payoutWalletReleasedFilter());
 
     const qualifiedUsers = new Set(
       (users || [])
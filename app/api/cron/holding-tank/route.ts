@@ -0,0 +1,40 @@
+/**
+ * Holding Tank Cron
+ *
+ * Places members whose holding-tank window has expired without their sponsor
+ * placing them, using the sponsor's placement strategy. See
+ * lib/network-holding-tank.
+ *
+ * Run frequency: Hourly
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseExpiredHoldingTank } from '@/lib/network-holding-tank';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await releaseExpiredHoldingTank();
+    const duration = Date.now() - startTime;
+
+    console.log(`[HoldingTank] Complete in ${duration}ms. Placed: ${summary.placed}, Errors: ${summary.errors.length}`);
+
+    return NextResponse.json({ success: true, summary, duration });
+  } catch (error) {
+    console.error('[HoldingTank] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Network Consistency Cron
+ *
+ * Rebuilds network_closure if it has fallen out of step with positions and
+ * rewrites total/active network counters that drifted from it. See
+ * lib/network-closure.
+ *
+ * Run frequency: Daily
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkNetworkConsistency } from '@/lib/network-closure';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await checkNetworkConsistency(true);
+    const duration = Date.now() - startTime;
+
+    console.log(
+      `[NetworkConsistency] Complete in ${duration}ms. Closure rebuilt: ${report.closureRebuilt}, ` +
+      `counters fixed: ${report.countersFixed}`
+    );
+
+    return NextResponse.json({ success: true, report, duration });
+  } catch (error) {
+    console.error('[NetworkConsistency] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * NOTIFICATION CAMPAIGN PROCESSOR - Vercel Cron Job
+ *
+ * Runs every minute to advance campaigns in 'sending':
+ * 1. Sync recipient outcomes from notification_logs
+ * 2. Queue the canary batch, then wait for it to settle
+ * 3. Abort the campaign if the canary success rate is below its threshold
+ * 4. Otherwise queue send_rate_per_minute recipients per run until done
+ *
+ * The outbox itself is drained by /api/cron/process-notifications.
+ *
+ * Security:
+ * - Verifies x-vercel-cron: 1 header
+ * - Verifies Authorization: Bearer <CRON_SECRET>
+ */
+
+import { NextRequest } from 'next/server'
+import { processSendingCampaigns } from '@/lib/notifications/campaign-service'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+function verifyCronRequest(request: NextRequest): boolean {
+  const isCron = request.headers.get('x-vercel-cron') === '1'
+  const authHeader = request.headers.get('authorization')
+  const token = authHeader?.replace('Bearer ', '') || request.nextUrl.searchParams.get('token')
+
+  return isCron || (!!process.env.CRON_SECRET && token === process.env.CRON_SECRET)
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    console.error('❌ Unauthorized cron request')
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const campaigns = await processSendingCampaigns()
+    return Response.json({ success: true, campaigns })
+  } catch (error) {
+    console.error('❌ Campaign processor failed:', error)
+    return Response.json({
+      error: 'Campaign processor failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
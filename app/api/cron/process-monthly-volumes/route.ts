@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { coinbaseWalletService } from '@/lib/coinbase/wallet-service';
+import { closeVolumeMonth, MonthCloseResult } from '@/lib/compensation/plan-service';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120; // Allow up to 2 minutes for processing all users
@@ -11,7 +12,8 @@ export const maxDuration = 120; // Allow up to 2 minutes for processing all user
  *
  * This cron job runs on the 1st of each month at 00:01 UTC and:
  * 1. Archives sniper_volume_current_month to sniper_volume_previous_month
- * 2. Creates sniper_volume_history records for all users with volume
+ * 2. Evaluates every member with volume under the compensation plan in effect
+ *    for that month and records a monthly_commission_statements row each
  * 3. Creates residual_monthly commissions for eligible users
  * 4. Resets sniper_volume_current_month to 0 for all users
  *
@@ -42,29 +44,29 @@ export async function GET(req: NextRequest) {
 
     console.log(`[ProcessMonthlyVolumes] Processing for period: ${monthPeriod}`);
 
-    // Call the main orchestrator function
-    const { data: result, error: processError } = await supabase
-      .rpc('process_monthly_volumes');
-
-    if (processError) {
-      console.error('[ProcessMonthlyVolumes] RPC error:', processError);
+    // Close the month with the compensation plan that applied to it
+    let result: MonthCloseResult;
+    try {
+      result = await closeVolumeMonth(monthPeriod);
+    } catch (processError) {
+      console.error('[ProcessMonthlyVolumes] Month close error:', processError);
+      const errorMessage = processError instanceof Error ? processError.message : 'Unknown error';
 
       // Log the failure
       await supabase.from('monthly_processing_logs').insert({
         step_name: 'Full Process',
         success: false,
-        error_message: processError.message,
+        error_message: errorMessage,
         details: {
           month_period: monthPeriod,
           trigger: isVercelCron ? 'vercel_cron' : 'manual',
-          error_code: processError.code,
         },
       });
 
       return NextResponse.json({
         success: false,
         error: 'Monthly processing failed',
-        details: processError.message,
+        details: errorMessage,
         monthPeriod,
       }, { status: 500 });
     }
@@ -162,6 +164,7 @@ export async function GET(req: NextRequest) {
 
     const summary = {
       monthPeriod,
+      planVersion: result.plan_version,
       archiveStep: {
         usersProcessed: archiveLog?.users_processed || 0,
         totalVolume: archiveLog?.total_volume || 0,
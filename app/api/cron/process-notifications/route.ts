@@ -9,6 +9,8 @@
  * 3. Send via SendGrid/Twilio
  * 4. Log result to notification_logs
  * 5. Update outbox status (processed/failed/retry)
+ * 6. Send due digests (email types members chose to batch daily/weekly
+ *    are held for the digest at step 3 instead of being sent)
  *
  * Security:
  * - Verifies x-vercel-cron: 1 header
@@ -21,6 +23,8 @@
 import { NextRequest } from 'next/server'
 import { createServiceRoleClient } from '@/lib/supabase/server'
 import { sendNotificationDirectly } from '@/lib/notifications/direct-send'
+import { holdForDigest, sendDueDigests, shouldHoldForDigest, type DigestRunStats } from '@/lib/notifications/digest-service'
+import type { NotificationPreferences } from '@/lib/notifications/notification-types'
 
 // IMPORTANT: Use Node runtime (not Edge)
 export const runtime = 'nodejs'
@@ -52,6 +56,18 @@ function verifyCronRequest(request: NextRequest): boolean {
   return isCron || validToken
 }
 
+/**
+ * Send due digests without failing the outbox run
+ */
+async function runDigests(supabase: ReturnType<typeof createServiceRoleClient>): Promise<DigestRunStats | null> {
+  try {
+    return await sendDueDigests(supabase)
+  } catch (error) {
+    console.error('❌ Digest run failed:', error)
+    return null
+  }
+}
+
 export async function GET(request: NextRequest) {
   const startTime = Date.now()
 
@@ -88,6 +104,7 @@ export async function GET(request: NextRequest) {
         processed: 0,
         failed: 0,
         skipped: 0,
+        digests: await runDigests(supabase),
         message: 'No pending notifications'
       })
     }
@@ -98,6 +115,10 @@ export async function GET(request: NextRequest) {
     let processed = 0
     let failed = 0
     let skipped = 0
+    let held = 0
+
+    // Digest preferences per member, loaded once per run
+    const digestSettings = new Map<string, { preferences: NotificationPreferences | null; timezone: string | null }>()
 
     for (const job of claimedJobs) {
       try {
@@ -124,6 +145,47 @@ export async function GET(request: NextRequest) {
           continue
         }
 
+        // Hold for the member's digest instead of sending now
+        if (job.channel === 'email') {
+          if (!digestSettings.has(job.user_id)) {
+            const { data: user } = await supabase
+              .from('users')
+              .select('notification_preferences, timezone')
+              .eq('id', job.user_id)
+              .single()
+            digestSettings.set(job.user_id, {
+              preferences: user?.notification_preferences || null,
+              timezone: user?.timezone || null
+            })
+          }
+
+          const settings = digestSettings.get(job.user_id)!
+          if (shouldHoldForDigest(job.notification_type, job.channel, settings.preferences)) {
+            await holdForDigest(
+              supabase,
+              {
+                user_id: job.user_id,
+                notification_type: job.notification_type,
+                data: job.data,
+                idempotency_key: job.idempotency_key
+              },
+              settings.preferences,
+              settings.timezone
+            )
+
+            await supabase
+              .from('notification_outbox')
+              .update({
+                status: 'processed',
+                updated_at: new Date().toISOString()
+              })
+              .eq('id', job.id)
+
+            held++
+            continue
+          }
+        }
+
         // Send notification via existing direct-send logic
         const results = await sendNotificationDirectly(
           {
@@ -217,6 +279,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    const digests = await runDigests(supabase)
+
     const duration = Date.now() - startTime
     const stats = {
       success: true,
@@ -224,6 +288,8 @@ export async function GET(request: NextRequest) {
       processed,
       failed,
       skipped,
+      held,
+      digests,
       duration_ms: duration,
       worker: WORKER_ID
     }
@@ -0,0 +1,36 @@
+/**
+ * On-chain Reconciliation Cron
+ *
+ * Scans USDC Transfer events for every deposit address and the payout wallet
+ * since the previous report and compares them with usdc_transactions, sweep
+ * audit events and ledger balances. Discrepancies are stored for review on the
+ * admin financials page; nothing is corrected automatically.
+ *
+ * Run frequency: daily via Vercel cron.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runReconciliation } from '@/lib/treasury/reconciliation-service';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await runReconciliation();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[ReconcileOnchain] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
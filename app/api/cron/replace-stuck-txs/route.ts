@@ -0,0 +1,60 @@
+/**
+ * Replace Stuck Transactions Cron
+ *
+ * Closes out mined hot wallet sends and fee-bumps the ones that have sat in
+ * the mempool longer than stuck_tx_bump_after_minutes (payout wallet and
+ * every chain's gas tank). Bumps that would exceed the chain's fee cap are
+ * escalated to admins instead. See lib/treasury/stuck-tx-replacer.
+ *
+ * Run frequency: Every 5 minutes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { replaceStuckTransactions } from '@/lib/treasury/stuck-tx-replacer';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await replaceStuckTransactions();
+    const duration = Date.now() - startTime;
+
+    if (summary.confirmed + summary.released + summary.gapsFilled + summary.bumped + summary.escalated.length > 0) {
+      const supabase = createServiceRoleClient();
+      await supabase.from('crypto_audit_log').insert({
+        event_type: 'stuck_tx_cron_completed',
+        entity_type: 'treasury',
+        details: {
+          wallets_checked: summary.walletsChecked,
+          confirmed: summary.confirmed,
+          released: summary.released,
+          gaps_filled: summary.gapsFilled,
+          bumped: summary.bumped,
+          escalated: summary.escalated.length,
+          errors: summary.errors,
+          duration_ms: duration,
+        },
+      });
+    }
+
+    console.log(`[ReplaceStuckTxs] Complete in ${duration}ms. Bumped: ${summary.bumped}, Escalated: ${summary.escalated.length}`);
+
+    return NextResponse.json({ success: true, summary, duration });
+  } catch (error) {
+    console.error('[ReplaceStuckTxs] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Treasury Snapshot Cron
+ *
+ * Records treasury, payout wallet, gas tank and unswept deposit balances
+ * plus outstanding commission liability in treasury_snapshots, for the
+ * history charts on the admin financials page.
+ *
+ * Run frequency: daily via Vercel cron.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { captureTreasurySnapshot } from '@/lib/treasury/snapshot-service';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await captureTreasurySnapshot();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[SnapshotTreasury] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
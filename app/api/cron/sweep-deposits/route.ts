@@ -8,7 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import {
   sweepAllPendingDeposits,
-  getMasterXprv,
+  isMasterXprvConfigured,
   fundDepositForSweep,
   getUsersToSweep,
 } from '@/lib/treasury/sweep-service';
@@ -26,9 +26,9 @@ async function handleStatusRequest() {
   const supabase = createServiceRoleClient();
 
   // Check if sweep is configured
-  const masterXprv = await getMasterXprv();
+  const hasMasterXprv = await isMasterXprvConfigured();
   const treasuryAddress = await getTreasurySetting('treasury_wallet_address');
-  const configured = !!(masterXprv && treasuryAddress);
+  const configured = !!(hasMasterXprv && treasuryAddress);
 
   // Get users with deposit addresses
   const usersToSweep = await getUsersToSweep(100);
@@ -106,8 +106,7 @@ export async function GET(req: NextRequest) {
     console.log('[SweepDeposits] Starting automated sweep...');
 
     // Check if sweep is configured
-    const masterXprv = await getMasterXprv();
-    if (!masterXprv) {
+    if (!(await isMasterXprvConfigured())) {
       console.log('[SweepDeposits] Sweep not configured - master xprv not set');
       return NextResponse.json({
         success: true,
@@ -275,11 +274,10 @@ export async function POST(req: NextRequest) {
 
     // Otherwise sweep all users with deposit addresses
     // Check configuration first
-    const masterXprv = await getMasterXprv();
-    if (!masterXprv) {
+    if (!(await isMasterXprvConfigured())) {
       return NextResponse.json({
         success: false,
-        error: 'Master wallet xprv not configured in treasury settings',
+        error: 'Master wallet xprv not configured in key custody',
       }, { status: 400 });
     }
 
@@ -3,9 +3,10 @@
  * Step 3 of the sweep pipeline: Executes USDC sweeps
  *
  * This job:
- * 1. Checks 'funding_sent' users to see if POL arrived -> marks 'ready'
+ * 1. Checks 'funding_sent' users to see if gas arrived -> marks 'ready'
  * 2. Finds users with sweep_status = 'ready'
- * 3. Broadcasts USDC sweep transactions (no wait for confirmation)
+ * 3. Broadcasts stablecoin sweep transactions on each user's sweep_chain
+ *    (no wait for confirmation)
  * 4. Updates sweep_status to 'sweeping'
  *
  * Run frequency: Every 5 minutes
@@ -14,25 +15,23 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
-import { getMasterXprv, derivePrivateKey, verifyDerivedAddress } from '@/lib/treasury/sweep-service';
+import { isMasterXprvConfigured } from '@/lib/treasury/sweep-service';
+import { getDepositAddressSigner } from '@/lib/custody/custody-signer';
 import { getTreasurySetting } from '@/lib/treasury/treasury-service';
-import { POLYGON_CONFIG, ACCEPTED_USDC_CONTRACTS_MAINNET } from '@/lib/coinbase/wallet-types';
 import { computeOutgoingFees } from '@/lib/treasury/gas-config';
+import { ChainKey, DEFAULT_CHAIN, getChain, getChainProvider } from '@/lib/chains/registry';
 import { ethers } from 'ethers';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
-// Minimum POL needed for gas
-const MIN_POL_FOR_GAS = 0.08;
 // Max users to process per run
 const BATCH_SIZE = 20;
 // If a funding tx hasn't been mined after this long, mark the user 'failed' so
 // admin can replace the stuck nonce via /api/admin/treasury/replace-stuck-tx.
 const FUNDING_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
 
-// USDC contract ABI (minimal for transfer)
+// ERC-20 ABI (minimal for transfer)
 const USDC_ABI = [
   'function transfer(address to, uint256 amount) returns (bool)',
   'function balanceOf(address account) view returns (uint256)',
@@ -55,8 +54,7 @@ export async function GET(req: NextRequest) {
     const supabase = createServiceRoleClient();
 
     // Get treasury configuration
-    const masterXprv = await getMasterXprv();
-    if (!masterXprv) {
+    if (!(await isMasterXprvConfigured())) {
       return NextResponse.json({ error: 'Master xprv not configured' }, { status: 500 });
     }
 
@@ -65,14 +63,10 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Treasury address not configured' }, { status: 500 });
     }
 
-    // Set up provider once - used by step 1 (timeout check) and step 3 (sweep broadcast).
-    const rpcUrl = process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com';
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-    // Step 1: Check 'funding_sent' users to see if POL arrived, or time out stuck ones.
+    // Step 1: Check 'funding_sent' users to see if gas arrived, or time out stuck ones.
     const { data: fundingUsers } = await supabase
       .from('users')
-      .select('id, email, crypto_deposit_address, sweep_funded_at, sweep_funding_tx')
+      .select('id, email, crypto_deposit_address, sweep_funded_at, sweep_funding_tx, sweep_chain')
       .eq('sweep_status', 'funding_sent')
       .limit(BATCH_SIZE);
 
@@ -80,13 +74,15 @@ export async function GET(req: NextRequest) {
     let timedOut = 0;
 
     if (fundingUsers && fundingUsers.length > 0) {
-      console.log(`[SweepExecute] Checking ${fundingUsers.length} users for POL arrival...`);
+      console.log(`[SweepExecute] Checking ${fundingUsers.length} users for gas arrival...`);
 
       for (const user of fundingUsers) {
-        const polResult = await polygonUSDCClient.getMATICBalance(user.crypto_deposit_address);
-        const polBalance = parseFloat(polResult.data || '0');
+        const chainKey = (user.sweep_chain || DEFAULT_CHAIN) as ChainKey;
+        const provider = getChainProvider(chainKey);
+        const gasBalanceWei = await provider.getBalance(user.crypto_deposit_address).catch(() => BigInt(0));
+        const polBalance = parseFloat(ethers.formatEther(gasBalanceWei));
 
-        if (polBalance >= MIN_POL_FOR_GAS) {
+        if (polBalance >= getChain(chainKey).minGasForSweep) {
           await supabase
             .from('users')
             .update({ sweep_status: 'ready' })
@@ -95,7 +91,7 @@ export async function GET(req: NextRequest) {
           continue;
         }
 
-        // POL hasn't arrived. If the funding tx has been broadcast too long ago,
+        // Gas hasn't arrived. If the funding tx has been broadcast too long ago,
         // assume it's stuck in mempool (underpriced gas / nonce blocked) and surface
         // the failure so admin can run replace-stuck-tx.
         const fundedAt = user.sweep_funded_at ? new Date(user.sweep_funded_at).getTime() : 0;
@@ -118,6 +114,7 @@ export async function GET(req: NextRequest) {
               entity_id: user.id,
               details: {
                 reason: 'funding_tx_stuck',
+                chain: chainKey,
                 funding_tx: user.sweep_funding_tx,
                 nonce: fundingTx?.nonce ?? null,
                 funded_at: user.sweep_funded_at,
@@ -134,7 +131,7 @@ export async function GET(req: NextRequest) {
     // Step 2: Find users ready to sweep
     const { data: readyUsers, error } = await supabase
       .from('users')
-      .select('id, email, crypto_deposit_address, crypto_derivation_index, sweep_usdc_balance')
+      .select('id, email, crypto_deposit_address, crypto_derivation_index, sweep_usdc_balance, sweep_chain')
       .eq('sweep_status', 'ready')
       .order('sweep_usdc_balance', { ascending: false })
       .limit(BATCH_SIZE);
@@ -176,38 +173,35 @@ export async function GET(req: NextRequest) {
 
     console.log(`[SweepExecute] Sweeping ${readyUsers.length} users...`);
 
-    // Get all USDC contract addresses to sweep
-    const network = (process.env.POLYGON_NETWORK as 'polygon' | 'polygon-testnet') || 'polygon';
-    const usdcAddresses = network === 'polygon'
-      ? [...ACCEPTED_USDC_CONTRACTS_MAINNET]
-      : [POLYGON_CONFIG.TESTNET.usdcContract];
-
-    // Get gas price once. 1.5x buffer keeps txs above the mempool floor even if
-    // network gas spikes between sign-time and inclusion-time.
-    const feeData = await provider.getFeeData();
-    const { maxFeePerGas, maxPriorityFeePerGas } = computeOutgoingFees(feeData);
+    // Get gas price once per chain. 1.5x buffer keeps txs above the mempool floor
+    // even if network gas spikes between sign-time and inclusion-time.
+    const feesByChain = new Map<ChainKey, ReturnType<typeof computeOutgoingFees>>();
 
     for (const user of readyUsers) {
       try {
-        // Derive private key for this user's deposit address
-        const privateKey = derivePrivateKey(masterXprv, user.crypto_derivation_index);
-
-        // Verify the derived address matches
-        if (!verifyDerivedAddress(privateKey, user.crypto_deposit_address)) {
-          throw new Error('Derived address mismatch');
+        const chainKey = (user.sweep_chain || DEFAULT_CHAIN) as ChainKey;
+        const chain = getChain(chainKey);
+        const provider = getChainProvider(chainKey);
+
+        let fees = feesByChain.get(chainKey);
+        if (!fees) {
+          fees = computeOutgoingFees(await provider.getFeeData(), chainKey);
+          feesByChain.set(chainKey, fees);
         }
+        const { maxFeePerGas, maxPriorityFeePerGas } = fees;
 
-        // Create wallet
-        const wallet = new ethers.Wallet(privateKey, provider);
+        // Custody signer for this user's deposit address; the derived key is
+        // checked against crypto_deposit_address on every signature
+        const wallet = getDepositAddressSigner(user.crypto_derivation_index, user.crypto_deposit_address, provider);
 
-        // Check balance on each USDC contract and sweep non-zero ones
+        // Check balance on each accepted token contract and sweep non-zero ones
         let totalBalanceUsdc = 0;
         const userTxHashes: string[] = [];
 
-        for (const usdcAddr of usdcAddresses) {
-          const usdcContract = new ethers.Contract(usdcAddr, USDC_ABI, wallet);
+        for (const token of chain.tokens) {
+          const usdcContract = new ethers.Contract(token.contract, USDC_ABI, wallet);
           const balanceRaw = await usdcContract.balanceOf(user.crypto_deposit_address);
-          const balanceUsdc = parseFloat(ethers.formatUnits(balanceRaw, 6));
+          const balanceUsdc = parseFloat(ethers.formatUnits(balanceRaw, token.decimals));
 
           if (balanceUsdc < 1) {
             continue;
@@ -220,9 +214,7 @@ export async function GET(req: NextRequest) {
             gasLimit: 100000,
           });
 
-          const tokenLabel = usdcAddr.toLowerCase() === POLYGON_CONFIG.MAINNET.usdcContract.toLowerCase()
-            ? 'USDC' : 'USDC.e';
-          console.log(`[SweepExecute] Sweeping ${balanceUsdc} ${tokenLabel} from ${user.crypto_deposit_address}, tx: ${tx.hash}`);
+          console.log(`[SweepExecute] Sweeping ${balanceUsdc} ${token.label} from ${user.crypto_deposit_address} on ${chain.name}, tx: ${tx.hash}`);
 
           totalBalanceUsdc += balanceUsdc;
           userTxHashes.push(tx.hash);
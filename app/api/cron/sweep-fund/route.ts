@@ -1,10 +1,11 @@
 /**
  * Sweep Fund Cron Job
- * Step 2 of the sweep pipeline: Funds users with POL for gas
+ * Step 2 of the sweep pipeline: Funds users with native gas (POL / ETH)
  *
  * This job:
  * 1. Finds users with sweep_status = 'needs_funding'
- * 2. Broadcasts POL funding transactions (no wait for confirmation)
+ * 2. Broadcasts funding transactions from each sweep_chain's gas tank
+ *    (no wait for confirmation)
  * 3. Updates sweep_status to 'funding_sent'
  *
  * Run frequency: Every 5 minutes
@@ -15,12 +16,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { ethers } from 'ethers';
 import { computeOutgoingFees } from '@/lib/treasury/gas-config';
+import { postGasFunding } from '@/lib/ledger/ledger-service';
+import { sendManagedTransaction } from '@/lib/treasury/nonce-manager';
+import { ChainKey, DEFAULT_CHAIN, getChain, getChainProvider, getGasTankPrivateKey } from '@/lib/chains/registry';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
-// Amount of POL to send for gas
-const FUNDING_AMOUNT_POL = '0.15';
 // Max users to fund per run
 const BATCH_SIZE = 20;
 
@@ -38,9 +40,9 @@ export async function GET(req: NextRequest) {
 
     console.log('[SweepFund] Starting funding run...');
 
-    // Check gas tank configuration
-    const gasTankPrivateKey = process.env.GAS_TANK_PRIVATE_KEY;
-    if (!gasTankPrivateKey) {
+    // Check gas tank configuration (Polygon's tank is required; other chains
+    // are skipped below if theirs isn't configured)
+    if (!getGasTankPrivateKey(DEFAULT_CHAIN)) {
       console.error('[SweepFund] GAS_TANK_PRIVATE_KEY not configured');
       return NextResponse.json({ error: 'Gas tank not configured' }, { status: 500 });
     }
@@ -50,7 +52,7 @@ export async function GET(req: NextRequest) {
     // Find users that need funding, prioritize by USDC balance (highest first)
     const { data: users, error } = await supabase
       .from('users')
-      .select('id, email, crypto_deposit_address, sweep_usdc_balance')
+      .select('id, email, crypto_deposit_address, sweep_usdc_balance, sweep_chain')
       .eq('sweep_status', 'needs_funding')
       .order('sweep_usdc_balance', { ascending: false })
       .limit(BATCH_SIZE);
@@ -72,63 +74,85 @@ export async function GET(req: NextRequest) {
 
     console.log(`[SweepFund] Funding ${users.length} users...`);
 
-    // Set up provider and wallet
-    const rpcUrl = process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com';
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const wallet = new ethers.Wallet(gasTankPrivateKey, provider);
-
-    // Get current nonce (we'll increment manually for parallel broadcasts)
-    let nonce = await provider.getTransactionCount(wallet.address, 'pending');
-
-    // Get gas price once (reuse for all txs). 1.5x buffer protects against gas
-    // spikes between sign-time and mempool inclusion-time.
-    const feeData = await provider.getFeeData();
-    const { maxFeePerGas, maxPriorityFeePerGas } = computeOutgoingFees(feeData);
-
     let funded = 0;
     let failed = 0;
     const txHashes: string[] = [];
 
-    // Broadcast all funding transactions (no waiting)
+    // Each chain has its own gas tank (and nonce sequence)
+    const usersByChain = new Map<ChainKey, typeof users>();
     for (const user of users) {
-      try {
-        // Send POL for gas
-        const tx = await wallet.sendTransaction({
-          to: user.crypto_deposit_address,
-          value: ethers.parseEther(FUNDING_AMOUNT_POL),
-          nonce: nonce++,
-          maxFeePerGas,
-          maxPriorityFeePerGas,
-          gasLimit: 21000, // Simple transfer
-        });
-
-        console.log(`[SweepFund] Sent ${FUNDING_AMOUNT_POL} POL to ${user.crypto_deposit_address}, tx: ${tx.hash}`);
-
-        // Update user status (don't wait for confirmation)
-        await supabase
-          .from('users')
-          .update({
-            sweep_status: 'funding_sent',
-            sweep_funding_tx: tx.hash,
-            sweep_funded_at: new Date().toISOString(),
-          })
-          .eq('id', user.id);
-
-        funded++;
-        txHashes.push(tx.hash);
-      } catch (err) {
-        console.error(`[SweepFund] Error funding ${user.email}:`, err);
-
-        // Mark as failed
-        await supabase
-          .from('users')
-          .update({
-            sweep_status: 'failed',
-            sweep_error: err instanceof Error ? err.message : 'Funding failed',
-          })
-          .eq('id', user.id);
-
-        failed++;
+      const chain = (user.sweep_chain || DEFAULT_CHAIN) as ChainKey;
+      usersByChain.set(chain, [...(usersByChain.get(chain) || []), user]);
+    }
+
+    for (const [chainKey, chainUsers] of Array.from(usersByChain.entries())) {
+      const chain = getChain(chainKey);
+      const gasTankPrivateKey = getGasTankPrivateKey(chainKey);
+      if (!gasTankPrivateKey) {
+        console.error(`[SweepFund] ${chain.gasTankPrivateKeyEnv} not configured, skipping ${chainUsers.length} ${chain.name} user(s)`);
+        continue;
+      }
+
+      // Set up provider and wallet
+      const provider = getChainProvider(chainKey);
+      const wallet = new ethers.Wallet(gasTankPrivateKey, provider);
+
+      // Get gas price once (reuse for all txs). 1.5x buffer protects against gas
+      // spikes between sign-time and mempool inclusion-time.
+      const feeData = await provider.getFeeData();
+      const { maxFeePerGas, maxPriorityFeePerGas } = computeOutgoingFees(feeData, chainKey);
+
+      // Broadcast all funding transactions (no waiting)
+      for (const user of chainUsers) {
+        try {
+          // Send native token for gas. The nonce manager hands out the nonce, so
+          // a concurrent send from the same tank can't collide and a stuck
+          // funding tx is fee-bumped by the replace-stuck-txs cron.
+          const tx = await sendManagedTransaction(wallet, {
+            to: user.crypto_deposit_address,
+            value: ethers.parseEther(chain.gasFundingAmount),
+            maxFeePerGas,
+            maxPriorityFeePerGas,
+            gasLimit: 21000, // Simple transfer
+          }, { wallet: 'gas_tank', chain: chainKey, purpose: 'sweep_funding' });
+
+          console.log(`[SweepFund] Sent ${chain.gasFundingAmount} ${chain.nativeSymbol} to ${user.crypto_deposit_address} on ${chain.name}, tx: ${tx.hash}`);
+
+          // Update user status (don't wait for confirmation)
+          await supabase
+            .from('users')
+            .update({
+              sweep_status: 'funding_sent',
+              sweep_funding_tx: tx.hash,
+              sweep_funded_at: new Date().toISOString(),
+            })
+            .eq('id', user.id);
+
+          // Posted at broadcast: a later fee-bump replacement reuses the nonce and
+          // moves the same gas, so it must not be posted again.
+          await postGasFunding({
+            depositAddress: user.crypto_deposit_address,
+            amountPol: parseFloat(chain.gasFundingAmount),
+            txHash: tx.hash,
+            chain: chainKey,
+          });
+
+          funded++;
+          txHashes.push(tx.hash);
+        } catch (err) {
+          console.error(`[SweepFund] Error funding ${user.email}:`, err);
+
+          // Mark as failed
+          await supabase
+            .from('users')
+            .update({
+              sweep_status: 'failed',
+              sweep_error: err instanceof Error ? err.message : 'Funding failed',
+            })
+            .eq('id', user.id);
+
+          failed++;
+        }
       }
     }
 
@@ -143,7 +167,7 @@ export async function GET(req: NextRequest) {
         users_processed: users.length,
         funded,
         failed,
-        amount_per_user: FUNDING_AMOUNT_POL,
+        chains: Array.from(usersByChain.keys()),
         tx_hashes: txHashes,
         duration_ms: duration,
       },
@@ -4,8 +4,10 @@
  *
  * This job:
  * 1. Finds users with deposit addresses in 'idle' or 'failed' status
- * 2. Checks their USDC and POL balances
- * 3. Updates sweep_status to 'needs_funding' or 'ready'
+ * 2. Checks their stablecoin balances on every enabled chain and picks the
+ *    chain holding the most (sweep_chain)
+ * 3. Checks native gas on that chain and updates sweep_status to
+ *    'needs_funding' or 'ready'
  *
  * Run frequency: Every 5 minutes
  * Expected duration: < 30 seconds
@@ -13,16 +15,17 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
+import { ethers } from 'ethers';
 import { checkAndProcessUserDeposit } from '@/lib/treasury/deposit-processor';
+import { getUsdcBalance } from '@/lib/polygon/event-scanner';
+import { weiToUsdc } from '@/lib/treasury/treasury-service';
+import { ChainKey, DEFAULT_CHAIN, getChain, getChainProvider, getEnabledChains } from '@/lib/chains/registry';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
 // Minimum USDC balance to sweep (avoid dust)
 const MIN_SWEEP_AMOUNT = 1;
-// Minimum POL needed for gas
-const MIN_POL_FOR_GAS = 0.08;
 // Max users to process per run
 const BATCH_SIZE = 100;
 
@@ -91,9 +94,18 @@ export async function GET(req: NextRequest) {
     const results = await Promise.allSettled(
       users.map(async (user) => {
         try {
-          // Get USDC balance
-          const usdcResult = await polygonUSDCClient.getBalance(user.crypto_deposit_address);
-          const usdcBalance = usdcResult.success ? parseFloat(usdcResult.data?.balance || '0') : 0;
+          // Get stablecoin balance per chain; sweep the chain holding the most
+          // this run; any other chain is picked up once this one is emptied.
+          let sweepChain: ChainKey = DEFAULT_CHAIN;
+          let usdcBalance = 0;
+          for (const chain of getEnabledChains()) {
+            const balanceWei = await getUsdcBalance(user.crypto_deposit_address, chain.key);
+            const balance = weiToUsdc(Number(balanceWei));
+            if (balance > usdcBalance) {
+              usdcBalance = balance;
+              sweepChain = chain.key;
+            }
+          }
 
           // Skip if below minimum — update sweep_completed_at so this user rotates
           // to the back of the queue, and clear any stale sweep_error so the UI
@@ -124,12 +136,12 @@ export async function GET(req: NextRequest) {
             console.error(`[SweepIdentify] Deposit processing failed for ${user.email} (continuing with sweep):`, procErr);
           }
 
-          // Get POL balance
-          const polResult = await polygonUSDCClient.getMATICBalance(user.crypto_deposit_address);
-          const polBalance = parseFloat(polResult.data || '0');
+          // Get native gas balance on the sweep chain
+          const gasBalanceWei = await getChainProvider(sweepChain).getBalance(user.crypto_deposit_address);
+          const polBalance = parseFloat(ethers.formatEther(gasBalanceWei));
 
           // Determine status
-          const newStatus = polBalance >= MIN_POL_FOR_GAS ? 'ready' : 'needs_funding';
+          const newStatus = polBalance >= getChain(sweepChain).minGasForSweep ? 'ready' : 'needs_funding';
 
           // Update user
           await supabase
@@ -137,12 +149,13 @@ export async function GET(req: NextRequest) {
             .update({
               sweep_status: newStatus,
               sweep_usdc_balance: usdcBalance,
+              sweep_chain: sweepChain,
               sweep_identified_at: new Date().toISOString(),
               sweep_error: null, // Clear any previous error
             })
             .eq('id', user.id);
 
-          return { userId: user.id, action: newStatus, usdcBalance, polBalance };
+          return { userId: user.id, action: newStatus, usdcBalance, polBalance, sweepChain };
         } catch (err) {
           console.error(`[SweepIdentify] Error checking ${user.email}:`, err);
           return { userId: user.id, action: 'error', error: err };
@@ -14,6 +14,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { ethers } from 'ethers';
+import { postDepositSwept } from '@/lib/ledger/ledger-service';
+import { ChainKey, DEFAULT_CHAIN, findToken, getChainProvider } from '@/lib/chains/registry';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -21,6 +23,30 @@ export const maxDuration = 60;
 // Max users to verify per run
 const BATCH_SIZE = 50;
 
+const ERC20_TRANSFER = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+/**
+ * USDC an accepted token moved out of the deposit address in a receipt, or
+ * null if the receipt holds no such transfer.
+ */
+function sweptAmountFromReceipt(
+  receipt: ethers.TransactionReceipt,
+  chain: ChainKey,
+  depositAddress: string
+): number | null {
+  for (const log of receipt.logs) {
+    const token = findToken(chain, log.address);
+    if (!token) continue;
+    const parsed = ERC20_TRANSFER.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name !== 'Transfer') continue;
+    if ((parsed.args.from as string).toLowerCase() !== depositAddress.toLowerCase()) continue;
+    return parseFloat(ethers.formatUnits(parsed.args.value as bigint, token.decimals));
+  }
+  return null;
+}
+
 export async function GET(req: NextRequest) {
   const startTime = Date.now();
 
@@ -40,7 +66,7 @@ export async function GET(req: NextRequest) {
     // Find users with pending sweep transactions
     const { data: users, error } = await supabase
       .from('users')
-      .select('id, email, crypto_deposit_address, sweep_tx, sweep_usdc_balance')
+      .select('id, email, crypto_deposit_address, sweep_tx, sweep_usdc_balance, sweep_chain')
       .eq('sweep_status', 'sweeping')
       .not('sweep_tx', 'is', null)
       .limit(BATCH_SIZE);
@@ -80,12 +106,11 @@ export async function GET(req: NextRequest) {
 
     console.log(`[SweepVerify] Verifying ${users.length} transactions...`);
 
-    // Set up provider
-    const rpcUrl = process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com';
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-
     for (const user of users) {
       try {
+        const chain = (user.sweep_chain || DEFAULT_CHAIN) as ChainKey;
+        const provider = getChainProvider(chain);
+
         // sweep_tx may hold a comma-joined list (multi-token sweeps: native USDC + bridged USDC.e).
         const hashes = (user.sweep_tx as string).split(',').map((h) => h.trim()).filter(Boolean);
 
@@ -132,6 +157,7 @@ export async function GET(req: NextRequest) {
             entity_id: user.id,
             details: {
               deposit_address: user.crypto_deposit_address,
+              chain,
               tx_hashes: hashes,
               reverted_tx: firstRevertHash,
               error: 'Transaction reverted',
@@ -158,12 +184,30 @@ export async function GET(req: NextRequest) {
           entity_id: user.id,
           details: {
             deposit_address: user.crypto_deposit_address,
+            chain,
             amount_usdc: user.sweep_usdc_balance,
             tx_hashes: hashes,
             block_number: lastConfirmedReceipt?.blockNumber ?? null,
             gas_used: lastConfirmedReceipt?.gasUsed?.toString() ?? null,
           },
         });
+        // One ledger entry per transfer, with that transfer's own amount
+        for (let i = 0; i < hashes.length; i++) {
+          const receipt = receipts[i] as ethers.TransactionReceipt;
+          const amountUsdc = sweptAmountFromReceipt(receipt, chain, user.crypto_deposit_address)
+            ?? (hashes.length === 1 ? parseFloat(user.sweep_usdc_balance || '0') : null);
+          if (amountUsdc === null) {
+            console.warn(`[SweepVerify] ${user.email}: no token transfer found in ${hashes[i]}, not posted to ledger`);
+            continue;
+          }
+          await postDepositSwept({
+            userId: user.id,
+            depositAddress: user.crypto_deposit_address,
+            amountUsdc,
+            txHash: hashes[i],
+            chain,
+          });
+        }
         confirmed++;
         totalSweptUsdc += parseFloat(user.sweep_usdc_balance || '0');
       } catch (err) {
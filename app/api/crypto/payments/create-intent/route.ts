@@ -2,7 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { PAYMENT_AMOUNTS } from '@/lib/coinbase/wallet-types';
-import { checkRateLimit, RATE_LIMITS } from '@/lib/middleware/rate-limit';
+import { getAcceptedPaymentOptions } from '@/lib/chains/registry';
+import { withRateLimit, sessionUserKeyGenerator, RATE_LIMITS } from '@/lib/middleware/rate-limit';
 import {
   getOrCreateUserDepositAddress,
   getUserPaymentSchedule,
@@ -16,14 +17,13 @@ export const runtime = 'nodejs';
  * Get user's permanent deposit address and expected payment amount
  * Payment type is determined by user's status, not request params
  */
-export async function POST(req: NextRequest) {
-  try {
-    // Rate limit check
-    const rateLimitResponse = await checkRateLimit(req, RATE_LIMITS.payment);
-    if (rateLimitResponse) {
-      return rateLimitResponse;
-    }
+export const POST = withRateLimit(createIntent, {
+  ...RATE_LIMITS.payment,
+  keyGenerator: sessionUserKeyGenerator,
+});
 
+async function createIntent(req: NextRequest) {
+  try {
     // Parse request body for payment schedule selection
     let requestedSchedule: 'weekly' | 'monthly' | null = null;
     try {
@@ -137,6 +137,8 @@ export async function POST(req: NextRequest) {
       paymentType,
       paymentSchedule: paymentType === 'subscription' ? selectedSchedule : null,
       qrCodeData: depositAddress,
+      // Same address on every accepted chain
+      acceptedPayments: getAcceptedPaymentOptions(),
       // No expiration for permanent addresses
       instructions: {
         title: paymentType === 'initial_unlock'
@@ -237,6 +239,7 @@ export async function GET() {
       paymentType,
       amountUSDC,
       needsPayment: paymentType !== 'none',
+      acceptedPayments: getAcceptedPaymentOptions(),
     });
   } catch (error: any) {
     console.error('[GetDepositAddress GET] Unexpected error:', error);
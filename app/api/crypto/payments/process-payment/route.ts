@@ -5,6 +5,7 @@ import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
 import { coinbaseWalletService } from '@/lib/coinbase/wallet-service';
 import { gasManager } from '@/lib/polygon/gas-manager';
 import { PAYMENT_AMOUNTS } from '@/lib/coinbase/wallet-types';
+import { postDepositReceived, postDepositSwept, postPaymentApplied } from '@/lib/ledger/ledger-service';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // Allow up to 60 seconds for blockchain confirmation
@@ -266,6 +267,25 @@ export async function POST(req: NextRequest) {
       // Don't fail the request as money has moved
     }
 
+    if (transaction) {
+      // The member's funds arrive and go straight on to the treasury, so the
+      // deposit and its sweep are posted together
+      const amountUsdc = parseFloat(intent.amount_usdc);
+      await postDepositReceived({
+        usdcTransactionId: transaction.id,
+        userId: intent.user_id,
+        depositAddress: transferResult.data.from,
+        amountUsdc,
+        txHash: transferResult.data.transactionHash,
+      });
+      await postDepositSwept({
+        userId: intent.user_id,
+        depositAddress: transferResult.data.from,
+        amountUsdc,
+        txHash: transferResult.data.transactionHash,
+      });
+    }
+
     // Update payment intent to completed
     await supabase
       .from('payment_intents')
@@ -348,8 +368,9 @@ async function processInitialUnlock(supabase: any, intent: any, transaction: any
     if (!userBeforeUpdate?.network_position_id) {
       console.log('[ProcessInitialUnlock] User has no network position yet, assigning now...');
 
-      const { data: positionId, error: positionError } = await supabase
-        .rpc('assign_network_position', {
+      // admit_network_member is service-role only
+      const { data: positionId, error: positionError } = await createServiceRoleClient()
+        .rpc('admit_network_member', {
           p_user_id: intent.user_id,
           p_referrer_id: userBeforeUpdate?.referred_by || null
         });
@@ -357,6 +378,9 @@ async function processInitialUnlock(supabase: any, intent: any, transaction: any
       if (positionError) {
         console.error('[ProcessInitialUnlock] Error assigning network position:', positionError);
         // Continue with payment processing even if position assignment fails
+      } else if (!positionId) {
+        // Holding tank is on: the sponsor places them (or the window expires)
+        console.log('[ProcessInitialUnlock] User is waiting in the holding tank for placement');
       } else {
         console.log(`[ProcessInitialUnlock] Network position assigned: ${positionId}`);
 
@@ -441,6 +465,11 @@ async function processInitialUnlock(supabase: any, intent: any, transaction: any
         .eq('id', transaction.id);
     }
 
+    // Initial unlocks don't distribute volume, so the payment is posted here
+    if (payment) {
+      await postPaymentApplied({ paymentId: payment.id, userId: intent.user_id, amountUsdc: parseFloat(intent.amount_usdc) });
+    }
+
     // STEP 5: Update referral status
     const { data: existingReferral } = await supabase
       .from('referrals')
@@ -587,9 +616,11 @@ async function processSubscriptionPayment(supabase: any, intent: any, transactio
     }
 
     // Distribute subscription payment to upline (sniper volume)
+    // Passing the payment id also posts the payment to the ledger
     const { data: distributeResult, error: distributeError } = await supabase.rpc('distribute_to_upline_batch', {
       p_user_id: intent.user_id,
       p_amount: parseFloat(intent.amount_usdc),
+      p_payment_id: payment?.id ?? null,
     });
 
     if (distributeError) {
@@ -1,12 +1,19 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import {
+  getPayoutApprovalPolicy,
+  recordPayoutApproval,
+  requiresPayoutApproval,
+  type PayoutApprovalStatus,
+} from '@/lib/treasury/payout-approvals';
 
 export const runtime = 'nodejs';
 
 /**
  * POST /api/crypto/payouts/approve-batch
- * Admin approves a payout batch for execution
+ * Admin approves a payout batch for execution. Batches above the approval
+ * threshold stay pending until enough distinct admins have approved them.
  */
 export async function POST(req: NextRequest) {
   try {
@@ -61,6 +68,67 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    // Multi-signature policy: record this approval and only move the batch
+    // on once quorum is reached
+    const policy = await getPayoutApprovalPolicy();
+    let approvalStatus: PayoutApprovalStatus | null = null;
+
+    if (requiresPayoutApproval(parseFloat(batch.total_amount_usdc), policy)) {
+      const approval = await recordPayoutApproval({
+        entityType: 'payout_batch',
+        entityId: batchId,
+        amountUsdc: parseFloat(batch.total_amount_usdc),
+        approverId: user.id,
+        createdBy: batch.created_by,
+        policy,
+      });
+
+      if (!approval.success || !approval.status) {
+        return NextResponse.json({
+          success: false,
+          error: approval.error,
+        }, { status: 400 });
+      }
+
+      approvalStatus = approval.status;
+
+      await supabase.from('crypto_audit_log').insert({
+        event_type: 'payout_approved',
+        user_id: null,
+        admin_id: user.id,
+        entity_type: 'payout_batch',
+        entity_id: batchId,
+        details: {
+          batch_name: batch.batch_name,
+          total_amount: batch.total_amount_usdc,
+          total_payouts: batch.total_payouts,
+          approvals: approvalStatus.approvals.length,
+          required_approvals: approvalStatus.required,
+          quorum_reached: approvalStatus.quorumReached,
+          quorum_expires_at: approvalStatus.expiresAt,
+        },
+        ip_address: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
+        user_agent: req.headers.get('user-agent'),
+      });
+
+      if (!approvalStatus.quorumReached) {
+        return NextResponse.json({
+          success: true,
+          message: `Approval recorded (${approvalStatus.approvals.length} of ${approvalStatus.required})`,
+          batch: {
+            id: batch.id,
+            name: batch.batch_name,
+            status: batch.status,
+          },
+          approvals: {
+            count: approvalStatus.approvals.length,
+            required: approvalStatus.required,
+            quorumReached: false,
+          },
+        });
+      }
+    }
+
     // Update batch to approved
     const { data: updatedBatch, error: updateError } = await supabase
       .from('payout_batches')
@@ -81,21 +149,23 @@ export async function POST(req: NextRequest) {
       }, { status: 409 });
     }
 
-    // Log audit event
-    await supabase.from('crypto_audit_log').insert({
-      event_type: 'payout_approved',
-      user_id: null,
-      admin_id: user.id,
-      entity_type: 'payout_batch',
-      entity_id: batchId,
-      details: {
-        batch_name: batch.batch_name,
-        total_amount: batch.total_amount_usdc,
-        total_payouts: batch.total_payouts,
-      },
-      ip_address: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
-      user_agent: req.headers.get('user-agent'),
-    });
+    // Log audit event (multi-signature approvals were logged above)
+    if (!approvalStatus) {
+      await supabase.from('crypto_audit_log').insert({
+        event_type: 'payout_approved',
+        user_id: null,
+        admin_id: user.id,
+        entity_type: 'payout_batch',
+        entity_id: batchId,
+        details: {
+          batch_name: batch.batch_name,
+          total_amount: batch.total_amount_usdc,
+          total_payouts: batch.total_payouts,
+        },
+        ip_address: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
+        user_agent: req.headers.get('user-agent'),
+      });
+    }
 
     return NextResponse.json({
       success: true,
@@ -107,6 +177,12 @@ export async function POST(req: NextRequest) {
         approvedBy: user.id,
         approvedAt: updatedBatch.approved_at,
       },
+      approvals: approvalStatus && {
+        count: approvalStatus.approvals.length,
+        required: approvalStatus.required,
+        quorumReached: true,
+        expiresAt: approvalStatus.expiresAt,
+      },
     });
   } catch (error: any) {
     console.error('[ApproveBatch] Error:', error);
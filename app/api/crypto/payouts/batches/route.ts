@@ -78,6 +78,7 @@ export async function GET(req: NextRequest) {
         successfulPayouts: batch.successful_payouts,
         failedPayouts: batch.failed_payouts,
         totalGasSpent: batch.total_gas_spent_matic,
+        createdBy: batch.created_by,
         approvedBy: batch.approved_by_user,
         approvedAt: batch.approved_at,
         completedAt: batch.completed_at,
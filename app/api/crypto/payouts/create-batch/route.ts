@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
 import { gasManager } from '@/lib/polygon/gas-manager';
+import { payoutWalletReleasedFilter } from '@/lib/treasury/payout-wallet-change-service';
 
 export const runtime = 'nodejs';
 
@@ -51,6 +52,7 @@ export async function POST(req: NextRequest) {
       `)
       .eq('status', 'pending')
       .is('payout_batch_id', null)
+      .is('withdrawal_request_id', null) // Member withdrawals are paid on review
       .gte('amount', minAmount)
       .order('created_at', { ascending: true })
       .limit(maxPayouts);
@@ -88,12 +90,14 @@ export async function POST(req: NextRequest) {
     }
 
     // Get wallet addresses for all users (from users.payout_wallet_address)
+    // Wallets on hold after a recent change wait for a later batch
     const userIds = Array.from(userTotals.keys());
     const { data: usersWithWallets } = await supabase
       .from('users')
       .select('id, payout_wallet_address')
       .in('id', userIds)
-      .not('payout_wallet_address', 'is', null);
+      .not('payout_wallet_address', 'is', null)
+      .or(payoutWalletReleasedFilter());
 
     const walletMap = new Map(
       (usersWithWallets || []).map(u => [u.id, u.payout_wallet_address])
@@ -154,6 +158,7 @@ export async function POST(req: NextRequest) {
         estimated_gas_matic: estimatedGasMatic,
         status: 'pending',
         commission_ids: pendingCommissions.map(c => c.id),
+        created_by: user.id,
       })
       .select()
       .single();
@@ -4,6 +4,14 @@ import { createClient } from '@/lib/supabase/server';
 import { coinbaseWalletService } from '@/lib/coinbase/wallet-service';
 import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
 import { gasManager } from '@/lib/polygon/gas-manager';
+import { postCommissionPaid } from '@/lib/ledger/ledger-service';
+import {
+  getPayoutApprovalPolicy,
+  getPayoutApprovalStatus,
+  quorumErrorMessage,
+  requiresPayoutApproval,
+} from '@/lib/treasury/payout-approvals';
+import { isPayoutWalletOnHold } from '@/lib/treasury/payout-wallet-change-service';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for batch processing
@@ -83,6 +91,30 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    // Multi-signature policy: approvals may have expired since the batch was
+    // approved. Send it back for re-approval rather than sending funds.
+    const policy = await getPayoutApprovalPolicy();
+    const totalAmount = parseFloat(batch.total_amount_usdc);
+    if (requiresPayoutApproval(totalAmount, policy)) {
+      const approvalStatus = await getPayoutApprovalStatus('payout_batch', batchId, totalAmount, policy);
+      if (!approvalStatus.quorumReached) {
+        await supabase
+          .from('payout_batches')
+          .update({ status: 'pending', approved_by: null, approved_at: null })
+          .eq('id', batchId)
+          .eq('status', 'approved');
+
+        return NextResponse.json({
+          success: false,
+          error: `${quorumErrorMessage(approvalStatus)}. The batch has been returned to pending for re-approval.`,
+          approvals: {
+            count: approvalStatus.approvals.length,
+            required: approvalStatus.required,
+          },
+        }, { status: 409 });
+      }
+    }
+
     // Atomically update to processing
     const { data: processingBatch } = await supabase
       .from('payout_batches')
@@ -175,13 +207,18 @@ export async function POST(req: NextRequest) {
     const userIds = Array.from(userPayouts.keys());
     const { data: usersWithWallets } = await supabase
       .from('users')
-      .select('id, payout_wallet_address')
+      .select('id, payout_wallet_address, payout_wallet_hold_until')
       .in('id', userIds)
       .not('payout_wallet_address', 'is', null);
 
     const walletMap = new Map(
       (usersWithWallets || []).map(u => [u.id, u.payout_wallet_address])
     );
+    const heldUntil = new Map(
+      (usersWithWallets || [])
+        .filter(u => isPayoutWalletOnHold(u.payout_wallet_hold_until))
+        .map(u => [u.id, u.payout_wallet_hold_until as string])
+    );
 
     // Check payout wallet balance before processing
     const payoutBalanceResult = await coinbaseWalletService.getPayoutWalletBalance();
@@ -257,6 +294,29 @@ export async function POST(req: NextRequest) {
         continue;
       }
 
+      // The wallet changed after the batch was built: hold, don't send
+      const holdUntil = heldUntil.get(userId);
+      if (holdUntil) {
+        const error = `Payout wallet on hold until ${new Date(holdUntil).toUTCString()}`;
+        for (const commissionId of data.commissionIds) {
+          results.push({
+            commissionId,
+            userId,
+            amount: data.total.toFixed(6),
+            txHash: null,
+            status: 'failed',
+            error,
+          });
+          errorLog.push({
+            commission_id: commissionId,
+            error,
+            timestamp: new Date().toISOString(),
+          });
+        }
+        failCount += data.commissionIds.length;
+        continue;
+      }
+
       // Execute transfer from payout wallet (falls back to treasury if not configured)
       const transferResult = await coinbaseWalletService.transferFromPayoutWallet(
         walletAddress,
@@ -331,6 +391,14 @@ export async function POST(req: NextRequest) {
           });
         }
 
+        await postCommissionPaid({
+          commissionIds: data.commissionIds,
+          userId,
+          amountUsdc: data.total,
+          txHash: transferResult.data.transactionHash,
+          adminId,
+        });
+
         successCount += data.commissionIds.length;
         totalGasSpent += parseFloat(transferResult.data.gasUsed || '0');
 
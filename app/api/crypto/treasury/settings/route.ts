@@ -1,9 +1,12 @@
 /**
  * Treasury Settings API
  * Admin endpoint for managing treasury wallet configuration
+ * Signing keys (master xprv, payout wallet key) are write-only: they go to key
+ * custody and only their status is ever returned.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
 import { createClient } from '@/lib/supabase/server';
 import {
   getTreasurySettings,
@@ -12,9 +15,19 @@ import {
   getPayoutWalletSettings,
   updatePayoutWalletSettings,
   isPayoutWalletConfiguredInDb,
-  getTreasurySetting,
-  setTreasurySetting,
 } from '@/lib/treasury/treasury-service';
+import { CustodyKeyId, CustodyKeyInfo, getKeyCustody } from '@/lib/custody/key-custody';
+
+const CUSTODY_KEY_IDS: CustodyKeyId[] = ['master_xprv', 'payout_wallet'];
+
+/**
+ * Custody status for the settings page (no key material)
+ */
+async function getCustodyKeyStatus(): Promise<Record<CustodyKeyId, CustodyKeyInfo | null>> {
+  const custody = getKeyCustody();
+  const [masterXprv, payoutWallet] = await Promise.all(CUSTODY_KEY_IDS.map((keyId) => custody.getKeyInfo(keyId)));
+  return { master_xprv: masterXprv, payout_wallet: payoutWallet };
+}
 
 /**
  * GET /api/crypto/treasury/settings
@@ -52,9 +65,9 @@ export async function GET() {
     const settings = await getTreasurySettings();
     const isConfigured = await isTreasuryConfigured();
 
-    // Check if xprv is configured (for sweeping)
-    const masterXprv = await getTreasurySetting('master_wallet_xprv');
-    const hasMasterXprv = !!masterXprv;
+    // Check if xprv is in custody (for sweeping)
+    const custodyKeys = await getCustodyKeyStatus();
+    const hasMasterXprv = !!custodyKeys.master_xprv;
 
     // Get payout wallet settings
     const payoutSettings = await getPayoutWalletSettings();
@@ -76,7 +89,8 @@ export async function GET() {
         // Payout wallet settings (never expose private key)
         payoutWalletAddress: payoutSettings?.payoutWalletAddress || '',
         isPayoutWalletConfigured: isPayoutConfigured,
-        hasPayoutPrivateKey: !!(payoutSettings?.payoutWalletPrivateKey),
+        hasPayoutPrivateKey: !!payoutSettings?.hasPayoutPrivateKey,
+        custodyKeys,
       },
     });
   } catch (error) {
@@ -91,6 +105,8 @@ export async function GET() {
 /**
  * POST /api/crypto/treasury/settings
  * Update treasury settings (superadmin only)
+ * Body may also carry rotateKey: 'master_xprv' | 'payout_wallet' to re-encrypt
+ * that custody key under a fresh data key.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -122,7 +138,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { treasuryWalletAddress, masterWalletXpub, masterWalletXprv, payoutWalletAddress, payoutWalletPrivateKey } = body;
+    const { treasuryWalletAddress, masterWalletXpub, masterWalletXprv, payoutWalletAddress, payoutWalletPrivateKey, rotateKey } = body;
 
     // Validate at least one field is provided
     if (
@@ -130,7 +146,8 @@ export async function POST(request: NextRequest) {
       masterWalletXpub === undefined &&
       masterWalletXprv === undefined &&
       payoutWalletAddress === undefined &&
-      payoutWalletPrivateKey === undefined
+      payoutWalletPrivateKey === undefined &&
+      rotateKey === undefined
     ) {
       return NextResponse.json(
         { success: false, error: 'At least one setting must be provided' },
@@ -165,7 +182,22 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         );
       }
-      await setTreasurySetting('master_wallet_xprv', masterWalletXprv);
+      try {
+        ethers.HDNodeWallet.fromExtendedKey(masterWalletXprv);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: 'Invalid xprv: could not parse extended private key' },
+          { status: 400 }
+        );
+      }
+
+      const stored = await getKeyCustody().storeKey('master_xprv', masterWalletXprv, user.id);
+      if (!stored.success) {
+        return NextResponse.json(
+          { success: false, error: stored.error },
+          { status: 500 }
+        );
+      }
     }
 
     // Update payout wallet settings if provided
@@ -186,10 +218,28 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Rotate a custody key's data key if requested
+    if (rotateKey !== undefined) {
+      if (!CUSTODY_KEY_IDS.includes(rotateKey)) {
+        return NextResponse.json(
+          { success: false, error: `rotateKey must be one of: ${CUSTODY_KEY_IDS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const rotated = await getKeyCustody().rotateKey(rotateKey, user.id);
+      if (!rotated.success) {
+        return NextResponse.json(
+          { success: false, error: rotated.error },
+          { status: 400 }
+        );
+      }
+    }
+
     // Get updated settings
     const settings = await getTreasurySettings();
     const isConfigured = await isTreasuryConfigured();
-    const updatedMasterXprv = await getTreasurySetting('master_wallet_xprv');
+    const custodyKeys = await getCustodyKeyStatus();
     const payoutSettings = await getPayoutWalletSettings();
     const isPayoutConfigured = await isPayoutWalletConfiguredInDb();
 
@@ -202,10 +252,11 @@ export async function POST(request: NextRequest) {
         masterWalletXpub: settings?.masterWalletXpub
           ? `${settings.masterWalletXpub.slice(0, 8)}...${settings.masterWalletXpub.slice(-8)}`
           : '',
-        hasMasterXprv: !!updatedMasterXprv,
+        hasMasterXprv: !!custodyKeys.master_xprv,
         payoutWalletAddress: payoutSettings?.payoutWalletAddress || '',
         isPayoutWalletConfigured: isPayoutConfigured,
-        hasPayoutPrivateKey: !!(payoutSettings?.payoutWalletPrivateKey),
+        hasPayoutPrivateKey: !!payoutSettings?.hasPayoutPrivateKey,
+        custodyKeys,
       },
     });
   } catch (error) {
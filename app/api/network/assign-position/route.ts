@@ -3,7 +3,9 @@ import { createServiceRoleClient } from '@/lib/supabase/server'
 
 /**
  * API endpoint to assign network position to a user
- * This should be called after user signup and referral creation
+ * This should be called after user signup and referral creation.
+ * With the holding tank on, the user waits for their sponsor to place them
+ * instead and the response has `held: true` and no positionId.
  *
  * Security: Uses service role to bypass RLS
  * - Position can only be assigned once per user
@@ -68,10 +70,11 @@ export async function POST(request: Request) {
       }
     }
 
-    // Call the database function to assign position
-    console.log('Calling assign_network_position:', { userId, referrerId })
+    // Call the database function to assign position (honours the referrer's
+    // placement strategy and the holding tank)
+    console.log('Calling admit_network_member:', { userId, referrerId })
 
-    const { data, error } = await supabase.rpc('assign_network_position', {
+    const { data, error } = await supabase.rpc('admit_network_member', {
       p_user_id: userId,
       p_referrer_id: referrerId || null
     })
@@ -94,7 +97,7 @@ export async function POST(request: Request) {
       )
     }
 
-    console.log('Position assigned successfully:', data)
+    console.log(data ? `Position assigned successfully: ${data}` : 'User is waiting in the holding tank')
 
     // Fetch the updated user data
     const { data: updatedUser, error: fetchError } = await supabase
@@ -195,8 +198,9 @@ export async function POST(request: Request) {
 
     return NextResponse.json({
       success: true,
-      message: 'Network position assigned successfully',
+      message: data ? 'Network position assigned successfully' : 'Waiting in the holding tank for placement',
       positionId: data,
+      held: !data,
       user: updatedUser
     })
   } catch (error) {
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { getHoldingTankDays, listHeldMembers, placeHeldMember } from '@/lib/network-holding-tank'
+
+const bodySchema = z.object({
+  userId: z.string().uuid(),
+  parentPositionId: z.string().regex(/^L\d{3}P\d{10}$/),
+  slot: z.union([z.literal(1), z.literal(2), z.literal(3)])
+})
+
+const errorCodeToStatus: Record<string, number> = {
+  NOT_HELD: 404,
+  NOT_SPONSOR: 403,
+  INVALID_SLOT: 400,
+  PARENT_NOT_FOUND: 404,
+  PARENT_NOT_IN_SUBTREE: 403,
+  SLOT_OCCUPIED: 409,
+  ALREADY_PLACED: 409
+}
+
+/**
+ * GET /api/network/holding-tank
+ * Members the caller sponsored who are waiting to be placed, and how many
+ * days the holding tank keeps them (0 = off)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [days, members] = await Promise.all([
+      getHoldingTankDays(),
+      listHeldMembers(user.id)
+    ])
+
+    return NextResponse.json({ days, members })
+  } catch (error) {
+    console.error('Error fetching holding tank:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/network/holding-tank
+ * Place a waiting member in an open slot of the caller's subtree. Body:
+ *   { userId, parentPositionId: 'L###P##########', slot: 1 | 2 | 3 }
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parse = bodySchema.safeParse(await request.json())
+    if (!parse.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parse.error.flatten() },
+        { status: 400 }
+      )
+    }
+    const { userId, parentPositionId, slot } = parse.data
+
+    const result = await placeHeldMember(userId, user.id, parentPositionId, slot)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.errorCode },
+        { status: errorCodeToStatus[result.errorCode] ?? 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, positionId: result.positionId })
+  } catch (error) {
+    console.error('Error placing held member:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,139 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import {
+  PLACEMENT_STRATEGIES,
+  getPlacementPreference,
+  isPlacementStrategy,
+  previewPlacement,
+  savePlacementPreference,
+  type PlacementStrategy
+} from '@/lib/network-placement'
+
+const bodySchema = z.object({
+  strategy: z.enum(PLACEMENT_STRATEGIES as [PlacementStrategy, ...PlacementStrategy[]]).nullable(),
+  targetUserId: z.string().uuid().nullish()
+}).refine((body) => body.strategy !== 'under_member' || !!body.targetUserId, {
+  message: 'targetUserId is required for under_member',
+  path: ['targetUserId']
+})
+
+const errorCodeToStatus: Record<string, number> = {
+  INVALID_STRATEGY: 400,
+  REFERRER_NOT_PLACED: 409,
+  TARGET_NOT_IN_SUBTREE: 403,
+  NO_SLOT: 409
+}
+
+async function getTarget(supabase: Awaited<ReturnType<typeof createClient>>, targetUserId: string | null) {
+  if (!targetUserId) return null
+
+  const { data } = await supabase
+    .from('users')
+    .select('id, name, network_position_id')
+    .eq('id', targetUserId)
+    .single()
+
+  return data ?? null
+}
+
+/**
+ * GET /api/network/placement
+ * The caller's placement preference for their new members, plus a preview of
+ * the exact slot (L###P##########) the next one would get.
+ *
+ * Query params (optional) preview a different choice without saving it:
+ *   strategy     - balanced | extreme_left | extreme_right | under_member
+ *   targetUserId - member of the caller's downline, for under_member
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedStrategy = searchParams.get('strategy')
+
+    if (requestedStrategy && !isPlacementStrategy(requestedStrategy)) {
+      return NextResponse.json({ error: 'Unknown placement strategy' }, { status: 400 })
+    }
+
+    const preference = await getPlacementPreference(user.id)
+    const strategy = requestedStrategy ?? preference?.strategy ?? null
+    const targetUserId = requestedStrategy
+      ? searchParams.get('targetUserId')
+      : preference?.targetUserId ?? null
+
+    // No strategy: the default rule places new members, nothing to preview
+    const preview = strategy
+      ? await previewPlacement(user.id, strategy as PlacementStrategy, targetUserId)
+      : null
+
+    return NextResponse.json({
+      preference,
+      strategies: PLACEMENT_STRATEGIES,
+      preview: preview && {
+        strategy,
+        // Only named once it's confirmed to be in the caller's subtree
+        target: strategy === 'under_member' && preview.success ? await getTarget(supabase, targetUserId) : null,
+        ...preview
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching placement preference:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/network/placement
+ * Save the caller's placement preference. Body:
+ *   { strategy: PlacementStrategy | null, targetUserId?: string }
+ * A null strategy goes back to the default rule. under_member targets must be
+ * in the caller's own subtree.
+ */
+export async function PUT(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parse = bodySchema.safeParse(await request.json())
+    if (!parse.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parse.error.flatten() },
+        { status: 400 }
+      )
+    }
+    const { strategy, targetUserId } = parse.data
+
+    const result = await savePlacementPreference(user.id, strategy, targetUserId ?? null)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.errorCode },
+        { status: errorCodeToStatus[result.errorCode] ?? 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      preference: await getPlacementPreference(user.id),
+      slot: result.slot
+    })
+  } catch (error) {
+    console.error('Error saving placement preference:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { requireMemberAccess } from '@/lib/admin/access-control'
 import { parseNetworkPositionId, formatPositionForDisplay } from '@/lib/network-positions'
 
 /**
  * GET /api/network/position?userId=xxx
- * Get network position information for a user
+ * Get network position information for a user (the caller, a member of their
+ * downline, or anyone for admins with manage_network)
  */
 export async function GET(request: Request) {
   try {
@@ -16,6 +18,9 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'userId is required' }, { status: 400 })
     }
 
+    const access = await requireMemberAccess(userId)
+    if (!access.ok) return access.response
+
     // Get user's network position data
     const { data: user, error } = await supabase
       .from('users')
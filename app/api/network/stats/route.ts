@@ -1,18 +1,39 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { requireMemberAccess } from '@/lib/admin/access-control'
+import { getCurrentCompensationPlan } from '@/lib/compensation/plan-service'
 import {
-  NETWORK_CONSTANTS
-} from '@/lib/network-positions'
+  CompensationPlan,
+  evaluateMemberCommission,
+  getMaxCommissionableVolume
+} from '@/lib/compensation/plan-engine'
+import { canWithdrawEarnings } from '@/lib/network-positions'
+
+function planSummary(plan: CompensationPlan) {
+  return {
+    version: plan.version,
+    name: plan.name,
+    structureSize: plan.structureSize,
+    maxStructures: plan.maxStructures,
+    contributionAmount: plan.contributionAmount,
+    rateTiers: plan.rateTiers,
+    directReferralsPerStructure: plan.directReferralsPerStructure,
+    maxCommissionableVolume: getMaxCommissionableVolume(plan),
+    maxMonthlyCommission: plan.maxMonthlyCommission
+  }
+}
 
 /**
  * GET /api/network/stats?userId=xxx
- * Get network statistics for a user
+ * Get network statistics for a user (the caller, a member of their downline,
+ * or anyone for admins with manage_network)
  *
  * UPDATED: Now uses denormalized data from users table for better performance
  * - sniper_volume_current_month (real-time incremented on payments)
  * - active_network_count (updated after each payment in network)
- * - current_commission_rate (auto-calculated based on structure)
- * - current_structure_number (auto-updated)
+ *
+ * Structure, rate and withdrawal requirement come from the compensation plan
+ * in effect this month (see lib/compensation), which is also returned as `plan`.
  */
 export async function GET(request: Request) {
   try {
@@ -24,6 +45,11 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'userId is required' }, { status: 400 })
     }
 
+    const access = await requireMemberAccess(userId)
+    if (!access.ok) return access.response
+
+    const plan = await getCurrentCompensationPlan()
+
     // Get user's denormalized network data (fast single query)
     const { data: user, error: userError } = await supabase
       .from('users')
@@ -33,8 +59,6 @@ export async function GET(request: Request) {
         sniper_volume_previous_month,
         active_network_count,
         total_network_count,
-        current_commission_rate,
-        current_structure_number,
         last_payment_date,
         is_active,
         premium_bypass,
@@ -69,7 +93,7 @@ export async function GET(request: Request) {
           current: 0,
           progress: 0,
           progressPercentage: 0,
-          maxStructures: NETWORK_CONSTANTS.MAX_STRUCTURES
+          maxStructures: plan.maxStructures
         },
         sniperVolume: {
           currentMonth: 0,
@@ -94,7 +118,8 @@ export async function GET(request: Request) {
           isActive: false,
           hasNetworkPosition: false,
           lastPaymentDate: user.last_payment_date
-        }
+        },
+        plan: planSummary(plan)
       })
     }
 
@@ -104,16 +129,6 @@ export async function GET(request: Request) {
       .select('id', { count: 'exact', head: true })
       .eq('referred_by', userId)
 
-    // Calculate structure stats — active members only (1092 active members = 1 structure).
-    // Derive the current structure from completed structures so it never drifts from the
-    // denormalized current_structure_number column.
-    const completedStructures = Math.floor(user.active_network_count / 1092)
-    const currentStructure = Math.min(completedStructures + 1, NETWORK_CONSTANTS.MAX_STRUCTURES)
-    const currentStructureProgress = user.active_network_count % 1092
-    const currentStructurePercentage = (currentStructureProgress / 1092) * 100
-
-    // Calculate required referrals for withdrawal
-    const requiredReferrals = currentStructure * 3
     const referralCount = directReferralCount || 0
 
     // Check granular bypass settings
@@ -122,19 +137,36 @@ export async function GET(request: Request) {
     // Check if user is active (using is_active column as source of truth)
     const isActive = user.is_active || user.bypass_subscription
 
-    // Check referral requirement (can be bypassed with count)
-    // User is treated as having whichever is greater: actual count or bypass count
-    const effectiveReferralCount = Math.max(referralCount, user.bypass_direct_referrals || 0)
-    const hasEnoughReferrals = effectiveReferralCount >= requiredReferrals
-    const referralDeficit = Math.max(0, requiredReferrals - effectiveReferralCount)
+    // Structure stats (active members only), rate and volume cap from the plan
+    const evaluation = evaluateMemberCommission(plan, {
+      sniperVolume: user.sniper_volume_current_month,
+      activeNetworkCount: user.active_network_count,
+      directReferrals: Math.max(referralCount, user.bypass_direct_referrals || 0),
+      isActive: !!isActive
+    })
+    const completedStructures = evaluation.completedStructures
+    const currentStructure = evaluation.currentStructure
+    const currentStructureProgress = evaluation.progress
+    const currentStructurePercentage = evaluation.progressPercentage
 
-    // Determine withdrawal eligibility
-    const canWithdraw = isActive && hasEnoughReferrals
+    // Calculate required referrals for withdrawal
+    const requiredReferrals = evaluation.requiredDirectReferrals
+
+    // Determine withdrawal eligibility (referral requirement can be bypassed with count)
+    const { canWithdraw, referralDeficit } = canWithdrawEarnings({
+      isActive: !!user.is_active,
+      bypassSubscription: !!user.bypass_subscription,
+      directReferrals: referralCount,
+      bypassDirectReferrals: user.bypass_direct_referrals || 0,
+      requiredDirectReferrals: requiredReferrals
+    })
 
-    // Calculate earnings (capped at 6,552 × $199)
-    const maxVolume = 6552 * 199
-    const cappedVolume = Math.min(user.sniper_volume_current_month, maxVolume)
-    const potentialMonthlyEarnings = cappedVolume * user.current_commission_rate
+    // Calculate earnings (capped at the plan's commissionable volume)
+    const maxVolume = getMaxCommissionableVolume(plan)
+    const cappedVolume = evaluation.commissionableVolume
+    const potentialMonthlyEarnings = plan.maxMonthlyCommission === null
+      ? cappedVolume * evaluation.commissionRate
+      : Math.min(cappedVolume * evaluation.commissionRate, plan.maxMonthlyCommission)
     const actualMonthlyEarnings = canWithdraw ? potentialMonthlyEarnings : 0
 
     // Withdrawal eligibility message
@@ -178,7 +210,7 @@ export async function GET(request: Request) {
         current: currentStructure,
         progress: currentStructureProgress,
         progressPercentage: currentStructurePercentage,
-        maxStructures: NETWORK_CONSTANTS.MAX_STRUCTURES
+        maxStructures: plan.maxStructures
       },
       sniperVolume: {
         currentMonth: user.sniper_volume_current_month,
@@ -187,7 +219,7 @@ export async function GET(request: Request) {
         maxPossible: maxVolume
       },
       earnings: {
-        commissionRate: user.current_commission_rate,
+        commissionRate: evaluation.commissionRate,
         monthlyVolume: user.sniper_volume_current_month,
         potentialMonthlyEarnings,
         actualMonthlyEarnings,
@@ -203,7 +235,8 @@ export async function GET(request: Request) {
         isActive,
         hasNetworkPosition: true,
         lastPaymentDate: user.last_payment_date
-      }
+      },
+      plan: planSummary(plan)
     })
   } catch (error) {
     console.error('Error fetching network stats:', error)
@@ -1,9 +1,13 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { requireMemberAccess } from '@/lib/admin/access-control'
+import { getDownlineDepth, getUpline } from '@/lib/network-closure'
 
 /**
  * GET /api/network/upline?userId=xxx
- * Get upline chain (all ancestors) for a user
+ * Get upline chain (ancestors, nearest first) for a user (the caller, a
+ * member of their downline, or anyone for admins with manage_network). For a
+ * downline member the chain ends at the caller.
  */
 export async function GET(request: Request) {
   try {
@@ -15,10 +19,13 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'userId is required' }, { status: 400 })
     }
 
+    const access = await requireMemberAccess(userId)
+    if (!access.ok) return access.response
+
     // Get user's network position
     const { data: user, error: userError } = await supabase
       .from('users')
-      .select('network_position_id')
+      .select('network_position_id, network_level')
       .eq('id', userId)
       .single()
 
@@ -36,46 +43,20 @@ export async function GET(request: Request) {
       })
     }
 
-    // Get upline chain using database function
-    const { data: uplineChain, error: uplineError } = await supabase
-      .rpc('get_upline_chain', {
-        start_position_id: user.network_position_id
-      })
-
-    if (uplineError) {
-      console.error('Error getting upline chain:', uplineError)
-      return NextResponse.json({ error: 'Failed to get upline chain' }, { status: 500 })
+    // A downline member's upline runs through the caller; stop there so the
+    // caller's own sponsors above them aren't exposed
+    let maxDepth: number | undefined
+    if (access.ctx.relation === 'downline') {
+      maxDepth = (await getDownlineDepth(access.ctx.userId, userId)) ?? 0
     }
 
-    // Get full user details for each member in upline
-    const uplineWithDetails = []
-
-    for (const member of uplineChain || []) {
-      if (member.user_id) {
-        const { data: memberData } = await supabase
-          .from('users')
-          .select('id, name, email, network_position_id, is_active')
-          .eq('id', member.user_id)
-          .single()
-
-        if (memberData) {
-          uplineWithDetails.push({
-            userId: memberData.id,
-            name: memberData.name,
-            email: memberData.email,
-            networkPositionId: memberData.network_position_id,
-            level: member.network_level,
-            position: member.network_position,
-            isActive: memberData.is_active
-          })
-        }
-      }
-    }
+    const upline = maxDepth === 0 ? [] : await getUpline(userId, maxDepth)
 
     return NextResponse.json({
-      upline: uplineWithDetails,
-      count: uplineWithDetails.length,
-      depth: uplineWithDetails.length > 0 ? uplineWithDetails[0].level : 0
+      upline,
+      count: upline.length,
+      // The member's own level in the tree
+      depth: user.network_level
     })
   } catch (error) {
     console.error('Error fetching upline:', error)
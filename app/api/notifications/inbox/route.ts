@@ -0,0 +1,148 @@
+/**
+ * NOTIFICATION INBOX API
+ *
+ * The signed-in member's in-app notifications.
+ *
+ * GET   ?view=inbox|archived&before=<created_at>&limit=<n>
+ *       → { notifications, unreadCount }
+ * PATCH { action: 'read' | 'unread' | 'archive', ids?: string[], all?: boolean }
+ *       `all` applies the action to every unarchived notification
+ *
+ * Runs as the member (RLS restricts rows to their own and updates to
+ * read_at/archived_at).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const params = req.nextUrl.searchParams
+    const archived = params.get('view') === 'archived'
+    const before = params.get('before')
+    const limit = Math.min(parseInt(params.get('limit') || '', 10) || DEFAULT_LIMIT, MAX_LIMIT)
+
+    let query = supabase
+      .from('in_app_notifications')
+      .select('id, notification_type, data, link, read_at, archived_at, created_at')
+      .eq('user_id', authUser.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null)
+    if (before) {
+      query = query.lt('created_at', before)
+    }
+
+    const [{ data: notifications, error }, { count: unreadCount }] = await Promise.all([
+      query,
+      supabase
+        .from('in_app_notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', authUser.id)
+        .is('read_at', null)
+        .is('archived_at', null)
+    ])
+
+    if (error) {
+      console.error('Error fetching inbox:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch notifications' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ notifications: notifications || [], unreadCount: unreadCount || 0 })
+  } catch (error) {
+    console.error('Error fetching inbox:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { action, ids, all } = await req.json() as {
+      action?: 'read' | 'unread' | 'archive'
+      ids?: string[]
+      all?: boolean
+    }
+
+    const now = new Date().toISOString()
+    const updates = action === 'read'
+      ? { read_at: now }
+      : action === 'unread'
+        ? { read_at: null }
+        : action === 'archive'
+          ? { archived_at: now }
+          : null
+
+    if (!updates) {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      )
+    }
+    if (!all && (!Array.isArray(ids) || ids.length === 0)) {
+      return NextResponse.json(
+        { error: 'ids or all is required' },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('in_app_notifications')
+      .update(updates)
+      .eq('user_id', authUser.id)
+      .is('archived_at', null)
+
+    if (!all) {
+      query = query.in('id', ids!.slice(0, 100))
+    } else if (action === 'read') {
+      query = query.is('read_at', null)
+    }
+
+    const { error } = await query
+
+    if (error) {
+      console.error('Error updating inbox:', error)
+      return NextResponse.json(
+        { error: 'Failed to update notifications' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error updating inbox:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
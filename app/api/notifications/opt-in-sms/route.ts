@@ -8,8 +8,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { sendSMS, formatPhoneNumber } from '@/lib/notifications/twilio/sms-service'
+import { withRateLimit, sessionUserKeyGenerator, RATE_LIMITS } from '@/lib/middleware/rate-limit'
 
-export async function POST(req: NextRequest) {
+export const POST = withRateLimit(optInSms, {
+  ...RATE_LIMITS.smsOptIn,
+  keyGenerator: sessionUserKeyGenerator
+})
+
+async function optInSms(req: NextRequest) {
   try {
     const supabase = await createClient()
     const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
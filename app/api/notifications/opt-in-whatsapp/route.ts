@@ -0,0 +1,120 @@
+/**
+ * WHATSAPP OPT-IN API
+ *
+ * Starts WhatsApp opt-in by sending a verification code to the number over
+ * WhatsApp, proving the member controls that WhatsApp account.
+ *
+ * The code goes out as the approved template in
+ * TWILIO_WHATSAPP_VERIFICATION_CONTENT_SID ({{1}} = code) when configured.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { formatPhoneNumber } from '@/lib/notifications/twilio/sms-service'
+import { sendWhatsApp } from '@/lib/notifications/twilio/whatsapp-service'
+import { withRateLimit, sessionUserKeyGenerator, RATE_LIMITS } from '@/lib/middleware/rate-limit'
+
+export const POST = withRateLimit(optInWhatsApp, {
+  ...RATE_LIMITS.whatsappOptIn,
+  keyGenerator: sessionUserKeyGenerator
+})
+
+async function optInWhatsApp(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const { phoneNumber } = body as { phoneNumber: string }
+
+    if (!phoneNumber) {
+      return NextResponse.json(
+        { error: 'Phone number is required' },
+        { status: 400 }
+      )
+    }
+
+    // Format phone number to E.164
+    const formattedPhone = formatPhoneNumber(phoneNumber)
+
+    if (!formattedPhone) {
+      return NextResponse.json(
+        { error: 'Invalid phone number format. Please include country code (e.g., +1234567890)' },
+        { status: 400 }
+      )
+    }
+
+    // Generate 6-digit verification code
+    const verificationCode = Math.floor(100000 + Math.random() * 900000).toString()
+
+    // Get client IP and user agent for consent tracking
+    const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+    const userAgent = req.headers.get('user-agent') || 'unknown'
+
+    // Consent rows are written with the service role only
+    const serviceClient = createServiceRoleClient()
+    const { error: consentError } = await serviceClient
+      .from('whatsapp_consent')
+      .upsert({
+        user_id: authUser.id,
+        phone_number: formattedPhone,
+        opted_in: false,  // Not opted in until verified
+        verification_code: verificationCode,
+        verification_sent_at: new Date().toISOString(),
+        consent_source: 'web',
+        consent_ip_address: ip,
+        consent_user_agent: userAgent,
+        is_verified: false
+      }, {
+        onConflict: 'user_id,phone_number'
+      })
+
+    if (consentError) {
+      console.error('Error saving WhatsApp consent:', consentError)
+      return NextResponse.json(
+        { error: 'Failed to initiate WhatsApp verification' },
+        { status: 500 }
+      )
+    }
+
+    const contentSid = process.env.TWILIO_WHATSAPP_VERIFICATION_CONTENT_SID
+    const whatsappResult = await sendWhatsApp({
+      to: formattedPhone,
+      contentSid,
+      contentVariables: contentSid ? { '1': verificationCode } : undefined,
+      message: `Your Trading Hub verification code is: ${verificationCode}\n\nThis code expires in 10 minutes.\n\nReply STOP to opt out.`
+    })
+
+    if (!whatsappResult.success) {
+      return NextResponse.json(
+        { error: `Failed to send WhatsApp verification: ${whatsappResult.error}` },
+        { status: 500 }
+      )
+    }
+
+    // Update user's phone number
+    await supabase
+      .from('users')
+      .update({ phone_number: formattedPhone })
+      .eq('id', authUser.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Verification code sent to your WhatsApp',
+      phoneLast4: formattedPhone.slice(-4)
+    })
+  } catch (error) {
+    console.error('Error in WhatsApp opt-in:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
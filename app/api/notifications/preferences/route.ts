@@ -2,11 +2,12 @@
  * NOTIFICATION PREFERENCES API
  *
  * Allows users to update their notification preferences
- * (email/SMS toggles per event type, quiet hours)
+ * (email/SMS/WhatsApp toggles per event type, quiet hours, digest frequency)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { DIGEST_FREQUENCIES, rescheduleDigestItems } from '@/lib/notifications/digest-service'
 import type { NotificationPreferences } from '@/lib/notifications/notification-types'
 
 export async function GET(req: NextRequest) {
@@ -48,24 +49,53 @@ export async function GET(req: NextRequest) {
       smsConsent = consent
     }
 
-    // Get notification health data
-    const { data: health } = await supabase
+    // Get WhatsApp consent status for the same number
+    let whatsappConsent = null
+    if (user.phone_number) {
+      const { data: consent } = await supabase
+        .from('whatsapp_consent')
+        .select('opted_in, is_verified, phone_number')
+        .eq('user_id', authUser.id)
+        .eq('phone_number', user.phone_number)
+        .single()
+
+      whatsappConsent = consent
+    }
+
+    // Get notification health data (one row per channel)
+    const { data: healthRows } = await supabase
       .from('notification_health')
-      .select('*')
+      .select('channel, hard_bounce_count, soft_bounce_count, complaint_count, delivery_failure_count, channel_disabled, disabled_reason, disabled_at, re_enable_requested, re_enable_requested_at, re_enable_declined_reason')
       .eq('user_id', authUser.id)
-      .single()
+
+    const healthFor = (channel: string) => healthRows?.find((row) => row.channel === channel)
+    const emailHealth = healthFor('email')
+    const smsHealth = healthFor('sms')
+    const whatsappHealth = healthFor('whatsapp')
 
     return NextResponse.json({
       preferences: user.notification_preferences,
       phoneNumber: user.phone_number,
       timezone: user.timezone,
       smsConsent,
-      health: health || {
-        email_bounces: 0,
-        email_complaints: 0,
-        sms_failures: 0,
-        email_disabled: false,
-        sms_disabled: false
+      whatsappConsent,
+      health: {
+        email_bounces: (emailHealth?.hard_bounce_count || 0) + (emailHealth?.soft_bounce_count || 0),
+        email_complaints: emailHealth?.complaint_count || 0,
+        sms_failures: smsHealth?.delivery_failure_count || 0,
+        email_disabled: !!emailHealth?.channel_disabled,
+        sms_disabled: !!smsHealth?.channel_disabled,
+        whatsapp_disabled: !!whatsappHealth?.channel_disabled,
+        disabled_channels: (healthRows || [])
+          .filter((row) => row.channel_disabled)
+          .map((row) => ({
+            channel: row.channel,
+            reason: row.disabled_reason,
+            disabled_at: row.disabled_at,
+            re_enable_requested: row.re_enable_requested,
+            re_enable_requested_at: row.re_enable_requested_at,
+            re_enable_declined_reason: row.re_enable_declined_reason
+          }))
       }
     })
   } catch (error) {
@@ -102,6 +132,13 @@ export async function PUT(req: NextRequest) {
       timezone?: string
     } = {}
 
+    if (preferences?.digest && !DIGEST_FREQUENCIES.includes(preferences.digest.frequency)) {
+      return NextResponse.json(
+        { error: 'Invalid digest frequency' },
+        { status: 400 }
+      )
+    }
+
     if (preferences) {
       updates.notification_preferences = preferences
     }
@@ -128,6 +165,22 @@ export async function PUT(req: NextRequest) {
       )
     }
 
+    // Held digest items follow the new frequency and timezone
+    if (preferences || timezone) {
+      const { data: saved } = await supabase
+        .from('users')
+        .select('notification_preferences, timezone')
+        .eq('id', authUser.id)
+        .single()
+
+      await rescheduleDigestItems(
+        createServiceRoleClient(),
+        authUser.id,
+        saved?.notification_preferences,
+        saved?.timezone || null
+      )
+    }
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error updating notification preferences:', error)
@@ -0,0 +1,80 @@
+/**
+ * CHANNEL RE-ENABLE REQUEST API
+ *
+ * Lets a member ask for a channel that was disabled for bounces, complaints
+ * or carrier errors to be turned back on. An admin reviews the request from
+ * /admin/notifications.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
+import type { NotificationChannel } from '@/lib/notifications/notification-types'
+
+const RE_ENABLE_CHANNELS: NotificationChannel[] = ['email', 'sms', 'whatsapp']
+
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const { channel, note } = body as { channel: NotificationChannel; note?: string }
+
+    if (!RE_ENABLE_CHANNELS.includes(channel)) {
+      return NextResponse.json(
+        { error: 'Invalid channel' },
+        { status: 400 }
+      )
+    }
+
+    // Members can read but not write their health record
+    const serviceSupabase = createServiceRoleClient()
+    const { data: health, error: updateError } = await serviceSupabase
+      .from('notification_health')
+      .update({
+        re_enable_requested: true,
+        re_enable_requested_at: new Date().toISOString(),
+        re_enable_note: note?.trim().slice(0, 500) || null,
+        re_enable_declined_reason: null
+      })
+      .eq('user_id', authUser.id)
+      .eq('channel', channel)
+      .eq('channel_disabled', true)
+      .eq('re_enable_requested', false)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Error requesting channel re-enable:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to submit request' },
+        { status: 500 }
+      )
+    }
+
+    if (!health) {
+      return NextResponse.json(
+        { error: 'This channel is not disabled or a request is already pending' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Request sent. We will let you know once it has been reviewed.'
+    })
+  } catch (error) {
+    console.error('Error requesting channel re-enable:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,8 +6,14 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { withRateLimit, sessionUserKeyGenerator, RATE_LIMITS } from '@/lib/middleware/rate-limit'
 
-export async function POST(req: NextRequest) {
+export const POST = withRateLimit(verifySms, {
+  ...RATE_LIMITS.smsVerification,
+  keyGenerator: sessionUserKeyGenerator
+})
+
+async function verifySms(req: NextRequest) {
   try {
     const supabase = await createClient()
     const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
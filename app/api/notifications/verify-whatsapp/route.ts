@@ -0,0 +1,144 @@
+/**
+ * WHATSAPP VERIFICATION API
+ *
+ * Verifies the WhatsApp code and completes opt-in process
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { withRateLimit, sessionUserKeyGenerator, RATE_LIMITS } from '@/lib/middleware/rate-limit'
+import type { NotificationPreferences } from '@/lib/notifications/notification-types'
+
+export const POST = withRateLimit(verifyWhatsApp, {
+  ...RATE_LIMITS.whatsappVerification,
+  keyGenerator: sessionUserKeyGenerator
+})
+
+// Per-type defaults on first opt-in: the money and account events
+const DEFAULT_WHATSAPP_PREFERENCES: NonNullable<NotificationPreferences['whatsapp']> = {
+  referral_signups: false,
+  network_joins: false,
+  direct_bonus: true,
+  monthly_commission: true,
+  payouts: true,
+  volume_updates: false,
+  structure_milestones: true,
+  payment_failed: true,
+  account_inactive: true,
+  enabled: true
+}
+
+async function verifyWhatsApp(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !authUser) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+    const { code } = body as { code: string }
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Verification code is required' },
+        { status: 400 }
+      )
+    }
+
+    const serviceClient = createServiceRoleClient()
+
+    // Get WhatsApp consent record
+    const { data: consent, error: consentError } = await serviceClient
+      .from('whatsapp_consent')
+      .select('*')
+      .eq('user_id', authUser.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single()
+
+    if (consentError || !consent) {
+      return NextResponse.json(
+        { error: 'No verification request found. Please request a new code.' },
+        { status: 404 }
+      )
+    }
+
+    // Check if code matches
+    if (!consent.verification_code || consent.verification_code !== code) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      )
+    }
+
+    // Check if code is expired (10 minutes)
+    const sentAt = new Date(consent.verification_sent_at || 0)
+    const minutesSinceSent = (Date.now() - sentAt.getTime()) / 1000 / 60
+
+    if (minutesSinceSent > 10) {
+      return NextResponse.json(
+        { error: 'Verification code expired. Please request a new code.' },
+        { status: 400 }
+      )
+    }
+
+    // Mark as verified and opted in (the code is single-use)
+    const { error: updateError } = await serviceClient
+      .from('whatsapp_consent')
+      .update({
+        opted_in: true,
+        is_verified: true,
+        verification_code: null,
+        verified_at: new Date().toISOString(),
+        consent_timestamp: new Date().toISOString()
+      })
+      .eq('id', consent.id)
+
+    if (updateError) {
+      console.error('Error updating WhatsApp consent:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to verify WhatsApp' },
+        { status: 500 }
+      )
+    }
+
+    // Enable WhatsApp notifications in user preferences
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('notification_preferences')
+      .eq('id', authUser.id)
+      .single()
+
+    const preferences = currentUser?.notification_preferences as Partial<NotificationPreferences> || {}
+
+    await supabase
+      .from('users')
+      .update({
+        notification_preferences: {
+          ...preferences,
+          whatsapp: {
+            ...DEFAULT_WHATSAPP_PREFERENCES,
+            ...preferences.whatsapp,
+            enabled: true  // Enable WhatsApp notifications
+          }
+        }
+      })
+      .eq('id', authUser.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'WhatsApp verified! WhatsApp notifications are now enabled.'
+    })
+  } catch (error) {
+    console.error('Error verifying WhatsApp:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
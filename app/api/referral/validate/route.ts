@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { withRateLimit, RATE_LIMITS } from "@/lib/middleware/rate-limit"
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(validateReferral, RATE_LIMITS.referralValidation)
+
+async function validateReferral(request: NextRequest) {
   try {
     const { referralCode } = await request.json()
 
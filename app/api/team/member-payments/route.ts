@@ -1,16 +1,19 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { requireMemberAccess } from '@/lib/admin/access-control'
+import { getDownlineIds, isInDownline } from '@/lib/network-closure'
 
 /**
  * GET /api/team/member-payments
  *
  * Query params:
- *   userId   (required) — the team leader's user ID
+ *   userId   (required) — the team leader's user ID: the caller, a member of their
+ *                          downline, or anyone for admins with manage_network
  *   memberId (optional) — if provided, returns full payment history for that member
  *
  * Without memberId: returns aggregate downline data (members, recent payments, stats).
  * With memberId: returns that member's user record and payment history (after verifying
- *   the member is in the caller's downline via position-range math).
+ *   the member is in the team leader's downline via network_closure).
  */
 export async function GET(request: Request) {
   try {
@@ -23,16 +26,13 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'userId is required' }, { status: 400 })
     }
 
-    // Verify the caller is authenticated and matches the userId
-    const { data: { user: authUser } } = await supabase.auth.getUser()
-    if (!authUser || authUser.id !== userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+    const access = await requireMemberAccess(userId)
+    if (!access.ok) return access.response
 
-    // ── Shared: look up caller's network position ──
+    // ── Shared: look up the team leader's network position ──
     const { data: caller, error: callerError } = await supabase
       .from('users')
-      .select('network_position_id, network_level, network_position')
+      .select('network_position_id')
       .eq('id', userId)
       .single()
 
@@ -51,11 +51,11 @@ export async function GET(request: Request) {
     // With memberId — single-member payment history
     // ────────────────────────────────────────────────
     if (memberId) {
-      // Fetch member's position info for authorization check
+      // Fetch the member's record
       const { data: member, error: memberError } = await supabase
         .from('users')
         .select(
-          'id, name, email, is_active, last_payment_date, next_payment_due_date, payment_schedule, initial_payment_completed, initial_payment_date, inactive_since, created_at, network_level, network_position'
+          'id, name, email, is_active, last_payment_date, next_payment_due_date, payment_schedule, initial_payment_completed, initial_payment_date, inactive_since, created_at'
         )
         .eq('id', memberId)
         .single()
@@ -64,25 +64,8 @@ export async function GET(request: Request) {
         return NextResponse.json({ error: 'Member not found' }, { status: 404 })
       }
 
-      // Authorization: verify member is in caller's downline using position-range math
-      const callerLevel = caller.network_level as number
-      const callerPos = caller.network_position as number
-      const memberLevel = member.network_level as number
-      const memberPos = member.network_position as number
-
-      if (memberLevel <= callerLevel) {
-        return NextResponse.json(
-          { error: 'Member is not in your downline' },
-          { status: 403 }
-        )
-      }
-
-      const levelDiff = memberLevel - callerLevel
-      const span = Math.pow(3, levelDiff)
-      const rangeStart = (callerPos - 1) * span + 1
-      const rangeEnd = (callerPos - 1) * span + span
-
-      if (memberPos < rangeStart || memberPos > rangeEnd) {
+      // Authorization: member must be in the team leader's downline
+      if (!(await isInDownline(userId, memberId))) {
         return NextResponse.json(
           { error: 'Member is not in your downline' },
           { status: 403 }
@@ -104,21 +87,8 @@ export async function GET(request: Request) {
     // Without memberId — aggregate downline data
     // ────────────────────────────────────────────────
 
-    // 1. Get downline member IDs via RPC
-    const { data: downlineRows, error: downlineError } = await supabase
-      .rpc('get_downline_contributors', { p_user_id: userId })
-
-    if (downlineError) {
-      console.error('[MemberPayments] Downline RPC error:', downlineError)
-      return NextResponse.json(
-        { error: 'Failed to fetch downline members' },
-        { status: 500 }
-      )
-    }
-
-    const memberIds: string[] = (downlineRows || []).map(
-      (r: { contributor_id: string }) => r.contributor_id
-    )
+    // 1. Get downline member IDs from the closure table
+    const memberIds = await getDownlineIds(userId)
 
     // If no downline, return empty result
     if (memberIds.length === 0) {
@@ -0,0 +1,111 @@
+/**
+ * Payout Wallet Change Confirmation API
+ * Backs the page the confirmation email links to. The one-time token is the
+ * credential, so no session is required: the owner may open the email on
+ * another device.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  cancelPayoutWalletChangeByToken,
+  confirmPayoutWalletChange,
+  getPayoutWalletChangeByToken,
+  PAYOUT_WALLET_HOLD_HOURS,
+} from '@/lib/treasury/payout-wallet-change-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/user/payout-wallet/confirm?token=...
+ * What the link would change, so the owner can review it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'token is required' },
+        { status: 400 }
+      );
+    }
+
+    const change = await getPayoutWalletChangeByToken(token);
+
+    if (!change) {
+      return NextResponse.json(
+        { success: false, error: 'This confirmation link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    const expired = change.status === 'pending_confirmation' && (!change.expires_at || new Date(change.expires_at) <= new Date());
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status: expired ? 'expired' : change.status,
+        previousAddress: change.previous_address,
+        newAddress: change.new_address,
+        requestedAt: change.created_at,
+        expiresAt: change.expires_at,
+        holdHours: PAYOUT_WALLET_HOLD_HOURS,
+        holdUntil: change.hold_until,
+      },
+    });
+  } catch (error) {
+    console.error('[PayoutWalletConfirmAPI] GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/payout-wallet/confirm
+ * Body: { token, action: 'confirm' | 'cancel' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null) as { token?: string; action?: string } | null;
+
+    if (!body?.token || (body.action !== 'confirm' && body.action !== 'cancel')) {
+      return NextResponse.json(
+        { success: false, error: "token and action ('confirm' or 'cancel') are required" },
+        { status: 400 }
+      );
+    }
+
+    const context = {
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      userAgent: request.headers.get('user-agent'),
+    };
+
+    const result = body.action === 'confirm'
+      ? await confirmPayoutWalletChange(body.token, context)
+      : await cancelPayoutWalletChangeByToken(body.token, context);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status: result.change.status,
+        newAddress: result.change.new_address,
+        holdUntil: result.change.hold_until,
+      },
+    });
+  } catch (error) {
+    console.error('[PayoutWalletConfirmAPI] POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
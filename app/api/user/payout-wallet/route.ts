@@ -1,18 +1,21 @@
 /**
  * User Payout Wallet API
- * Allows users to set and view their personal payout wallet address
+ * Allows users to set their first payout wallet and request changes to it.
+ * Changes need a fresh 2FA challenge and only apply once confirmed from the
+ * account email (see lib/treasury/payout-wallet-change-service.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { createServiceRoleClient } from '@/lib/supabase/server';
-
-/**
- * Validate Ethereum address format
- */
-function isValidEthereumAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
-}
+import { checkMfaStepUp } from '@/lib/supabase/mfa-step-up';
+import {
+  cancelPendingPayoutWalletChange,
+  getPendingPayoutWalletChange,
+  isPayoutWalletOnHold,
+  isValidPayoutWalletAddress,
+  requestPayoutWalletChange,
+  setInitialPayoutWallet,
+} from '@/lib/treasury/payout-wallet-change-service';
 
 /**
  * GET /api/user/payout-wallet
@@ -35,7 +38,7 @@ export async function GET() {
     // Get user's payout wallet info
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('payout_wallet_address, payout_wallet_set_at')
+      .select('payout_wallet_address, payout_wallet_set_at, payout_wallet_hold_until')
       .eq('id', user.id)
       .single();
 
@@ -61,12 +64,20 @@ export async function GET() {
 
     const pendingCommissionsCount = commissions?.length || 0;
 
+    const pendingChange = await getPendingPayoutWalletChange(user.id);
+
     return NextResponse.json({
       success: true,
       data: {
         payoutWalletAddress: userData.payout_wallet_address || null,
         payoutWalletSetAt: userData.payout_wallet_set_at || null,
         isConfigured: !!userData.payout_wallet_address,
+        payoutHoldUntil: isPayoutWalletOnHold(userData.payout_wallet_hold_until)
+          ? userData.payout_wallet_hold_until
+          : null,
+        pendingChange: pendingChange
+          ? { newAddress: pendingChange.new_address, requestedAt: pendingChange.created_at, expiresAt: pendingChange.expires_at }
+          : null,
         pendingCommissions: {
           total: pendingCommissionsTotal.toFixed(2),
           count: pendingCommissionsCount,
@@ -84,7 +95,9 @@ export async function GET() {
 
 /**
  * POST /api/user/payout-wallet
- * Set or update user's payout wallet address
+ * Set the first payout wallet, or request a change to it. A change requires a
+ * 2FA challenge passed within the last few minutes (responds mfaRequired so
+ * the client can show it) and is applied from the link emailed to the owner.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -112,52 +125,86 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!isValidEthereumAddress(walletAddress)) {
+    if (!isValidPayoutWalletAddress(walletAddress)) {
       return NextResponse.json(
         { success: false, error: 'Invalid wallet address format. Must be a valid Polygon address (0x...)' },
         { status: 400 }
       );
     }
 
-    // Use service role client to update user
-    const serviceClient = createServiceRoleClient();
+    const context = {
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      userAgent: request.headers.get('user-agent'),
+    };
 
-    // Update user's payout wallet
-    const { error: updateError } = await serviceClient
+    const { data: userData } = await supabase
       .from('users')
-      .update({
-        payout_wallet_address: walletAddress,
-        payout_wallet_set_at: new Date().toISOString(),
-      })
-      .eq('id', user.id);
-
-    if (updateError) {
-      console.error('[PayoutWalletAPI] Failed to update user:', updateError);
+      .select('payout_wallet_address')
+      .eq('id', user.id)
+      .single();
+
+    // First wallet: nothing to redirect yet, so it applies immediately
+    if (!userData?.payout_wallet_address) {
+      const initial = await setInitialPayoutWallet(user.id, walletAddress, context);
+
+      if (!initial.success) {
+        return NextResponse.json(
+          { success: false, error: initial.error },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Payout wallet updated successfully',
+        data: {
+          payoutWalletAddress: walletAddress,
+          payoutWalletSetAt: new Date().toISOString(),
+          isConfigured: true,
+        },
+      });
+    }
+
+    const mfa = await checkMfaStepUp(supabase);
+
+    if (mfa.status === 'error') {
       return NextResponse.json(
-        { success: false, error: 'Failed to update payout wallet' },
+        { success: false, error: 'Could not verify two-factor authentication' },
         { status: 500 }
       );
     }
 
-    // Log audit event
-    await serviceClient.from('crypto_audit_log').insert({
-      event_type: 'payout_wallet_set',
-      user_id: user.id,
-      entity_type: 'user',
-      entity_id: user.id,
-      details: {
-        wallet_address: walletAddress,
-        action: 'set_payout_wallet',
-      },
-    });
+    if (mfa.status === 'not_enrolled') {
+      return NextResponse.json(
+        { success: false, mfaEnrollmentRequired: true, error: 'Enable two-factor authentication in Settings before changing your payout wallet' },
+        { status: 403 }
+      );
+    }
+
+    if (mfa.status === 'required') {
+      return NextResponse.json(
+        { success: false, mfaRequired: true, error: 'Confirm this change with your two-factor code' },
+        { status: 403 }
+      );
+    }
+
+    const result = await requestPayoutWalletChange(user.id, walletAddress, mfa.verifiedAt, context);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      message: 'Payout wallet updated successfully',
+      pendingConfirmation: true,
+      message: 'Check your email to confirm the new payout wallet',
       data: {
-        payoutWalletAddress: walletAddress,
-        payoutWalletSetAt: new Date().toISOString(),
-        isConfigured: true,
+        newAddress: result.change.new_address,
+        requestedAt: result.change.created_at,
+        expiresAt: result.change.expires_at,
       },
     });
   } catch (error) {
@@ -168,3 +215,42 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * DELETE /api/user/payout-wallet
+ * Cancel the change awaiting email confirmation
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await cancelPendingPayoutWalletChange(user.id, {
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Payout wallet change cancelled' });
+  } catch (error) {
+    console.error('[PayoutWalletAPI] DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Member Withdrawal Requests API
+ * Members request payout of their available commission balance; an admin
+ * reviews each request (see lib/treasury/withdrawal-service.ts)
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { checkMfaStepUp } from '@/lib/supabase/mfa-step-up';
+import {
+  createWithdrawalRequest,
+  getWithdrawalOverview,
+  listMemberWithdrawalRequests,
+} from '@/lib/treasury/withdrawal-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/user/withdrawals
+ * Balance, limits, eligibility and recent requests
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const [overview, requests] = await Promise.all([
+      getWithdrawalOverview(user.id),
+      listMemberWithdrawalRequests(user.id),
+    ]);
+
+    if (!overview) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...overview, requests },
+    });
+  } catch (error) {
+    console.error('[WithdrawalsAPI] GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/withdrawals
+ * Request payout of the available balance. Requires a 2FA challenge passed
+ * within the last few minutes; responds mfaRequired so the client can show it.
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const mfa = await checkMfaStepUp(supabase);
+
+    if (mfa.status === 'error') {
+      return NextResponse.json(
+        { success: false, error: 'Could not verify two-factor authentication' },
+        { status: 500 }
+      );
+    }
+
+    if (mfa.status === 'not_enrolled') {
+      return NextResponse.json(
+        { success: false, mfaEnrollmentRequired: true, error: 'Enable two-factor authentication in Settings before requesting a withdrawal' },
+        { status: 403 }
+      );
+    }
+
+    if (mfa.status === 'required') {
+      return NextResponse.json(
+        { success: false, mfaRequired: true, error: 'Confirm this withdrawal with your two-factor code' },
+        { status: 403 }
+      );
+    }
+
+    const result = await createWithdrawalRequest(user.id, mfa.verifiedAt);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Withdrawal request submitted for review',
+      data: result.request,
+    });
+  } catch (error) {
+    console.error('[WithdrawalsAPI] POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Alchemy Webhook Endpoint
- * Receives real-time USDC transfer notifications from Alchemy
+ * Receives real-time stablecoin transfer notifications from Alchemy (one
+ * webhook per enabled chain, all pointing here)
  * Uses permanent user deposit addresses for payment detection
  */
 
@@ -8,11 +9,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import {
   verifyAlchemySignature,
-  parseUSDCTransfers,
+  parseTokenTransfers,
   getAlchemySigningKey,
   formatWebhookEventForLog,
   AlchemyWebhookPayload,
-  ParsedUSDCTransfer,
+  ParsedTokenTransfer,
 } from '@/lib/alchemy/webhook-service';
 import {
   getUserByDepositAddress,
@@ -20,6 +21,7 @@ import {
   getInitialAnchorDate,
 } from '@/lib/treasury/treasury-service';
 import { PAYMENT_AMOUNTS } from '@/lib/coinbase/wallet-types';
+import { postDepositReceived, postPaymentApplied } from '@/lib/ledger/ledger-service';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -60,18 +62,18 @@ export async function POST(req: NextRequest) {
 
     console.log('[AlchemyWebhook] Received:', formatWebhookEventForLog(payload));
 
-    // Parse USDC transfers from the payload
-    const transfers = parseUSDCTransfers(payload);
+    // Parse accepted token transfers from the payload
+    const transfers = parseTokenTransfers(payload);
 
     if (transfers.length === 0) {
       return NextResponse.json({
         success: true,
-        message: 'No USDC transfers in payload',
+        message: 'No accepted token transfers in payload',
         processed: 0,
       });
     }
 
-    console.log(`[AlchemyWebhook] Found ${transfers.length} USDC transfer(s)`);
+    console.log(`[AlchemyWebhook] Found ${transfers.length} ${transfers[0].chain} token transfer(s)`);
 
     const supabase = createServiceRoleClient();
     const results = {
@@ -112,12 +114,12 @@ export async function POST(req: NextRequest) {
 }
 
 /**
- * Process a single USDC transfer
+ * Process a single stablecoin transfer
  * Looks up user by deposit address and processes payment based on user status
  */
 async function processTransfer(
   supabase: ReturnType<typeof createServiceRoleClient>,
-  transfer: ParsedUSDCTransfer,
+  transfer: ParsedTokenTransfer,
   results: { matched: number; errors: string[] }
 ) {
   // Look up user by their permanent deposit address
@@ -189,6 +191,9 @@ async function processTransfer(
     user_id: user.id,
     status: 'confirmed',
     polygon_tx_hash: transfer.txHash,
+    chain: transfer.chain,
+    token_symbol: transfer.token,
+    token_contract: transfer.tokenContract,
     confirmed_at: new Date().toISOString(),
   }).select('id').single();
 
@@ -200,7 +205,18 @@ async function processTransfer(
     return;
   }
 
-  console.log(`[AlchemyWebhook] Recorded ${receivedAmountUsdc.toFixed(2)} USDC deposit for ${user.email}`);
+  console.log(`[AlchemyWebhook] Recorded ${receivedAmountUsdc.toFixed(2)} ${transfer.token} deposit on ${transfer.chain} for ${user.email}`);
+
+  if (txRecord) {
+    await postDepositReceived({
+      usdcTransactionId: txRecord.id,
+      userId: user.id,
+      depositAddress: transfer.to,
+      amountUsdc: receivedAmountUsdc,
+      txHash: transfer.txHash,
+      chain: transfer.chain,
+    });
+  }
 
   // Now get period total (including the transaction we just recorded)
   // Uses last_payment_date so overpayment from previous payment types
@@ -239,6 +255,8 @@ async function processTransfer(
       details: {
         source: 'alchemy_webhook',
         tx_hash: transfer.txHash,
+        chain: transfer.chain,
+        token: transfer.token,
         expected_usdc: expectedAmountUsdc,
         received_usdc: receivedAmountUsdc,
         paid_this_period: paidThisPeriod,
@@ -265,6 +283,8 @@ async function processTransfer(
     details: {
       source: 'alchemy_webhook',
       tx_hash: transfer.txHash,
+      chain: transfer.chain,
+      token: transfer.token,
       block_number: transfer.blockNumber,
       expected_usdc: expectedAmountUsdc,
       paid_this_period: paidThisPeriod,
@@ -373,8 +393,9 @@ async function processInitialUnlock(
     throw new Error(`No referrer found for user ${userId} - cannot assign network position`);
   }
 
-  // Assign network position WITH referrer_id (required for non-root users)
-  const { error: positionError } = await supabase.rpc('assign_network_position', {
+  // Assign network position WITH referrer_id (required for non-root users).
+  // With the holding tank on, this holds them for their sponsor to place instead.
+  const { error: positionError } = await supabase.rpc('admit_network_member', {
     p_user_id: userId,
     p_referrer_id: referrerId,
   });
@@ -438,6 +459,10 @@ async function processInitialUnlock(
     console.log(`[AlchemyWebhook] Linked ${usdcTxIds.length} transaction(s) to initial payment ${paymentRecord.id}`);
   }
 
+  if (paymentRecord) {
+    await postPaymentApplied({ paymentId: paymentRecord.id, userId, amountUsdc: parseFloat(amountUsdc) });
+  }
+
   // Update referral status
   await supabase
     .from('referrals')
@@ -604,9 +629,11 @@ async function processSubscriptionPayment(
   }
 
   // Distribute to upline
+  // Passing the payment id also posts the payment to the ledger
   const { data: distributeResult, error: distributeError } = await supabase.rpc('distribute_to_upline_batch', {
     p_user_id: userId,
     p_amount: amountUsdc,
+    p_payment_id: paymentRecord?.id ?? null,
   });
 
   if (distributeError) {
@@ -643,7 +670,8 @@ async function processSubscriptionPayment(
       if (crossedThreshold) {
         const { notifyVolumeUpdate } = await import('@/lib/notifications/notification-service')
         const now = new Date()
-        const month = `${now.toLocaleString('en-US', { month: 'long' })} ${now.getFullYear()}`
+        // 'YYYY-MM'; templates render the month name in the member's language
+        const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
         await notifyVolumeUpdate({ userId, newVolume, month })
       }
     }
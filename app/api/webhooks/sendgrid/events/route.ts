@@ -0,0 +1,64 @@
+/**
+ * SENDGRID EVENT WEBHOOK
+ *
+ * Receives signed delivery events (delivered, bounce, dropped, spamreport,
+ * unsubscribe, ...) for emails sent through SendGrid.
+ * Updates notification logs and email delivery health; members whose
+ * address keeps bouncing or who complain stop receiving email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  getSendGridWebhookPublicKey,
+  processSendGridEvent,
+  verifySendGridSignature
+} from '@/lib/notifications/twilio/email-events'
+import type { SendGridEmailEventWebhook } from '@/lib/notifications/notification-types'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+export async function POST(req: NextRequest) {
+  try {
+    // Get raw body for signature verification
+    const rawBody = await req.text()
+
+    const publicKey = getSendGridWebhookPublicKey()
+    if (!publicKey) {
+      console.error('SendGrid webhook verification key not configured')
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 })
+    }
+
+    const signature = req.headers.get(SIGNATURE_HEADER) || ''
+    const timestamp = req.headers.get(TIMESTAMP_HEADER) || ''
+    if (!verifySendGridSignature(rawBody, signature, timestamp, publicKey)) {
+      console.warn('Invalid SendGrid webhook signature')
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    const events = JSON.parse(rawBody) as SendGridEmailEventWebhook[]
+    if (!Array.isArray(events)) {
+      return NextResponse.json({ error: 'Expected an array of events' }, { status: 400 })
+    }
+
+    const supabase = createServiceRoleClient()
+    const counts = { applied: 0, duplicate: 0, ignored: 0, unmatched: 0 }
+
+    for (const event of events) {
+      const outcome = await processSendGridEvent(supabase, event)
+      counts[outcome]++
+    }
+
+    return NextResponse.json({ received: true, ...counts }, { status: 200 })
+  } catch (error) {
+    // A 5xx makes SendGrid retry the batch; applied events are deduped
+    console.error('Error processing SendGrid event webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,12 +3,22 @@
  *
  * Handles incoming SMS messages from users.
  * Primary use: STOP/UNSTOP/HELP commands (TCPA compliance)
+ *
+ * Also configured as the inbound webhook of the WhatsApp sender: messages
+ * from 'whatsapp:+...' addresses apply the same commands to the WhatsApp
+ * channel and whatsapp_consent instead of SMS.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
 import twilio from 'twilio'
 import { STOP_RESPONSE, START_RESPONSE, HELP_RESPONSE } from '@/lib/notifications/twilio/sms-service'
+import {
+  WHATSAPP_STOP_RESPONSE,
+  WHATSAPP_START_RESPONSE,
+  WHATSAPP_HELP_RESPONSE,
+  fromWhatsAppAddress
+} from '@/lib/notifications/twilio/whatsapp-service'
 
 const twilioClient = process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN
   ? twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN)
@@ -27,26 +37,34 @@ export async function POST(req: NextRequest) {
 
     const supabase = await createClient()
 
+    // WhatsApp messages arrive with 'whatsapp:'-prefixed addresses
+    const isWhatsApp = fromNumber?.startsWith('whatsapp:')
+    const channel = isWhatsApp ? 'whatsapp' : 'sms'
+    const phoneNumber = isWhatsApp ? fromWhatsAppAddress(fromNumber) : fromNumber
+    // whatsapp_consent is only writable with the service role
+    const consentClient = isWhatsApp ? createServiceRoleClient() : supabase
+    const consentTable = isWhatsApp ? 'whatsapp_consent' : 'sms_consent'
+
     // Detect command
     let command: 'STOP' | 'START' | 'UNSTOP' | 'HELP' | null = null
     let response = ''
 
     if (['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'].includes(body)) {
       command = 'STOP'
-      response = STOP_RESPONSE
+      response = isWhatsApp ? WHATSAPP_STOP_RESPONSE : STOP_RESPONSE
     } else if (['START', 'UNSTOP', 'YES', 'SUBSCRIBE'].includes(body)) {
       command = 'START'
-      response = START_RESPONSE
+      response = isWhatsApp ? WHATSAPP_START_RESPONSE : START_RESPONSE
     } else if (body === 'HELP' || body === 'INFO') {
       command = 'HELP'
-      response = HELP_RESPONSE
+      response = isWhatsApp ? WHATSAPP_HELP_RESPONSE : HELP_RESPONSE
     }
 
     // Find user by phone number
     const { data: user } = await supabase
       .from('users')
       .select('id, email, name')
-      .eq('phone_number', fromNumber)
+      .eq('phone_number', phoneNumber)
       .single()
 
     // Log inbound message
@@ -80,33 +98,33 @@ export async function POST(req: NextRequest) {
             .eq('id', user.id)
             .single()
 
-          const preferences = currentUser?.notification_preferences as { sms?: { enabled?: boolean } } || {}
+          const preferences = currentUser?.notification_preferences as Record<string, { enabled?: boolean }> || {}
 
           await supabase
             .from('users')
             .update({
               notification_preferences: {
                 ...preferences,
-                sms: {
-                  ...preferences.sms,
+                [channel]: {
+                  ...preferences[channel],
                   enabled: false
                 }
               }
             })
             .eq('id', user.id)
 
-          // Update SMS consent
-          await supabase
-            .from('sms_consent')
+          // Update SMS/WhatsApp consent
+          await consentClient
+            .from(consentTable)
             .update({
               opted_in: false,
               opt_out_timestamp: new Date().toISOString(),
               opt_out_source: 'stop_command'
             })
             .eq('user_id', user.id)
-            .eq('phone_number', fromNumber)
+            .eq('phone_number', phoneNumber)
 
-          console.log(`User ${user.id} opted out via STOP command`)
+          console.log(`User ${user.id} opted out of ${channel} via STOP command`)
         } else if (command === 'START') {
           // Re-subscribe user to SMS
           const { data: currentUser } = await supabase
@@ -115,27 +133,27 @@ export async function POST(req: NextRequest) {
             .eq('id', user.id)
             .single()
 
-          const preferences = currentUser?.notification_preferences as { sms?: { enabled?: boolean } } || {}
+          const preferences = currentUser?.notification_preferences as Record<string, { enabled?: boolean }> || {}
 
           await supabase
             .from('users')
             .update({
               notification_preferences: {
                 ...preferences,
-                sms: {
-                  ...preferences.sms,
+                [channel]: {
+                  ...preferences[channel],
                   enabled: true
                 }
               }
             })
             .eq('id', user.id)
 
-          // Update SMS consent
-          await supabase
-            .from('sms_consent')
+          // Update SMS/WhatsApp consent
+          await consentClient
+            .from(consentTable)
             .upsert({
               user_id: user.id,
-              phone_number: fromNumber,
+              phone_number: phoneNumber,
               opted_in: true,
               consent_timestamp: new Date().toISOString(),
               consent_source: 'stop_command',
@@ -143,7 +161,7 @@ export async function POST(req: NextRequest) {
               verified_at: new Date().toISOString()
             })
 
-          console.log(`User ${user.id} re-opted in via START command`)
+          console.log(`User ${user.id} re-opted in to ${channel} via START command`)
         }
 
         // Mark as processed
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { updateTwilioDeliveryHealth } from '@/lib/notifications/utils/delivery-health'
 
 export async function POST(req: NextRequest) {
   try {
@@ -80,7 +81,8 @@ export async function POST(req: NextRequest) {
 
     // Update delivery health if user_id exists
     if (log.user_id) {
-      await updateDeliveryHealth(
+      await updateTwilioDeliveryHealth(
+        supabase,
         log.user_id,
         'sms',
         messageStatus,
@@ -97,80 +99,3 @@ export async function POST(req: NextRequest) {
     )
   }
 }
-
-/**
- * Update delivery health metrics based on SMS status
- */
-async function updateDeliveryHealth(
-  userId: string,
-  channel: 'sms',
-  status: string,
-  errorCode: string | null
-) {
-  const supabase = await createClient()
-
-  // Get or create health record
-  let { data: health } = await supabase
-    .from('notification_health')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('channel', channel)
-    .single()
-
-  if (!health) {
-    // Create new health record
-    const { data: newHealth } = await supabase
-      .from('notification_health')
-      .insert({
-        user_id: userId,
-        channel: channel,
-        total_sent: 0,
-        total_delivered: 0
-      })
-      .select()
-      .single()
-
-    health = newHealth
-  }
-
-  if (!health) return
-
-  // Update metrics based on status
-  const updates: {
-    total_sent?: number
-    total_delivered?: number
-    delivery_failure_count?: number
-    carrier_error_count?: number
-    last_delivery_failure?: string
-    last_carrier_error?: string
-  } = {}
-
-  switch (status) {
-    case 'delivered':
-      updates.total_delivered = (health.total_delivered || 0) + 1
-      break
-
-    case 'failed':
-    case 'undelivered':
-      updates.delivery_failure_count = (health.delivery_failure_count || 0) + 1
-      updates.last_delivery_failure = new Date().toISOString()
-
-      // Check if it's a carrier error (error codes 30xxx)
-      if (errorCode && errorCode.startsWith('30')) {
-        updates.carrier_error_count = (health.carrier_error_count || 0) + 1
-        updates.last_carrier_error = new Date().toISOString()
-      }
-      break
-  }
-
-  // Always increment total_sent if not already done
-  if (status !== 'queued' && status !== 'sending') {
-    updates.total_sent = (health.total_sent || 0) + 1
-  }
-
-  await supabase
-    .from('notification_health')
-    .update(updates)
-    .eq('user_id', userId)
-    .eq('channel', channel)
-}
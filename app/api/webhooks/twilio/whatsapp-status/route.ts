@@ -0,0 +1,107 @@
+/**
+ * TWILIO WHATSAPP STATUS WEBHOOK
+ *
+ * Receives delivery status updates from Twilio for sent WhatsApp messages.
+ * Updates notification logs and delivery health tracking.
+ *
+ * WhatsApp adds a 'read' status after 'delivered'; it is recorded as
+ * delivered with provider_status 'read'.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { updateTwilioDeliveryHealth } from '@/lib/notifications/utils/delivery-health'
+
+export async function POST(req: NextRequest) {
+  try {
+    // Parse form data from Twilio
+    const formData = await req.formData()
+
+    const messageSid = formData.get('MessageSid') as string
+    const messageStatus = formData.get('MessageStatus') as string
+    const errorCode = formData.get('ErrorCode') as string | null
+    const errorMessage = formData.get('ErrorMessage') as string | null
+
+    const supabase = await createClient()
+
+    // Find the notification log by provider_id (Message SID)
+    const { data: log, error: logError } = await supabase
+      .from('notification_logs')
+      .select('*')
+      .eq('provider_id', messageSid)
+      .single()
+
+    if (logError || !log) {
+      console.warn(`Notification log not found for Message SID: ${messageSid}`)
+      return NextResponse.json({ received: true }, { status: 200 })
+    }
+
+    const updates: {
+      status?: string
+      provider_status?: string
+      error_code?: string | null
+      error_message?: string | null
+      delivered_at?: string | null
+      failed_at?: string | null
+    } = {
+      provider_status: messageStatus
+    }
+
+    switch (messageStatus) {
+      case 'delivered':
+        updates.status = 'delivered'
+        updates.delivered_at = new Date().toISOString()
+        break
+
+      case 'read':
+        // Read implies delivered; keep the original delivery time if we have it
+        updates.status = 'delivered'
+        updates.delivered_at = log.delivered_at || new Date().toISOString()
+        break
+
+      case 'sent':
+        if (log.status !== 'delivered') {
+          updates.status = 'sent'
+        }
+        break
+
+      case 'failed':
+      case 'undelivered':
+        updates.status = 'failed'
+        updates.failed_at = new Date().toISOString()
+        updates.error_code = errorCode
+        updates.error_message = errorMessage
+        break
+
+      case 'queued':
+      case 'sending':
+        // No status update needed
+        break
+    }
+
+    // Update notification log
+    await supabase
+      .from('notification_logs')
+      .update(updates)
+      .eq('id', log.id)
+
+    // Update delivery health if user_id exists ('read' follows a 'delivered' already counted)
+    if (log.user_id && messageStatus !== 'read') {
+      await updateTwilioDeliveryHealth(
+        supabase,
+        log.user_id,
+        'whatsapp',
+        messageStatus,
+        errorCode
+      )
+    }
+
+    return NextResponse.json({ received: true }, { status: 200 })
+  } catch (error) {
+    console.error('Error processing WhatsApp status webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,8 +2,16 @@ import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
 import { NextRequest } from "next/server"
 import { getOrCreateUserDepositAddress } from "@/lib/treasury/treasury-service"
+import { withRateLimit, RATE_LIMITS } from "@/lib/middleware/rate-limit"
 
-export async function GET(request: NextRequest) {
+// Browsers land here from an email / OAuth redirect, so a blocked request goes
+// back to the login page instead of getting a JSON 429.
+export const GET = withRateLimit(handleCallback, {
+  ...RATE_LIMITS.authCallback,
+  onLimited: (request) => NextResponse.redirect(`${new URL(request.url).origin}/login?error=rate_limited`),
+})
+
+async function handleCallback(request: NextRequest) {
   const requestUrl = new URL(request.url)
   const code = requestUrl.searchParams.get("code")
   const mode = requestUrl.searchParams.get("mode") // 'login' or null (signup)
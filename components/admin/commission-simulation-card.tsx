@@ -0,0 +1,320 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FlaskConical, Loader2, Play, Plus, Trash2, AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { formatDollars } from "@/lib/utils"
+
+type ChangeType = "add_members" | "deactivate_subtree"
+
+interface ChangeRow {
+  type: ChangeType
+  // Member id or email
+  member: string
+  count: string
+}
+
+interface MemberResult {
+  commissionAmount: number
+  commissionRate: number
+  currentStructure: number
+  eligible: boolean
+  ineligibleReason: string | null
+}
+
+interface SimulationResponse {
+  snapshotTakenAt: string
+  memberCount: number
+  planVersion: number
+  changedMembers: number
+  members: Array<{
+    userId: string
+    name: string | null
+    email: string | null
+    baseline: MemberResult
+    simulated: MemberResult
+    delta: number
+  }>
+  totals: {
+    baselineLiability: number
+    simulatedLiability: number
+    delta: number
+    pendingCommissions: number
+    treasuryBalance: number | null
+    coverageRatio: number | null
+    shortfall: number
+  }
+  warnings: string[]
+}
+
+const MEMBER_ROWS_SHOWN = 50
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1).replace(/\.0$/, "")}%`
+}
+
+/**
+ * What-if sandbox for the monthly residual commission. Admins describe
+ * hypothetical changes (new members under a node, a deactivated subtree, a
+ * different rate table) and see per-member deltas, total liability and
+ * payout wallet coverage. Runs against a live snapshot; nothing is written.
+ */
+export function CommissionSimulationCard() {
+  const [changes, setChanges] = useState<ChangeRow[]>([])
+  const [customRates, setCustomRates] = useState(false)
+  const [rates, setRates] = useState<string[]>([])
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [result, setResult] = useState<SimulationResponse | null>(null)
+
+  // Seed the rate editor with the plan in effect
+  useEffect(() => {
+    fetch("/api/admin/compensation-plans")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((json) => {
+        const current = json?.plans?.find((p: { version: number }) => p.version === json.currentVersion)
+        if (!current) return
+        setRates(
+          Array.from({ length: current.maxStructures }, (_, i) => {
+            const tier = current.rateTiers
+              .filter((t: { structure: number; rate: number }) => t.structure <= i + 1)
+              .pop()
+            return tier ? String(Math.round(tier.rate * 10000) / 100) : "0"
+          })
+        )
+      })
+      .catch(() => {})
+  }, [])
+
+  const updateChange = (index: number, patch: Partial<ChangeRow>) => {
+    setChanges((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)))
+  }
+
+  const runSimulation = async () => {
+    setRunning(true)
+    setError(null)
+    setErrors([])
+    try {
+      const response = await fetch("/api/admin/commission-simulation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          changes: changes.map((c) =>
+            c.type === "add_members"
+              ? { type: c.type, underUserId: c.member, count: parseInt(c.count, 10) }
+              : { type: c.type, rootUserId: c.member }
+          ),
+          rateTiers: customRates
+            ? rates.map((rate, i) => ({ structure: i + 1, rate: parseFloat(rate) / 100 }))
+            : undefined,
+        }),
+      })
+      const json = await response.json()
+      if (!response.ok) {
+        setErrors(json.errors || [])
+        throw new Error(json.error || "Simulation failed")
+      }
+      setResult(json)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Simulation failed")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const coverageClass = (ratio: number | null) =>
+    ratio === null ? "" : ratio >= 1.5 ? "text-[#D4A853]" : ratio >= 1 ? "text-amber-500" : "text-red-600"
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-primary" />
+              Commission Simulation
+            </CardTitle>
+            <CardDescription>
+              Try hypothetical network or rate changes against this month&apos;s volume before running the real close
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={runSimulation} disabled={running}>
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Run simulation
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label>Network changes</Label>
+          {changes.length === 0 && (
+            <p className="text-sm text-muted-foreground">No network changes; the simulation uses the network as it is now</p>
+          )}
+          {changes.map((change, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <Select value={change.type} onValueChange={(value) => updateChange(index, { type: value as ChangeType })}>
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="add_members">Add active members under</SelectItem>
+                  <SelectItem value="deactivate_subtree">Deactivate subtree of</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                className="w-64"
+                placeholder="Member email or ID"
+                value={change.member}
+                onChange={(e) => updateChange(index, { member: e.target.value })}
+              />
+              {change.type === "add_members" && (
+                <Input
+                  className="w-24"
+                  type="number"
+                  min={1}
+                  value={change.count}
+                  onChange={(e) => updateChange(index, { count: e.target.value })}
+                />
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setChanges((prev) => prev.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setChanges((prev) => [...prev, { type: "add_members", member: "", count: "10" }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add change
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Switch id="custom-rates" checked={customRates} onCheckedChange={setCustomRates} disabled={rates.length === 0} />
+            <Label htmlFor="custom-rates">Change rate table</Label>
+          </div>
+          {customRates && (
+            <div className="flex flex-wrap gap-3">
+              {rates.map((rate, i) => (
+                <div key={i} className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Structure {i + 1} (%)</p>
+                  <Input
+                    className="w-20"
+                    type="number"
+                    step="0.5"
+                    value={rate}
+                    onChange={(e) => setRates((prev) => prev.map((r, j) => (j === i ? e.target.value : r)))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600">
+            <p>{error}</p>
+            {errors.length > 0 && (
+              <ul className="list-disc pl-5 mt-1">
+                {errors.map((e) => <li key={e}>{e}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 text-sm">
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Current liability</p>
+                <p className="text-lg font-semibold">{formatDollars(result.totals.baselineLiability)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Simulated liability</p>
+                <p className="text-lg font-semibold">{formatDollars(result.totals.simulatedLiability)}</p>
+                <p className={`text-xs ${result.totals.delta > 0 ? "text-red-600" : "text-[#D4A853]"}`}>
+                  {result.totals.delta >= 0 ? "+" : ""}{formatDollars(result.totals.delta)}
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Payout wallet</p>
+                <p className="text-lg font-semibold">
+                  {result.totals.treasuryBalance === null ? "—" : formatDollars(result.totals.treasuryBalance)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDollars(result.totals.pendingCommissions)} already pending
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Coverage</p>
+                <p className={`text-lg font-semibold ${coverageClass(result.totals.coverageRatio)}`}>
+                  {result.totals.coverageRatio === null ? "—" : `${result.totals.coverageRatio.toFixed(2)}×`}
+                </p>
+                {result.totals.shortfall > 0 && (
+                  <p className="text-xs text-red-600">Short {formatDollars(result.totals.shortfall)}</p>
+                )}
+              </div>
+            </div>
+
+            {result.warnings.map((warning) => (
+              <div key={warning} className="flex items-center gap-2 text-sm text-amber-600">
+                <AlertTriangle className="h-4 w-4" />
+                {warning}
+              </div>
+            ))}
+
+            <p className="text-xs text-muted-foreground">
+              Plan v{result.planVersion} · {result.memberCount} members snapshotted at {new Date(result.snapshotTakenAt).toLocaleString()} ·{" "}
+              {result.changedMembers} affected
+            </p>
+
+            {result.members.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Structure</TableHead>
+                    <TableHead>Rate</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Simulated</TableHead>
+                    <TableHead className="text-right">Delta</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.members.slice(0, MEMBER_ROWS_SHOWN).map((m) => (
+                    <TableRow key={m.userId}>
+                      <TableCell>
+                        <div className="font-medium">{m.name || m.email || m.userId}</div>
+                        {!m.simulated.eligible && (
+                          <Badge variant="secondary" className="text-xs">{m.simulated.ineligibleReason}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{m.baseline.currentStructure} → {m.simulated.currentStructure}</TableCell>
+                      <TableCell>{formatRate(m.baseline.commissionRate)} → {formatRate(m.simulated.commissionRate)}</TableCell>
+                      <TableCell className="text-right">{formatDollars(m.baseline.commissionAmount)}</TableCell>
+                      <TableCell className="text-right">{formatDollars(m.simulated.commissionAmount)}</TableCell>
+                      <TableCell className={`text-right font-medium ${m.delta > 0 ? "text-red-600" : "text-[#D4A853]"}`}>
+                        {m.delta >= 0 ? "+" : ""}{formatDollars(m.delta)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
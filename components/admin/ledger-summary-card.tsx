@@ -0,0 +1,178 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { BookOpen, CheckCircle2, AlertTriangle, Loader2, RefreshCw } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { formatDollars } from "@/lib/utils"
+
+interface LedgerAccount {
+  account_code: string
+  account_type: string
+  currency: "USDC" | "POL" | "ETH"
+  name: string
+  balance: number
+}
+
+interface LedgerEntry {
+  id: string
+  entry_type: string
+  description: string | null
+  tx_hash: string | null
+  created_at: string
+  ledger_postings: Array<{
+    direction: "debit" | "credit"
+    amount: string
+    ledger_accounts: { account_code: string; currency: string } | null
+  }>
+}
+
+interface LedgerResponse {
+  systemAccounts: LedgerAccount[]
+  depositAccounts: { count: number; totalBalance: number }
+  integrity: { checked: boolean; balanced: boolean; issues: Array<{ entry_id: string }> }
+  entries: LedgerEntry[]
+}
+
+function formatBalance(account: Pick<LedgerAccount, "currency" | "balance">): string {
+  return account.currency === "USDC"
+    ? formatDollars(account.balance)
+    : `${account.balance.toFixed(4)} ${account.currency}`
+}
+
+/**
+ * Ledger-derived balances for the admin financials page. Every figure here is
+ * summed from journal postings, so it can be compared directly against the
+ * live wallet balances shown above it.
+ */
+export function LedgerSummaryCard() {
+  const [data, setData] = useState<LedgerResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLedger = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/admin/ledger")
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Failed to load ledger")
+      }
+      setData(json)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load ledger")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLedger()
+  }, [fetchLedger])
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5 text-primary" />
+              Ledger
+            </CardTitle>
+            <CardDescription>
+              Double-entry balances for every account that holds or owes platform funds
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={fetchLedger} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && !data ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : data ? (
+          <div className="space-y-6">
+            <div className="flex items-center gap-2">
+              {data.integrity.balanced ? (
+                <>
+                  <CheckCircle2 className="h-5 w-5 text-[#D4A853]" />
+                  <span className="text-sm text-[#D4A853] font-medium">All entries balance</span>
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="h-5 w-5 text-amber-500" />
+                  <span className="text-sm text-amber-600 font-medium">
+                    {data.integrity.checked
+                      ? `${data.integrity.issues.length} unbalanced entr${data.integrity.issues.length === 1 ? "y" : "ies"}`
+                      : "Integrity check unavailable"}
+                  </span>
+                </>
+              )}
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              {data.systemAccounts.map((account) => (
+                <div key={account.account_code} className="rounded-lg border p-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-muted-foreground">{account.name}</p>
+                    <Badge variant="outline" className="text-xs">{account.account_type}</Badge>
+                  </div>
+                  <p className="text-lg font-semibold">{formatBalance(account)}</p>
+                </div>
+              ))}
+              <div className="rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">Unswept deposit addresses</p>
+                  <Badge variant="outline" className="text-xs">{data.depositAccounts.count}</Badge>
+                </div>
+                <p className="text-lg font-semibold">{formatDollars(data.depositAccounts.totalBalance)}</p>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Recent entries</p>
+              {data.entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No entries posted yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {data.entries.map((entry) => (
+                    <div key={entry.id} className="rounded-md border p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">{entry.entry_type.replace(/_/g, " ")}</Badge>
+                          <span className="text-muted-foreground">{entry.description}</span>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="mt-2 grid gap-1">
+                        {entry.ledger_postings.map((posting, i) => (
+                          <div key={i} className="flex justify-between font-mono text-xs">
+                            <span className={posting.direction === "credit" ? "pl-6" : ""}>
+                              {posting.direction === "debit" ? "Dr" : "Cr"} {posting.ledger_accounts?.account_code}
+                            </span>
+                            <span>
+                              {parseFloat(posting.amount).toFixed(2)} {posting.ledger_accounts?.currency}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
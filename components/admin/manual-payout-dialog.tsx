@@ -67,6 +67,11 @@ export function ManualPayoutDialog({
         throw new Error(data.error || "Failed to create manual payout")
       }
 
+      // Large payouts are held until other admins approve them
+      if (data.approvalRequired) {
+        alert(data.message)
+      }
+
       // Success 
       onSuccess()
       resetForm()
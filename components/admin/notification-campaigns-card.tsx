@@ -0,0 +1,594 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Megaphone, Loader2, Plus, Users, Send, Check, X, Ban, BarChart3 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTranslation } from "@/components/language-provider"
+import type { CampaignStatus, CampaignTargetFilter, NotificationCampaign } from "@/lib/notifications/notification-types"
+
+type CampaignAction = "submit" | "approve" | "reject" | "send" | "cancel"
+
+interface Tally {
+  total: number
+  unqueued: number
+  awaiting: number
+  sent: number
+  delivered: number
+  failed: number
+  skipped: number
+}
+
+interface CampaignAnalytics {
+  canary: Tally & { successRate: number | null }
+  main: Tally
+  overall: Tally & { deliveryRate: number | null }
+  topErrors: Array<{ error: string; count: number }>
+}
+
+interface CampaignForm {
+  name: string
+  channel: "email" | "sms"
+  subject: string
+  message: string
+  activity: "any" | "active" | "inactive"
+  schedules: Array<"weekly" | "monthly">
+  ranks: string
+  locales: string[]
+  minDirects: string
+  canaryEnabled: boolean
+  canaryPercentage: string
+  canaryThreshold: string
+  sendRate: string
+}
+
+const EMPTY_FORM: CampaignForm = {
+  name: "",
+  channel: "email",
+  subject: "",
+  message: "",
+  activity: "active",
+  schedules: [],
+  ranks: "",
+  locales: [],
+  minDirects: "",
+  canaryEnabled: true,
+  canaryPercentage: "1",
+  canaryThreshold: "95",
+  sendRate: "100",
+}
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  pending_approval: "bg-amber-500/10 text-amber-600 border-amber-500/20",
+  approved: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  sending: "bg-[#D4A853]/10 text-[#C49B3E] border-[#D4A853]/20",
+  completed: "bg-[#D4A853]/10 text-[#C49B3E] border-[#D4A853]/20",
+  cancelled: "bg-muted text-muted-foreground",
+  failed: "bg-red-50 text-red-700 border-red-200",
+}
+
+function toTargetFilter(form: CampaignForm): CampaignTargetFilter {
+  const filter: CampaignTargetFilter = {}
+  if (form.activity !== "any") filter.is_active = form.activity === "active"
+  if (form.schedules.length > 0) filter.payment_schedule = form.schedules
+  if (form.locales.length > 0) filter.locales = form.locales
+  const ranks = form.ranks.split(",").map((r) => parseInt(r.trim(), 10)).filter((r) => !isNaN(r))
+  if (ranks.length > 0) filter.ranks = ranks
+  if (form.minDirects) filter.min_direct_referrals = parseInt(form.minDirects, 10) || 0
+  return filter
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${rate.toFixed(1)}%`
+}
+
+/**
+ * Mass announcements with two-person approval and a canary rollout.
+ * Campaigns are authored as drafts, approved by a second admin, then sent
+ * by the process-campaigns cron at the campaign's send rate.
+ */
+export function NotificationCampaignsCard() {
+  const { t } = useTranslation()
+  const [campaigns, setCampaigns] = useState<NotificationCampaign[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [acting, setActing] = useState<string | null>(null)
+
+  const [showCreate, setShowCreate] = useState(false)
+  const [form, setForm] = useState<CampaignForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [audienceCount, setAudienceCount] = useState<number | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+
+  const [selected, setSelected] = useState<NotificationCampaign | null>(null)
+  const [analytics, setAnalytics] = useState<CampaignAnalytics | null>(null)
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/notifications/campaigns")
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error || t("admin.campaigns.failedToLoad"))
+      setCampaigns(json.campaigns)
+      setCurrentUserId(json.currentUserId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.campaigns.failedToLoad"))
+    } finally {
+      setLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    fetchCampaigns()
+  }, [fetchCampaigns])
+
+  const updateForm = (patch: Partial<CampaignForm>) => {
+    setForm((prev) => ({ ...prev, ...patch }))
+    setAudienceCount(null)
+  }
+
+  const previewAudience = async () => {
+    setPreviewing(true)
+    try {
+      const response = await fetch("/api/admin/notifications/campaigns/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel: form.channel, target_filter: toTargetFilter(form) }),
+      })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      setAudienceCount(json.count)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.campaigns.failedToPreview"))
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const createCampaign = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/admin/notifications/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          campaign_name: form.name,
+          channel: form.channel,
+          subject: form.channel === "email" ? form.subject : null,
+          message: form.message,
+          target_filter: toTargetFilter(form),
+          canary_enabled: form.canaryEnabled,
+          canary_percentage: parseFloat(form.canaryPercentage),
+          canary_success_threshold: parseFloat(form.canaryThreshold),
+          send_rate_per_minute: parseInt(form.sendRate, 10),
+        }),
+      })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      setShowCreate(false)
+      setForm(EMPTY_FORM)
+      setAudienceCount(null)
+      await fetchCampaigns()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.campaigns.failedToCreate"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const runAction = async (campaign: NotificationCampaign, action: CampaignAction) => {
+    let reason: string | null = null
+    if (action === "reject") {
+      reason = window.prompt(t("admin.campaigns.rejectPrompt"))
+      if (!reason) return
+    }
+    if ((action === "send" || action === "cancel") && !window.confirm(t(`admin.campaigns.confirm_${action}`).replace("{name}", campaign.campaign_name))) {
+      return
+    }
+
+    setActing(campaign.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/notifications/campaigns/${campaign.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(reason ? { reason } : {}),
+      })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      await fetchCampaigns()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.campaigns.actionFailed"))
+    } finally {
+      setActing(null)
+    }
+  }
+
+  const openAnalytics = async (campaign: NotificationCampaign) => {
+    setSelected(campaign)
+    setAnalytics(null)
+    try {
+      const response = await fetch(`/api/admin/notifications/campaigns/${campaign.id}`)
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      setSelected(json.campaign)
+      setAnalytics(json.analytics)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.campaigns.failedToLoad"))
+    }
+  }
+
+  const actionsFor = (campaign: NotificationCampaign): CampaignAction[] => {
+    switch (campaign.status) {
+      case "draft":
+        return ["submit", "cancel"]
+      case "pending_approval":
+        return campaign.created_by === currentUserId ? ["cancel"] : ["approve", "reject", "cancel"]
+      case "approved":
+        return ["send", "cancel"]
+      case "sending":
+        return ["cancel"]
+      default:
+        return []
+    }
+  }
+
+  const actionIcons: Record<CampaignAction, typeof Send> = {
+    submit: Send,
+    approve: Check,
+    reject: X,
+    send: Megaphone,
+    cancel: Ban,
+  }
+
+  const progressOf = (campaign: NotificationCampaign) => {
+    if (!campaign.total_recipients) return 0
+    return Math.round(((campaign.sent_count + campaign.failed_count + (campaign.skipped_count || 0)) / campaign.total_recipients) * 100)
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5" />
+              {t("admin.campaigns.title")}
+            </CardTitle>
+            <CardDescription>{t("admin.campaigns.description")}</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setShowCreate(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t("admin.campaigns.newCampaign")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("admin.campaigns.empty")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.campaigns.name")}</TableHead>
+                <TableHead>{t("admin.campaigns.channel")}</TableHead>
+                <TableHead>{t("admin.campaigns.status")}</TableHead>
+                <TableHead>{t("admin.campaigns.progress")}</TableHead>
+                <TableHead className="text-right">{t("admin.campaigns.actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((campaign) => (
+                <TableRow key={campaign.id}>
+                  <TableCell>
+                    <div className="font-medium">{campaign.campaign_name}</div>
+                    <div className="text-xs text-muted-foreground">{new Date(campaign.created_at).toLocaleString()}</div>
+                    {campaign.status === "draft" && campaign.rejection_reason && (
+                      <div className="text-xs text-red-600">{t("admin.campaigns.rejected").replace("{reason}", campaign.rejection_reason)}</div>
+                    )}
+                    {campaign.status === "failed" && campaign.failure_reason && (
+                      <div className="text-xs text-red-600">{campaign.failure_reason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="uppercase text-xs">{campaign.channel}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_STYLES[campaign.status]}>
+                      {t(`admin.campaigns.status_${campaign.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="w-40">
+                    {(campaign.total_recipients || 0) > 0 ? (
+                      <div className="space-y-1">
+                        <Progress value={progressOf(campaign)} />
+                        <p className="text-xs text-muted-foreground">
+                          {t("admin.campaigns.progressDetail")
+                            .replace("{sent}", String(campaign.sent_count))
+                            .replace("{total}", String(campaign.total_recipients))
+                            .replace("{failed}", String(campaign.failed_count))}
+                        </p>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {actionsFor(campaign).map((action) => {
+                        const Icon = actionIcons[action]
+                        return (
+                          <Button
+                            key={action}
+                            size="sm"
+                            variant={action === "cancel" || action === "reject" ? "ghost" : "outline"}
+                            disabled={acting === campaign.id}
+                            onClick={() => runAction(campaign, action)}
+                          >
+                            <Icon className="h-4 w-4 mr-1" />
+                            {t(`admin.campaigns.action_${action}`)}
+                          </Button>
+                        )
+                      })}
+                      {(campaign.total_recipients || 0) > 0 && (
+                        <Button size="sm" variant="ghost" onClick={() => openAnalytics(campaign)}>
+                          <BarChart3 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create campaign */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t("admin.campaigns.newCampaign")}</DialogTitle>
+            <DialogDescription>{t("admin.campaigns.newCampaignDesc")}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="campaign-name">{t("admin.campaigns.name")}</Label>
+                <Input id="campaign-name" value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t("admin.campaigns.channel")}</Label>
+                <Select value={form.channel} onValueChange={(value) => updateForm({ channel: value as "email" | "sms" })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="email">{t("admin.notificationsManager.emailChannel")}</SelectItem>
+                    <SelectItem value="sms">{t("admin.notificationsManager.smsChannel")}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {form.channel === "email" && (
+              <div className="space-y-1">
+                <Label htmlFor="campaign-subject">{t("admin.campaigns.subject")}</Label>
+                <Input id="campaign-subject" value={form.subject} onChange={(e) => updateForm({ subject: e.target.value })} />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="campaign-message">{t("admin.notificationsManager.message")}</Label>
+              <Textarea
+                id="campaign-message"
+                rows={5}
+                placeholder={t("admin.notificationsManager.messagePlaceholder")}
+                value={form.message}
+                onChange={(e) => updateForm({ message: e.target.value })}
+              />
+            </div>
+
+            <div className="rounded-lg border p-4 space-y-4">
+              <p className="text-sm font-semibold">{t("admin.campaigns.audience")}</p>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>{t("admin.campaigns.activity")}</Label>
+                  <Select value={form.activity} onValueChange={(value) => updateForm({ activity: value as CampaignForm["activity"] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">{t("admin.campaigns.activityAny")}</SelectItem>
+                      <SelectItem value="active">{t("admin.campaigns.activityActive")}</SelectItem>
+                      <SelectItem value="inactive">{t("admin.campaigns.activityInactive")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="campaign-directs">{t("admin.campaigns.minDirects")}</Label>
+                  <Input id="campaign-directs" type="number" min={0} value={form.minDirects} onChange={(e) => updateForm({ minDirects: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="campaign-ranks">{t("admin.campaigns.ranks")}</Label>
+                  <Input id="campaign-ranks" placeholder="0, 1, 2" value={form.ranks} onChange={(e) => updateForm({ ranks: e.target.value })} />
+                  <p className="text-xs text-muted-foreground">{t("admin.campaigns.ranksHint")}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t("admin.campaigns.schedule")}</Label>
+                  <div className="flex gap-4">
+                    {(["weekly", "monthly"] as const).map((schedule) => (
+                      <label key={schedule} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.schedules.includes(schedule)}
+                          onCheckedChange={() => updateForm({ schedules: toggle(form.schedules, schedule) })}
+                        />
+                        {t(`admin.campaigns.schedule_${schedule}`)}
+                      </label>
+                    ))}
+                  </div>
+                  <Label>{t("admin.campaigns.locales")}</Label>
+                  <div className="flex gap-4">
+                    {["en", "es"].map((locale) => (
+                      <label key={locale} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.locales.includes(locale)}
+                          onCheckedChange={() => updateForm({ locales: toggle(form.locales, locale) })}
+                        />
+                        {locale.toUpperCase()}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <Button variant="outline" size="sm" onClick={previewAudience} disabled={previewing}>
+                  {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Users className="h-4 w-4 mr-2" />}
+                  {t("admin.campaigns.previewAudience")}
+                </Button>
+                {audienceCount !== null && (
+                  <span className="text-sm">{t("admin.campaigns.audienceCount").replace("{count}", audienceCount.toLocaleString())}</span>
+                )}
+              </div>
+            </div>
+
+            <div className="rounded-lg border p-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch id="campaign-canary" checked={form.canaryEnabled} onCheckedChange={(checked) => updateForm({ canaryEnabled: checked })} />
+                <Label htmlFor="campaign-canary">{t("admin.campaigns.canary")}</Label>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-3">
+                {form.canaryEnabled && (
+                  <>
+                    <div className="space-y-1">
+                      <Label htmlFor="campaign-canary-pct" className="text-xs">{t("admin.campaigns.canaryPercentage")}</Label>
+                      <Input id="campaign-canary-pct" type="number" min={1} max={50} value={form.canaryPercentage} onChange={(e) => updateForm({ canaryPercentage: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="campaign-canary-threshold" className="text-xs">{t("admin.campaigns.canaryThreshold")}</Label>
+                      <Input id="campaign-canary-threshold" type="number" min={1} max={100} value={form.canaryThreshold} onChange={(e) => updateForm({ canaryThreshold: e.target.value })} />
+                    </div>
+                  </>
+                )}
+                <div className="space-y-1">
+                  <Label htmlFor="campaign-rate" className="text-xs">{t("admin.campaigns.sendRate")}</Label>
+                  <Input id="campaign-rate" type="number" min={1} max={1000} value={form.sendRate} onChange={(e) => updateForm({ sendRate: e.target.value })} />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">{t("admin.campaigns.canaryHint")}</p>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>{t("common.cancel")}</Button>
+            <Button onClick={createCampaign} disabled={saving || !form.name || !form.message}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("admin.campaigns.saveDraft")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Analytics */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.campaign_name}</DialogTitle>
+            <DialogDescription>{t("admin.campaigns.analytics")}</DialogDescription>
+          </DialogHeader>
+          {!analytics ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">{t("admin.campaigns.recipients")}</p>
+                  <p className="text-lg font-semibold">{analytics.overall.total.toLocaleString()}</p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">{t("admin.campaigns.deliveryRate")}</p>
+                  <p className="text-lg font-semibold">{formatRate(analytics.overall.deliveryRate)}</p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">{t("admin.campaigns.canarySuccess")}</p>
+                  <p className="text-lg font-semibold">{formatRate(analytics.canary.successRate)}</p>
+                  {selected?.canary_enabled && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("admin.campaigns.threshold").replace("{threshold}", String(selected.canary_success_threshold))}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead className="text-right">{t("admin.campaigns.queued")}</TableHead>
+                    <TableHead className="text-right">{t("admin.campaigns.awaiting")}</TableHead>
+                    <TableHead className="text-right">{t("admin.campaigns.sent")}</TableHead>
+                    <TableHead className="text-right">{t("admin.campaigns.delivered")}</TableHead>
+                    <TableHead className="text-right">{t("admin.campaigns.failed")}</TableHead>
+                    <TableHead className="text-right">{t("admin.campaigns.skipped")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {([["canary", analytics.canary], ["main", analytics.main]] as const).map(([key, tally]) => (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{t(`admin.campaigns.batch_${key}`)}</TableCell>
+                      <TableCell className="text-right">{tally.total - tally.unqueued}/{tally.total}</TableCell>
+                      <TableCell className="text-right">{tally.awaiting}</TableCell>
+                      <TableCell className="text-right">{tally.sent}</TableCell>
+                      <TableCell className="text-right">{tally.delivered}</TableCell>
+                      <TableCell className="text-right text-red-600">{tally.failed}</TableCell>
+                      <TableCell className="text-right">{tally.skipped}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {analytics.topErrors.length > 0 && (
+                <div>
+                  <p className="font-semibold mb-1">{t("admin.campaigns.topErrors")}</p>
+                  <ul className="space-y-1">
+                    {analytics.topErrors.map((e) => (
+                      <li key={e.error} className="flex justify-between text-xs">
+                        <span className="text-muted-foreground">{e.error}</span>
+                        <span>{e.count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
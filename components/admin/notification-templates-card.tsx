@@ -0,0 +1,517 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { FileText, Loader2, Plus, Pencil, Upload, RotateCcw, Copy, Send, AlertCircle, AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTranslation } from "@/components/language-provider"
+import {
+  TEMPLATE_CHANNELS,
+  TEMPLATE_TYPES,
+  getTemplateContract,
+  validateTemplateDraft,
+  type TemplateChannel,
+} from "@/lib/notifications/template-contracts"
+import type {
+  NotificationTemplateVersion,
+  NotificationType,
+  TemplateVersionStatus,
+} from "@/lib/notifications/notification-types"
+
+type VersionAction = "publish" | "rollback"
+
+interface TemplatePreview {
+  subject: string | null
+  html: string | null
+  text: string | null
+}
+
+interface TemplateForm {
+  subject: string
+  body: string
+  useBodyTemplate: boolean
+  providerTemplateId: string
+  providerTemplateVariables: string
+  notes: string
+}
+
+const EMPTY_FORM: TemplateForm = {
+  subject: "",
+  body: "",
+  useBodyTemplate: false,
+  providerTemplateId: "",
+  providerTemplateVariables: "",
+  notes: "",
+}
+
+const LOCALES = ["en", "es"]
+
+const STATUS_STYLES: Record<TemplateVersionStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  published: "bg-[#D4A853]/10 text-[#C49B3E] border-[#D4A853]/20",
+  archived: "bg-muted text-muted-foreground",
+}
+
+function formFromVersion(version: NotificationTemplateVersion, notes = version.notes || ""): TemplateForm {
+  return {
+    subject: version.subject_template || "",
+    body: version.body_template,
+    useBodyTemplate: version.use_body_template,
+    providerTemplateId: version.provider_template_id || "",
+    providerTemplateVariables: (version.provider_template_variables || []).join(", "),
+    notes,
+  }
+}
+
+/**
+ * Versioned email/SMS/WhatsApp templates per type and locale. Drafts are
+ * validated against the type's data contract as they are typed and previewed
+ * with sample data; publishing and rolling back are audited server-side.
+ */
+export function NotificationTemplatesCard() {
+  const { t } = useTranslation()
+  const [type, setType] = useState<NotificationType>("direct_bonus")
+  const [channel, setChannel] = useState<TemplateChannel>("email")
+  const [locale, setLocale] = useState("en")
+  const [versions, setVersions] = useState<NotificationTemplateVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [acting, setActing] = useState<string | null>(null)
+
+  const [editing, setEditing] = useState<NotificationTemplateVersion | null>(null)
+  const [showEditor, setShowEditor] = useState(false)
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [preview, setPreview] = useState<TemplatePreview | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+
+  const contract = useMemo(() => getTemplateContract(type), [type])
+
+  const draft = useMemo(() => ({
+    type,
+    channel,
+    locale,
+    subject_template: channel === "email" ? form.subject : null,
+    body_template: form.body,
+    use_body_template: channel === "email" && form.useBodyTemplate,
+    provider_template_id: channel === "whatsapp" ? form.providerTemplateId || null : null,
+    provider_template_variables: channel === "whatsapp"
+      ? form.providerTemplateVariables.split(",").map((v) => v.trim()).filter(Boolean)
+      : [],
+    notes: form.notes || null,
+  }), [type, channel, locale, form])
+
+  const validation = useMemo(() => validateTemplateDraft(type, channel, draft), [type, channel, draft])
+
+  const fetchVersions = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ type, channel, locale })
+      const response = await fetch(`/api/admin/notifications/templates?${params}`)
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error || t("admin.templates.failedToLoad"))
+      setVersions(json.versions)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.templates.failedToLoad"))
+    } finally {
+      setLoading(false)
+    }
+  }, [type, channel, locale, t])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  // Live preview, debounced while typing
+  useEffect(() => {
+    if (!showEditor) return
+    const timer = setTimeout(async () => {
+      setPreviewing(true)
+      try {
+        const response = await fetch("/api/admin/notifications/templates/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft),
+        })
+        const json = await response.json()
+        if (!response.ok) throw new Error(json.error)
+        setPreview(json.preview)
+      } catch {
+        setPreview(null)
+      } finally {
+        setPreviewing(false)
+      }
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [showEditor, draft])
+
+  const published = versions.find((version) => version.status === "published") || null
+
+  const openEditor = (version: NotificationTemplateVersion | null, copy = false) => {
+    setEditing(copy ? null : version)
+    setForm(version ? formFromVersion(version, copy ? "" : version.notes || "") : EMPTY_FORM)
+    setPreview(null)
+    setNotice(null)
+    setError(null)
+    setShowEditor(true)
+  }
+
+  const updateForm = (patch: Partial<TemplateForm>) => {
+    setForm((prev) => ({ ...prev, ...patch }))
+  }
+
+  const insertVariable = (name: string) => {
+    updateForm({ body: `${form.body}{{${name}}}` })
+  }
+
+  const saveDraft = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(
+        editing ? `/api/admin/notifications/templates/${editing.id}` : "/api/admin/notifications/templates",
+        {
+          method: editing ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft),
+        }
+      )
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      setShowEditor(false)
+      await fetchVersions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.templates.failedToSave"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const sendTest = async () => {
+    setTesting(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const response = await fetch("/api/admin/notifications/templates/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      setNotice(t("admin.templates.testSent", { to: json.sentTo }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.templates.failedToSendTest"))
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const runAction = async (version: NotificationTemplateVersion, action: VersionAction) => {
+    if (!window.confirm(t(`admin.templates.confirm_${action}`, { version: version.version }))) return
+
+    setActing(version.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/notifications/templates/${version.id}/${action}`, { method: "POST" })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      await fetchVersions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.templates.actionFailed"))
+    } finally {
+      setActing(null)
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              {t("admin.templates.title")}
+            </CardTitle>
+            <CardDescription>{t("admin.templates.description")}</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openEditor(published, true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t("admin.templates.newVersion")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label>{t("admin.templates.type")}</Label>
+            <Select value={type} onValueChange={(value) => setType(value as NotificationType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TEMPLATE_TYPES.map((templateType) => (
+                  <SelectItem key={templateType} value={templateType}>{t(`admin.templates.type_${templateType}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{t("admin.templates.channel")}</Label>
+            <Select value={channel} onValueChange={(value) => setChannel(value as TemplateChannel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TEMPLATE_CHANNELS.map((templateChannel) => (
+                  <SelectItem key={templateChannel} value={templateChannel}>{t(`admin.templates.channel_${templateChannel}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{t("admin.templates.locale")}</Label>
+            <Select value={locale} onValueChange={setLocale}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCALES.map((templateLocale) => (
+                  <SelectItem key={templateLocale} value={templateLocale}>{templateLocale.toUpperCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && !showEditor && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("admin.templates.empty")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.templates.version")}</TableHead>
+                <TableHead>{t("admin.templates.status")}</TableHead>
+                <TableHead>{t("admin.templates.notes")}</TableHead>
+                <TableHead>{t("admin.templates.updated")}</TableHead>
+                <TableHead className="text-right">{t("admin.templates.actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell className="font-medium">v{version.version}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_STYLES[version.status]}>
+                      {t(`admin.templates.status_${version.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-xs truncate">{version.notes || "—"}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {new Date(version.published_at || version.updated_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {version.status === "draft" && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => openEditor(version)}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            {t("admin.templates.edit")}
+                          </Button>
+                          <Button size="sm" variant="outline" disabled={acting === version.id} onClick={() => runAction(version, "publish")}>
+                            <Upload className="h-4 w-4 mr-1" />
+                            {t("admin.templates.action_publish")}
+                          </Button>
+                        </>
+                      )}
+                      {version.status === "archived" && (
+                        <Button size="sm" variant="outline" disabled={acting === version.id} onClick={() => runAction(version, "rollback")}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {t("admin.templates.action_rollback")}
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => openEditor(version, true)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Editor */}
+      <Dialog open={showEditor} onOpenChange={setShowEditor}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing
+                ? t("admin.templates.editVersion", { version: editing.version })
+                : t("admin.templates.newVersion")}
+            </DialogTitle>
+            <DialogDescription>
+              {t(`admin.templates.type_${type}`)} · {t(`admin.templates.channel_${channel}`)} · {locale.toUpperCase()}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-4">
+              {channel === "email" && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="template-subject">{t("admin.templates.subject")}</Label>
+                    <Input id="template-subject" value={form.subject} onChange={(e) => updateForm({ subject: e.target.value })} />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="template-custom-body"
+                      checked={form.useBodyTemplate}
+                      onCheckedChange={(checked) => updateForm({ useBodyTemplate: checked })}
+                    />
+                    <Label htmlFor="template-custom-body">{t("admin.templates.useBodyTemplate")}</Label>
+                  </div>
+                  {!form.useBodyTemplate && (
+                    <p className="text-xs text-muted-foreground">{t("admin.templates.useBodyTemplateHint")}</p>
+                  )}
+                </>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="template-body">{t("admin.templates.body")}</Label>
+                <Textarea
+                  id="template-body"
+                  rows={8}
+                  className="font-mono text-sm"
+                  value={form.body}
+                  onChange={(e) => updateForm({ body: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-xs font-semibold">{t("admin.templates.variables")}</p>
+                <div className="flex flex-wrap gap-1">
+                  {contract.variables.map((variable) => (
+                    <Button
+                      key={variable.name}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="h-7 font-mono text-xs"
+                      title={variable.description}
+                      onClick={() => insertVariable(variable.name)}
+                    >
+                      {`{{${variable.name}}}`}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {channel === "whatsapp" && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="template-content-sid">{t("admin.templates.contentSid")}</Label>
+                    <Input
+                      id="template-content-sid"
+                      placeholder="HX..."
+                      value={form.providerTemplateId}
+                      onChange={(e) => updateForm({ providerTemplateId: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="template-content-vars">{t("admin.templates.contentVariables")}</Label>
+                    <Input
+                      id="template-content-vars"
+                      placeholder="amount, referredName"
+                      value={form.providerTemplateVariables}
+                      onChange={(e) => updateForm({ providerTemplateVariables: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="template-notes">{t("admin.templates.notes")}</Label>
+                <Input
+                  id="template-notes"
+                  placeholder={t("admin.templates.notesPlaceholder")}
+                  value={form.notes}
+                  onChange={(e) => updateForm({ notes: e.target.value })}
+                />
+              </div>
+
+              {validation.errors.map((message) => (
+                <p key={message} className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  {message}
+                </p>
+              ))}
+              {validation.warnings.map((message) => (
+                <p key={message} className="flex items-center gap-2 text-sm text-amber-600">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {message}
+                </p>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-semibold">{t("admin.templates.preview")}</p>
+                {previewing && <Loader2 className="h-3 w-3 animate-spin" />}
+              </div>
+              <p className="text-xs text-muted-foreground">{t("admin.templates.previewHint")}</p>
+              {preview?.subject && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">{t("admin.templates.subject")}: </span>
+                  {preview.subject}
+                </p>
+              )}
+              {preview?.html ? (
+                <iframe
+                  title={t("admin.templates.preview")}
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="h-[480px] w-full rounded-lg border bg-white"
+                />
+              ) : preview?.text ? (
+                <div className="rounded-lg border bg-muted/40 p-4 text-sm whitespace-pre-wrap">{preview.text}</div>
+              ) : null}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {notice && <p className="text-sm text-[#C49B3E]">{notice}</p>}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEditor(false)}>{t("common.cancel")}</Button>
+            <Button variant="outline" onClick={sendTest} disabled={testing || validation.errors.length > 0}>
+              {testing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              {t("admin.templates.sendTest")}
+            </Button>
+            <Button onClick={saveDraft} disabled={saving || validation.errors.length > 0}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("admin.templates.saveDraft")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
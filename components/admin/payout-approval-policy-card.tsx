@@ -0,0 +1,155 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ShieldCheck, Loader2, Save } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { formatDollars } from "@/lib/utils"
+
+interface ApprovalPolicy {
+  thresholdUsd: number
+  requiredApprovals: number
+  windowHours: number
+}
+
+/**
+ * Multi-signature payout policy (lib/treasury/payout-approvals.ts). Only
+ * superadmin+ can edit it; everyone else with financials access sees it
+ * read-only.
+ */
+export function PayoutApprovalPolicyCard() {
+  const [policy, setPolicy] = useState<ApprovalPolicy | null>(null)
+  const [form, setForm] = useState({ thresholdUsd: "", requiredApprovals: "", windowHours: "" })
+  const [canEdit, setCanEdit] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyPolicy = (next: ApprovalPolicy) => {
+    setPolicy(next)
+    setForm({
+      thresholdUsd: String(next.thresholdUsd),
+      requiredApprovals: String(next.requiredApprovals),
+      windowHours: String(next.windowHours),
+    })
+  }
+
+  const fetchPolicy = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/admin/treasury/payout-approval-policy")
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Failed to load approval policy")
+      }
+      applyPolicy(json.policy)
+      setCanEdit(json.canEdit)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load approval policy")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  const savePolicy = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/admin/treasury/payout-approval-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          thresholdUsd: parseFloat(form.thresholdUsd),
+          requiredApprovals: parseInt(form.requiredApprovals, 10),
+          windowHours: parseFloat(form.windowHours),
+        }),
+      })
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Failed to save approval policy")
+      }
+      applyPolicy(json.policy)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save approval policy")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Payout Approval Policy
+        </CardTitle>
+        <CardDescription>
+          {policy && policy.requiredApprovals > 0
+            ? `Batches and payouts over ${formatDollars(policy.thresholdUsd)} need ${policy.requiredApprovals} distinct approvers (not the creator) within ${policy.windowHours} hours before funds are sent`
+            : "Multi-signature approval is off: a single admin can approve and send any payout"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {loading && !policy ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : policy && (
+          <div className="grid gap-4 sm:grid-cols-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="approvalThreshold">Threshold (USD)</Label>
+              <Input
+                id="approvalThreshold"
+                type="number"
+                min={0}
+                value={form.thresholdUsd}
+                onChange={(e) => setForm({ ...form, thresholdUsd: e.target.value })}
+                disabled={!canEdit}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requiredApprovals">Required approvals (0 = off)</Label>
+              <Input
+                id="requiredApprovals"
+                type="number"
+                min={0}
+                max={5}
+                value={form.requiredApprovals}
+                onChange={(e) => setForm({ ...form, requiredApprovals: e.target.value })}
+                disabled={!canEdit}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approvalWindow">Approval window (hours)</Label>
+              <Input
+                id="approvalWindow"
+                type="number"
+                min={1}
+                value={form.windowHours}
+                onChange={(e) => setForm({ ...form, windowHours: e.target.value })}
+                disabled={!canEdit}
+              />
+            </div>
+            {canEdit && (
+              <div className="sm:col-span-3 flex justify-end">
+                <Button onClick={savePolicy} disabled={saving}>
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save policy
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { useTranslation } from "@/components/language-provider"
+import type { PayoutWalletChange, PayoutWalletChangeStatus } from "@/lib/treasury/payout-wallet-change-service"
+
+const STATUS_VARIANTS: Record<PayoutWalletChangeStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending_confirmation: "secondary",
+  confirmed: "default",
+  cancelled: "destructive",
+  expired: "outline",
+}
+
+/**
+ * A member's payout wallet changes for the admin user detail view
+ */
+export function PayoutWalletHistory({ userId }: { userId: string }) {
+  const { t } = useTranslation()
+  const [history, setHistory] = useState<PayoutWalletChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    ;(async () => {
+      try {
+        const response = await fetch(`/api/admin/users/${userId}/payout-wallet-history`)
+        const json = await response.json()
+        if (!response.ok) throw new Error(json.error || t("admin.payoutWalletHistory.failedToLoad"))
+        if (!cancelled) setHistory(json.history)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : t("admin.payoutWalletHistory.failedToLoad"))
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, t])
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("admin.payoutWalletHistory.empty")}</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {history.map((change) => (
+        <div key={change.id} className="border rounded-md p-2 text-xs space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">{new Date(change.created_at).toLocaleString()}</span>
+            <Badge variant={STATUS_VARIANTS[change.status]}>
+              {t(`admin.payoutWalletHistory.status.${change.status}`)}
+            </Badge>
+          </div>
+          <p className="font-mono break-all">
+            {change.previous_address || t("admin.payoutWalletHistory.none")} → {change.new_address}
+          </p>
+          {change.hold_until && (
+            <p className="text-muted-foreground">
+              {t("admin.payoutWalletHistory.heldUntil").replace("{date}", new Date(change.hold_until).toLocaleString())}
+            </p>
+          )}
+          {change.cancel_reason && <p className="text-muted-foreground">{change.cancel_reason}</p>}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { BellRing, Check, Loader2, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTranslation } from "@/components/language-provider"
+import type { NotificationChannel } from "@/lib/notifications/notification-types"
+
+type ReviewAction = "approve" | "decline"
+
+interface ReEnableRequest {
+  id: string
+  channel: NotificationChannel
+  hard_bounce_count: number | null
+  soft_bounce_count: number | null
+  complaint_count: number | null
+  carrier_error_count: number | null
+  delivery_failure_count: number | null
+  disabled_reason: string | null
+  disabled_at: string | null
+  re_enable_note: string | null
+  re_enable_requested_at: string | null
+  user: { id: string; name: string | null; email: string; phone_number: string | null } | null
+}
+
+/**
+ * Members whose channel was disabled after bounces, complaints or carrier
+ * errors and who asked for it back from /notifications. Approving resets
+ * the channel's counters.
+ */
+export function ReEnableRequestsCard() {
+  const { t } = useTranslation()
+  const [requests, setRequests] = useState<ReEnableRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [acting, setActing] = useState<string | null>(null)
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/notifications/re-enable-requests")
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error || t("admin.reEnableRequests.failedToLoad"))
+      setRequests(json.requests)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.reEnableRequests.failedToLoad"))
+    } finally {
+      setLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const review = async (request: ReEnableRequest, action: ReviewAction) => {
+    let reason: string | null = null
+    if (action === "decline") {
+      reason = window.prompt(t("admin.reEnableRequests.declinePrompt"))
+      if (!reason) return
+    }
+
+    setActing(request.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/notifications/re-enable-requests/${request.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(reason ? { reason } : {}),
+      })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      await fetchRequests()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.reEnableRequests.actionFailed"))
+    } finally {
+      setActing(null)
+    }
+  }
+
+  const countsOf = (request: ReEnableRequest) => {
+    if (request.channel === "email") {
+      return t("admin.reEnableRequests.emailCounts")
+        .replace("{hard}", String(request.hard_bounce_count || 0))
+        .replace("{soft}", String(request.soft_bounce_count || 0))
+        .replace("{complaints}", String(request.complaint_count || 0))
+    }
+    return t("admin.reEnableRequests.carrierCounts")
+      .replace("{carrier}", String(request.carrier_error_count || 0))
+      .replace("{failures}", String(request.delivery_failure_count || 0))
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          {t("admin.reEnableRequests.title")}
+        </CardTitle>
+        <CardDescription>{t("admin.reEnableRequests.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("admin.reEnableRequests.empty")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.reEnableRequests.member")}</TableHead>
+                <TableHead>{t("admin.reEnableRequests.channel")}</TableHead>
+                <TableHead>{t("admin.reEnableRequests.reason")}</TableHead>
+                <TableHead>{t("admin.reEnableRequests.note")}</TableHead>
+                <TableHead className="text-right">{t("admin.reEnableRequests.actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <div className="font-medium">{request.user?.name || request.user?.email}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {request.channel === "email" ? request.user?.email : request.user?.phone_number}
+                    </div>
+                  </TableCell>
+                  <TableCell className="uppercase text-xs">{request.channel}</TableCell>
+                  <TableCell>
+                    <div className="text-sm">{request.disabled_reason}</div>
+                    <div className="text-xs text-muted-foreground">{countsOf(request)}</div>
+                    {request.disabled_at && (
+                      <div className="text-xs text-muted-foreground">
+                        {t("admin.reEnableRequests.disabledAt").replace("{date}", new Date(request.disabled_at).toLocaleString())}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="text-sm whitespace-pre-wrap">{request.re_enable_note || "—"}</div>
+                    {request.re_enable_requested_at && (
+                      <div className="text-xs text-muted-foreground">{new Date(request.re_enable_requested_at).toLocaleString()}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" disabled={acting === request.id} onClick={() => review(request, "approve")}>
+                        {acting === request.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                        {t("admin.reEnableRequests.approve")}
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={acting === request.id} onClick={() => review(request, "decline")}>
+                        <X className="h-4 w-4 mr-1" />
+                        {t("admin.reEnableRequests.decline")}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
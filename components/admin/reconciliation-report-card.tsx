@@ -0,0 +1,327 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ScanSearch, CheckCircle2, AlertTriangle, Loader2, RefreshCw, Play, ChevronDown, ChevronRight } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { formatDollars } from "@/lib/utils"
+
+interface WalletBalanceCheck {
+  address: string
+  onchain: number
+  ledger: number
+  offset: number
+}
+
+interface ReconciliationReport {
+  id: string
+  report_date: string
+  from_block: number
+  to_block: number
+  status: "running" | "completed" | "failed"
+  addresses_checked: number
+  transfers_scanned: number
+  discrepancy_count: number
+  summary: {
+    byType?: Record<string, number>
+    balances?: { treasury?: WalletBalanceCheck; payout_wallet?: WalletBalanceCheck }
+  }
+  error_message: string | null
+  completed_at: string | null
+}
+
+interface Discrepancy {
+  id: string
+  discrepancy_type: string
+  tx_hash: string | null
+  onchain_amount: string | null
+  recorded_amount: string | null
+  details: Record<string, unknown>
+}
+
+interface AddressGroup {
+  address: string
+  address_type: "deposit" | "treasury" | "payout_wallet"
+  user: { email: string | null; name: string | null } | null
+  discrepancies: Discrepancy[]
+}
+
+const DISCREPANCY_LABELS: Record<string, string> = {
+  missed_deposit: "Missed deposit",
+  duplicate_deposit: "Duplicate deposit",
+  phantom_transaction: "Phantom transaction",
+  unmatched_sweep: "Unmatched sweep",
+  swept_without_payment: "Swept without payment",
+  unrecorded_outflow: "Unrecorded outflow",
+  balance_drift: "Balance drift",
+}
+
+function shorten(value: string): string {
+  return value.length > 14 ? `${value.slice(0, 8)}…${value.slice(-6)}` : value
+}
+
+function formatAmount(value: string | null): string {
+  return value === null ? "—" : formatDollars(parseFloat(value))
+}
+
+/**
+ * Daily on-chain vs. database reconciliation for the admin financials page.
+ * Lists recent reports; selecting one drills down into its discrepancies
+ * grouped by address.
+ */
+export function ReconciliationReportCard() {
+  const [reports, setReports] = useState<ReconciliationReport[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [addresses, setAddresses] = useState<AddressGroup[]>([])
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [detailLoading, setDetailLoading] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/admin/reconciliation")
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Failed to load reconciliation reports")
+      }
+      setReports(json.reports)
+      setSelectedId((current) => current ?? json.reports[0]?.id ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load reconciliation reports")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchReport = useCallback(async (reportId: string) => {
+    setDetailLoading(true)
+    try {
+      const response = await fetch(`/api/admin/reconciliation?reportId=${reportId}`)
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Failed to load report")
+      }
+      setAddresses(json.addresses)
+      setExpanded(new Set())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load report")
+    } finally {
+      setDetailLoading(false)
+    }
+  }, [])
+
+  const runNow = async () => {
+    setRunning(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/admin/reconciliation", { method: "POST" })
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Reconciliation failed")
+      }
+      setSelectedId(json.reportId)
+      await fetchReports()
+      await fetchReport(json.reportId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Reconciliation failed")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const toggleAddress = (address: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(address)) next.delete(address)
+      else next.add(address)
+      return next
+    })
+  }
+
+  useEffect(() => {
+    fetchReports()
+  }, [fetchReports])
+
+  useEffect(() => {
+    if (selectedId) fetchReport(selectedId)
+  }, [selectedId, fetchReport])
+
+  const selected = reports.find((r) => r.id === selectedId) || null
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ScanSearch className="h-5 w-5 text-primary" />
+              On-chain Reconciliation
+            </CardTitle>
+            <CardDescription>
+              Daily comparison of USDC transfers on Polygon against recorded deposits, sweeps and payouts
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={runNow} disabled={running}>
+              {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Run now
+            </Button>
+            <Button variant="ghost" size="sm" onClick={fetchReports} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {loading && reports.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reconciliation reports yet</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {reports.map((report) => (
+                <Button
+                  key={report.id}
+                  variant={report.id === selectedId ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSelectedId(report.id)}
+                >
+                  {report.report_date}
+                  {report.status === "completed" ? (
+                    report.discrepancy_count > 0 && (
+                      <Badge variant="destructive" className="ml-2">{report.discrepancy_count}</Badge>
+                    )
+                  ) : (
+                    <Badge variant="secondary" className="ml-2">{report.status}</Badge>
+                  )}
+                </Button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-4">
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 text-sm">
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Blocks</p>
+                    <p className="font-mono">{selected.from_block}–{selected.to_block}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Addresses checked</p>
+                    <p className="text-lg font-semibold">{selected.addresses_checked}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Transfers scanned</p>
+                    <p className="text-lg font-semibold">{selected.transfers_scanned}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Discrepancies</p>
+                    <p className="text-lg font-semibold">{selected.discrepancy_count}</p>
+                  </div>
+                </div>
+
+                {selected.status === "failed" && (
+                  <p className="text-sm text-red-600">Run failed: {selected.error_message}</p>
+                )}
+
+                {selected.summary.balances && (
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    {(["treasury", "payout_wallet"] as const).map((key) => {
+                      const check = selected.summary.balances?.[key]
+                      if (!check) return null
+                      return (
+                        <div key={key} className="rounded-lg border p-3 text-sm">
+                          <p className="font-medium mb-1">{key === "treasury" ? "Treasury" : "Payout wallet"}</p>
+                          <div className="flex justify-between"><span className="text-muted-foreground">On-chain</span><span>{formatDollars(check.onchain)}</span></div>
+                          <div className="flex justify-between"><span className="text-muted-foreground">Ledger</span><span>{formatDollars(check.ledger)}</span></div>
+                          <div className="flex justify-between"><span className="text-muted-foreground">Difference</span><span>{formatDollars(check.offset)}</span></div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+
+                {detailLoading ? (
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : selected.status === "completed" && addresses.length === 0 ? (
+                  <div className="flex items-center gap-2">
+                    <CheckCircle2 className="h-5 w-5 text-[#D4A853]" />
+                    <span className="text-sm text-[#D4A853] font-medium">Everything on-chain matches the database</span>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {addresses.map((group) => (
+                      <div key={group.address} className="rounded-md border">
+                        <button
+                          className="flex w-full items-center justify-between gap-2 p-3 text-left text-sm"
+                          onClick={() => toggleAddress(group.address)}
+                        >
+                          <div className="flex items-center gap-2">
+                            {expanded.has(group.address)
+                              ? <ChevronDown className="h-4 w-4" />
+                              : <ChevronRight className="h-4 w-4" />}
+                            <AlertTriangle className="h-4 w-4 text-amber-500" />
+                            <span className="font-mono">{shorten(group.address)}</span>
+                            <Badge variant="outline" className="text-xs">{group.address_type.replace(/_/g, " ")}</Badge>
+                            {group.user && (
+                              <span className="text-muted-foreground">{group.user.name || group.user.email}</span>
+                            )}
+                          </div>
+                          <Badge variant="secondary">{group.discrepancies.length}</Badge>
+                        </button>
+                        {expanded.has(group.address) && (
+                          <div className="border-t divide-y">
+                            {group.discrepancies.map((d) => (
+                              <div key={d.id} className="p-3 text-sm space-y-1">
+                                <div className="flex items-center justify-between gap-2">
+                                  <Badge variant="destructive">{DISCREPANCY_LABELS[d.discrepancy_type] || d.discrepancy_type}</Badge>
+                                  {d.tx_hash && (
+                                    d.tx_hash.startsWith("0x") ? (
+                                      <a
+                                        href={`https://polygonscan.com/tx/${d.tx_hash}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="font-mono text-xs text-primary hover:underline"
+                                      >
+                                        {shorten(d.tx_hash)}
+                                      </a>
+                                    ) : (
+                                      <span className="font-mono text-xs text-muted-foreground">{d.tx_hash}</span>
+                                    )
+                                  )}
+                                </div>
+                                <div className="flex gap-6 text-xs text-muted-foreground">
+                                  <span>On-chain: {formatAmount(d.onchain_amount)}</span>
+                                  <span>Recorded: {formatAmount(d.recorded_amount)}</span>
+                                </div>
+                                {Object.keys(d.details).length > 0 && (
+                                  <pre className="text-xs bg-muted rounded p-2 overflow-x-auto">
+                                    {JSON.stringify(d.details, null, 2)}
+                                  </pre>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
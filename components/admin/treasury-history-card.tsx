@@ -0,0 +1,351 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { LineChart as LineChartIcon, Loader2, RefreshCw, Camera, AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { formatDollars } from "@/lib/utils"
+import type { TreasurySnapshot } from "@/lib/coinbase/wallet-types"
+
+const RANGES = [30, 90, 180, 365] as const
+
+// Coverage below these is shown as critical / low
+const COVERAGE_CRITICAL = 1
+const COVERAGE_LOW = 1.5
+
+interface ChartSeries {
+  label: string
+  color: string
+  values: Array<number | null>
+  dashed?: boolean
+}
+
+interface SnapshotPoint {
+  date: string
+  treasury: number
+  payoutWallet: number | null
+  unswept: number | null
+  fundsOnHand: number
+  liability: number
+  coverage: number | null
+  gasTank: number | null
+}
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value)
+}
+
+function toPoint(snapshot: TreasurySnapshot): SnapshotPoint {
+  const treasury = parseFloat(snapshot.usdc_balance)
+  const payoutWallet = toNumber(snapshot.payout_wallet_usdc)
+  const unswept = toNumber(snapshot.total_user_wallets_usdc)
+  return {
+    date: snapshot.snapshot_date || snapshot.snapshot_at.slice(0, 10),
+    treasury,
+    payoutWallet,
+    unswept,
+    fundsOnHand: treasury + (payoutWallet ?? 0) + (unswept ?? 0),
+    liability: parseFloat(snapshot.pending_commissions_usdc) + parseFloat(snapshot.pending_payouts_usdc),
+    coverage: toNumber(snapshot.coverage_ratio),
+    gasTank: toNumber(snapshot.gas_tank_matic),
+  }
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? "—" : `${ratio.toFixed(2)}×`
+}
+
+function coverageLabel(ratio: number | null): string {
+  if (ratio === null) return "No liability"
+  if (ratio < COVERAGE_CRITICAL) return "Critical"
+  if (ratio < COVERAGE_LOW) return "Low"
+  return "Healthy"
+}
+
+function coverageClass(ratio: number | null): string {
+  if (ratio === null) return "bg-muted text-muted-foreground"
+  if (ratio < COVERAGE_CRITICAL) return "bg-red-50 text-red-700 border-red-200"
+  if (ratio < COVERAGE_LOW) return "bg-amber-500/10 text-amber-600 border-amber-500/20"
+  return "bg-[#D4A853]/10 text-[#C49B3E] border-[#D4A853]/20"
+}
+
+function formatChange(current: number, previous: number): string {
+  const delta = current - previous
+  return `${delta >= 0 ? "+" : "−"}${formatDollars(Math.abs(delta))}`
+}
+
+/**
+ * Minimal SVG line chart. Null values break the line, so a day whose balance
+ * couldn't be read shows as a gap rather than a drop to zero.
+ */
+function LineChart({
+  labels,
+  series,
+  format,
+  referenceLine,
+}: {
+  labels: string[]
+  series: ChartSeries[]
+  format: (value: number) => string
+  referenceLine?: number
+}) {
+  const width = 640
+  const height = 200
+  const padLeft = 72
+  const padRight = 12
+  const padY = 16
+
+  const values = series.flatMap((s) => s.values.filter((v): v is number => v !== null))
+  if (referenceLine !== undefined) values.push(referenceLine)
+  if (values.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No data for this range</p>
+  }
+
+  const min = Math.min(0, ...values)
+  const max = Math.max(...values) * 1.1 || 1
+  const x = (i: number) => padLeft + (labels.length === 1 ? 0.5 : i / (labels.length - 1)) * (width - padLeft - padRight)
+  const y = (v: number) => height - padY - ((v - min) / (max - min)) * (height - 2 * padY)
+
+  const pathFor = (points: Array<number | null>) =>
+    points
+      .map((v, i) => (v === null ? null : `${i === 0 || points[i - 1] === null ? "M" : "L"}${x(i).toFixed(1)},${y(v).toFixed(1)}`))
+      .filter(Boolean)
+      .join(" ")
+
+  const ticks = [min, (min + max) / 2, max]
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={padLeft} x2={width - padRight} y1={y(tick)} y2={y(tick)} stroke="currentColor" strokeOpacity={0.1} />
+            <text x={padLeft - 6} y={y(tick) + 4} textAnchor="end" fontSize={11} fill="currentColor" fillOpacity={0.6}>
+              {format(tick)}
+            </text>
+          </g>
+        ))}
+        {referenceLine !== undefined && (
+          <line
+            x1={padLeft}
+            x2={width - padRight}
+            y1={y(referenceLine)}
+            y2={y(referenceLine)}
+            stroke="#dc2626"
+            strokeOpacity={0.5}
+            strokeDasharray="4 4"
+          />
+        )}
+        {series.map((s) => (
+          <g key={s.label}>
+            <path d={pathFor(s.values)} fill="none" stroke={s.color} strokeWidth={2} strokeDasharray={s.dashed ? "6 4" : undefined} />
+            {labels.length <= 120 && s.values.map((v, i) => v !== null && (
+              <circle key={i} cx={x(i)} cy={y(v)} r={2.5} fill={s.color}>
+                <title>{`${s.label} · ${labels[i]}: ${format(v)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+        <text x={padLeft} y={height - 2} fontSize={11} fill="currentColor" fillOpacity={0.6}>{labels[0]}</text>
+        <text x={width - padRight} y={height - 2} textAnchor="end" fontSize={11} fill="currentColor" fillOpacity={0.6}>
+          {labels[labels.length - 1]}
+        </text>
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-1.5">
+            <span className="inline-block h-0.5 w-4" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Daily treasury snapshots (see lib/treasury/snapshot-service.ts): funds on
+ * hand against outstanding commissions, the resulting coverage ratio, and the
+ * gas tank, so runway trends are visible rather than just today's balances.
+ */
+export function TreasuryHistoryCard() {
+  const [days, setDays] = useState<(typeof RANGES)[number]>(90)
+  const [points, setPoints] = useState<SnapshotPoint[]>([])
+  const [latest, setLatest] = useState<TreasurySnapshot | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [capturing, setCapturing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSnapshots = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/treasury/snapshots?days=${days}`)
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Failed to load treasury history")
+      }
+      const snapshots = json.snapshots as TreasurySnapshot[]
+      setPoints(snapshots.map(toPoint))
+      setLatest(snapshots[snapshots.length - 1] || null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load treasury history")
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchSnapshots()
+  }, [fetchSnapshots])
+
+  const captureSnapshot = async () => {
+    setCapturing(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/admin/treasury/snapshots", { method: "POST" })
+      const json = await response.json()
+      if (!response.ok) {
+        throw new Error(json.error || "Snapshot failed")
+      }
+      await fetchSnapshots()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Snapshot failed")
+    } finally {
+      setCapturing(false)
+    }
+  }
+
+  const current = points[points.length - 1]
+  const first = points[0]
+  const labels = points.map((p) => p.date)
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LineChartIcon className="h-5 w-5 text-primary" />
+              Treasury History
+            </CardTitle>
+            <CardDescription>
+              Daily balances against outstanding commissions, recorded by the snapshot-treasury job
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            {RANGES.map((range) => (
+              <Button
+                key={range}
+                variant={range === days ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setDays(range)}
+              >
+                {range}d
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={captureSnapshot} disabled={capturing}>
+              {capturing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+              <span className="ml-2 hidden sm:inline">Snapshot now</span>
+            </Button>
+            <Button variant="ghost" size="sm" onClick={fetchSnapshots} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {loading && points.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !current ? (
+          <p className="text-sm text-muted-foreground">No snapshots recorded yet</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Funds on hand</p>
+                <p className="text-lg font-semibold">{formatDollars(current.fundsOnHand)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatChange(current.fundsOnHand, first.fundsOnHand)} since {first.date}
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Outstanding commissions</p>
+                <p className="text-lg font-semibold">{formatDollars(current.liability)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatChange(current.liability, first.liability)} since {first.date}
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">Coverage ratio</p>
+                  <Badge variant="outline" className={coverageClass(current.coverage)}>
+                    {coverageLabel(current.coverage)}
+                  </Badge>
+                </div>
+                <p className="text-lg font-semibold">{formatRatio(current.coverage)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {first.coverage === null ? "Nothing owed" : `${formatRatio(first.coverage)} on ${first.date}`}
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Gas tank</p>
+                <p className="text-lg font-semibold">
+                  {current.gasTank === null ? "—" : `${current.gasTank.toFixed(2)} POL`}
+                </p>
+                <p className="text-xs text-muted-foreground">As of {current.date}</p>
+              </div>
+            </div>
+
+            {latest && latest.errors.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-700">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>Latest snapshot is missing: {latest.errors.join("; ")}</span>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-medium mb-2">Funds on hand vs. outstanding commissions</p>
+              <LineChart
+                labels={labels}
+                format={(v) => formatDollars(v)}
+                series={[
+                  { label: "Funds on hand", color: "#C49B3E", values: points.map((p) => p.fundsOnHand) },
+                  { label: "Treasury", color: "#3b82f6", values: points.map((p) => p.treasury) },
+                  { label: "Payout wallet", color: "#8b5cf6", values: points.map((p) => p.payoutWallet) },
+                  { label: "Unswept deposits", color: "#10b981", values: points.map((p) => p.unswept) },
+                  { label: "Outstanding commissions", color: "#dc2626", values: points.map((p) => p.liability), dashed: true },
+                ]}
+              />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div>
+                <p className="text-sm font-medium mb-2">Coverage ratio</p>
+                <LineChart
+                  labels={labels}
+                  format={(v) => `${v.toFixed(1)}×`}
+                  referenceLine={COVERAGE_CRITICAL}
+                  series={[{ label: "Funds on hand / outstanding", color: "#C49B3E", values: points.map((p) => p.coverage) }]}
+                />
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Gas tank</p>
+                <LineChart
+                  labels={labels}
+                  format={(v) => `${v.toFixed(1)} POL`}
+                  series={[{ label: "Gas tank balance", color: "#3b82f6", values: points.map((p) => p.gasTank) }]}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
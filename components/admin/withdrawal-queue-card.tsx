@@ -0,0 +1,214 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { ArrowUpRight, Check, Loader2, Send, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTranslation } from "@/components/language-provider"
+import type { WithdrawalQueueItem } from "@/lib/treasury/withdrawal-service"
+
+type QueueStatus = "pending" | "approved"
+type ReviewAction = "approve" | "reject"
+
+/**
+ * Member withdrawal requests. Pending requests reserve the member's
+ * commissions until reviewed; approved ones are paid from here through the
+ * regular bulk payout route, so approval thresholds still apply.
+ */
+export function WithdrawalQueueCard({ onPaid }: { onPaid?: () => void }) {
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<QueueStatus>("pending")
+  const [requests, setRequests] = useState<WithdrawalQueueItem[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [acting, setActing] = useState<string | null>(null)
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/admin/withdrawals?status=${status}`)
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error || t("admin.withdrawalQueue.failedToLoad"))
+      setRequests(json.requests)
+      setCurrentUserId(json.currentUserId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.withdrawalQueue.failedToLoad"))
+    } finally {
+      setLoading(false)
+    }
+  }, [status, t])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const review = async (request: WithdrawalQueueItem, action: ReviewAction) => {
+    let reason: string | null = null
+    if (action === "reject") {
+      reason = window.prompt(t("admin.withdrawalQueue.rejectPrompt"))
+      if (!reason) return
+    }
+
+    setActing(request.id)
+    setError(null)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/admin/withdrawals/${request.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(reason ? { reason } : {}),
+      })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      await fetchRequests()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.withdrawalQueue.actionFailed"))
+    } finally {
+      setActing(null)
+    }
+  }
+
+  const sendPayout = async (request: WithdrawalQueueItem) => {
+    setActing(request.id)
+    setError(null)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/admin/payouts/process-bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commissionIds: request.unpaidCommissionIds }),
+      })
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      setMessage(
+        t("admin.withdrawalQueue.payoutResult")
+          .replace("{successful}", String(json.successful))
+          .replace("{failed}", String(json.failed))
+          .replace("{skipped}", String(json.skipped))
+      )
+      await fetchRequests()
+      onPaid?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.withdrawalQueue.actionFailed"))
+    } finally {
+      setActing(null)
+    }
+  }
+
+  const shortAddress = (address: string | null) =>
+    address ? `${address.slice(0, 6)}...${address.slice(-4)}` : "—"
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowUpRight className="h-5 w-5" />
+              {t("admin.withdrawalQueue.title")}
+            </CardTitle>
+            <CardDescription>{t("admin.withdrawalQueue.description")}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant={status === "pending" ? "default" : "outline"} onClick={() => setStatus("pending")}>
+              {t("admin.withdrawalQueue.pending")}
+            </Button>
+            <Button size="sm" variant={status === "approved" ? "default" : "outline"} onClick={() => setStatus("approved")}>
+              {t("admin.withdrawalQueue.approved")}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("admin.withdrawalQueue.empty")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.withdrawalQueue.member")}</TableHead>
+                <TableHead>{t("admin.withdrawalQueue.amount")}</TableHead>
+                <TableHead>{t("admin.withdrawalQueue.wallet")}</TableHead>
+                <TableHead>{t("admin.withdrawalQueue.requested")}</TableHead>
+                <TableHead className="text-right">{t("admin.withdrawalQueue.actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => {
+                const walletChanged = request.member.currentWalletAddress?.toLowerCase() !== request.wallet_address.toLowerCase()
+                const ownRequest = request.user_id === currentUserId
+                return (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <div className="font-medium">{request.member.name || request.member.email}</div>
+                      <div className="text-xs text-muted-foreground">{request.member.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">${Number(request.amount_usdc).toFixed(2)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {t("admin.withdrawalQueue.commissionCount")
+                          .replace("{paid}", String(request.paidCommissions))
+                          .replace("{total}", String(request.commission_ids.length))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-xs">{shortAddress(request.wallet_address)}</div>
+                      {walletChanged && (
+                        <Badge variant="destructive" className="mt-1">{t("admin.withdrawalQueue.walletChanged")}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {new Date(request.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {status === "pending" ? (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            disabled={acting === request.id || ownRequest || walletChanged}
+                            title={ownRequest ? t("admin.withdrawalQueue.ownRequest") : undefined}
+                            onClick={() => review(request, "approve")}
+                          >
+                            {acting === request.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                            {t("admin.withdrawalQueue.approve")}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={acting === request.id}
+                            onClick={() => review(request, "reject")}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            {t("admin.withdrawalQueue.reject")}
+                          </Button>
+                        </div>
+                      ) : request.unpaidCommissionIds.length > 0 ? (
+                        <Button size="sm" disabled={acting === request.id} onClick={() => sendPayout(request)}>
+                          {acting === request.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+                          {t("admin.withdrawalQueue.sendPayout")}
+                        </Button>
+                      ) : (
+                        <Badge variant="outline">{t("admin.withdrawalQueue.paid")}</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,7 +11,8 @@ import {
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
-import { Wallet, CheckCircle2, AlertCircle, Loader2, ExternalLink } from "lucide-react"
+import { Wallet, CheckCircle2, AlertCircle, Loader2, ExternalLink, Mail, Clock } from "lucide-react"
+import { MFAChallenge } from "@/components/mfa/mfa-challenge"
 
 interface PayoutWalletSetupProps {
   open?: boolean
@@ -24,6 +25,14 @@ interface PayoutWalletSetupProps {
 interface WalletStatus {
   payoutWalletAddress: string | null
   isConfigured: boolean
+  // Payouts paused after a wallet change
+  payoutHoldUntil: string | null
+  // Change awaiting confirmation from the account email
+  pendingChange: {
+    newAddress: string
+    requestedAt: string
+    expiresAt: string
+  } | null
   pendingCommissions: {
     total: string
     count: number
@@ -43,6 +52,8 @@ export default function PayoutWalletSetup({
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
   const [walletStatus, setWalletStatus] = useState<WalletStatus | null>(null)
+  const [showMfa, setShowMfa] = useState(false)
+  const [cancellingChange, setCancellingChange] = useState(false)
 
   // Fetch current wallet status
   useEffect(() => {
@@ -96,8 +107,17 @@ export default function PayoutWalletSetup({
 
       const data = await response.json()
 
-      if (!data.success) {
+      if (data.mfaRequired) {
+        // Changing an existing wallet needs a fresh 2FA code; retried from onVerified
+        setShowMfa(true)
+      } else if (!data.success) {
         setError(data.error || "Failed to save wallet address")
+      } else if (data.pendingConfirmation) {
+        setShowMfa(false)
+        setWalletStatus({
+          ...walletStatus,
+          pendingChange: data.data,
+        } as WalletStatus)
       } else {
         setSuccess(true)
         setWalletStatus({
@@ -114,13 +134,33 @@ export default function PayoutWalletSetup({
           setTimeout(() => onOpenChange(false), 1500)
         }
       }
-    } catch (err) {
+    } catch {
       setError("Failed to save wallet address. Please try again.")
     } finally {
       setLoading(false)
     }
   }
 
+  const handleCancelChange = async () => {
+    setCancellingChange(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/user/payout-wallet", { method: "DELETE" })
+      const data = await response.json()
+
+      if (!data.success) {
+        setError(data.error || "Failed to cancel wallet change")
+      } else {
+        setWalletStatus({ ...walletStatus, pendingChange: null } as WalletStatus)
+      }
+    } catch {
+      setError("Failed to cancel wallet change. Please try again.")
+    } finally {
+      setCancellingChange(false)
+    }
+  }
+
   const content = (
     <div className="space-y-6">
       {/* Info section */}
@@ -151,6 +191,39 @@ export default function PayoutWalletSetup({
         </div>
       )}
 
+      {/* Change awaiting email confirmation */}
+      {walletStatus?.pendingChange && (
+        <div className="flex items-start gap-2 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+          <Mail className="h-4 w-4 text-blue-400 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-blue-300">
+              Check your email to confirm the change to{" "}
+              <span className="font-mono">{walletStatus.pendingChange.newAddress.slice(0, 6)}...{walletStatus.pendingChange.newAddress.slice(-4)}</span>.
+              The link expires {new Date(walletStatus.pendingChange.expiresAt).toLocaleString()}.
+            </p>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-blue-400"
+              onClick={handleCancelChange}
+              disabled={cancellingChange}
+            >
+              Cancel change
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Payout hold after a recent change */}
+      {walletStatus?.payoutHoldUntil && (
+        <div className="flex items-center gap-2 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+          <Clock className="h-4 w-4 text-amber-400" />
+          <span className="text-sm text-amber-300">
+            Your wallet was changed recently. Payouts resume {new Date(walletStatus.payoutHoldUntil).toLocaleString()}.
+          </span>
+        </div>
+      )}
+
       {/* Pending commissions */}
       {walletStatus?.pendingCommissions && walletStatus.pendingCommissions.count > 0 && (
         <div className="flex items-center gap-2 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
@@ -178,6 +251,7 @@ export default function PayoutWalletSetup({
         />
         <p className="text-xs text-muted-foreground">
           Enter your personal wallet address (MetaMask, Coinbase Wallet, etc.) on the Polygon network.
+          {walletStatus?.isConfigured && " Changes need your 2FA code and a confirmation from your email, then payouts pause for 48 hours."}
         </p>
       </div>
 
@@ -210,7 +284,18 @@ export default function PayoutWalletSetup({
         </a>
       </div>
 
+      {/* 2FA step-up for wallet changes */}
+      {showMfa && (
+        <div className="space-y-2">
+          <MFAChallenge embedded onVerified={handleSave} />
+          <Button variant="ghost" size="sm" onClick={() => setShowMfa(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
       {/* Save button */}
+      {!showMfa && (
       <Button
         onClick={handleSave}
         disabled={loading || !walletAddress}
@@ -222,11 +307,12 @@ export default function PayoutWalletSetup({
             Saving...
           </>
         ) : walletStatus?.isConfigured ? (
-          "Update Payout Wallet"
+          "Request Wallet Change"
         ) : (
           "Save Payout Wallet"
         )}
       </Button>
+      )}
     </div>
   )
 
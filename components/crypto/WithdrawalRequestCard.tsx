@@ -0,0 +1,269 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ArrowUpRight, AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
+import { MFAChallenge } from "@/components/mfa/mfa-challenge"
+import { useTranslation } from "@/components/language-provider"
+
+type WithdrawalStatus = "pending" | "approved" | "rejected" | "cancelled"
+
+interface WithdrawalRequest {
+  id: string
+  amount_usdc: string
+  wallet_address: string
+  status: WithdrawalStatus
+  rejection_reason: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+interface WithdrawalOverview {
+  canWithdraw: boolean
+  payoutWalletAddress: string | null
+  limits: {
+    minimumUsd: number
+    dailyLimitUsd: number
+    monthlyLimitUsd: number
+    walletCooldownHours: number
+  }
+  usedTodayUsdc: number
+  usedThisMonthUsdc: number
+  availableUsdc: number
+  requestableUsdc: number
+  pendingRequest: WithdrawalRequest | null
+  blockers: string[]
+  requests: WithdrawalRequest[]
+}
+
+const STATUS_VARIANTS: Record<WithdrawalStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+  cancelled: "outline",
+}
+
+function formatUsd(amount: number | string) {
+  return `$${Number(amount).toFixed(2)}`
+}
+
+export default function WithdrawalRequestCard() {
+  const { t } = useTranslation()
+  const [overview, setOverview] = useState<WithdrawalOverview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [showMfa, setShowMfa] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/withdrawals")
+      const data = await response.json()
+      if (data.success) {
+        setOverview(data.data)
+      } else {
+        setError(data.error || t("finance.withdrawalRequests.loadError"))
+      }
+    } catch {
+      setError(t("finance.withdrawalRequests.loadError"))
+    } finally {
+      setLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    fetchOverview()
+  }, [fetchOverview])
+
+  const submitRequest = async () => {
+    setSubmitting(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch("/api/user/withdrawals", { method: "POST" })
+      const data = await response.json()
+
+      if (data.mfaRequired) {
+        // Step up with a fresh code, then retry from onVerified
+        setShowMfa(true)
+        return
+      }
+
+      if (!data.success) {
+        setError(data.error || t("finance.withdrawalRequests.requestError"))
+        return
+      }
+
+      setShowMfa(false)
+      setMessage(t("finance.withdrawalRequests.requestSubmitted"))
+      await fetchOverview()
+    } catch {
+      setError(t("finance.withdrawalRequests.requestError"))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const cancelRequest = async (id: string) => {
+    setCancellingId(id)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/user/withdrawals/${id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!data.success) {
+        setError(data.error || t("finance.withdrawalRequests.cancelError"))
+        return
+      }
+      await fetchOverview()
+    } catch {
+      setError(t("finance.withdrawalRequests.cancelError"))
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="mb-6">
+        <CardContent className="pt-6 flex items-center justify-center text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          {t("common.loading")}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!overview) {
+    return null
+  }
+
+  const canRequest = overview.blockers.length === 0 && overview.requestableUsdc > 0
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowUpRight className="h-5 w-5 text-primary" />
+          {t("finance.withdrawalRequests.title")}
+        </CardTitle>
+        <CardDescription>{t("finance.withdrawalRequests.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-xs text-muted-foreground">{t("finance.withdrawalRequests.available")}</p>
+            <p className="text-lg font-semibold">{formatUsd(overview.availableUsdc)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">{t("finance.withdrawalRequests.requestable")}</p>
+            <p className="text-lg font-semibold">{formatUsd(overview.requestableUsdc)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">{t("finance.withdrawalRequests.dailyLimit")}</p>
+            <p className="text-sm">
+              {formatUsd(overview.usedTodayUsdc)} / {formatUsd(overview.limits.dailyLimitUsd)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">{t("finance.withdrawalRequests.monthlyLimit")}</p>
+            <p className="text-sm">
+              {formatUsd(overview.usedThisMonthUsdc)} / {formatUsd(overview.limits.monthlyLimitUsd)}
+            </p>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {t("finance.withdrawalRequests.limitsNote", {
+            minimum: formatUsd(overview.limits.minimumUsd),
+            hours: overview.limits.walletCooldownHours,
+          })}
+        </p>
+
+        {overview.blockers.length > 0 && (
+          <div className="p-3 bg-yellow-500/5 border border-yellow-500/20 rounded-md space-y-1">
+            {overview.blockers.map((blocker) => (
+              <p key={blocker} className="text-sm text-yellow-700 dark:text-yellow-500 flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {blocker}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+          </div>
+        )}
+
+        {message && (
+          <p className="text-sm text-green-600 flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4" />
+            {message}
+          </p>
+        )}
+
+        {showMfa ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">{t("finance.withdrawalRequests.confirmWith2fa")}</p>
+            <MFAChallenge embedded onVerified={submitRequest} />
+            <Button variant="ghost" size="sm" onClick={() => setShowMfa(false)}>
+              {t("common.cancel")}
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={submitRequest} disabled={!canRequest || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {t("finance.withdrawalRequests.requestButton", { amount: formatUsd(overview.requestableUsdc) })}
+          </Button>
+        )}
+
+        {overview.requests.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <p className="text-sm font-medium">{t("finance.withdrawalRequests.history")}</p>
+            {overview.requests.map((request) => (
+              <div key={request.id} className="flex items-start justify-between gap-4 border rounded-md p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatUsd(request.amount_usdc)}</span>
+                    <Badge variant={STATUS_VARIANTS[request.status]}>
+                      {t(`finance.withdrawalRequests.status.${request.status}`)}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(request.created_at).toLocaleString()} · {request.wallet_address.slice(0, 6)}...{request.wallet_address.slice(-4)}
+                  </p>
+                  {request.status === "rejected" && request.rejection_reason && (
+                    <p className="text-xs text-red-600">
+                      {t("finance.withdrawalRequests.rejectionReason", { reason: request.rejection_reason })}
+                    </p>
+                  )}
+                </div>
+                {request.status === "pending" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelRequest(request.id)}
+                    disabled={cancellingId === request.id}
+                  >
+                    {t("finance.withdrawalRequests.cancelRequest")}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
-import { Search, LogOut, Bell, User, Settings, Mail } from "lucide-react"
+import { Search, LogOut, User, Settings, Mail } from "lucide-react"
 import { LiveClassIndicator } from "@/components/academy/live-class-indicator"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
@@ -19,10 +19,12 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { createClient } from "@/lib/supabase/client"
 import { LanguageToggle } from "@/components/language-toggle"
+import { NotificationBell } from "@/components/notification-bell"
 import { useTranslation } from "@/components/language-provider"
 
 interface DashboardHeaderProps {
   user: {
+    id: string
     email?: string
     user_metadata?: {
       name?: string
@@ -115,10 +117,7 @@ export function DashboardHeader({ user }: DashboardHeaderProps) {
         <LanguageToggle />
 
         {/* Notifications */}
-        <Button variant="ghost" size="icon" className="h-8 w-8 relative">
-          <Bell className="h-4 w-4" />
-          <span className="absolute top-1 right-1 h-2 w-2 bg-red-500 rounded-full" />
-        </Button>
+        <NotificationBell userId={user.id} />
 
         {/* Profile Dropdown */}
         <DropdownMenu>
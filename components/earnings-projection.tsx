@@ -0,0 +1,162 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { LineChart, Info } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTranslation } from "@/components/language-provider"
+import { formatDollars } from "@/lib/utils"
+import type { PlanTerms } from "@/lib/compensation/plan-engine"
+import { MAX_PROJECTION_MONTHS, projectEarnings } from "@/lib/compensation/projection"
+
+interface EarningsProjectionProps {
+  // Plan summary from /api/network/stats
+  plan: PlanTerms & { version: number }
+  activeNetworkCount: number
+  directReferrals: number
+  // Seeds the weekly share slider from the member's own schedule
+  paymentSchedule?: "weekly" | "monthly"
+}
+
+/**
+ * Member-facing "what could I earn" calculator. Runs the plan engine
+ * client-side over the member's growth assumptions; nothing is saved.
+ */
+export function EarningsProjection({ plan, activeNetworkCount, directReferrals, paymentSchedule }: EarningsProjectionProps) {
+  const { t } = useTranslation()
+  const [months, setMonths] = useState("12")
+  const [newDirects, setNewDirects] = useState("2")
+  const [teamGrowth, setTeamGrowth] = useState("5")
+  const [churn, setChurn] = useState("5")
+  const [weeklyShare, setWeeklyShare] = useState(paymentSchedule === "weekly" ? "50" : "20")
+
+  const projection = useMemo(
+    () =>
+      projectEarnings(
+        plan,
+        { activeNetworkCount, directReferrals },
+        {
+          months: parseInt(months, 10) || 1,
+          newDirectsPerMonth: parseFloat(newDirects) || 0,
+          teamGrowthPerMonth: parseFloat(teamGrowth) || 0,
+          monthlyChurnRate: (parseFloat(churn) || 0) / 100,
+          weeklyShare: (parseFloat(weeklyShare) || 0) / 100,
+        }
+      ),
+    [plan, activeNetworkCount, directReferrals, months, newDirects, teamGrowth, churn, weeklyShare]
+  )
+
+  const last = projection[projection.length - 1]
+  const formatMonth = (period: string) =>
+    new Date(`${period}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" })
+
+  const inputs: Array<{ id: string; label: string; value: string; set: (v: string) => void; max: number }> = [
+    { id: "projection-months", label: t("projection.months"), value: months, set: setMonths, max: MAX_PROJECTION_MONTHS },
+    { id: "projection-directs", label: t("projection.newDirectsPerMonth"), value: newDirects, set: setNewDirects, max: 1000 },
+    { id: "projection-team", label: t("projection.teamGrowthPerMonth"), value: teamGrowth, set: setTeamGrowth, max: 100000 },
+    { id: "projection-churn", label: t("projection.churnRate"), value: churn, set: setChurn, max: 100 },
+    { id: "projection-weekly", label: t("projection.weeklyShare"), value: weeklyShare, set: setWeeklyShare, max: 100 },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LineChart className="h-5 w-5 text-primary" />
+          {t("projection.title")}
+        </CardTitle>
+        <CardDescription>{t("projection.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          {inputs.map((input) => (
+            <div key={input.id} className="space-y-1">
+              <Label htmlFor={input.id} className="text-xs">{input.label}</Label>
+              <Input
+                id={input.id}
+                type="number"
+                min={0}
+                max={input.max}
+                value={input.value}
+                onChange={(e) => input.set(e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+
+        {last && (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="p-3 rounded-lg bg-surface-2">
+              <p className="text-xs text-muted-foreground">{t("projection.inMonths").replace("{months}", String(projection.length))} · {t("projection.activeTeam")}</p>
+              <p className="text-2xl font-bold">{last.activeNetworkCount.toLocaleString()}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-surface-2">
+              <p className="text-xs text-muted-foreground">{t("projection.structure")} · {t("projection.rate")}</p>
+              <p className="text-2xl font-bold">{last.currentStructure} · {(last.commissionRate * 100).toFixed(0)}%</p>
+            </div>
+            <div className="p-3 rounded-lg bg-surface-2">
+              <p className="text-xs text-muted-foreground">{t("projection.monthlyCommission")}</p>
+              <p className="text-2xl font-bold text-primary">{formatDollars(last.projectedCommission)}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-surface-2">
+              <p className="text-xs text-muted-foreground">{t("projection.totalWithdrawable")}</p>
+              <p className="text-2xl font-bold">{formatDollars(last.cumulativeWithdrawable)}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("projection.month")}</TableHead>
+                <TableHead className="text-right">{t("projection.activeTeam")}</TableHead>
+                <TableHead className="text-right">{t("projection.directs")}</TableHead>
+                <TableHead className="text-right">{t("projection.structure")}</TableHead>
+                <TableHead className="text-right">{t("projection.rate")}</TableHead>
+                <TableHead className="text-right">{t("projection.volume")}</TableHead>
+                <TableHead className="text-right">{t("projection.monthlyCommission")}</TableHead>
+                <TableHead>{t("projection.withdraw")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {projection.map((month) => (
+                <TableRow key={month.monthPeriod}>
+                  <TableCell>{formatMonth(month.monthPeriod)}</TableCell>
+                  <TableCell className="text-right">{month.activeNetworkCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{month.directReferrals}</TableCell>
+                  <TableCell className="text-right">{month.currentStructure}</TableCell>
+                  <TableCell className="text-right">{(month.commissionRate * 100).toFixed(0)}%</TableCell>
+                  <TableCell className="text-right">{formatDollars(month.projectedVolume)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatDollars(month.projectedCommission)}</TableCell>
+                  <TableCell>
+                    {month.canWithdraw ? (
+                      <Badge variant="secondary">{t("projection.yes")}</Badge>
+                    ) : (
+                      <Badge variant="outline">{t("projection.needDirects").replace("{count}", String(month.requiredDirectReferrals))}</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-4 text-xs text-muted-foreground space-y-1">
+          <p className="flex items-center gap-2 font-semibold text-foreground">
+            <Info className="h-4 w-4 text-amber-500" />
+            {t("projection.caveatsTitle")}
+          </p>
+          <p>{t("projection.caveatAssumptions")}</p>
+          <p>{t("projection.caveatVolume")}</p>
+          <p>{t("projection.caveatActive")}</p>
+          <p>{t("projection.caveatWithdraw")}</p>
+          <p>{t("projection.caveatPlan").replace("{version}", String(plan.version))}</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -8,9 +8,18 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Shield, AlertCircle } from "lucide-react"
 import { useRouter } from "next/navigation"
+import { useTranslation } from "@/components/language-provider"
 
-export function MFAChallenge() {
+interface MFAChallengeProps {
+  // Called after a successful verify instead of redirecting to the dashboard
+  onVerified?: () => void
+  // Render inline (e.g. to step up before a sensitive action) rather than as the login screen
+  embedded?: boolean
+}
+
+export function MFAChallenge({ onVerified, embedded = false }: MFAChallengeProps = {}) {
   const router = useRouter()
+  const { t } = useTranslation()
   const [verifyCode, setVerifyCode] = useState("")
   const [error, setError] = useState("")
   const [factorId, setFactorId] = useState("")
@@ -85,6 +94,11 @@ export function MFAChallenge() {
       }
 
       // Success! The session will be upgraded automatically
+      if (onVerified) {
+        onVerified()
+        return
+      }
+
       // Redirect to dashboard
       router.push("/dashboard")
       router.refresh()
@@ -103,11 +117,15 @@ export function MFAChallenge() {
   }
 
   if (loading) {
+    if (embedded) {
+      return <div className="text-center text-sm text-muted-foreground py-4">{t("common.loading")}</div>
+    }
+
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
         <Card className="w-full max-w-md">
           <CardContent className="pt-6">
-            <div className="text-center text-muted-foreground">Loading...</div>
+            <div className="text-center text-muted-foreground">{t("common.loading")}</div>
           </CardContent>
         </Card>
       </div>
@@ -115,8 +133,8 @@ export function MFAChallenge() {
   }
 
   return (
-    <div className="flex items-center justify-center min-h-screen bg-background p-4">
-      <Card className="w-full max-w-md">
+    <div className={embedded ? "" : "flex items-center justify-center min-h-screen bg-background p-4"}>
+      <Card className={embedded ? "w-full" : "w-full max-w-md"}>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Shield className="h-5 w-5 text-primary" />
@@ -165,6 +183,7 @@ export function MFAChallenge() {
             {verifying ? "Verifying..." : "Verify"}
           </Button>
 
+          {!embedded && (
           <div className="text-center">
             <a
               href="/login"
@@ -173,6 +192,7 @@ export function MFAChallenge() {
               Back to login
             </a>
           </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,199 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Bell, Archive, CheckCheck, Settings } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { es } from "date-fns/locale"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { createClient } from "@/lib/supabase/client"
+import { useTranslation } from "@/components/language-provider"
+import { formatDollars } from "@/lib/utils"
+import type { TranslationKey } from "@/lib/i18n"
+import type { InAppNotification } from "@/lib/notifications/notification-types"
+
+type InboxItem = Pick<InAppNotification, "id" | "notification_type" | "data" | "link" | "read_at" | "created_at">
+
+// Event data fields shown as dollar amounts
+const MONEY_FIELDS = ["amount", "totalVolume", "maxCommission", "newVolume"]
+
+function templateParams(data: Record<string, unknown>, locale: string): Record<string, string | number> {
+  const params: Record<string, string | number> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value === "number") {
+      params[key] = MONEY_FIELDS.includes(key) ? formatDollars(value) : value
+    } else if (key === "month" && typeof value === "string" && /^\d{4}-\d{2}$/.test(value)) {
+      // Commission periods arrive as 'YYYY-MM'
+      const [year, month] = value.split("-").map(Number)
+      params[key] = new Date(year, month - 1, 1).toLocaleDateString(locale, { month: "long", year: "numeric" })
+    } else if (typeof value === "string") {
+      params[key] = value
+    }
+  }
+  return params
+}
+
+/**
+ * Header bell with the member's in-app inbox. Loads the latest
+ * notifications and stays current through a Supabase Realtime subscription
+ * on the member's rows.
+ */
+export function NotificationBell({ userId }: { userId: string }) {
+  const router = useRouter()
+  const { t, locale } = useTranslation()
+  const [items, setItems] = useState<InboxItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  const fetchInbox = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications/inbox")
+      if (!response.ok) return
+      const json = await response.json()
+      setItems(json.notifications)
+      setUnreadCount(json.unreadCount)
+    } catch (error) {
+      console.error("Error fetching inbox:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchInbox()
+
+    // Any change to this member's rows (new notification, read in another tab)
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`in-app-notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "in_app_notifications", filter: `user_id=eq.${userId}` },
+        () => fetchInbox()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, fetchInbox])
+
+  const updateInbox = async (body: { action: "read" | "archive"; ids?: string[]; all?: boolean }) => {
+    await fetch("/api/notifications/inbox", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    fetchInbox()
+  }
+
+  const openItem = (item: InboxItem) => {
+    if (!item.read_at) {
+      setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, read_at: new Date().toISOString() } : i)))
+      setUnreadCount((count) => Math.max(count - 1, 0))
+      updateInbox({ action: "read", ids: [item.id] })
+    }
+    if (item.link) router.push(item.link)
+  }
+
+  const archiveItem = (event: React.MouseEvent, item: InboxItem) => {
+    event.preventDefault()
+    event.stopPropagation()
+    setItems((prev) => prev.filter((i) => i.id !== item.id))
+    if (!item.read_at) setUnreadCount((count) => Math.max(count - 1, 0))
+    updateInbox({ action: "archive", ids: [item.id] })
+  }
+
+  const renderText = (item: InboxItem) => {
+    // Announcements carry their own text
+    if (item.notification_type === "admin_announcement") {
+      return {
+        title: String(item.data.subject || t("inbox.types.admin_announcement.title")),
+        body: String(item.data.message || ""),
+      }
+    }
+    const params = templateParams(item.data, locale)
+    return {
+      title: t(`inbox.types.${item.notification_type}.title` as TranslationKey, params),
+      body: t(`inbox.types.${item.notification_type}.body` as TranslationKey, params),
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 relative" aria-label={t("inbox.title")}>
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 flex items-center justify-center bg-red-500 text-white text-[10px] font-semibold rounded-full">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">{t("inbox.title")}</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => {
+                setItems((prev) => prev.map((i) => ({ ...i, read_at: i.read_at || new Date().toISOString() })))
+                setUnreadCount(0)
+                updateInbox({ action: "read", all: true })
+              }}
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <CheckCheck className="h-3 w-3" />
+              {t("notifications.markAllRead")}
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+
+        <div className="max-h-96 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="px-3 py-8 text-center text-sm text-muted-foreground">{t("notifications.noNotifications")}</p>
+          ) : (
+            items.map((item) => {
+              const { title, body } = renderText(item)
+              return (
+                <DropdownMenuItem
+                  key={item.id}
+                  onClick={() => openItem(item)}
+                  className="group flex items-start gap-2 px-3 py-2.5 rounded-none cursor-pointer"
+                >
+                  <span className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${item.read_at ? "bg-transparent" : "bg-primary"}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm truncate ${item.read_at ? "text-muted-foreground" : "font-medium"}`}>{title}</p>
+                    {body && <p className="text-xs text-muted-foreground line-clamp-2">{body}</p>}
+                    <p className="text-[11px] text-foreground-quaternary mt-0.5">
+                      {formatDistanceToNow(new Date(item.created_at), { addSuffix: true, locale: locale === "es" ? es : undefined })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => archiveItem(e, item)}
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+                    aria-label={t("inbox.archive")}
+                  >
+                    <Archive className="h-3.5 w-3.5" />
+                  </button>
+                </DropdownMenuItem>
+              )
+            })
+          )}
+        </div>
+
+        <DropdownMenuSeparator className="m-0" />
+        <DropdownMenuItem onClick={() => router.push("/notifications")} className="px-3 py-2 rounded-none text-xs">
+          <Settings className="h-3.5 w-3.5 mr-2" />
+          {t("inbox.preferences")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -33,6 +33,7 @@ import {
   Settings,
   GitBranch,
   Activity,
+  ScrollText,
   BookOpen,
   Bell,
   Gift,
@@ -91,12 +92,13 @@ export function Sidebar({ user, isActive, isAdminOrSuper, isSuperAdmin, isSuperA
   const canFlagged = can("view_flagged_reviews")
   const canAcademy = can("manage_academy")
   const canPrivileges = can("manage_privileges")
+  const canAudit = can("view_admin_audit")
   const showNotifiersGroup = canClasses || canNotifications
   const showNetworkGroup = canNetwork || canVisualizer
   const showPaymentsGroup = canFinancials || canPayouts || canDirectBonuses
   const showAdminSection =
     showNotifiersGroup || showNetworkGroup || showPaymentsGroup ||
-    canTxLogs || canFlagged || canAcademy || canPrivileges
+    canTxLogs || canFlagged || canAcademy || canPrivileges || canAudit
 
   const [hovered, setHovered] = useState(false)
   const [mobileOpen, setMobileOpen] = useState(false)
@@ -298,6 +300,15 @@ export function Sidebar({ user, isActive, isAdminOrSuper, isSuperAdmin, isSuperA
                 <span className={`text-sm font-medium whitespace-nowrap transition-opacity duration-150 ${isExpanded ? 'opacity-100' : 'opacity-0 w-0 overflow-hidden'}`}>{t("nav.transactionLogs")}</span>
               </NavigationLink>
             )}
+            {canAudit && (
+              <NavigationLink
+                href="/admin/audit"
+                className="flex items-center gap-[10px] pl-4 pr-3 py-[10px] mx-1 rounded-[6px] text-sidebar-foreground hover:text-sidebar-accent-foreground transition-all duration-150 group cursor-pointer whitespace-nowrap"
+              >
+                <ScrollText className="h-4 w-4 text-muted-foreground group-hover:text-sidebar-primary flex-shrink-0" />
+                <span className={`text-sm font-medium whitespace-nowrap transition-opacity duration-150 ${isExpanded ? 'opacity-100' : 'opacity-0 w-0 overflow-hidden'}`}>{t("nav.adminAudit")}</span>
+              </NavigationLink>
+            )}
             {canFlagged && (
               <NavigationLink
                 href="/admin/flagged-reviews"
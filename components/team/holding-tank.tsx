@@ -0,0 +1,181 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Hourglass, GripVertical, CircleSlash, CheckCircle2, Loader2 } from "lucide-react"
+import TeamTreeVisualization, {
+  HELD_MEMBER_MIME,
+  type SlotDropTarget
+} from "@/components/team/team-tree-visualization-wrapper"
+import { parseNetworkPositionId } from "@/lib/network-positions"
+import type { HeldMember } from "@/lib/network-holding-tank"
+
+interface PlacedMember {
+  id: string
+  name: string
+  email: string
+  network_position_id?: string
+  created_at: string
+}
+
+interface HoldingTankProps {
+  // Viewer's own network position
+  rootPositionId: string
+  // Viewer's downline, used to draw the open slots
+  members: PlacedMember[]
+  // Called after a member is placed so the page can refresh its data
+  onPlaced?: () => void
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  NOT_HELD: "That member has already been placed.",
+  NOT_SPONSOR: "Only the sponsor can place this member.",
+  PARENT_NOT_IN_SUBTREE: "That slot is outside your structure.",
+  PARENT_NOT_FOUND: "That slot has no one above it yet.",
+  SLOT_OCCUPIED: "Someone already took that slot.",
+  ALREADY_PLACED: "That member already has a position.",
+}
+
+// The tree only draws 6 levels below the viewer
+const MAX_DEPTH = 6
+
+function daysLeft(expiresAt: string): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 86_400_000))
+}
+
+export function HoldingTank({ rootPositionId, members, onPlaced }: HoldingTankProps) {
+  const [held, setHeld] = useState<HeldMember[]>([])
+  const [placing, setPlacing] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadHeld = useCallback(async () => {
+    try {
+      const res = await fetch("/api/network/holding-tank")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || "Failed to load")
+      setHeld(data.members || [])
+    } catch (e) {
+      console.error("Error loading holding tank:", e)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadHeld()
+  }, [loadHeld])
+
+  // Downline positions relative to the viewer, as the tree expects them
+  const treeMembers = useMemo(() => {
+    const root = parseNetworkPositionId(rootPositionId)
+    return members.flatMap((m) => {
+      if (!m.network_position_id) return []
+      const { level, position } = parseNetworkPositionId(m.network_position_id)
+      const depth = level - root.level
+      if (depth < 1 || depth > MAX_DEPTH) return []
+      return [{
+        id: m.id,
+        name: m.name,
+        email: m.email,
+        created_at: m.created_at,
+        level: depth,
+        position: position - (root.position - 1) * Math.pow(3, depth),
+      }]
+    })
+  }, [members, rootPositionId])
+
+  const place = useCallback(async (userId: string, target: SlotDropTarget) => {
+    setPlacing(userId)
+    setError(null)
+    setNotice(null)
+    try {
+      const res = await fetch("/api/network/holding-tank", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, parentPositionId: target.parentPositionId, slot: target.slot }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error((data?.error && ERROR_MESSAGES[data.error]) || "Could not place this member.")
+
+      setNotice(`Placed at ${data.positionId}.`)
+      await loadHeld()
+      onPlaced?.()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not place this member.")
+    } finally {
+      setPlacing(null)
+    }
+  }, [loadHeld, onPlaced])
+
+  if (held.length === 0 && !notice) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5 text-primary" />
+          Holding Tank
+        </CardTitle>
+        <CardDescription>
+          New members waiting for you to place them. Drag one onto an open slot in your structure; anyone you
+          don&apos;t place is placed automatically when their time runs out.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {held.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {held.map((m) => (
+              <div
+                key={m.userId}
+                draggable={!placing}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(HELD_MEMBER_MIME, m.userId)
+                  e.dataTransfer.effectAllowed = "move"
+                }}
+                className="flex items-center gap-2 rounded-lg border border-border bg-surface-1 px-3 py-2 cursor-grab active:cursor-grabbing"
+              >
+                {placing === m.userId
+                  ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  : <GripVertical className="h-4 w-4 text-muted-foreground" />}
+                <div>
+                  <p className="text-sm font-medium">{m.name || m.email || "Member"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {daysLeft(m.expiresAt) === 0 ? "Placing soon" : `${daysLeft(m.expiresAt)}d left`}
+                  </p>
+                </div>
+                <Badge variant={m.isActive ? "default" : "secondary"} className="text-xs">
+                  {m.isActive ? "Active" : "Inactive"}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Everyone has been placed.</p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <CircleSlash className="h-4 w-4" /> {error}
+          </div>
+        )}
+        {notice && (
+          <div className="flex items-center gap-2 text-sm text-emerald-600 dark:text-emerald-400">
+            <CheckCircle2 className="h-4 w-4" /> {notice}
+          </div>
+        )}
+
+        {held.length > 0 && (
+          <div className="h-[500px] rounded-xl border border-border overflow-hidden">
+            <TeamTreeVisualization
+              members={treeMembers}
+              onMemberClick={() => {}}
+              rootPositionId={rootPositionId}
+              onDropHeldMember={place}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { GitFork, MapPin, CircleSlash, CheckCircle2, Loader2 } from "lucide-react"
+import type { PlacementSlot, PlacementStrategy } from "@/lib/network-placement"
+
+type Choice = PlacementStrategy | "default"
+
+interface PlacementMember {
+  id: string
+  name: string
+}
+
+interface PlacementSettingsProps {
+  // Member picked in the team explorer with "Place new members here"
+  pickedMember: PlacementMember | null
+}
+
+const CHOICES: { value: Choice; label: string; description: string }[] = [
+  { value: "default", label: "Automatic", description: "The standard placement rule under you." },
+  { value: "balanced", label: "Balanced", description: "First open slot below you, filling each level left to right." },
+  { value: "extreme_left", label: "Extreme left", description: "The bottom of your leftmost leg." },
+  { value: "extreme_right", label: "Extreme right", description: "The bottom of your rightmost leg." },
+  { value: "under_member", label: "Under a member", description: "First open slot below a member you pick in the explorer." },
+]
+
+const ERROR_MESSAGES: Record<string, string> = {
+  REFERRER_NOT_PLACED: "You need a network position before you can choose a placement.",
+  TARGET_NOT_IN_SUBTREE: "That member is not in your downline.",
+  NO_SLOT: "No open slot was found for this choice.",
+}
+
+function errorMessage(code: string | undefined): string {
+  return (code && ERROR_MESSAGES[code]) || "Could not preview this placement."
+}
+
+export function PlacementSettings({ pickedMember }: PlacementSettingsProps) {
+  const [saved, setSaved] = useState<{ choice: Choice; targetUserId: string | null }>({ choice: "default", targetUserId: null })
+  const [choice, setChoice] = useState<Choice>("default")
+  const [target, setTarget] = useState<PlacementMember | null>(null)
+  const [slot, setSlot] = useState<PlacementSlot | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadPreview = useCallback(async (next: Choice, targetUserId: string | null, initial = false) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (next !== "default") params.set("strategy", next)
+      if (next === "under_member" && targetUserId) params.set("targetUserId", targetUserId)
+
+      const res = await fetch(`/api/network/placement?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || "Failed to load")
+
+      // First load previews the saved preference
+      if (initial && data.preference) {
+        const savedChoice = data.preference.strategy as PlacementStrategy
+        setSaved({ choice: savedChoice, targetUserId: data.preference.targetUserId })
+        setChoice(savedChoice)
+        if (data.preview?.target) setTarget({ id: data.preview.target.id, name: data.preview.target.name || "Member" })
+      }
+
+      if (data.preview && !data.preview.success) {
+        setError(errorMessage(data.preview.errorCode))
+        setSlot(null)
+      } else {
+        setSlot(data.preview?.slot ?? null)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load")
+      setSlot(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPreview("default", null, true)
+  }, [loadPreview])
+
+  // Picking a member in the explorer switches to "under a member"
+  useEffect(() => {
+    if (!pickedMember) return
+    setTarget(pickedMember)
+    setChoice("under_member")
+    setNotice(null)
+    loadPreview("under_member", pickedMember.id)
+  }, [pickedMember, loadPreview])
+
+  const changeChoice = (value: string) => {
+    const next = value as Choice
+    setChoice(next)
+    setNotice(null)
+    if (next === "under_member" && !target) {
+      setSlot(null)
+      setError(null)
+      return
+    }
+    loadPreview(next, target?.id ?? null)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const res = await fetch("/api/network/placement", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          strategy: choice === "default" ? null : choice,
+          targetUserId: choice === "under_member" ? target?.id : null,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(errorMessage(data?.error))
+
+      setSaved({ choice, targetUserId: choice === "under_member" ? target?.id ?? null : null })
+      setSlot(data.slot ?? null)
+      setNotice("Placement preference saved.")
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const current = CHOICES.find((c) => c.value === choice) ?? CHOICES[0]
+  const unchanged =
+    choice === saved.choice && (choice !== "under_member" || target?.id === saved.targetUserId)
+  const needsTarget = choice === "under_member" && !target
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitFork className="h-5 w-5 text-primary" />
+          New Member Placement
+        </CardTitle>
+        <CardDescription>
+          Choose where people you refer are placed in your structure. The preview shows the exact position the next one gets.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Select value={choice} onValueChange={changeChoice}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHOICES.map((c) => (
+                  <SelectItem key={c.value} value={c.value}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{current.description}</p>
+            {choice === "under_member" && (
+              <p className="text-xs text-muted-foreground">
+                {target
+                  ? <>Placing under <span className="font-medium text-foreground">{target.name}</span></>
+                  : "Open a member in the explorer above and choose \"Place new members here\"."}
+              </p>
+            )}
+          </div>
+
+          <div className="rounded-xl border border-border bg-surface-1 p-4">
+            <div className="flex items-center gap-2 text-xs uppercase tracking-wide text-muted-foreground">
+              <MapPin className="h-3.5 w-3.5" /> Next position
+            </div>
+            {loading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground mt-2">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+              </div>
+            ) : error ? (
+              <div className="flex items-center gap-2 text-sm text-destructive mt-2">
+                <CircleSlash className="h-4 w-4" /> {error}
+              </div>
+            ) : slot ? (
+              <>
+                <p className="mt-2 font-mono text-lg font-semibold text-foreground">{slot.positionId}</p>
+                <p className="text-xs text-muted-foreground">
+                  Slot #{slot.slot} below {slot.parentPositionId}
+                </p>
+              </>
+            ) : (
+              <p className="mt-2 text-sm text-muted-foreground">
+                {needsTarget ? "Pick a member to see the position." : "Chosen automatically when they join."}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button onClick={save} disabled={saving || unchanged || needsTarget}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save preference
+          </Button>
+          {notice && (
+            <span className="flex items-center gap-1.5 text-sm text-emerald-600 dark:text-emerald-400">
+              <CheckCircle2 className="h-4 w-4" /> {notice}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -14,6 +14,7 @@ import {
   CircleSlash,
   CornerDownRight,
   Loader2,
+  GitFork,
 } from "lucide-react"
 
 interface TreeChild {
@@ -44,6 +45,8 @@ interface Crumb {
 
 interface TeamExplorerProps {
   rootUserId: string
+  // Offered on downline members: send the referrer's new members below them
+  onPlaceUnder?: (member: Crumb) => void
 }
 
 function initials(name: string | null): string {
@@ -52,7 +55,7 @@ function initials(name: string | null): string {
   return (parts[0]?.[0] ?? "") + (parts.length > 1 ? parts[parts.length - 1][0] : "")
 }
 
-export function TeamExplorer({ rootUserId }: TeamExplorerProps) {
+export function TeamExplorer({ rootUserId, onPlaceUnder }: TeamExplorerProps) {
   const [path, setPath] = useState<Crumb[]>([{ id: rootUserId, name: "You" }])
   const [focus, setFocus] = useState<FocusNode | null>(null)
   const [slots, setSlots] = useState<TreeChild[]>([])
@@ -221,6 +224,16 @@ export function TeamExplorer({ rootUserId }: TeamExplorerProps) {
                           {focus.network_position_id}
                         </p>
                       )}
+
+                      {onPlaceUnder && !isRoot && focus?.network_position_id && (
+                        <button
+                          type="button"
+                          onClick={() => onPlaceUnder({ id: focus.id, name: focusName })}
+                          className="mt-3 w-full flex items-center justify-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg border border-border bg-surface-1 text-muted-foreground hover:text-primary hover:border-primary/40 transition-colors"
+                        >
+                          <GitFork className="h-3.5 w-3.5" /> Place new members here
+                        </button>
+                      )}
                     </>
                   )}
                 </div>
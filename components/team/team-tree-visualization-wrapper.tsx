@@ -2,6 +2,16 @@
 
 import dynamic from 'next/dynamic'
 
+// dataTransfer type for a holding-tank member dragged onto an open slot.
+// Kept here so callers don't pull reactflow in just for the constant.
+export const HELD_MEMBER_MIME = 'application/x-held-member'
+
+export interface SlotDropTarget {
+  positionId: string
+  parentPositionId: string
+  slot: 1 | 2 | 3
+}
+
 const TeamTreeVisualization = dynamic(
   () => import('./team-tree-visualization'),
   { 
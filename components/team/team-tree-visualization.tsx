@@ -1,6 +1,6 @@
 "use client"
 
-import { useCallback, useEffect } from "react"
+import { useCallback, useEffect, useState } from "react"
 import ReactFlow, {
   Node,
   Edge,
@@ -17,7 +17,14 @@ import ReactFlow, {
 } from "reactflow"
 import "reactflow/dist/style.css"
 import { Badge } from "@/components/ui/badge"
-import { Crown, Sparkles, User } from "lucide-react"
+import { Crown, Sparkles, User, UserPlus } from "lucide-react"
+import {
+  formatNetworkPositionId,
+  getChildSlotNumber,
+  getParentPosition,
+  parseNetworkPositionId
+} from "@/lib/network-positions"
+import { HELD_MEMBER_MIME, type SlotDropTarget } from "./team-tree-visualization-wrapper"
 
 interface TeamMember {
   id: string
@@ -38,6 +45,10 @@ interface TeamTreeVisualizationProps {
   onMemberClick: (member: TeamMember) => void
   showOnlyMembers?: boolean
   structureNum?: number
+  // Viewer's own position; needed to turn open slots into drop targets
+  rootPositionId?: string
+  // Holding tank: a waiting member was dropped on an open slot
+  onDropHeldMember?: (userId: string, target: SlotDropTarget) => void
 }
 
 interface NodeData {
@@ -173,11 +184,16 @@ function TeamMemberNode({ data }: { data: NodeData }) {
 
 interface EmptyNodeData {
   level: number
+  // Set when the slot can take a holding-tank member (its parent is filled)
+  dropTarget?: SlotDropTarget
+  onDropHeldMember?: (userId: string, target: SlotDropTarget) => void
 }
 
 // Custom node component for empty positions
 function EmptyPositionNode({ data }: { data: EmptyNodeData }) {
   const level = data.level
+  const [dragOver, setDragOver] = useState(false)
+  const droppable = !!data.dropTarget && !!data.onDropHeldMember
   
   // Match the sizing of TeamMemberNode
   const getSizeClasses = () => {
@@ -224,12 +240,36 @@ function EmptyPositionNode({ data }: { data: EmptyNodeData }) {
   const sizes = getSizeClasses()
   
   return (
-    <div className={`bg-muted/10 border-2 border-dashed border-muted-foreground/20 rounded-lg ${sizes.container} flex items-center justify-center`}>
+    <div
+      className={`border-2 border-dashed rounded-lg ${sizes.container} flex items-center justify-center transition-colors ${
+        dragOver
+          ? "bg-primary/10 border-primary"
+          : droppable
+            ? "bg-primary/[0.03] border-primary/30"
+            : "bg-muted/10 border-muted-foreground/20"
+      }`}
+      onDragOver={(e) => {
+        if (!droppable || !e.dataTransfer.types.includes(HELD_MEMBER_MIME)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = "move"
+        setDragOver(true)
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        setDragOver(false)
+        const userId = e.dataTransfer.getData(HELD_MEMBER_MIME)
+        if (!droppable || !userId) return
+        e.preventDefault()
+        data.onDropHeldMember?.(userId, data.dropTarget as SlotDropTarget)
+      }}
+    >
       <Handle type="target" position={Position.Top} className="w-2 h-2 opacity-0" />
       
       <div className="text-center">
-        <User className={`text-muted-foreground/30 mx-auto ${sizes.icon}`} />
-        {level <= 3 && <p className={`text-muted-foreground/50 mt-1 ${sizes.text}`}>Empty</p>}
+        {droppable
+          ? <UserPlus className={`text-primary/50 mx-auto ${sizes.icon}`} />
+          : <User className={`text-muted-foreground/30 mx-auto ${sizes.icon}`} />}
+        {level <= 3 && <p className={`text-muted-foreground/50 mt-1 ${sizes.text}`}>{droppable ? "Open" : "Empty"}</p>}
         <p className={`text-muted-foreground/50 ${sizes.text}`}>
           Level {level}
         </p>
@@ -245,7 +285,13 @@ const nodeTypes: NodeTypes = {
   emptyPosition: EmptyPositionNode,
 }
 
-function TeamTreeVisualizationInner({ members, onMemberClick, showOnlyMembers = false }: TeamTreeVisualizationProps) {
+function TeamTreeVisualizationInner({
+  members,
+  onMemberClick,
+  showOnlyMembers = false,
+  rootPositionId,
+  onDropHeldMember
+}: TeamTreeVisualizationProps) {
   const [nodes, setNodes, onNodesChange] = useNodesState([])
   const [edges, setEdges, onEdgesChange] = useEdgesState([])
 
@@ -274,6 +320,23 @@ function TeamTreeVisualizationInner({ members, onMemberClick, showOnlyMembers =
     if (!showOnlyMembers) {
       // Show full 3-wide, 6-deep structure
       const maxPerLevel = [3, 9, 27, 81, 243, 729]
+      const root = rootPositionId ? parseNetworkPositionId(rootPositionId) : null
+
+      // Absolute slot for an open relative position, if a member can go there
+      const dropTargetFor = (level: number, position: number): SlotDropTarget | undefined => {
+        if (!root || !onDropHeldMember) return undefined
+        const parentFilled = level === 1 ||
+          members.some(m => m.level === level - 1 && m.position === Math.floor(position / 3) + 1)
+        if (!parentFilled) return undefined
+
+        const absLevel = root.level + level
+        const absPosition = (root.position - 1) * maxPerLevel[level - 1] + position + 1
+        return {
+          positionId: formatNetworkPositionId(absLevel, absPosition),
+          parentPositionId: formatNetworkPositionId(absLevel - 1, getParentPosition(absPosition)),
+          slot: getChildSlotNumber(absPosition)
+        }
+      }
       
       // Create nodes for each position in the structure
       const positionToNodeId: Record<string, string> = {}
@@ -315,7 +378,9 @@ function TeamTreeVisualizationInner({ members, onMemberClick, showOnlyMembers =
                 y: levelY 
               },
               data: { 
-                level
+                level,
+                dropTarget: dropTargetFor(level, position),
+                onDropHeldMember
               }
             })
           }
@@ -403,7 +468,7 @@ function TeamTreeVisualizationInner({ members, onMemberClick, showOnlyMembers =
     }
     
     return { nodes: newNodes, edges: newEdges }
-  }, [members, onMemberClick, showOnlyMembers])
+  }, [members, onMemberClick, showOnlyMembers, rootPositionId, onDropHeldMember])
 
   useEffect(() => {
     const { nodes: newNodes, edges: newEdges } = buildTree()
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeSupabase } from '@/test/fake-supabase'
+import { getDownlineDepth, getDownlineIds, isInDownline } from '../network-closure'
+
+let db: FakeSupabase
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceRoleClient: () => db
+}))
+
+describe('getDownlineIds', () => {
+  beforeEach(() => {
+    db = new FakeSupabase()
+  })
+
+  it('reads a downline larger than one page', async () => {
+    for (let i = 0; i < 2500; i++) {
+      db.rows('network_closure').push({ ancestor_id: 'root', descendant_id: `member-${i}`, depth: 1 + (i % 7) })
+    }
+    db.rows('network_closure').push({ ancestor_id: 'other', descendant_id: 'elsewhere', depth: 1 })
+
+    const ids = await getDownlineIds('root')
+
+    expect(ids).toHaveLength(2500)
+    expect(new Set(ids).size).toBe(2500)
+    expect(ids).not.toContain('elsewhere')
+  })
+
+  it('limits the depth on every page', async () => {
+    for (let i = 0; i < 2500; i++) {
+      db.rows('network_closure').push({ ancestor_id: 'root', descendant_id: `member-${i}`, depth: 1 + (i % 5) })
+    }
+
+    expect(await getDownlineIds('root', 2)).toHaveLength(1000)
+  })
+
+  it('reports how far below an ancestor a member sits', async () => {
+    db.rows('network_closure').push({ ancestor_id: 'root', descendant_id: 'member', depth: 3 })
+
+    expect(await getDownlineDepth('root', 'member')).toBe(3)
+    expect(await getDownlineDepth('member', 'root')).toBeNull()
+    expect(await isInDownline('root', 'member')).toBe(true)
+    expect(await isInDownline('member', 'root')).toBe(false)
+  })
+})
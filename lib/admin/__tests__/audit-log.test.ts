@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase } from "@/test/fake-supabase"
+import { listAllAdminAuditLog, validateAdminAuditFilters } from "../audit-log"
+
+let db: FakeSupabase
+
+vi.mock("@/lib/supabase/server", () => ({
+  createServiceRoleClient: () => db,
+}))
+
+function seedEntries(count: number) {
+  const start = Date.parse("2026-01-01T00:00:00Z")
+  for (let i = 0; i < count; i++) {
+    db.rows("admin_audit_log").push({
+      id: `entry-${String(i).padStart(5, "0")}`,
+      actor_id: "admin-1",
+      action: i % 2 === 0 ? "user.toggle_active" : "payout.approve",
+      target_user_id: null,
+      created_at: new Date(start + i * 60_000).toISOString(),
+    })
+  }
+}
+
+describe("validateAdminAuditFilters", () => {
+  it("accepts dates and datetimes", () => {
+    expect(validateAdminAuditFilters({ from: "2026-01-01", to: "2026-01-31T12:00:00Z" })).toBeNull()
+    expect(validateAdminAuditFilters({})).toBeNull()
+  })
+
+  it("rejects malformed and reversed dates", () => {
+    expect(validateAdminAuditFilters({ from: "yesterday" })).toMatch(/Invalid "from" date/)
+    expect(validateAdminAuditFilters({ to: "2026-13-45" })).toMatch(/Invalid "to" date/)
+    expect(validateAdminAuditFilters({ from: "2026-02-01", to: "2026-01-01" })).toMatch(/must not be after/)
+  })
+})
+
+describe("listAllAdminAuditLog", () => {
+  beforeEach(() => {
+    db = new FakeSupabase()
+  })
+
+  it("reads past the per-request row cap", async () => {
+    seedEntries(2500)
+
+    const entries = await listAllAdminAuditLog({})
+
+    expect(entries).toHaveLength(2500)
+    expect(new Set(entries.map((e) => e.id)).size).toBe(2500)
+    expect(entries[0].id).toBe("entry-02499")
+  })
+
+  it("applies the filters to every page", async () => {
+    seedEntries(2500)
+
+    const entries = await listAllAdminAuditLog({ action: "payout.approve" })
+
+    expect(entries).toHaveLength(1250)
+    expect(entries.every((e) => e.action === "payout.approve")).toBe(true)
+  })
+
+  it("throws on a malformed date instead of querying", async () => {
+    await expect(listAllAdminAuditLog({ from: "not-a-date" })).rejects.toThrow('Invalid "from" date')
+  })
+})
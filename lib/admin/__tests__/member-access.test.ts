@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { FakeSupabase } from "@/test/fake-supabase"
+import { formatNetworkPositionId, getUplineChain } from "@/lib/network-positions"
+import { GET as getStats } from "@/app/api/network/stats/route"
+import { GET as getTreeChildren } from "@/app/api/network/tree-children/route"
+import { GET as getUpline } from "@/app/api/network/upline/route"
+import { GET as getMemberPayments } from "@/app/api/team/member-payments/route"
+
+let db: FakeSupabase
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: async () => db,
+  createServiceRoleClient: () => db,
+}))
+
+// root
+// ├── alice            (the caller in most tests)
+// │   └── alice1
+// │       └── alice11
+// └── bob              (a sibling team)
+//     └── bob1
+const TREE: Array<[id: string, level: number, position: number, sponsor: string | null]> = [
+  ["root", 0, 1, null],
+  ["alice", 1, 1, "root"],
+  ["bob", 1, 2, "root"],
+  ["alice1", 2, 1, "alice"],
+  ["bob1", 2, 4, "bob"],
+  ["alice11", 3, 1, "alice1"],
+]
+
+function seed() {
+  db = new FakeSupabase()
+
+  for (const [id, level, position, sponsor] of TREE) {
+    db.rows("users").push({
+      id,
+      name: id,
+      email: `${id}@example.com`,
+      role: "user",
+      permissions: [],
+      network_position_id: formatNetworkPositionId(level, position),
+      network_level: level,
+      network_position: position,
+      referred_by: sponsor,
+      is_active: true,
+      sniper_volume_current_month: 0,
+      sniper_volume_previous_month: 0,
+      active_network_count: 0,
+      total_network_count: 0,
+      bypass_direct_referrals: 0,
+    })
+  }
+  db.rows("users").push({ id: "admin", name: "admin", email: "admin@example.com", role: "admin", permissions: [] })
+
+  // network_closure as the trigger would build it
+  const byPosition = new Map(db.rows("users").map((u) => [u.network_position_id, u.id]))
+  for (const [id, level, position] of TREE) {
+    getUplineChain(formatNetworkPositionId(level, position)).slice(1).forEach((ancestorPosition, index) => {
+      db.rows("network_closure").push({ ancestor_id: byPosition.get(ancestorPosition), descendant_id: id, depth: index + 1 })
+    })
+  }
+
+  db.rows("payments").push({ id: "pay-bob1", user_id: "bob1", amount: 199, payment_type: "monthly", status: "succeeded", created_at: new Date().toISOString() })
+
+  db.rows("compensation_plans").push({
+    id: "plan-1",
+    version: 1,
+    name: "Original sniper plan",
+    effective_month: "2024-01-01",
+    structure_size: 1092,
+    max_structures: 7,
+    contribution_amount: 199,
+    rate_tiers: [{ structure: 1, rate: 0.1 }],
+    direct_referrals_per_structure: 3,
+    max_commissionable_volume: null,
+    max_monthly_commission: null,
+    notes: null,
+    created_at: "2024-01-01T00:00:00Z",
+  })
+}
+
+function signIn(userId: string) {
+  db.user = { id: userId }
+}
+
+const request = (path: string) => new Request(`http://localhost${path}`)
+
+const ROUTES = {
+  stats: (userId: string) => getStats(request(`/api/network/stats?userId=${userId}`)),
+  "tree-children": (userId: string) => getTreeChildren(request(`/api/network/tree-children?userId=${userId}`)),
+  upline: (userId: string) => getUpline(request(`/api/network/upline?userId=${userId}`)),
+  "member-payments": (userId: string) => getMemberPayments(request(`/api/team/member-payments?userId=${userId}`)),
+}
+
+describe.each(Object.entries(ROUTES))("GET /%s member access", (_name, call) => {
+  beforeEach(() => {
+    seed()
+  })
+
+  it("serves the caller's own data", async () => {
+    signIn("alice")
+    expect((await call("alice")).status).toBe(200)
+  })
+
+  it("serves a member of the caller's downline", async () => {
+    signIn("alice")
+    expect((await call("alice1")).status).toBe(200)
+    expect((await call("alice11")).status).toBe(200)
+  })
+
+  it("refuses a sibling team's member", async () => {
+    signIn("alice")
+    for (const memberId of ["bob", "bob1"]) {
+      const response = await call(memberId)
+      expect(response.status).toBe(403)
+      expect(await response.json()).toEqual({ error: "User is not in your downline" })
+    }
+  })
+
+  it("refuses the caller's own upline", async () => {
+    signIn("alice")
+    expect((await call("root")).status).toBe(403)
+  })
+
+  it("refuses an unknown member the same way as a sibling", async () => {
+    signIn("alice")
+    expect((await call("no-such-user")).status).toBe(403)
+  })
+
+  it("serves anyone to an admin with manage_network", async () => {
+    signIn("admin")
+    expect((await call("bob1")).status).toBe(200)
+    expect((await call("alice")).status).toBe(200)
+  })
+
+  it("requires a signed-in caller", async () => {
+    expect((await call("alice")).status).toBe(401)
+  })
+})
+
+describe("GET /api/network/upline", () => {
+  beforeEach(() => {
+    seed()
+  })
+
+  const uplineIds = async (userId: string) =>
+    ((await (await ROUTES.upline(userId)).json()).upline as Array<{ userId: string }>).map((m) => m.userId)
+
+  it("stops a downline member's upline at the caller", async () => {
+    signIn("alice")
+    expect(await uplineIds("alice11")).toEqual(["alice1", "alice"])
+    expect(await uplineIds("alice1")).toEqual(["alice"])
+  })
+
+  it("gives the caller their own full upline", async () => {
+    signIn("alice")
+    expect(await uplineIds("alice")).toEqual(["root"])
+  })
+
+  it("gives an admin the full upline", async () => {
+    signIn("admin")
+    expect(await uplineIds("alice11")).toEqual(["alice1", "alice", "root"])
+  })
+
+  it("reports the member's own level as depth and leaves out contact details", async () => {
+    signIn("alice")
+    const body = await (await ROUTES.upline("alice11")).json()
+
+    expect(body.depth).toBe(3)
+    expect(body.count).toBe(2)
+    expect(body.upline[0]).toEqual({
+      userId: "alice1",
+      name: "alice1",
+      networkPositionId: formatNetworkPositionId(2, 1),
+      level: 2,
+      position: 1,
+      depth: 1,
+      isActive: true,
+    })
+  })
+})
+
+describe("GET /api/team/member-payments with memberId", () => {
+  beforeEach(() => {
+    seed()
+  })
+
+  const call = (userId: string, memberId: string) =>
+    getMemberPayments(request(`/api/team/member-payments?userId=${userId}&memberId=${memberId}`))
+
+  it("serves a member of the caller's downline", async () => {
+    signIn("alice")
+    expect((await call("alice", "alice11")).status).toBe(200)
+  })
+
+  it("refuses a sibling team's member under the caller's own id", async () => {
+    signIn("alice")
+    const response = await call("alice", "bob1")
+    expect(response.status).toBe(403)
+    expect(JSON.stringify(await response.json())).not.toContain("pay-bob1")
+  })
+
+  it("lists only the caller's downline in the team summary", async () => {
+    signIn("alice")
+    const body = await (await ROUTES["member-payments"]("alice")).json()
+    expect(body.members.map((m: { id: string }) => m.id).sort()).toEqual(["alice1", "alice11"])
+    expect(body.recentPayments).toEqual([])
+  })
+})
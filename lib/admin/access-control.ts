@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { hasPrivilege, roleRank, type AdminRole, type PrivilegeKey } from "@/lib/admin/permissions"
+import { isAncestor } from "@/lib/network-positions"
 
 export interface AdminContext {
   userId: string
@@ -12,6 +13,17 @@ type RequireResult =
   | { ok: true; ctx: AdminContext }
   | { ok: false; response: NextResponse }
 
+export interface MemberAccessContext {
+  userId: string
+  memberId: string
+  // How the caller reached the member's data
+  relation: "self" | "downline" | "admin"
+}
+
+type MemberAccessResult =
+  | { ok: true; ctx: MemberAccessContext }
+  | { ok: false; response: NextResponse }
+
 /**
  * Server-side guard for admin API routes. Returns the caller's admin context when
  * they hold `privilege` (via role floor OR explicit grant), otherwise a 401/403
@@ -76,3 +88,51 @@ export async function requireAdminAccess(minRole: AdminRole, privilege: Privileg
 
   return { ok: true, ctx: { userId: user.id, role, permissions } }
 }
+
+/**
+ * Server-side guard for member data routes that take a caller-supplied user id
+ * (`?userId=`). Grants access when the member is the caller, sits below the
+ * caller in the tree, or the caller holds `manage_network`. Anything else is a
+ * 403 — whether or not the member exists — so ids can't be probed by editing
+ * the query string.
+ *
+ * Usage:
+ *   const access = await requireMemberAccess(userId)
+ *   if (!access.ok) return access.response
+ */
+export async function requireMemberAccess(memberId: string): Promise<MemberAccessResult> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { ok: false, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  if (memberId === user.id) {
+    return { ok: true, ctx: { userId: user.id, memberId, relation: "self" } }
+  }
+
+  const { data: caller } = await supabase
+    .from("users")
+    .select("role, permissions, network_position_id")
+    .eq("id", user.id)
+    .single()
+
+  if (hasPrivilege(caller?.role ?? null, (caller?.permissions ?? []) as string[], "manage_network")) {
+    return { ok: true, ctx: { userId: user.id, memberId, relation: "admin" } }
+  }
+
+  if (caller?.network_position_id) {
+    const { data: member } = await supabase
+      .from("users")
+      .select("network_position_id")
+      .eq("id", memberId)
+      .single()
+
+    if (member?.network_position_id && isAncestor(caller.network_position_id, member.network_position_id)) {
+      return { ok: true, ctx: { userId: user.id, memberId, relation: "downline" } }
+    }
+  }
+
+  return { ok: false, response: NextResponse.json({ error: "User is not in your downline" }, { status: 403 }) }
+}
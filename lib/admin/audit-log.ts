@@ -0,0 +1,320 @@
+import { createServiceRoleClient } from "@/lib/supabase/server"
+
+// ─── Admin audit trail ───────────────────────────────────────────────────────
+//
+// Every /api/admin/* mutation records who did what to whom in admin_audit_log:
+// the acting admin, the member affected, the columns that changed (before →
+// after), the admin's stated reason, and the request's IP and user agent.
+// Actions are named "<area>.<verb>", e.g. "user.toggle_active".
+//
+// Recording never throws — a failed audit write is logged and the admin's
+// change stands, the same as the crypto_audit_log writes elsewhere.
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+export interface AdminActionInput {
+  actorId: string
+  action: string
+  targetUserId?: string | null
+  // The record changed, when it isn't (only) the target user's row
+  entityType?: string
+  entityId?: string | null
+  // Column values before and after the change; only differing keys are kept
+  before?: object | null
+  after?: object | null
+  reason?: string | null
+  details?: Record<string, unknown>
+}
+
+export interface AdminAuditEntry {
+  id: string
+  actor_id: string
+  action: string
+  target_user_id: string | null
+  entity_type: string | null
+  entity_id: string | null
+  changes: AuditChanges
+  reason: string | null
+  details: Record<string, unknown>
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  actor: { name: string | null; email: string | null } | null
+  target: { name: string | null; email: string | null } | null
+}
+
+export interface AdminAuditFilters {
+  // User id, or a fragment of an email or name
+  actor?: string | null
+  target?: string | null
+  action?: string | null
+  // ISO dates, inclusive
+  from?: string | null
+  to?: string | null
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Rows per read when exporting; the API caps a single read
+const EXPORT_PAGE_SIZE = 1000
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+// Columns whose value differs between two snapshots of a record. A missing
+// `before` is a creation (every column from null); a missing `after` a deletion.
+export function diffColumns(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const changes: AuditChanges = {}
+  const beforeRow = (before ?? {}) as Record<string, unknown>
+  const afterRow = (after ?? {}) as Record<string, unknown>
+  const keys = new Set([...Object.keys(beforeRow), ...Object.keys(afterRow)])
+
+  for (const key of keys) {
+    const from = beforeRow[key] ?? null
+    const to = afterRow[key] ?? null
+    if (!sameValue(from, to)) {
+      changes[key] = { from, to }
+    }
+  }
+
+  return changes
+}
+
+function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for")
+  if (forwarded) return forwarded.split(",")[0].trim()
+  return req.headers.get("x-real-ip")
+}
+
+/**
+ * Record an admin mutation in the audit trail. Call after the change succeeds.
+ */
+export async function recordAdminAction(req: Request, input: AdminActionInput): Promise<void> {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { error } = await supabase.from("admin_audit_log").insert({
+      actor_id: input.actorId,
+      action: input.action,
+      target_user_id: input.targetUserId ?? null,
+      entity_type: input.entityType ?? (input.targetUserId ? "user" : null),
+      entity_id: input.entityId ?? input.targetUserId ?? null,
+      changes: diffColumns(input.before, input.after),
+      reason: input.reason?.trim() || null,
+      details: input.details ?? {},
+      ip_address: clientIp(req),
+      user_agent: req.headers.get("user-agent"),
+    })
+
+    if (error) {
+      console.error(`[AdminAudit] Failed to record ${input.action}:`, error)
+    }
+  } catch (error) {
+    console.error(`[AdminAudit] Failed to record ${input.action}:`, error)
+  }
+}
+
+function parseFilterDate(value: string): Date | null {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Why the filters can't be applied, or null when they can
+ */
+export function validateAdminAuditFilters(filters: AdminAuditFilters): string | null {
+  const from = filters.from ? parseFilterDate(filters.from) : null
+  const to = filters.to ? parseFilterDate(filters.to) : null
+
+  if (filters.from && !from) return `Invalid "from" date: ${filters.from}`
+  if (filters.to && !to) return `Invalid "to" date: ${filters.to}`
+  if (from && to && from > to) return `"from" must not be after "to"`
+  return null
+}
+
+// User ids matching an id or an email/name fragment
+async function resolveUserIds(query: string): Promise<string[]> {
+  if (UUID_PATTERN.test(query)) return [query]
+
+  const supabase = createServiceRoleClient()
+  const pattern = `%${query.replace(/[%_,()]/g, "")}%`
+  const { data } = await supabase
+    .from("users")
+    .select("id")
+    .or(`email.ilike.${pattern},name.ilike.${pattern}`)
+    .limit(200)
+
+  return (data ?? []).map((row) => row.id as string)
+}
+
+/**
+ * Audit entries matching the filters, newest first, with actor and target
+ * names attached
+ */
+export async function listAdminAuditLog(
+  filters: AdminAuditFilters,
+  page: { limit: number; offset: number }
+): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+  const invalid = validateAdminAuditFilters(filters)
+  if (invalid) {
+    throw new Error(invalid)
+  }
+
+  const supabase = createServiceRoleClient()
+
+  let query = supabase
+    .from("admin_audit_log")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(page.offset, page.offset + page.limit - 1)
+
+  if (filters.actor?.trim()) {
+    const ids = await resolveUserIds(filters.actor.trim())
+    if (ids.length === 0) return { entries: [], total: 0 }
+    query = query.in("actor_id", ids)
+  }
+
+  if (filters.target?.trim()) {
+    const ids = await resolveUserIds(filters.target.trim())
+    if (ids.length === 0) return { entries: [], total: 0 }
+    query = query.in("target_user_id", ids)
+  }
+
+  if (filters.action) {
+    query = query.eq("action", filters.action)
+  }
+
+  if (filters.from) {
+    query = query.gte("created_at", parseFilterDate(filters.from)!.toISOString())
+  }
+
+  if (filters.to) {
+    // A bare date means through the end of that day
+    const to = parseFilterDate(filters.to)!
+    if (DATE_ONLY_PATTERN.test(filters.to)) to.setUTCDate(to.getUTCDate() + 1)
+    query = query.lt("created_at", to.toISOString())
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    throw new Error(`Failed to load admin audit log: ${error.message}`)
+  }
+
+  const rows = data ?? []
+  const userIds = [
+    ...new Set(rows.flatMap((row) => [row.actor_id, row.target_user_id]).filter(Boolean)),
+  ] as string[]
+
+  const users = new Map<string, { name: string | null; email: string | null }>()
+  if (userIds.length > 0) {
+    const { data: userRows } = await supabase
+      .from("users")
+      .select("id, name, email")
+      .in("id", userIds)
+
+    for (const user of userRows ?? []) {
+      users.set(user.id, { name: user.name, email: user.email })
+    }
+  }
+
+  const entries = rows.map((row) => ({
+    ...row,
+    actor: users.get(row.actor_id) ?? null,
+    target: row.target_user_id ? users.get(row.target_user_id) ?? null : null,
+  })) as AdminAuditEntry[]
+
+  return { entries, total: count ?? 0 }
+}
+
+/**
+ * Every audit entry matching the filters, newest first, read a page at a time
+ */
+export async function listAllAdminAuditLog(filters: AdminAuditFilters): Promise<AdminAuditEntry[]> {
+  const entries: AdminAuditEntry[] = []
+  const seen = new Set<string>()
+
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const page = await listAdminAuditLog(filters, { limit: EXPORT_PAGE_SIZE, offset })
+
+    // Entries recorded mid-export push older ones down a page; skip repeats
+    for (const entry of page.entries) {
+      if (seen.has(entry.id)) continue
+      seen.add(entry.id)
+      entries.push(entry)
+    }
+
+    if (page.entries.length < EXPORT_PAGE_SIZE) break
+  }
+
+  return entries
+}
+
+/**
+ * Every action name recorded so far
+ */
+export async function listAdminAuditActions(): Promise<string[]> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase.rpc("admin_audit_actions")
+
+  if (error) {
+    console.error("[AdminAudit] Failed to load action names:", error)
+    return []
+  }
+
+  return (data ?? []) as string[]
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  let text = typeof value === "string" ? value : JSON.stringify(value)
+  // Keep spreadsheets from evaluating user-supplied text as a formula
+  if (/^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Audit entries as CSV, one row per entry with changes and details as JSON
+ */
+export function adminAuditToCsv(entries: AdminAuditEntry[]): string {
+  const header = [
+    "created_at",
+    "action",
+    "actor_id",
+    "actor_email",
+    "target_user_id",
+    "target_email",
+    "entity_type",
+    "entity_id",
+    "changes",
+    "reason",
+    "details",
+    "ip_address",
+    "user_agent",
+  ]
+
+  const lines = entries.map((entry) =>
+    [
+      entry.created_at,
+      entry.action,
+      entry.actor_id,
+      entry.actor?.email,
+      entry.target_user_id,
+      entry.target?.email,
+      entry.entity_type,
+      entry.entity_id,
+      entry.changes,
+      entry.reason,
+      entry.details,
+      entry.ip_address,
+      entry.user_agent,
+    ]
+      .map(csvCell)
+      .join(",")
+  )
+
+  return [header.join(","), ...lines].join("\r\n")
+}
@@ -28,6 +28,7 @@ export type PrivilegeKey =
   | "view_flagged_reviews"
   | "manage_users"
   | "manage_privileges"
+  | "view_admin_audit"
 
 export interface AdminPrivilege {
   key: PrivilegeKey
@@ -80,6 +81,7 @@ export const ADMIN_PRIVILEGES: AdminPrivilege[] = [
   { key: "view_flagged_reviews", label: "Flagged Reviews", description: "Review and resolve flagged items", minRole: "superadmin+" },
   { key: "manage_users", label: "Manage Users", description: "Edit users: activation, bypasses, resets, positions", minRole: "superadmin" },
   { key: "manage_privileges", label: "Manage Privileges", description: "Grant admin privileges and edit user roles", minRole: "superadmin+" },
+  { key: "view_admin_audit", label: "View Admin Audit Trail", description: "See and export every change admins made", minRole: "superadmin+" },
 ]
 
 export const PRIVILEGE_KEYS: PrivilegeKey[] = ADMIN_PRIVILEGES.map((p) => p.key)
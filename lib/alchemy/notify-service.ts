@@ -2,8 +2,15 @@
  * Alchemy Notify Service
  * Manages webhook address registration with Alchemy
  * Adds user deposit addresses to the webhook for real-time monitoring
+ *
+ * Alchemy webhooks are per network, so each enabled payment chain has its own
+ * webhook (ALCHEMY_WEBHOOK_ID for Polygon, ALCHEMY_WEBHOOK_ID_<CHAIN> for the
+ * rest). Deposit addresses are the same on every chain and are registered on
+ * all of them.
  */
 
+import { ChainKey, DEFAULT_CHAIN, getChain, getEnabledChains } from '@/lib/chains/registry';
+
 const ALCHEMY_NOTIFY_API = 'https://dashboard.alchemyapi.io/api/update-webhook-addresses';
 
 interface AlchemyNotifyResponse {
@@ -22,14 +29,30 @@ function getAlchemyAuthToken(): string | null {
 }
 
 /**
- * Get Alchemy webhook ID from environment
+ * Get a chain's Alchemy webhook ID from environment
  */
-function getAlchemyWebhookId(): string | null {
-  return process.env.ALCHEMY_WEBHOOK_ID || null;
+function getAlchemyWebhookId(chain: ChainKey = DEFAULT_CHAIN): string | null {
+  return process.env[getChain(chain).alchemyWebhookIdEnv] || null;
 }
 
 /**
- * Check if Alchemy Notify is configured
+ * Webhooks for every enabled chain that has one configured
+ */
+function getAlchemyWebhooks(): Array<{ chain: ChainKey; webhookId: string }> {
+  const webhooks: Array<{ chain: ChainKey; webhookId: string }> = [];
+  for (const chain of getEnabledChains()) {
+    const webhookId = getAlchemyWebhookId(chain.key);
+    if (webhookId) {
+      webhooks.push({ chain: chain.key, webhookId });
+    } else if (chain.key !== DEFAULT_CHAIN) {
+      console.warn(`[AlchemyNotify] ${chain.alchemyWebhookIdEnv} not configured - ${chain.name} deposits rely on the monitor cron`);
+    }
+  }
+  return webhooks;
+}
+
+/**
+ * Check if Alchemy Notify is configured (Polygon webhook is the minimum)
  */
 export function isAlchemyNotifyConfigured(): boolean {
   return !!(getAlchemyAuthToken() && getAlchemyWebhookId());
@@ -51,18 +74,36 @@ export async function registerAddressWithAlchemy(
   maxAttempts: number = 3
 ): Promise<{ success: boolean; error?: string; attempts?: number }> {
   const authToken = getAlchemyAuthToken();
-  const webhookId = getAlchemyWebhookId();
 
   if (!authToken) {
     console.warn('[AlchemyNotify] No auth token configured (ALCHEMY_AUTH_TOKEN)');
     return { success: false, error: 'Alchemy auth token not configured' };
   }
 
-  if (!webhookId) {
+  if (!getAlchemyWebhookId()) {
     console.warn('[AlchemyNotify] No webhook ID configured (ALCHEMY_WEBHOOK_ID)');
     return { success: false, error: 'Alchemy webhook ID not configured' };
   }
 
+  // Register on every chain's webhook; report the first failure
+  let attempts = 0;
+  for (const { chain, webhookId } of getAlchemyWebhooks()) {
+    const result = await registerAddressOnWebhook(address, webhookId, authToken, maxAttempts);
+    attempts = Math.max(attempts, result.attempts || 0);
+    if (!result.success) {
+      return { success: false, error: `${chain}: ${result.error}`, attempts };
+    }
+  }
+
+  return { success: true, attempts };
+}
+
+async function registerAddressOnWebhook(
+  address: string,
+  webhookId: string,
+  authToken: string,
+  maxAttempts: number
+): Promise<{ success: boolean; error?: string; attempts?: number }> {
   let lastError = 'Unknown error';
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -127,9 +168,8 @@ export async function registerMultipleAddressesWithAlchemy(
   addresses: string[]
 ): Promise<{ success: boolean; registered: number; failed: number; error?: string }> {
   const authToken = getAlchemyAuthToken();
-  const webhookId = getAlchemyWebhookId();
 
-  if (!authToken || !webhookId) {
+  if (!authToken || !getAlchemyWebhookId()) {
     return {
       success: false,
       registered: 0,
@@ -142,8 +182,23 @@ export async function registerMultipleAddressesWithAlchemy(
     return { success: true, registered: 0, failed: 0 };
   }
 
+  for (const { chain, webhookId } of getAlchemyWebhooks()) {
+    const result = await registerAddressesOnWebhook(addresses, webhookId, authToken);
+    if (!result.success) {
+      return { ...result, error: `${chain}: ${result.error}` };
+    }
+  }
+
+  return { success: true, registered: addresses.length, failed: 0 };
+}
+
+async function registerAddressesOnWebhook(
+  addresses: string[],
+  webhookId: string,
+  authToken: string
+): Promise<{ success: boolean; registered: number; failed: number; error?: string }> {
   try {
-    console.log(`[AlchemyNotify] Bulk registering ${addresses.length} addresses`);
+    console.log(`[AlchemyNotify] Bulk registering ${addresses.length} addresses with webhook ${webhookId}`);
 
     // Alchemy accepts bulk addresses in a single request
     const response = await fetch(ALCHEMY_NOTIFY_API, {
@@ -189,17 +244,36 @@ export async function registerMultipleAddressesWithAlchemy(
  * Returns lowercase addresses. Used by the reconcile cron to diff against the
  * DB — registrations can be lost without any failure ever being logged (e.g.
  * the July 2026 CAPPED_CAPACITY episode dropped addresses silently).
+ * With several chain webhooks this is the intersection: an address missing
+ * from any one of them is reported as unregistered.
  */
 export async function getRegisteredWebhookAddresses(): Promise<
   { success: true; addresses: Set<string> } | { success: false; error: string }
 > {
   const authToken = getAlchemyAuthToken();
-  const webhookId = getAlchemyWebhookId();
 
-  if (!authToken || !webhookId) {
+  if (!authToken || !getAlchemyWebhookId()) {
     return { success: false, error: 'Alchemy not configured' };
   }
 
+  const perWebhook: Set<string>[] = [];
+  for (const { chain, webhookId } of getAlchemyWebhooks()) {
+    const result = await getWebhookAddresses(webhookId, authToken);
+    if (!result.success) {
+      return { success: false, error: `${chain}: ${result.error}` };
+    }
+    perWebhook.push(result.addresses);
+  }
+
+  const [first = new Set<string>(), ...rest] = perWebhook;
+  const addresses = new Set(Array.from(first).filter((a) => rest.every((set) => set.has(a))));
+  return { success: true, addresses };
+}
+
+async function getWebhookAddresses(
+  webhookId: string,
+  authToken: string
+): Promise<{ success: true; addresses: Set<string> } | { success: false; error: string }> {
   const addresses = new Set<string>();
   let after: string | null = null;
   // Page cap well above expected size (100 addresses/page) as a runaway guard.
@@ -244,12 +318,26 @@ export async function removeAddressFromAlchemy(
   address: string
 ): Promise<{ success: boolean; error?: string }> {
   const authToken = getAlchemyAuthToken();
-  const webhookId = getAlchemyWebhookId();
 
-  if (!authToken || !webhookId) {
+  if (!authToken || !getAlchemyWebhookId()) {
     return { success: false, error: 'Alchemy not configured' };
   }
 
+  for (const { chain, webhookId } of getAlchemyWebhooks()) {
+    const result = await removeAddressFromWebhook(address, webhookId, authToken);
+    if (!result.success) {
+      return { success: false, error: `${chain}: ${result.error}` };
+    }
+  }
+
+  return { success: true };
+}
+
+async function removeAddressFromWebhook(
+  address: string,
+  webhookId: string,
+  authToken: string
+): Promise<{ success: boolean; error?: string }> {
   try {
     const response = await fetch(ALCHEMY_NOTIFY_API, {
       method: 'PATCH',
@@ -1,16 +1,12 @@
 /**
  * Alchemy Webhook Service
  * Handles verification and parsing of Alchemy webhook notifications
- * for real-time USDC deposit detection on Polygon
+ * for real-time stablecoin deposit detection. Each enabled chain has its own
+ * Alchemy webhook; the payload's event.network says which chain it is.
  */
 
 import { createHmac } from 'crypto';
-import { ACCEPTED_USDC_CONTRACTS_MAINNET } from '../coinbase/wallet-types';
-
-// Set of accepted USDC contract addresses (lowercase for comparison)
-const ACCEPTED_USDC_SET = new Set(
-  ACCEPTED_USDC_CONTRACTS_MAINNET.map((addr) => addr.toLowerCase())
-);
+import { ChainConfig, ChainKey, TokenSymbol, findToken, getChainByAlchemyNetwork } from '@/lib/chains/registry';
 
 export interface AlchemyWebhookPayload {
   webhookId: string;
@@ -49,10 +45,14 @@ export interface AlchemyActivity {
   };
 }
 
-export interface ParsedUSDCTransfer {
+export interface ParsedTokenTransfer {
+  chain: ChainKey;
+  token: TokenSymbol;
+  tokenContract: string;
   from: string;
   to: string;
   amount: bigint;
+  // USD value (accepted tokens are stablecoins credited 1:1)
   amountUsdc: number;
   txHash: string;
   blockNumber: number;
@@ -90,34 +90,39 @@ export function verifyAlchemySignature(
 }
 
 /**
- * Parse USDC transfers from Alchemy webhook payload
- * Filters to only USDC transfers on the correct contract
+ * Parse accepted token transfers from Alchemy webhook payload
+ * Filters to transfers of a registry token on the payload's chain; payloads
+ * from a network we don't accept (or haven't enabled) yield nothing.
  */
-export function parseUSDCTransfers(payload: AlchemyWebhookPayload): ParsedUSDCTransfer[] {
-  const transfers: ParsedUSDCTransfer[] = [];
+export function parseTokenTransfers(payload: AlchemyWebhookPayload): ParsedTokenTransfer[] {
+  const transfers: ParsedTokenTransfer[] = [];
 
   if (payload.type !== 'ADDRESS_ACTIVITY' || !payload.event?.activity) {
     return transfers;
   }
 
+  const chain = getChainByAlchemyNetwork(payload.event.network);
+  if (!chain) {
+    console.warn(`[AlchemyWebhook] Ignoring payload from unaccepted network ${payload.event.network}`);
+    return transfers;
+  }
+
   for (const activity of payload.event.activity) {
-    // Only process ERC-20 transfers (Alchemy may send 'erc20' or 'token' depending on version)
-    if (activity.category !== 'erc20' && activity.category !== 'token') {
+    if (!isAcceptedTokenTransfer(activity, chain)) {
       continue;
     }
 
-    // Only process USDC transfers (check contract address against accepted list)
-    const contractAddress = activity.rawContract?.address?.toLowerCase();
-    if (!contractAddress || !ACCEPTED_USDC_SET.has(contractAddress)) {
-      continue;
-    }
+    const token = findToken(chain.key, activity.rawContract.address)!;
 
-    // Parse the transfer amount from raw value (USDC has 6 decimals)
+    // Parse the transfer amount from raw value using the token's decimals
     const rawValue = activity.rawContract?.rawValue || '0x0';
     const amount = BigInt(rawValue);
-    const amountUsdc = Number(amount) / 1_000_000;
+    const amountUsdc = Number(amount) / 10 ** token.decimals;
 
     transfers.push({
+      chain: chain.key,
+      token: token.symbol,
+      tokenContract: token.contract.toLowerCase(),
       from: activity.fromAddress.toLowerCase(),
       to: activity.toAddress.toLowerCase(),
       amount,
@@ -131,15 +136,16 @@ export function parseUSDCTransfers(payload: AlchemyWebhookPayload): ParsedUSDCTr
 }
 
 /**
- * Check if a transfer event matches our USDC contract
+ * Check if a transfer event is one of the chain's accepted tokens
  */
-export function isUSDCTransfer(activity: AlchemyActivity): boolean {
+export function isAcceptedTokenTransfer(activity: AlchemyActivity, chain: ChainConfig): boolean {
+  // Only ERC-20 transfers (Alchemy may send 'erc20' or 'token' depending on version)
   if (activity.category !== 'erc20' && activity.category !== 'token') {
     return false;
   }
 
-  const contractAddress = activity.rawContract?.address?.toLowerCase();
-  return !!contractAddress && ACCEPTED_USDC_SET.has(contractAddress);
+  const contractAddress = activity.rawContract?.address;
+  return !!contractAddress && !!findToken(chain.key, contractAddress);
 }
 
 /**
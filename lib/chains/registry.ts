@@ -0,0 +1,233 @@
+/**
+ * Chain / Token Registry
+ * Every (chain, token) pair we accept member payments in.
+ *
+ * Deposit addresses are HD-derived EOAs, so the same address (and the same
+ * derived key) is valid on every EVM chain here: a member has one deposit
+ * address and may fund it on any enabled chain. Each chain has its own RPC,
+ * Alchemy webhook and gas tank, because native gas is per chain.
+ *
+ * All accepted tokens are USD stablecoins with 6 decimals and are credited
+ * 1:1 as USD; amounts stay in the existing *_usdc columns.
+ *
+ * Polygon is always enabled. Other chains are opt-in via ENABLED_PAYMENT_CHAINS
+ * (comma-separated keys, e.g. "base,arbitrum") and only exist on mainnet.
+ */
+
+import { ethers } from 'ethers';
+import { POLYGON_CONFIG } from '@/lib/coinbase/wallet-types';
+
+export type ChainKey = 'polygon' | 'base' | 'arbitrum';
+export type TokenSymbol = 'USDC' | 'USDT';
+
+export const DEFAULT_CHAIN: ChainKey = 'polygon';
+
+export interface TokenConfig {
+  symbol: TokenSymbol;
+  // Display label, e.g. 'USDC.e' for bridged USDC
+  label: string;
+  contract: string;
+  decimals: number;
+}
+
+export interface ChainConfig {
+  key: ChainKey;
+  chainId: number;
+  name: string;
+  nativeSymbol: string;
+  rpcUrl: string;
+  blockExplorer: string;
+  // Network name Alchemy puts in webhook payloads (event.network)
+  alchemyNetwork: string;
+  alchemyWebhookIdEnv: string;
+  gasTankPrivateKeyEnv: string;
+  // Native token sent to a deposit address so it can pay for its sweep
+  gasFundingAmount: string;
+  // Native balance a deposit address needs before a sweep is attempted
+  minGasForSweep: number;
+  // Used when the RPC returns null EIP-1559 fee data
+  fallbackMaxFeeGwei: number;
+  fallbackPriorityFeeGwei: number;
+  // Highest max fee the stuck-tx cron bumps to on its own; above it admins are
+  // asked to step in (override with treasury setting stuck_tx_fee_cap_gwei_{key})
+  replacementFeeCapGwei: number;
+  tokens: TokenConfig[];
+}
+
+const isPolygonMainnet = (process.env.POLYGON_NETWORK || 'polygon') === 'polygon';
+
+const POLYGON: ChainConfig = isPolygonMainnet
+  ? {
+      key: 'polygon',
+      chainId: POLYGON_CONFIG.MAINNET.chainId,
+      name: 'Polygon',
+      nativeSymbol: 'POL',
+      rpcUrl: process.env.POLYGON_RPC_URL || POLYGON_CONFIG.MAINNET.rpcUrl,
+      blockExplorer: POLYGON_CONFIG.MAINNET.blockExplorer,
+      alchemyNetwork: 'MATIC_MAINNET',
+      alchemyWebhookIdEnv: 'ALCHEMY_WEBHOOK_ID',
+      gasTankPrivateKeyEnv: 'GAS_TANK_PRIVATE_KEY',
+      gasFundingAmount: '0.15',
+      minGasForSweep: 0.08,
+      // Polygon has been running 200+ gwei, so these are intentionally generous
+      fallbackMaxFeeGwei: 300,
+      fallbackPriorityFeeGwei: 50,
+      replacementFeeCapGwei: 1000,
+      tokens: [
+        { symbol: 'USDC', label: 'USDC', contract: POLYGON_CONFIG.MAINNET.usdcContract, decimals: 6 },
+        { symbol: 'USDC', label: 'USDC.e', contract: POLYGON_CONFIG.MAINNET.usdcBridgedContract, decimals: 6 },
+        { symbol: 'USDT', label: 'USDT', contract: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
+      ],
+    }
+  : {
+      key: 'polygon',
+      chainId: POLYGON_CONFIG.TESTNET.chainId,
+      name: 'Polygon Amoy',
+      nativeSymbol: 'POL',
+      rpcUrl: process.env.POLYGON_RPC_URL || POLYGON_CONFIG.TESTNET.rpcUrl,
+      blockExplorer: POLYGON_CONFIG.TESTNET.blockExplorer,
+      alchemyNetwork: 'MATIC_AMOY',
+      alchemyWebhookIdEnv: 'ALCHEMY_WEBHOOK_ID',
+      gasTankPrivateKeyEnv: 'GAS_TANK_PRIVATE_KEY',
+      gasFundingAmount: '0.15',
+      minGasForSweep: 0.08,
+      fallbackMaxFeeGwei: 300,
+      fallbackPriorityFeeGwei: 50,
+      replacementFeeCapGwei: 1000,
+      tokens: [
+        { symbol: 'USDC', label: 'USDC', contract: POLYGON_CONFIG.TESTNET.usdcContract, decimals: 6 },
+      ],
+    };
+
+const BASE: ChainConfig = {
+  key: 'base',
+  chainId: 8453,
+  name: 'Base',
+  nativeSymbol: 'ETH',
+  rpcUrl: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
+  blockExplorer: 'https://basescan.org',
+  alchemyNetwork: 'BASE_MAINNET',
+  alchemyWebhookIdEnv: 'ALCHEMY_WEBHOOK_ID_BASE',
+  gasTankPrivateKeyEnv: 'GAS_TANK_PRIVATE_KEY_BASE',
+  gasFundingAmount: '0.0003',
+  minGasForSweep: 0.0001,
+  fallbackMaxFeeGwei: 1,
+  fallbackPriorityFeeGwei: 0.01,
+  replacementFeeCapGwei: 5,
+  tokens: [
+    { symbol: 'USDC', label: 'USDC', contract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 },
+    { symbol: 'USDC', label: 'USDbC', contract: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', decimals: 6 },
+  ],
+};
+
+const ARBITRUM: ChainConfig = {
+  key: 'arbitrum',
+  chainId: 42161,
+  name: 'Arbitrum One',
+  nativeSymbol: 'ETH',
+  rpcUrl: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
+  blockExplorer: 'https://arbiscan.io',
+  alchemyNetwork: 'ARB_MAINNET',
+  alchemyWebhookIdEnv: 'ALCHEMY_WEBHOOK_ID_ARBITRUM',
+  gasTankPrivateKeyEnv: 'GAS_TANK_PRIVATE_KEY_ARBITRUM',
+  gasFundingAmount: '0.0003',
+  minGasForSweep: 0.0001,
+  fallbackMaxFeeGwei: 1,
+  fallbackPriorityFeeGwei: 0.01,
+  replacementFeeCapGwei: 5,
+  tokens: [
+    { symbol: 'USDC', label: 'USDC', contract: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 },
+    { symbol: 'USDC', label: 'USDC.e', contract: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', decimals: 6 },
+    { symbol: 'USDT', label: 'USDT', contract: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6 },
+  ],
+};
+
+export const CHAINS: Record<ChainKey, ChainConfig> = {
+  polygon: POLYGON,
+  base: BASE,
+  arbitrum: ARBITRUM,
+};
+
+export function isChainKey(value: unknown): value is ChainKey {
+  return typeof value === 'string' && value in CHAINS;
+}
+
+export function getChain(key: ChainKey = DEFAULT_CHAIN): ChainConfig {
+  return CHAINS[key];
+}
+
+/**
+ * Chains members may pay on. Polygon first, then ENABLED_PAYMENT_CHAINS in
+ * the order listed; unknown keys are ignored.
+ */
+export function getEnabledChains(): ChainConfig[] {
+  const enabled: ChainConfig[] = [POLYGON];
+  if (!isPolygonMainnet) return enabled;
+
+  for (const key of (process.env.ENABLED_PAYMENT_CHAINS || '').split(',').map((k) => k.trim())) {
+    if (isChainKey(key) && key !== 'polygon' && !enabled.some((c) => c.key === key)) {
+      enabled.push(CHAINS[key]);
+    }
+  }
+  return enabled;
+}
+
+export function isChainEnabled(key: ChainKey): boolean {
+  return getEnabledChains().some((c) => c.key === key);
+}
+
+/**
+ * Accepted token for a contract on a chain, or null if we don't accept it.
+ */
+export function findToken(chain: ChainKey, contract: string): TokenConfig | null {
+  const target = contract.toLowerCase();
+  return CHAINS[chain].tokens.find((t) => t.contract.toLowerCase() === target) || null;
+}
+
+/**
+ * Chain for an Alchemy webhook payload's event.network, if it is one we accept.
+ */
+export function getChainByAlchemyNetwork(network: string | undefined): ChainConfig | null {
+  if (!network) return null;
+  return getEnabledChains().find((c) => c.alchemyNetwork === network) || null;
+}
+
+const providers = new Map<ChainKey, ethers.JsonRpcProvider>();
+
+/**
+ * JSON RPC provider for a chain (one per process)
+ */
+export function getChainProvider(key: ChainKey = DEFAULT_CHAIN): ethers.JsonRpcProvider {
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(CHAINS[key].rpcUrl, CHAINS[key].chainId, { staticNetwork: true });
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Gas tank signer for a chain, or null if its key isn't configured.
+ */
+export function getGasTankPrivateKey(key: ChainKey = DEFAULT_CHAIN): string | null {
+  return process.env[CHAINS[key].gasTankPrivateKeyEnv] || null;
+}
+
+export function getExplorerTxUrl(key: ChainKey, txHash: string): string {
+  return `${CHAINS[key].blockExplorer}/tx/${txHash}`;
+}
+
+/**
+ * Public summary of what members can pay with (for the payment UI)
+ */
+export function getAcceptedPaymentOptions(): Array<{
+  chain: ChainKey;
+  name: string;
+  tokens: string[];
+}> {
+  return getEnabledChains().map((c) => ({
+    chain: c.key,
+    name: c.name,
+    tokens: Array.from(new Set(c.tokens.map((t) => t.symbol))),
+  }));
+}
@@ -5,6 +5,7 @@
 // =============================================
 
 import { CdpClient } from '@coinbase/cdp-sdk';
+import { ethers } from 'ethers';
 import {
   CoinbaseWalletConfig,
   CreateWalletParams,
@@ -20,9 +21,9 @@ import {
 import { polygonUSDCClient } from '../polygon/usdc-client';
 import {
   getPayoutWalletAddress as getPayoutWalletAddressFromDb,
-  getPayoutWalletPrivateKey,
   isPayoutWalletConfiguredInDb,
 } from '../treasury/treasury-service';
+import { getPayoutWalletSigner } from '../custody/custody-signer';
 
 /**
  * Coinbase CDP SDK Client
@@ -279,9 +280,10 @@ class CoinbaseWalletService {
 
       // Use polygon client for direct transfer
       const transferResult = await polygonUSDCClient.transfer(
-        treasuryPrivateKey,
+        new ethers.Wallet(treasuryPrivateKey),
         toAddress,
-        amount
+        amount,
+        'payout_wallet'
       );
 
       if (!transferResult.success || !transferResult.data) {
@@ -344,28 +346,29 @@ class CoinbaseWalletService {
 
   /**
    * Transfer using platform's payout hot wallet (for commission payouts)
-   * Reads from database first, falls back to env vars, then treasury wallet
+   * Signs through key custody first, falls back to env vars, then treasury wallet
    */
   async transferFromPayoutWallet(
     toAddress: string,
     amount: string
   ): Promise<ServiceResponse<TransferResponse>> {
     try {
-      // Try to get payout wallet from database first
-      const payoutPrivateKey = await getPayoutWalletPrivateKey();
+      // Custody key first, env key fallback; the key itself never leaves custody
+      const payoutSigner = await getPayoutWalletSigner();
       const payoutAddress = await getPayoutWalletAddressFromDb();
 
       // Backward compatibility: fall back to treasury if payout wallet not configured
-      if (!payoutPrivateKey || !payoutAddress) {
+      if (!payoutSigner || !payoutAddress) {
         console.warn('[CoinbaseWalletService] Payout wallet not configured, falling back to treasury');
         return this.transferFromTreasury(toAddress, amount);
       }
 
       // Use polygon client for direct transfer from payout wallet
       const transferResult = await polygonUSDCClient.transfer(
-        payoutPrivateKey,
+        payoutSigner,
         toAddress,
-        amount
+        amount,
+        'payout_wallet'
       );
 
       if (!transferResult.success || !transferResult.data) {
@@ -180,15 +180,22 @@ export interface TreasurySnapshot {
   id: string;
   usdc_balance: string;
   matic_balance: string;
-  total_user_wallets_usdc: string;
+  total_user_wallets_usdc: string | null; // null when the ledger couldn't be read
   pending_commissions_usdc: string;
   pending_payouts_usdc: string;
   platform_net_balance: string | null;
   matic_price_usd: string | null;
   usdc_price_usd: string;
-  total_active_wallets: number;
+  total_active_wallets: number | null;
   snapshot_type: 'daily' | 'monthly' | 'manual';
   snapshot_at: string;
+  snapshot_date: string | null;
+  payout_wallet_usdc: string | null;
+  payout_wallet_matic: string | null;
+  gas_tank_matic: string | null;
+  coverage_ratio: string | null; // null when nothing is owed
+  errors: string[];
+  triggered_by: string | null;
 }
 
 export interface ExternalWalletAddress {
@@ -0,0 +1,257 @@
+/**
+ * Compensation Plan Engine
+ *
+ * The single place commission math is evaluated. A plan (one row of
+ * compensation_plans) defines structure size, rate tiers, direct-referral
+ * requirements and caps; everything here is a pure function of a plan plus a
+ * member's numbers, so the same code runs in API routes, the monthly close and
+ * client-side projections.
+ *
+ * Loading plans from the database lives in plan-service.ts.
+ */
+
+export interface RateTier {
+  // First structure number this rate applies to
+  structure: number;
+  rate: number;
+}
+
+export interface CompensationPlan {
+  id: string;
+  version: number;
+  name: string;
+  // 'YYYY-MM-01'
+  effectiveMonth: string;
+  structureSize: number;
+  maxStructures: number;
+  contributionAmount: number;
+  rateTiers: RateTier[];
+  directReferralsPerStructure: number;
+  maxCommissionableVolume: number | null;
+  maxMonthlyCommission: number | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+/**
+ * The terms commission math depends on; enough to evaluate members without
+ * the plan's identity (e.g. the summary /api/network/stats returns)
+ */
+export type PlanTerms = Pick<
+  CompensationPlan,
+  'structureSize' | 'maxStructures' | 'contributionAmount' | 'rateTiers' | 'directReferralsPerStructure' | 'maxCommissionableVolume' | 'maxMonthlyCommission'
+>;
+
+export interface CompensationPlanRow {
+  id: string;
+  version: number;
+  name: string;
+  effective_month: string;
+  structure_size: number;
+  max_structures: number;
+  contribution_amount: string | number;
+  rate_tiers: RateTier[];
+  direct_referrals_per_structure: number;
+  max_commissionable_volume: string | number | null;
+  max_monthly_commission: string | number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface StructureProgress {
+  completedStructures: number;
+  // Structure the member is building (1-based, capped at maxStructures)
+  currentStructure: number;
+  // Active members counted toward the current structure
+  progress: number;
+  progressPercentage: number;
+}
+
+export interface MemberCommissionInput {
+  sniperVolume: number;
+  activeNetworkCount: number;
+  directReferrals: number;
+  // is_active, or a subscription bypass
+  isActive: boolean;
+}
+
+export interface MemberCommissionResult extends StructureProgress {
+  commissionRate: number;
+  commissionableVolume: number;
+  commissionAmount: number;
+  requiredDirectReferrals: number;
+  meetsReferralRequirement: boolean;
+  eligible: boolean;
+  ineligibleReason: string | null;
+}
+
+function toNumber(value: string | number | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+export function planFromRow(row: CompensationPlanRow): CompensationPlan {
+  return {
+    id: row.id,
+    version: row.version,
+    name: row.name,
+    effectiveMonth: row.effective_month,
+    structureSize: row.structure_size,
+    maxStructures: row.max_structures,
+    contributionAmount: Number(row.contribution_amount),
+    rateTiers: [...row.rate_tiers].sort((a, b) => a.structure - b.structure),
+    directReferralsPerStructure: row.direct_referrals_per_structure,
+    maxCommissionableVolume: toNumber(row.max_commissionable_volume),
+    maxMonthlyCommission: toNumber(row.max_monthly_commission),
+    notes: row.notes,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * 'YYYY-MM' for a date (UTC)
+ */
+export function toMonthPeriod(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * First day of a 'YYYY-MM' period as 'YYYY-MM-01'
+ */
+export function monthPeriodStart(monthPeriod: string): string {
+  if (!/^\d{4}-\d{2}$/.test(monthPeriod)) {
+    throw new Error(`Invalid month period: ${monthPeriod}`);
+  }
+  return `${monthPeriod}-01`;
+}
+
+/**
+ * Which structure a member is on, from their active network size
+ */
+export function getStructureProgress(plan: PlanTerms, activeNetworkCount: number): StructureProgress {
+  const completedStructures = Math.floor(activeNetworkCount / plan.structureSize);
+  const progress = activeNetworkCount % plan.structureSize;
+
+  return {
+    completedStructures,
+    currentStructure: Math.min(completedStructures + 1, plan.maxStructures),
+    progress,
+    progressPercentage: (progress / plan.structureSize) * 100,
+  };
+}
+
+/**
+ * Rate for a structure number: the highest tier at or below it
+ */
+export function getCommissionRate(plan: Pick<CompensationPlan, 'rateTiers'>, structureNumber: number): number {
+  let rate = 0;
+  for (const tier of plan.rateTiers) {
+    if (tier.structure <= structureNumber) rate = tier.rate;
+  }
+  return rate;
+}
+
+/**
+ * Direct referrals needed to withdraw while on a structure
+ */
+export function getRequiredDirectReferrals(plan: PlanTerms, structureNumber: number): number {
+  return structureNumber * plan.directReferralsPerStructure;
+}
+
+/**
+ * Monthly sniper volume that earns commission. Plans without an explicit cap
+ * are capped at every structure filled with paying members.
+ */
+export function getMaxCommissionableVolume(plan: PlanTerms): number {
+  return plan.maxCommissionableVolume
+    ?? plan.structureSize * plan.maxStructures * plan.contributionAmount;
+}
+
+/**
+ * A member's residual commission for a month under a plan.
+ * The direct-referral requirement gates withdrawal, not accrual, so an active
+ * member below it still earns (meetsReferralRequirement reports the gap).
+ */
+export function evaluateMemberCommission(
+  plan: PlanTerms,
+  input: MemberCommissionInput
+): MemberCommissionResult {
+  const structure = getStructureProgress(plan, input.activeNetworkCount);
+  const commissionRate = getCommissionRate(plan, structure.currentStructure);
+  const commissionableVolume = Math.min(Math.max(input.sniperVolume, 0), getMaxCommissionableVolume(plan));
+  const requiredDirectReferrals = getRequiredDirectReferrals(plan, structure.currentStructure);
+
+  let commissionAmount = roundCents(commissionableVolume * commissionRate);
+  if (plan.maxMonthlyCommission !== null) {
+    commissionAmount = Math.min(commissionAmount, plan.maxMonthlyCommission);
+  }
+
+  let ineligibleReason: string | null = null;
+  if (!input.isActive) {
+    ineligibleReason = 'Not active (no subscription or bypass)';
+  } else if (commissionAmount <= 0) {
+    ineligibleReason = 'No commissionable volume';
+  }
+
+  return {
+    ...structure,
+    commissionRate,
+    commissionableVolume,
+    commissionAmount: ineligibleReason ? 0 : commissionAmount,
+    requiredDirectReferrals,
+    meetsReferralRequirement: input.directReferrals >= requiredDirectReferrals,
+    eligible: ineligibleReason === null,
+    ineligibleReason,
+  };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Problems with a plan definition, empty when valid
+ */
+export function validatePlanDefinition(plan: PlanTerms): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(plan.structureSize) || plan.structureSize <= 0) {
+    errors.push('Structure size must be a positive whole number');
+  }
+  if (!Number.isInteger(plan.maxStructures) || plan.maxStructures <= 0) {
+    errors.push('Max structures must be a positive whole number');
+  }
+  if (!(plan.contributionAmount > 0)) {
+    errors.push('Contribution amount must be greater than 0');
+  }
+  if (!Number.isInteger(plan.directReferralsPerStructure) || plan.directReferralsPerStructure < 0) {
+    errors.push('Direct referrals per structure must be 0 or more');
+  }
+  if (plan.maxCommissionableVolume !== null && !(plan.maxCommissionableVolume > 0)) {
+    errors.push('Volume cap must be greater than 0');
+  }
+  if (plan.maxMonthlyCommission !== null && !(plan.maxMonthlyCommission > 0)) {
+    errors.push('Monthly commission cap must be greater than 0');
+  }
+
+  if (!Array.isArray(plan.rateTiers) || plan.rateTiers.length === 0) {
+    errors.push('At least one rate tier is required');
+  } else {
+    const structures = new Set<number>();
+    for (const tier of plan.rateTiers) {
+      if (!Number.isInteger(tier.structure) || tier.structure < 1) {
+        errors.push('Rate tier structures must be whole numbers starting at 1');
+      } else if (structures.has(tier.structure)) {
+        errors.push(`Duplicate rate tier for structure ${tier.structure}`);
+      }
+      structures.add(tier.structure);
+      if (!(tier.rate >= 0 && tier.rate < 1)) {
+        errors.push(`Rate for structure ${tier.structure} must be between 0 and 1`);
+      }
+    }
+    if (!structures.has(1)) {
+      errors.push('A rate tier for structure 1 is required');
+    }
+  }
+
+  return errors;
+}
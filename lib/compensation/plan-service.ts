@@ -0,0 +1,274 @@
+/**
+ * Compensation Plan Service
+ * Loads versioned compensation plans and runs the monthly close with them.
+ *
+ * The plan for a month is the version with the latest effective_month on or
+ * before it. New versions may only start in a future month, so a month that
+ * has begun is always computed with the same plan.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import {
+  CompensationPlan,
+  CompensationPlanRow,
+  RateTier,
+  evaluateMemberCommission,
+  monthPeriodStart,
+  planFromRow,
+  toMonthPeriod,
+  validatePlanDefinition,
+} from './plan-engine';
+
+const PAGE_SIZE = 1000;
+
+const PLAN_COLUMNS = 'id, version, name, effective_month, structure_size, max_structures, contribution_amount, rate_tiers, direct_referrals_per_structure, max_commissionable_volume, max_monthly_commission, notes, created_at';
+
+export interface NewCompensationPlan {
+  name: string;
+  // 'YYYY-MM'
+  effectiveMonth: string;
+  structureSize: number;
+  maxStructures: number;
+  contributionAmount: number;
+  rateTiers: RateTier[];
+  directReferralsPerStructure: number;
+  maxCommissionableVolume: number | null;
+  maxMonthlyCommission: number | null;
+  notes?: string | null;
+}
+
+/**
+ * Plan that applies to a 'YYYY-MM' month
+ */
+export async function getCompensationPlanForMonth(monthPeriod: string): Promise<CompensationPlan> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('compensation_plans')
+    .select(PLAN_COLUMNS)
+    .lte('effective_month', monthPeriodStart(monthPeriod))
+    .order('effective_month', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load compensation plan for ${monthPeriod}: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(`No compensation plan in effect for ${monthPeriod}`);
+  }
+
+  return planFromRow(data as CompensationPlanRow);
+}
+
+/**
+ * Plan in effect this month
+ */
+export async function getCurrentCompensationPlan(): Promise<CompensationPlan> {
+  return getCompensationPlanForMonth(toMonthPeriod(new Date()));
+}
+
+/**
+ * Every plan version, newest first
+ */
+export async function listCompensationPlans(): Promise<CompensationPlan[]> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('compensation_plans')
+    .select(PLAN_COLUMNS)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list compensation plans: ${error.message}`);
+  }
+
+  return (data as CompensationPlanRow[]).map(planFromRow);
+}
+
+/**
+ * Schedule a new plan version. It must start after the current month, and
+ * after the latest scheduled version, so versions stay in effective order.
+ * Invalid definitions are returned as errors rather than thrown.
+ */
+export async function createCompensationPlan(
+  input: NewCompensationPlan,
+  createdBy: string
+): Promise<{ success: true; plan: CompensationPlan } | { success: false; errors: string[] }> {
+  const errors = validatePlanDefinition(input);
+  if (!/^\d{4}-\d{2}$/.test(input.effectiveMonth || '')) {
+    errors.push('Effective month must be YYYY-MM');
+  } else if (input.effectiveMonth <= toMonthPeriod(new Date())) {
+    errors.push('Effective month must be in the future');
+  }
+  if (!input.name?.trim()) {
+    errors.push('Name is required');
+  }
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: latest } = await supabase
+    .from('compensation_plans')
+    .select('version, effective_month')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latest && latest.effective_month >= monthPeriodStart(input.effectiveMonth)) {
+    return {
+      success: false,
+      errors: [`Version ${latest.version} already starts ${latest.effective_month.slice(0, 7)}; new versions must start later`],
+    };
+  }
+
+  const { data, error } = await supabase
+    .from('compensation_plans')
+    .insert({
+      version: (latest?.version || 0) + 1,
+      name: input.name.trim(),
+      effective_month: monthPeriodStart(input.effectiveMonth),
+      structure_size: input.structureSize,
+      max_structures: input.maxStructures,
+      contribution_amount: input.contributionAmount,
+      rate_tiers: [...input.rateTiers].sort((a, b) => a.structure - b.structure),
+      direct_referrals_per_structure: input.directReferralsPerStructure,
+      max_commissionable_volume: input.maxCommissionableVolume,
+      max_monthly_commission: input.maxMonthlyCommission,
+      notes: input.notes || null,
+      created_by: createdBy,
+    })
+    .select(PLAN_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create compensation plan: ${error?.message || 'no row returned'}`);
+  }
+
+  console.log(`[CompensationPlan] Version ${data.version} scheduled from ${input.effectiveMonth} by ${createdBy}`);
+  return { success: true, plan: planFromRow(data as CompensationPlanRow) };
+}
+
+export interface MemberStatement {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  sniperVolume: number;
+  activeNetworkCount: number;
+  directReferrals: number;
+  hasWallet: boolean;
+  result: ReturnType<typeof evaluateMemberCommission>;
+}
+
+export interface MonthEvaluation {
+  monthPeriod: string;
+  plan: CompensationPlan;
+  statements: MemberStatement[];
+  totalVolume: number;
+  totalCommission: number;
+}
+
+/**
+ * Evaluate every member with sniper volume this month under the plan for
+ * monthPeriod. Read-only; used for the admin dry run and by closeVolumeMonth.
+ */
+export async function evaluateVolumeMonth(monthPeriod: string): Promise<MonthEvaluation> {
+  const plan = await getCompensationPlanForMonth(monthPeriod);
+  const supabase = createServiceRoleClient();
+
+  const statements: MemberStatement[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('id, name, email, sniper_volume_current_month, active_network_count, is_active, bypass_subscription, active_direct_referrals_count, bypass_direct_referrals, payout_wallet_address')
+      .gt('sniper_volume_current_month', 0)
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load member volumes: ${error.message}`);
+    }
+
+    for (const user of users || []) {
+      const sniperVolume = parseFloat(user.sniper_volume_current_month || '0');
+      const activeNetworkCount = user.active_network_count || 0;
+      // Effective referral count: actual or bypass, whichever is higher
+      const directReferrals = Math.max(user.active_direct_referrals_count || 0, user.bypass_direct_referrals || 0);
+
+      statements.push({
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        sniperVolume,
+        activeNetworkCount,
+        directReferrals,
+        hasWallet: !!user.payout_wallet_address,
+        result: evaluateMemberCommission(plan, {
+          sniperVolume,
+          activeNetworkCount,
+          directReferrals,
+          isActive: !!(user.is_active || user.bypass_subscription),
+        }),
+      });
+    }
+    if (!users || users.length < PAGE_SIZE) break;
+  }
+
+  statements.sort((a, b) => b.sniperVolume - a.sniperVolume);
+
+  return {
+    monthPeriod,
+    plan,
+    statements,
+    totalVolume: statements.reduce((sum, s) => sum + s.sniperVolume, 0),
+    totalCommission: statements.reduce((sum, s) => sum + s.result.commissionAmount, 0),
+  };
+}
+
+export interface MonthCloseResult {
+  month_period: string;
+  plan_version: number;
+  users_archived: number;
+  total_volume: number;
+  commissions_created: number;
+  total_payout_amount: number;
+  ineligible_users: number;
+  users_reset: number;
+}
+
+/**
+ * Close a month: archive sniper volume, create residual commissions computed
+ * by the engine, write per-member statements and reset volume, atomically.
+ * Only the evaluated members are reset, by the volume they were evaluated
+ * with; volume that arrives in between carries into the next month.
+ */
+export async function closeVolumeMonth(monthPeriod: string): Promise<MonthCloseResult> {
+  const evaluation = await evaluateVolumeMonth(monthPeriod);
+  const supabase = createServiceRoleClient();
+
+  console.log(`[CompensationPlan] Closing ${monthPeriod} with plan v${evaluation.plan.version}: ${evaluation.statements.length} members, $${evaluation.totalCommission.toFixed(2)} commission`);
+
+  const { data, error } = await supabase.rpc('close_sniper_volume_month', {
+    p_month_period: monthPeriod,
+    p_plan_version: evaluation.plan.version,
+    p_statements: evaluation.statements.map((s) => ({
+      user_id: s.userId,
+      sniper_volume: s.sniperVolume,
+      commissionable_volume: s.result.commissionableVolume,
+      active_network_count: s.activeNetworkCount,
+      structure_number: s.result.currentStructure,
+      commission_rate: s.result.commissionRate,
+      eligible: s.result.eligible,
+      ineligible_reason: s.result.ineligibleReason,
+      commission_amount: s.result.commissionAmount,
+    })),
+  });
+
+  if (error) {
+    throw new Error(`close_sniper_volume_month failed: ${error.message}`);
+  }
+
+  return data as MonthCloseResult;
+}
@@ -0,0 +1,128 @@
+/**
+ * Earnings Projection
+ *
+ * Month-by-month "what could I earn" model for members. Starts from a member's
+ * current active network and directs, applies their growth assumptions, and
+ * evaluates each month with the plan engine so structures, rates, caps and the
+ * withdrawal requirement match what the monthly close would compute.
+ *
+ * This is an illustration, not a forecast. The model is deliberately simple:
+ * - every active member in the network pays the plan contribution (monthly,
+ *   or a quarter of it weekly), and all of it counts toward sniper volume,
+ *   although only the 9 closest active upline members are credited in reality
+ * - churn is a flat share of active members lost each month
+ * - the member stays active themselves throughout
+ * - the current plan stays in effect for every projected month
+ */
+
+import { PlanTerms, evaluateMemberCommission, toMonthPeriod } from './plan-engine';
+
+export const MAX_PROJECTION_MONTHS = 36;
+
+// Weekly payers pay a quarter of the contribution 52 times a year
+const WEEKS_PER_MONTH = 52 / 12;
+
+export interface ProjectionStart {
+  activeNetworkCount: number;
+  // Effective count: actual or bypass, whichever is higher
+  directReferrals: number;
+}
+
+export interface ProjectionAssumptions {
+  months: number;
+  newDirectsPerMonth: number;
+  // Members joining elsewhere below you each month (your directs' recruits, spillover)
+  teamGrowthPerMonth: number;
+  // Share of active members (and directs) lost each month, 0-1
+  monthlyChurnRate: number;
+  // Share of members paying weekly rather than monthly, 0-1
+  weeklyShare: number;
+}
+
+export interface ProjectionMonth {
+  // 'YYYY-MM'
+  monthPeriod: string;
+  activeNetworkCount: number;
+  directReferrals: number;
+  completedStructures: number;
+  currentStructure: number;
+  commissionRate: number;
+  projectedVolume: number;
+  projectedCommission: number;
+  requiredDirectReferrals: number;
+  canWithdraw: boolean;
+  // Running total of commission in months where withdrawal was possible
+  cumulativeWithdrawable: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Number.isFinite(value) ? value : min, min), max);
+}
+
+/**
+ * Average monthly payment per member for a weekly/monthly mix
+ */
+export function averageMonthlyPayment(plan: PlanTerms, weeklyShare: number): number {
+  const share = clamp(weeklyShare, 0, 1);
+  const weekly = (plan.contributionAmount / 4) * WEEKS_PER_MONTH;
+  return (1 - share) * plan.contributionAmount + share * weekly;
+}
+
+/**
+ * Project the next `months` months, starting the month after `from`.
+ * Out-of-range assumptions are clamped rather than rejected so sliders can't
+ * produce an error state.
+ */
+export function projectEarnings(
+  plan: PlanTerms,
+  start: ProjectionStart,
+  assumptions: ProjectionAssumptions,
+  from: Date = new Date()
+): ProjectionMonth[] {
+  const months = Math.round(clamp(assumptions.months, 1, MAX_PROJECTION_MONTHS));
+  const newDirects = clamp(assumptions.newDirectsPerMonth, 0, 10000);
+  const teamGrowth = clamp(assumptions.teamGrowthPerMonth, 0, 100000);
+  const churn = clamp(assumptions.monthlyChurnRate, 0, 1);
+  const payment = averageMonthlyPayment(plan, assumptions.weeklyShare);
+
+  // Carried as fractions so small churn rates still accumulate
+  let network = Math.max(start.activeNetworkCount, 0);
+  let directs = Math.max(start.directReferrals, 0);
+  let cumulativeWithdrawable = 0;
+  const projection: ProjectionMonth[] = [];
+
+  for (let i = 1; i <= months; i++) {
+    directs = directs * (1 - churn) + newDirects;
+    network = network * (1 - churn) + newDirects + teamGrowth;
+
+    const activeNetworkCount = Math.round(network);
+    const directReferrals = Math.round(directs);
+    const projectedVolume = Math.round(activeNetworkCount * payment * 100) / 100;
+    const result = evaluateMemberCommission(plan, {
+      sniperVolume: projectedVolume,
+      activeNetworkCount,
+      directReferrals,
+      isActive: true,
+    });
+
+    if (result.meetsReferralRequirement) {
+      cumulativeWithdrawable += result.commissionAmount;
+    }
+
+    projection.push({
+      monthPeriod: toMonthPeriod(new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + i, 1))),
+      activeNetworkCount,
+      directReferrals,
+      completedStructures: result.completedStructures,
+      currentStructure: result.currentStructure,
+      commissionRate: result.commissionRate,
+      projectedVolume,
+      projectedCommission: result.commissionAmount,
+      requiredDirectReferrals: result.requiredDirectReferrals,
+      canWithdraw: result.meetsReferralRequirement,
+      cumulativeWithdrawable: Math.round(cumulativeWithdrawable * 100) / 100,
+    });
+  }
+
+  return projection;
+}
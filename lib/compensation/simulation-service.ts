@@ -0,0 +1,82 @@
+/**
+ * Commission Simulation Service
+ * Takes the network snapshot a simulation runs against. Read-only.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { gasManager } from '@/lib/polygon/gas-manager';
+import { getCurrentCompensationPlan } from './plan-service';
+import { SimulationMember, SimulationSnapshot } from './simulation';
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Every placed or volume-holding member, the plan in effect, the payout wallet
+ * balance and unpaid commissions, as of now.
+ */
+export async function loadSimulationSnapshot(): Promise<SimulationSnapshot> {
+  const supabase = createServiceRoleClient();
+  const plan = await getCurrentCompensationPlan();
+
+  const members: SimulationMember[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('id, name, email, network_position_id, referred_by, is_active, bypass_subscription, sniper_volume_current_month, active_network_count, active_direct_referrals_count, bypass_direct_referrals')
+      .or('network_position_id.not.is.null,sniper_volume_current_month.gt.0')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load members: ${error.message}`);
+    }
+
+    for (const user of users || []) {
+      members.push({
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        positionId: user.network_position_id,
+        sponsorId: user.referred_by,
+        isActive: !!(user.is_active || user.bypass_subscription),
+        sniperVolume: parseFloat(user.sniper_volume_current_month || '0'),
+        activeNetworkCount: user.active_network_count || 0,
+        directReferrals: Math.max(user.active_direct_referrals_count || 0, user.bypass_direct_referrals || 0),
+      });
+    }
+    if (!users || users.length < PAGE_SIZE) break;
+  }
+
+  let pendingCommissions = 0;
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from('commissions')
+      .select('amount')
+      .eq('status', 'pending')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load pending commissions: ${error.message}`);
+    }
+
+    pendingCommissions += (rows || []).reduce((sum, c) => sum + Number(c.amount), 0);
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+
+  let treasuryBalance: number | null = null;
+  const wallet = await gasManager.getPayoutWalletStatus();
+  if (wallet.success && wallet.data) {
+    treasuryBalance = parseFloat(wallet.data.usdcBalance);
+  } else {
+    console.warn('[CommissionSimulation] Payout wallet balance unavailable:', wallet.error?.message);
+  }
+
+  return {
+    takenAt: new Date().toISOString(),
+    plan,
+    members,
+    treasuryBalance,
+    pendingCommissions,
+  };
+}
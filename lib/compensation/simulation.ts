@@ -0,0 +1,270 @@
+/**
+ * Commission Simulation
+ *
+ * "What-if" runs of the monthly residual commission against a snapshot of the
+ * network. A scenario applies hypothetical changes to the snapshot (new
+ * members, deactivated subtrees, a different rate table) and every member is
+ * evaluated with the plan engine before and after, so admins can see per-member
+ * deltas and total liability before a promotion or plan change goes live.
+ *
+ * Pure functions only; loading the snapshot lives in simulation-service.ts.
+ * Nothing here writes to the database.
+ *
+ * Volume effects mirror distribute_to_upline_batch: a payment credits the
+ * 9 closest active ancestors. Each added or removed member is assumed to pay
+ * one plan contribution per month, so volume deltas are estimates.
+ */
+
+import { getUplineChain } from '@/lib/network-positions';
+import {
+  CompensationPlan,
+  MemberCommissionResult,
+  RateTier,
+  evaluateMemberCommission,
+  validatePlanDefinition,
+} from './plan-engine';
+
+// Active ancestors credited with each payment (distribute_to_upline_batch)
+export const UPLINE_VOLUME_DEPTH = 9;
+
+export interface SimulationMember {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  positionId: string | null;
+  sponsorId: string | null;
+  // is_active or a subscription bypass
+  isActive: boolean;
+  sniperVolume: number;
+  activeNetworkCount: number;
+  // Effective count: actual or bypass, whichever is higher
+  directReferrals: number;
+}
+
+export interface SimulationSnapshot {
+  takenAt: string;
+  plan: CompensationPlan;
+  members: SimulationMember[];
+  // Payout wallet USDC, null if it couldn't be read
+  treasuryBalance: number | null;
+  // Commissions created but not yet paid
+  pendingCommissions: number;
+}
+
+export type SimulationChange =
+  | { type: 'add_members'; underUserId: string; count: number }
+  | { type: 'deactivate_subtree'; rootUserId: string };
+
+export interface SimulationScenario {
+  changes: SimulationChange[];
+  // Replaces the plan's rate table for the simulated side
+  rateTiers?: RateTier[];
+}
+
+export interface MemberDelta {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  baseline: MemberCommissionResult;
+  simulated: MemberCommissionResult;
+  delta: number;
+}
+
+export interface SimulationResult {
+  planVersion: number;
+  members: MemberDelta[];
+  totals: {
+    baselineLiability: number;
+    simulatedLiability: number;
+    delta: number;
+    pendingCommissions: number;
+    treasuryBalance: number | null;
+    // Treasury balance / (simulated liability + pending), null if unknown
+    coverageRatio: number | null;
+    shortfall: number;
+  };
+  warnings: string[];
+}
+
+/**
+ * Problems with a scenario, empty when it can be run
+ */
+export function validateScenario(snapshot: SimulationSnapshot, scenario: SimulationScenario): string[] {
+  const errors: string[] = [];
+  const ids = new Set(snapshot.members.map((m) => m.userId));
+
+  if (!Array.isArray(scenario.changes)) {
+    return ['changes must be an array'];
+  }
+
+  for (const [i, change] of scenario.changes.entries()) {
+    if (change.type === 'add_members') {
+      if (!ids.has(change.underUserId)) errors.push(`Change ${i + 1}: unknown member ${change.underUserId}`);
+      if (!Number.isInteger(change.count) || change.count < 1 || change.count > 100000) {
+        errors.push(`Change ${i + 1}: count must be between 1 and 100000`);
+      }
+    } else if (change.type === 'deactivate_subtree') {
+      if (!ids.has(change.rootUserId)) errors.push(`Change ${i + 1}: unknown member ${change.rootUserId}`);
+    } else {
+      errors.push(`Change ${i + 1}: unknown change type`);
+    }
+  }
+
+  if (scenario.rateTiers) {
+    errors.push(...validatePlanDefinition({ ...snapshot.plan, rateTiers: scenario.rateTiers }));
+  }
+
+  return errors;
+}
+
+interface MutableNetwork {
+  members: Map<string, SimulationMember>;
+  byPosition: Map<string, SimulationMember>;
+}
+
+function cloneNetwork(members: SimulationMember[]): MutableNetwork {
+  const network: MutableNetwork = { members: new Map(), byPosition: new Map() };
+  for (const member of members) {
+    const copy = { ...member };
+    network.members.set(copy.userId, copy);
+    if (copy.positionId) network.byPosition.set(copy.positionId, copy);
+  }
+  return network;
+}
+
+/**
+ * Members above a position, closest first (excluding the position itself)
+ */
+function ancestorsOf(network: MutableNetwork, positionId: string): SimulationMember[] {
+  return getUplineChain(positionId)
+    .slice(1)
+    .map((id) => network.byPosition.get(id))
+    .filter((m): m is SimulationMember => !!m);
+}
+
+function addMembers(network: MutableNetwork, plan: CompensationPlan, under: SimulationMember, count: number, warnings: string[]) {
+  if (!under.positionId) {
+    warnings.push(`${under.email || under.userId} has no network position; added members were ignored`);
+    return;
+  }
+
+  // New members sit in under's downline with under as sponsor
+  const chain = [under, ...ancestorsOf(network, under.positionId)];
+  for (const member of chain) {
+    member.activeNetworkCount += count;
+  }
+  for (const member of chain.filter((m) => m.isActive).slice(0, UPLINE_VOLUME_DEPTH)) {
+    member.sniperVolume += count * plan.contributionAmount;
+  }
+  under.directReferrals += count;
+}
+
+function deactivateSubtree(network: MutableNetwork, plan: CompensationPlan, root: SimulationMember, warnings: string[]) {
+  if (!root.positionId) {
+    warnings.push(`${root.email || root.userId} has no network position; only they were deactivated`);
+    root.isActive = false;
+    return;
+  }
+
+  const rootPosition = root.positionId;
+  const subtree = Array.from(network.byPosition.values())
+    .filter((m) => m.isActive && getUplineChain(m.positionId!).includes(rootPosition));
+
+  // Volume recipients are resolved against the network before this change,
+  // since that is who was credited when the payments came in
+  const recipients = new Map(subtree.map((m) => [
+    m.userId,
+    ancestorsOf(network, m.positionId!).filter((a) => a.isActive).slice(0, UPLINE_VOLUME_DEPTH),
+  ]));
+
+  for (const member of subtree) {
+    for (const ancestor of ancestorsOf(network, member.positionId!)) {
+      ancestor.activeNetworkCount = Math.max(0, ancestor.activeNetworkCount - 1);
+    }
+    for (const ancestor of recipients.get(member.userId)!) {
+      ancestor.sniperVolume = Math.max(0, ancestor.sniperVolume - plan.contributionAmount);
+    }
+    const sponsor = member.sponsorId ? network.members.get(member.sponsorId) : undefined;
+    if (sponsor) {
+      sponsor.directReferrals = Math.max(0, sponsor.directReferrals - 1);
+    }
+  }
+  for (const member of subtree) {
+    member.isActive = false;
+  }
+}
+
+function evaluate(plan: CompensationPlan, member: SimulationMember): MemberCommissionResult {
+  return evaluateMemberCommission(plan, {
+    sniperVolume: member.sniperVolume,
+    activeNetworkCount: member.activeNetworkCount,
+    directReferrals: member.directReferrals,
+    isActive: member.isActive,
+  });
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Run a scenario against a snapshot. The scenario must pass validateScenario.
+ * Only members whose commission or eligibility changes are returned, largest
+ * absolute delta first.
+ */
+export function simulateScenario(snapshot: SimulationSnapshot, scenario: SimulationScenario): SimulationResult {
+  const warnings: string[] = [];
+  const simulatedPlan: CompensationPlan = scenario.rateTiers
+    ? { ...snapshot.plan, rateTiers: [...scenario.rateTiers].sort((a, b) => a.structure - b.structure) }
+    : snapshot.plan;
+
+  const network = cloneNetwork(snapshot.members);
+  for (const change of scenario.changes) {
+    if (change.type === 'add_members') {
+      addMembers(network, snapshot.plan, network.members.get(change.underUserId)!, change.count, warnings);
+    } else {
+      deactivateSubtree(network, snapshot.plan, network.members.get(change.rootUserId)!, warnings);
+    }
+  }
+
+  let baselineLiability = 0;
+  let simulatedLiability = 0;
+  const members: MemberDelta[] = [];
+
+  for (const original of snapshot.members) {
+    const baseline = evaluate(snapshot.plan, original);
+    const simulated = evaluate(simulatedPlan, network.members.get(original.userId)!);
+    baselineLiability += baseline.commissionAmount;
+    simulatedLiability += simulated.commissionAmount;
+
+    const delta = roundCents(simulated.commissionAmount - baseline.commissionAmount);
+    if (delta !== 0 || baseline.eligible !== simulated.eligible) {
+      members.push({ userId: original.userId, name: original.name, email: original.email, baseline, simulated, delta });
+    }
+  }
+  members.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const obligations = simulatedLiability + snapshot.pendingCommissions;
+  const coverageRatio = snapshot.treasuryBalance === null
+    ? null
+    : obligations > 0 ? snapshot.treasuryBalance / obligations : null;
+
+  if (snapshot.treasuryBalance === null) {
+    warnings.push('Payout wallet balance unavailable; coverage not computed');
+  }
+
+  return {
+    planVersion: snapshot.plan.version,
+    members,
+    totals: {
+      baselineLiability: roundCents(baselineLiability),
+      simulatedLiability: roundCents(simulatedLiability),
+      delta: roundCents(simulatedLiability - baselineLiability),
+      pendingCommissions: roundCents(snapshot.pendingCommissions),
+      treasuryBalance: snapshot.treasuryBalance,
+      coverageRatio,
+      shortfall: snapshot.treasuryBalance === null ? 0 : roundCents(Math.max(0, obligations - snapshot.treasuryBalance)),
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,147 @@
+import { randomBytes } from 'crypto';
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeSupabase } from '@/test/fake-supabase';
+import { EnvelopeKeyCustody } from '../key-custody';
+import { DataKey, KmsProvider, LocalKmsProvider } from '../kms';
+
+let db: FakeSupabase;
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceRoleClient: () => db,
+}));
+
+const masterKey = () => randomBytes(32).toString('base64');
+
+function auditEvents(eventType: string) {
+  return db.rows('crypto_audit_log').filter((row) => row.event_type === eventType);
+}
+
+describe('EnvelopeKeyCustody', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let master: string;
+
+  beforeEach(() => {
+    db = new FakeSupabase();
+    master = masterKey();
+  });
+
+  it('stores a key encrypted and hands it back through useKey', async () => {
+    const custody = new EnvelopeKeyCustody(() => new LocalKmsProvider(master));
+
+    const stored = await custody.storeKey('payout_wallet', wallet.privateKey, 'admin-1');
+
+    expect(stored.success).toBe(true);
+    expect(stored.info).toMatchObject({ keyId: 'payout_wallet', address: wallet.address, version: 1 });
+
+    const [row] = db.rows('custody_keys');
+    expect(JSON.stringify(row)).not.toContain(wallet.privateKey.slice(2));
+
+    const used = await custody.useKey('payout_wallet', { purpose: 'payout_transfer' }, async (secret) => secret);
+    expect(used).toBe(wallet.privateKey);
+  });
+
+  it('writes a custody_key_accessed audit event on every use, without the secret', async () => {
+    const custody = new EnvelopeKeyCustody(() => new LocalKmsProvider(master));
+    await custody.storeKey('payout_wallet', wallet.privateKey, 'admin-1');
+
+    await expect(
+      custody.useKey(
+        'payout_wallet',
+        { purpose: 'payout_transfer', actorId: 'admin-2', details: { commission_id: 'c-1' } },
+        async () => { throw new Error('transfer failed'); }
+      )
+    ).rejects.toThrow('transfer failed');
+
+    const accessed = auditEvents('custody_key_accessed');
+    expect(accessed).toHaveLength(1);
+    expect(accessed[0]).toMatchObject({
+      admin_id: 'admin-2',
+      entity_type: 'custody_key',
+      details: { key_id: 'payout_wallet', purpose: 'payout_transfer', version: 1, commission_id: 'c-1' },
+    });
+    expect(JSON.stringify(accessed[0])).not.toContain(wallet.privateKey.slice(2));
+    expect(db.rows('custody_keys')[0].last_accessed_at).toEqual(expect.any(String));
+  });
+
+  it('rotates onto a new data key and keeps the secret usable', async () => {
+    const custody = new EnvelopeKeyCustody(() => new LocalKmsProvider(master));
+    await custody.storeKey('payout_wallet', wallet.privateKey, 'admin-1');
+    const before = { ...db.rows('custody_keys')[0] };
+
+    const rotated = await custody.rotateKey('payout_wallet', 'admin-2');
+
+    expect(rotated.success).toBe(true);
+    expect(rotated.info?.version).toBe(2);
+    const after = db.rows('custody_keys')[0];
+    expect(after.encrypted_data_key).not.toBe(before.encrypted_data_key);
+    expect(after.ciphertext).not.toBe(before.ciphertext);
+    expect(auditEvents('custody_key_rotated')[0]).toMatchObject({
+      admin_id: 'admin-2',
+      details: { key_id: 'payout_wallet', from_version: 1, to_version: 2 },
+    });
+    expect(await custody.useKey('payout_wallet', { purpose: 'test' }, async (secret) => secret)).toBe(wallet.privateKey);
+  });
+
+  it('fails a rotation when the key changed version underneath it', async () => {
+    const local = new LocalKmsProvider(master);
+    // Another rotation lands between reading the row and writing it back
+    const racing: KmsProvider = {
+      keyId: local.keyId,
+      decryptDataKey: (encrypted, kmsKeyId) => local.decryptDataKey(encrypted, kmsKeyId),
+      generateDataKey: async (): Promise<DataKey> => {
+        db.rows('custody_keys')[0].version = 2;
+        return local.generateDataKey();
+      },
+    };
+    const custody = new EnvelopeKeyCustody(() => local);
+    await custody.storeKey('payout_wallet', wallet.privateKey, 'admin-1');
+    const before = { ...db.rows('custody_keys')[0] };
+
+    const result = await new EnvelopeKeyCustody(() => racing).rotateKey('payout_wallet', 'admin-2');
+
+    expect(result).toEqual({ success: false, error: 'Key was changed while rotating; try again' });
+    const after = db.rows('custody_keys')[0];
+    expect(after.ciphertext).toBe(before.ciphertext);
+    expect(after.encrypted_data_key).toBe(before.encrypted_data_key);
+    expect(auditEvents('custody_key_rotated')).toHaveLength(0);
+  });
+
+  it('decrypts keys wrapped by a previous master key and rotates them onto the new one', async () => {
+    await new EnvelopeKeyCustody(() => new LocalKmsProvider(master)).storeKey('payout_wallet', wallet.privateKey, null);
+    const oldKmsKeyId = db.rows('custody_keys')[0].kms_key_id;
+
+    const newMaster = masterKey();
+    const custody = new EnvelopeKeyCustody(() => new LocalKmsProvider(newMaster, [master]));
+
+    expect(await custody.useKey('payout_wallet', { purpose: 'test' }, async (secret) => secret)).toBe(wallet.privateKey);
+
+    const rotated = await custody.rotateKey('payout_wallet', 'admin-1');
+    expect(rotated.success).toBe(true);
+    expect(rotated.info?.kmsKeyId).not.toBe(oldKmsKeyId);
+
+    // The old master can now be retired
+    const retired = new EnvelopeKeyCustody(() => new LocalKmsProvider(newMaster));
+    expect(await retired.useKey('payout_wallet', { purpose: 'test' }, async (secret) => secret)).toBe(wallet.privateKey);
+  });
+
+  it('refuses to decrypt once the wrapping master key is gone', async () => {
+    await new EnvelopeKeyCustody(() => new LocalKmsProvider(master)).storeKey('payout_wallet', wallet.privateKey, null);
+
+    const custody = new EnvelopeKeyCustody(() => new LocalKmsProvider(masterKey()));
+    const fn = vi.fn(async (secret: string) => secret);
+
+    await expect(custody.useKey('payout_wallet', { purpose: 'test' }, fn)).rejects.toThrow('is not available');
+    expect(fn).not.toHaveBeenCalled();
+    expect(auditEvents('custody_key_accessed')).toHaveLength(0);
+  });
+
+  it('imports a legacy plaintext setting into custody and blanks it', async () => {
+    db.rows('treasury_settings').push({ setting_key: 'payout_wallet_private_key', setting_value: wallet.privateKey });
+    const custody = new EnvelopeKeyCustody(() => new LocalKmsProvider(master));
+
+    expect(await custody.useKey('payout_wallet', { purpose: 'test' }, async (secret) => secret)).toBe(wallet.privateKey);
+    expect(db.rows('treasury_settings')[0].setting_value).toBe('');
+    expect(auditEvents('custody_key_stored')[0]).toMatchObject({ details: { source: 'legacy_import' } });
+  });
+});
@@ -0,0 +1,81 @@
+import { randomBytes } from 'crypto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LocalKmsProvider, openWithKey, sealWithKey } from '../kms';
+
+const masterKey = () => randomBytes(32).toString('base64');
+
+describe('sealWithKey / openWithKey', () => {
+  it('round-trips plaintext', () => {
+    const key = randomBytes(32);
+    const sealed = sealWithKey(key, Buffer.from('secret'));
+
+    expect(sealed.split('.')).toHaveLength(3);
+    expect(openWithKey(key, sealed).toString()).toBe('secret');
+  });
+
+  it('rejects the wrong key and altered data', () => {
+    const key = randomBytes(32);
+    const sealed = sealWithKey(key, Buffer.from('secret'));
+    const [iv, tag, ciphertext] = sealed.split('.');
+    const altered = Buffer.from(ciphertext, 'base64');
+    altered[0] ^= 1;
+
+    expect(() => openWithKey(randomBytes(32), sealed)).toThrow();
+    expect(() => openWithKey(key, [iv, tag, altered.toString('base64')].join('.'))).toThrow();
+    expect(() => openWithKey(key, 'not-sealed')).toThrow('Malformed encrypted payload');
+  });
+});
+
+describe('LocalKmsProvider', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('unwraps the data keys it issues', async () => {
+    const kms = new LocalKmsProvider(masterKey());
+    const dataKey = await kms.generateDataKey();
+
+    expect(dataKey.kmsKeyId).toBe(kms.keyId);
+    expect(dataKey.encrypted).not.toContain(dataKey.plaintext.toString('base64'));
+    expect(await kms.decryptDataKey(dataKey.encrypted, dataKey.kmsKeyId)).toEqual(dataKey.plaintext);
+  });
+
+  it('unwraps data keys issued under a previous master key', async () => {
+    const oldMaster = masterKey();
+    const issued = await new LocalKmsProvider(oldMaster).generateDataKey();
+
+    const rotated = new LocalKmsProvider(masterKey(), [oldMaster]);
+
+    expect(rotated.keyId).not.toBe(issued.kmsKeyId);
+    expect(await rotated.decryptDataKey(issued.encrypted, issued.kmsKeyId)).toEqual(issued.plaintext);
+    // New data keys go under the new master
+    expect((await rotated.generateDataKey()).kmsKeyId).toBe(rotated.keyId);
+  });
+
+  it('refuses data keys whose master key was dropped', async () => {
+    const issued = await new LocalKmsProvider(masterKey()).generateDataKey();
+
+    await expect(new LocalKmsProvider(masterKey()).decryptDataKey(issued.encrypted, issued.kmsKeyId))
+      .rejects.toThrow('KEY_CUSTODY_PREVIOUS_MASTER_KEYS');
+  });
+
+  it('rejects master keys that are not 32 bytes', () => {
+    expect(() => new LocalKmsProvider(randomBytes(16).toString('base64'))).toThrow('32 bytes');
+  });
+
+  it('reads the current and previous master keys from the environment', async () => {
+    const oldMaster = masterKey();
+    const issued = await new LocalKmsProvider(oldMaster).generateDataKey();
+
+    process.env.KEY_CUSTODY_MASTER_KEY = masterKey();
+    process.env.KEY_CUSTODY_PREVIOUS_MASTER_KEYS = ` ${oldMaster} ,`;
+    const kms = LocalKmsProvider.fromEnv();
+
+    expect(await kms.decryptDataKey(issued.encrypted, issued.kmsKeyId)).toEqual(issued.plaintext);
+
+    delete process.env.KEY_CUSTODY_MASTER_KEY;
+    expect(() => LocalKmsProvider.fromEnv()).toThrow('KEY_CUSTODY_MASTER_KEY is not configured');
+  });
+});
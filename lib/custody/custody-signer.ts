@@ -0,0 +1,119 @@
+/**
+ * Custody Signer
+ * An ethers Signer whose key stays in key custody. Each signature decrypts the
+ * secret inside KeyCustody.useKey (so it is audit-logged), signs with a
+ * throwaway wallet and checks the key still controls the expected address.
+ */
+
+import { ethers } from 'ethers';
+import { CustodyKeyId, KeyCustody, getKeyCustody } from './key-custody';
+
+export interface CustodyKeyRef {
+  keyId: CustodyKeyId;
+  // HD child of the master xprv (deposit addresses); unset for single keys
+  derivationIndex?: number;
+}
+
+/**
+ * Build the wallet a custody secret represents
+ * For the master xprv this is the child at m/44'/60'/0'/0/{index}: the xprv
+ * is stored at the account level, so only the index is derived.
+ */
+function walletFromSecret(ref: CustodyKeyRef, secret: string, provider: ethers.Provider | null): ethers.BaseWallet {
+  if (ref.derivationIndex === undefined) {
+    return new ethers.Wallet(secret, provider);
+  }
+
+  const childNode = ethers.HDNodeWallet.fromExtendedKey(secret).derivePath(ref.derivationIndex.toString());
+  if (!('privateKey' in childNode) || !childNode.privateKey) {
+    throw new Error('Cannot derive private key from extended public key. Please configure master_wallet_xprv.');
+  }
+  return childNode.connect(provider);
+}
+
+export class CustodySigner extends ethers.AbstractSigner {
+  readonly address: string;
+
+  constructor(
+    private readonly ref: CustodyKeyRef,
+    address: string,
+    // Recorded with each key access, e.g. 'payout_transfer'
+    private readonly purpose: string,
+    provider: ethers.Provider | null = null,
+    private readonly custody: KeyCustody = getKeyCustody()
+  ) {
+    super(provider);
+    this.address = ethers.getAddress(address);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): CustodySigner {
+    return new CustodySigner(this.ref, this.address, this.purpose, provider, this.custody);
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return this.withWallet('sign_transaction', (wallet) => wallet.signTransaction(tx));
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return this.withWallet('sign_message', (wallet) => wallet.signMessage(message));
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    return this.withWallet('sign_typed_data', (wallet) => wallet.signTypedData(domain, types, value));
+  }
+
+  private withWallet<T>(operation: string, fn: (wallet: ethers.BaseWallet) => Promise<T>): Promise<T> {
+    return this.custody.useKey(
+      this.ref.keyId,
+      {
+        purpose: this.purpose,
+        details: {
+          operation,
+          address: this.address,
+          derivation_index: this.ref.derivationIndex ?? null,
+        },
+      },
+      async (secret) => {
+        const wallet = walletFromSecret(this.ref, secret, this.provider);
+        if (wallet.address !== this.address) {
+          throw new Error(`Derived address mismatch! Expected ${this.address}, custody key controls ${wallet.address}`);
+        }
+        return fn(wallet);
+      }
+    );
+  }
+}
+
+/**
+ * Signer for the payout hot wallet
+ * Custody first, then the PAYOUT_WALLET_PRIVATE_KEY / PLATFORM_TREASURY_PRIVATE_KEY
+ * env fallback. Null if neither is configured.
+ */
+export async function getPayoutWalletSigner(provider: ethers.Provider | null = null): Promise<ethers.Signer | null> {
+  const info = await getKeyCustody().getKeyInfo('payout_wallet');
+  if (info?.address) {
+    return new CustodySigner({ keyId: 'payout_wallet' }, info.address, 'payout_transfer', provider);
+  }
+
+  const envKey = process.env.PAYOUT_WALLET_PRIVATE_KEY || process.env.PLATFORM_TREASURY_PRIVATE_KEY;
+  return envKey ? new ethers.Wallet(envKey, provider) : null;
+}
+
+/**
+ * Signer for a user's HD-derived deposit address (sweeps)
+ */
+export function getDepositAddressSigner(
+  derivationIndex: number,
+  depositAddress: string,
+  provider: ethers.Provider | null = null
+): CustodySigner {
+  return new CustodySigner({ keyId: 'master_xprv', derivationIndex }, depositAddress, 'deposit_sweep', provider);
+}
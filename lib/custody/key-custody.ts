@@ -0,0 +1,383 @@
+/**
+ * Key Custody
+ * Holds the platform's signing secrets (payout wallet private key, sweep
+ * master xprv) envelope-encrypted in custody_keys:
+ *   - each key is encrypted with its own data key (AES-256-GCM)
+ *   - the data key is wrapped by the KMS master key (see ./kms)
+ *   - rotating a key issues a new data key under the current master key
+ * Callers never read a secret directly: useKey decrypts it for the duration
+ * of a callback and logs the access to crypto_audit_log. Signing goes through
+ * CustodySigner (./custody-signer) so transfer code only sees an ethers Signer.
+ *
+ * Secrets that predate custody are still plaintext in treasury_settings; the
+ * first lookup imports them into custody_keys and blanks the setting.
+ */
+
+import { ethers } from 'ethers';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { KmsProvider, LocalKmsProvider, openWithKey, sealWithKey } from './kms';
+
+export type CustodyKeyId = 'payout_wallet' | 'master_xprv';
+
+export interface CustodyKeyInfo {
+  keyId: CustodyKeyId;
+  // Wallet address for single keys; null for the HD master xprv
+  address: string | null;
+  version: number;
+  kmsKeyId: string;
+  createdAt: string;
+  rotatedAt: string | null;
+  lastAccessedAt: string | null;
+}
+
+export interface KeyAccess {
+  // What the secret is being used for, e.g. 'payout_transfer', 'deposit_sweep'
+  purpose: string;
+  actorId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface KeyCustody {
+  getKeyInfo(keyId: CustodyKeyId): Promise<CustodyKeyInfo | null>;
+  storeKey(
+    keyId: CustodyKeyId,
+    secret: string,
+    actorId: string | null
+  ): Promise<{ success: boolean; error?: string; info?: CustodyKeyInfo }>;
+  rotateKey(
+    keyId: CustodyKeyId,
+    actorId: string | null
+  ): Promise<{ success: boolean; error?: string; info?: CustodyKeyInfo }>;
+  useKey<T>(keyId: CustodyKeyId, access: KeyAccess, fn: (secret: string) => Promise<T>): Promise<T>;
+}
+
+interface CustodyKeyRow {
+  key_id: CustodyKeyId;
+  address: string | null;
+  ciphertext: string;
+  encrypted_data_key: string;
+  kms_key_id: string;
+  version: number;
+  created_at: string;
+  rotated_at: string | null;
+  last_accessed_at: string | null;
+}
+
+// Where each key lived before custody existed
+const LEGACY_SETTING_KEYS: Record<CustodyKeyId, string> = {
+  payout_wallet: 'payout_wallet_private_key',
+  master_xprv: 'master_wallet_xprv',
+};
+
+function toInfo(row: CustodyKeyRow): CustodyKeyInfo {
+  return {
+    keyId: row.key_id,
+    address: row.address,
+    version: row.version,
+    kmsKeyId: row.kms_key_id,
+    createdAt: row.created_at,
+    rotatedAt: row.rotated_at,
+    lastAccessedAt: row.last_accessed_at,
+  };
+}
+
+/**
+ * Address a secret controls, checked on every signature by CustodySigner
+ */
+function addressForSecret(keyId: CustodyKeyId, secret: string): string | null {
+  if (keyId === 'payout_wallet') {
+    return new ethers.Wallet(secret).address;
+  }
+  return null;
+}
+
+/**
+ * KeyCustody backed by custody_keys with envelope encryption
+ */
+export class EnvelopeKeyCustody implements KeyCustody {
+  private kms: KmsProvider | null = null;
+
+  // The KMS is built lazily so a missing master key only fails callers that
+  // actually need a secret, not every module that imports custody
+  constructor(private kmsFactory: () => KmsProvider = () => LocalKmsProvider.fromEnv()) {}
+
+  private getKms(): KmsProvider {
+    if (!this.kms) {
+      this.kms = this.kmsFactory();
+    }
+    return this.kms;
+  }
+
+  async getKeyInfo(keyId: CustodyKeyId): Promise<CustodyKeyInfo | null> {
+    const row = await this.loadRow(keyId);
+    return row ? toInfo(row) : null;
+  }
+
+  async storeKey(
+    keyId: CustodyKeyId,
+    secret: string,
+    actorId: string | null
+  ): Promise<{ success: boolean; error?: string; info?: CustodyKeyInfo }> {
+    return this.writeKey(keyId, secret, actorId, 'admin');
+  }
+
+  async rotateKey(
+    keyId: CustodyKeyId,
+    actorId: string | null
+  ): Promise<{ success: boolean; error?: string; info?: CustodyKeyInfo }> {
+    const row = await this.loadRow(keyId);
+    if (!row) {
+      return { success: false, error: `Custody key ${keyId} is not configured` };
+    }
+
+    try {
+      const kms = this.getKms();
+      const secret = await this.decrypt(row);
+      const dataKey = await kms.generateDataKey();
+      let ciphertext: string;
+      try {
+        ciphertext = sealWithKey(dataKey.plaintext, Buffer.from(secret, 'utf8'));
+      } finally {
+        dataKey.plaintext.fill(0);
+      }
+
+      const supabase = createServiceRoleClient();
+      const now = new Date().toISOString();
+
+      // Match on version so two concurrent rotations can't both win
+      const { data: updated, error } = await supabase
+        .from('custody_keys')
+        .update({
+          ciphertext,
+          encrypted_data_key: dataKey.encrypted,
+          kms_key_id: dataKey.kmsKeyId,
+          version: row.version + 1,
+          rotated_at: now,
+          rotated_by: actorId,
+        })
+        .eq('key_id', keyId)
+        .eq('version', row.version)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('[KeyCustody] Failed to rotate key:', error);
+        return { success: false, error: 'Failed to rotate key' };
+      }
+      if (!updated) {
+        return { success: false, error: 'Key was changed while rotating; try again' };
+      }
+
+      await this.logEvent('custody_key_rotated', keyId, actorId, {
+        from_version: row.version,
+        to_version: row.version + 1,
+        from_kms_key_id: row.kms_key_id,
+        to_kms_key_id: dataKey.kmsKeyId,
+      });
+
+      return { success: true, info: toInfo(updated as CustodyKeyRow) };
+    } catch (error) {
+      console.error('[KeyCustody] Error rotating key:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to rotate key' };
+    }
+  }
+
+  async useKey<T>(keyId: CustodyKeyId, access: KeyAccess, fn: (secret: string) => Promise<T>): Promise<T> {
+    const row = await this.loadRow(keyId);
+    if (!row) {
+      throw new Error(`Custody key ${keyId} is not configured`);
+    }
+
+    const secret = await this.decrypt(row);
+
+    // Log before handing the secret out so failed uses are recorded too
+    const supabase = createServiceRoleClient();
+    await Promise.all([
+      this.logEvent('custody_key_accessed', keyId, access.actorId ?? null, {
+        purpose: access.purpose,
+        version: row.version,
+        ...access.details,
+      }),
+      supabase
+        .from('custody_keys')
+        .update({ last_accessed_at: new Date().toISOString() })
+        .eq('key_id', keyId),
+    ]);
+
+    return fn(secret);
+  }
+
+  private async decrypt(row: CustodyKeyRow): Promise<string> {
+    const dataKey = await this.getKms().decryptDataKey(row.encrypted_data_key, row.kms_key_id);
+    try {
+      return openWithKey(dataKey, row.ciphertext).toString('utf8');
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  private async writeKey(
+    keyId: CustodyKeyId,
+    secret: string,
+    actorId: string | null,
+    source: 'admin' | 'legacy_import'
+  ): Promise<{ success: boolean; error?: string; info?: CustodyKeyInfo }> {
+    try {
+      const address = addressForSecret(keyId, secret);
+      const dataKey = await this.getKms().generateDataKey();
+      let ciphertext: string;
+      try {
+        ciphertext = sealWithKey(dataKey.plaintext, Buffer.from(secret, 'utf8'));
+      } finally {
+        dataKey.plaintext.fill(0);
+      }
+
+      const supabase = createServiceRoleClient();
+
+      const { data: existing } = await supabase
+        .from('custody_keys')
+        .select('version')
+        .eq('key_id', keyId)
+        .maybeSingle();
+
+      const version = existing ? existing.version + 1 : 1;
+
+      const { data: stored, error } = await supabase
+        .from('custody_keys')
+        .upsert(
+          {
+            key_id: keyId,
+            address,
+            ciphertext,
+            encrypted_data_key: dataKey.encrypted,
+            kms_key_id: dataKey.kmsKeyId,
+            version,
+            created_at: new Date().toISOString(),
+            created_by: actorId,
+            rotated_at: null,
+            rotated_by: null,
+          },
+          { onConflict: 'key_id' }
+        )
+        .select()
+        .single();
+
+      if (error || !stored) {
+        console.error('[KeyCustody] Failed to store key:', error);
+        return { success: false, error: 'Failed to store key' };
+      }
+
+      await this.logEvent('custody_key_stored', keyId, actorId, {
+        source,
+        address,
+        version,
+        replaced: !!existing,
+        kms_key_id: dataKey.kmsKeyId,
+      });
+
+      return { success: true, info: toInfo(stored as CustodyKeyRow) };
+    } catch (error) {
+      console.error('[KeyCustody] Error storing key:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to store key' };
+    }
+  }
+
+  private async loadRow(keyId: CustodyKeyId): Promise<CustodyKeyRow | null> {
+    const supabase = createServiceRoleClient();
+
+    const { data, error } = await supabase
+      .from('custody_keys')
+      .select('key_id, address, ciphertext, encrypted_data_key, kms_key_id, version, created_at, rotated_at, last_accessed_at')
+      .eq('key_id', keyId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[KeyCustody] Failed to load key:', error);
+      return null;
+    }
+    if (data) {
+      return data as CustodyKeyRow;
+    }
+
+    return this.importLegacyKey(keyId);
+  }
+
+  /**
+   * Move a plaintext secret from treasury_settings into custody, then blank it
+   */
+  private async importLegacyKey(keyId: CustodyKeyId): Promise<CustodyKeyRow | null> {
+    const supabase = createServiceRoleClient();
+    const settingKey = LEGACY_SETTING_KEYS[keyId];
+
+    const { data: setting } = await supabase
+      .from('treasury_settings')
+      .select('setting_value')
+      .eq('setting_key', settingKey)
+      .maybeSingle();
+
+    if (!setting?.setting_value) {
+      return null;
+    }
+
+    const result = await this.writeKey(keyId, setting.setting_value, null, 'legacy_import');
+    if (!result.success) {
+      console.error(`[KeyCustody] Could not import ${settingKey} into custody: ${result.error}`);
+      return null;
+    }
+
+    await supabase
+      .from('treasury_settings')
+      .update({ setting_value: '', updated_at: new Date().toISOString() })
+      .eq('setting_key', settingKey);
+
+    console.log(`[KeyCustody] Imported ${settingKey} into custody and cleared the plaintext setting`);
+
+    const { data } = await supabase
+      .from('custody_keys')
+      .select('key_id, address, ciphertext, encrypted_data_key, kms_key_id, version, created_at, rotated_at, last_accessed_at')
+      .eq('key_id', keyId)
+      .maybeSingle();
+
+    return (data as CustodyKeyRow | null) ?? null;
+  }
+
+  private async logEvent(
+    eventType: 'custody_key_stored' | 'custody_key_rotated' | 'custody_key_accessed',
+    keyId: CustodyKeyId,
+    actorId: string | null,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase.from('crypto_audit_log').insert({
+      event_type: eventType,
+      admin_id: actorId,
+      entity_type: 'custody_key',
+      entity_id: null,
+      // Never log the secret or the data key
+      details: { key_id: keyId, ...details },
+    });
+    if (error) {
+      console.error(`[KeyCustody] Failed to write ${eventType} audit event:`, error);
+    }
+  }
+}
+
+let keyCustody: KeyCustody | null = null;
+
+/**
+ * Shared custody instance (envelope encryption over LocalKmsProvider)
+ */
+export function getKeyCustody(): KeyCustody {
+  if (!keyCustody) {
+    keyCustody = new EnvelopeKeyCustody();
+  }
+  return keyCustody;
+}
+
+/**
+ * Swap the custody implementation (e.g. a cloud KMS, or an in-memory one in
+ * tests). Pass null to go back to the default.
+ */
+export function setKeyCustody(custody: KeyCustody | null): void {
+  keyCustody = custody;
+}
@@ -0,0 +1,115 @@
+/**
+ * KMS Provider
+ * Issues and unwraps the per-key data keys used by key custody.
+ *
+ * LocalKmsProvider is a software stand-in for a cloud KMS: data keys are
+ * wrapped with AES-256-GCM under a master key from KEY_CUSTODY_MASTER_KEY
+ * (base64, 32 bytes). To rotate the master key, set the new one there and
+ * move the old one to KEY_CUSTODY_PREVIOUS_MASTER_KEYS (comma-separated) until
+ * every custody key has been rotated onto the new master.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+export interface DataKey {
+  plaintext: Buffer;
+  // Data key wrapped by the master key; safe to store
+  encrypted: string;
+  // Which master key wrapped it
+  kmsKeyId: string;
+}
+
+export interface KmsProvider {
+  // Master key new data keys are wrapped with
+  readonly keyId: string;
+  generateDataKey(): Promise<DataKey>;
+  decryptDataKey(encrypted: string, kmsKeyId: string): Promise<Buffer>;
+}
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * AES-256-GCM encrypt; output is iv.tag.ciphertext, each part base64
+ */
+export function sealWithKey(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * Reverse of sealWithKey. Throws if the key is wrong or the data was altered.
+ */
+export function openWithKey(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted payload');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function parseMasterKey(encoded: string): Buffer {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Key custody master key must be ${KEY_BYTES} bytes (base64 encoded)`);
+  }
+  return key;
+}
+
+// Stable, non-reversible id for a master key so stored rows can name it
+function fingerprint(key: Buffer): string {
+  return `local:${createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+}
+
+export class LocalKmsProvider implements KmsProvider {
+  readonly keyId: string;
+  private masterKeys = new Map<string, Buffer>();
+
+  constructor(masterKey: string, previousMasterKeys: string[] = []) {
+    const current = parseMasterKey(masterKey);
+    this.keyId = fingerprint(current);
+    this.masterKeys.set(this.keyId, current);
+
+    for (const encoded of previousMasterKeys) {
+      const key = parseMasterKey(encoded);
+      this.masterKeys.set(fingerprint(key), key);
+    }
+  }
+
+  /**
+   * Build from KEY_CUSTODY_MASTER_KEY / KEY_CUSTODY_PREVIOUS_MASTER_KEYS
+   */
+  static fromEnv(): LocalKmsProvider {
+    const masterKey = process.env.KEY_CUSTODY_MASTER_KEY;
+    if (!masterKey) {
+      throw new Error('KEY_CUSTODY_MASTER_KEY is not configured');
+    }
+    const previous = (process.env.KEY_CUSTODY_PREVIOUS_MASTER_KEYS || '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean);
+    return new LocalKmsProvider(masterKey, previous);
+  }
+
+  async generateDataKey(): Promise<DataKey> {
+    const plaintext = randomBytes(KEY_BYTES);
+    return {
+      plaintext,
+      encrypted: sealWithKey(this.masterKeys.get(this.keyId)!, plaintext),
+      kmsKeyId: this.keyId,
+    };
+  }
+
+  async decryptDataKey(encrypted: string, kmsKeyId: string): Promise<Buffer> {
+    const masterKey = this.masterKeys.get(kmsKeyId);
+    if (!masterKey) {
+      throw new Error(`Master key ${kmsKeyId} is not available; add it to KEY_CUSTODY_PREVIOUS_MASTER_KEYS`);
+    }
+    return openWithKey(masterKey, encrypted);
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Ledger Service
+ * Double-entry journal for every movement of platform funds.
+ *
+ * Each entry is a set of debit/credit postings that must balance per currency;
+ * the post_ledger_entry RPC enforces this in the database, so a posting that
+ * doesn't balance is rejected rather than stored. Account balances are derived
+ * from postings only (ledger_account_balances view).
+ *
+ * Posting never throws: the money movement it describes has already happened
+ * on-chain or in the payments tables, so a ledger failure is logged and left
+ * for check_ledger_integrity / the financials page to surface instead of
+ * aborting the caller. Every helper takes an idempotency key derived from the
+ * source record, so retried crons and webhooks can post freely.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { ChainKey, DEFAULT_CHAIN } from '@/lib/chains/registry';
+
+const PAGE_SIZE = 1000;
+
+export type LedgerAccountType = 'asset' | 'liability' | 'revenue' | 'expense';
+export type LedgerCurrency = 'USDC' | 'POL' | 'ETH';
+export type LedgerDirection = 'debit' | 'credit';
+
+export type LedgerEntryType =
+  | 'deposit_received'
+  | 'payment_applied'
+  | 'deposit_swept'
+  | 'commission_accrued'
+  | 'commission_cancelled'
+  | 'commission_paid'
+  | 'payout_wallet_funded'
+  | 'gas_funding'
+  | 'manual_adjustment';
+
+/** System account codes seeded by the ledger migration. */
+export const LEDGER_ACCOUNTS = {
+  TREASURY: 'treasury',
+  PAYOUT_WALLET: 'payout_wallet',
+  GAS_TANK: 'gas_tank',
+  UNAPPLIED_DEPOSITS: 'unapplied_deposits',
+  COMMISSIONS_PAYABLE: 'commissions_payable',
+  PLATFORM_REVENUE: 'platform_revenue',
+  NETWORK_FEES: 'network_fees',
+} as const;
+
+export interface LedgerLine {
+  account_code: string;
+  direction: LedgerDirection;
+  amount: number;
+  // Only needed when the account may not exist yet (per-member deposit accounts)
+  account_type?: LedgerAccountType;
+  currency?: LedgerCurrency;
+  name?: string;
+  user_id?: string;
+  address?: string;
+}
+
+export interface DepositAccountTotals {
+  balanceUsdc: number;
+  // Deposit accounts holding a non-dust balance
+  fundedAccounts: number;
+}
+
+export interface LedgerEntryInput {
+  entryType: LedgerEntryType;
+  lines: LedgerLine[];
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+  idempotencyKey?: string;
+  txHash?: string;
+  createdBy?: string | null;
+}
+
+export interface LedgerAccountBalance {
+  id: string;
+  account_code: string;
+  account_type: LedgerAccountType;
+  currency: LedgerCurrency;
+  name: string;
+  user_id: string | null;
+  address: string | null;
+  total_debits: number;
+  total_credits: number;
+  balance: number;
+}
+
+export interface LedgerIntegrityIssue {
+  entry_id: string;
+  currency: LedgerCurrency | null;
+  total_debits: number;
+  total_credits: number;
+  posting_count: number;
+}
+
+/**
+ * Account code for a member's HD deposit address. Addresses are lowercased so
+ * webhook (lowercase) and DB (checksum-cased) paths land on the same account.
+ * The same address exists on every EVM chain, so non-Polygon chains get their
+ * own account (Polygon keeps the original unprefixed code).
+ */
+export function depositAccountCode(address: string, chain: ChainKey = DEFAULT_CHAIN): string {
+  return chain === DEFAULT_CHAIN
+    ? `deposit:${address.toLowerCase()}`
+    : `deposit:${chain}:${address.toLowerCase()}`;
+}
+
+function depositAccountLine(
+  address: string,
+  userId: string | null,
+  direction: LedgerDirection,
+  amount: number,
+  chain: ChainKey = DEFAULT_CHAIN
+): LedgerLine {
+  return {
+    account_code: depositAccountCode(address, chain),
+    direction,
+    amount,
+    account_type: 'asset',
+    currency: 'USDC',
+    name: chain === DEFAULT_CHAIN
+      ? `Deposit address ${address.toLowerCase()}`
+      : `Deposit address ${address.toLowerCase()} (${chain})`,
+    user_id: userId || undefined,
+    address: address.toLowerCase(),
+  };
+}
+
+/**
+ * Whether debits equal credits in every currency. Lines without a currency
+ * are USDC (every system account except gas_tank / network_fees).
+ */
+export function isBalanced(lines: LedgerLine[]): boolean {
+  if (lines.length < 2) return false;
+  const net = new Map<string, number>();
+  for (const line of lines) {
+    if (!(line.amount > 0)) return false;
+    // Work in micro-units to avoid float drift on 6-decimal amounts
+    const micro = Math.round(line.amount * 1_000_000);
+    const currency = line.currency || 'USDC';
+    net.set(currency, (net.get(currency) || 0) + (line.direction === 'debit' ? micro : -micro));
+  }
+  return Array.from(net.values()).every((v) => v === 0);
+}
+
+/**
+ * Post a journal entry. Returns the entry id, or null if the posting failed.
+ */
+export async function postLedgerEntry(entry: LedgerEntryInput): Promise<string | null> {
+  if (!isBalanced(entry.lines)) {
+    console.error(`[Ledger] Refusing to post unbalanced ${entry.entryType} entry`, entry.lines);
+    return null;
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase.rpc('post_ledger_entry', {
+      p_entry_type: entry.entryType,
+      p_lines: entry.lines.map((l) => ({ ...l, amount: l.amount.toFixed(6) })),
+      p_description: entry.description ?? null,
+      p_reference_type: entry.referenceType ?? null,
+      p_reference_id: entry.referenceId ?? null,
+      p_idempotency_key: entry.idempotencyKey ?? null,
+      p_tx_hash: entry.txHash ?? null,
+      p_created_by: entry.createdBy ?? null,
+    });
+
+    if (error) {
+      console.error(`[Ledger] Failed to post ${entry.entryType} (${entry.idempotencyKey || 'no key'}):`, error);
+      return null;
+    }
+
+    return data as string;
+  } catch (error) {
+    console.error(`[Ledger] Error posting ${entry.entryType}:`, error);
+    return null;
+  }
+}
+
+/**
+ * USDC arrived at a member's deposit address. Held as unapplied until a payment
+ * consumes it, so over/underpayments stay visible as a liability.
+ */
+export async function postDepositReceived(params: {
+  usdcTransactionId: string;
+  userId: string;
+  depositAddress: string;
+  amountUsdc: number;
+  txHash?: string;
+  chain?: ChainKey;
+}): Promise<string | null> {
+  return postLedgerEntry({
+    entryType: 'deposit_received',
+    lines: [
+      depositAccountLine(params.depositAddress, params.userId, 'debit', params.amountUsdc, params.chain),
+      { account_code: LEDGER_ACCOUNTS.UNAPPLIED_DEPOSITS, direction: 'credit', amount: params.amountUsdc },
+    ],
+    description: `Deposit from member ${params.userId}`,
+    referenceType: 'usdc_transaction',
+    referenceId: params.usdcTransactionId,
+    idempotencyKey: `deposit_received:${params.usdcTransactionId}`,
+    txHash: params.txHash,
+  });
+}
+
+/**
+ * A payment consumed unapplied funds. Subscription payments are posted by
+ * distribute_to_upline_batch (pass p_payment_id); initial unlocks don't
+ * distribute volume, so their callers post here directly.
+ */
+export async function postPaymentApplied(params: {
+  paymentId: string;
+  userId: string;
+  amountUsdc: number;
+}): Promise<string | null> {
+  return postLedgerEntry({
+    entryType: 'payment_applied',
+    lines: [
+      { account_code: LEDGER_ACCOUNTS.UNAPPLIED_DEPOSITS, direction: 'debit', amount: params.amountUsdc },
+      { account_code: LEDGER_ACCOUNTS.PLATFORM_REVENUE, direction: 'credit', amount: params.amountUsdc },
+    ],
+    description: `Payment from member ${params.userId}`,
+    referenceType: 'payment',
+    referenceId: params.paymentId,
+    idempotencyKey: `payment_applied:${params.paymentId}`,
+  });
+}
+
+/**
+ * A deposit address was swept into the treasury. One entry per on-chain
+ * transfer, keyed on the deposit address and that transfer's tx hash, so the
+ * sweep service and the sweep-verify cron post the same key for the same
+ * transfer (a multi-token sweep is several transfers).
+ */
+export async function postDepositSwept(params: {
+  userId: string;
+  depositAddress: string;
+  amountUsdc: number;
+  txHash: string;
+  chain?: ChainKey;
+}): Promise<string | null> {
+  return postLedgerEntry({
+    entryType: 'deposit_swept',
+    lines: [
+      { account_code: LEDGER_ACCOUNTS.TREASURY, direction: 'debit', amount: params.amountUsdc },
+      depositAccountLine(params.depositAddress, params.userId, 'credit', params.amountUsdc, params.chain),
+    ],
+    description: `Sweep of ${params.depositAddress.toLowerCase()} to treasury`,
+    referenceType: 'user',
+    referenceId: params.userId,
+    idempotencyKey: `deposit_swept:${params.depositAddress.toLowerCase()}:${params.txHash.toLowerCase()}`,
+    txHash: params.txHash,
+  });
+}
+
+/**
+ * USDC moved from the treasury to the payout wallet. Funding is done by hand,
+ * so the reconciliation run posts it from the on-chain transfer.
+ */
+export async function postPayoutWalletFunded(params: {
+  amountUsdc: number;
+  txHash: string;
+}): Promise<string | null> {
+  return postLedgerEntry({
+    entryType: 'payout_wallet_funded',
+    lines: [
+      { account_code: LEDGER_ACCOUNTS.PAYOUT_WALLET, direction: 'debit', amount: params.amountUsdc },
+      { account_code: LEDGER_ACCOUNTS.TREASURY, direction: 'credit', amount: params.amountUsdc },
+    ],
+    description: 'Treasury to payout wallet',
+    referenceType: 'tx',
+    referenceId: params.txHash.toLowerCase(),
+    idempotencyKey: `payout_wallet_funded:${params.txHash.toLowerCase()}`,
+    txHash: params.txHash,
+  });
+}
+
+/**
+ * Commissions left the payout wallet. One entry per on-chain transfer; the
+ * accrual side was posted by the commissions trigger when each row was created.
+ */
+export async function postCommissionPaid(params: {
+  commissionIds: string[];
+  userId: string;
+  amountUsdc: number;
+  txHash: string;
+  adminId?: string | null;
+}): Promise<string | null> {
+  return postLedgerEntry({
+    entryType: 'commission_paid',
+    lines: [
+      { account_code: LEDGER_ACCOUNTS.COMMISSIONS_PAYABLE, direction: 'debit', amount: params.amountUsdc },
+      { account_code: LEDGER_ACCOUNTS.PAYOUT_WALLET, direction: 'credit', amount: params.amountUsdc },
+    ],
+    description: `Payout of ${params.commissionIds.length} commission(s) to member ${params.userId}`,
+    referenceType: 'commission',
+    referenceId: params.commissionIds.join(','),
+    idempotencyKey: `commission_paid:${params.txHash.toLowerCase()}`,
+    txHash: params.txHash,
+    createdBy: params.adminId ?? null,
+  });
+}
+
+/**
+ * Native gas sent from a chain's gas tank to a deposit address so it can pay
+ * for its sweep. Deposit addresses don't hold gas as an asset we track, so the
+ * funding is expensed immediately. Polygon uses the seeded POL accounts; other
+ * chains get per-chain ETH accounts.
+ */
+export async function postGasFunding(params: {
+  depositAddress: string;
+  amountPol: number;
+  txHash: string;
+  chain?: ChainKey;
+}): Promise<string | null> {
+  const chain = params.chain || DEFAULT_CHAIN;
+  const lines: LedgerLine[] = chain === DEFAULT_CHAIN
+    ? [
+        { account_code: LEDGER_ACCOUNTS.NETWORK_FEES, direction: 'debit', amount: params.amountPol, currency: 'POL' },
+        { account_code: LEDGER_ACCOUNTS.GAS_TANK, direction: 'credit', amount: params.amountPol, currency: 'POL' },
+      ]
+    : [
+        {
+          account_code: `${LEDGER_ACCOUNTS.NETWORK_FEES}:${chain}`,
+          direction: 'debit',
+          amount: params.amountPol,
+          currency: 'ETH',
+          account_type: 'expense',
+          name: `Network fees (${chain})`,
+        },
+        {
+          account_code: `${LEDGER_ACCOUNTS.GAS_TANK}:${chain}`,
+          direction: 'credit',
+          amount: params.amountPol,
+          currency: 'ETH',
+          account_type: 'asset',
+          name: `Gas tank (${chain})`,
+        },
+      ];
+
+  return postLedgerEntry({
+    entryType: 'gas_funding',
+    lines,
+    description: `Gas funding for ${params.depositAddress.toLowerCase()}${chain === DEFAULT_CHAIN ? '' : ` on ${chain}`}`,
+    referenceType: 'deposit_address',
+    referenceId: params.depositAddress.toLowerCase(),
+    idempotencyKey: `gas_funding:${params.txHash.toLowerCase()}`,
+    txHash: params.txHash,
+  });
+}
+
+/**
+ * Current balance of every ledger account (system accounts first).
+ */
+export async function getLedgerBalances(): Promise<LedgerAccountBalance[]> {
+  const supabase = createServiceRoleClient();
+  const balances: LedgerAccountBalance[] = [];
+
+  // One deposit account per member, so page past the API row cap
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('ledger_account_balances')
+      .select('*')
+      .order('account_code', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error || !data) {
+      console.error('[Ledger] Failed to fetch balances:', error);
+      return [];
+    }
+
+    for (const row of data) {
+      balances.push({
+        ...row,
+        total_debits: parseFloat(row.total_debits),
+        total_credits: parseFloat(row.total_credits),
+        balance: parseFloat(row.balance),
+      });
+    }
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return balances;
+}
+
+/**
+ * Unswept USDC across all per-member deposit accounts, summed in the
+ * database. Null when the ledger can't be read.
+ */
+export async function getDepositAccountTotals(): Promise<DepositAccountTotals | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('ledger_deposit_totals').single();
+
+  if (error || !data) {
+    console.error('[Ledger] Failed to sum deposit accounts:', error);
+    return null;
+  }
+
+  const totals = data as { balance_usdc: string | number; funded_accounts: number };
+  return {
+    balanceUsdc: Number(totals.balance_usdc),
+    fundedAccounts: totals.funded_accounts,
+  };
+}
+
+/**
+ * Entries that violate the double-entry invariant. Empty means the ledger is sound.
+ */
+export async function checkLedgerIntegrity(): Promise<LedgerIntegrityIssue[] | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('check_ledger_integrity');
+
+  if (error) {
+    console.error('[Ledger] Integrity check failed:', error);
+    return null;
+  }
+
+  return (data || []).map((row: LedgerIntegrityIssue) => ({
+    ...row,
+    total_debits: Number(row.total_debits),
+    total_credits: Number(row.total_credits),
+    posting_count: Number(row.posting_count),
+  }));
+}
@@ -1,35 +1,141 @@
 // =============================================
 // Rate Limiting Middleware
-// Simple in-memory rate limiter for API endpoints
-// Can be enhanced with Redis for production scale
+// Sliding-window rate limiter for API endpoints with a pluggable store:
+// Postgres (shared across serverless instances) or in-memory (local dev)
 // =============================================
 
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 
-interface RateLimitConfig {
+type KeyGenerator = (req: NextRequest) => string | Promise<string>;
+
+export interface RateLimitConfig {
+  name?: string; // Namespaces counters so routes don't share quota (defaults to the request path)
   limit: number; // Max requests
   windowMs: number; // Time window in milliseconds
-  keyGenerator?: (req: NextRequest) => string; // Generate unique key per client
+  keyGenerator?: KeyGenerator; // Generate unique key per client
   message?: string; // Custom error message
+  onLimited?: (req: NextRequest, result: RateLimitResult) => NextResponse; // Custom blocked response
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // ms since epoch
+}
+
+export type RateLimitHit = Omit<RateLimitResult, 'limit'>;
+
+/**
+ * Backend that counts hits. Implementations must be atomic per key: two
+ * concurrent hits may not both see the same count.
+ */
+export interface RateLimitStore {
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Sliding-window estimate from two fixed-window buckets: the previous bucket
+ * counts in proportion to how much of it still overlaps the sliding window.
+ */
+function slidingWindowEstimate(previous: number, current: number, elapsedMs: number, windowMs: number): number {
+  return previous * (1 - elapsedMs / windowMs) + current;
 }
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
+/**
+ * Process-local store. Only correct for a single long-lived process (local
+ * dev, tests); on serverless every instance keeps its own counters.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { windowStart: number; previous: number; current: number }>();
+  private lastPrune = 0;
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const windowStart = now - (now % windowMs);
+    this.prune(now, windowMs);
+
+    let bucket = this.buckets.get(key);
+    if (!bucket || bucket.windowStart < windowStart - windowMs) {
+      bucket = { windowStart, previous: 0, current: 0 };
+    } else if (bucket.windowStart < windowStart) {
+      bucket = { windowStart, previous: bucket.current, current: 0 };
+    }
+    this.buckets.set(key, bucket);
+
+    const estimate = slidingWindowEstimate(bucket.previous, bucket.current + 1, now - windowStart, windowMs);
+    const resetAt = windowStart + windowMs;
+
+    if (estimate > limit) {
+      return { allowed: false, remaining: 0, resetAt };
+    }
+
+    bucket.current++;
+    return { allowed: true, remaining: Math.max(Math.floor(limit - estimate), 0), resetAt };
+  }
+
+  private prune(now: number, windowMs: number) {
+    if (now - this.lastPrune < 60000) return; // At most once a minute
+    this.lastPrune = now;
+    for (const [key, bucket] of Array.from(this.buckets.entries())) {
+      if (bucket.windowStart < now - 2 * windowMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
 }
 
-// In-memory store (replace with Redis for production scale)
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * Shared store backed by the rate_limit_buckets table. The rate_limit_hit RPC
+ * counts and checks in one statement, so instances can't race each other.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitHit> {
+    const supabase = createServiceRoleClient();
+    const { data, error } = await supabase.rpc('rate_limit_hit', {
+      p_key: key,
+      p_limit: limit,
+      p_window_ms: windowMs,
+    });
 
-// Clean up expired entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      throw new Error(`rate_limit_hit failed: ${error?.message || 'no result'}`);
     }
+
+    return {
+      allowed: row.allowed,
+      remaining: row.remaining,
+      resetAt: new Date(row.reset_at).getTime(),
+    };
   }
-}, 60000); // Clean every minute
+}
+
+const memoryStore = new MemoryRateLimitStore();
+let activeStore: RateLimitStore | null = null;
+
+/**
+ * Store used by checkRateLimit. RATE_LIMIT_STORE=memory|postgres overrides the
+ * default, which is Postgres whenever a service role key is configured.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    const configured = process.env.RATE_LIMIT_STORE;
+    const usePostgres = configured
+      ? configured === 'postgres'
+      : !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+    activeStore = usePostgres ? new PostgresRateLimitStore() : memoryStore;
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the store (e.g. with a Redis implementation).
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  activeStore = store;
+}
 
 /**
  * Default key generator - uses IP address
@@ -42,77 +148,107 @@ function defaultKeyGenerator(req: NextRequest): string {
 }
 
 /**
- * Rate limit check - returns null if allowed, or error response if blocked
+ * Count a request against a policy and return the outcome without building a
+ * response. If the shared store is unreachable the request is counted locally
+ * instead, so an outage degrades to per-instance limiting rather than none.
  */
-export async function checkRateLimit(
+export async function limitRequest(
   req: NextRequest,
   config: RateLimitConfig
-): Promise<NextResponse | null> {
-  const {
-    limit,
-    windowMs,
-    keyGenerator = defaultKeyGenerator,
-    message = 'Too many requests. Please try again later.',
-  } = config;
-
-  const key = keyGenerator(req);
-  const now = Date.now();
-
-  let entry = rateLimitStore.get(key);
-
-  if (!entry || entry.resetTime < now) {
-    // Create new entry or reset expired one
-    entry = {
-      count: 1,
-      resetTime: now + windowMs,
-    };
-    rateLimitStore.set(key, entry);
-    return null; // Allowed
+): Promise<RateLimitResult> {
+  const { limit, windowMs, keyGenerator = defaultKeyGenerator } = config;
+  const scope = config.name || new URL(req.url).pathname;
+  const key = `${scope}:${await keyGenerator(req)}`;
+  const store = getRateLimitStore();
+
+  let hit: RateLimitHit;
+  try {
+    hit = await store.hit(key, limit, windowMs);
+  } catch (error) {
+    console.error('[RateLimit] Store error, falling back to in-memory counters:', error);
+    hit = await memoryStore.hit(key, limit, windowMs);
   }
 
-  // Increment count
-  entry.count++;
+  return { ...hit, limit };
+}
 
-  if (entry.count > limit) {
-    // Rate limited
-    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
+/**
+ * Standard X-RateLimit-* headers for a result
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetAt / 1000).toString(),
+  };
+}
+
+/**
+ * Copy the X-RateLimit-* headers onto an allowed response
+ */
+export function applyRateLimitHeaders<T extends NextResponse>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
 
-    return NextResponse.json(
-      {
-        error: 'Rate limit exceeded',
-        message,
-        retryAfter,
+function rateLimitExceededResponse(result: RateLimitResult, message: string): NextResponse {
+  const retryAfter = Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 1);
+
+  return NextResponse.json(
+    {
+      error: 'Rate limit exceeded',
+      message,
+      retryAfter,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfter.toString(),
+        ...rateLimitHeaders(result),
       },
-      {
-        status: 429,
-        headers: {
-          'Retry-After': retryAfter.toString(),
-          'X-RateLimit-Limit': limit.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(entry.resetTime / 1000).toString(),
-        },
-      }
-    );
+    }
+  );
+}
+
+/**
+ * Rate limit check - returns null if allowed, or error response if blocked.
+ * Use withRateLimit when the allowed response should carry X-RateLimit-* headers.
+ */
+export async function checkRateLimit(
+  req: NextRequest,
+  config: RateLimitConfig
+): Promise<NextResponse | null> {
+  const result = await limitRequest(req, config);
+
+  if (!result.allowed) {
+    return config.onLimited
+      ? config.onLimited(req, result)
+      : rateLimitExceededResponse(result, config.message || 'Too many requests. Please try again later.');
   }
 
   return null; // Allowed
 }
 
 /**
- * Rate limit wrapper for API handlers
+ * Rate limit wrapper for API handlers. Allowed responses get the
+ * X-RateLimit-* headers too, so clients can back off before hitting a 429.
  */
 export function withRateLimit(
   handler: (req: NextRequest) => Promise<NextResponse>,
   config: RateLimitConfig
 ) {
   return async (req: NextRequest): Promise<NextResponse> => {
-    const rateLimitResponse = await checkRateLimit(req, config);
+    const result = await limitRequest(req, config);
 
-    if (rateLimitResponse) {
-      return rateLimitResponse;
+    if (!result.allowed) {
+      return config.onLimited
+        ? config.onLimited(req, result)
+        : rateLimitExceededResponse(result, config.message || 'Too many requests. Please try again later.');
     }
 
-    return handler(req);
+    return applyRateLimitHeaders(await handler(req), result);
   };
 }
 
@@ -122,6 +258,7 @@ export function withRateLimit(
 export const RATE_LIMITS = {
   // Payment endpoints - strict limits
   payment: {
+    name: 'payment',
     limit: 10,
     windowMs: 60 * 60 * 1000, // 10 per hour
     message: 'Too many payment requests. Please wait before trying again.',
@@ -129,13 +266,62 @@ export const RATE_LIMITS = {
 
   // Authentication endpoints - prevent brute force
   auth: {
+    name: 'auth',
     limit: 5,
     windowMs: 15 * 60 * 1000, // 5 per 15 minutes
     message: 'Too many authentication attempts. Please wait 15 minutes.',
   },
 
+  // OAuth / magic link / password reset callback - one hit per sign-in
+  authCallback: {
+    name: 'auth-callback',
+    limit: 20,
+    windowMs: 15 * 60 * 1000, // 20 per 15 minutes
+    message: 'Too many sign-in attempts. Please wait 15 minutes.',
+  },
+
+  // Referral code lookup - public, so cap code enumeration
+  referralValidation: {
+    name: 'referral-validation',
+    limit: 20,
+    windowMs: 10 * 60 * 1000, // 20 per 10 minutes
+    message: 'Too many referral code checks. Please wait a few minutes.',
+  },
+
+  // Sending SMS codes costs money per message
+  smsOptIn: {
+    name: 'sms-opt-in',
+    limit: 3,
+    windowMs: 60 * 60 * 1000, // 3 per hour
+    message: 'Too many verification codes requested. Please wait before requesting another.',
+  },
+
+  // Guessing a 6-digit code
+  smsVerification: {
+    name: 'sms-verification',
+    limit: 5,
+    windowMs: 15 * 60 * 1000, // 5 per 15 minutes
+    message: 'Too many verification attempts. Please wait 15 minutes.',
+  },
+
+  // WhatsApp codes are billed per message too
+  whatsappOptIn: {
+    name: 'whatsapp-opt-in',
+    limit: 3,
+    windowMs: 60 * 60 * 1000, // 3 per hour
+    message: 'Too many verification codes requested. Please wait before requesting another.',
+  },
+
+  whatsappVerification: {
+    name: 'whatsapp-verification',
+    limit: 5,
+    windowMs: 15 * 60 * 1000, // 5 per 15 minutes
+    message: 'Too many verification attempts. Please wait 15 minutes.',
+  },
+
   // Wallet operations
   wallet: {
+    name: 'wallet',
     limit: 20,
     windowMs: 60 * 60 * 1000, // 20 per hour
     message: 'Too many wallet operations. Please try again later.',
@@ -143,6 +329,7 @@ export const RATE_LIMITS = {
 
   // General API endpoints
   api: {
+    name: 'api',
     limit: 100,
     windowMs: 60 * 1000, // 100 per minute
     message: 'Rate limit exceeded. Please slow down.',
@@ -150,11 +337,12 @@ export const RATE_LIMITS = {
 
   // Admin endpoints - more lenient
   admin: {
+    name: 'admin',
     limit: 200,
     windowMs: 60 * 1000, // 200 per minute
     message: 'Admin rate limit exceeded.',
   },
-};
+} satisfies Record<string, RateLimitConfig>;
 
 /**
  * Key generator that uses user ID when authenticated
@@ -168,6 +356,23 @@ export function userIdKeyGenerator(userId?: string): (req: NextRequest) => strin
   };
 }
 
+/**
+ * Key generator that resolves the signed-in user from the session cookie, so
+ * limits follow the account across IPs. Falls back to IP when signed out.
+ */
+export async function sessionUserKeyGenerator(req: NextRequest): Promise<string> {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      return `user:${user.id}`;
+    }
+  } catch {
+    // No session - fall through to IP
+  }
+  return defaultKeyGenerator(req);
+}
+
 /**
  * Key generator that combines IP and endpoint path
  */
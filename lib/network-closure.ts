@@ -0,0 +1,244 @@
+/**
+ * Network Closure
+ *
+ * network_closure holds every (ancestor, descendant) pair of placed members
+ * with the number of levels between them, kept up to date by a trigger on
+ * users. Downline, upline and tree-children lookups are a single indexed
+ * query each, however large the subtree.
+ *
+ * check_network_consistency compares the table with positions and rebuilds
+ * total_network_count / active_network_count from it.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { calculateChildPositions, formatNetworkPositionId, getChildSlotNumber, parseNetworkPositionId } from '@/lib/network-positions'
+
+/**
+ * Member above a user, nearest first. Contact details are left out: the
+ * chain is shown to members below these people.
+ */
+export interface UplineMember {
+  userId: string
+  name: string | null
+  networkPositionId: string
+  level: number
+  position: number
+  depth: number
+  isActive: boolean
+}
+
+/**
+ * One of the three slots directly below a user
+ */
+export interface TreeChild {
+  child_id: string | null
+  child_name: string
+  child_email: string | null
+  child_position_id: string
+  child_slot_number: number
+  is_filled: boolean
+  is_direct_referral: boolean
+}
+
+export interface NetworkCounterDrift {
+  user_id: string
+  total_network_count: number
+  expected_total: number
+  active_network_count: number
+  expected_active: number
+}
+
+export interface NetworkConsistencyReport {
+  closureMissing: number
+  closureStale: number
+  closureRebuilt: boolean
+  countersDrifted: number
+  countersFixed: number
+  // First 50 users whose counters differ from the closure
+  drifted: NetworkCounterDrift[]
+}
+
+type ClosureUser = {
+  id: string
+  name: string | null
+  email?: string | null
+  network_position_id: string
+  network_level: number
+  network_position: number
+  is_active: boolean | null
+  referred_by?: string | null
+}
+
+function embedded(value: unknown): ClosureUser | null {
+  return (Array.isArray(value) ? value[0] : value) as ClosureUser | null
+}
+
+// Rows per read; the API caps a single read
+const PAGE_SIZE = 1000
+
+/**
+ * Ids of everyone below a user
+ * @param maxDepth - Only this many levels down (all levels when omitted)
+ */
+export async function getDownlineIds(ancestorId: string, maxDepth?: number): Promise<string[]> {
+  const supabase = createServiceRoleClient()
+  const ids: string[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('network_closure')
+      .select('descendant_id')
+      .eq('ancestor_id', ancestorId)
+
+    if (maxDepth !== undefined) {
+      query = query.lte('depth', maxDepth)
+    }
+
+    const { data, error } = await query
+      .order('descendant_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load downline: ${error.message}`)
+    }
+
+    for (const row of data || []) ids.push(row.descendant_id as string)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return ids
+}
+
+/**
+ * Levels between ancestorId and memberId, or null when memberId isn't below
+ * ancestorId
+ */
+export async function getDownlineDepth(ancestorId: string, memberId: string): Promise<number | null> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('network_closure')
+    .select('depth')
+    .eq('ancestor_id', ancestorId)
+    .eq('descendant_id', memberId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to check downline: ${error.message}`)
+  }
+
+  return data ? (data.depth as number) : null
+}
+
+/**
+ * Whether memberId sits anywhere below ancestorId
+ */
+export async function isInDownline(ancestorId: string, memberId: string): Promise<boolean> {
+  return (await getDownlineDepth(ancestorId, memberId)) !== null
+}
+
+/**
+ * Everyone above a user, nearest first
+ * @param maxDepth - Only this many levels up (up to the root when omitted)
+ */
+export async function getUpline(userId: string, maxDepth?: number): Promise<UplineMember[]> {
+  const supabase = createServiceRoleClient()
+  let query = supabase
+    .from('network_closure')
+    .select('depth, ancestor:users!network_closure_ancestor_id_fkey(id, name, network_position_id, network_level, network_position, is_active)')
+    .eq('descendant_id', userId)
+
+  if (maxDepth !== undefined) {
+    query = query.lte('depth', maxDepth)
+  }
+
+  const { data, error } = await query.order('depth', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load upline: ${error.message}`)
+  }
+
+  return (data || []).flatMap((row) => {
+    const ancestor = embedded(row.ancestor)
+    if (!ancestor) return []
+    return [{
+      userId: ancestor.id,
+      name: ancestor.name,
+      networkPositionId: ancestor.network_position_id,
+      level: ancestor.network_level,
+      position: ancestor.network_position,
+      depth: row.depth as number,
+      isActive: !!ancestor.is_active
+    }]
+  })
+}
+
+/**
+ * The three slots below a position, filled or not
+ * @param userId - Occupant of positionId; decides is_direct_referral
+ */
+export async function getTreeChildren(userId: string, positionId: string): Promise<TreeChild[]> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('network_closure')
+    .select('descendant:users!network_closure_descendant_id_fkey(id, name, email, network_position_id, network_level, network_position, is_active, referred_by)')
+    .eq('ancestor_id', userId)
+    .eq('depth', 1)
+
+  if (error) {
+    throw new Error(`Failed to load tree children: ${error.message}`)
+  }
+
+  const bySlot = new Map<number, ClosureUser>()
+  for (const row of data || []) {
+    const child = embedded(row.descendant)
+    if (child) bySlot.set(getChildSlotNumber(child.network_position), child)
+  }
+
+  const { level, position } = parseNetworkPositionId(positionId)
+
+  return calculateChildPositions(position).map((childPosition) => {
+    const slot = getChildSlotNumber(childPosition)
+    const child = bySlot.get(slot)
+    return {
+      child_id: child?.id ?? null,
+      child_name: child?.name ?? '',
+      child_email: child?.email ?? null,
+      child_position_id: child?.network_position_id ?? formatNetworkPositionId(level + 1, childPosition),
+      child_slot_number: slot,
+      is_filled: !!child,
+      is_direct_referral: !!child && child.referred_by === userId
+    }
+  })
+}
+
+/**
+ * Compare the closure with positions and the network counters with the
+ * closure
+ * @param repair - Rebuild the closure if it is off and rewrite drifted counters
+ */
+export async function checkNetworkConsistency(repair = false): Promise<NetworkConsistencyReport> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase.rpc('check_network_consistency', { p_repair: repair })
+
+  if (error) {
+    throw new Error(`Failed to check network consistency: ${error.message}`)
+  }
+
+  const result = data as {
+    closure_missing: number
+    closure_stale: number
+    closure_rebuilt: boolean
+    counters_drifted: number
+    counters_fixed: number
+    drifted: NetworkCounterDrift[] | null
+  }
+
+  return {
+    closureMissing: result.closure_missing,
+    closureStale: result.closure_stale,
+    closureRebuilt: result.closure_rebuilt,
+    countersDrifted: result.counters_drifted,
+    countersFixed: result.counters_fixed,
+    drifted: result.drifted || []
+  }
+}
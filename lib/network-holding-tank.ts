@@ -0,0 +1,167 @@
+/**
+ * Network Holding Tank
+ *
+ * With holding_tank_days set (treasury_settings; 0 = off), newly paid members
+ * wait here instead of being placed straight away. Their sponsor can drop
+ * them into any open slot in their own subtree; whoever is still waiting when
+ * the window expires is placed by the holding-tank cron using the sponsor's
+ * placement strategy (see lib/network-placement).
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server'
+
+/**
+ * A member waiting for their sponsor to place them
+ */
+export interface HeldMember {
+  userId: string
+  name: string | null
+  email: string | null
+  isActive: boolean
+  enteredAt: string
+  expiresAt: string
+}
+
+export type PlaceHeldMemberResult =
+  | { success: true; positionId: string }
+  | { success: false; errorCode: string }
+
+/**
+ * Days a new member waits before automatic placement
+ * @returns 0 when the holding tank is off
+ */
+export async function getHoldingTankDays(): Promise<number> {
+  const supabase = createServiceRoleClient()
+  const { data } = await supabase
+    .from('treasury_settings')
+    .select('setting_value')
+    .eq('setting_key', 'holding_tank_days')
+    .maybeSingle()
+
+  const days = parseInt(data?.setting_value ?? '0', 10)
+  return Number.isFinite(days) && days > 0 ? days : 0
+}
+
+/**
+ * Members a sponsor still has to place, soonest expiry first
+ */
+export async function listHeldMembers(sponsorId: string): Promise<HeldMember[]> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('network_holding_tank')
+    .select('user_id, entered_at, expires_at, user:users!network_holding_tank_user_id_fkey(name, email, is_active)')
+    .eq('referrer_id', sponsorId)
+    .is('placed_at', null)
+    .order('expires_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load holding tank: ${error.message}`)
+  }
+
+  return (data || []).map((row) => {
+    const user = (Array.isArray(row.user) ? row.user[0] : row.user) as
+      | { name: string | null; email: string | null; is_active: boolean | null }
+      | null
+
+    return {
+      userId: row.user_id,
+      name: user?.name ?? null,
+      email: user?.email ?? null,
+      isActive: !!user?.is_active,
+      enteredAt: row.entered_at,
+      expiresAt: row.expires_at
+    }
+  })
+}
+
+/**
+ * Ids of everyone still waiting, so admin tooling doesn't treat them as
+ * orphaned users
+ */
+export async function getWaitingUserIds(): Promise<Set<string>> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('network_holding_tank')
+    .select('user_id')
+    .is('placed_at', null)
+
+  if (error) {
+    throw new Error(`Failed to load holding tank: ${error.message}`)
+  }
+
+  return new Set((data || []).map((row) => row.user_id as string))
+}
+
+/**
+ * Place a waiting member in an open slot below the sponsor
+ * @param parentPositionId - Occupied position in the sponsor's subtree (or the sponsor's own)
+ * @param slot - Child slot under that position
+ * @returns The new position, or an error code (NOT_HELD, NOT_SPONSOR, PARENT_NOT_IN_SUBTREE, SLOT_OCCUPIED, ...)
+ */
+export async function placeHeldMember(
+  userId: string,
+  sponsorId: string,
+  parentPositionId: string,
+  slot: 1 | 2 | 3
+): Promise<PlaceHeldMemberResult> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase.rpc('place_held_member', {
+    p_user_id: userId,
+    p_sponsor_id: sponsorId,
+    p_parent_position_id: parentPositionId,
+    p_slot: slot
+  })
+
+  if (error) {
+    throw new Error(`Failed to place held member: ${error.message}`)
+  }
+
+  const result = data as { success: boolean; error_code?: string; position_id?: string }
+
+  if (!result?.success) {
+    return { success: false, errorCode: result?.error_code ?? 'UNKNOWN' }
+  }
+
+  return { success: true, positionId: result.position_id as string }
+}
+
+/**
+ * Place everyone whose window has expired
+ * @param limit - Most members to place in one run
+ */
+export async function releaseExpiredHoldingTank(limit = 100): Promise<{
+  placed: number
+  errors: { userId: string; error: string }[]
+}> {
+  const supabase = createServiceRoleClient()
+  const { data: expired, error } = await supabase
+    .from('network_holding_tank')
+    .select('user_id')
+    .is('placed_at', null)
+    .lte('expires_at', new Date().toISOString())
+    .order('expires_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load expired holding tank entries: ${error.message}`)
+  }
+
+  let placed = 0
+  const errors: { userId: string; error: string }[] = []
+
+  // One at a time: each placement can change where the next one lands
+  for (const row of expired || []) {
+    const { data: positionId, error: releaseError } = await supabase.rpc('release_holding_tank', {
+      p_user_id: row.user_id
+    })
+
+    if (releaseError) {
+      console.error(`[HoldingTank] Failed to place ${row.user_id}:`, releaseError)
+      errors.push({ userId: row.user_id, error: releaseError.message })
+    } else if (positionId) {
+      placed++
+    }
+  }
+
+  return { placed, errors }
+}
@@ -0,0 +1,172 @@
+/**
+ * Network Placement Strategies
+ *
+ * How a referrer's new members are placed in the ternary tree. Without a
+ * preference, assign_network_position's fixed rule applies; with one,
+ * place_network_member moves the new member to the slot the strategy picks.
+ * The slot search itself runs in Postgres (find_network_placement_slot) so the
+ * preview and the real placement can never disagree.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server'
+
+export type PlacementStrategy = 'balanced' | 'extreme_left' | 'extreme_right' | 'under_member'
+
+export const PLACEMENT_STRATEGIES: PlacementStrategy[] = [
+  'balanced',
+  'extreme_left',
+  'extreme_right',
+  'under_member'
+]
+
+/**
+ * A referrer's saved placement choice
+ */
+export interface PlacementPreference {
+  strategy: PlacementStrategy
+  // Member new referrals go under (under_member only)
+  targetUserId: string | null
+  updatedAt: string
+}
+
+/**
+ * The open slot a strategy would fill next
+ */
+export interface PlacementSlot {
+  positionId: string
+  parentPositionId: string
+  level: number
+  position: number
+  slot: 1 | 2 | 3
+}
+
+export type PlacementPreviewResult =
+  | { success: true; slot: PlacementSlot }
+  | { success: false; errorCode: string }
+
+/**
+ * Check a caller-supplied value is a known strategy
+ */
+export function isPlacementStrategy(value: unknown): value is PlacementStrategy {
+  return typeof value === 'string' && (PLACEMENT_STRATEGIES as string[]).includes(value)
+}
+
+/**
+ * Get a referrer's placement preference
+ * @returns The preference, or null when the default rule applies
+ */
+export async function getPlacementPreference(userId: string): Promise<PlacementPreference | null> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('network_placement_preferences')
+    .select('strategy, target_user_id, updated_at')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load placement preference: ${error.message}`)
+  }
+
+  if (!data) return null
+
+  return {
+    strategy: data.strategy as PlacementStrategy,
+    targetUserId: data.target_user_id,
+    updatedAt: data.updated_at
+  }
+}
+
+/**
+ * Find the slot a strategy would give the referrer's next new member
+ * @param targetUserId - Member to place under (under_member only); must be in the referrer's subtree
+ * @returns The exact slot, or an error code (REFERRER_NOT_PLACED, TARGET_NOT_IN_SUBTREE, NO_SLOT, ...)
+ */
+export async function previewPlacement(
+  referrerId: string,
+  strategy: PlacementStrategy,
+  targetUserId: string | null = null
+): Promise<PlacementPreviewResult> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase.rpc('find_network_placement_slot', {
+    p_referrer_id: referrerId,
+    p_strategy: strategy,
+    p_target_user_id: targetUserId
+  })
+
+  if (error) {
+    throw new Error(`Failed to find placement slot: ${error.message}`)
+  }
+
+  const result = data as {
+    success: boolean
+    error_code?: string
+    position_id?: string
+    parent_position_id?: string
+    level?: number
+    position?: number
+    slot?: 1 | 2 | 3
+  }
+
+  if (!result?.success) {
+    return { success: false, errorCode: result?.error_code ?? 'UNKNOWN' }
+  }
+
+  return {
+    success: true,
+    slot: {
+      positionId: result.position_id as string,
+      parentPositionId: result.parent_position_id as string,
+      level: Number(result.level),
+      position: Number(result.position),
+      slot: result.slot as 1 | 2 | 3
+    }
+  }
+}
+
+/**
+ * Save a referrer's placement preference, or clear it (null strategy) to go
+ * back to the default rule. The choice is previewed first so a target outside
+ * the referrer's subtree is rejected before it's stored.
+ */
+export async function savePlacementPreference(
+  userId: string,
+  strategy: PlacementStrategy | null,
+  targetUserId: string | null = null
+): Promise<PlacementPreviewResult | { success: true; slot: null }> {
+  const supabase = createServiceRoleClient()
+
+  if (strategy === null) {
+    const { error } = await supabase
+      .from('network_placement_preferences')
+      .delete()
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to clear placement preference: ${error.message}`)
+    }
+
+    return { success: true, slot: null }
+  }
+
+  const target = strategy === 'under_member' ? targetUserId : null
+  const preview = await previewPlacement(userId, strategy, target)
+
+  if (!preview.success) {
+    return preview
+  }
+
+  const { error } = await supabase
+    .from('network_placement_preferences')
+    .upsert({
+      user_id: userId,
+      strategy,
+      target_user_id: target,
+      updated_at: new Date().toISOString()
+    })
+
+  if (error) {
+    throw new Error(`Failed to save placement preference: ${error.message}`)
+  }
+
+  return preview
+}
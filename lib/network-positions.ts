@@ -154,89 +154,6 @@ export function getChildSlotNumber(position: number): 1 | 2 | 3 {
   return (remainder + 1) as 1 | 2 | 3
 }
 
-/**
- * Calculate structure completion (how many 1092-person structures are filled)
- * @param activeNetworkSize - Number of ACTIVE people in network (paid within 33 days)
- * @returns Object with structure stats
- */
-export function calculateStructureStats(activeNetworkSize: number): {
-  completedStructures: number
-  currentStructureProgress: number
-  currentStructurePercentage: number
-  totalPossibleEarnings: number
-  structureNumber: number
-} {
-  const MEMBERS_PER_STRUCTURE = 1092
-  const completedStructures = Math.floor(activeNetworkSize / MEMBERS_PER_STRUCTURE)
-  const currentStructureProgress = activeNetworkSize % MEMBERS_PER_STRUCTURE
-  const currentStructurePercentage = (currentStructureProgress / MEMBERS_PER_STRUCTURE) * 100
-  const structureNumber = completedStructures + 1
-
-  return {
-    completedStructures,
-    currentStructureProgress,
-    currentStructurePercentage,
-    totalPossibleEarnings: activeNetworkSize * 199, // $199 per member
-    structureNumber: Math.min(structureNumber, 7) // Max 7 structures (7+ = 16%)
-  }
-}
-
-/**
- * Calculate commission rate based on number of structures
- * @param structureCount - Number of completed structures
- * @returns Commission rate (0.10 - 0.16)
- */
-export function getCommissionRate(structureCount: number): number {
-  const baseRate = 0.10 // 10% base
-  const bonusRate = Math.min(structureCount - 1, 5) * 0.01 // 1% per additional structure, max 5
-  return baseRate + bonusRate
-}
-
-/**
- * Calculate required direct referrals for withdrawal
- * @param structureCount - Number of structures user has
- * @returns Required number of direct referrals
- */
-export function getRequiredDirectReferrals(structureCount: number): number {
-  return structureCount * 3
-}
-
-/**
- * Check if user can withdraw based on direct referrals
- * @param directReferralCount - Number of direct referrals user has
- * @param completedStructures - Number of completed structures
- * @returns Object with withdrawal eligibility info
- */
-export function canWithdrawEarnings(
-  directReferralCount: number,
-  completedStructures: number
-): {
-  canWithdraw: boolean
-  requiredReferrals: number
-  currentReferrals: number
-  deficit: number
-  message: string
-} {
-  const requiredReferrals = getRequiredDirectReferrals(completedStructures)
-  const canWithdraw = directReferralCount >= requiredReferrals
-  const deficit = Math.max(0, requiredReferrals - directReferralCount)
-
-  let message = ''
-  if (canWithdraw) {
-    message = `You can withdraw earnings from ${completedStructures} structure${completedStructures !== 1 ? 's' : ''}`
-  } else {
-    message = `Need ${deficit} more direct referral${deficit !== 1 ? 's' : ''} to withdraw from structure ${completedStructures}`
-  }
-
-  return {
-    canWithdraw,
-    requiredReferrals,
-    currentReferrals: directReferralCount,
-    deficit,
-    message
-  }
-}
-
 /**
  * Get the upline chain (all ancestors) for a position
  * Note: This is a client-side version that calculates positions.
@@ -306,19 +223,40 @@ export function formatPositionForDisplay(
 }
 
 /**
- * Constants for the unlimited-depth sniper volume system
+ * Withdrawal eligibility for a member's earnings
+ * Active (or subscription-bypassed) and at least the direct referrals the
+ * current structure requires. A referral bypass counts as that many referrals.
+ * @param requiredDirectReferrals - From the compensation plan (getRequiredDirectReferrals)
+ * @returns canWithdraw plus the referral gap
+ */
+export function canWithdrawEarnings(member: {
+  isActive: boolean
+  bypassSubscription: boolean
+  directReferrals: number
+  bypassDirectReferrals: number
+  requiredDirectReferrals: number
+}): { canWithdraw: boolean; isActive: boolean; effectiveReferrals: number; referralDeficit: number } {
+  const isActive = member.isActive || member.bypassSubscription
+  const effectiveReferrals = Math.max(member.directReferrals, member.bypassDirectReferrals || 0)
+  const referralDeficit = Math.max(0, member.requiredDirectReferrals - effectiveReferrals)
+
+  return {
+    canWithdraw: isActive && referralDeficit === 0,
+    isActive,
+    effectiveReferrals,
+    referralDeficit
+  }
+}
+
+/**
+ * Constants for the unlimited-depth sniper volume system.
+ * Commission figures (structure size, rates, referral requirements, caps) are
+ * not constants: they come from the versioned compensation plan (lib/compensation).
  */
 export const NETWORK_CONSTANTS = {
   ROOT_POSITION_ID: 'L000P0000000001',
   MAX_DEPTH: 100, // Safety limit for position search (not a business rule)
-  MEMBERS_PER_STRUCTURE: 1092,
-  MAX_STRUCTURES: 7, // Structure 7+ = 16% commission
-  MAX_EARNINGS_NETWORK_SIZE: 6552, // Max network size for earnings calculation (6,552 × $199)
   CHILDREN_PER_NODE: 3,
-  MONTHLY_CONTRIBUTION: 199, // ✅ FIXED: $199, not $200
-  BASE_COMMISSION_RATE: 0.10,
-  MAX_COMMISSION_RATE: 0.16,
-  DIRECT_REFERRALS_PER_STRUCTURE: 3,
   // DEPRECATED: Use is_active column instead. These don't account for weekly payments.
   ACTIVE_THRESHOLD_DAYS: 33, // DEPRECATED - was for monthly only
   INACTIVE_GRACE_PERIOD_DAYS: 90, // DEPRECATED
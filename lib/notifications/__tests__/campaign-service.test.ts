@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeSupabase } from '@/test/fake-supabase'
+import {
+  approveCampaign,
+  createCampaign,
+  submitCampaign,
+  updateCampaign,
+  type CampaignInput
+} from '../campaign-service'
+
+let db: FakeSupabase
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceRoleClient: () => db
+}))
+
+const DRAFT: CampaignInput = {
+  campaign_name: 'Launch',
+  channel: 'email',
+  subject: 'We are live',
+  message: 'Come and see'
+}
+
+async function draftBy(authorId: string): Promise<string> {
+  const created = await createCampaign(DRAFT, authorId)
+  if (!created.success) throw new Error(created.error)
+  return created.campaign.id
+}
+
+describe('approveCampaign', () => {
+  beforeEach(() => {
+    db = new FakeSupabase()
+  })
+
+  it('approves a campaign someone else wrote and submitted', async () => {
+    const id = await draftBy('alice')
+    await submitCampaign(id, 'alice')
+
+    const result = await approveCampaign(id, 'bob')
+
+    expect(result.success).toBe(true)
+    expect(db.rows('notification_campaigns')[0]).toMatchObject({ status: 'approved', approved_by: 'bob' })
+  })
+
+  it('refuses the author', async () => {
+    const id = await draftBy('alice')
+    await submitCampaign(id, 'alice')
+
+    expect((await approveCampaign(id, 'alice')).success).toBe(false)
+    expect(db.rows('notification_campaigns')[0].status).toBe('pending_approval')
+  })
+
+  it('refuses an admin who edited and submitted a colleague\'s draft', async () => {
+    const id = await draftBy('alice')
+
+    expect((await updateCampaign(id, { ...DRAFT, message: 'Something else entirely' }, 'bob')).success).toBe(true)
+    expect(db.rows('notification_campaigns')[0].updated_by).toBe('bob')
+    await submitCampaign(id, 'bob')
+
+    const result = await approveCampaign(id, 'bob')
+
+    expect(result).toEqual({
+      success: false,
+      error: 'A campaign must be approved by someone other than its author, last editor or submitter'
+    })
+    expect(db.rows('notification_campaigns')[0].status).toBe('pending_approval')
+    expect((await approveCampaign(id, 'carol')).success).toBe(true)
+  })
+
+  it('refuses the last editor even when someone else submits', async () => {
+    const id = await draftBy('alice')
+    await updateCampaign(id, { ...DRAFT, message: 'Edited' }, 'bob')
+    await submitCampaign(id, 'alice')
+
+    expect((await approveCampaign(id, 'bob')).success).toBe(false)
+  })
+
+  it('refuses the submitter', async () => {
+    const id = await draftBy('alice')
+    await submitCampaign(id, 'bob')
+
+    expect((await approveCampaign(id, 'bob')).success).toBe(false)
+  })
+})
@@ -0,0 +1,770 @@
+/**
+ * NOTIFICATION CAMPAIGN SERVICE
+ *
+ * Admin mass sends (admin_announcement) with an approval workflow and a
+ * canary rollout.
+ *
+ * Lifecycle:
+ *   draft → pending_approval → approved → sending → completed
+ *                 ↓ reject → draft       ↘ cancelled / failed (canary abort)
+ *
+ * - Two-person rule: a campaign can't be approved by its author, whoever
+ *   last edited it or whoever submitted it (also enforced by a CHECK
+ *   constraint)
+ * - Starting a campaign snapshots the audience into
+ *   notification_campaign_recipients; a random canary_percentage of them
+ *   form the canary batch
+ * - The process-campaigns cron queues recipients into notification_outbox at
+ *   send_rate_per_minute. The canary batch goes first; once it settles, the
+ *   campaign continues only if its success rate meets
+ *   canary_success_threshold, otherwise it is aborted and nothing more is sent
+ * - Delivery status is read back from notification_logs via each recipient's
+ *   idempotency key. A message counts as successful once the provider
+ *   accepted it (sent) or confirmed it (delivered)
+ *
+ * Campaign messages go straight to the outbox; direct-send still enforces
+ * channel opt-in, SMS consent and channel health when each one is sent.
+ */
+
+import { createHash } from 'crypto'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { getCurrentCompensationPlan } from '@/lib/compensation/plan-service'
+import { getStructureProgress, type PlanTerms } from '@/lib/compensation/plan-engine'
+import type {
+  CampaignStatus,
+  CampaignTargetFilter,
+  NotificationCampaign,
+  NotificationChannel
+} from './notification-types'
+
+export const CAMPAIGN_CHANNELS: NotificationChannel[] = ['email', 'sms']
+
+// Unresolved canary messages are counted as failures after this long
+const CANARY_SETTLE_MINUTES = 15
+// A sending campaign with nothing left to queue completes after this long,
+// even if some delivery reports never arrive
+const COMPLETION_SETTLE_MINUTES = 60
+const PAGE_SIZE = 1000
+const MAX_SEND_RATE_PER_MINUTE = 1000
+
+const SUCCESS_LOG_STATUSES = ['sent', 'delivered']
+const FAILURE_LOG_STATUSES = ['failed', 'bounced', 'complaint', 'unsubscribed', 'blocked_globally']
+
+export type CampaignResult =
+  | { success: true; campaign: NotificationCampaign }
+  | { success: false; error: string }
+
+export interface CampaignInput {
+  campaign_name: string
+  campaign_description?: string | null
+  channel: NotificationChannel
+  subject?: string | null
+  message: string
+  target_filter?: CampaignTargetFilter | null
+  excluded_users?: string[]
+  canary_enabled?: boolean
+  canary_percentage?: number
+  canary_success_threshold?: number
+  send_rate_per_minute?: number
+}
+
+// =====================================================
+// AUDIENCE
+// =====================================================
+
+interface AudienceUser {
+  id: string
+  email: string | null
+  phone_number: string | null
+  role: string | null
+  membership_status: string | null
+  is_active: boolean | null
+  initial_payment_completed: boolean | null
+  active_direct_referrals_count: number | null
+  active_network_count: number | null
+  payment_schedule: string | null
+  preferred_language: string | null
+  notification_preferences: Record<string, { enabled?: boolean }> | null
+  created_at: string
+}
+
+const AUDIENCE_COLUMNS = 'id, email, phone_number, role, membership_status, is_active, initial_payment_completed, active_direct_referrals_count, active_network_count, payment_schedule, preferred_language, notification_preferences, created_at'
+
+/**
+ * Whether a user matches a campaign's target filter. Rank and structure
+ * come from the compensation plan (completed structures of active members).
+ */
+export function matchesTargetFilter(
+  user: AudienceUser,
+  filter: CampaignTargetFilter,
+  plan: PlanTerms
+): boolean {
+  if (filter.role && user.role !== (filter.role === 'user' ? 'member' : filter.role)) return false
+  if (filter.membership_status?.length && !filter.membership_status.includes(user.membership_status || '')) return false
+  if (filter.is_active !== undefined && !!user.is_active !== filter.is_active) return false
+  if (filter.initial_payment_completed !== undefined && !!user.initial_payment_completed !== filter.initial_payment_completed) return false
+  if (filter.min_direct_referrals !== undefined && (user.active_direct_referrals_count || 0) < filter.min_direct_referrals) return false
+  if (filter.min_network_size !== undefined && (user.active_network_count || 0) < filter.min_network_size) return false
+  if (filter.created_after && user.created_at < filter.created_after) return false
+  if (filter.created_before && user.created_at >= filter.created_before) return false
+  if (filter.payment_schedule?.length && !filter.payment_schedule.includes((user.payment_schedule || 'monthly') as 'weekly' | 'monthly')) return false
+  if (filter.locales?.length && !filter.locales.includes(user.preferred_language || 'en')) return false
+
+  if (filter.ranks?.length || filter.structure_number?.length) {
+    const progress = getStructureProgress(plan, user.active_network_count || 0)
+    const rank = Math.min(progress.completedStructures, plan.maxStructures - 1)
+    if (filter.ranks?.length && !filter.ranks.includes(rank)) return false
+    if (filter.structure_number?.length && !filter.structure_number.includes(progress.currentStructure)) return false
+  }
+
+  return true
+}
+
+/**
+ * Users with a verified SMS opt-in, as direct-send requires
+ */
+async function loadSmsConsentedUsers(): Promise<Set<string>> {
+  const supabase = createServiceRoleClient()
+  const consented = new Set<string>()
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sms_consent')
+      .select('user_id')
+      .eq('opted_in', true)
+      .eq('is_verified', true)
+      .order('user_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load SMS consent: ${error.message}`)
+    }
+    for (const row of data || []) consented.add(row.user_id)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return consented
+}
+
+/**
+ * Users a campaign would reach: matching the filter, not excluded, and
+ * reachable on the channel (address, channel enabled, SMS consent). Users
+ * direct-send would refuse are left out so they don't count against the
+ * canary.
+ */
+export async function resolveAudience(
+  channel: NotificationChannel,
+  filter: CampaignTargetFilter | null,
+  excludedUsers: string[] = []
+): Promise<string[]> {
+  const supabase = createServiceRoleClient()
+  const plan = await getCurrentCompensationPlan()
+  const excluded = new Set(excludedUsers)
+  const smsConsent = channel === 'sms' ? await loadSmsConsentedUsers() : null
+  const audience: string[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select(AUDIENCE_COLUMNS)
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load campaign audience: ${error.message}`)
+    }
+
+    for (const user of (users || []) as AudienceUser[]) {
+      if (excluded.has(user.id)) continue
+      if (!user.notification_preferences?.[channel]?.enabled) continue
+      if (channel === 'email' && !user.email) continue
+      if (channel === 'sms' && (!user.phone_number || !smsConsent?.has(user.id))) continue
+      if (filter && !matchesTargetFilter(user, filter, plan)) continue
+      audience.push(user.id)
+    }
+    if (!users || users.length < PAGE_SIZE) break
+  }
+
+  return audience
+}
+
+// =====================================================
+// AUTHORING + APPROVAL
+// =====================================================
+
+function validateCampaignInput(input: CampaignInput): string | null {
+  if (!input.campaign_name?.trim()) return 'Campaign name is required'
+  if (!input.message?.trim()) return 'Message is required'
+  if (!CAMPAIGN_CHANNELS.includes(input.channel)) return `Invalid channel: ${input.channel}`
+  if (input.channel === 'email' && !input.subject?.trim()) return 'Subject is required for email campaigns'
+  if (input.canary_percentage !== undefined && !(Number.isInteger(input.canary_percentage) && input.canary_percentage >= 1 && input.canary_percentage <= 50)) {
+    return 'Canary percentage must be a whole number between 1 and 50'
+  }
+  if (input.canary_success_threshold !== undefined && !(input.canary_success_threshold > 0 && input.canary_success_threshold <= 100)) {
+    return 'Canary success threshold must be between 0 and 100'
+  }
+  if (input.send_rate_per_minute !== undefined && !(Number.isInteger(input.send_rate_per_minute) && input.send_rate_per_minute > 0 && input.send_rate_per_minute <= MAX_SEND_RATE_PER_MINUTE)) {
+    return `Send rate must be a whole number between 1 and ${MAX_SEND_RATE_PER_MINUTE}`
+  }
+  return null
+}
+
+function campaignFields(input: CampaignInput) {
+  return {
+    campaign_name: input.campaign_name.trim(),
+    campaign_description: input.campaign_description || null,
+    channel: input.channel,
+    subject: input.subject?.trim() || null,
+    message: input.message.trim(),
+    target_filter: input.target_filter || null,
+    excluded_users: input.excluded_users || [],
+    canary_enabled: input.canary_enabled ?? true,
+    canary_percentage: input.canary_percentage ?? 1,
+    canary_success_threshold: input.canary_success_threshold ?? 95,
+    send_rate_per_minute: input.send_rate_per_minute ?? 100
+  }
+}
+
+export async function getCampaign(campaignId: string): Promise<NotificationCampaign | null> {
+  const supabase = createServiceRoleClient()
+  const { data } = await supabase
+    .from('notification_campaigns')
+    .select('*')
+    .eq('id', campaignId)
+    .maybeSingle()
+  return data as NotificationCampaign | null
+}
+
+export async function listCampaigns(limit = 50): Promise<NotificationCampaign[]> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('notification_campaigns')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to list campaigns: ${error.message}`)
+  }
+  return (data || []) as NotificationCampaign[]
+}
+
+export async function createCampaign(input: CampaignInput, createdBy: string): Promise<CampaignResult> {
+  const invalid = validateCampaignInput(input)
+  if (invalid) return { success: false, error: invalid }
+
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('notification_campaigns')
+    .insert({ ...campaignFields(input), created_by: createdBy, status: 'draft' })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create campaign: ${error?.message || 'no row returned'}`)
+  }
+  return { success: true, campaign: data as NotificationCampaign }
+}
+
+/**
+ * Move a campaign from one status to another. The status guard on the update
+ * makes concurrent transitions (e.g. two approvers) lose cleanly.
+ */
+async function transition(
+  campaignId: string,
+  from: CampaignStatus[],
+  updates: Record<string, unknown>
+): Promise<CampaignResult> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('notification_campaigns')
+    .update(updates)
+    .eq('id', campaignId)
+    .in('status', from)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update campaign ${campaignId}: ${error.message}`)
+  }
+  if (!data) {
+    const current = await getCampaign(campaignId)
+    return {
+      success: false,
+      error: current ? `Campaign is ${current.status}; expected ${from.join(' or ')}` : 'Campaign not found'
+    }
+  }
+  return { success: true, campaign: data as NotificationCampaign }
+}
+
+/**
+ * Edit a draft. Only drafts can change, so what was approved is what is sent.
+ */
+export async function updateCampaign(campaignId: string, input: CampaignInput, userId: string): Promise<CampaignResult> {
+  const invalid = validateCampaignInput(input)
+  if (invalid) return { success: false, error: invalid }
+  return transition(campaignId, ['draft'], {
+    ...campaignFields(input),
+    updated_by: userId,
+    updated_at: new Date().toISOString()
+  })
+}
+
+export async function submitCampaign(campaignId: string, userId: string): Promise<CampaignResult> {
+  return transition(campaignId, ['draft'], {
+    status: 'pending_approval',
+    submitted_by: userId,
+    submitted_at: new Date().toISOString(),
+    rejected_by: null,
+    rejected_at: null,
+    rejection_reason: null
+  })
+}
+
+export async function approveCampaign(campaignId: string, approverId: string): Promise<CampaignResult> {
+  const campaign = await getCampaign(campaignId)
+  if (!campaign) return { success: false, error: 'Campaign not found' }
+  if ([campaign.created_by, campaign.updated_by, campaign.submitted_by].includes(approverId)) {
+    return { success: false, error: 'A campaign must be approved by someone other than its author, last editor or submitter' }
+  }
+
+  return transition(campaignId, ['pending_approval'], {
+    status: 'approved',
+    approved_by: approverId,
+    approved_at: new Date().toISOString()
+  })
+}
+
+export async function rejectCampaign(campaignId: string, userId: string, reason: string): Promise<CampaignResult> {
+  if (!reason?.trim()) return { success: false, error: 'A rejection reason is required' }
+
+  return transition(campaignId, ['pending_approval'], {
+    status: 'draft',
+    rejected_by: userId,
+    rejected_at: new Date().toISOString(),
+    rejection_reason: reason.trim()
+  })
+}
+
+// =====================================================
+// SENDING
+// =====================================================
+
+function recipientIdempotencyKey(campaignId: string, userId: string, channel: NotificationChannel): string {
+  return createHash('sha256').update(`campaign:${campaignId}:${userId}:${channel}`).digest('hex')
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/**
+ * Start an approved campaign: snapshot its audience as recipients and hand it
+ * to the process-campaigns cron.
+ */
+export async function startCampaign(campaignId: string): Promise<CampaignResult> {
+  const campaign = await getCampaign(campaignId)
+  if (!campaign) return { success: false, error: 'Campaign not found' }
+  if (campaign.status !== 'approved') {
+    return { success: false, error: `Campaign is ${campaign.status}; only approved campaigns can be sent` }
+  }
+
+  const audience = shuffle(await resolveAudience(campaign.channel, campaign.target_filter, campaign.excluded_users || []))
+  if (audience.length === 0) {
+    return { success: false, error: 'No users match this campaign\'s audience' }
+  }
+
+  const canarySize = campaign.canary_enabled
+    ? Math.min(audience.length, Math.max(1, Math.ceil(audience.length * campaign.canary_percentage / 100)))
+    : 0
+
+  // Claim the campaign before writing recipients so it can only start once
+  const claimed = await transition(campaignId, ['approved'], {
+    status: 'sending',
+    sending_started_at: new Date().toISOString(),
+    total_recipients: audience.length,
+    canary_completed: !campaign.canary_enabled
+  })
+  if (!claimed.success) return claimed
+
+  const supabase = createServiceRoleClient()
+  for (let i = 0; i < audience.length; i += 500) {
+    const rows = audience.slice(i, i + 500).map((userId, j) => ({
+      campaign_id: campaignId,
+      user_id: userId,
+      is_canary: i + j < canarySize,
+      status: 'pending',
+      idempotency_key: recipientIdempotencyKey(campaignId, userId, campaign.channel)
+    }))
+
+    const { error } = await supabase
+      .from('notification_campaign_recipients')
+      .upsert(rows, { onConflict: 'campaign_id,user_id', ignoreDuplicates: true })
+
+    if (error) {
+      await failCampaign(campaignId, `Failed to create recipients: ${error.message}`)
+      throw new Error(`Failed to create recipients for campaign ${campaignId}: ${error.message}`)
+    }
+  }
+
+  console.log(`[Campaigns] Started ${campaignId}: ${audience.length} recipients, canary ${canarySize}`)
+  return claimed
+}
+
+/**
+ * Pull a campaign's unsent messages: drop pending outbox rows and mark
+ * recipients that were never delivered as skipped.
+ */
+async function withdrawUnsent(campaignId: string): Promise<void> {
+  const supabase = createServiceRoleClient()
+
+  const { data: withdrawn } = await supabase
+    .from('notification_outbox')
+    .delete()
+    .eq('campaign_id', campaignId)
+    .eq('status', 'pending')
+    .select('idempotency_key')
+
+  await supabase
+    .from('notification_campaign_recipients')
+    .update({ status: 'skipped' })
+    .eq('campaign_id', campaignId)
+    .eq('status', 'pending')
+    .is('queued_at', null)
+
+  const keys = (withdrawn || []).map((row) => row.idempotency_key)
+  for (let i = 0; i < keys.length; i += 200) {
+    await supabase
+      .from('notification_campaign_recipients')
+      .update({ status: 'skipped' })
+      .eq('campaign_id', campaignId)
+      .in('idempotency_key', keys.slice(i, i + 200))
+  }
+}
+
+export async function cancelCampaign(campaignId: string): Promise<CampaignResult> {
+  const result = await transition(campaignId, ['draft', 'pending_approval', 'approved', 'sending'], {
+    status: 'cancelled',
+    cancelled_at: new Date().toISOString()
+  })
+  if (result.success) {
+    await withdrawUnsent(campaignId)
+    await refreshCampaignMetrics(result.campaign)
+  }
+  return result
+}
+
+async function failCampaign(campaignId: string, reason: string): Promise<void> {
+  const result = await transition(campaignId, ['sending'], {
+    status: 'failed',
+    failure_reason: reason,
+    completed_at: new Date().toISOString()
+  })
+  if (result.success) {
+    await withdrawUnsent(campaignId)
+    await refreshCampaignMetrics(result.campaign)
+  }
+  console.warn(`[Campaigns] ${campaignId} failed: ${reason}`)
+}
+
+/**
+ * Queue up to `limit` not-yet-queued recipients into the outbox
+ */
+async function queueRecipients(campaign: NotificationCampaign, canary: boolean, limit: number): Promise<number> {
+  const supabase = createServiceRoleClient()
+
+  const { data: batch, error } = await supabase
+    .from('notification_campaign_recipients')
+    .select('id, user_id, idempotency_key')
+    .eq('campaign_id', campaign.id)
+    .eq('is_canary', canary)
+    .eq('status', 'pending')
+    .is('queued_at', null)
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load recipients for campaign ${campaign.id}: ${error.message}`)
+  }
+  if (!batch || batch.length === 0) return 0
+
+  const { error: outboxError } = await supabase
+    .from('notification_outbox')
+    .upsert(batch.map((r) => ({
+      user_id: r.user_id,
+      notification_type: 'admin_announcement',
+      channel: campaign.channel,
+      data: {
+        subject: campaign.subject || campaign.campaign_name,
+        message: campaign.message,
+        eventId: `campaign_${campaign.id}_${r.user_id}`,
+        campaignId: campaign.id
+      },
+      idempotency_key: r.idempotency_key,
+      campaign_id: campaign.id,
+      // Short retry tail so failures surface within the canary settle window
+      max_retries: 3
+    })), { onConflict: 'idempotency_key', ignoreDuplicates: true })
+
+  if (outboxError) {
+    throw new Error(`Failed to queue campaign ${campaign.id}: ${outboxError.message}`)
+  }
+
+  await supabase
+    .from('notification_campaign_recipients')
+    .update({ queued_at: new Date().toISOString() })
+    .in('id', batch.map((r) => r.id))
+
+  return batch.length
+}
+
+/**
+ * Copy delivery outcomes from notification_logs onto queued recipients
+ */
+async function syncRecipientStatuses(campaignId: string): Promise<void> {
+  const supabase = createServiceRoleClient()
+
+  const { data: open } = await supabase
+    .from('notification_campaign_recipients')
+    .select('id, idempotency_key, status')
+    .eq('campaign_id', campaignId)
+    .in('status', ['pending', 'sent'])
+    .not('queued_at', 'is', null)
+    .order('queued_at')
+    .limit(PAGE_SIZE)
+
+  for (let i = 0; i < (open || []).length; i += 200) {
+    const chunk = open!.slice(i, i + 200)
+    const { data: logs } = await supabase
+      .from('notification_logs')
+      .select('id, idempotency_key, status, error_message, sent_at, delivered_at, failed_at')
+      .in('idempotency_key', chunk.map((r) => r.idempotency_key))
+
+    const byKey = new Map((logs || []).map((log) => [log.idempotency_key, log]))
+
+    // Jobs that exhausted their retries without ever writing a log
+    const unlogged = chunk.filter((r) => !byKey.has(r.idempotency_key)).map((r) => r.idempotency_key)
+    if (unlogged.length > 0) {
+      const { data: deadJobs } = await supabase
+        .from('notification_outbox')
+        .select('idempotency_key, last_error, last_error_at')
+        .in('idempotency_key', unlogged)
+        .eq('status', 'failed')
+
+      for (const job of deadJobs || []) {
+        await supabase
+          .from('notification_campaign_recipients')
+          .update({ status: 'failed', failed_at: job.last_error_at || new Date().toISOString(), error_message: job.last_error || 'Max retries exceeded' })
+          .eq('campaign_id', campaignId)
+          .eq('idempotency_key', job.idempotency_key)
+      }
+    }
+
+    for (const recipient of chunk) {
+      const log = byKey.get(recipient.idempotency_key)
+      if (!log) continue
+
+      let update: Record<string, unknown> | null = null
+      if (log.status === 'delivered') {
+        update = { status: 'delivered', delivered_at: log.delivered_at || new Date().toISOString(), sent_at: log.sent_at }
+      } else if (SUCCESS_LOG_STATUSES.includes(log.status) && recipient.status === 'pending') {
+        update = { status: 'sent', sent_at: log.sent_at || new Date().toISOString() }
+      } else if (FAILURE_LOG_STATUSES.includes(log.status)) {
+        update = { status: 'failed', failed_at: log.failed_at || new Date().toISOString(), error_message: log.error_message || log.status }
+      }
+
+      if (update && update.status !== recipient.status) {
+        await supabase
+          .from('notification_campaign_recipients')
+          .update({ ...update, notification_log_id: log.id })
+          .eq('id', recipient.id)
+      }
+    }
+  }
+}
+
+interface RecipientTally {
+  total: number
+  unqueued: number
+  // Queued, no delivery outcome yet
+  awaiting: number
+  sent: number
+  delivered: number
+  failed: number
+  skipped: number
+}
+
+export interface CampaignAnalytics {
+  canary: RecipientTally & { successRate: number | null }
+  main: RecipientTally
+  overall: RecipientTally & { deliveryRate: number | null }
+  lastQueuedAt: string | null
+  topErrors: Array<{ error: string; count: number }>
+}
+
+function emptyTally(): RecipientTally {
+  return { total: 0, unqueued: 0, awaiting: 0, sent: 0, delivered: 0, failed: 0, skipped: 0 }
+}
+
+function successRate(tally: RecipientTally): number | null {
+  const resolved = tally.sent + tally.delivered + tally.failed
+  return resolved === 0 ? null : ((tally.sent + tally.delivered) / resolved) * 100
+}
+
+/**
+ * Per-campaign delivery analytics, split into canary and main batches
+ */
+export async function getCampaignAnalytics(campaignId: string): Promise<CampaignAnalytics> {
+  const supabase = createServiceRoleClient()
+  const canary = emptyTally()
+  const main = emptyTally()
+  const errors = new Map<string, number>()
+  let lastQueuedAt: string | null = null
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from('notification_campaign_recipients')
+      .select('is_canary, status, queued_at, error_message')
+      .eq('campaign_id', campaignId)
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load recipients for campaign ${campaignId}: ${error.message}`)
+    }
+
+    for (const row of rows || []) {
+      const tally = row.is_canary ? canary : main
+      tally.total++
+      if (row.status === 'pending') {
+        if (row.queued_at) tally.awaiting++
+        else tally.unqueued++
+      } else if (row.status in tally) {
+        tally[row.status as 'sent' | 'delivered' | 'failed' | 'skipped']++
+      }
+      if (row.queued_at && (!lastQueuedAt || row.queued_at > lastQueuedAt)) lastQueuedAt = row.queued_at
+      if (row.error_message) errors.set(row.error_message, (errors.get(row.error_message) || 0) + 1)
+    }
+    if (!rows || rows.length < PAGE_SIZE) break
+  }
+
+  const overall = emptyTally()
+  for (const key of Object.keys(overall) as Array<keyof RecipientTally>) {
+    overall[key] = canary[key] + main[key]
+  }
+
+  return {
+    canary: { ...canary, successRate: successRate(canary) },
+    main,
+    overall: { ...overall, deliveryRate: successRate(overall) },
+    lastQueuedAt,
+    topErrors: Array.from(errors.entries())
+      .map(([error, count]) => ({ error, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5)
+  }
+}
+
+async function refreshCampaignMetrics(campaign: NotificationCampaign, analytics?: CampaignAnalytics): Promise<CampaignAnalytics> {
+  const stats = analytics || await getCampaignAnalytics(campaign.id)
+  const supabase = createServiceRoleClient()
+
+  await supabase
+    .from('notification_campaigns')
+    .update({
+      canary_sent_count: stats.canary.sent + stats.canary.delivered + stats.canary.failed + stats.canary.awaiting,
+      canary_delivered_count: stats.canary.sent + stats.canary.delivered,
+      canary_failed_count: stats.canary.failed,
+      sent_count: stats.overall.sent + stats.overall.delivered,
+      delivered_count: stats.overall.delivered,
+      failed_count: stats.overall.failed,
+      skipped_count: stats.overall.skipped
+    })
+    .eq('id', campaign.id)
+
+  return stats
+}
+
+function minutesSince(iso: string | null): number {
+  return iso ? (Date.now() - new Date(iso).getTime()) / 60000 : Infinity
+}
+
+/**
+ * Advance one sending campaign by a cron tick: sync outcomes, then either
+ * queue the next batch, evaluate the canary, or complete.
+ */
+export async function processCampaign(campaign: NotificationCampaign): Promise<string> {
+  await syncRecipientStatuses(campaign.id)
+  const stats = await refreshCampaignMetrics(campaign)
+
+  if (!campaign.canary_completed) {
+    if (stats.canary.unqueued > 0) {
+      const queued = await queueRecipients(campaign, true, campaign.send_rate_per_minute)
+      return `queued ${queued} canary`
+    }
+    if (stats.canary.awaiting > 0 && minutesSince(stats.lastQueuedAt) < CANARY_SETTLE_MINUTES) {
+      return `waiting on ${stats.canary.awaiting} canary outcomes`
+    }
+
+    // Anything still unresolved after the settle window counts against the canary
+    const succeeded = stats.canary.sent + stats.canary.delivered
+    const rate = stats.canary.total === 0 ? 100 : (succeeded / stats.canary.total) * 100
+    if (rate < Number(campaign.canary_success_threshold)) {
+      await failCampaign(
+        campaign.id,
+        `Canary success rate ${rate.toFixed(1)}% is below the ${campaign.canary_success_threshold}% threshold (${succeeded}/${stats.canary.total})`
+      )
+      return 'canary failed'
+    }
+
+    const supabase = createServiceRoleClient()
+    await supabase
+      .from('notification_campaigns')
+      .update({ canary_completed: true, canary_completed_at: new Date().toISOString() })
+      .eq('id', campaign.id)
+    return `canary passed at ${rate.toFixed(1)}%`
+  }
+
+  if (stats.main.unqueued > 0) {
+    const queued = await queueRecipients(campaign, false, campaign.send_rate_per_minute)
+    return `queued ${queued}`
+  }
+
+  if (stats.overall.awaiting === 0 || minutesSince(stats.lastQueuedAt) >= COMPLETION_SETTLE_MINUTES) {
+    await transition(campaign.id, ['sending'], { status: 'completed', completed_at: new Date().toISOString() })
+    return 'completed'
+  }
+
+  return `waiting on ${stats.overall.awaiting} outcomes`
+}
+
+/**
+ * Cron entry point: advance every sending campaign
+ */
+export async function processSendingCampaigns(): Promise<Array<{ campaignId: string; outcome: string }>> {
+  const supabase = createServiceRoleClient()
+  const { data: campaigns, error } = await supabase
+    .from('notification_campaigns')
+    .select('*')
+    .eq('status', 'sending')
+    .order('sending_started_at')
+
+  if (error) {
+    throw new Error(`Failed to load sending campaigns: ${error.message}`)
+  }
+
+  const outcomes: Array<{ campaignId: string; outcome: string }> = []
+  for (const campaign of (campaigns || []) as NotificationCampaign[]) {
+    try {
+      outcomes.push({ campaignId: campaign.id, outcome: await processCampaign(campaign) })
+    } catch (err) {
+      console.error(`[Campaigns] Error processing ${campaign.id}:`, err)
+      outcomes.push({ campaignId: campaign.id, outcome: `error: ${err instanceof Error ? err.message : 'unknown'}` })
+    }
+  }
+  return outcomes
+}
@@ -0,0 +1,374 @@
+/**
+ * NOTIFICATION DIGESTS
+ *
+ * Members in large downlines can get the high-volume event types
+ * (DIGEST_TYPES) as one summary email per day or week instead of an email
+ * per event (notification_preferences.digest.frequency).
+ *
+ * - process-notifications holds claimed email outbox rows of these types in
+ *   notification_digest_items, due at the member's next send slot
+ *   (DIGEST_SEND_HOUR in their timezone; Mondays for weekly)
+ * - sendDueDigests() sends each member one email covering their due items,
+ *   pushed back to the end of quiet hours if needed
+ * - The digest's idempotency key is derived from the member and slot, so a
+ *   retried run never sends the same digest twice
+ */
+
+import { createHash } from 'crypto'
+import { render } from '@react-email/render'
+import { createElement } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Locale } from '@/lib/i18n'
+import { sendEmail } from './twilio/email-service'
+import { DigestEmail, type DigestSection } from './templates/digest-email'
+import { localizeTemplateData, resolveNotificationLocale, translateNotification } from './i18n'
+import { isInQuietHours } from './utils/quiet-hours'
+import type {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType
+} from './notification-types'
+
+export const DIGEST_TYPES: NotificationType[] = ['referral_signup', 'network_join', 'volume_update']
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['immediate', 'daily', 'weekly']
+
+// Local hour the daily/weekly digest goes out
+export const DIGEST_SEND_HOUR = parseInt(process.env.NOTIFICATION_DIGEST_HOUR || '8', 10)
+
+const DIGEST_USER_BATCH = 50 // Members per processor run
+const DIGEST_LINES_PER_SECTION = 20 // Remaining items are summarized as "…and N more"
+const DIGEST_RETRY_MINUTES = 15 // Wait before retrying a failed send
+const DEFAULT_TIMEZONE = 'America/New_York'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type DigestPreferences = Partial<NotificationPreferences> | null | undefined
+
+export interface HeldNotification {
+  user_id: string
+  notification_type: NotificationType
+  data: Record<string, unknown>
+  idempotency_key: string
+}
+
+interface DigestItem {
+  id: string
+  notification_type: NotificationType
+  data: Record<string, unknown>
+  period: string
+}
+
+interface DigestSlot {
+  period: string // Local date of the slot, e.g. '2026-10-19'
+  at: Date
+}
+
+interface DigestRecipient {
+  id: string
+  email: string | null
+  name: string | null
+  timezone: string | null
+  preferred_language: string | null
+  notification_preferences: NotificationPreferences | null
+}
+
+export interface DigestRunStats {
+  sent: number
+  deferred: number
+  skipped: number
+  failed: number
+}
+
+export function getDigestFrequency(preferences: DigestPreferences): DigestFrequency {
+  const frequency = preferences?.digest?.frequency
+  return frequency && DIGEST_FREQUENCIES.includes(frequency) ? frequency : 'immediate'
+}
+
+/**
+ * Whether an outbox row should be held for the member's digest
+ */
+export function shouldHoldForDigest(
+  type: NotificationType,
+  channel: NotificationChannel,
+  preferences: DigestPreferences
+): boolean {
+  return channel === 'email' && DIGEST_TYPES.includes(type) && getDigestFrequency(preferences) !== 'immediate'
+}
+
+/**
+ * Wall-clock time in a timezone, expressed as a UTC timestamp
+ */
+function localTimeAsUtc(date: Date, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  )
+
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+}
+
+/**
+ * The first digest send slot after `from` in the member's timezone.
+ * Members back on immediate get held items straight away.
+ */
+export function getNextDigestSlot(frequency: DigestFrequency, timezone: string, from = new Date()): DigestSlot {
+  if (frequency === 'immediate') {
+    return { period: from.toISOString().slice(0, 16), at: from }
+  }
+
+  let localFrom: number
+  try {
+    localFrom = localTimeAsUtc(from, timezone)
+  } catch {
+    localFrom = localTimeAsUtc(from, DEFAULT_TIMEZONE)
+  }
+  const offsetMs = localFrom - Math.floor(from.getTime() / 1000) * 1000
+
+  const local = new Date(localFrom)
+  let slot = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), DIGEST_SEND_HOUR)
+  if (slot <= localFrom) slot += DAY_MS
+
+  // Weekly digests go out on Mondays
+  if (frequency === 'weekly') {
+    while (new Date(slot).getUTCDay() !== 1) slot += DAY_MS
+  }
+
+  return { period: new Date(slot).toISOString().slice(0, 10), at: new Date(slot - offsetMs) }
+}
+
+/**
+ * Move a claimed outbox row into the member's pending digest. Safe to call
+ * again for the same row (keyed on its idempotency key).
+ */
+export async function holdForDigest(
+  supabase: SupabaseClient,
+  notification: HeldNotification,
+  preferences: DigestPreferences,
+  timezone: string | null
+) {
+  const slot = getNextDigestSlot(getDigestFrequency(preferences), timezone || DEFAULT_TIMEZONE)
+
+  const { error } = await supabase
+    .from('notification_digest_items')
+    .upsert(
+      { ...notification, period: slot.period, send_after: slot.at.toISOString() },
+      { onConflict: 'idempotency_key', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    throw new Error(`Failed to hold notification for digest: ${error.message}`)
+  }
+}
+
+/**
+ * Move a member's pending items to their next slot after the digest
+ * frequency or timezone changes
+ */
+export async function rescheduleDigestItems(
+  supabase: SupabaseClient,
+  userId: string,
+  preferences: DigestPreferences,
+  timezone: string | null
+) {
+  const slot = getNextDigestSlot(getDigestFrequency(preferences), timezone || DEFAULT_TIMEZONE)
+
+  const { error } = await supabase
+    .from('notification_digest_items')
+    .update({ period: slot.period, send_after: slot.at.toISOString() })
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+
+  if (error) {
+    throw new Error(`Failed to reschedule digest items: ${error.message}`)
+  }
+}
+
+function digestIdempotencyKey(userId: string, period: string): string {
+  return createHash('sha256').update(`digest:${userId}:${period}:email`).digest('hex')
+}
+
+/**
+ * Group items by type, in DIGEST_TYPES order, with one localized line per item
+ */
+function buildDigestSections(items: DigestItem[], locale: Locale): DigestSection[] {
+  return DIGEST_TYPES.flatMap((type) => {
+    const ofType = items.filter((item) => item.notification_type === type)
+    if (ofType.length === 0) return []
+
+    return [{
+      type,
+      count: ofType.length,
+      lines: ofType
+        .slice(0, DIGEST_LINES_PER_SECTION)
+        .map((item) => translateNotification(locale, 'digest', `item_${type}`, localizeTemplateData(item.data || {}, locale)))
+    }]
+  })
+}
+
+async function updateItems(
+  supabase: SupabaseClient,
+  ids: string[],
+  updates: { status?: 'sent' | 'skipped'; digest_key?: string; sent_at?: string; send_after?: string; last_error?: string }
+) {
+  await supabase
+    .from('notification_digest_items')
+    .update(updates)
+    .in('id', ids)
+}
+
+/**
+ * Send one member's due items as a digest
+ */
+async function sendDigest(
+  supabase: SupabaseClient,
+  user: DigestRecipient
+): Promise<keyof DigestRunStats | null> {
+  const now = new Date().toISOString()
+
+  const { data } = await supabase
+    .from('notification_digest_items')
+    .select('id, notification_type, data, period')
+    .eq('user_id', user.id)
+    .eq('status', 'pending')
+    .lte('send_after', now)
+    .order('created_at', { ascending: true })
+
+  const items = (data || []) as DigestItem[]
+  if (items.length === 0) return null
+
+  const ids = items.map((item) => item.id)
+  const preferences = user.notification_preferences
+  const frequency = getDigestFrequency(preferences)
+
+  if (preferences?.quiet_hours) {
+    const quietHours = isInQuietHours(user.timezone || DEFAULT_TIMEZONE, preferences.quiet_hours)
+    if (quietHours.inQuietHours && quietHours.deferUntil) {
+      await updateItems(supabase, ids, { send_after: quietHours.deferUntil.toISOString() })
+      return 'deferred'
+    }
+  }
+
+  // Email turned off or disabled for deliverability since the items were held
+  const { data: emailHealth } = await supabase
+    .from('notification_health')
+    .select('channel_disabled')
+    .eq('user_id', user.id)
+    .eq('channel', 'email')
+    .maybeSingle()
+
+  if (!preferences?.email?.enabled || !user.email || emailHealth?.channel_disabled) {
+    await updateItems(supabase, ids, { status: 'skipped' })
+    return 'skipped'
+  }
+
+  // Items held across several slots (e.g. after an outage) go out as one
+  // digest, keyed on the latest
+  const period = items.map((item) => item.period).sort().pop()!
+  const idempotencyKey = digestIdempotencyKey(user.id, period)
+
+  // Already sent by an earlier run that failed before marking the items
+  const { data: existing } = await supabase
+    .from('notification_logs')
+    .select('id')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle()
+
+  if (existing) {
+    await updateItems(supabase, ids, { status: 'sent', digest_key: idempotencyKey, sent_at: now })
+    return 'sent'
+  }
+
+  const locale = resolveNotificationLocale(user.preferred_language)
+  const sections = buildDigestSections(items, locale)
+  const subject = translateNotification(locale, 'digest', `subject_${frequency}`, { count: items.length })
+  const html = await render(createElement(DigestEmail, {
+    userName: user.name || undefined,
+    frequency,
+    count: items.length,
+    sections,
+    locale
+  }))
+
+  const emailResult = await sendEmail({ to: user.email, subject, html })
+
+  if (!emailResult.success) {
+    console.error(`❌ Digest for user ${user.id} failed: ${emailResult.error}`)
+    await updateItems(supabase, ids, {
+      send_after: new Date(Date.now() + DIGEST_RETRY_MINUTES * 60 * 1000).toISOString(),
+      last_error: emailResult.error || 'Unknown error'
+    })
+    return 'failed'
+  }
+
+  await supabase.from('notification_logs').insert({
+    user_id: user.id,
+    notification_type: 'digest',
+    channel: 'email',
+    status: 'sent',
+    idempotency_key: idempotencyKey,
+    subject,
+    message: html,
+    metadata: {
+      frequency,
+      period,
+      item_count: items.length,
+      counts: Object.fromEntries(sections.map((section) => [section.type, section.count]))
+    },
+    provider: 'sendgrid',
+    provider_id: emailResult.messageId,
+    sent_at: now
+  })
+
+  await updateItems(supabase, ids, { status: 'sent', digest_key: idempotencyKey, sent_at: now })
+  console.log(`✅ Sent ${frequency} digest (${items.length} items) to user ${user.id}`)
+  return 'sent'
+}
+
+/**
+ * Send every digest that is due, up to DIGEST_USER_BATCH members per run
+ */
+export async function sendDueDigests(supabase: SupabaseClient): Promise<DigestRunStats> {
+  const stats: DigestRunStats = { sent: 0, deferred: 0, skipped: 0, failed: 0 }
+
+  const { data: due, error } = await supabase
+    .from('notification_digest_items')
+    .select('user_id')
+    .eq('status', 'pending')
+    .lte('send_after', new Date().toISOString())
+    .order('send_after', { ascending: true })
+    .limit(1000)
+
+  if (error) {
+    throw new Error(`Failed to load due digest items: ${error.message}`)
+  }
+
+  const userIds = [...new Set((due || []).map((item) => item.user_id as string))].slice(0, DIGEST_USER_BATCH)
+  if (userIds.length === 0) return stats
+
+  const { data: users } = await supabase
+    .from('users')
+    .select('id, email, name, timezone, preferred_language, notification_preferences')
+    .in('id', userIds)
+
+  for (const user of (users || []) as DigestRecipient[]) {
+    try {
+      const outcome = await sendDigest(supabase, user)
+      if (outcome) stats[outcome]++
+    } catch (error) {
+      console.error(`❌ Error sending digest to user ${user.id}:`, error)
+      stats.failed++
+    }
+  }
+
+  return stats
+}
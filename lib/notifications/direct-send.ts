@@ -6,25 +6,44 @@
  */
 
 import { createServiceRoleClient } from '@/lib/supabase/server'
-import { render } from '@react-email/render'
-import { createElement } from 'react'
+import type { Locale } from '@/lib/i18n'
 import { sendEmail } from './twilio/email-service'
 import { sendSMS } from './twilio/sms-service'
+import { sendWhatsApp, buildContentVariables } from './twilio/whatsapp-service'
 import { getEmailTemplate } from './templates'
-import type { SendNotificationParams, NotificationResult, NotificationChannel } from './notification-types'
+import { resolveNotificationLocale } from './i18n'
+import { formatTemplate } from './template-contracts'
+import { buildTemplateData, renderNotificationEmail } from './template-service'
+import type { SendNotificationParams, NotificationResult, NotificationChannel, NotificationTemplate } from './notification-types'
 
 /**
- * Format template with variables
+ * Get the active template for the recipient's locale, falling back to
+ * the English template with a warning (unless the caller has its own
+ * localized copy to fall back on)
  */
-function formatTemplate(template: string, variables: Record<string, unknown>): string {
-  let formatted = template
-
-  Object.entries(variables).forEach(([key, value]) => {
-    const placeholder = `{{${key}}}`
-    formatted = formatted.replace(new RegExp(placeholder, 'g'), String(value))
-  })
-
-  return formatted
+async function getLocalizedTemplate(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  templateKey: string,
+  channel: NotificationChannel,
+  locale: Locale,
+  warnOnFallback = true
+): Promise<NotificationTemplate | null> {
+  const { data: templates } = await supabase
+    .from('notification_templates')
+    .select('*')
+    .eq('template_key', templateKey)
+    .eq('channel', channel)
+    .eq('is_active', true)
+    .in('locale', [locale, 'en'])
+
+  const localized = templates?.find((template) => template.locale === locale)
+  if (localized) return localized
+
+  const fallback = templates?.find((template) => template.locale === 'en') || null
+  if (fallback && locale !== 'en' && warnOnFallback) {
+    console.warn(`⚠️ No ${locale} template for ${templateKey}, using English`)
+  }
+  return fallback
 }
 
 /**
@@ -52,7 +71,7 @@ export async function sendNotificationDirectly(
     // Get user details
     const { data: user, error: userError } = await supabase
       .from('users')
-      .select('email, phone_number, notification_preferences, timezone, name')
+      .select('email, phone_number, notification_preferences, timezone, name, preferred_language')
       .eq('id', userId)
       .single()
 
@@ -64,10 +83,16 @@ export async function sendNotificationDirectly(
     const preferences = user.notification_preferences as {
       email?: { enabled?: boolean }
       sms?: { enabled?: boolean }
+      whatsapp?: { enabled?: boolean }
     } | null
 
     const channels = channel || ['email', 'sms']
 
+    // Render in the member's language; text templates get amounts and
+    // months pre-formatted for that locale
+    const locale = resolveNotificationLocale(user.preferred_language)
+    const templateData = buildTemplateData(data, locale, user.name)
+
     for (const ch of channels) {
       if (ch === 'email') {
         if (!preferences?.email?.enabled) {
@@ -111,56 +136,30 @@ export async function sendNotificationDirectly(
           continue
         }
 
-        // Try React Email template first, fall back to DB template
-        const ReactEmailComponent = getEmailTemplate(type)
-        let subject: string
-        let body: string
-
-        if (ReactEmailComponent) {
-          // Render branded React Email template
-          const templateProps = {
-            userName: user.name || 'Member',
-            ...data,
-          }
-          body = await render(createElement(ReactEmailComponent, templateProps))
-
-          // Get subject from DB template (or use a sensible default)
-          const { data: template } = await supabase
-            .from('notification_templates')
-            .select('subject_template')
-            .eq('template_key', `email_${type}`)
-            .eq('channel', 'email')
-            .eq('is_active', true)
-            .single()
-
-          subject = template?.subject_template
-            ? formatTemplate(template.subject_template, data)
-            : formatDefaultSubject(type, data)
-        } else {
-          // Fall back to DB template
-          const { data: template } = await supabase
-            .from('notification_templates')
-            .select('*')
-            .eq('template_key', `email_${type}`)
-            .eq('channel', 'email')
-            .eq('is_active', true)
-            .single()
-
-          if (!template) {
-            console.warn(`No email template found for ${type}`)
-            results.push({
-              success: false,
-              error: `No email template found for ${type}`,
-              status: 'failed',
-              channel: 'email'
-            })
-            continue
-          }
-
-          subject = formatTemplate(template.subject_template || '', data)
-          body = template.html_template || formatTemplate(template.body_template, data)
+        // Admin-authored body in the member's locale, else the branded React
+        // Email template, else the DB template
+        const template = await getLocalizedTemplate(supabase, `email_${type}`, 'email', locale, !getEmailTemplate(type))
+        const email = await renderNotificationEmail({
+          type,
+          locale,
+          data,
+          userName: user.name,
+          template
+        })
+
+        if (!email) {
+          console.warn(`No email template found for ${type}`)
+          results.push({
+            success: false,
+            error: `No email template found for ${type}`,
+            status: 'failed',
+            channel: 'email'
+          })
+          continue
         }
 
+        const { subject, html: body } = email
+
         // Send email
         const emailResult = await sendEmail({
           to: user.email,
@@ -257,13 +256,7 @@ export async function sendNotificationDirectly(
         }
 
         // Get SMS template
-        const { data: template } = await supabase
-          .from('notification_templates')
-          .select('*')
-          .eq('template_key', `sms_${type}`)
-          .eq('channel', 'sms')
-          .eq('is_active', true)
-          .single()
+        const template = await getLocalizedTemplate(supabase, `sms_${type}`, 'sms', locale)
 
         if (!template) {
           console.warn(`No SMS template found for ${type}`)
@@ -277,7 +270,7 @@ export async function sendNotificationDirectly(
         }
 
         // Format message with variables
-        const message = formatTemplate(template.body_template, data)
+        const message = formatTemplate(template.body_template, templateData)
 
         // Send SMS
         const smsResult = await sendSMS({
@@ -311,6 +304,119 @@ export async function sendNotificationDirectly(
           error: smsResult.error
         })
       }
+
+      if (ch === 'whatsapp') {
+        if (!preferences?.whatsapp?.enabled) {
+          console.log(`WhatsApp notifications disabled for user ${userId}`)
+          results.push({
+            success: false,
+            error: 'WhatsApp notifications disabled for user',
+            status: 'failed',
+            channel: 'whatsapp'
+          })
+          continue
+        }
+
+        if (!user.phone_number) {
+          console.log(`No phone number for user ${userId}`)
+          results.push({
+            success: false,
+            error: 'No phone number',
+            status: 'failed',
+            channel: 'whatsapp'
+          })
+          continue
+        }
+
+        // Check WhatsApp consent
+        const { data: consent } = await supabase
+          .from('whatsapp_consent')
+          .select('opted_in, is_verified')
+          .eq('user_id', userId)
+          .eq('phone_number', user.phone_number)
+          .single()
+
+        if (!consent?.opted_in || !consent?.is_verified) {
+          console.log(`User ${userId} has not opted in to WhatsApp or not verified`)
+          results.push({
+            success: false,
+            error: 'User has not opted in to WhatsApp or phone not verified',
+            status: 'failed',
+            channel: 'whatsapp'
+          })
+          continue
+        }
+
+        // Check WhatsApp health
+        const { data: whatsappHealth } = await supabase
+          .from('notification_health')
+          .select('channel_disabled')
+          .eq('user_id', userId)
+          .eq('channel', 'whatsapp')
+          .single()
+
+        if (whatsappHealth?.channel_disabled) {
+          console.log(`WhatsApp channel disabled for user ${userId}`)
+          results.push({
+            success: false,
+            error: 'WhatsApp channel disabled',
+            status: 'failed',
+            channel: 'whatsapp'
+          })
+          continue
+        }
+
+        // Get WhatsApp template (approved templates are per language)
+        const template = await getLocalizedTemplate(supabase, `whatsapp_${type}`, 'whatsapp', locale)
+
+        if (!template) {
+          console.warn(`No WhatsApp template found for ${type}`)
+          results.push({
+            success: false,
+            error: `No WhatsApp template found for ${type}`,
+            status: 'failed',
+            channel: 'whatsapp'
+          })
+          continue
+        }
+
+        // Approved Content API template when configured, otherwise free-form text
+        const message = formatTemplate(template.body_template, templateData)
+        const whatsappResult = await sendWhatsApp({
+          to: user.phone_number,
+          message,
+          contentSid: template.provider_template_id || undefined,
+          contentVariables: template.provider_template_id
+            ? buildContentVariables(template.provider_template_variables || [], templateData)
+            : undefined,
+          statusCallback: `${process.env.NEXT_PUBLIC_SITE_URL}/api/webhooks/twilio/whatsapp-status`
+        })
+
+        // Log result
+        await supabase.from('notification_logs').insert({
+          user_id: userId,
+          notification_type: type,
+          channel: 'whatsapp',
+          status: whatsappResult.success ? 'sent' : 'failed',
+          idempotency_key: idempotencyKey,
+          message,
+          metadata: { ...data, contentSid: template.provider_template_id },
+          provider: 'twilio',
+          provider_id: whatsappResult.messageSid,
+          error_message: whatsappResult.error,
+          error_code: whatsappResult.errorCode,
+          sent_at: whatsappResult.success ? new Date().toISOString() : null,
+          failed_at: whatsappResult.success ? null : new Date().toISOString()
+        })
+
+        results.push({
+          success: whatsappResult.success,
+          status: whatsappResult.success ? 'sent' : 'failed',
+          channel: 'whatsapp',
+          notificationId: whatsappResult.messageSid,
+          error: whatsappResult.error
+        })
+      }
     }
 
     return results
@@ -337,27 +443,3 @@ export async function sendNotificationDirectly(
     }]
   }
 }
-
-/**
- * Generate a default subject line when no DB template subject exists
- */
-function formatDefaultSubject(type: string, data: Record<string, unknown>): string {
-  const subjects: Record<string, string> = {
-    referral_signup: `🎉 ${data.referredName || 'Someone'} joined your network!`,
-    direct_bonus: `💰 You earned a $${data.amount || '249.50'} referral bonus!`,
-    monthly_commission: `📊 Your ${data.month || 'monthly'} commission is ready`,
-    payout_processed: `✅ Your $${data.amount || ''} payout has been sent`,
-    payout_failed: `⚠️ Your payout needs attention`,
-    payment_failed: `⚠️ Your subscription payment failed`,
-    structure_milestone: `🏆 You reached a new milestone!`,
-    admin_announcement: `📢 ${data.subject || 'Important announcement'}`,
-    welcome: `🎉 Welcome to Snipers Trading Academy!`,
-    network_join: `👥 ${data.newMemberName || 'Someone'} joined your network`,
-    account_inactive: `⚠️ Your account has been deactivated`,
-    account_reactivated: `✅ Welcome back! Your account is active again`,
-    payment_succeeded: `✅ Payment of $${data.amount || ''} confirmed`,
-    volume_update: `📈 Your sniper volume milestone reached!`,
-  }
-
-  return subjects[type] || 'Notification from Snipers Trading Academy'
-}
@@ -0,0 +1,185 @@
+/**
+ * NOTIFICATION LOCALIZATION
+ *
+ * Per-locale copy for notification emails (locales/notifications/*.json),
+ * resolved from users.preferred_language. Kept out of locales/en.json so the
+ * email copy isn't shipped in the client bundle.
+ *
+ * - Missing keys fall back to English with a logged warning
+ * - Currency and month values are formatted for the recipient's locale
+ * - findMissingNotificationKeys() backs scripts/check-notification-locales.ts
+ */
+
+import en from '@/locales/notifications/en.json'
+import es from '@/locales/notifications/es.json'
+import type { Locale } from '@/lib/i18n'
+import type { NotificationType } from './notification-types'
+
+type NotificationDictionary = Record<string, Record<string, string>>
+
+const dictionaries: Record<Locale, NotificationDictionary> = { en, es }
+
+export const NOTIFICATION_LOCALES: Locale[] = ['en', 'es']
+
+// Intl locale used for numbers and dates (Latin American Spanish)
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-419'
+}
+
+// Event data fields that hold USD amounts
+const MONEY_FIELDS = ['amount', 'totalVolume', 'maxCommission', 'newVolume']
+
+// Commission periods are passed as 'YYYY-MM'
+const MONTH_PERIOD = /^(\d{4})-(\d{2})$/
+
+// 'digest' holds the copy of the daily/weekly summary email
+export type NotificationSection = NotificationType | 'digest' | 'common'
+
+export type NotificationTranslator = (key: string, params?: Record<string, unknown>) => string
+
+/**
+ * Map users.preferred_language to a supported locale (default English)
+ */
+export function resolveNotificationLocale(value: unknown): Locale {
+  return NOTIFICATION_LOCALES.includes(value as Locale) ? value as Locale : 'en'
+}
+
+function interpolate(text: string, params?: Record<string, unknown>): string {
+  if (!params) return text
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined || params[name] === null ? match : String(params[name])
+  )
+}
+
+function lookup(locale: Locale, section: NotificationSection, key: string): string | undefined {
+  return dictionaries[locale][section]?.[key]
+}
+
+/**
+ * Translate one notification string, falling back to English
+ *
+ * @param locale Recipient locale
+ * @param section Notification type, or 'common' for shared strings
+ * @param key String key within the section
+ * @param params {param} replacements
+ */
+export function translateNotification(
+  locale: Locale,
+  section: NotificationSection,
+  key: string,
+  params?: Record<string, unknown>
+): string {
+  let text = lookup(locale, section, key)
+
+  if (text === undefined && locale !== 'en') {
+    text = lookup('en', section, key)
+    if (text !== undefined) {
+      console.warn(`⚠️ Missing ${locale} notification translation for ${section}.${key}, using English`)
+    }
+  }
+
+  if (text === undefined) {
+    console.warn(`⚠️ Missing notification translation for ${section}.${key}`)
+    return key
+  }
+
+  return interpolate(text, params)
+}
+
+/**
+ * Translator for one notification type's template (or the digest). Keys not
+ * defined for it are looked up in the shared 'common' section.
+ */
+export function createNotificationTranslator(
+  locale: Locale,
+  type: Exclude<NotificationSection, 'common'>
+): NotificationTranslator {
+  return (key, params) => {
+    const section: NotificationSection =
+      lookup(locale, type, key) === undefined && lookup('en', type, key) === undefined ? 'common' : type
+    return translateNotification(locale, section, key, params)
+  }
+}
+
+/**
+ * Format a USD amount for the recipient's locale
+ */
+export function formatNotificationCurrency(
+  amount: number,
+  locale: Locale,
+  options: { maximumFractionDigits?: number } = {}
+): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], {
+    style: 'currency',
+    currency: 'USD',
+    ...options
+  }).format(amount)
+}
+
+/**
+ * Format a 'YYYY-MM' period as a localized month name ("September 2026").
+ * Anything else is returned unchanged.
+ */
+export function formatNotificationMonth(value: string, locale: Locale): string {
+  const match = MONTH_PERIOD.exec(value)
+  if (!match) return value
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1))
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  }).format(date)
+}
+
+/**
+ * Localize event data for text templates (DB subject/SMS/WhatsApp bodies):
+ * money fields become formatted currency strings and 'YYYY-MM' months become
+ * month names. Templates therefore use {{amount}}, not ${{amount}}.
+ */
+export function localizeTemplateData(
+  data: Record<string, unknown>,
+  locale: Locale
+): Record<string, unknown> {
+  const localized: Record<string, unknown> = { ...data }
+
+  for (const field of MONEY_FIELDS) {
+    const value = data[field]
+    const amount = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN
+    if (Number.isFinite(amount)) {
+      localized[field] = formatNotificationCurrency(amount, locale)
+    }
+  }
+
+  if (typeof data.month === 'string') {
+    localized.month = formatNotificationMonth(data.month, locale)
+  }
+
+  return localized
+}
+
+function flattenKeys(dictionary: NotificationDictionary): string[] {
+  return Object.entries(dictionary).flatMap(([section, strings]) =>
+    Object.keys(strings).map((key) => `${section}.${key}`)
+  )
+}
+
+/**
+ * Keys present in one locale's dictionary but missing from another
+ */
+export function findMissingNotificationKeys(): Array<{ key: string; missingIn: Locale }> {
+  const keysByLocale = new Map(NOTIFICATION_LOCALES.map((locale) => [locale, new Set(flattenKeys(dictionaries[locale]))]))
+  const allKeys = new Set([...keysByLocale.values()].flatMap((keys) => [...keys]))
+  const missing: Array<{ key: string; missingIn: Locale }> = []
+
+  for (const key of [...allKeys].sort()) {
+    for (const locale of NOTIFICATION_LOCALES) {
+      if (!keysByLocale.get(locale)!.has(key)) {
+        missing.push({ key, missingIn: locale })
+      }
+    }
+  }
+
+  return missing
+}
@@ -0,0 +1,74 @@
+/**
+ * IN-APP NOTIFICATION SERVICE
+ *
+ * Delivers the 'in_app' channel: a row in the member's inbox
+ * (in_app_notifications), shown by the bell in the dashboard header.
+ *
+ * Unlike email/SMS there is no outbox or provider: the row is written
+ * immediately, quiet hours don't apply, and the unique idempotency key makes
+ * a retried event a no-op. Only the type and event data are stored; the
+ * client renders the text in the member's language.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { NotificationResult, NotificationType } from './notification-types'
+
+/**
+ * Where clicking a notification takes the member
+ */
+const IN_APP_LINKS: Record<NotificationType, string> = {
+  referral_signup: '/referrals',
+  network_join: '/team',
+  direct_bonus: '/finance',
+  monthly_commission: '/finance',
+  payout_processed: '/finance',
+  payout_failed: '/finance',
+  payment_failed: '/payments',
+  payment_succeeded: '/payments',
+  structure_milestone: '/team',
+  volume_update: '/team',
+  account_inactive: '/payments',
+  account_reactivated: '/dashboard',
+  admin_announcement: '/dashboard',
+  welcome: '/dashboard'
+}
+
+/**
+ * Write a notification to the member's inbox
+ *
+ * @param supabase Service role client
+ * @param params User, type and event data
+ * @param idempotencyKey Key from generateIdempotencyKey (channel 'in_app')
+ */
+export async function deliverInAppNotification(
+  supabase: SupabaseClient,
+  params: { userId: string; type: NotificationType; data: Record<string, unknown> },
+  idempotencyKey: string
+): Promise<NotificationResult> {
+  const { error } = await supabase
+    .from('in_app_notifications')
+    .upsert({
+      user_id: params.userId,
+      notification_type: params.type,
+      data: params.data,
+      link: typeof params.data.link === 'string' ? params.data.link : IN_APP_LINKS[params.type],
+      idempotency_key: idempotencyKey
+    }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+
+  if (error) {
+    console.error(`❌ Failed to write in-app notification for user ${params.userId}:`, error)
+    return {
+      success: false,
+      error: `Failed to write in-app notification: ${error.message}`,
+      status: 'failed',
+      channel: 'in_app'
+    }
+  }
+
+  return {
+    success: true,
+    notificationId: idempotencyKey,
+    status: 'delivered',
+    channel: 'in_app'
+  }
+}
@@ -20,6 +20,7 @@ import type {
 import { generateIdempotencyKey, isNotificationDuplicate } from './utils/idempotency'
 import { isInQuietHours } from './utils/quiet-hours'
 import { getGlobalSettings, isNotificationEnabled } from './utils/global-settings-cache'
+import { deliverInAppNotification } from './in-app-service'
 
 /**
  * Main function to send a notification
@@ -97,10 +98,32 @@ export async function sendNotification(
     }
 
     // Determine which channels to use
-    const channels = params.channel || (['email', 'sms'] as NotificationChannel[])
+    const channels = params.channel || (['email', 'sms', 'whatsapp', 'in_app'] as NotificationChannel[])
     const results: NotificationResult[] = []
 
     for (const channel of channels) {
+      // In-app inbox: written immediately (no outbox, no quiet hours)
+      if (channel === 'in_app') {
+        if (preferences.in_app?.enabled === false) {
+          results.push({
+            success: false,
+            error: 'In-app notifications disabled for user',
+            status: 'failed',
+            channel: 'in_app'
+          })
+          continue
+        }
+
+        const inAppKey = generateIdempotencyKey({
+          userId: params.userId,
+          type: params.type,
+          channel,
+          eventId: params.data.eventId as string | undefined
+        })
+        results.push(await deliverInAppNotification(supabase, params, inAppKey))
+        continue
+      }
+
       // Check if channel is enabled globally
       if (channel === 'email' && !preferences.email?.enabled) {
         results.push({
@@ -122,6 +145,16 @@ export async function sendNotification(
         continue
       }
 
+      if (channel === 'whatsapp' && !preferences.whatsapp?.enabled) {
+        results.push({
+          success: false,
+          error: 'WhatsApp notifications disabled for user',
+          status: 'failed',
+          channel: 'whatsapp'
+        })
+        continue
+      }
+
       // Check if this specific notification type is enabled
       const notificationTypeKey = params.type.replace(/_/g, '_') as keyof typeof preferences.email
       if (channel === 'email' && preferences.email?.[notificationTypeKey] === false) {
@@ -144,6 +177,16 @@ export async function sendNotification(
         continue
       }
 
+      if (channel === 'whatsapp' && preferences.whatsapp?.[notificationTypeKey] === false) {
+        results.push({
+          success: false,
+          error: `WhatsApp notifications disabled for ${params.type}`,
+          status: 'failed',
+          channel: 'whatsapp'
+        })
+        continue
+      }
+
       // Check channel health
       const { data: channelHealth } = await supabase
         .from('notification_health')
@@ -344,7 +387,7 @@ export async function notifyPayoutProcessed(params: {
   return sendNotification({
     userId: params.userId,
     type: 'payout_processed',
-    channel: ['email'],  // Email only by default; SMS sent if user has opted in via preferences
+    channel: ['email', 'in_app'],  // No SMS by default; SMS sent if user has opted in via preferences
     data: {
       amount: params.amount,
       commissionType: params.commissionType,
@@ -364,7 +407,7 @@ export async function notifyPayoutFailed(params: {
   return sendNotification({
     userId: params.userId,
     type: 'payout_failed',
-    channel: ['email'],  // Critical financial notifications via email (more reliable for records)
+    channel: ['email', 'in_app'],  // Critical financial notifications via email (more reliable for records) + inbox
     data: {
       amount: params.amount,
       reason: params.reason,
@@ -384,7 +427,7 @@ export async function notifyPaymentFailed(params: {
   return sendNotification({
     userId: params.userId,
     type: 'payment_failed',
-    channel: ['email'],  // Critical payment failures via email (provides payment link & records)
+    channel: ['email', 'in_app'],  // Critical payment failures via email (provides payment link & records) + inbox
     data: {
       amount: params.amount,
       paymentUrl: params.paymentUrl,
@@ -486,7 +529,7 @@ export async function notifyPaymentSucceeded(params: {
   return sendNotification({
     userId: params.userId,
     type: 'payment_succeeded',
-    channel: ['email'],
+    channel: ['email', 'in_app'],
     data: {
       amount: params.amount,
       eventId: `payment_succeeded_${params.userId}_${Date.now()}`
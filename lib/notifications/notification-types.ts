@@ -2,7 +2,7 @@
  * NOTIFICATION SYSTEM TYPES
  *
  * Comprehensive type definitions for the notification system
- * supporting email, SMS, and WhatsApp channels with compliance
+ * supporting email, SMS, WhatsApp and in-app channels with compliance
  * and delivery tracking.
  */
 
@@ -10,7 +10,7 @@
 // NOTIFICATION CHANNELS
 // =====================================================
 
-export type NotificationChannel = 'email' | 'sms' | 'whatsapp'
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp' | 'in_app'
 
 export type NotificationProvider = 'twilio' | 'sendgrid'
 
@@ -52,6 +52,9 @@ export type NotificationStatus =
 // NOTIFICATION PREFERENCES
 // =====================================================
 
+// How often digestible event types are emailed (see digest-service.ts)
+export type DigestFrequency = 'immediate' | 'daily' | 'weekly'
+
 export interface NotificationPreferences {
   email: {
     referral_signups: boolean
@@ -77,6 +80,24 @@ export interface NotificationPreferences {
     account_inactive: boolean
     enabled: boolean  // Master toggle for all SMS notifications
   }
+  whatsapp?: {  // Missing until the member opts in to WhatsApp
+    referral_signups: boolean
+    network_joins: boolean
+    direct_bonus: boolean
+    monthly_commission: boolean
+    payouts: boolean
+    volume_updates: boolean
+    structure_milestones: boolean
+    payment_failed: boolean
+    account_inactive: boolean
+    enabled: boolean  // Master toggle for all WhatsApp notifications
+  }
+  in_app?: {
+    enabled: boolean  // Missing = enabled; quiet hours don't apply to the inbox
+  }
+  digest?: {
+    frequency: DigestFrequency  // Missing = immediate; email only
+  }
   quiet_hours: {
     enabled: boolean
     start: string  // "22:00" (10 PM)
@@ -107,6 +128,9 @@ export interface SMSConsent {
   updated_at: string
 }
 
+// Same double opt-in record, stored in whatsapp_consent
+export type WhatsAppConsent = SMSConsent
+
 // =====================================================
 // NOTIFICATION LOG (DELIVERY TRACKING)
 // =====================================================
@@ -184,6 +208,10 @@ export interface NotificationHealth {
   disabled_at: string | null
   re_enable_requested: boolean
   re_enable_requested_at: string | null
+  re_enable_note: string | null  // What the member changed, e.g. a new email address
+  re_enable_reviewed_by: string | null
+  re_enable_reviewed_at: string | null
+  re_enable_declined_reason: string | null
 
   created_at: string
   updated_at: string
@@ -208,12 +236,17 @@ export interface NotificationCampaign {
   campaign_description: string | null
   channel: NotificationChannel
 
-  // Creator and approver
+  // Creator and approver (two-person rule: approver must differ from the
+  // creator, the last editor and the submitter)
   created_by: string
   approved_by: string | null
+  updated_by: string | null
+  submitted_by: string | null
+  rejected_by: string | null
+  rejection_reason: string | null
 
   // Targeting
-  target_filter: Record<string, unknown> | null
+  target_filter: CampaignTargetFilter | null
   excluded_users: string[]
 
   // Message content
@@ -239,13 +272,18 @@ export interface NotificationCampaign {
   delivered_count: number
   failed_count: number
   bounced_count: number
+  skipped_count: number
+  // Why the campaign failed (e.g. canary delivery rate below threshold)
+  failure_reason: string | null
 
   // Rate limiting
   send_rate_per_minute: number
 
   // Timestamps
   created_at: string
+  submitted_at: string | null
   approved_at: string | null
+  rejected_at: string | null
   sending_started_at: string | null
   canary_completed_at: string | null
   completed_at: string | null
@@ -262,8 +300,12 @@ export interface CampaignRecipient {
   campaign_id: string
   user_id: string
   notification_log_id: string | null
+  // Outbox / notification_logs key for this recipient's message
+  idempotency_key: string | null
   is_canary: boolean
   status: 'pending' | 'sent' | 'delivered' | 'failed' | 'skipped'
+  error_message: string | null
+  queued_at: string | null
   sent_at: string | null
   delivered_at: string | null
   failed_at: string | null
@@ -293,6 +335,22 @@ export interface InboundSMSMessage {
   processed_at: string | null
 }
 
+// =====================================================
+// IN-APP NOTIFICATION (INBOX)
+// =====================================================
+
+export interface InAppNotification {
+  id: string
+  user_id: string
+  notification_type: NotificationType
+  data: Record<string, unknown>  // Same event data as the email/SMS templates
+  link: string | null
+  idempotency_key: string
+  read_at: string | null
+  archived_at: string | null
+  created_at: string
+}
+
 // =====================================================
 // NOTIFICATION TEMPLATE
 // =====================================================
@@ -303,10 +361,14 @@ export interface NotificationTemplate {
   template_name: string
   description: string | null
   channel: NotificationChannel
+  locale: string  // 'en' | 'es'; missing locales fall back to 'en'
   subject_template: string | null
   body_template: string
   html_template: string | null
   variables: Record<string, string>
+  provider_template_id: string | null  // WhatsApp: Twilio Content SID of the approved template
+  provider_template_variables: string[]  // Data keys for the template's {{1}}, {{2}}, ...
+  use_body_template: boolean  // Email: render body_template in the branded layout instead of the React template
   is_active: boolean
   created_by: string | null
   last_modified_by: string | null
@@ -315,6 +377,28 @@ export interface NotificationTemplate {
   updated_at: string
 }
 
+export type TemplateVersionStatus = 'draft' | 'published' | 'archived'
+
+export interface NotificationTemplateVersion {
+  id: string
+  template_key: string
+  channel: NotificationChannel
+  locale: string
+  version: number
+  subject_template: string | null
+  body_template: string
+  use_body_template: boolean
+  provider_template_id: string | null
+  provider_template_variables: string[]
+  notes: string | null
+  status: TemplateVersionStatus
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  published_by: string | null
+  published_at: string | null
+}
+
 // =====================================================
 // SEND NOTIFICATION PARAMETERS
 // =====================================================
@@ -322,7 +406,7 @@ export interface NotificationTemplate {
 export interface SendNotificationParams {
   userId: string
   type: NotificationType
-  channel?: NotificationChannel[]  // Defaults to both email and SMS if enabled
+  channel?: NotificationChannel[]  // Defaults to email, SMS, WhatsApp and in-app if enabled
   data: Record<string, unknown>    // Event-specific data for template variables
   forceSkipQuietHours?: boolean   // Override quiet hours (for critical notifications)
   priority?: 'low' | 'normal' | 'high' | 'urgent'
@@ -378,6 +462,9 @@ export interface CampaignTargetFilter {
   structure_number?: number[]
   created_after?: string  // ISO date
   created_before?: string
+  payment_schedule?: Array<'weekly' | 'monthly'>
+  ranks?: number[]  // Completed structures (0 = Unranked)
+  locales?: string[]  // users.preferred_language, e.g. ['en', 'es']
 }
 
 // =====================================================
@@ -415,9 +502,23 @@ export interface TwilioInboundSMSWebhook {
 
 export interface SendGridEmailEventWebhook {
   email: string
-  event: 'delivered' | 'bounce' | 'dropped' | 'spam_report' | 'unsubscribe' | 'open' | 'click'
-  sg_message_id: string
+  event:
+    | 'processed'
+    | 'deferred'
+    | 'delivered'
+    | 'bounce'
+    | 'dropped'
+    | 'spamreport'
+    | 'unsubscribe'
+    | 'group_unsubscribe'
+    | 'group_resubscribe'
+    | 'open'
+    | 'click'
+  sg_event_id: string
+  sg_message_id?: string  // '<X-Message-Id>.<filter suffix>'
   timestamp: number
   reason?: string
-  bounce_classification?: 'soft' | 'hard'
+  status?: string  // SMTP status code for bounces, e.g. '5.1.1'
+  type?: 'bounce' | 'blocked'  // bounce events: permanent vs. temporary rejection
+  bounce_classification?: string
 }
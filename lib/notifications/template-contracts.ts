@@ -0,0 +1,217 @@
+/**
+ * NOTIFICATION TEMPLATE CONTRACTS
+ *
+ * The data each notification type is sent with (see the notify* helpers in
+ * notification-service.ts), used to validate {{variable}} placeholders in
+ * admin-edited templates and to fill previews with sample data.
+ *
+ * No server imports: the template editor validates drafts as they are typed.
+ */
+
+import type { NotificationChannel, NotificationType } from './notification-types'
+
+// in_app copy is rendered client-side from the app locale files
+export type TemplateChannel = Exclude<NotificationChannel, 'in_app'>
+
+export const TEMPLATE_CHANNELS: TemplateChannel[] = ['email', 'sms', 'whatsapp']
+
+// Longer SMS bodies are split into multiple billed segments
+export const SMS_SEGMENT_LENGTH = 160
+
+export interface TemplateVariable {
+  name: string
+  description: string
+  sample: string | number
+}
+
+export interface TemplateContract {
+  type: NotificationType
+  variables: TemplateVariable[]
+}
+
+export interface TemplateDraft {
+  subject_template?: string | null
+  body_template: string
+  provider_template_variables?: string[]
+}
+
+export interface TemplateValidation {
+  errors: string[]
+  warnings: string[]
+}
+
+// Every template may greet the member by name
+const USER_NAME: TemplateVariable = { name: 'userName', description: 'Member display name', sample: 'Alex Rivera' }
+
+const DASHBOARD_URL = 'https://sniperstradingacademy.com/dashboard'
+
+const CONTRACT_VARIABLES: Record<NotificationType, TemplateVariable[]> = {
+  referral_signup: [
+    { name: 'referredName', description: 'Referred member name', sample: 'Jordan Lee' },
+    { name: 'referredEmail', description: 'Referred member email', sample: 'jordan@example.com' },
+    { name: 'referralCode', description: 'Referral code used', sample: 'ALEX2026' }
+  ],
+  network_join: [
+    { name: 'newMemberName', description: 'New member name', sample: 'Jordan Lee' },
+    { name: 'depth', description: 'Network depth level', sample: 2 }
+  ],
+  direct_bonus: [
+    { name: 'referredName', description: 'Referred member name', sample: 'Jordan Lee' },
+    { name: 'amount', description: 'Bonus amount', sample: 249.5 }
+  ],
+  monthly_commission: [
+    { name: 'month', description: 'Commission period (YYYY-MM)', sample: '2026-09' },
+    { name: 'amount', description: 'Commission amount', sample: 1249.5 },
+    { name: 'memberCount', description: 'Active members in the structure', sample: 12 },
+    { name: 'totalVolume', description: 'Team sniper volume', sample: 2388 },
+    { name: 'commissionRate', description: 'Commission rate (%)', sample: 10 }
+  ],
+  payout_processed: [
+    { name: 'amount', description: 'Payout amount', sample: 1249.5 },
+    { name: 'commissionType', description: 'Commission type paid out', sample: 'residual' }
+  ],
+  payout_failed: [
+    { name: 'amount', description: 'Payout amount', sample: 1249.5 },
+    { name: 'reason', description: 'Failure reason', sample: 'Invalid wallet address' },
+    { name: 'dashboardUrl', description: 'Dashboard URL', sample: DASHBOARD_URL }
+  ],
+  payment_failed: [
+    { name: 'amount', description: 'Payment amount', sample: 199 },
+    { name: 'paymentUrl', description: 'Payment link', sample: 'https://sniperstradingacademy.com/payments' }
+  ],
+  payment_succeeded: [
+    { name: 'amount', description: 'Payment amount', sample: 199 }
+  ],
+  structure_milestone: [
+    { name: 'structureNumber', description: 'Structure number', sample: 2 },
+    { name: 'activeMembers', description: 'Active member count', sample: 12 },
+    { name: 'newRate', description: 'New commission rate (%)', sample: 11 },
+    { name: 'maxCommission', description: 'Maximum monthly commission', sample: 1500 }
+  ],
+  volume_update: [
+    { name: 'newVolume', description: 'New volume amount', sample: 2388 },
+    { name: 'month', description: 'Month period (YYYY-MM)', sample: '2026-09' }
+  ],
+  account_inactive: [
+    { name: 'daysOverdue', description: 'Days overdue', sample: 3 },
+    { name: 'reactivateUrl', description: 'Reactivation URL', sample: 'https://sniperstradingacademy.com/payments' }
+  ],
+  account_reactivated: [
+    { name: 'dashboardUrl', description: 'Dashboard URL', sample: DASHBOARD_URL }
+  ],
+  admin_announcement: [
+    { name: 'subject', description: 'Announcement subject', sample: 'Platform maintenance' },
+    { name: 'message', description: 'Announcement text', sample: 'The dashboard will be offline on Sunday from 02:00 to 03:00 UTC.' }
+  ],
+  welcome: [
+    { name: 'dashboardUrl', description: 'Dashboard URL', sample: DASHBOARD_URL }
+  ]
+}
+
+export const TEMPLATE_TYPES = Object.keys(CONTRACT_VARIABLES) as NotificationType[]
+
+export function getTemplateContract(type: NotificationType): TemplateContract {
+  return { type, variables: [USER_NAME, ...(CONTRACT_VARIABLES[type] || [])] }
+}
+
+/**
+ * Sample event data for previews and test sends
+ */
+export function getSampleData(type: NotificationType): Record<string, unknown> {
+  return Object.fromEntries(getTemplateContract(type).variables.map((variable) => [variable.name, variable.sample]))
+}
+
+/**
+ * template_key for a type and channel, e.g. 'sms_direct_bonus'
+ */
+export function templateKeyFor(type: NotificationType, channel: NotificationChannel): string {
+  return `${channel}_${type}`
+}
+
+/**
+ * Inverse of templateKeyFor; null for keys that aren't a known type
+ */
+export function typeFromTemplateKey(templateKey: string, channel: NotificationChannel): NotificationType | null {
+  const type = templateKey.startsWith(`${channel}_`) ? templateKey.slice(channel.length + 1) : ''
+  return TEMPLATE_TYPES.includes(type as NotificationType) ? type as NotificationType : null
+}
+
+/**
+ * Replace {{variable}} placeholders with values
+ */
+export function formatTemplate(template: string, variables: Record<string, unknown>): string {
+  let formatted = template
+
+  Object.entries(variables).forEach(([key, value]) => {
+    const placeholder = `{{${key}}}`
+    formatted = formatted.replace(new RegExp(placeholder, 'g'), String(value))
+  })
+
+  return formatted
+}
+
+/**
+ * Placeholder names used in a template, in order of first use
+ */
+export function extractPlaceholders(template: string): string[] {
+  const names = [...template.matchAll(/\{\{([^{}]*)\}\}/g)].map((match) => match[1])
+  return [...new Set(names)]
+}
+
+/**
+ * Check a draft against its type's data contract. Errors block saving and
+ * publishing; warnings are shown in the editor.
+ */
+export function validateTemplateDraft(
+  type: NotificationType,
+  channel: NotificationChannel,
+  draft: TemplateDraft
+): TemplateValidation {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const known = new Set(getTemplateContract(type).variables.map((variable) => variable.name))
+
+  if (!draft.body_template?.trim()) {
+    errors.push('Body is required')
+  }
+  if (channel === 'email' && !draft.subject_template?.trim()) {
+    errors.push('Subject is required for email templates')
+  }
+
+  for (const [field, template] of [['subject', draft.subject_template], ['body', draft.body_template]] as const) {
+    if (!template) continue
+
+    for (const name of extractPlaceholders(template)) {
+      if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) {
+        errors.push(`Malformed placeholder {{${name}}} in ${field}`)
+      } else if (!known.has(name)) {
+        errors.push(`Unknown variable {{${name}}} in ${field}`)
+      }
+    }
+
+    // Anything left after removing complete placeholders is an unbalanced brace
+    if (/\{\{|\}\}/.test(template.replace(/\{\{[^{}]*\}\}/g, ''))) {
+      errors.push(`Unbalanced {{ }} in ${field}`)
+    }
+    if (template.includes('${{')) {
+      warnings.push(`Amounts are already formatted with their currency; drop the '$' before {{ in ${field}`)
+    }
+  }
+
+  if (channel === 'whatsapp') {
+    for (const name of draft.provider_template_variables || []) {
+      if (!known.has(name)) {
+        errors.push(`Unknown WhatsApp template variable '${name}'`)
+      }
+    }
+  }
+
+  if (channel === 'sms' && draft.body_template) {
+    const sampleLength = formatTemplate(draft.body_template, getSampleData(type)).length
+    if (sampleLength > SMS_SEGMENT_LENGTH) {
+      warnings.push(`About ${sampleLength} characters with sample data; sent as ${Math.ceil(sampleLength / SMS_SEGMENT_LENGTH)} SMS segments`)
+    }
+  }
+
+  return { errors, warnings }
+}
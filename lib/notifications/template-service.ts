@@ -0,0 +1,432 @@
+/**
+ * NOTIFICATION TEMPLATE SERVICE
+ *
+ * Versioned, admin-edited templates per (type, channel, locale).
+ *
+ * Lifecycle of a version:
+ *   draft → published → archived
+ *              ↑ rollback ┘
+ *
+ * - Drafts are editable; published and archived versions are immutable
+ * - Publishing copies the version onto the live notification_templates row
+ *   (publish_notification_template_version, one transaction) and archives
+ *   the version it replaces. Rolling back republishes an archived version.
+ *   Both are recorded in the admin audit trail by the publishing route.
+ * - Email templates render through the type's React Email component unless
+ *   use_body_template is set, in which case body_template is rendered in
+ *   the branded custom layout. Previews and test sends use the same
+ *   rendering as direct-send.ts.
+ */
+
+import { render } from '@react-email/render'
+import { createElement } from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { sendEmail } from './twilio/email-service'
+import { sendSMS } from './twilio/sms-service'
+import { sendWhatsApp, buildContentVariables } from './twilio/whatsapp-service'
+import { getEmailTemplate } from './templates'
+import { CustomTemplateEmail } from './templates/custom-template-email'
+import { localizeTemplateData, resolveNotificationLocale, translateNotification } from './i18n'
+import {
+  TEMPLATE_CHANNELS,
+  TEMPLATE_TYPES,
+  formatTemplate,
+  getSampleData,
+  templateKeyFor,
+  typeFromTemplateKey,
+  validateTemplateDraft,
+  type TemplateChannel,
+  type TemplateValidation
+} from './template-contracts'
+import type {
+  NotificationChannel,
+  NotificationTemplate,
+  NotificationTemplateVersion,
+  NotificationType,
+  TemplateVersionStatus
+} from './notification-types'
+
+export type TemplateVersionResult =
+  | { success: true; version: NotificationTemplateVersion }
+  | { success: false; error: string }
+
+export interface TemplateVersionInput {
+  type: NotificationType
+  channel: NotificationChannel
+  locale: string
+  subject_template?: string | null
+  body_template: string
+  use_body_template?: boolean
+  provider_template_id?: string | null
+  provider_template_variables?: string[]
+  notes?: string | null
+}
+
+export interface TemplatePreview {
+  subject: string | null
+  html: string | null
+  text: string | null
+  validation: TemplateValidation
+}
+
+type EmailTemplateContent = Pick<
+  NotificationTemplate,
+  'locale' | 'subject_template' | 'body_template' | 'html_template' | 'use_body_template'
+>
+
+// =====================================================
+// RENDERING
+// =====================================================
+
+/**
+ * Data for text templates: the event data plus the member's name, with
+ * amounts and months formatted for the locale
+ */
+export function buildTemplateData(
+  data: Record<string, unknown>,
+  locale: Locale,
+  userName?: string | null
+): Record<string, unknown> {
+  return localizeTemplateData(
+    { userName: userName || translateNotification(locale, 'common', 'defaultUserName'), ...data },
+    locale
+  )
+}
+
+/**
+ * Subject and HTML for an email notification.
+ *
+ * A template in the recipient's locale with use_body_template wins; otherwise
+ * the type's React Email component, with the subject from the locale's DB
+ * template or the locale file. Types without a component use the DB template
+ * (English fallback allowed).
+ */
+export async function renderNotificationEmail(params: {
+  type: NotificationType
+  locale: Locale
+  data: Record<string, unknown>
+  userName?: string | null
+  template: EmailTemplateContent | null
+}): Promise<{ subject: string; html: string } | null> {
+  const { type, locale, data, userName, template } = params
+  const templateData = buildTemplateData(data, locale, userName)
+  const localeTemplate = template?.locale === locale ? template : null
+  const ReactEmailComponent = getEmailTemplate(type)
+
+  if ((localeTemplate?.use_body_template || !ReactEmailComponent) && template) {
+    const subject = formatTemplate(template.subject_template || '', templateData)
+    if (!template.use_body_template && template.html_template) {
+      return { subject, html: template.html_template }
+    }
+    const html = await render(createElement(CustomTemplateEmail, {
+      type,
+      subject,
+      body: formatTemplate(template.body_template, templateData),
+      locale
+    }))
+    return { subject, html }
+  }
+
+  if (!ReactEmailComponent) return null
+
+  // Render branded React Email template
+  const html = await render(createElement(ReactEmailComponent, {
+    userName: userName || undefined,
+    ...data,
+    locale
+  }))
+  const subject = localeTemplate?.subject_template
+    ? formatTemplate(localeTemplate.subject_template, templateData)
+    : translateNotification(locale, type, 'subject', templateData)
+
+  return { subject, html }
+}
+
+/**
+ * Render a draft with sample data, exactly as a member would receive it
+ */
+export async function renderTemplatePreview(
+  input: TemplateVersionInput,
+  userName?: string | null
+): Promise<TemplatePreview> {
+  const validation = validateTemplateDraft(input.type, input.channel, input)
+  const locale = resolveNotificationLocale(input.locale)
+  const data = getSampleData(input.type)
+
+  if (input.channel === 'email') {
+    const email = await renderNotificationEmail({
+      type: input.type,
+      locale,
+      data,
+      userName,
+      template: {
+        locale,
+        subject_template: input.subject_template ?? null,
+        body_template: input.body_template,
+        html_template: null,
+        use_body_template: !!input.use_body_template
+      }
+    })
+    return { subject: email?.subject ?? null, html: email?.html ?? null, text: null, validation }
+  }
+
+  const text = formatTemplate(input.body_template, buildTemplateData(data, locale, userName))
+  return { subject: null, html: null, text, validation }
+}
+
+// =====================================================
+// VERSIONS
+// =====================================================
+
+function validateInput(input: TemplateVersionInput): string | null {
+  if (!TEMPLATE_TYPES.includes(input.type)) return `Unknown notification type: ${input.type}`
+  if (!TEMPLATE_CHANNELS.includes(input.channel as TemplateChannel)) return `Templates can't be edited for channel ${input.channel}`
+  if (resolveNotificationLocale(input.locale) !== input.locale) return `Unsupported locale: ${input.locale}`
+  if (input.use_body_template && input.channel !== 'email') return 'Only email templates have a custom layout'
+
+  const { errors } = validateTemplateDraft(input.type, input.channel, input)
+  return errors.length > 0 ? errors.join('; ') : null
+}
+
+function versionFields(input: TemplateVersionInput) {
+  return {
+    subject_template: input.channel === 'email' ? input.subject_template?.trim() || null : null,
+    body_template: input.body_template,
+    use_body_template: input.channel === 'email' && !!input.use_body_template,
+    provider_template_id: input.channel === 'whatsapp' ? input.provider_template_id?.trim() || null : null,
+    provider_template_variables: input.channel === 'whatsapp' ? input.provider_template_variables || [] : [],
+    notes: input.notes?.trim() || null
+  }
+}
+
+export async function getTemplateVersion(versionId: string): Promise<NotificationTemplateVersion | null> {
+  const supabase = createServiceRoleClient()
+  const { data } = await supabase
+    .from('notification_template_versions')
+    .select('*')
+    .eq('id', versionId)
+    .maybeSingle()
+  return data as NotificationTemplateVersion | null
+}
+
+/**
+ * Versions of one template, newest first
+ */
+export async function listTemplateVersions(
+  type: NotificationType,
+  channel: NotificationChannel,
+  locale: string
+): Promise<NotificationTemplateVersion[]> {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('notification_template_versions')
+    .select('*')
+    .eq('template_key', templateKeyFor(type, channel))
+    .eq('channel', channel)
+    .eq('locale', locale)
+    .order('version', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to list template versions: ${error.message}`)
+  }
+  return (data || []) as NotificationTemplateVersion[]
+}
+
+/**
+ * Start a new draft version. Version numbers continue from the template's
+ * latest version, including the live row for templates never edited here.
+ */
+export async function createTemplateVersion(
+  input: TemplateVersionInput,
+  createdBy: string
+): Promise<TemplateVersionResult> {
+  const invalid = validateInput(input)
+  if (invalid) return { success: false, error: invalid }
+
+  const supabase = createServiceRoleClient()
+  const templateKey = templateKeyFor(input.type, input.channel)
+
+  const [{ data: latest }, { data: live }] = await Promise.all([
+    supabase
+      .from('notification_template_versions')
+      .select('version')
+      .eq('template_key', templateKey)
+      .eq('channel', input.channel)
+      .eq('locale', input.locale)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('notification_templates')
+      .select('version')
+      .eq('template_key', templateKey)
+      .eq('channel', input.channel)
+      .eq('locale', input.locale)
+      .maybeSingle()
+  ])
+
+  const { data, error } = await supabase
+    .from('notification_template_versions')
+    .insert({
+      ...versionFields(input),
+      template_key: templateKey,
+      channel: input.channel,
+      locale: input.locale,
+      version: Math.max(latest?.version || 0, live?.version || 0) + 1,
+      status: 'draft',
+      created_by: createdBy
+    })
+    .select('*')
+    .single()
+
+  if (error?.code === '23505') {
+    return { success: false, error: 'Another version was created at the same time; please try again' }
+  }
+  if (error || !data) {
+    throw new Error(`Failed to create template version: ${error?.message || 'no row returned'}`)
+  }
+  return { success: true, version: data as NotificationTemplateVersion }
+}
+
+/**
+ * Edit a draft. Published and archived versions never change, so rolling
+ * back always restores exactly what was live.
+ */
+export async function updateTemplateVersion(
+  versionId: string,
+  input: Omit<TemplateVersionInput, 'type' | 'channel' | 'locale'>
+): Promise<TemplateVersionResult> {
+  const current = await getTemplateVersion(versionId)
+  if (!current) return { success: false, error: 'Template version not found' }
+
+  const type = typeFromTemplateKey(current.template_key, current.channel)
+  if (!type) return { success: false, error: `Unknown template ${current.template_key}` }
+
+  const full: TemplateVersionInput = { ...input, type, channel: current.channel, locale: current.locale }
+  const invalid = validateInput(full)
+  if (invalid) return { success: false, error: invalid }
+
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('notification_template_versions')
+    .update({ ...versionFields(full), updated_at: new Date().toISOString() })
+    .eq('id', versionId)
+    .eq('status', 'draft')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update template version ${versionId}: ${error.message}`)
+  }
+  if (!data) {
+    return { success: false, error: `Template version is ${current.status}; only drafts can be edited` }
+  }
+  return { success: true, version: data as NotificationTemplateVersion }
+}
+
+async function makeLive(
+  versionId: string,
+  adminId: string,
+  from: TemplateVersionStatus
+): Promise<TemplateVersionResult> {
+  const current = await getTemplateVersion(versionId)
+  if (!current) return { success: false, error: 'Template version not found' }
+  if (current.status !== from) {
+    return { success: false, error: `Template version is ${current.status}; expected ${from}` }
+  }
+
+  // Re-check drafts against the current contract before they go live
+  const type = typeFromTemplateKey(current.template_key, current.channel)
+  if (!type) return { success: false, error: `Unknown template ${current.template_key}` }
+  const { errors } = validateTemplateDraft(type, current.channel, current)
+  if (errors.length > 0) return { success: false, error: errors.join('; ') }
+
+  const supabase = createServiceRoleClient()
+  const { data: result, error } = await supabase.rpc('publish_notification_template_version', {
+    p_version_id: versionId,
+    p_admin_id: adminId
+  })
+
+  if (error) {
+    throw new Error(`Failed to publish template version ${versionId}: ${error.message}`)
+  }
+
+  const summary = result as { previous_version: number | null } | null
+  console.log(`📝 Template ${current.template_key} (${current.locale}) v${current.version} ${from === 'draft' ? 'published' : 'restored'} by ${adminId} (replacing v${summary?.previous_version ?? 'none'})`)
+
+  const published = await getTemplateVersion(versionId)
+  return published ? { success: true, version: published } : { success: false, error: 'Template version not found' }
+}
+
+export async function publishTemplateVersion(versionId: string, adminId: string): Promise<TemplateVersionResult> {
+  return makeLive(versionId, adminId, 'draft')
+}
+
+/**
+ * Republish an archived version, replacing whatever is live now
+ */
+export async function rollbackTemplateVersion(versionId: string, adminId: string): Promise<TemplateVersionResult> {
+  return makeLive(versionId, adminId, 'archived')
+}
+
+// =====================================================
+// TEST SEND
+// =====================================================
+
+/**
+ * Send a draft, filled with sample data, to the admin's own email or phone.
+ * Test sends skip preferences, consent and notification_logs.
+ */
+export async function sendTestTemplate(
+  input: TemplateVersionInput,
+  adminId: string
+): Promise<{ success: boolean; error?: string; sentTo?: string }> {
+  const invalid = validateInput(input)
+  if (invalid) return { success: false, error: invalid }
+
+  const supabase = createServiceRoleClient()
+  const { data: admin } = await supabase
+    .from('users')
+    .select('email, phone_number, name')
+    .eq('id', adminId)
+    .single()
+
+  if (!admin) return { success: false, error: 'Admin user not found' }
+
+  const preview = await renderTemplatePreview(input, admin.name)
+
+  if (input.channel === 'email') {
+    if (!admin.email) return { success: false, error: 'Your account has no email address' }
+    if (!preview.html) return { success: false, error: 'Nothing to render for this template' }
+
+    const result = await sendEmail({
+      to: admin.email,
+      subject: `[Test] ${preview.subject || ''}`,
+      html: preview.html
+    })
+    return result.success ? { success: true, sentTo: admin.email } : { success: false, error: result.error }
+  }
+
+  if (!admin.phone_number) return { success: false, error: 'Your account has no phone number' }
+  const message = `[Test] ${preview.text || ''}`
+
+  if (input.channel === 'sms') {
+    const result = await sendSMS({ to: admin.phone_number, message })
+    return result.success ? { success: true, sentTo: admin.phone_number } : { success: false, error: result.error }
+  }
+
+  const contentSid = input.provider_template_id?.trim() || undefined
+  const result = await sendWhatsApp({
+    to: admin.phone_number,
+    message,
+    contentSid,
+    contentVariables: contentSid
+      ? buildContentVariables(
+        input.provider_template_variables || [],
+        buildTemplateData(getSampleData(input.type), resolveNotificationLocale(input.locale), admin.name)
+      )
+      : undefined
+  })
+  return result.success ? { success: true, sentTo: admin.phone_number } : { success: false, error: result.error }
+}
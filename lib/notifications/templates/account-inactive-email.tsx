@@ -17,22 +17,29 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
 
 interface AccountInactiveEmailProps {
   userName?: string
   daysOverdue?: number
   reactivateUrl?: string
+  locale?: Locale
 }
 
 export const AccountInactiveEmail = ({
-  userName = 'Member',
+  userName,
   daysOverdue = 3,
-  reactivateUrl = 'https://sniperstradingacademy.com/payments'
+  reactivateUrl = 'https://sniperstradingacademy.com/payments',
+  locale = 'en'
 }: AccountInactiveEmailProps) => {
+  const t = createNotificationTranslator(locale, 'account_inactive')
+
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Your Snipers Trading Academy account has been deactivated</Preview>
+      <Preview>{t('preview')}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -46,51 +53,47 @@ export const AccountInactiveEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Account Deactivated</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Your account has been deactivated because your subscription payment is {daysOverdue} days overdue. While your account is inactive:
+            {t('intro', { daysOverdue })}
           </Text>
 
           {/* Alert Box */}
           <Section style={alertBox}>
-            <Text style={alertTitle}>What&apos;s Affected</Text>
+            <Text style={alertTitle}>{t('affectedTitle')}</Text>
             <Text style={alertText}>
-              • Commission earnings are paused
-              <br />
-              • Your network position is preserved
-              <br />
-              • You are not counted as active for your upline
+              {richText(t('affected'))}
             </Text>
           </Section>
 
           <Text style={text}>
-            The good news is that your network position and history are saved. You can reactivate your account at any time by updating your payment method.
+            {t('body')}
           </Text>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={reactivateUrl}>
-              Reactivate My Account
+              {t('cta')}
             </Button>
           </Section>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              Questions? <Link href="https://sniperstradingacademy.com/settings" style={link}>Contact Support</Link>
+              {t('questions')} <Link href="https://sniperstradingacademy.com/settings" style={link}>{t('contactSupport')}</Link>
             </Text>
             <Text style={footerText}>
               <Link href="https://sniperstradingacademy.com/notifications" style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              &copy; {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
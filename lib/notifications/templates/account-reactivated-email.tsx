@@ -17,20 +17,27 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
 
 interface AccountReactivatedEmailProps {
   userName?: string
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const AccountReactivatedEmail = ({
-  userName = 'Member',
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  userName,
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: AccountReactivatedEmailProps) => {
+  const t = createNotificationTranslator(locale, 'account_reactivated')
+
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Welcome back! Your account is active again</Preview>
+      <Preview>{t('preview')}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -44,36 +51,32 @@ export const AccountReactivatedEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Welcome Back!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Great news! Your account has been reactivated and you&apos;re back in action. All your benefits have been restored:
+            {t('intro')}
           </Text>
 
           {/* Success Box */}
           <Section style={successBox}>
-            <Text style={successTitle}>Account Restored</Text>
+            <Text style={successTitle}>{t('restoredTitle')}</Text>
             <Text style={successText}>
-              • Commission earnings resumed
-              <br />
-              • Network position fully active
-              <br />
-              • You&apos;re counted as active for your upline again
+              {richText(t('restored'))}
             </Text>
           </Section>
 
           <Text style={text}>
-            Your team missed you! Get back to building your network and growing your earnings.
+            {t('body')}
           </Text>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={dashboardUrl}>
-              Go to Dashboard
+              {t('goToDashboard')}
             </Button>
           </Section>
 
@@ -81,11 +84,11 @@ export const AccountReactivatedEmail = ({
           <Section style={footer}>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              &copy; {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
@@ -17,24 +17,32 @@ import {
   Hr
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator } from '../i18n'
 
 interface AdminAnnouncementEmailProps {
   userName?: string
   subject?: string
   message?: string
   senderName?: string
+  locale?: Locale
 }
 
 export const AdminAnnouncementEmail = ({
-  userName = 'Member',
-  subject = 'Message from Admin',
+  userName,
+  subject,
   message = 'This is an important announcement from the Snipers Trading Academy team.',
-  senderName = 'Snipers Trading Academy Team'
+  senderName,
+  locale = 'en'
 }: AdminAnnouncementEmailProps) => {
+  // Subject and message are written by the admin and sent as-is
+  const t = createNotificationTranslator(locale, 'admin_announcement')
+  const heading = subject || t('defaultSubject')
+
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>{subject}</Preview>
+      <Preview>{heading}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -44,12 +52,12 @@ export const AdminAnnouncementEmail = ({
 
           {/* Subject */}
           <Section style={section}>
-            <Heading style={h2}>{subject}</Heading>
+            <Heading style={h2}>{heading}</Heading>
           </Section>
 
           {/* Greeting */}
           <Section style={section}>
-            <Text style={text}>Hi {userName},</Text>
+            <Text style={text}>{t('greeting', { userName: userName || t('defaultUserName') })}</Text>
           </Section>
 
           {/* Message */}
@@ -62,10 +70,10 @@ export const AdminAnnouncementEmail = ({
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              This message was sent by {senderName}.
+              {t('sentBy', { senderName: senderName || t('defaultSender') })}
             </Text>
             <Text style={footerText}>
-              If you have any questions, please contact our support team.
+              {t('support')}
             </Text>
           </Section>
         </Container>
@@ -0,0 +1,141 @@
+/**
+ * CUSTOM TEMPLATE EMAIL
+ *
+ * Branded layout for admin-authored email templates (use_body_template).
+ * The body arrives with its {{variables}} already filled in and supports
+ * the same **bold** and line-break markup as the locale files.
+ */
+
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text
+} from '@react-email/components'
+import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import type { NotificationType } from '../notification-types'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
+
+interface CustomTemplateEmailProps {
+  type: NotificationType
+  subject: string
+  body: string
+  dashboardUrl?: string
+  locale?: Locale
+}
+
+export const CustomTemplateEmail = ({
+  type,
+  subject,
+  body,
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
+}: CustomTemplateEmailProps) => {
+  const t = createNotificationTranslator(locale, type)
+
+  return (
+    <Html lang={locale}>
+      <Head />
+      <Preview>{subject}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Logo */}
+          <Section style={logoSection}>
+            <Heading style={h1}>Snipers Trading Academy</Heading>
+          </Section>
+
+          {/* Body */}
+          <Section style={section}>
+            <Text style={text}>{richText(body)}</Text>
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              <Link href={`${dashboardUrl}/notifications`} style={link}>
+                {t('manageNotificationPreferences')}
+              </Link>
+            </Text>
+            <Text style={footerText}>
+              {t('copyright', { year: new Date().getFullYear() })}
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export default CustomTemplateEmail
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif'
+}
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+  maxWidth: '600px'
+}
+
+const logoSection = {
+  padding: '32px 40px',
+  backgroundColor: '#1a1a1a'
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '28px',
+  fontWeight: 'bold',
+  margin: '0',
+  textAlign: 'center' as const
+}
+
+const section = {
+  padding: '24px 40px'
+}
+
+const text = {
+  color: '#1a1a1a',
+  fontSize: '16px',
+  lineHeight: '26px',
+  margin: '0'
+}
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0'
+}
+
+const footer = {
+  padding: '0 40px',
+  marginTop: '24px'
+}
+
+const footerText = {
+  color: '#8898aa',
+  fontSize: '14px',
+  lineHeight: '20px',
+  margin: '0',
+  marginBottom: '8px'
+}
+
+const link = {
+  color: '#8898aa',
+  textDecoration: 'underline'
+}
@@ -0,0 +1,225 @@
+/**
+ * DIGEST EMAIL TEMPLATE
+ *
+ * Daily or weekly summary of a member's digestible notifications
+ * (see digest-service.ts)
+ */
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text
+} from '@react-email/components'
+import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import type { DigestFrequency, NotificationType } from '../notification-types'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
+
+export interface DigestSection {
+  type: NotificationType
+  count: number
+  lines: string[]  // Already localized, at most DIGEST_LINES_PER_SECTION
+}
+
+interface DigestEmailProps {
+  userName?: string
+  frequency?: DigestFrequency
+  count?: number
+  sections?: DigestSection[]
+  dashboardUrl?: string
+  locale?: Locale
+}
+
+export const DigestEmail = ({
+  userName,
+  frequency = 'daily',
+  count = 0,
+  sections = [],
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
+}: DigestEmailProps) => {
+  const t = createNotificationTranslator(locale, 'digest')
+
+  return (
+    <Html lang={locale}>
+      <Head />
+      <Preview>{t('preview', { count })}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Logo */}
+          <Section style={logoSection}>
+            <Heading style={h1}>Snipers Trading Academy</Heading>
+          </Section>
+
+          {/* Main Content */}
+          <Heading style={h2}>{t(`heading_${frequency}`)}</Heading>
+
+          <Text style={text}>
+            {t('greeting', { userName: userName || t('defaultUserName') })}
+          </Text>
+
+          <Text style={text}>
+            {t('intro')}
+          </Text>
+
+          {sections.map((section) => (
+            <Section key={section.type} style={sectionBox}>
+              <Text style={sectionTitle}>{t(`section_${section.type}`, { count: section.count })}</Text>
+              {section.lines.map((line, index) => (
+                <Text key={index} style={itemText}>• {richText(line)}</Text>
+              ))}
+              {section.count > section.lines.length && (
+                <Text style={moreText}>{t('more', { count: section.count - section.lines.length })}</Text>
+              )}
+            </Section>
+          ))}
+
+          {/* CTA Button */}
+          <Section style={buttonSection}>
+            <Button style={button} href={`${dashboardUrl}/team`}>
+              {t('cta')}
+            </Button>
+          </Section>
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>{t('changeFrequency')}</Text>
+            <Text style={footerText}>
+              <Link href={`${dashboardUrl}/notifications`} style={link}>
+                {t('manageNotificationPreferences')}
+              </Link>
+            </Text>
+            <Text style={footerCopyright}>
+              {t('copyright', { year: new Date().getFullYear() })}
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export default DigestEmail
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif'
+}
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+  maxWidth: '600px'
+}
+
+const logoSection = {
+  padding: '32px 20px'
+}
+
+const h1 = {
+  color: '#1f2937',
+  fontSize: '28px',
+  fontWeight: '700',
+  margin: '0',
+  textAlign: 'center' as const
+}
+
+const h2 = {
+  color: '#1f2937',
+  fontSize: '24px',
+  fontWeight: '600',
+  lineHeight: '1.3',
+  margin: '20px 0',
+  textAlign: 'center' as const
+}
+
+const text = {
+  color: '#374151',
+  fontSize: '16px',
+  lineHeight: '1.6',
+  margin: '16px 20px'
+}
+
+const sectionBox = {
+  backgroundColor: '#eff6ff',
+  borderLeft: '4px solid #3b82f6',
+  borderRadius: '4px',
+  margin: '24px 20px',
+  padding: '16px 20px'
+}
+
+const sectionTitle = {
+  color: '#1e40af',
+  fontSize: '14px',
+  fontWeight: '600',
+  margin: '0 0 8px 0',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.5px'
+}
+
+const itemText = {
+  color: '#374151',
+  fontSize: '15px',
+  lineHeight: '1.5',
+  margin: '4px 0'
+}
+
+const moreText = {
+  color: '#6b7280',
+  fontSize: '14px',
+  margin: '8px 0 0 0'
+}
+
+const buttonSection = {
+  textAlign: 'center' as const,
+  margin: '32px 0'
+}
+
+const button = {
+  backgroundColor: '#3b82f6',
+  borderRadius: '6px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: '600',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'inline-block',
+  padding: '12px 32px'
+}
+
+const footer = {
+  borderTop: '1px solid #e5e7eb',
+  margin: '32px 20px 0',
+  padding: '20px 0 0'
+}
+
+const footerText = {
+  color: '#6b7280',
+  fontSize: '12px',
+  lineHeight: '1.6',
+  margin: '8px 0',
+  textAlign: 'center' as const
+}
+
+const footerCopyright = {
+  color: '#9ca3af',
+  fontSize: '12px',
+  margin: '16px 0 0 0',
+  textAlign: 'center' as const
+}
+
+const link = {
+  color: '#3b82f6',
+  textDecoration: 'underline'
+}
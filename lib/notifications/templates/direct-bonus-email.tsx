@@ -17,29 +17,32 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator, formatNotificationCurrency } from '../i18n'
+import { richText } from './rich-text'
 
 interface DirectBonusEmailProps {
   userName?: string
   referredName?: string
   amount?: number
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const DirectBonusEmail = ({
-  userName = 'Member',
+  userName,
   referredName = 'New Member',
   amount = 249.50,
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: DirectBonusEmailProps) => {
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
+  const t = createNotificationTranslator(locale, 'direct_bonus')
+  const formattedAmount = formatNotificationCurrency(amount, locale)
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>💰 You earned {formattedAmount}!</Preview>
+      <Preview>{t('preview', { amount: formattedAmount })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -53,67 +56,63 @@ export const DirectBonusEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>You Earned a Direct Bonus!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Congratulations! {referredName} just completed their initial payment and activated their account. Your direct referral bonus has been credited to your account!
+            {t('intro', { referredName })}
           </Text>
 
           {/* Amount Box */}
           <Section style={amountBox}>
-            <Text style={amountLabel}>Direct Referral Bonus</Text>
+            <Text style={amountLabel}>{t('amountLabel')}</Text>
             <Text style={amountValue}>{formattedAmount}</Text>
-            <Text style={statusText}>✓ Pending Payout</Text>
+            <Text style={statusText}>{t('status')}</Text>
           </Section>
 
           <Text style={text}>
-            This bonus is now in <strong>pending status</strong> and will be paid out to your connected crypto wallet on the <strong>15th of next month</strong> during our regular payout cycle.
+            {richText(t('pending'))}
           </Text>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={`${dashboardUrl}/finance`}>
-              View Your Earnings
+              {t('cta')}
             </Button>
           </Section>
 
           {/* Info Section */}
           <Section style={infoBox}>
-            <Text style={infoTitle}>What Happens Next?</Text>
+            <Text style={infoTitle}>{t('whatHappensNext')}</Text>
             <Text style={infoText}>
-              <strong>Now:</strong> Your ${formattedAmount} bonus is pending
-              <br />
-              <strong>15th of next month:</strong> Payout sent to your crypto wallet
-              <br />
-              <strong>Shortly after:</strong> Funds arrive on-chain, within minutes to a few hours
+              {richText(t('timeline', { amount: formattedAmount }))}
             </Text>
           </Section>
 
           <Text style={text}>
-            Keep growing your network! Each new referral who activates their account earns you another ${formattedAmount}.
+            {t('keepGrowing', { amount: formattedAmount })}
           </Text>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/finance`} style={link}>
-                View earnings
+                {t('viewEarnings')}
               </Link>
               {' · '}
               <Link href={`${dashboardUrl}/team`} style={link}>
-                View your team
+                {t('viewTeam')}
               </Link>
               {' · '}
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notifications
+                {t('manageNotifications')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              © {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
@@ -17,29 +17,33 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator, formatNotificationCurrency, formatNotificationMonth } from '../i18n'
+import { richText } from './rich-text'
 
 interface MonthlyCommissionEmailProps {
   userName?: string
   amount?: number
-  month?: string
+  month?: string  // 'YYYY-MM'
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const MonthlyCommissionEmail = ({
-  userName = 'Member',
+  userName,
   amount = 149.50,
-  month = 'November 2025',
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  month = '2025-11',
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: MonthlyCommissionEmailProps) => {
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
+  const t = createNotificationTranslator(locale, 'monthly_commission')
+  const formattedAmount = formatNotificationCurrency(amount, locale)
+  const formattedMonth = formatNotificationMonth(month, locale)
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Your {month} commission of {formattedAmount} is ready!</Preview>
+      <Preview>{t('preview', { month: formattedMonth, amount: formattedAmount })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -53,75 +57,65 @@ export const MonthlyCommissionEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Monthly Commission Earned!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Great news! Your monthly residual commission for <strong>{month}</strong> has been calculated and is ready for payout.
+            {richText(t('intro', { month: formattedMonth }))}
           </Text>
 
           {/* Amount Box */}
           <Section style={amountBox}>
-            <Text style={amountLabel}>Commission Amount</Text>
+            <Text style={amountLabel}>{t('amountLabel')}</Text>
             <Text style={amountValue}>{formattedAmount}</Text>
           </Section>
 
           <Text style={text}>
-            This commission comes from the ongoing activity of your network. Your residual income is a result of the relationships you&apos;ve built and the value you&apos;ve created.
+            {t('body')}
           </Text>
 
           {/* Info Section */}
           <Section style={infoBox}>
-            <Text style={infoTitle}>📅 Payment Timeline</Text>
+            <Text style={infoTitle}>{t('timelineTitle')}</Text>
             <Text style={infoText}>
-              <strong>Processed:</strong> Now
-              <br />
-              <strong>Transfer initiated:</strong> Within 24 hours
-              <br />
-              <strong>Expected arrival:</strong> Within minutes to a few hours
+              {richText(t('timeline'))}
             </Text>
           </Section>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={dashboardUrl}>
-              View Dashboard
+              {t('viewDashboard')}
             </Button>
           </Section>
 
           <Text style={text}>
-            Your commission will be sent to your connected crypto wallet. You can track all your earnings and payouts in your dashboard.
+            {t('wallet')}
           </Text>
 
           {/* Tips Section */}
           <Section style={tipsBox}>
-            <Text style={tipsTitle}>💡 Keep Growing</Text>
+            <Text style={tipsTitle}>{t('tipsTitle')}</Text>
             <Text style={tipsText}>
-              • Your residual income grows as your network expands
-              <br />
-              • Share your referral link to add more members
-              <br />
-              • Engaged members create more sustainable income
-              <br />
-              • Check your team dashboard for growth insights
+              {richText(t('tips'))}
             </Text>
           </Section>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              Need help? <Link href={`${dashboardUrl}/../settings`} style={link}>Contact Support</Link>
+              {t('needHelp')} <Link href={`${dashboardUrl}/../settings`} style={link}>{t('contactSupport')}</Link>
             </Text>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/../notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              © {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
@@ -17,24 +17,31 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
 
 interface NetworkJoinEmailProps {
   userName?: string
   newMemberName?: string
   depth?: number
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const NetworkJoinEmail = ({
-  userName = 'Member',
+  userName,
   newMemberName = 'New Member',
   depth = 2,
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: NetworkJoinEmailProps) => {
+  const t = createNotificationTranslator(locale, 'network_join')
+
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>👥 {newMemberName} joined your network!</Preview>
+      <Preview>{t('preview', { newMemberName })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -48,31 +55,31 @@ export const NetworkJoinEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Your Network is Growing!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Great news! <strong>{newMemberName}</strong> has joined your network at level {depth}. Your team is expanding and your earning potential is increasing!
+            {richText(t('intro', { newMemberName, depth }))}
           </Text>
 
           {/* Info Box */}
           <Section style={infoBox}>
-            <Text style={infoLabel}>New Network Member</Text>
+            <Text style={infoLabel}>{t('newMemberLabel')}</Text>
             <Text style={infoValue}>{newMemberName}</Text>
-            <Text style={depthText}>Level {depth} in your network</Text>
+            <Text style={depthText}>{t('depth', { depth })}</Text>
           </Section>
 
           <Text style={text}>
-            As your network grows, so does your monthly residual commission. Every active member in your network contributes to your sniper volume.
+            {t('body')}
           </Text>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={`${dashboardUrl}/team`}>
-              View Your Network
+              {t('cta')}
             </Button>
           </Section>
 
@@ -80,11 +87,11 @@ export const NetworkJoinEmail = ({
           <Section style={footer}>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              &copy; {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
@@ -17,27 +17,30 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator, formatNotificationCurrency } from '../i18n'
+import { richText } from './rich-text'
 
 interface PaymentFailedEmailProps {
   userName?: string
   amount?: number
   paymentUrl?: string
+  locale?: Locale
 }
 
 export const PaymentFailedEmail = ({
-  userName = 'Member',
+  userName,
   amount = 199,
-  paymentUrl = 'https://sniperstradingacademy.com/payments'
+  paymentUrl = 'https://sniperstradingacademy.com/payments',
+  locale = 'en'
 }: PaymentFailedEmailProps) => {
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
+  const t = createNotificationTranslator(locale, 'payment_failed')
+  const formattedAmount = formatNotificationCurrency(amount, locale)
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>⚠️ Payment failed - Action required to keep your account active</Preview>
+      <Preview>{t('preview')}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -51,70 +54,66 @@ export const PaymentFailedEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Payment Failed</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            We were unable to process your subscription payment of <strong>{formattedAmount}</strong>. Your account will remain active for the next <strong>33 days</strong>, but action is required to avoid service interruption.
+            {richText(t('intro', { amount: formattedAmount }))}
           </Text>
 
           {/* Alert Box */}
           <Section style={alertBox}>
-            <Text style={alertTitle}>⏰ Action Required</Text>
+            <Text style={alertTitle}>{t('alertTitle')}</Text>
             <Text style={alertText}>
-              Please update your payment method within 33 days to keep your account active and maintain your position in the network.
+              {t('alert')}
             </Text>
           </Section>
 
           <Text style={text}>
-            <strong>Common reasons for payment failure:</strong>
+            {richText(t('reasonsTitle'))}
           </Text>
 
           <Section style={reasonsList}>
-            <Text style={reasonItem}>• Insufficient funds in your account</Text>
-            <Text style={reasonItem}>• Expired or invalid credit card</Text>
-            <Text style={reasonItem}>• Card limit reached</Text>
-            <Text style={reasonItem}>• Bank declined the transaction</Text>
+            <Text style={reasonItem}>{t('reasonFunds')}</Text>
+            <Text style={reasonItem}>{t('reasonCard')}</Text>
+            <Text style={reasonItem}>{t('reasonLimit')}</Text>
+            <Text style={reasonItem}>{t('reasonDeclined')}</Text>
           </Section>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={paymentUrl}>
-              Update Payment Method
+              {t('cta')}
             </Button>
           </Section>
 
           {/* Info Section */}
           <Section style={infoBox}>
-            <Text style={infoTitle}>What Happens Next?</Text>
+            <Text style={infoTitle}>{t('whatHappensNext')}</Text>
             <Text style={infoText}>
-              <strong>Now - Day 33:</strong> Your account remains active
-              <br />
-              <strong>After Day 33:</strong> Account becomes inactive
-              <br />
-              <strong>After Inactive:</strong> Commission earnings paused until reactivation
+              {richText(t('next'))}
             </Text>
           </Section>
 
           <Text style={text}>
-            To avoid any interruption to your earnings and maintain your network position, please update your payment method as soon as possible.
+            {t('closing')}
           </Text>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              Need help? <Link href={`${paymentUrl}/../settings`} style={link}>Contact Support</Link>
+              {t('needHelp')} <Link href={`${paymentUrl}/../settings`} style={link}>{t('contactSupport')}</Link>
             </Text>
             <Text style={footerText}>
               <Link href={`${paymentUrl}/../notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              © {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
@@ -17,27 +17,29 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator, formatNotificationCurrency } from '../i18n'
 
 interface PaymentSucceededEmailProps {
   userName?: string
   amount?: number
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const PaymentSucceededEmail = ({
-  userName = 'Member',
+  userName,
   amount = 199,
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: PaymentSucceededEmailProps) => {
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
+  const t = createNotificationTranslator(locale, 'payment_succeeded')
+  const formattedAmount = formatNotificationCurrency(amount, locale)
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Payment of {formattedAmount} confirmed</Preview>
+      <Preview>{t('preview', { amount: formattedAmount })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -51,27 +53,27 @@ export const PaymentSucceededEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Payment Confirmed!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Your subscription payment has been successfully processed. Your account remains active and your network benefits continue.
+            {t('intro')}
           </Text>
 
           {/* Amount Box */}
           <Section style={amountBox}>
-            <Text style={amountLabel}>Payment Amount</Text>
+            <Text style={amountLabel}>{t('amountLabel')}</Text>
             <Text style={amountValue}>{formattedAmount}</Text>
-            <Text style={statusText}>&#10003; Payment Successful</Text>
+            <Text style={statusText}>{t('status')}</Text>
           </Section>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={dashboardUrl}>
-              View Dashboard
+              {t('viewDashboard')}
             </Button>
           </Section>
 
@@ -79,11 +81,11 @@ export const PaymentSucceededEmail = ({
           <Section style={footer}>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              &copy; {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
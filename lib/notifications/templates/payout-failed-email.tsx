@@ -17,29 +17,32 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator, formatNotificationCurrency } from '../i18n'
+import { richText } from './rich-text'
 
 interface PayoutFailedEmailProps {
   userName?: string
   amount?: number
   reason?: string
   settingsUrl?: string
+  locale?: Locale
 }
 
 export const PayoutFailedEmail = ({
-  userName = 'Member',
+  userName,
   amount = 149.50,
   reason = 'Wallet address not configured',
-  settingsUrl = 'https://sniperstradingacademy.com/settings'
+  settingsUrl = 'https://sniperstradingacademy.com/settings',
+  locale = 'en'
 }: PayoutFailedEmailProps) => {
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
+  const t = createNotificationTranslator(locale, 'payout_failed')
+  const formattedAmount = formatNotificationCurrency(amount, locale)
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Action required: Commission payout of {formattedAmount} needs attention</Preview>
+      <Preview>{t('preview', { amount: formattedAmount })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -53,80 +56,74 @@ export const PayoutFailedEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Commission Payout Needs Attention</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            We attempted to process your commission payout of <strong>{formattedAmount}</strong>, but encountered an issue that needs your attention.
+            {richText(t('intro', { amount: formattedAmount }))}
           </Text>
 
           {/* Error Box */}
           <Section style={errorBox}>
-            <Text style={errorTitle}>⚠️ Issue Detected</Text>
+            <Text style={errorTitle}>{t('issueTitle')}</Text>
             <Text style={errorText}>
               {reason}
             </Text>
           </Section>
 
           <Text style={text}>
-            <strong>Common reasons and solutions:</strong>
+            {richText(t('reasonsTitle'))}
           </Text>
 
           <Section style={reasonsList}>
             <Text style={reasonItem}>
-              <strong>• Wallet not configured:</strong> Set up your Polygon wallet address in your payout settings to receive payouts.
+              {richText(t('reasonWallet'))}
             </Text>
             <Text style={reasonItem}>
-              <strong>• Invalid wallet address:</strong> Double-check that your wallet address is a valid Polygon-compatible address.
+              {richText(t('reasonInvalid'))}
             </Text>
             <Text style={reasonItem}>
-              <strong>• Network issues:</strong> There may have been a temporary issue with the Polygon network. We will retry automatically.
+              {richText(t('reasonNetwork'))}
             </Text>
             <Text style={reasonItem}>
-              <strong>• Insufficient gas:</strong> The platform gas tank may need to be refilled. Our team has been notified.
+              {richText(t('reasonGas'))}
             </Text>
           </Section>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={settingsUrl}>
-              Update Payment Settings
+              {t('cta')}
             </Button>
           </Section>
 
           {/* Info Section */}
           <Section style={infoBox}>
-            <Text style={infoTitle}>What Happens Next?</Text>
+            <Text style={infoTitle}>{t('whatHappensNext')}</Text>
             <Text style={infoText}>
-              <strong>Your commission is safe:</strong> The funds are held securely
-              <br />
-              <strong>Fix the issue:</strong> Update your payment settings
-              <br />
-              <strong>Automatic retry:</strong> We&apos;ll retry the payout once the issue is resolved
-              <br />
-              <strong>Need help?</strong> Contact our support team for assistance
+              {richText(t('next'))}
             </Text>
           </Section>
 
           <Text style={text}>
-            Your earned commission of {formattedAmount} is waiting for you. Please take a moment to resolve this issue so we can complete your payout.
+            {t('waiting', { amount: formattedAmount })}
           </Text>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              Need help? <Link href={`${settingsUrl}/../support`} style={link}>Contact Support</Link>
+              {t('needHelp')} <Link href={`${settingsUrl}/../support`} style={link}>{t('contactSupport')}</Link>
             </Text>
             <Text style={footerText}>
               <Link href={`${settingsUrl}/../notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              © {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
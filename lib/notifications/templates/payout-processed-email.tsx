@@ -17,6 +17,9 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator, formatNotificationCurrency } from '../i18n'
+import { richText } from './rich-text'
 
 interface PayoutProcessedEmailProps {
   userName?: string
@@ -24,24 +27,24 @@ interface PayoutProcessedEmailProps {
   commissionType?: string
   arrivalDate?: string
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const PayoutProcessedEmail = ({
-  userName = 'Member',
+  userName,
   amount = 249.50,
   commissionType = 'Direct Bonus',
-  arrivalDate = 'minutes to a few hours',
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  arrivalDate,
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: PayoutProcessedEmailProps) => {
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
+  const t = createNotificationTranslator(locale, 'payout_processed')
+  const formattedAmount = formatNotificationCurrency(amount, locale)
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Your ${formattedAmount} payout is on the way!</Preview>
+      <Preview>{t('preview', { amount: formattedAmount })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -55,64 +58,59 @@ export const PayoutProcessedEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Payout Processed!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Great news! Your commission payout has been successfully sent to your connected crypto wallet.
+            {t('intro')}
           </Text>
 
           {/* Amount Box */}
           <Section style={amountBox}>
-            <Text style={amountLabel}>Amount</Text>
+            <Text style={amountLabel}>{t('amountLabel')}</Text>
             <Text style={amountValue}>{formattedAmount}</Text>
             <Text style={commissionTypeText}>{commissionType}</Text>
           </Section>
 
           <Text style={text}>
-            Your payout should arrive in your crypto wallet within {arrivalDate}.
-            The exact timing depends on network confirmation times.
+            {t('arrival', { arrivalDate: arrivalDate || t('defaultArrival') })}
           </Text>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={dashboardUrl}>
-              View Your Dashboard
+              {t('cta')}
             </Button>
           </Section>
 
           {/* Info Section */}
           <Section style={infoBox}>
-            <Text style={infoTitle}>What&apos;s Next?</Text>
+            <Text style={infoTitle}>{t('nextTitle')}</Text>
             <Text style={infoText}>
-              • Check your crypto wallet within minutes to a few hours
-              <br />
-              • View your payout history in the Finance page
-              <br />
-              • Continue growing your network to earn more
+              {richText(t('next'))}
             </Text>
           </Section>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              Questions about your payout?{' '}
+              {t('questions')}{' '}
               <Link href={`${dashboardUrl}/settings`} style={link}>
-                Contact Support
+                {t('contactSupport')}
               </Link>
             </Text>
             <Text style={footerText}>
-              You&apos;re receiving this email because a payout was processed on your Snipers Trading Academy account.
+              {t('reason')}
               <br />
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              © {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
@@ -17,6 +17,9 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
 
 interface ReferralSignupEmailProps {
   userName?: string
@@ -24,19 +27,23 @@ interface ReferralSignupEmailProps {
   referredEmail?: string
   referralCode?: string
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const ReferralSignupEmail = ({
-  userName = 'Member',
+  userName,
   referredName = 'New Member',
   referredEmail = 'newmember@example.com',
   referralCode = 'YOUR-CODE',
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: ReferralSignupEmailProps) => {
+  const t = createNotificationTranslator(locale, 'referral_signup')
+
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>🎉 {referredName} just joined your network!</Preview>
+      <Preview>{t('preview', { referredName })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -50,48 +57,42 @@ export const ReferralSignupEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>New Referral Joined!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Great news! Someone just signed up using your referral code and has been added to your network.
+            {t('intro')}
           </Text>
 
           {/* Info Box */}
           <Section style={infoBox}>
-            <Text style={infoLabel}>New Member</Text>
+            <Text style={infoLabel}>{t('newMemberLabel')}</Text>
             <Text style={infoValue}>{referredName}</Text>
             <Text style={infoEmail}>{referredEmail}</Text>
             <Text style={infoCode}>
-              Referral Code: <strong>{referralCode}</strong>
+              {richText(t('referralCode', { referralCode }))}
             </Text>
           </Section>
 
           <Text style={text}>
-            When {referredName} completes their initial $499 payment, you&apos;ll automatically receive a <strong>$249.50 direct referral bonus</strong>. We&apos;ll notify you as soon as that happens!
+            {richText(t('bonusInfo', { referredName }))}
           </Text>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={`${dashboardUrl}/team`}>
-              View Your Team
+              {t('cta')}
             </Button>
           </Section>
 
           {/* Tips Section */}
           <Section style={tipsBox}>
-            <Text style={tipsTitle}>💡 Help Them Get Started</Text>
+            <Text style={tipsTitle}>{t('tipsTitle')}</Text>
             <Text style={tipsText}>
-              • Reach out to welcome them to the network
-              <br />
-              • Share tips on how to activate their account
-              <br />
-              • Guide them through the initial payment process
-              <br />
-              • Encourage them to start building their own team
+              {richText(t('tips'))}
             </Text>
           </Section>
 
@@ -99,15 +100,15 @@ export const ReferralSignupEmail = ({
           <Section style={footer}>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/referrals`} style={link}>
-                View all your referrals
+                {t('viewReferrals')}
               </Link>
               {' · '}
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notifications
+                {t('manageNotifications')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              © {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
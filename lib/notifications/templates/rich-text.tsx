@@ -0,0 +1,21 @@
+/**
+ * RICH TEXT
+ *
+ * Renders translated template copy: **bold** becomes <strong> and
+ * newlines become <br />, so locale files can carry the emphasis and
+ * bullet lists the English templates used inline.
+ */
+
+import * as React from 'react'
+
+export function richText(text: string): React.ReactNode {
+  return text.split('\n').map((line, lineIndex) => (
+    <React.Fragment key={lineIndex}>
+      {lineIndex > 0 && <br />}
+      {line.split(/\*\*(.+?)\*\*/g).map((part, partIndex) =>
+        // Odd indexes are the captured **bold** segments
+        partIndex % 2 === 1 ? <strong key={partIndex}>{part}</strong> : part
+      )}
+    </React.Fragment>
+  ))
+}
@@ -17,6 +17,9 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
 
 interface StructureMilestoneEmailProps {
   userName?: string
@@ -25,20 +28,24 @@ interface StructureMilestoneEmailProps {
   rightLegCount?: number
   totalNetworkCount?: number
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const StructureMilestoneEmail = ({
-  userName = 'Member',
+  userName,
   milestoneName = 'Balanced Builder',
   leftLegCount = 10,
   rightLegCount = 10,
   totalNetworkCount = 25,
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: StructureMilestoneEmailProps) => {
+  const t = createNotificationTranslator(locale, 'structure_milestone')
+
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Congratulations! You&apos;ve achieved the {milestoneName} milestone!</Preview>
+      <Preview>{t('preview', { milestoneName })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -52,14 +59,14 @@ export const StructureMilestoneEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Milestone Achieved!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Congratulations! You&apos;ve just reached a significant milestone in building your Snipers Trading Academy network: <strong>{milestoneName}</strong>
+            {richText(t('intro', { milestoneName }))}
           </Text>
 
           {/* Milestone Box */}
@@ -68,76 +75,64 @@ export const StructureMilestoneEmail = ({
             <Section style={statsGrid}>
               <Section style={statItem}>
                 <Text style={statValue}>{leftLegCount}</Text>
-                <Text style={statLabel}>Left Leg</Text>
+                <Text style={statLabel}>{t('leftLeg')}</Text>
               </Section>
               <Section style={statDivider}>
                 <Text style={statDividerText}>⚡</Text>
               </Section>
               <Section style={statItem}>
                 <Text style={statValue}>{rightLegCount}</Text>
-                <Text style={statLabel}>Right Leg</Text>
+                <Text style={statLabel}>{t('rightLeg')}</Text>
               </Section>
             </Section>
             <Text style={totalNetworkText}>
-              Total Network: {totalNetworkCount} members
+              {t('totalNetwork', { count: totalNetworkCount })}
             </Text>
           </Section>
 
           <Text style={text}>
-            This achievement demonstrates your commitment to building a balanced and sustainable network. Your structure is growing stronger!
+            {t('body')}
           </Text>
 
           {/* Benefits Section */}
           <Section style={benefitsBox}>
-            <Text style={benefitsTitle}>🌟 Why This Matters</Text>
+            <Text style={benefitsTitle}>{t('benefitsTitle')}</Text>
             <Text style={benefitsText}>
-              • <strong>Balanced growth</strong> maximizes your residual income potential
-              <br />
-              • <strong>Stronger foundation</strong> for long-term sustainable earnings
-              <br />
-              • <strong>Leadership development</strong> across both legs of your network
-              <br />
-              • <strong>Increased stability</strong> as your team continues to grow
+              {richText(t('benefits'))}
             </Text>
           </Section>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={`${dashboardUrl}/team`}>
-              View Your Team
+              {t('cta')}
             </Button>
           </Section>
 
           {/* Next Steps */}
           <Section style={nextStepsBox}>
-            <Text style={nextStepsTitle}>🚀 Keep Growing</Text>
+            <Text style={nextStepsTitle}>{t('nextTitle')}</Text>
             <Text style={nextStepsText}>
-              <strong>Share your referral link:</strong> Keep building your network
-              <br />
-              <strong>Support your team:</strong> Help your members achieve their goals
-              <br />
-              <strong>Stay engaged:</strong> Regular activity leads to better results
-              <br />
-              <strong>Track your progress:</strong> Watch your structure develop in real-time
+              {richText(t('next'))}
             </Text>
           </Section>
 
           <Text style={text}>
-            Your success is inspiring! Keep up the great work and continue building your Snipers Trading Academy empire.
+            {t('closing')}
           </Text>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              Need help? <Link href={`${dashboardUrl}/../settings`} style={link}>Contact Support</Link>
+              {t('needHelp')} <Link href={`${dashboardUrl}/../settings`} style={link}>{t('contactSupport')}</Link>
             </Text>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/../notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              © {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
@@ -17,30 +17,33 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator, formatNotificationCurrency, formatNotificationMonth } from '../i18n'
+import { richText } from './rich-text'
 
 interface VolumeUpdateEmailProps {
   userName?: string
   newVolume?: number
-  month?: string
+  month?: string  // 'YYYY-MM'
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const VolumeUpdateEmail = ({
-  userName = 'Member',
+  userName,
   newVolume = 5000,
-  month = 'March 2026',
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  month = '2026-03',
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: VolumeUpdateEmailProps) => {
-  const formattedVolume = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: 0
-  }).format(newVolume)
+  const t = createNotificationTranslator(locale, 'volume_update')
+  const formattedVolume = formatNotificationCurrency(newVolume, locale, { maximumFractionDigits: 0 })
+  const formattedMonth = formatNotificationMonth(month, locale)
 
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Your sniper volume reached {formattedVolume}!</Preview>
+      <Preview>{t('preview', { newVolume: formattedVolume })}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -54,30 +57,30 @@ export const VolumeUpdateEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Volume Milestone Reached!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Congratulations! Your sniper volume for <strong>{month}</strong> has reached a new milestone.
+            {richText(t('intro', { month: formattedMonth }))}
           </Text>
 
           {/* Volume Box */}
           <Section style={volumeBox}>
-            <Text style={volumeLabel}>Current Sniper Volume</Text>
+            <Text style={volumeLabel}>{t('volumeLabel')}</Text>
             <Text style={volumeValue}>{formattedVolume}</Text>
           </Section>
 
           <Text style={text}>
-            Higher volume means higher commission rates! Keep building your network to increase your monthly earnings even further.
+            {t('body')}
           </Text>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={dashboardUrl}>
-              View Dashboard
+              {t('viewDashboard')}
             </Button>
           </Section>
 
@@ -85,11 +88,11 @@ export const VolumeUpdateEmail = ({
           <Section style={footer}>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              &copy; {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
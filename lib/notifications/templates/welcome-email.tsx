@@ -17,20 +17,27 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import type { Locale } from '@/lib/i18n'
+import { createNotificationTranslator } from '../i18n'
+import { richText } from './rich-text'
 
 interface WelcomeEmailProps {
   userName?: string
   dashboardUrl?: string
+  locale?: Locale
 }
 
 export const WelcomeEmail = ({
-  userName = 'Member',
-  dashboardUrl = 'https://sniperstradingacademy.com/dashboard'
+  userName,
+  dashboardUrl = 'https://sniperstradingacademy.com/dashboard',
+  locale = 'en'
 }: WelcomeEmailProps) => {
+  const t = createNotificationTranslator(locale, 'welcome')
+
   return (
-    <Html>
+    <Html lang={locale}>
       <Head />
-      <Preview>Welcome to Snipers Trading Academy!</Preview>
+      <Preview>{t('preview')}</Preview>
       <Body style={main}>
         <Container style={container}>
           {/* Logo */}
@@ -44,50 +51,44 @@ export const WelcomeEmail = ({
           </Section>
 
           {/* Main Content */}
-          <Heading style={h2}>Welcome to the Team!</Heading>
+          <Heading style={h2}>{t('heading')}</Heading>
 
           <Text style={text}>
-            Hi {userName},
+            {t('greeting', { userName: userName || t('defaultUserName') })}
           </Text>
 
           <Text style={text}>
-            Welcome to Snipers Trading Academy! Your account has been created and you&apos;re ready to get started on your journey.
+            {t('intro')}
           </Text>
 
           {/* Steps Box */}
           <Section style={infoBox}>
-            <Text style={infoTitle}>🚀 Getting Started</Text>
+            <Text style={infoTitle}>{t('stepsTitle')}</Text>
             <Text style={infoText}>
-              <strong>1. Complete your $499 activation payment</strong> to unlock the full platform
-              <br />
-              <strong>2. Explore your dashboard</strong> to see your network and earnings
-              <br />
-              <strong>3. Share your referral link</strong> to start building your team
-              <br />
-              <strong>4. Earn $249.50</strong> for every referral who activates
+              {richText(t('steps'))}
             </Text>
           </Section>
 
           {/* CTA Button */}
           <Section style={buttonSection}>
             <Button style={button} href={dashboardUrl}>
-              Go to Dashboard
+              {t('goToDashboard')}
             </Button>
           </Section>
 
           <Text style={text}>
-            If you have any questions, our support team is here to help. We&apos;re excited to have you on board!
+            {t('closing')}
           </Text>
 
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
               <Link href={`${dashboardUrl}/notifications`} style={link}>
-                Manage notification preferences
+                {t('manageNotificationPreferences')}
               </Link>
             </Text>
             <Text style={footerCopyright}>
-              &copy; {new Date().getFullYear()} Snipers Trading Academy. All rights reserved.
+              {t('copyright', { year: new Date().getFullYear() })}
             </Text>
           </Section>
         </Container>
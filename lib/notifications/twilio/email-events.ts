@@ -0,0 +1,193 @@
+/**
+ * SENDGRID EVENT WEBHOOK
+ *
+ * Verifies and applies SendGrid's signed Event Webhook: delivery outcomes
+ * update notification_logs and the recipient's email health.
+ *
+ * Signatures are ECDSA (P-256, SHA-256) over timestamp + raw body, checked
+ * against the verification key from SendGrid's Mail Settings
+ * (SENDGRID_WEBHOOK_PUBLIC_KEY).
+ */
+
+import { createPublicKey, verify } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { updateEmailDeliveryHealth, type EmailHealthEvent } from '../utils/delivery-health'
+import type { NotificationStatus, SendGridEmailEventWebhook } from '../notification-types'
+
+export const SIGNATURE_HEADER = 'x-twilio-email-event-webhook-signature'
+export const TIMESTAMP_HEADER = 'x-twilio-email-event-webhook-timestamp'
+
+// Reject replayed batches signed longer ago than this
+const MAX_SIGNATURE_AGE_SECONDS = 10 * 60
+
+export function getSendGridWebhookPublicKey(): string | undefined {
+  return process.env.SENDGRID_WEBHOOK_PUBLIC_KEY
+}
+
+/**
+ * Verify a SendGrid Event Webhook signature
+ *
+ * @param payload Raw request body
+ * @param signature Base64 signature header
+ * @param timestamp Timestamp header (unix seconds)
+ * @param publicKey Verification key, base64 DER or PEM
+ */
+export function verifySendGridSignature(
+  payload: string,
+  signature: string,
+  timestamp: string,
+  publicKey: string
+): boolean {
+  try {
+    const signedAt = parseInt(timestamp, 10)
+    if (!signedAt || Math.abs(Date.now() / 1000 - signedAt) > MAX_SIGNATURE_AGE_SECONDS) {
+      return false
+    }
+
+    const key = publicKey.includes('BEGIN PUBLIC KEY')
+      ? createPublicKey(publicKey)
+      : createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' })
+
+    return verify('sha256', Buffer.from(timestamp + payload), key, Buffer.from(signature, 'base64'))
+  } catch (error) {
+    console.error('Error verifying SendGrid signature:', error)
+    return false
+  }
+}
+
+/**
+ * notification_logs.provider_id holds the X-Message-Id returned when the email
+ * was sent; events carry it with a filter suffix
+ */
+function messageIdOf(event: SendGridEmailEventWebhook): string | null {
+  return event.sg_message_id?.split('.')[0] || null
+}
+
+/**
+ * Log status and health event for a SendGrid event, or null for events that
+ * only update provider_status (processed, deferred, opens, clicks)
+ */
+function classifyEvent(event: SendGridEmailEventWebhook): { status: NotificationStatus; health: EmailHealthEvent } | null {
+  switch (event.event) {
+    case 'delivered':
+      return { status: 'delivered', health: 'delivered' }
+    case 'bounce':
+      // 'blocked' is a temporary rejection (reputation, mailbox full)
+      return { status: 'bounced', health: event.type === 'blocked' ? 'soft_bounce' : 'hard_bounce' }
+    case 'dropped':
+      return { status: 'failed', health: 'dropped' }
+    case 'spamreport':
+      return { status: 'complaint', health: 'complaint' }
+    case 'unsubscribe':
+    case 'group_unsubscribe':
+      return { status: 'unsubscribed', health: 'unsubscribe' }
+    default:
+      return null
+  }
+}
+
+/**
+ * Turn off email notifications for a member who unsubscribed via SendGrid
+ */
+async function disableEmailPreference(supabase: SupabaseClient, userId: string) {
+  const { data: user } = await supabase
+    .from('users')
+    .select('notification_preferences')
+    .eq('id', userId)
+    .single()
+
+  const preferences = (user?.notification_preferences || {}) as { email?: Record<string, unknown> }
+  await supabase
+    .from('users')
+    .update({
+      notification_preferences: { ...preferences, email: { ...preferences.email, enabled: false } }
+    })
+    .eq('id', userId)
+}
+
+/**
+ * Apply one SendGrid event. Applied events are recorded in
+ * notification_provider_events, so a retried batch is not counted twice.
+ *
+ * @returns 'applied', 'duplicate', 'ignored' (informational event) or
+ *          'unmatched' (no notification log for the message)
+ */
+export async function processSendGridEvent(
+  supabase: SupabaseClient,
+  event: SendGridEmailEventWebhook
+): Promise<'applied' | 'duplicate' | 'ignored' | 'unmatched'> {
+  const messageId = messageIdOf(event)
+  if (!messageId || event.event === 'open' || event.event === 'click') return 'ignored'
+
+  if (event.sg_event_id) {
+    const { data: seen } = await supabase
+      .from('notification_provider_events')
+      .select('event_id')
+      .eq('provider', 'sendgrid')
+      .eq('event_id', event.sg_event_id)
+      .maybeSingle()
+
+    if (seen) return 'duplicate'
+  }
+
+  const { data: log } = await supabase
+    .from('notification_logs')
+    .select('id, user_id')
+    .eq('provider', 'sendgrid')
+    .eq('provider_id', messageId)
+    .maybeSingle()
+
+  if (!log) {
+    console.warn(`Notification log not found for SendGrid message: ${messageId}`)
+    return 'unmatched'
+  }
+
+  const outcome = classifyEvent(event)
+  const occurredAt = new Date(event.timestamp * 1000).toISOString()
+  const updates: {
+    provider_status: string
+    status?: NotificationStatus
+    delivered_at?: string
+    failed_at?: string
+    error_code?: string | null
+    error_message?: string | null
+  } = {
+    provider_status: event.type ? `${event.event}:${event.type}` : event.event
+  }
+
+  if (outcome) {
+    updates.status = outcome.status
+    if (outcome.status === 'delivered') {
+      updates.delivered_at = occurredAt
+    } else if (outcome.status === 'bounced' || outcome.status === 'failed') {
+      updates.failed_at = occurredAt
+      updates.error_code = event.status || null
+      updates.error_message = event.reason || null
+    }
+  }
+
+  await supabase
+    .from('notification_logs')
+    .update(updates)
+    .eq('id', log.id)
+
+  if (outcome && log.user_id) {
+    await updateEmailDeliveryHealth(supabase, log.user_id, outcome.health)
+    if (outcome.health === 'unsubscribe') {
+      await disableEmailPreference(supabase, log.user_id)
+    }
+  }
+
+  // Recorded once applied: if anything above throws, SendGrid's retry
+  // applies the event again rather than skipping it
+  if (event.sg_event_id) {
+    await supabase
+      .from('notification_provider_events')
+      .upsert(
+        { provider: 'sendgrid', event_id: event.sg_event_id, event_type: event.event },
+        { onConflict: 'provider,event_id', ignoreDuplicates: true }
+      )
+  }
+
+  return 'applied'
+}
@@ -21,6 +21,14 @@ if (!accountSid || !authToken) {
 
 const client = accountSid && authToken ? twilio(accountSid, authToken) : null
 
+/**
+ * Shared Twilio client (null when credentials are missing).
+ * Also used by the WhatsApp service.
+ */
+export function getTwilioClient() {
+  return client
+}
+
 export interface SendSMSParams {
   to: string
   message: string
@@ -0,0 +1,175 @@
+/**
+ * TWILIO WHATSAPP SERVICE
+ *
+ * Sends WhatsApp messages through the shared Twilio client:
+ * - Template messages (Twilio Content API) for business-initiated sends,
+ *   which WhatsApp requires outside a 24-hour customer session
+ * - Free-form text as a fallback when no approved template is configured
+ * - Delivery status tracking via the whatsapp-status webhook
+ */
+
+import { getTwilioClient, isValidPhoneNumber } from './sms-service'
+
+const whatsappNumber = process.env.TWILIO_WHATSAPP_NUMBER
+const messagingServiceSid = process.env.TWILIO_WHATSAPP_MESSAGING_SERVICE_SID
+
+export interface SendWhatsAppParams {
+  to: string  // E.164, without the 'whatsapp:' prefix
+  message?: string  // Free-form body (only delivered inside a 24h session)
+  contentSid?: string  // Approved template (HX...)
+  contentVariables?: Record<string, string>  // {"1": "...", "2": "..."}
+  statusCallback?: string  // Webhook URL for delivery status
+}
+
+export interface SendWhatsAppResult {
+  success: boolean
+  messageSid?: string
+  error?: string
+  errorCode?: string
+}
+
+/**
+ * Twilio addresses WhatsApp numbers as 'whatsapp:+E164'
+ */
+export function toWhatsAppAddress(phoneNumber: string): string {
+  return phoneNumber.startsWith('whatsapp:') ? phoneNumber : `whatsapp:${phoneNumber}`
+}
+
+/**
+ * Strip the 'whatsapp:' prefix from a Twilio address
+ */
+export function fromWhatsAppAddress(address: string): string {
+  return address.replace(/^whatsapp:/, '')
+}
+
+/**
+ * Map template data onto a Content API template's numbered placeholders
+ *
+ * @param variableKeys Event data keys in placeholder order ({{1}}, {{2}}, ...)
+ * @param data Event data
+ * @returns contentVariables for the Twilio API
+ */
+export function buildContentVariables(
+  variableKeys: string[],
+  data: Record<string, unknown>
+): Record<string, string> {
+  const variables: Record<string, string> = {}
+  variableKeys.forEach((key, index) => {
+    const value = data[key]
+    variables[String(index + 1)] = value === undefined || value === null ? '' : String(value)
+  })
+  return variables
+}
+
+/**
+ * Send a WhatsApp message via Twilio
+ *
+ * @param params WhatsApp parameters (a template or a free-form message)
+ * @returns SendWhatsAppResult with success status and message SID
+ */
+export async function sendWhatsApp(params: SendWhatsAppParams): Promise<SendWhatsAppResult> {
+  const client = getTwilioClient()
+  if (!client) {
+    return {
+      success: false,
+      error: 'Twilio client not initialized. Check environment variables.',
+      errorCode: 'TWILIO_NOT_CONFIGURED'
+    }
+  }
+
+  if (!isValidPhoneNumber(params.to)) {
+    return {
+      success: false,
+      error: 'Invalid phone number format. Must include country code (e.g., +1234567890)',
+      errorCode: 'INVALID_PHONE_NUMBER'
+    }
+  }
+
+  if (!params.contentSid && !params.message) {
+    return {
+      success: false,
+      error: 'A template or message body is required',
+      errorCode: 'NO_CONTENT'
+    }
+  }
+
+  try {
+    const messageParams: {
+      to: string
+      from?: string
+      messagingServiceSid?: string
+      body?: string
+      contentSid?: string
+      contentVariables?: string
+      statusCallback?: string
+    } = {
+      to: toWhatsAppAddress(params.to)
+    }
+
+    if (messagingServiceSid) {
+      messageParams.messagingServiceSid = messagingServiceSid
+    } else if (whatsappNumber) {
+      messageParams.from = toWhatsAppAddress(whatsappNumber)
+    } else {
+      return {
+        success: false,
+        error: 'No WhatsApp sender configured',
+        errorCode: 'NO_SENDER_CONFIGURED'
+      }
+    }
+
+    if (params.contentSid) {
+      messageParams.contentSid = params.contentSid
+      if (params.contentVariables) {
+        messageParams.contentVariables = JSON.stringify(params.contentVariables)
+      }
+    } else {
+      // WhatsApp allows up to 4096 characters
+      messageParams.body = params.message!.length > 4096
+        ? params.message!.substring(0, 4093) + '...'
+        : params.message
+    }
+
+    if (params.statusCallback) {
+      messageParams.statusCallback = params.statusCallback
+    }
+
+    const twilioMessage = await client.messages.create(messageParams)
+
+    return {
+      success: true,
+      messageSid: twilioMessage.sid
+    }
+  } catch (error) {
+    console.error('Error sending WhatsApp message:', error)
+
+    if (error && typeof error === 'object' && 'code' in error && 'message' in error) {
+      return {
+        success: false,
+        error: String(error.message),
+        errorCode: String(error.code)
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Unknown error sending WhatsApp message',
+      errorCode: 'UNKNOWN_ERROR'
+    }
+  }
+}
+
+/**
+ * STOP command response
+ */
+export const WHATSAPP_STOP_RESPONSE = 'You have been unsubscribed from WhatsApp notifications. Reply START to opt back in.'
+
+/**
+ * START/UNSTOP command response
+ */
+export const WHATSAPP_START_RESPONSE = 'You have been resubscribed to WhatsApp notifications. Reply STOP to opt out.'
+
+/**
+ * HELP command response
+ */
+export const WHATSAPP_HELP_RESPONSE = 'Snipers Trading Academy WhatsApp notifications. Reply STOP to unsubscribe or START to resubscribe. For support, visit your account dashboard.'
@@ -0,0 +1,298 @@
+/**
+ * DELIVERY HEALTH UTILITY
+ *
+ * Updates per-user channel health (notification_health) from provider
+ * callbacks: Twilio status callbacks for SMS and WhatsApp, SendGrid events
+ * for email.
+ *
+ * A channel is disabled for a user once a counter reaches its threshold
+ * (DELIVERY_HEALTH_THRESHOLDS, configurable per environment). Members can
+ * ask for a disabled channel back from /notifications; an admin reviews the
+ * request and, if approved, the counters that tripped it are reset.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { NotificationChannel, NotificationHealth } from '../notification-types'
+
+export const DELIVERY_HEALTH_THRESHOLDS = {
+  HARD_BOUNCE_LIMIT: parseInt(process.env.EMAIL_HARD_BOUNCE_LIMIT || '1', 10),
+  COMPLAINT_LIMIT: parseInt(process.env.EMAIL_COMPLAINT_LIMIT || '1', 10),
+  SOFT_BOUNCE_LIMIT: parseInt(process.env.EMAIL_SOFT_BOUNCE_LIMIT || '3', 10),
+  SOFT_BOUNCE_WINDOW_DAYS: parseInt(process.env.EMAIL_SOFT_BOUNCE_WINDOW_DAYS || '7', 10),
+  CARRIER_ERROR_LIMIT: parseInt(process.env.CARRIER_ERROR_LIMIT || '5', 10),
+}
+
+export type EmailHealthEvent =
+  | 'delivered'
+  | 'hard_bounce'
+  | 'soft_bounce'
+  | 'complaint'
+  | 'unsubscribe'
+  | 'dropped'
+
+type HealthUpdates = Partial<Pick<
+  NotificationHealth,
+  | 'total_sent'
+  | 'total_delivered'
+  | 'hard_bounce_count'
+  | 'soft_bounce_count'
+  | 'complaint_count'
+  | 'unsubscribe_count'
+  | 'carrier_error_count'
+  | 'delivery_failure_count'
+  | 'last_hard_bounce'
+  | 'last_soft_bounce'
+  | 'last_complaint'
+  | 'last_unsubscribe'
+  | 'last_carrier_error'
+  | 'last_delivery_failure'
+  | 'channel_disabled'
+  | 'disabled_reason'
+  | 'disabled_at'
+>>
+
+/**
+ * Get or create the health record for a user's channel
+ */
+async function getOrCreateHealth(
+  supabase: SupabaseClient,
+  userId: string,
+  channel: NotificationChannel
+): Promise<NotificationHealth | null> {
+  const { data: health } = await supabase
+    .from('notification_health')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .maybeSingle()
+
+  if (health) return health as NotificationHealth
+
+  const { data: newHealth } = await supabase
+    .from('notification_health')
+    .insert({
+      user_id: userId,
+      channel: channel,
+      total_sent: 0,
+      total_delivered: 0
+    })
+    .select()
+    .single()
+
+  return newHealth as NotificationHealth | null
+}
+
+/**
+ * Why a channel should be disabled after these updates, if it should.
+ * Only counters that changed in this update can trip a threshold.
+ */
+function disableReasonFor(updates: HealthUpdates): string | null {
+  const limits = DELIVERY_HEALTH_THRESHOLDS
+
+  if (updates.hard_bounce_count !== undefined && updates.hard_bounce_count >= limits.HARD_BOUNCE_LIMIT) {
+    return 'Hard bounce detected'
+  }
+  if (updates.complaint_count !== undefined && updates.complaint_count >= limits.COMPLAINT_LIMIT) {
+    return 'Complaint received'
+  }
+  if (updates.soft_bounce_count !== undefined && updates.soft_bounce_count >= limits.SOFT_BOUNCE_LIMIT) {
+    return `Multiple soft bounces (${updates.soft_bounce_count} in ${limits.SOFT_BOUNCE_WINDOW_DAYS} days)`
+  }
+  if (updates.carrier_error_count !== undefined && updates.carrier_error_count >= limits.CARRIER_ERROR_LIMIT) {
+    return 'Repeated carrier errors'
+  }
+  return null
+}
+
+async function applyHealthUpdates(
+  supabase: SupabaseClient,
+  health: NotificationHealth,
+  updates: HealthUpdates
+) {
+  const reason = health.channel_disabled ? null : disableReasonFor(updates)
+  if (reason) {
+    updates.channel_disabled = true
+    updates.disabled_reason = reason
+    updates.disabled_at = new Date().toISOString()
+    console.warn(`🚫 Disabled ${health.channel} for user ${health.user_id}: ${reason}`)
+  }
+
+  await supabase
+    .from('notification_health')
+    .update(updates)
+    .eq('id', health.id)
+}
+
+/**
+ * Update delivery health metrics based on a Twilio message status
+ *
+ * @param supabase Supabase client
+ * @param userId User the message was sent to
+ * @param channel Twilio channel the status is for
+ * @param status Twilio MessageStatus
+ * @param errorCode Twilio ErrorCode, if any
+ */
+export async function updateTwilioDeliveryHealth(
+  supabase: SupabaseClient,
+  userId: string,
+  channel: 'sms' | 'whatsapp',
+  status: string,
+  errorCode: string | null
+) {
+  const health = await getOrCreateHealth(supabase, userId, channel)
+  if (!health) return
+
+  // Update metrics based on status
+  const updates: HealthUpdates = {}
+
+  switch (status) {
+    case 'delivered':
+      updates.total_delivered = (health.total_delivered || 0) + 1
+      break
+
+    case 'failed':
+    case 'undelivered':
+      updates.delivery_failure_count = (health.delivery_failure_count || 0) + 1
+      updates.last_delivery_failure = new Date().toISOString()
+
+      // Check if it's a carrier error (error codes 30xxx)
+      if (errorCode && errorCode.startsWith('30')) {
+        updates.carrier_error_count = (health.carrier_error_count || 0) + 1
+        updates.last_carrier_error = new Date().toISOString()
+      }
+      break
+  }
+
+  // Always increment total_sent if not already done
+  if (status !== 'queued' && status !== 'sending') {
+    updates.total_sent = (health.total_sent || 0) + 1
+  }
+
+  await applyHealthUpdates(supabase, health, updates)
+}
+
+/**
+ * Update email delivery health from a SendGrid event
+ *
+ * Soft bounces count within a rolling window: a soft bounce after the
+ * window has passed starts the count again.
+ *
+ * @param supabase Supabase client (service role)
+ * @param userId User the email was sent to
+ * @param event Normalized email event
+ */
+export async function updateEmailDeliveryHealth(
+  supabase: SupabaseClient,
+  userId: string,
+  event: EmailHealthEvent
+) {
+  const health = await getOrCreateHealth(supabase, userId, 'email')
+  if (!health) return
+
+  const now = new Date()
+  const updates: HealthUpdates = {}
+
+  switch (event) {
+    case 'delivered':
+      updates.total_delivered = (health.total_delivered || 0) + 1
+      break
+
+    case 'hard_bounce':
+      updates.hard_bounce_count = (health.hard_bounce_count || 0) + 1
+      updates.last_hard_bounce = now.toISOString()
+      break
+
+    case 'soft_bounce': {
+      const windowStart = now.getTime() - DELIVERY_HEALTH_THRESHOLDS.SOFT_BOUNCE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+      const inWindow = health.last_soft_bounce && new Date(health.last_soft_bounce).getTime() > windowStart
+      updates.soft_bounce_count = (inWindow ? health.soft_bounce_count || 0 : 0) + 1
+      updates.last_soft_bounce = now.toISOString()
+      break
+    }
+
+    case 'complaint':
+      updates.complaint_count = (health.complaint_count || 0) + 1
+      updates.last_complaint = now.toISOString()
+      break
+
+    case 'unsubscribe':
+      updates.unsubscribe_count = (health.unsubscribe_count || 0) + 1
+      updates.last_unsubscribe = now.toISOString()
+      break
+
+    case 'dropped':
+      updates.delivery_failure_count = (health.delivery_failure_count || 0) + 1
+      updates.last_delivery_failure = now.toISOString()
+      break
+  }
+
+  // Every event except an unsubscribe is the final outcome of one send
+  if (event !== 'unsubscribe') {
+    updates.total_sent = (health.total_sent || 0) + 1
+  }
+
+  await applyHealthUpdates(supabase, health, updates)
+}
+
+/**
+ * Re-enable a channel after an admin approves the member's request. The
+ * counters that can trip a threshold start again from zero.
+ */
+export async function reEnableChannel(
+  supabase: SupabaseClient,
+  healthId: string,
+  reviewedBy: string
+) {
+  const { data, error } = await supabase
+    .from('notification_health')
+    .update({
+      channel_disabled: false,
+      disabled_reason: null,
+      disabled_at: null,
+      hard_bounce_count: 0,
+      soft_bounce_count: 0,
+      complaint_count: 0,
+      carrier_error_count: 0,
+      re_enable_requested: false,
+      re_enable_reviewed_by: reviewedBy,
+      re_enable_reviewed_at: new Date().toISOString(),
+      re_enable_declined_reason: null
+    })
+    .eq('id', healthId)
+    .eq('re_enable_requested', true)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to re-enable channel: ${error.message}`)
+  }
+  return data as NotificationHealth | null
+}
+
+/**
+ * Turn down a member's re-enable request; the channel stays disabled
+ */
+export async function declineReEnableRequest(
+  supabase: SupabaseClient,
+  healthId: string,
+  reviewedBy: string,
+  reason: string
+) {
+  const { data, error } = await supabase
+    .from('notification_health')
+    .update({
+      re_enable_requested: false,
+      re_enable_reviewed_by: reviewedBy,
+      re_enable_reviewed_at: new Date().toISOString(),
+      re_enable_declined_reason: reason
+    })
+    .eq('id', healthId)
+    .eq('re_enable_requested', true)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to decline re-enable request: ${error.message}`)
+  }
+  return data as NotificationHealth | null
+}
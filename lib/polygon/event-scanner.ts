@@ -1,15 +1,19 @@
 /**
  * Polygon Event Scanner
- * Scans USDC Transfer events for deposit detection and tx hash retrieval
+ * Scans stablecoin Transfer events for deposit detection and tx hash retrieval.
+ * Defaults to Polygon; every function takes a chain key to scan another EVM
+ * chain's accepted tokens (see lib/chains/registry).
  */
 
 import { ethers } from 'ethers';
-import { POLYGON_CONFIG, ACCEPTED_USDC_CONTRACTS_MAINNET } from '../coinbase/wallet-types';
+import { ChainKey, DEFAULT_CHAIN, getChain, getChainProvider } from '@/lib/chains/registry';
 
-// All accepted USDC contract addresses (native + bridged)
-const USDC_CONTRACTS: string[] = (process.env.POLYGON_NETWORK || 'polygon') === 'polygon'
-  ? [...ACCEPTED_USDC_CONTRACTS_MAINNET]
-  : [POLYGON_CONFIG.TESTNET.usdcContract];
+/**
+ * Contract addresses of every accepted token on a chain
+ */
+function tokenContracts(chain: ChainKey): string[] {
+  return getChain(chain).tokens.map((t) => t.contract);
+}
 
 // Transfer event topic (keccak256("Transfer(address,address,uint256)"))
 const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
@@ -32,14 +36,7 @@ export interface DepositMatch {
   amount: bigint;
   from: string;
   blockNumber: number;
-}
-
-/**
- * Get JSON RPC provider for Polygon
- */
-function getProvider(): ethers.JsonRpcProvider {
-  const rpcUrl = process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com';
-  return new ethers.JsonRpcProvider(rpcUrl);
+  tokenContract: string;
 }
 
 /**
@@ -48,9 +45,10 @@ function getProvider(): ethers.JsonRpcProvider {
  */
 export async function findDepositTransactionHash(
   depositAddress: string,
-  sinceBlock?: number | 'latest'
+  sinceBlock?: number | 'latest',
+  chain: ChainKey = DEFAULT_CHAIN
 ): Promise<TransferEvent | null> {
-  const provider = getProvider();
+  const provider = getChainProvider(chain);
 
   try {
     // Default to last 10000 blocks if not specified (about 5-6 hours on Polygon)
@@ -64,7 +62,7 @@ export async function findDepositTransactionHash(
     const toAddressTopic = ethers.zeroPadValue(depositAddress.toLowerCase(), 32);
 
     const logs = await provider.getLogs({
-      address: USDC_CONTRACTS,
+      address: tokenContracts(chain),
       topics: [
         TRANSFER_TOPIC,
         null, // from: any
@@ -104,87 +102,191 @@ export async function findDepositTransactionHash(
   }
 }
 
+// Max block span per eth_getLogs call (provider limit on Polygon)
+const LOG_BLOCK_CHUNK = 2000;
+// Max addresses OR-ed into a single topic filter
+const TOPIC_ADDRESS_BATCH = 50;
+
+export interface OutgoingTransfer {
+  sourceAddress: string;
+  txHash: string;
+  amount: bigint;
+  to: string;
+  blockNumber: number;
+  tokenContract: string;
+}
+
+/**
+ * Fetch Transfer logs where the `from` (topicIndex 1) or `to` (topicIndex 2)
+ * side is any of `addresses`, chunking both the address list and the block
+ * range so large windows stay inside provider limits.
+ */
+async function getTransferLogsForAddresses(
+  addresses: string[],
+  topicIndex: 1 | 2,
+  fromBlock: number,
+  toBlock: number,
+  chain: ChainKey
+): Promise<Array<{ txHash: string; blockNumber: number; from: string; to: string; value: bigint; tokenContract: string }>> {
+  const provider = getChainProvider(chain);
+  const iface = new ethers.Interface(TRANSFER_EVENT_ABI);
+  const results: Array<{ txHash: string; blockNumber: number; from: string; to: string; value: bigint; tokenContract: string }> = [];
+
+  for (let i = 0; i < addresses.length; i += TOPIC_ADDRESS_BATCH) {
+    const addressTopics = addresses
+      .slice(i, i + TOPIC_ADDRESS_BATCH)
+      .map((addr) => ethers.zeroPadValue(addr.toLowerCase(), 32));
+    const topics = topicIndex === 1
+      ? [TRANSFER_TOPIC, addressTopics]
+      : [TRANSFER_TOPIC, null, addressTopics];
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_CHUNK) {
+      const end = Math.min(start + LOG_BLOCK_CHUNK - 1, toBlock);
+      const logs = await provider.getLogs({
+        address: tokenContracts(chain),
+        topics,
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      for (const log of logs) {
+        const parsed = iface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (!parsed) continue;
+
+        results.push({
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          from: (parsed.args[0] as string).toLowerCase(),
+          to: (parsed.args[1] as string).toLowerCase(),
+          value: parsed.args[2],
+          tokenContract: log.address.toLowerCase(),
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
 /**
  * Scan for deposits to multiple addresses in a block range
- * More efficient than checking balances one by one
+ * Filters by `to` topic on the node, so only our addresses' transfers are returned
  */
 export async function scanRecentDeposits(
   depositAddresses: string[],
   fromBlock: number,
-  toBlock?: number | 'latest'
+  toBlock?: number | 'latest',
+  chain: ChainKey = DEFAULT_CHAIN
 ): Promise<DepositMatch[]> {
   if (depositAddresses.length === 0) {
     return [];
   }
 
-  const provider = getProvider();
-  const matches: DepositMatch[] = [];
-
   try {
-    // Create a map for quick lookup
-    const addressMap = new Set(
-      depositAddresses.map((addr) => addr.toLowerCase())
-    );
+    const endBlock = toBlock === undefined || toBlock === 'latest'
+      ? await getCurrentBlockNumber(chain)
+      : toBlock;
 
-    // Fetch all Transfer events for USDC in the block range
-    // Note: We can't filter by multiple `to` addresses in one query,
-    // so we fetch all and filter locally
-    const logs = await provider.getLogs({
-      address: USDC_CONTRACTS,
-      topics: [TRANSFER_TOPIC],
-      fromBlock,
-      toBlock: toBlock || 'latest',
-    });
-
-    const iface = new ethers.Interface(TRANSFER_EVENT_ABI);
-
-    for (const log of logs) {
-      const parsed = iface.parseLog({
-        topics: log.topics as string[],
-        data: log.data,
-      });
+    return await scanIncomingTransfers(depositAddresses, fromBlock, endBlock, chain);
+  } catch (error) {
+    console.error('[EventScanner] Error scanning recent deposits:', error);
+    return [];
+  }
+}
 
-      if (!parsed) continue;
+/**
+ * Same as scanRecentDeposits, but throws on RPC failure so callers never
+ * mistake an outage for "no deposits".
+ */
+export async function scanIncomingTransfers(
+  addresses: string[],
+  fromBlock: number,
+  toBlock: number,
+  chain: ChainKey = DEFAULT_CHAIN
+): Promise<DepositMatch[]> {
+  if (addresses.length === 0) {
+    return [];
+  }
 
-      const toAddress = (parsed.args[1] as string).toLowerCase();
+  const logs = await getTransferLogsForAddresses(addresses, 2, fromBlock, toBlock, chain);
 
-      // Check if this transfer is to one of our deposit addresses
-      if (addressMap.has(toAddress)) {
-        matches.push({
-          depositAddress: toAddress,
-          txHash: log.transactionHash,
-          amount: parsed.args[2],
-          from: parsed.args[0],
-          blockNumber: log.blockNumber,
-        });
-      }
-    }
+  return logs.map((log) => ({
+    depositAddress: log.to,
+    txHash: log.txHash,
+    amount: log.value,
+    from: log.from,
+    blockNumber: log.blockNumber,
+    tokenContract: log.tokenContract,
+  }));
+}
 
-    return matches;
-  } catch (error) {
-    console.error('[EventScanner] Error scanning recent deposits:', error);
+/**
+ * Scan for transfers OUT of multiple addresses in a block range
+ * (sweeps from deposit addresses, payouts from the payout wallet).
+ * Throws on RPC failure so callers never mistake an outage for "no transfers".
+ */
+export async function scanOutgoingTransfers(
+  sourceAddresses: string[],
+  fromBlock: number,
+  toBlock: number,
+  chain: ChainKey = DEFAULT_CHAIN
+): Promise<OutgoingTransfer[]> {
+  if (sourceAddresses.length === 0) {
     return [];
   }
+
+  const logs = await getTransferLogsForAddresses(sourceAddresses, 1, fromBlock, toBlock, chain);
+
+  return logs.map((log) => ({
+    sourceAddress: log.from,
+    txHash: log.txHash,
+    amount: log.value,
+    to: log.to,
+    blockNumber: log.blockNumber,
+    tokenContract: log.tokenContract,
+  }));
 }
 
 /**
- * Get the current block number on Polygon
+ * Get the current block number on a chain
  */
-export async function getCurrentBlockNumber(): Promise<number> {
-  const provider = getProvider();
+export async function getCurrentBlockNumber(chain: ChainKey = DEFAULT_CHAIN): Promise<number> {
+  const provider = getChainProvider(chain);
   return provider.getBlockNumber();
 }
 
 /**
- * Get USDC balance for an address (in smallest units)
+ * Get the timestamp (ms since epoch) of a block
  */
-export async function getUsdcBalance(address: string): Promise<bigint> {
-  const provider = getProvider();
+export async function getBlockTimestamp(
+  blockNumber: number,
+  chain: ChainKey = DEFAULT_CHAIN
+): Promise<number> {
+  const provider = getChainProvider(chain);
+  const block = await provider.getBlock(blockNumber);
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found`);
+  }
+  return block.timestamp * 1000;
+}
+
+/**
+ * Get the combined balance of every accepted token for an address on a chain
+ * (in smallest units; all accepted tokens have 6 decimals)
+ */
+export async function getUsdcBalance(
+  address: string,
+  chain: ChainKey = DEFAULT_CHAIN
+): Promise<bigint> {
+  const provider = getChainProvider(chain);
 
   try {
     let total = BigInt(0);
 
-    for (const contractAddr of USDC_CONTRACTS) {
+    for (const contractAddr of tokenContracts(chain)) {
       const usdcContract = new ethers.Contract(
         contractAddr,
         ['function balanceOf(address) view returns (uint256)'],
@@ -206,13 +308,14 @@ export async function getUsdcBalance(address: string): Promise<bigint> {
  * Uses multicall if available, otherwise sequential calls
  */
 export async function batchGetUsdcBalances(
-  addresses: string[]
+  addresses: string[],
+  chain: ChainKey = DEFAULT_CHAIN
 ): Promise<Map<string, bigint>> {
-  const provider = getProvider();
+  const provider = getChainProvider(chain);
   const results = new Map<string, bigint>();
 
   try {
-    const contracts = USDC_CONTRACTS.map(
+    const contracts = tokenContracts(chain).map(
       (addr) => new ethers.Contract(addr, ['function balanceOf(address) view returns (uint256)'], provider)
     );
 
@@ -248,9 +351,10 @@ export async function batchGetUsdcBalances(
  */
 export async function getTotalReceivedSince(
   address: string,
-  sinceBlock: number
+  sinceBlock: number,
+  chain: ChainKey = DEFAULT_CHAIN
 ): Promise<{ total: bigint; txHashes: string[] }> {
-  const provider = getProvider();
+  const provider = getChainProvider(chain);
   let total = BigInt(0);
   const txHashes: string[] = [];
 
@@ -258,7 +362,7 @@ export async function getTotalReceivedSince(
     const toAddressTopic = ethers.zeroPadValue(address.toLowerCase(), 32);
 
     const logs = await provider.getLogs({
-      address: USDC_CONTRACTS,
+      address: tokenContracts(chain),
       topics: [TRANSFER_TOPIC, null, toAddressTopic],
       fromBlock: sinceBlock,
       toBlock: 'latest',
@@ -6,7 +6,8 @@
 
 import { ethers } from 'ethers';
 import { POLYGON_CONFIG, GAS_LIMITS, ServiceResponse, ACCEPTED_USDC_CONTRACTS_MAINNET } from '../coinbase/wallet-types';
-import { computeOutgoingFees, applyMultiplier, maxFee, REPLACEMENT_BUMP_MULTIPLIER } from '../treasury/gas-config';
+import { computeOutgoingFees } from '../treasury/gas-config';
+import { HotWalletId, broadcastAtNonce, findManagedTransactionByHash, sendManagedTransaction } from '../treasury/nonce-manager';
 
 // USDC ERC-20 ABI (minimal interface for transfers)
 const USDC_ABI = [
@@ -38,13 +39,6 @@ export interface USDCTransferResult {
   nonce?: number;
 }
 
-function isReplacementUnderpriced(error: any): boolean {
-  return (
-    error?.code === 'REPLACEMENT_UNDERPRICED' ||
-    /replacement (transaction|fee)/i.test(error?.message || '')
-  );
-}
-
 export interface GasEstimate {
   gasLimit: string;
   maxFeePerGas: string;
@@ -187,12 +181,16 @@ class PolygonUSDCClient {
 
   /**
    * Transfer USDC (requires signer)
-   * Used by platform for payouts and internal transfers
+   * Used by platform for payouts and internal transfers. Platform keys are
+   * passed as custody signers (lib/custody), never as raw private keys.
+   * Sends from a hot wallet (hotWallet set) take their nonce from the nonce
+   * manager, so concurrent payouts never collide and stuck ones get fee-bumped.
    */
   async transfer(
-    fromPrivateKey: string,
+    signer: ethers.Signer,
     toAddress: string,
-    amountUSDC: string
+    amountUSDC: string,
+    hotWallet?: HotWalletId
   ): Promise<ServiceResponse<USDCTransferResult>> {
     try {
       // Validate inputs
@@ -217,15 +215,14 @@ class PolygonUSDCClient {
         };
       }
 
-      // Create wallet (signer)
-      const wallet = new ethers.Wallet(fromPrivateKey, this.provider);
-      const usdcWithSigner = this.usdcContract.connect(wallet);
+      const wallet = signer.connect(this.provider);
+      const fromAddress = await wallet.getAddress();
 
       // Convert amount to USDC units (6 decimals)
       const amountRaw = ethers.parseUnits(amountUSDC, 6);
 
       // Check sender balance
-      const balanceResponse = await this.getBalance(wallet.address);
+      const balanceResponse = await this.getBalance(fromAddress);
       if (!balanceResponse.success || !balanceResponse.data) {
         return {
           success: false,
@@ -247,7 +244,7 @@ class PolygonUSDCClient {
       }
 
       // Estimate gas
-      const gasEstimate = await this.estimateTransferGas(wallet.address, toAddress, amountUSDC);
+      const gasEstimate = await this.estimateTransferGas(fromAddress, toAddress, amountUSDC);
       if (!gasEstimate.success || !gasEstimate.data) {
         return {
           success: false,
@@ -258,43 +255,22 @@ class PolygonUSDCClient {
         };
       }
 
-      // Pin the nonce explicitly so a bump-and-replace retry targets the same slot
-      const nonce = await this.provider.getTransactionCount(wallet.address, 'pending');
-
-      let maxFeePerGas = BigInt(gasEstimate.data.maxFeePerGas);
-      let maxPriorityFeePerGas = BigInt(gasEstimate.data.maxPriorityFeePerGas);
-
-      const sendTx = () =>
-        (usdcWithSigner as any).transfer(toAddress, amountRaw, {
-          gasLimit: gasEstimate.data!.gasLimit,
-          maxFeePerGas,
-          maxPriorityFeePerGas,
-          nonce,
-        });
+      const txRequest: ethers.TransactionRequest = {
+        to: this.config.usdcContract,
+        data: this.usdcContract.interface.encodeFunctionData('transfer', [toAddress, amountRaw]),
+        gasLimit: gasEstimate.data.gasLimit,
+        maxFeePerGas: BigInt(gasEstimate.data.maxFeePerGas),
+        maxPriorityFeePerGas: BigInt(gasEstimate.data.maxPriorityFeePerGas),
+      };
 
-      let tx;
-      try {
-        tx = await sendTx();
-      } catch (sendError: any) {
-        if (!isReplacementUnderpriced(sendError)) throw sendError;
-
-        // A stuck tx already occupies this nonce (e.g. broadcast during a gas
-        // spike). Replace it: fees must exceed the stuck tx's by ≥10%, so bump
-        // 15% over the higher of our estimate and the network's current view.
-        const feeData = await this.provider.getFeeData();
-        maxFeePerGas = applyMultiplier(
-          maxFee(maxFeePerGas, feeData.maxFeePerGas),
-          REPLACEMENT_BUMP_MULTIPLIER
-        )!;
-        maxPriorityFeePerGas = applyMultiplier(
-          maxFee(maxPriorityFeePerGas, feeData.maxPriorityFeePerGas),
-          REPLACEMENT_BUMP_MULTIPLIER
-        )!;
-        console.warn(
-          `[PolygonUSDCClient] Nonce ${nonce} occupied by a stuck tx; retrying as replacement at ${ethers.formatUnits(maxFeePerGas, 'gwei')} gwei`
-        );
-        tx = await sendTx();
-      }
+      // Unmanaged senders (deposit addresses) pin the pending nonce themselves so
+      // a bump-and-replace retry targets the same slot
+      const tx = hotWallet
+        ? await sendManagedTransaction(wallet, txRequest, { wallet: hotWallet, purpose: 'usdc_transfer' })
+        : await broadcastAtNonce(wallet, {
+            ...txRequest,
+            nonce: await this.provider.getTransactionCount(fromAddress, 'pending'),
+          });
 
       console.log('[PolygonUSDCClient] Transfer initiated:', tx.hash);
 
@@ -302,13 +278,13 @@ class PolygonUSDCClient {
         success: true,
         data: {
           txHash: tx.hash,
-          from: wallet.address,
+          from: fromAddress,
           to: toAddress,
           amount: amountUSDC,
           gasUsed: '0', // Will be updated after confirmation
-          gasPrice: ethers.formatUnits(maxFeePerGas, 'gwei'),
+          gasPrice: ethers.formatUnits(tx.maxFeePerGas ?? BigInt(gasEstimate.data.maxFeePerGas), 'gwei'),
           status: 'pending',
-          nonce,
+          nonce: tx.nonce,
         },
       };
     } catch (error: any) {
@@ -419,10 +395,27 @@ class PolygonUSDCClient {
   /**
    * Look up the current state of a broadcast transaction without waiting.
    * 'not_found' means the tx is unknown to the node (e.g. evicted from the
-   * mempool without mining) — safe to re-send.
+   * mempool without mining) — safe to re-send. A hot wallet send that was
+   * fee-bumped reports the state of whichever broadcast of its nonce landed.
    */
   async getTransactionStatus(
     txHash: string
+  ): Promise<'confirmed' | 'failed' | 'pending' | 'not_found'> {
+    let status = await this.getBroadcastStatus(txHash);
+    if (status === 'confirmed' || status === 'failed') return status;
+
+    const managed = await findManagedTransactionByHash(txHash);
+    for (const hash of managed?.tx_hashes ?? []) {
+      if (hash === txHash) continue;
+      const replacementStatus = await this.getBroadcastStatus(hash);
+      if (replacementStatus === 'confirmed' || replacementStatus === 'failed') return replacementStatus;
+      if (replacementStatus === 'pending') status = 'pending';
+    }
+    return status;
+  }
+
+  private async getBroadcastStatus(
+    txHash: string
   ): Promise<'confirmed' | 'failed' | 'pending' | 'not_found'> {
     const receipt = await this.provider.getTransactionReceipt(txHash);
     if (receipt) return receipt.status === 1 ? 'confirmed' : 'failed';
@@ -0,0 +1,50 @@
+/**
+ * MFA Step-up
+ * Sensitive member actions (withdrawals, payout wallet changes) need a 2FA
+ * challenge passed in the last few minutes, not just an aal2 session that may
+ * be days old. Routes answer mfaRequired so the client can show MFAChallenge
+ * and retry.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// How recently the member must have passed a 2FA challenge
+export const MFA_STEP_UP_MAX_AGE_SECONDS = 10 * 60;
+
+export type MfaStepUpResult =
+  | { status: 'verified'; verifiedAt: string }
+  | { status: 'not_enrolled' }
+  | { status: 'required' }
+  | { status: 'error' };
+
+/**
+ * Check the session's most recent TOTP verification
+ * @param supabase - Cookie-bound client for the member's session
+ */
+export async function checkMfaStepUp(
+  supabase: SupabaseClient,
+  maxAgeSeconds: number = MFA_STEP_UP_MAX_AGE_SECONDS
+): Promise<MfaStepUpResult> {
+  const { data: aal, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  if (error || !aal) {
+    return { status: 'error' };
+  }
+
+  if (aal.nextLevel !== 'aal2') {
+    return { status: 'not_enrolled' };
+  }
+
+  // AMR timestamps are in seconds; the latest TOTP entry is the last challenge passed
+  const lastTotp = aal.currentLevel === 'aal2'
+    ? Math.max(0, ...aal.currentAuthenticationMethods
+      .filter((m) => m.method === 'totp' || m.method === 'mfa/totp')
+      .map((m) => m.timestamp))
+    : 0;
+
+  if (Date.now() / 1000 - lastTotp > maxAgeSeconds) {
+    return { status: 'required' };
+  }
+
+  return { status: 'verified', verifiedAt: new Date(lastTotp * 1000).toISOString() };
+}
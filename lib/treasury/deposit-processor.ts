@@ -26,6 +26,8 @@ import {
 } from '@/lib/treasury/treasury-service';
 import { getUsdcBalance, findDepositTransactionHash } from '@/lib/polygon/event-scanner';
 import { PAYMENT_AMOUNTS } from '@/lib/coinbase/wallet-types';
+import { postDepositReceived, postPaymentApplied } from '@/lib/ledger/ledger-service';
+import { ChainKey, DEFAULT_CHAIN, getEnabledChains } from '@/lib/chains/registry';
 
 export interface DepositProcessResults {
   processed: number;
@@ -210,55 +212,35 @@ export async function checkAndProcessUserDeposit(
   }
 
   // Check if there are any NEW unrecorded transactions on-chain
-  // This catches new deposits that haven't been recorded in usdc_transactions yet
-  const currentBalanceWei = await getUsdcBalance(depositAddress);
-  const currentBalanceUsdc = weiToUsdc(Number(currentBalanceWei));
-
-  if (currentBalanceUsdc === 0) {
-    return;
+  // This catches new deposits that haven't been recorded in usdc_transactions yet.
+  // The deposit address is the same on every enabled chain, but balances, sweeps
+  // and recorded deposits are per chain, so each chain is checked on its own and
+  // the first with unrecorded funds is processed (the next run picks up others).
+  let hasBalance = false;
+  let chain: ChainKey = DEFAULT_CHAIN;
+  let unrecordedFunds = 0;
+  for (const candidate of getEnabledChains()) {
+    const funds = await getUnrecordedFunds(supabase, user.id, depositAddress, candidate.key);
+    if (funds.balanceUsdc > 0) hasBalance = true;
+    if (funds.unrecordedUsdc >= 1) {
+      chain = candidate.key;
+      unrecordedFunds = funds.unrecordedUsdc;
+      break;
+    }
   }
 
-  // Sum deposits recorded since the last sweep. Sweeps empty the address, so
-  // comparing the live balance against LIFETIME-recorded deposits would hide
-  // every repeat deposit smaller than the address's swept history (a $202
-  // monthly payment on a once-swept-$499 address computed 202 − 499 < 1 and
-  // was silently dropped, then swept uncredited — July 2026 incident).
-  const { data: lastSweep } = await supabase
-    .from('crypto_audit_log')
-    .select('created_at')
-    .eq('user_id', user.id)
-    .in('event_type', ['deposit_swept', 'manual_sweep_success'])
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  let recordedTxQuery = supabase
-    .from('usdc_transactions')
-    .select('amount')
-    .eq('to_address', depositAddress)
-    .eq('user_id', user.id)
-    .eq('status', 'confirmed')
-    .eq('transaction_type', 'deposit');
-  if (lastSweep?.created_at) {
-    recordedTxQuery = recordedTxQuery.gt('created_at', lastSweep.created_at);
+  if (!hasBalance) {
+    return;
   }
-  const { data: allRecordedTxs } = await recordedTxQuery;
-
-  const totalRecorded = allRecordedTxs?.reduce(
-    (sum, tx) => sum + parseFloat(tx.amount),
-    0
-  ) || 0;
-
-  const unrecordedFunds = currentBalanceUsdc - totalRecorded;
 
   // If there are unrecorded funds, record them as a new transaction
   if (unrecordedFunds >= 1) { // At least $1 unrecorded
-    console.log(`[DepositProcessor] Found ${unrecordedFunds.toFixed(2)} unrecorded USDC for ${user.email}`);
+    console.log(`[DepositProcessor] Found ${unrecordedFunds.toFixed(2)} unrecorded USDC on ${chain} for ${user.email}`);
 
     // Find transaction hash
     let txHash = '';
     try {
-      const txEvent = await findDepositTransactionHash(depositAddress);
+      const txEvent = await findDepositTransactionHash(depositAddress, undefined, chain);
       if (txEvent) {
         txHash = txEvent.txHash;
       }
@@ -293,6 +275,7 @@ export async function checkAndProcessUserDeposit(
         user_id: user.id,
         status: 'confirmed',
         polygon_tx_hash: txHash || `cron-${Date.now()}-${user.id.slice(0, 8)}`,
+        chain,
         confirmed_at: new Date().toISOString(),
       })
       .select('id')
@@ -306,6 +289,15 @@ export async function checkAndProcessUserDeposit(
       return;
     }
 
+    await postDepositReceived({
+      usdcTransactionId: newTxRecord.id,
+      userId: user.id,
+      depositAddress,
+      amountUsdc: unrecordedFunds,
+      txHash: txHash || undefined,
+      chain,
+    });
+
     // Combine existing period transactions with the newly recorded one
     const allTxIds = [...periodTxIds, newTxRecord.id];
 
@@ -328,6 +320,7 @@ export async function checkAndProcessUserDeposit(
         details: {
           source: 'deposit_processor',
           deposit_address: depositAddress,
+          chain,
           tx_hash: txHash,
           expected_usdc: expectedAmountUsdc,
           paid_this_period: newPaidThisPeriod,
@@ -384,6 +377,63 @@ export async function checkAndProcessUserDeposit(
   }
 }
 
+/**
+ * On-chain balance of a deposit address on one chain, and how much of it isn't
+ * covered by deposits recorded on that chain since its last sweep there.
+ */
+async function getUnrecordedFunds(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  userId: string,
+  depositAddress: string,
+  chain: ChainKey
+): Promise<{ balanceUsdc: number; unrecordedUsdc: number }> {
+  const currentBalanceWei = await getUsdcBalance(depositAddress, chain);
+  const balanceUsdc = weiToUsdc(Number(currentBalanceWei));
+
+  if (balanceUsdc === 0) {
+    return { balanceUsdc, unrecordedUsdc: 0 };
+  }
+
+  // Sum deposits recorded since the last sweep. Sweeps empty the address, so
+  // comparing the live balance against LIFETIME-recorded deposits would hide
+  // every repeat deposit smaller than the address's swept history (a $202
+  // monthly payment on a once-swept-$499 address computed 202 − 499 < 1 and
+  // was silently dropped, then swept uncredited — July 2026 incident).
+  // Sweep events from before multi-chain support carry no chain: they are Polygon.
+  let lastSweepQuery = supabase
+    .from('crypto_audit_log')
+    .select('created_at')
+    .eq('user_id', userId)
+    .in('event_type', ['deposit_swept', 'manual_sweep_success']);
+  lastSweepQuery = chain === DEFAULT_CHAIN
+    ? lastSweepQuery.or(`details->>chain.is.null,details->>chain.eq.${chain}`)
+    : lastSweepQuery.eq('details->>chain', chain);
+  const { data: lastSweep } = await lastSweepQuery
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let recordedTxQuery = supabase
+    .from('usdc_transactions')
+    .select('amount')
+    .eq('to_address', depositAddress)
+    .eq('user_id', userId)
+    .eq('chain', chain)
+    .eq('status', 'confirmed')
+    .eq('transaction_type', 'deposit');
+  if (lastSweep?.created_at) {
+    recordedTxQuery = recordedTxQuery.gt('created_at', lastSweep.created_at);
+  }
+  const { data: allRecordedTxs } = await recordedTxQuery;
+
+  const totalRecorded = allRecordedTxs?.reduce(
+    (sum, tx) => sum + parseFloat(tx.amount),
+    0
+  ) || 0;
+
+  return { balanceUsdc, unrecordedUsdc: balanceUsdc - totalRecorded };
+}
+
 /**
  * Process initial unlock payment
  * Sets initial payment due dates with anchor date (capped at day 28)
@@ -420,8 +470,9 @@ export async function processInitialUnlock(
 
   const referrerId = referralData.referrer_id;
 
-  // Assign network position WITH referrer_id (required for non-root users)
-  const { error: positionError } = await supabase.rpc('assign_network_position', {
+  // Assign network position WITH referrer_id (required for non-root users).
+  // With the holding tank on, this holds them for their sponsor to place instead.
+  const { error: positionError } = await supabase.rpc('admit_network_member', {
     p_user_id: userId,
     p_referrer_id: referrerId,
   });
@@ -487,6 +538,10 @@ export async function processInitialUnlock(
     console.log(`[DepositProcessor] Linked ${usdcTxIds.length} transaction(s) to initial payment ${paymentRecord.id}`);
   }
 
+  if (paymentRecord) {
+    await postPaymentApplied({ paymentId: paymentRecord.id, userId, amountUsdc: parseFloat(amountUsdc) });
+  }
+
   // Update referral status
   await supabase
     .from('referrals')
@@ -658,9 +713,11 @@ export async function processSubscriptionPayment(
   }
 
   // Distribute to upline
+  // Passing the payment id also posts the payment to the ledger
   const { data: distributeResult, error: distributeError } = await supabase.rpc('distribute_to_upline_batch', {
     p_user_id: userId,
     p_amount: amountUsdc,
+    p_payment_id: paymentRecord?.id ?? null,
   });
 
   if (distributeError) {
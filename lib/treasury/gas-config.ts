@@ -1,6 +1,7 @@
 /**
- * Shared gas pricing for Polygon transactions sent by the treasury system
- * (sweep-fund, sweep-execute, replace-stuck-tx).
+ * Shared gas pricing for transactions sent by the treasury system
+ * (sweep-fund, sweep-execute, replace-stuck-tx). Fee floors for non-Polygon
+ * chains come from the chain registry.
  *
  * History: a Polygon gas-price spike to ~270 gwei in May 2026 left funding
  * transactions stuck in mempool when the cron signed at the RPC's instantaneous
@@ -8,14 +9,15 @@
  * for spikes between sign-time and inclusion-time.
  */
 import { ethers } from 'ethers';
+import { ChainKey, DEFAULT_CHAIN, getChain } from '@/lib/chains/registry';
 
 // Multiply the network's recommended fee by this before signing.
 export const GAS_BUFFER_MULTIPLIER = 1.5;
 
 // Floor fallback used when feeData.maxFeePerGas / maxPriorityFeePerGas come back null.
 // Polygon has been running 200+ gwei, so these are intentionally generous.
-export const FALLBACK_MAX_FEE_GWEI = 300;
-export const FALLBACK_PRIORITY_FEE_GWEI = 50;
+export const FALLBACK_MAX_FEE_GWEI = getChain(DEFAULT_CHAIN).fallbackMaxFeeGwei;
+export const FALLBACK_PRIORITY_FEE_GWEI = getChain(DEFAULT_CHAIN).fallbackPriorityFeeGwei;
 
 // EIP-1559 replacement-tx minimum bump: ethers/most RPCs require ≥10%. We use 15% for safety.
 export const REPLACEMENT_BUMP_MULTIPLIER = 1.15;
@@ -44,15 +46,16 @@ export function maxFee(a: bigint | null, b: bigint | null): bigint {
  * Compute outgoing fees with buffer and floor fallback.
  * Used by sweep-fund and sweep-execute when broadcasting fresh transactions.
  */
-export function computeOutgoingFees(feeData: ethers.FeeData): {
+export function computeOutgoingFees(feeData: ethers.FeeData, chain: ChainKey = DEFAULT_CHAIN): {
   maxFeePerGas: bigint;
   maxPriorityFeePerGas: bigint;
 } {
+  const { fallbackMaxFeeGwei, fallbackPriorityFeeGwei } = getChain(chain);
   const maxFeePerGas =
     applyMultiplier(feeData.maxFeePerGas, GAS_BUFFER_MULTIPLIER) ??
-    ethers.parseUnits(String(FALLBACK_MAX_FEE_GWEI), 'gwei');
+    ethers.parseUnits(String(fallbackMaxFeeGwei), 'gwei');
   const maxPriorityFeePerGas =
     applyMultiplier(feeData.maxPriorityFeePerGas, GAS_BUFFER_MULTIPLIER) ??
-    ethers.parseUnits(String(FALLBACK_PRIORITY_FEE_GWEI), 'gwei');
+    ethers.parseUnits(String(fallbackPriorityFeeGwei), 'gwei');
   return { maxFeePerGas, maxPriorityFeePerGas };
 }
@@ -0,0 +1,290 @@
+/**
+ * Hot Wallet Nonce Manager
+ * Hands out nonces for the platform's hot wallets (payout wallet, per-chain
+ * gas tanks) and records every send in hot_wallet_transactions so a stuck one
+ * can be fee-bumped later (see ./stuck-tx-replacer).
+ *
+ * Nonces come from allocate_hot_wallet_nonce, which locks the wallet's cursor
+ * row: two function instances sending at once get different nonces instead of
+ * both reading the same 'pending' count from the RPC. Within one instance,
+ * sends from the same wallet are also queued so they broadcast in nonce order.
+ * A send that fails before reaching the network releases its nonce, and the
+ * next allocation reuses it so no gap blocks later transactions.
+ */
+
+import { ethers } from 'ethers';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { ChainKey, DEFAULT_CHAIN } from '@/lib/chains/registry';
+import { REPLACEMENT_BUMP_MULTIPLIER, applyMultiplier, maxFee } from './gas-config';
+
+export type HotWalletId = 'payout_wallet' | 'gas_tank';
+
+export type ManagedTxStatus = 'allocated' | 'pending' | 'confirmed' | 'released';
+
+export interface ManagedTransaction {
+  id: string;
+  chain: ChainKey;
+  address: string;
+  wallet: HotWalletId;
+  nonce: number;
+  status: ManagedTxStatus;
+  purpose: string | null;
+  to_address: string | null;
+  value_wei: string | null;
+  data: string | null;
+  gas_limit: string | null;
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  tx_hash: string | null;
+  tx_hashes: string[];
+  mined_tx_hash: string | null;
+  bump_count: number;
+  last_error: string | null;
+  broadcast_at: string | null;
+  last_bumped_at: string | null;
+  confirmed_at: string | null;
+  escalated_at: string | null;
+  created_at: string;
+}
+
+export interface ManagedSendOptions {
+  wallet: HotWalletId;
+  chain?: ChainKey;
+  // What the send is for, e.g. 'payout_transfer', 'sweep_funding'
+  purpose: string;
+}
+
+// Sends queued per wallet within this process
+const walletQueues = new Map<string, Promise<unknown>>();
+
+async function withWalletQueue<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = walletQueues.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  walletQueues.set(key, run);
+  try {
+    return await run;
+  } finally {
+    if (walletQueues.get(key) === run) walletQueues.delete(key);
+  }
+}
+
+function toBigIntOrNull(value: ethers.BigNumberish | null | undefined): bigint | null {
+  return value == null ? null : BigInt(value);
+}
+
+function isReplacementUnderpriced(error: unknown): boolean {
+  const err = error as { code?: string; message?: string } | null;
+  return (
+    err?.code === 'REPLACEMENT_UNDERPRICED' ||
+    /replacement (transaction|fee)/i.test(err?.message || '')
+  );
+}
+
+function broadcastColumns(response: ethers.TransactionResponse) {
+  return {
+    status: 'pending' as const,
+    to_address: response.to,
+    value_wei: response.value.toString(),
+    data: response.data,
+    gas_limit: response.gasLimit.toString(),
+    max_fee_per_gas: (response.maxFeePerGas ?? response.gasPrice)?.toString() ?? null,
+    max_priority_fee_per_gas: response.maxPriorityFeePerGas?.toString() ?? null,
+    tx_hash: response.hash,
+  };
+}
+
+/**
+ * Broadcast a transaction at a pinned nonce
+ * If a transaction sent outside the manager already occupies the nonce (e.g.
+ * broadcast during a gas spike), replace it: fees must exceed the stuck tx's
+ * by ≥10%, so bump 15% over the higher of ours and the network's current view.
+ */
+export async function broadcastAtNonce(
+  signer: ethers.Signer,
+  tx: ethers.TransactionRequest
+): Promise<ethers.TransactionResponse> {
+  try {
+    return await signer.sendTransaction(tx);
+  } catch (error) {
+    if (!isReplacementUnderpriced(error) || !signer.provider) throw error;
+
+    const feeData = await signer.provider.getFeeData();
+    const maxFeePerGas = applyMultiplier(
+      maxFee(toBigIntOrNull(tx.maxFeePerGas), feeData.maxFeePerGas),
+      REPLACEMENT_BUMP_MULTIPLIER
+    )!;
+    const maxPriorityFeePerGas = applyMultiplier(
+      maxFee(toBigIntOrNull(tx.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas),
+      REPLACEMENT_BUMP_MULTIPLIER
+    )!;
+    console.warn(
+      `[NonceManager] Nonce ${tx.nonce} occupied by a stuck tx; retrying as replacement at ${ethers.formatUnits(maxFeePerGas, 'gwei')} gwei`
+    );
+    return signer.sendTransaction({ ...tx, maxFeePerGas, maxPriorityFeePerGas });
+  }
+}
+
+/**
+ * Send a transaction from a hot wallet through the nonce manager
+ * The signer must be connected to the chain's provider. Any nonce on `tx` is
+ * ignored; fees and gas limit should be set by the caller.
+ */
+export async function sendManagedTransaction(
+  signer: ethers.Signer,
+  tx: ethers.TransactionRequest,
+  options: ManagedSendOptions
+): Promise<ethers.TransactionResponse> {
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error('Managed sends need a signer connected to a provider');
+  }
+
+  const chain = options.chain ?? DEFAULT_CHAIN;
+  const address = ethers.getAddress(await signer.getAddress());
+
+  return withWalletQueue(`${chain}:${address}`, async () => {
+    const supabase = createServiceRoleClient();
+
+    const [confirmedNonce, pendingNonce] = await Promise.all([
+      provider.getTransactionCount(address, 'latest'),
+      provider.getTransactionCount(address, 'pending'),
+    ]);
+
+    const { data: allocated, error: allocateError } = await supabase.rpc('allocate_hot_wallet_nonce', {
+      p_chain: chain,
+      p_address: address,
+      p_wallet: options.wallet,
+      p_chain_confirmed: confirmedNonce,
+      p_chain_pending: pendingNonce,
+      p_purpose: options.purpose,
+    });
+
+    if (allocateError || allocated === null) {
+      throw new Error(`Failed to allocate nonce for ${address}: ${allocateError?.message || 'no nonce returned'}`);
+    }
+
+    const nonce = Number(allocated);
+
+    let response: ethers.TransactionResponse;
+    try {
+      response = await broadcastAtNonce(signer, { ...tx, nonce });
+    } catch (sendError) {
+      await supabase
+        .from('hot_wallet_transactions')
+        .update({
+          status: 'released',
+          last_error: sendError instanceof Error ? sendError.message : 'Send failed',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('chain', chain)
+        .eq('address', address)
+        .eq('nonce', nonce);
+      throw sendError;
+    }
+
+    // The tx is on the network now; a failed write here must not fail the send
+    const now = new Date().toISOString();
+    const { error: recordError } = await supabase
+      .from('hot_wallet_transactions')
+      .update({
+        ...broadcastColumns(response),
+        tx_hashes: [response.hash],
+        broadcast_at: now,
+        updated_at: now,
+      })
+      .eq('chain', chain)
+      .eq('address', address)
+      .eq('nonce', nonce);
+
+    if (recordError) {
+      console.error(`[NonceManager] Failed to record ${response.hash} (nonce ${nonce}):`, recordError);
+    }
+
+    return response;
+  });
+}
+
+/**
+ * The managed send a tx hash belongs to (any of its broadcasts)
+ */
+export async function findManagedTransactionByHash(txHash: string): Promise<ManagedTransaction | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data } = await supabase
+    .from('hot_wallet_transactions')
+    .select('*')
+    .contains('tx_hashes', [txHash])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as ManagedTransaction | null) ?? null;
+}
+
+/**
+ * The managed send at a wallet's nonce, if there is one
+ */
+export async function getManagedTransaction(
+  chain: ChainKey,
+  address: string,
+  nonce: number
+): Promise<ManagedTransaction | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data } = await supabase
+    .from('hot_wallet_transactions')
+    .select('*')
+    .eq('chain', chain)
+    .eq('address', ethers.getAddress(address))
+    .eq('nonce', nonce)
+    .maybeSingle();
+
+  return (data as ManagedTransaction | null) ?? null;
+}
+
+/**
+ * Point records that store a tx hash at the broadcast that replaced it
+ */
+export async function repointTxHash(fromHash: string, toHash: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  await Promise.all([
+    supabase.from('usdc_transactions').update({ polygon_tx_hash: toHash }).eq('polygon_tx_hash', fromHash),
+    supabase.from('users').update({ sweep_funding_tx: toHash }).eq('sweep_funding_tx', fromHash),
+  ]);
+}
+
+/**
+ * Record a broadcast that takes over a managed nonce: a fee bump of its send,
+ * or (purpose set) a different tx filling a slot that was never broadcast
+ */
+export async function recordReplacement(
+  row: ManagedTransaction,
+  response: ethers.TransactionResponse,
+  purpose?: string
+): Promise<void> {
+  const supabase = createServiceRoleClient();
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('hot_wallet_transactions')
+    .update({
+      ...broadcastColumns(response),
+      ...(purpose ? { purpose } : {}),
+      tx_hashes: [...row.tx_hashes, response.hash],
+      bump_count: row.tx_hashes.length > 0 ? row.bump_count + 1 : row.bump_count,
+      last_error: null,
+      broadcast_at: row.broadcast_at ?? now,
+      last_bumped_at: row.tx_hashes.length > 0 ? now : row.last_bumped_at,
+      updated_at: now,
+    })
+    .eq('id', row.id);
+
+  if (error) {
+    console.error(`[NonceManager] Failed to record replacement ${response.hash} (nonce ${row.nonce}):`, error);
+  }
+
+  if (row.tx_hash && row.tx_hash !== response.hash) {
+    await repointTxHash(row.tx_hash, response.hash);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Payout Approval Service
+ * Multi-signature control for large payouts.
+ *
+ * Payout batches and single commission payouts above the policy threshold
+ * need `requiredApprovals` distinct approvers, none of whom created the
+ * payout, before any execute route sends funds. Bulk payout runs are checked
+ * on their total, so splitting a large payout across many small commissions
+ * doesn't get around the policy. Approvals expire after the policy window and
+ * only count for the amount that was approved.
+ */
+
+import { createHash } from 'crypto';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getTreasurySetting, setTreasurySetting } from './treasury-service';
+
+export type PayoutApprovalEntity = 'payout_batch' | 'commission' | 'bulk_payout';
+
+export interface PayoutApprovalPolicy {
+  thresholdUsd: number;
+  requiredApprovals: number; // 0 turns the policy off
+  windowHours: number;
+}
+
+export interface PayoutApproval {
+  approver_id: string;
+  amount_usdc: string;
+  approved_at: string;
+  expires_at: string;
+}
+
+export interface PayoutApprovalStatus {
+  required: number;
+  approvals: PayoutApproval[]; // Valid approvals only
+  quorumReached: boolean;
+  expiresAt: string | null; // When the quorum lapses (earliest expiry among counted approvals)
+}
+
+const DEFAULT_POLICY: PayoutApprovalPolicy = {
+  thresholdUsd: 1000,
+  requiredApprovals: 2,
+  windowHours: 24,
+};
+
+const MAX_REQUIRED_APPROVALS = 5;
+const MAX_WINDOW_HOURS = 7 * 24;
+
+function parseSetting(value: string | null, fallback: number): number {
+  const parsed = value === null ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function sameAmount(a: number | string, b: number | string): boolean {
+  return Math.abs(parseFloat(String(a)) - parseFloat(String(b))) < 0.000001;
+}
+
+/**
+ * Current approval policy from treasury_settings
+ */
+export async function getPayoutApprovalPolicy(): Promise<PayoutApprovalPolicy> {
+  const [threshold, required, window] = await Promise.all([
+    getTreasurySetting('payout_approval_threshold_usd'),
+    getTreasurySetting('payout_required_approvals'),
+    getTreasurySetting('payout_approval_window_hours'),
+  ]);
+
+  return {
+    thresholdUsd: parseSetting(threshold, DEFAULT_POLICY.thresholdUsd),
+    requiredApprovals: Math.floor(parseSetting(required, DEFAULT_POLICY.requiredApprovals)),
+    windowHours: parseSetting(window, DEFAULT_POLICY.windowHours),
+  };
+}
+
+/**
+ * Update the approval policy
+ */
+export async function updatePayoutApprovalPolicy(
+  policy: Partial<PayoutApprovalPolicy>
+): Promise<{ success: boolean; error?: string }> {
+  const { thresholdUsd, requiredApprovals, windowHours } = policy;
+
+  if (thresholdUsd !== undefined && (!Number.isFinite(thresholdUsd) || thresholdUsd < 0)) {
+    return { success: false, error: 'Threshold must be a positive amount' };
+  }
+  if (
+    requiredApprovals !== undefined &&
+    (!Number.isInteger(requiredApprovals) || requiredApprovals < 0 || requiredApprovals > MAX_REQUIRED_APPROVALS)
+  ) {
+    return { success: false, error: `Required approvals must be a whole number from 0 to ${MAX_REQUIRED_APPROVALS}` };
+  }
+  if (windowHours !== undefined && (!Number.isFinite(windowHours) || windowHours <= 0 || windowHours > MAX_WINDOW_HOURS)) {
+    return { success: false, error: `Approval window must be between 1 and ${MAX_WINDOW_HOURS} hours` };
+  }
+
+  if (thresholdUsd !== undefined) await setTreasurySetting('payout_approval_threshold_usd', String(thresholdUsd));
+  if (requiredApprovals !== undefined) await setTreasurySetting('payout_required_approvals', String(requiredApprovals));
+  if (windowHours !== undefined) await setTreasurySetting('payout_approval_window_hours', String(windowHours));
+
+  return { success: true };
+}
+
+/**
+ * Whether a payout of this amount needs multi-signature approval
+ */
+export function requiresPayoutApproval(amountUsdc: number, policy: PayoutApprovalPolicy): boolean {
+  return policy.requiredApprovals > 0 && amountUsdc > policy.thresholdUsd;
+}
+
+/**
+ * Approval entity id for a bulk payout run: a UUID derived from its set of
+ * commissions, so approving one set doesn't approve another
+ */
+export function bulkPayoutEntityId(commissionIds: string[]): string {
+  const hex = createHash('sha256').update([...commissionIds].sort().join(',')).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+function toStatus(approvals: PayoutApproval[], policy: PayoutApprovalPolicy): PayoutApprovalStatus {
+  const quorumReached = approvals.length >= policy.requiredApprovals;
+  // Sorted latest-expiring first, so the quorum lapses with the Nth approval
+  const sorted = [...approvals].sort((a, b) => b.expires_at.localeCompare(a.expires_at));
+
+  return {
+    required: policy.requiredApprovals,
+    approvals,
+    quorumReached,
+    expiresAt: quorumReached ? sorted[policy.requiredApprovals - 1]?.expires_at || null : null,
+  };
+}
+
+/**
+ * Valid approvals for several payouts of one type, keyed by entity id
+ */
+export async function getPayoutApprovalStatuses(
+  entityType: PayoutApprovalEntity,
+  payouts: Array<{ id: string; amountUsdc: number }>,
+  policy: PayoutApprovalPolicy
+): Promise<Map<string, PayoutApprovalStatus>> {
+  const statuses = new Map<string, PayoutApprovalStatus>();
+  if (payouts.length === 0) return statuses;
+
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('payout_approvals')
+    .select('entity_id, approver_id, amount_usdc, approved_at, expires_at')
+    .eq('entity_type', entityType)
+    .in('entity_id', payouts.map((payout) => payout.id))
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load payout approvals: ${error.message}`);
+  }
+
+  for (const payout of payouts) {
+    const approvals = (data || [])
+      .filter((row) => row.entity_id === payout.id && sameAmount(row.amount_usdc, payout.amountUsdc))
+      .map(({ approver_id, amount_usdc, approved_at, expires_at }) => ({ approver_id, amount_usdc, approved_at, expires_at }));
+    statuses.set(payout.id, toStatus(approvals, policy));
+  }
+
+  return statuses;
+}
+
+/**
+ * Valid approvals for one payout
+ */
+export async function getPayoutApprovalStatus(
+  entityType: PayoutApprovalEntity,
+  entityId: string,
+  amountUsdc: number,
+  policy: PayoutApprovalPolicy
+): Promise<PayoutApprovalStatus> {
+  const statuses = await getPayoutApprovalStatuses(entityType, [{ id: entityId, amountUsdc }], policy);
+  return statuses.get(entityId)!;
+}
+
+/**
+ * Record an approval. The creator of the payout can't approve it, and an
+ * admin whose earlier approval has expired can approve again.
+ */
+export async function recordPayoutApproval(params: {
+  entityType: PayoutApprovalEntity;
+  entityId: string;
+  amountUsdc: number;
+  approverId: string;
+  createdBy: string | null;
+  policy: PayoutApprovalPolicy;
+}): Promise<{ success: boolean; error?: string; status?: PayoutApprovalStatus }> {
+  const { entityType, entityId, amountUsdc, approverId, createdBy, policy } = params;
+
+  if (createdBy && createdBy === approverId) {
+    return { success: false, error: 'The admin who created this payout cannot approve it' };
+  }
+
+  const current = await getPayoutApprovalStatus(entityType, entityId, amountUsdc, policy);
+  if (current.approvals.some((approval) => approval.approver_id === approverId)) {
+    return { success: false, error: 'You have already approved this payout' };
+  }
+
+  const supabase = createServiceRoleClient();
+  const approvedAt = new Date();
+  const { error } = await supabase
+    .from('payout_approvals')
+    .upsert({
+      entity_type: entityType,
+      entity_id: entityId,
+      approver_id: approverId,
+      amount_usdc: amountUsdc.toFixed(6),
+      approved_at: approvedAt.toISOString(),
+      expires_at: new Date(approvedAt.getTime() + policy.windowHours * 60 * 60 * 1000).toISOString(),
+    }, {
+      onConflict: 'entity_type,entity_id,approver_id',
+    });
+
+  if (error) {
+    return { success: false, error: `Failed to record approval: ${error.message}` };
+  }
+
+  return { success: true, status: await getPayoutApprovalStatus(entityType, entityId, amountUsdc, policy) };
+}
+
+/**
+ * Message for an execute route refusing to send without quorum
+ */
+export function quorumErrorMessage(status: PayoutApprovalStatus): string {
+  return `This payout requires ${status.required} approvals within the approval window (has ${status.approvals.length})`;
+}
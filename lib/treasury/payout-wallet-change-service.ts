@@ -0,0 +1,596 @@
+/**
+ * Payout Wallet Change Service
+ * A member's payout wallet is where all their earnings go, so a hijacked
+ * session must not be able to redirect it in one request. Replacing it:
+ *   1. is requested after a fresh 2FA challenge (route side, see mfa-step-up)
+ *   2. only takes effect once the owner opens a one-time link emailed to the
+ *      account address (the link can cancel it instead)
+ *   3. holds payouts for PAYOUT_WALLET_HOLD_HOURS and tells the email and SMS
+ *      on file that it happened
+ * The first wallet is set directly: there is nothing to redirect yet and
+ * payments are gated on having one. Confirmed rows double as the wallet
+ * history admins see.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { sendEmail } from '@/lib/notifications/twilio/email-service';
+import { sendSMS } from '@/lib/notifications/twilio/sms-service';
+
+export const PAYOUT_WALLET_HOLD_HOURS = 48;
+const CONFIRMATION_LINK_TTL_HOURS = 24;
+
+export type PayoutWalletChangeStatus = 'pending_confirmation' | 'confirmed' | 'cancelled' | 'expired';
+
+export interface PayoutWalletChange {
+  id: string;
+  user_id: string;
+  previous_address: string | null;
+  new_address: string;
+  status: PayoutWalletChangeStatus;
+  // Null on the row recording a member's first wallet
+  expires_at: string | null;
+  mfa_verified_at: string | null;
+  confirmed_at: string | null;
+  hold_until: string | null;
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  created_at: string;
+}
+
+export type PayoutWalletChangeResult =
+  | { success: true; change: PayoutWalletChange }
+  | { success: false; error: string };
+
+// Who asked, for the audit log
+export interface RequestContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// Never select token_hash
+const CHANGE_COLUMNS =
+  'id, user_id, previous_address, new_address, status, expires_at, mfa_verified_at, confirmed_at, hold_until, cancelled_at, cancel_reason, created_at';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Validate Ethereum address format
+ */
+export function isValidPayoutWalletAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
+
+/**
+ * Whether payouts to a member are blocked by a recent wallet change
+ * @param holdUntil - users.payout_wallet_hold_until
+ */
+export function isPayoutWalletOnHold(holdUntil: string | null | undefined, now: Date = new Date()): boolean {
+  return !!holdUntil && new Date(holdUntil).getTime() > now.getTime();
+}
+
+/**
+ * PostgREST filter for users whose wallet is not on hold
+ * Use with .or() when building payout batches.
+ */
+export function payoutWalletReleasedFilter(now: Date = new Date()): string {
+  return `payout_wallet_hold_until.is.null,payout_wallet_hold_until.lte.${now.toISOString()}`;
+}
+
+/**
+ * The member's change awaiting email confirmation, if any
+ */
+export async function getPendingPayoutWalletChange(userId: string): Promise<PayoutWalletChange | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data } = await supabase
+    .from('payout_wallet_changes')
+    .select(CHANGE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', 'pending_confirmation')
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  return (data as PayoutWalletChange | null) || null;
+}
+
+/**
+ * All wallet changes for a member, newest first (admin history)
+ */
+export async function listPayoutWalletHistory(userId: string, limit: number = 50): Promise<PayoutWalletChange[]> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('payout_wallet_changes')
+    .select(CHANGE_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[PayoutWalletChange] Failed to fetch history:', error);
+    return [];
+  }
+
+  return (data || []) as PayoutWalletChange[];
+}
+
+/**
+ * Set the member's first payout wallet
+ * Only applies while they have none, so it can't be used to skip the change flow.
+ */
+export async function setInitialPayoutWallet(
+  userId: string,
+  address: string,
+  context: RequestContext = {}
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!isValidPayoutWalletAddress(address)) {
+    return { success: false, error: 'Invalid wallet address format. Must be a valid Polygon address (0x...)' };
+  }
+
+  const supabase = createServiceRoleClient();
+  const now = new Date().toISOString();
+
+  const { data: updated, error: updateError } = await supabase
+    .from('users')
+    .update({ payout_wallet_address: address, payout_wallet_set_at: now })
+    .eq('id', userId)
+    .is('payout_wallet_address', null)
+    .select('id')
+    .maybeSingle();
+
+  if (updateError) {
+    console.error('[PayoutWalletChange] Failed to set initial wallet:', updateError);
+    return { success: false, error: 'Failed to update payout wallet' };
+  }
+
+  if (!updated) {
+    return { success: false, error: 'A payout wallet is already set; request a change instead' };
+  }
+
+  const { error: insertError } = await supabase
+    .from('payout_wallet_changes')
+    .insert({
+      user_id: userId,
+      previous_address: null,
+      new_address: address,
+      status: 'confirmed',
+      confirmed_at: now,
+    });
+
+  if (insertError) {
+    // The wallet is set; only the history row is missing
+    console.error('[PayoutWalletChange] Failed to record initial wallet:', insertError);
+  }
+
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'payout_wallet_set',
+    user_id: userId,
+    entity_type: 'user',
+    entity_id: userId,
+    details: { previous_address: null, new_address: address, action: 'set_initial_payout_wallet' },
+    ip_address: context.ipAddress || null,
+    user_agent: context.userAgent || null,
+  });
+
+  return { success: true };
+}
+
+/**
+ * Start replacing the payout wallet and email the confirmation link
+ * Supersedes any change still awaiting confirmation.
+ * @param mfaVerifiedAt - When the member last passed 2FA (checked by the caller)
+ */
+export async function requestPayoutWalletChange(
+  userId: string,
+  newAddress: string,
+  mfaVerifiedAt: string,
+  context: RequestContext = {}
+): Promise<PayoutWalletChangeResult> {
+  if (!isValidPayoutWalletAddress(newAddress)) {
+    return { success: false, error: 'Invalid wallet address format. Must be a valid Polygon address (0x...)' };
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('email, name, payout_wallet_address')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !user) {
+    return { success: false, error: 'User not found' };
+  }
+
+  if (!user.email) {
+    return { success: false, error: 'Your account has no email address to confirm the change with' };
+  }
+
+  if (!user.payout_wallet_address) {
+    return { success: false, error: 'No payout wallet is set yet' };
+  }
+
+  if (user.payout_wallet_address.toLowerCase() === newAddress.toLowerCase()) {
+    return { success: false, error: 'This is already your payout wallet' };
+  }
+
+  const now = new Date();
+
+  await supabase
+    .from('payout_wallet_changes')
+    .update({ status: 'cancelled', cancelled_at: now.toISOString(), cancel_reason: 'Superseded by a newer request' })
+    .eq('user_id', userId)
+    .eq('status', 'pending_confirmation');
+
+  const token = randomBytes(32).toString('base64url');
+  const { data: change, error: insertError } = await supabase
+    .from('payout_wallet_changes')
+    .insert({
+      user_id: userId,
+      previous_address: user.payout_wallet_address,
+      new_address: newAddress,
+      token_hash: hashToken(token),
+      expires_at: new Date(now.getTime() + CONFIRMATION_LINK_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      mfa_verified_at: mfaVerifiedAt,
+    })
+    .select(CHANGE_COLUMNS)
+    .single();
+
+  if (insertError || !change) {
+    console.error('[PayoutWalletChange] Failed to create change:', insertError);
+    return { success: false, error: 'Failed to start payout wallet change' };
+  }
+
+  const confirmUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/confirm-payout-wallet?token=${token}`;
+  const emailResult = await sendEmail({
+    to: user.email,
+    subject: 'Confirm your new payout wallet',
+    html: buildConfirmationEmailHtml({
+      name: user.name,
+      previousAddress: user.payout_wallet_address,
+      newAddress,
+      confirmUrl,
+    }),
+    trackingSettings: { clickTracking: false },
+  });
+
+  if (!emailResult.success) {
+    console.error('[PayoutWalletChange] Confirmation email failed:', emailResult.error);
+    await supabase
+      .from('payout_wallet_changes')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString(), cancel_reason: 'Confirmation email could not be sent' })
+      .eq('id', change.id);
+    return { success: false, error: 'Could not send the confirmation email. Please try again later.' };
+  }
+
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'payout_wallet_change_requested',
+    user_id: userId,
+    entity_type: 'payout_wallet_change',
+    entity_id: change.id,
+    details: {
+      previous_address: user.payout_wallet_address,
+      new_address: newAddress,
+      mfa_verified_at: mfaVerifiedAt,
+    },
+    ip_address: context.ipAddress || null,
+    user_agent: context.userAgent || null,
+  });
+
+  return { success: true, change: change as PayoutWalletChange };
+}
+
+/**
+ * Look up a change from its emailed token (for the confirmation page)
+ */
+export async function getPayoutWalletChangeByToken(token: string): Promise<PayoutWalletChange | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data } = await supabase
+    .from('payout_wallet_changes')
+    .select(CHANGE_COLUMNS)
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+
+  return (data as PayoutWalletChange | null) || null;
+}
+
+/**
+ * Apply a change from its emailed token
+ * Refuses if the member's wallet moved since the request; starts the payout hold.
+ */
+export async function confirmPayoutWalletChange(
+  token: string,
+  context: RequestContext = {}
+): Promise<PayoutWalletChangeResult> {
+  const supabase = createServiceRoleClient();
+  const change = await getPayoutWalletChangeByToken(token);
+
+  if (!change) {
+    return { success: false, error: 'This confirmation link is not valid' };
+  }
+
+  if (change.status !== 'pending_confirmation') {
+    return { success: false, error: `This change is already ${change.status.replace('_', ' ')}` };
+  }
+
+  const now = new Date();
+  if (!change.expires_at || new Date(change.expires_at) <= now) {
+    await supabase
+      .from('payout_wallet_changes')
+      .update({ status: 'expired' })
+      .eq('id', change.id)
+      .eq('status', 'pending_confirmation');
+    return { success: false, error: 'This confirmation link has expired. Request the change again.' };
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('email, phone_number, name, payout_wallet_address')
+    .eq('id', change.user_id)
+    .single();
+
+  if (!user) {
+    return { success: false, error: 'User not found' };
+  }
+
+  if ((user.payout_wallet_address || null)?.toLowerCase() !== change.previous_address?.toLowerCase()) {
+    await supabase
+      .from('payout_wallet_changes')
+      .update({ status: 'cancelled', cancelled_at: now.toISOString(), cancel_reason: 'Payout wallet changed since the request' })
+      .eq('id', change.id)
+      .eq('status', 'pending_confirmation');
+    return { success: false, error: 'Your payout wallet changed since this request. Request the change again.' };
+  }
+
+  const holdUntil = new Date(now.getTime() + PAYOUT_WALLET_HOLD_HOURS * 60 * 60 * 1000).toISOString();
+
+  // Claim the change first so the link can't be used twice
+  const { data: claimed } = await supabase
+    .from('payout_wallet_changes')
+    .update({ status: 'confirmed', confirmed_at: now.toISOString(), hold_until: holdUntil })
+    .eq('id', change.id)
+    .eq('status', 'pending_confirmation')
+    .select(CHANGE_COLUMNS)
+    .maybeSingle();
+
+  if (!claimed) {
+    return { success: false, error: 'This change was already handled' };
+  }
+
+  const { error: updateError } = await supabase
+    .from('users')
+    .update({
+      payout_wallet_address: change.new_address,
+      payout_wallet_set_at: now.toISOString(),
+      payout_wallet_hold_until: holdUntil,
+    })
+    .eq('id', change.user_id);
+
+  if (updateError) {
+    console.error('[PayoutWalletChange] Failed to update user wallet:', updateError);
+    await supabase
+      .from('payout_wallet_changes')
+      .update({ status: 'pending_confirmation', confirmed_at: null, hold_until: null })
+      .eq('id', change.id);
+    return { success: false, error: 'Failed to update payout wallet' };
+  }
+
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'payout_wallet_set',
+    user_id: change.user_id,
+    entity_type: 'payout_wallet_change',
+    entity_id: change.id,
+    details: {
+      previous_address: change.previous_address,
+      new_address: change.new_address,
+      hold_until: holdUntil,
+    },
+    ip_address: context.ipAddress || null,
+    user_agent: context.userAgent || null,
+  });
+
+  await notifyPayoutWalletChanged(change.user_id, user, change, holdUntil);
+
+  return { success: true, change: claimed as PayoutWalletChange };
+}
+
+/**
+ * Cancel a change from its emailed token ("this wasn't me")
+ */
+export async function cancelPayoutWalletChangeByToken(
+  token: string,
+  context: RequestContext = {}
+): Promise<PayoutWalletChangeResult> {
+  const change = await getPayoutWalletChangeByToken(token);
+
+  if (!change) {
+    return { success: false, error: 'This confirmation link is not valid' };
+  }
+
+  return cancelChange(change, 'Cancelled from the confirmation email', context);
+}
+
+/**
+ * Cancel the member's own change awaiting confirmation
+ */
+export async function cancelPendingPayoutWalletChange(
+  userId: string,
+  context: RequestContext = {}
+): Promise<PayoutWalletChangeResult> {
+  const change = await getPendingPayoutWalletChange(userId);
+
+  if (!change) {
+    return { success: false, error: 'No payout wallet change is awaiting confirmation' };
+  }
+
+  return cancelChange(change, 'Cancelled by member', context);
+}
+
+async function cancelChange(
+  change: PayoutWalletChange,
+  reason: string,
+  context: RequestContext
+): Promise<PayoutWalletChangeResult> {
+  if (change.status !== 'pending_confirmation') {
+    return { success: false, error: `This change is already ${change.status.replace('_', ' ')}` };
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: cancelled } = await supabase
+    .from('payout_wallet_changes')
+    .update({ status: 'cancelled', cancelled_at: new Date().toISOString(), cancel_reason: reason })
+    .eq('id', change.id)
+    .eq('status', 'pending_confirmation')
+    .select(CHANGE_COLUMNS)
+    .maybeSingle();
+
+  if (!cancelled) {
+    return { success: false, error: 'This change was already handled' };
+  }
+
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'payout_wallet_change_cancelled',
+    user_id: change.user_id,
+    entity_type: 'payout_wallet_change',
+    entity_id: change.id,
+    details: { new_address: change.new_address, reason },
+    ip_address: context.ipAddress || null,
+    user_agent: context.userAgent || null,
+  });
+
+  return { success: true, change: cancelled as PayoutWalletChange };
+}
+
+/**
+ * Tell the contact channels on file that the wallet changed
+ * Security notice: sent regardless of notification preferences, SMS only to a
+ * verified, opted-in number. Failures are logged, not raised.
+ */
+async function notifyPayoutWalletChanged(
+  userId: string,
+  user: { email: string | null; phone_number: string | null; name: string | null },
+  change: PayoutWalletChange,
+  holdUntil: string
+): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  if (user.email) {
+    const emailResult = await sendEmail({
+      to: user.email,
+      subject: 'Your payout wallet was changed',
+      html: buildChangedEmailHtml({
+        name: user.name,
+        previousAddress: change.previous_address,
+        newAddress: change.new_address,
+        holdUntil,
+      }),
+    });
+    if (!emailResult.success) {
+      console.error('[PayoutWalletChange] Change notice email failed:', emailResult.error);
+    }
+  }
+
+  if (user.phone_number) {
+    const { data: consent } = await supabase
+      .from('sms_consent')
+      .select('opted_in, is_verified')
+      .eq('user_id', userId)
+      .eq('phone_number', user.phone_number)
+      .maybeSingle();
+
+    if (consent?.opted_in && consent?.is_verified) {
+      const smsResult = await sendSMS({
+        to: user.phone_number,
+        message: `Trading Hub: your payout wallet was changed to ${shortAddress(change.new_address)}. If this wasn't you, contact support immediately.`,
+      });
+      if (!smsResult.success) {
+        console.error('[PayoutWalletChange] Change notice SMS failed:', smsResult.error);
+      }
+    }
+  }
+}
+
+function buildConfirmationEmailHtml({
+  name,
+  previousAddress,
+  newAddress,
+  confirmUrl,
+}: {
+  name: string | null;
+  previousAddress: string;
+  newAddress: string;
+  confirmUrl: string;
+}): string {
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 560px; margin: 0 auto; padding: 24px; color: #111827;">
+      <h1 style="font-size: 22px; font-weight: 700; margin: 0 0 16px;">Confirm your new payout wallet</h1>
+      <p style="font-size: 15px; line-height: 1.6; margin: 0 0 16px;">
+        Hi ${escapeHtml(name || 'there')}, someone signed in to your Snipers Trading Academy account asked to send your earnings to a new wallet.
+      </p>
+      <p style="font-size: 14px; line-height: 1.6; margin: 0 0 4px; color: #374151;">Current wallet: <span style="font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace;">${escapeHtml(previousAddress)}</span></p>
+      <p style="font-size: 14px; line-height: 1.6; margin: 0 0 16px; color: #374151;">New wallet: <span style="font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace;">${escapeHtml(newAddress)}</span></p>
+      <p style="font-size: 15px; line-height: 1.6; margin: 0 0 24px;">
+        Nothing changes until you confirm. Once confirmed, payouts are paused for ${PAYOUT_WALLET_HOLD_HOURS} hours as a precaution. This link expires in ${CONFIRMATION_LINK_TTL_HOURS} hours.
+      </p>
+      <p style="margin: 0 0 24px;">
+        <a href="${confirmUrl}" style="display: inline-block; background: #D4A853; color: #0F1629; font-weight: 600; padding: 12px 20px; border-radius: 8px; text-decoration: none;">
+          Review change
+        </a>
+      </p>
+      <p style="font-size: 13px; line-height: 1.6; color: #6b7280; margin: 0 0 8px;">
+        If the button doesn't work, copy and paste this URL into your browser:
+      </p>
+      <p style="font-size: 13px; line-height: 1.6; color: #6b7280; word-break: break-all; margin: 0 0 24px;">
+        ${confirmUrl}
+      </p>
+      <p style="font-size: 13px; line-height: 1.6; color: #b45309; background: #FEF3C7; border: 1px solid #FDE68A; border-radius: 8px; padding: 10px 12px; margin: 0;">
+        <strong>Didn't ask for this?</strong> Open the link and cancel the change, then change your password and contact support.
+      </p>
+    </div>
+  `;
+}
+
+function buildChangedEmailHtml({
+  name,
+  previousAddress,
+  newAddress,
+  holdUntil,
+}: {
+  name: string | null;
+  previousAddress: string | null;
+  newAddress: string;
+  holdUntil: string;
+}): string {
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 560px; margin: 0 auto; padding: 24px; color: #111827;">
+      <h1 style="font-size: 22px; font-weight: 700; margin: 0 0 16px;">Your payout wallet was changed</h1>
+      <p style="font-size: 15px; line-height: 1.6; margin: 0 0 16px;">
+        Hi ${escapeHtml(name || 'there')}, the payout wallet on your Snipers Trading Academy account was just changed.
+      </p>
+      <p style="font-size: 14px; line-height: 1.6; margin: 0 0 4px; color: #374151;">Previous wallet: <span style="font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace;">${escapeHtml(previousAddress || 'none')}</span></p>
+      <p style="font-size: 14px; line-height: 1.6; margin: 0 0 16px; color: #374151;">New wallet: <span style="font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace;">${escapeHtml(newAddress)}</span></p>
+      <p style="font-size: 15px; line-height: 1.6; margin: 0 0 16px;">Payouts are paused until ${escapeHtml(new Date(holdUntil).toUTCString())}.</p>
+      <p style="font-size: 13px; line-height: 1.6; color: #b45309; background: #FEF3C7; border: 1px solid #FDE68A; border-radius: 8px; padding: 10px 12px; margin: 0;">
+        <strong>Wasn't you?</strong> Contact support immediately so we can stop payouts to this wallet.
+      </p>
+    </div>
+  `;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,725 @@
+/**
+ * On-chain Reconciliation Service
+ * Compares USDC Transfer events against what the database recorded.
+ *
+ * Each run covers, on every enabled chain, the block range since the previous
+ * completed report and checks, per address:
+ * - deposit addresses: every inbound transfer has a usdc_transactions deposit
+ *   row, every deposit row points at a real transfer, every outbound transfer
+ *   is a sweep we logged, and swept funds were applied to a payment
+ * Deposit checks run per chain against the rows recorded for that chain. The
+ * remaining checks cover the treasury and payout wallet, which live on Polygon:
+ * - payout wallet: every outbound transfer has a payout row, and every
+ *   confirmed payout row points at a real transfer
+ * - treasury / payout wallet: the gap between the on-chain balance and the
+ *   ledger balance hasn't moved since the previous report
+ *
+ * Findings are written to reconciliation_discrepancies; nothing is corrected
+ * automatically. Treasury → payout wallet top-ups are done by hand and only
+ * show up on-chain, so they are posted to the ledger here before the balance
+ * check.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import {
+  scanIncomingTransfers,
+  scanOutgoingTransfers,
+  getCurrentBlockNumber,
+  getBlockTimestamp,
+} from '@/lib/polygon/event-scanner';
+import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
+import { getTreasurySetting, getPayoutWalletAddress, weiToUsdc } from './treasury-service';
+import { getLedgerBalances, LEDGER_ACCOUNTS, postPayoutWalletFunded } from '@/lib/ledger/ledger-service';
+import { ChainKey, DEFAULT_CHAIN, getChainProvider, getEnabledChains } from '@/lib/chains/registry';
+
+// Stay behind the chain head so a reorg can't change a finished report
+// (about four minutes on each chain)
+const CONFIRMATION_DEPTH: Record<ChainKey, number> = {
+  polygon: 128,
+  base: 128,
+  arbitrum: 1024,
+};
+// ~24h of blocks, used when a chain has no previous report
+const DEFAULT_BLOCK_SPAN: Record<ChainKey, number> = {
+  polygon: 43200,
+  base: 43200,
+  arbitrum: 345600,
+};
+// Allowance between a block's timestamp and when our row was written
+const DB_WINDOW_GRACE_MS = 60 * 60 * 1000;
+// Recorded deposits still unapplied this long after a sweep are flagged
+const UNAPPLIED_AFTER_SWEEP_MS = 48 * 60 * 60 * 1000;
+// Amounts are stored with 2 (deposits) or 6 (payouts) decimals
+const AMOUNT_TOLERANCE = 0.01;
+// Smallest change in (on-chain − ledger) worth reporting
+const BALANCE_DRIFT_THRESHOLD = 1;
+
+export type ReconciliationAddressType = 'deposit' | 'treasury' | 'payout_wallet';
+
+export type DiscrepancyType =
+  | 'missed_deposit'
+  | 'duplicate_deposit'
+  | 'phantom_transaction'
+  | 'unmatched_sweep'
+  | 'swept_without_payment'
+  | 'unrecorded_outflow'
+  | 'balance_drift';
+
+export interface Discrepancy {
+  address: string;
+  address_type: ReconciliationAddressType;
+  user_id: string | null;
+  discrepancy_type: DiscrepancyType;
+  tx_hash: string | null;
+  onchain_amount: number | null;
+  recorded_amount: number | null;
+  details: Record<string, unknown>;
+}
+
+export interface WalletBalanceCheck {
+  address: string;
+  onchain: number;
+  ledger: number;
+  offset: number;
+}
+
+export interface ChainRange {
+  fromBlock: number;
+  toBlock: number;
+  transfersScanned: number;
+}
+
+export interface ReconciliationSummary {
+  byType: Partial<Record<DiscrepancyType, number>>;
+  // Block range scanned per chain; the report's from_block/to_block are Polygon's
+  chains?: Partial<Record<ChainKey, ChainRange>>;
+  balances: {
+    treasury?: WalletBalanceCheck;
+    payout_wallet?: WalletBalanceCheck;
+  };
+}
+
+export interface ReconciliationResult {
+  reportId: string;
+  reportDate: string;
+  fromBlock: number;
+  toBlock: number;
+  addressesChecked: number;
+  transfersScanned: number;
+  discrepancies: number;
+  summary: ReconciliationSummary;
+}
+
+interface DepositRow {
+  id: string;
+  user_id: string | null;
+  to_address: string;
+  amount: string;
+  polygon_tx_hash: string | null;
+  related_payment_id: string | null;
+  created_at: string;
+}
+
+interface PayoutRow {
+  id: string;
+  user_id: string | null;
+  to_address: string | null;
+  amount: string;
+  polygon_tx_hash: string | null;
+  status: string;
+  created_at: string;
+}
+
+/**
+ * Hashes written by the deposit cron when no Transfer event could be found
+ * look like `cron-<ts>-<user>`; they can only be matched by amount.
+ */
+function isOnchainHash(hash: string | null | undefined): hash is string {
+  return !!hash && /^0x[0-9a-fA-F]{64}$/.test(hash);
+}
+
+function amountsMatch(a: number, b: number): boolean {
+  return Math.abs(a - b) <= AMOUNT_TOLERANCE;
+}
+
+/**
+ * Status of a deposit transfer on its own chain
+ */
+async function chainTransactionStatus(
+  chain: ChainKey,
+  txHash: string
+): Promise<'confirmed' | 'failed' | 'pending' | 'not_found'> {
+  if (chain === DEFAULT_CHAIN) {
+    return polygonUSDCClient.getTransactionStatus(txHash);
+  }
+  const provider = getChainProvider(chain);
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (receipt) return receipt.status === 1 ? 'confirmed' : 'failed';
+  const tx = await provider.getTransaction(txHash);
+  return tx ? 'pending' : 'not_found';
+}
+
+/**
+ * DB time windows for a block range: with grace (rows may be written a little
+ * after their block) and strict (rows we expect to find on-chain in range)
+ */
+async function blockWindow(chain: ChainKey, fromBlock: number, toBlock: number) {
+  const [fromTime, toTime] = await Promise.all([
+    getBlockTimestamp(fromBlock, chain),
+    getBlockTimestamp(toBlock, chain),
+  ]);
+  return {
+    windowStart: new Date(fromTime - DB_WINDOW_GRACE_MS).toISOString(),
+    windowEnd: new Date(toTime + DB_WINDOW_GRACE_MS).toISOString(),
+    strictStart: new Date(fromTime).toISOString(),
+    strictEnd: new Date(toTime).toISOString(),
+  };
+}
+
+async function fetchInChunks<T>(
+  values: string[],
+  fetchChunk: (chunk: string[]) => Promise<T[]>,
+  chunkSize = 200
+): Promise<T[]> {
+  const results: T[] = [];
+  for (let i = 0; i < values.length; i += chunkSize) {
+    results.push(...(await fetchChunk(values.slice(i, i + chunkSize))));
+  }
+  return results;
+}
+
+/**
+ * Run a reconciliation pass and store it as today's report (UTC). Re-running
+ * on the same day replaces that day's report.
+ */
+export async function runReconciliation(options: {
+  triggeredBy?: string | null;
+} = {}): Promise<ReconciliationResult> {
+  const supabase = createServiceRoleClient();
+  const reportDate = new Date().toISOString().slice(0, 10);
+
+  const { data: previous } = await supabase
+    .from('reconciliation_reports')
+    .select('to_block, summary')
+    .eq('status', 'completed')
+    .lt('report_date', reportDate)
+    .order('report_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const previousSummary = (previous?.summary as ReconciliationSummary | undefined) ?? null;
+  const ranges: Partial<Record<ChainKey, { fromBlock: number; toBlock: number }>> = {};
+  for (const chain of getEnabledChains()) {
+    const toBlock = (await getCurrentBlockNumber(chain.key)) - CONFIRMATION_DEPTH[chain.key];
+    const previousTo = chain.key === DEFAULT_CHAIN
+      ? previous?.to_block
+      : previousSummary?.chains?.[chain.key]?.toBlock;
+    const fromBlock = previousTo !== undefined && previousTo !== null
+      ? Number(previousTo) + 1
+      : toBlock - DEFAULT_BLOCK_SPAN[chain.key];
+    ranges[chain.key] = { fromBlock, toBlock };
+  }
+  const { fromBlock, toBlock } = ranges[DEFAULT_CHAIN]!;
+
+  await supabase.from('reconciliation_reports').delete().eq('report_date', reportDate);
+
+  const { data: report, error: reportError } = await supabase
+    .from('reconciliation_reports')
+    .insert({
+      report_date: reportDate,
+      from_block: fromBlock,
+      to_block: toBlock,
+      status: 'running',
+      triggered_by: options.triggeredBy ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (reportError || !report) {
+    throw new Error(`Failed to create reconciliation report: ${reportError?.message}`);
+  }
+
+  try {
+    const result = await reconcileRanges(ranges, previousSummary);
+
+    if (result.discrepancies.length > 0) {
+      const { error: insertError } = await supabase
+        .from('reconciliation_discrepancies')
+        .insert(result.discrepancies.map((d) => ({ ...d, report_id: report.id })));
+      if (insertError) {
+        throw new Error(`Failed to store discrepancies: ${insertError.message}`);
+      }
+    }
+
+    await supabase
+      .from('reconciliation_reports')
+      .update({
+        status: 'completed',
+        addresses_checked: result.addressesChecked,
+        transfers_scanned: result.transfersScanned,
+        discrepancy_count: result.discrepancies.length,
+        summary: result.summary,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', report.id);
+
+    console.log(
+      `[Reconciliation] ${reportDate}: blocks ${fromBlock}-${toBlock}, ` +
+      `${result.transfersScanned} transfers, ${result.discrepancies.length} discrepancies`
+    );
+
+    return {
+      reportId: report.id,
+      reportDate,
+      fromBlock,
+      toBlock,
+      addressesChecked: result.addressesChecked,
+      transfersScanned: result.transfersScanned,
+      discrepancies: result.discrepancies.length,
+      summary: result.summary,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Reconciliation] ${reportDate} failed:`, error);
+    await supabase
+      .from('reconciliation_reports')
+      .update({
+        status: 'failed',
+        error_message: message,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', report.id);
+    throw error;
+  }
+}
+
+async function reconcileRanges(
+  ranges: Partial<Record<ChainKey, { fromBlock: number; toBlock: number }>>,
+  previousSummary: ReconciliationSummary | null
+): Promise<{
+  addressesChecked: number;
+  transfersScanned: number;
+  discrepancies: Discrepancy[];
+  summary: ReconciliationSummary;
+}> {
+  const supabase = createServiceRoleClient();
+  const discrepancies: Discrepancy[] = [];
+
+  // ---- Addresses ----
+  // HD deposit addresses are the same on every EVM chain
+  const depositOwners = new Map<string, string>();
+  for (let offset = 0; ; offset += 1000) {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('id, crypto_deposit_address')
+      .not('crypto_deposit_address', 'is', null)
+      .range(offset, offset + 999);
+    if (error) throw new Error(`Failed to load deposit addresses: ${error.message}`);
+    for (const u of users || []) {
+      depositOwners.set(u.crypto_deposit_address.toLowerCase(), u.id);
+    }
+    if (!users || users.length < 1000) break;
+  }
+
+  const treasuryAddress = (await getTreasurySetting('treasury_wallet_address'))?.toLowerCase() || null;
+  let payoutAddress: string | null = null;
+  try {
+    payoutAddress = (await getPayoutWalletAddress()).toLowerCase();
+  } catch {
+    console.warn('[Reconciliation] Payout wallet not configured, skipping payout checks');
+  }
+
+  const addressesChecked = depositOwners.size + (treasuryAddress ? 1 : 0) + (payoutAddress ? 1 : 0);
+
+  // ---- Deposits, per chain ----
+  let transfersScanned = 0;
+  const chains: NonNullable<ReconciliationSummary['chains']> = {};
+  for (const [chain, range] of Object.entries(ranges) as Array<[ChainKey, { fromBlock: number; toBlock: number }]>) {
+    const result = await reconcileDeposits(chain, range.fromBlock, range.toBlock, depositOwners, treasuryAddress);
+    discrepancies.push(...result.discrepancies);
+    transfersScanned += result.transfersScanned;
+    chains[chain] = { ...range, transfersScanned: result.transfersScanned };
+  }
+
+  // ---- Treasury and payout wallet (Polygon) ----
+  const { fromBlock, toBlock } = ranges[DEFAULT_CHAIN]!;
+  const [payoutOutgoing, treasuryOutgoing] = await Promise.all([
+    payoutAddress ? scanOutgoingTransfers([payoutAddress], fromBlock, toBlock) : Promise.resolve([]),
+    treasuryAddress && payoutAddress
+      ? scanOutgoingTransfers([treasuryAddress], fromBlock, toBlock)
+      : Promise.resolve([]),
+  ]);
+  transfersScanned += payoutOutgoing.length + treasuryOutgoing.length;
+  chains[DEFAULT_CHAIN]!.transfersScanned += payoutOutgoing.length + treasuryOutgoing.length;
+  const { strictStart, strictEnd } = await blockWindow(DEFAULT_CHAIN, fromBlock, toBlock);
+
+  // ---- Payout wallet ----
+  if (payoutAddress) {
+    const outgoingHashes = Array.from(new Set(payoutOutgoing.map((t) => t.txHash.toLowerCase())));
+    const payoutsByHash = await fetchInChunks(outgoingHashes, async (chunk) => {
+      const { data, error } = await supabase
+        .from('usdc_transactions')
+        .select('id, user_id, to_address, amount, polygon_tx_hash, status, created_at')
+        .eq('transaction_type', 'payout')
+        .in('polygon_tx_hash', chunk);
+      if (error) throw new Error(`Failed to load payouts by hash: ${error.message}`);
+      return (data || []) as PayoutRow[];
+    });
+    const recordedPayoutHashes = new Set(
+      payoutsByHash.map((r) => r.polygon_tx_hash?.toLowerCase()).filter(Boolean)
+    );
+
+    for (const transfer of payoutOutgoing) {
+      if (recordedPayoutHashes.has(transfer.txHash.toLowerCase())) continue;
+      discrepancies.push({
+        address: payoutAddress,
+        address_type: 'payout_wallet',
+        user_id: null,
+        discrepancy_type: 'unrecorded_outflow',
+        tx_hash: transfer.txHash,
+        onchain_amount: weiToUsdc(transfer.amount),
+        recorded_amount: null,
+        details: { to: transfer.to, block_number: transfer.blockNumber },
+      });
+    }
+
+    const { data: windowPayouts, error: payoutError } = await supabase
+      .from('usdc_transactions')
+      .select('id, user_id, to_address, amount, polygon_tx_hash, status, created_at')
+      .eq('transaction_type', 'payout')
+      .eq('status', 'confirmed')
+      .gte('created_at', strictStart)
+      .lte('created_at', strictEnd);
+    if (payoutError) throw new Error(`Failed to load payouts: ${payoutError.message}`);
+
+    const onchainOutgoing = new Set(outgoingHashes);
+    for (const row of (windowPayouts || []) as PayoutRow[]) {
+      const hash = row.polygon_tx_hash;
+      if (hash && onchainOutgoing.has(hash.toLowerCase())) continue;
+      const status = isOnchainHash(hash) ? await polygonUSDCClient.getTransactionStatus(hash) : 'not_found';
+      if (status === 'confirmed') continue;
+      discrepancies.push({
+        address: payoutAddress,
+        address_type: 'payout_wallet',
+        user_id: row.user_id,
+        discrepancy_type: 'phantom_transaction',
+        tx_hash: hash,
+        onchain_amount: null,
+        recorded_amount: parseFloat(row.amount),
+        details: { usdc_transaction_id: row.id, to: row.to_address, chain_status: status },
+      });
+    }
+  }
+
+  // ---- Payout wallet funding ----
+  for (const transfer of treasuryOutgoing) {
+    if (transfer.to.toLowerCase() !== payoutAddress) continue;
+    await postPayoutWalletFunded({
+      amountUsdc: weiToUsdc(transfer.amount),
+      txHash: transfer.txHash,
+    });
+  }
+
+  // ---- Balances vs ledger ----
+  // Deposits in flight make the absolute gap noisy, so only a change in the
+  // gap since the previous report is a finding.
+  const ledger = await getLedgerBalances();
+  const ledgerBalance = (code: string) => ledger.find((a) => a.account_code === code)?.balance ?? 0;
+  const balances: ReconciliationSummary['balances'] = {};
+
+  const wallets: Array<['treasury' | 'payout_wallet', string | null, string]> = [
+    ['treasury', treasuryAddress, LEDGER_ACCOUNTS.TREASURY],
+    ['payout_wallet', payoutAddress, LEDGER_ACCOUNTS.PAYOUT_WALLET],
+  ];
+  for (const [type, address, accountCode] of wallets) {
+    if (!address) continue;
+    // getBalance reports RPC failures instead of returning 0, which would read as drift
+    const balance = await polygonUSDCClient.getBalance(address);
+    if (!balance.success || !balance.data) {
+      throw new Error(`Failed to read ${type} balance: ${balance.error?.message}`);
+    }
+    const onchain = parseFloat(balance.data.balance);
+    const ledgerAmount = ledgerBalance(accountCode);
+    const check: WalletBalanceCheck = {
+      address,
+      onchain,
+      ledger: ledgerAmount,
+      offset: Math.round((onchain - ledgerAmount) * 1_000_000) / 1_000_000,
+    };
+    balances[type] = check;
+
+    const previousOffset = previousSummary?.balances?.[type]?.offset;
+    if (previousOffset !== undefined && Math.abs(check.offset - previousOffset) >= BALANCE_DRIFT_THRESHOLD) {
+      discrepancies.push({
+        address,
+        address_type: type,
+        user_id: null,
+        discrepancy_type: 'balance_drift',
+        tx_hash: null,
+        onchain_amount: onchain,
+        recorded_amount: ledgerAmount,
+        details: { offset: check.offset, previous_offset: previousOffset },
+      });
+    }
+  }
+
+  const byType: ReconciliationSummary['byType'] = {};
+  for (const d of discrepancies) {
+    byType[d.discrepancy_type] = (byType[d.discrepancy_type] || 0) + 1;
+  }
+
+  return {
+    addressesChecked,
+    transfersScanned,
+    discrepancies,
+    summary: { byType, chains, balances },
+  };
+}
+
+/**
+ * Deposit-address checks for one chain: inbound transfers vs recorded
+ * deposits, sweeps vs sweep audit events, and swept funds vs payments
+ */
+async function reconcileDeposits(
+  chain: ChainKey,
+  fromBlock: number,
+  toBlock: number,
+  depositOwners: Map<string, string>,
+  treasuryAddress: string | null
+): Promise<{ transfersScanned: number; discrepancies: Discrepancy[] }> {
+  const supabase = createServiceRoleClient();
+  const discrepancies: Discrepancy[] = [];
+  const depositAddresses = Array.from(depositOwners.keys());
+
+  const [incoming, depositOutgoing] = await Promise.all([
+    scanIncomingTransfers(depositAddresses, fromBlock, toBlock, chain),
+    scanOutgoingTransfers(depositAddresses, fromBlock, toBlock, chain),
+  ]);
+  const { windowStart, windowEnd, strictStart, strictEnd } = await blockWindow(chain, fromBlock, toBlock);
+
+  // ---- Deposits: chain → DB ----
+  const incomingHashes = Array.from(new Set(incoming.map((t) => t.txHash.toLowerCase())));
+  const depositsByHash = await fetchInChunks(incomingHashes, async (chunk) => {
+    const { data, error } = await supabase
+      .from('usdc_transactions')
+      .select('id, user_id, to_address, amount, polygon_tx_hash, related_payment_id, created_at')
+      .eq('transaction_type', 'deposit')
+      .eq('chain', chain)
+      .in('polygon_tx_hash', chunk);
+    if (error) throw new Error(`Failed to load deposits by hash: ${error.message}`);
+    return (data || []) as DepositRow[];
+  });
+
+  const { data: windowDepositData, error: windowDepositError } = await supabase
+    .from('usdc_transactions')
+    .select('id, user_id, to_address, amount, polygon_tx_hash, related_payment_id, created_at')
+    .eq('transaction_type', 'deposit')
+    .eq('chain', chain)
+    .gte('created_at', windowStart)
+    .lte('created_at', windowEnd);
+  if (windowDepositError) throw new Error(`Failed to load deposits: ${windowDepositError.message}`);
+  const windowDeposits = (windowDepositData || []) as DepositRow[];
+
+  const matchedRowIds = new Set<string>();
+  const rowsByHash = new Map<string, DepositRow[]>();
+  for (const row of [...depositsByHash, ...windowDeposits]) {
+    if (!row.polygon_tx_hash) continue;
+    const key = row.polygon_tx_hash.toLowerCase();
+    const list = rowsByHash.get(key) || [];
+    if (!list.some((r) => r.id === row.id)) list.push(row);
+    rowsByHash.set(key, list);
+  }
+
+  for (const transfer of incoming) {
+    const address = transfer.depositAddress.toLowerCase();
+    const userId = depositOwners.get(address) || null;
+    const onchainAmount = weiToUsdc(transfer.amount);
+
+    const byHash = (rowsByHash.get(transfer.txHash.toLowerCase()) || [])
+      .filter((r) => r.to_address.toLowerCase() === address && !matchedRowIds.has(r.id));
+    if (byHash.length > 0) {
+      byHash.forEach((r) => matchedRowIds.add(r.id));
+      if (byHash.length > 1) {
+        discrepancies.push({
+          address,
+          address_type: 'deposit',
+          user_id: userId,
+          discrepancy_type: 'duplicate_deposit',
+          tx_hash: transfer.txHash,
+          onchain_amount: onchainAmount,
+          recorded_amount: byHash.reduce((sum, r) => sum + parseFloat(r.amount), 0),
+          details: { usdc_transaction_ids: byHash.map((r) => r.id) },
+        });
+      }
+      continue;
+    }
+
+    // Deposit cron fallback rows carry a synthetic hash; pair by amount
+    const synthetic = windowDeposits.find((r) =>
+      !matchedRowIds.has(r.id) &&
+      !isOnchainHash(r.polygon_tx_hash) &&
+      r.to_address.toLowerCase() === address &&
+      amountsMatch(parseFloat(r.amount), onchainAmount)
+    );
+    if (synthetic) {
+      matchedRowIds.add(synthetic.id);
+      continue;
+    }
+
+    discrepancies.push({
+      address,
+      address_type: 'deposit',
+      user_id: userId,
+      discrepancy_type: 'missed_deposit',
+      tx_hash: transfer.txHash,
+      onchain_amount: onchainAmount,
+      recorded_amount: null,
+      details: { from: transfer.from, block_number: transfer.blockNumber },
+    });
+  }
+
+  // ---- Deposits: DB → chain ----
+  const onchainIncoming = new Set(incomingHashes);
+  for (const row of windowDeposits) {
+    if (matchedRowIds.has(row.id)) continue;
+    if (row.created_at < strictStart || row.created_at > strictEnd) continue;
+    const address = row.to_address.toLowerCase();
+    if (!depositOwners.has(address)) continue;
+    const recordedAmount = parseFloat(row.amount);
+
+    if (isOnchainHash(row.polygon_tx_hash)) {
+      if (onchainIncoming.has(row.polygon_tx_hash.toLowerCase())) continue;
+      // The transfer may simply sit outside this block range; ask the chain
+      const status = await chainTransactionStatus(chain, row.polygon_tx_hash);
+      if (status === 'confirmed' || status === 'pending') continue;
+      discrepancies.push({
+        address,
+        address_type: 'deposit',
+        user_id: row.user_id,
+        discrepancy_type: 'phantom_transaction',
+        tx_hash: row.polygon_tx_hash,
+        onchain_amount: null,
+        recorded_amount: recordedAmount,
+        details: { usdc_transaction_id: row.id, chain_status: status },
+      });
+      continue;
+    }
+
+    // An unmatched synthetic row alongside a real row for the same amount means
+    // the same funds were recorded twice
+    const twin = windowDeposits.find((r) =>
+      r.id !== row.id &&
+      isOnchainHash(r.polygon_tx_hash) &&
+      r.to_address.toLowerCase() === address &&
+      amountsMatch(parseFloat(r.amount), recordedAmount)
+    );
+    discrepancies.push({
+      address,
+      address_type: 'deposit',
+      user_id: row.user_id,
+      discrepancy_type: twin ? 'duplicate_deposit' : 'phantom_transaction',
+      tx_hash: row.polygon_tx_hash,
+      onchain_amount: null,
+      recorded_amount: recordedAmount,
+      details: twin
+        ? { usdc_transaction_ids: [row.id, twin.id] }
+        : { usdc_transaction_id: row.id, reason: 'synthetic hash with no matching transfer' },
+    });
+  }
+
+  // ---- Sweeps ----
+  const { data: sweepEvents, error: sweepError } = await supabase
+    .from('crypto_audit_log')
+    .select('user_id, details')
+    .in('event_type', ['deposit_swept', 'manual_sweep_success'])
+    .gte('created_at', windowStart)
+    .lte('created_at', windowEnd);
+  if (sweepError) throw new Error(`Failed to load sweep events: ${sweepError.message}`);
+
+  const loggedSweepHashes = new Set<string>();
+  for (const event of sweepEvents || []) {
+    const details = (event.details || {}) as { tx_hash?: string; tx_hashes?: string[] };
+    if (details.tx_hash) loggedSweepHashes.add(details.tx_hash.toLowerCase());
+    for (const hash of details.tx_hashes || []) loggedSweepHashes.add(hash.toLowerCase());
+  }
+
+  const lastSweepBlock = new Map<string, number>();
+  for (const transfer of depositOutgoing) {
+    const address = transfer.sourceAddress.toLowerCase();
+    const userId = depositOwners.get(address) || null;
+    lastSweepBlock.set(address, Math.max(lastSweepBlock.get(address) || 0, transfer.blockNumber));
+
+    const toTreasury = !!treasuryAddress && transfer.to === treasuryAddress;
+    if (toTreasury && loggedSweepHashes.has(transfer.txHash.toLowerCase())) continue;
+
+    discrepancies.push({
+      address,
+      address_type: 'deposit',
+      user_id: userId,
+      discrepancy_type: 'unmatched_sweep',
+      tx_hash: transfer.txHash,
+      onchain_amount: weiToUsdc(transfer.amount),
+      recorded_amount: null,
+      details: {
+        to: transfer.to,
+        to_treasury: toTreasury,
+        block_number: transfer.blockNumber,
+      },
+    });
+  }
+
+  // Swept addresses whose recorded deposits never became a payment
+  const sweptAddresses = Array.from(lastSweepBlock.keys());
+  if (sweptAddresses.length > 0) {
+    const sweptUserIds = sweptAddresses
+      .map((a) => depositOwners.get(a))
+      .filter((id): id is string => !!id);
+    const unapplied = await fetchInChunks(sweptUserIds, async (chunk) => {
+      const { data, error } = await supabase
+        .from('usdc_transactions')
+        .select('id, user_id, to_address, amount, polygon_tx_hash, related_payment_id, created_at')
+        .eq('transaction_type', 'deposit')
+        .eq('chain', chain)
+        .eq('status', 'confirmed')
+        .is('related_payment_id', null)
+        .in('user_id', chunk)
+        .lte('created_at', new Date(Date.now() - UNAPPLIED_AFTER_SWEEP_MS).toISOString());
+      if (error) throw new Error(`Failed to load unapplied deposits: ${error.message}`);
+      return (data || []) as DepositRow[];
+    });
+
+    const sweepTimes = new Map<string, number>();
+    for (const address of sweptAddresses) {
+      sweepTimes.set(address, await getBlockTimestamp(lastSweepBlock.get(address)!, chain));
+    }
+
+    const unappliedByAddress = new Map<string, DepositRow[]>();
+    for (const row of unapplied) {
+      const address = row.to_address.toLowerCase();
+      const sweptAt = sweepTimes.get(address);
+      if (sweptAt === undefined || new Date(row.created_at).getTime() > sweptAt) continue;
+      unappliedByAddress.set(address, [...(unappliedByAddress.get(address) || []), row]);
+    }
+
+    for (const [address, rows] of Array.from(unappliedByAddress.entries())) {
+      discrepancies.push({
+        address,
+        address_type: 'deposit',
+        user_id: depositOwners.get(address) || null,
+        discrepancy_type: 'swept_without_payment',
+        tx_hash: null,
+        onchain_amount: null,
+        recorded_amount: rows.reduce((sum, r) => sum + parseFloat(r.amount), 0),
+        details: {
+          usdc_transaction_ids: rows.map((r) => r.id),
+          last_sweep_block: lastSweepBlock.get(address),
+        },
+      });
+    }
+  }
+
+  return {
+    transfersScanned: incoming.length + depositOutgoing.length,
+    discrepancies: discrepancies.map((d) => ({ ...d, details: { ...d.details, chain } })),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Treasury Snapshot Service
+ * Records one row per day in treasury_snapshots so the admin financials page
+ * can chart balances and payout coverage over time.
+ *
+ * - Funds on hand: treasury wallet + payout wallet + unswept deposits
+ *   (ledger balances of the per-member deposit accounts)
+ * - Outstanding liability: pending/failed commissions, split by whether
+ *   they are already in a payout batch
+ * - Coverage ratio: funds on hand / outstanding liability
+ *
+ * Deposit and commission totals are summed in the database (one deposit
+ * account per member is more than a single API read returns).
+ *
+ * The treasury balance is required; a payout wallet, gas tank or ledger
+ * balance that can't be read is stored as NULL and listed in the snapshot's
+ * errors.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
+import { gasManager } from '@/lib/polygon/gas-manager';
+import { getDepositAccountTotals } from '@/lib/ledger/ledger-service';
+import type { TreasurySnapshot } from '@/lib/coinbase/wallet-types';
+import { getTreasurySetting } from './treasury-service';
+
+export interface TreasurySnapshotResult {
+  snapshot: TreasurySnapshot;
+  replaced: boolean;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+async function sumOutstandingCommissions(): Promise<{ unbatched: number; batched: number }> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('outstanding_commission_totals').single();
+  if (error || !data) {
+    throw new Error(`Failed to sum outstanding commissions: ${error?.message || 'no row returned'}`);
+  }
+
+  const totals = data as { unbatched_usdc: string | number; batched_usdc: string | number };
+  return { unbatched: Number(totals.unbatched_usdc), batched: Number(totals.batched_usdc) };
+}
+
+/**
+ * Record today's snapshot (UTC). Re-running on the same day replaces that
+ * day's row.
+ */
+export async function captureTreasurySnapshot(options: {
+  triggeredBy?: string | null;
+} = {}): Promise<TreasurySnapshotResult> {
+  const supabase = createServiceRoleClient();
+  const snapshotDate = new Date().toISOString().slice(0, 10);
+  const errors: string[] = [];
+
+  const treasuryAddress = await getTreasurySetting('treasury_wallet_address');
+  if (!treasuryAddress) {
+    throw new Error('Treasury wallet address not configured');
+  }
+
+  const [treasuryUsdc, treasuryMatic, payoutWallet, gasTank, depositTotals, outstanding] =
+    await Promise.all([
+      polygonUSDCClient.getBalance(treasuryAddress),
+      polygonUSDCClient.getMATICBalance(treasuryAddress),
+      gasManager.getPayoutWalletStatus(),
+      gasManager.getGasTankStatus(),
+      getDepositAccountTotals(),
+      sumOutstandingCommissions(),
+    ]);
+
+  if (!treasuryUsdc.success || !treasuryUsdc.data) {
+    throw new Error(`Could not fetch treasury USDC balance: ${treasuryUsdc.error?.message || 'unknown error'}`);
+  }
+  if (!treasuryMatic.success) {
+    errors.push(`treasury_matic: ${treasuryMatic.error?.message || 'unavailable'}`);
+  }
+  if (!payoutWallet.success || !payoutWallet.data) {
+    errors.push(`payout_wallet: ${payoutWallet.error?.message || 'unavailable'}`);
+  }
+  if (!gasTank.success || !gasTank.data) {
+    errors.push(`gas_tank: ${gasTank.error?.message || 'unavailable'}`);
+  }
+  if (!depositTotals) {
+    errors.push('unswept_deposits: ledger balances unavailable');
+  }
+
+  const treasuryBalance = parseFloat(treasuryUsdc.data.balance);
+  const payoutWalletUsdc = payoutWallet.data ? parseFloat(payoutWallet.data.usdcBalance) : null;
+  const unsweptDeposits = depositTotals ? depositTotals.balanceUsdc : null;
+  const fundsOnHand = treasuryBalance + (payoutWalletUsdc ?? 0) + (unsweptDeposits ?? 0);
+  const liability = outstanding.unbatched + outstanding.batched;
+
+  const row = {
+    snapshot_type: 'daily' as const,
+    snapshot_date: snapshotDate,
+    snapshot_at: new Date().toISOString(),
+    usdc_balance: round(treasuryBalance, 6),
+    matic_balance: treasuryMatic.success ? parseFloat(treasuryMatic.data || '0') : 0,
+    payout_wallet_usdc: payoutWalletUsdc === null ? null : round(payoutWalletUsdc, 6),
+    payout_wallet_matic: payoutWallet.data ? parseFloat(payoutWallet.data.maticBalance) : null,
+    gas_tank_matic: gasTank.data ? parseFloat(gasTank.data.maticBalance) : null,
+    total_user_wallets_usdc: unsweptDeposits === null ? null : round(unsweptDeposits, 6),
+    total_active_wallets: depositTotals ? depositTotals.fundedAccounts : null,
+    pending_commissions_usdc: round(outstanding.unbatched, 6),
+    pending_payouts_usdc: round(outstanding.batched, 6),
+    platform_net_balance: round(fundsOnHand - liability, 6),
+    coverage_ratio: liability > 0 ? round(fundsOnHand / liability, 4) : null,
+    matic_price_usd: parseFloat(process.env.MATIC_PRICE_USD || '0.50'),
+    errors,
+    triggered_by: options.triggeredBy ?? null,
+  };
+
+  const { data: existing } = await supabase
+    .from('treasury_snapshots')
+    .select('id')
+    .eq('snapshot_type', 'daily')
+    .eq('snapshot_date', snapshotDate)
+    .maybeSingle();
+
+  const { data: snapshot, error } = existing
+    ? await supabase.from('treasury_snapshots').update(row).eq('id', existing.id).select('*').single()
+    : await supabase.from('treasury_snapshots').insert(row).select('*').single();
+
+  if (error || !snapshot) {
+    throw new Error(`Failed to save treasury snapshot: ${error?.message || 'no row returned'}`);
+  }
+
+  if (errors.length > 0) {
+    console.warn(`[TreasurySnapshot] ${snapshotDate} recorded with missing balances:`, errors);
+  }
+
+  return { snapshot: snapshot as TreasurySnapshot, replaced: !!existing };
+}
+
+/**
+ * Daily snapshots for the last `days` days, oldest first
+ */
+export async function getTreasurySnapshots(days: number): Promise<TreasurySnapshot[]> {
+  const supabase = createServiceRoleClient();
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const { data, error } = await supabase
+    .from('treasury_snapshots')
+    .select('*')
+    .eq('snapshot_type', 'daily')
+    .gte('snapshot_date', since)
+    .order('snapshot_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch treasury snapshots: ${error.message}`);
+  }
+
+  return (data || []) as TreasurySnapshot[];
+}
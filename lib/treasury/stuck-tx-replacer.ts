@@ -0,0 +1,380 @@
+/**
+ * Stuck Transaction Replacer
+ * Run by the replace-stuck-txs cron over the sends recorded by the nonce
+ * manager (./nonce-manager), one hot wallet at a time:
+ *   1. Nonces the chain has confirmed are closed out, noting which broadcast
+ *      landed (records are pointed back at it if it wasn't the latest).
+ *   2. Allocations that never broadcast (the sender crashed) are released, or
+ *      filled with a zero-value self-transfer when later nonces wait behind them.
+ *   3. Pending sends older than stuck_tx_bump_after_minutes are re-broadcast
+ *      at the same nonce with fees of max(network × GAS_BUFFER_MULTIPLIER,
+ *      previous × REPLACEMENT_BUMP_MULTIPLIER) — the lowest open nonce always,
+ *      later ones only if priced under the network.
+ * A bump above the chain's fee cap is not sent; admins are emailed once per
+ * send (escalated_at) and resolve it from the stuck transactions panel.
+ */
+
+import { ethers } from 'ethers';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { ChainKey, getChain, getChainProvider, getGasTankPrivateKey } from '@/lib/chains/registry';
+import { getPayoutWalletSigner } from '@/lib/custody/custody-signer';
+import { sendEmail } from '@/lib/notifications/twilio/email-service';
+import { getTreasurySetting } from './treasury-service';
+import {
+  GAS_BUFFER_MULTIPLIER,
+  REPLACEMENT_BUMP_MULTIPLIER,
+  applyMultiplier,
+  computeOutgoingFees,
+  maxFee,
+} from './gas-config';
+import { HotWalletId, ManagedTransaction, recordReplacement, repointTxHash } from './nonce-manager';
+
+const DEFAULT_BUMP_AFTER_MINUTES = 10;
+
+// An allocation this old without a broadcast belongs to a sender that died
+const STALE_ALLOCATION_MINUTES = 5;
+
+export interface StuckTxEscalation {
+  chain: ChainKey;
+  wallet: HotWalletId;
+  address: string;
+  nonce: number;
+  txHash: string | null;
+  reason: string;
+}
+
+export interface StuckTxRunSummary {
+  walletsChecked: number;
+  confirmed: number;
+  released: number;
+  gapsFilled: number;
+  bumped: number;
+  escalated: StuckTxEscalation[];
+  errors: string[];
+}
+
+function parseSetting(value: string | null, fallback: number): number {
+  const parsed = value === null ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function minutesSince(timestamp: string | null, now: Date): number {
+  return timestamp ? (now.getTime() - new Date(timestamp).getTime()) / 60_000 : Infinity;
+}
+
+function gwei(value: bigint): number {
+  return Number(ethers.formatUnits(value, 'gwei'));
+}
+
+/**
+ * Signer for a hot wallet, if one of its configured keys controls the address
+ * Payouts fall back to the treasury key when no payout wallet is configured,
+ * so that key is tried for payout_wallet sends too.
+ */
+async function getHotWalletSigner(
+  wallet: HotWalletId,
+  chain: ChainKey,
+  address: string,
+  provider: ethers.Provider
+): Promise<ethers.Signer | null> {
+  const candidates: ethers.Signer[] = [];
+
+  if (wallet === 'gas_tank') {
+    const key = getGasTankPrivateKey(chain);
+    if (key) candidates.push(new ethers.Wallet(key, provider));
+  } else {
+    const payoutSigner = await getPayoutWalletSigner(provider);
+    if (payoutSigner) candidates.push(payoutSigner);
+    if (process.env.PLATFORM_TREASURY_PRIVATE_KEY) {
+      candidates.push(new ethers.Wallet(process.env.PLATFORM_TREASURY_PRIVATE_KEY, provider));
+    }
+  }
+
+  for (const signer of candidates) {
+    if ((await signer.getAddress()) === address) return signer;
+  }
+  return null;
+}
+
+/**
+ * Which of a send's broadcasts was mined, newest first
+ */
+async function findMinedHash(provider: ethers.Provider, row: ManagedTransaction): Promise<string | null> {
+  for (const hash of [...row.tx_hashes].reverse()) {
+    const receipt = await provider.getTransactionReceipt(hash).catch(() => null);
+    if (receipt) return hash;
+  }
+  return null;
+}
+
+async function getFeeCap(chain: ChainKey): Promise<bigint> {
+  const capGwei = parseSetting(
+    await getTreasurySetting(`stuck_tx_fee_cap_gwei_${chain}`),
+    getChain(chain).replacementFeeCapGwei
+  );
+  return ethers.parseUnits(String(capGwei), 'gwei');
+}
+
+/**
+ * Close out, release, fill and fee-bump every hot wallet's open sends
+ */
+export async function replaceStuckTransactions(): Promise<StuckTxRunSummary> {
+  const supabase = createServiceRoleClient();
+  const now = new Date();
+  const summary: StuckTxRunSummary = {
+    walletsChecked: 0,
+    confirmed: 0,
+    released: 0,
+    gapsFilled: 0,
+    bumped: 0,
+    escalated: [],
+    errors: [],
+  };
+
+  const bumpAfterMinutes = parseSetting(
+    await getTreasurySetting('stuck_tx_bump_after_minutes'),
+    DEFAULT_BUMP_AFTER_MINUTES
+  );
+
+  const { data: openRows, error } = await supabase
+    .from('hot_wallet_transactions')
+    .select('*')
+    .in('status', ['allocated', 'pending'])
+    .order('nonce', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load open hot wallet transactions: ${error.message}`);
+  }
+
+  const byWallet = new Map<string, ManagedTransaction[]>();
+  for (const row of (openRows || []) as ManagedTransaction[]) {
+    const key = `${row.chain}:${row.address}`;
+    byWallet.set(key, [...(byWallet.get(key) || []), row]);
+  }
+
+  for (const rows of Array.from(byWallet.values())) {
+    const { chain, address, wallet } = rows[0];
+    summary.walletsChecked++;
+
+    try {
+      const provider = getChainProvider(chain);
+      const [confirmedNonce, pendingNonce] = await Promise.all([
+        provider.getTransactionCount(address, 'latest'),
+        provider.getTransactionCount(address, 'pending'),
+      ]);
+
+      let signer: ethers.Signer | null | undefined;
+      const loadSigner = async () => {
+        if (signer === undefined) signer = await getHotWalletSigner(wallet, chain, address, provider);
+        return signer;
+      };
+
+      const escalate = async (row: ManagedTransaction, reason: string, details: Record<string, unknown> = {}) => {
+        if (row.escalated_at) return;
+        await supabase
+          .from('hot_wallet_transactions')
+          .update({ escalated_at: now.toISOString(), last_error: reason, updated_at: now.toISOString() })
+          .eq('id', row.id);
+        await supabase.from('crypto_audit_log').insert({
+          event_type: 'stuck_tx_escalated',
+          entity_type: 'hot_wallet_transaction',
+          entity_id: row.id,
+          details: { chain, wallet, address, nonce: row.nonce, tx_hash: row.tx_hash, reason, ...details },
+        });
+        summary.escalated.push({ chain, wallet, address, nonce: row.nonce, txHash: row.tx_hash, reason });
+      };
+
+      // 1. Mined nonces
+      for (const row of rows.filter((r) => r.status === 'pending' && r.nonce < confirmedNonce)) {
+        const minedHash = await findMinedHash(provider, row);
+        await supabase
+          .from('hot_wallet_transactions')
+          .update({
+            status: 'confirmed',
+            mined_tx_hash: minedHash,
+            confirmed_at: now.toISOString(),
+            updated_at: now.toISOString(),
+          })
+          .eq('id', row.id);
+        if (minedHash && row.tx_hash && minedHash !== row.tx_hash) {
+          await repointTxHash(row.tx_hash, minedHash);
+        }
+        summary.confirmed++;
+      }
+
+      // 2. Allocations that never broadcast
+      for (const row of rows.filter((r) => r.status === 'allocated')) {
+        if (minutesSince(row.created_at, now) < STALE_ALLOCATION_MINUTES) continue;
+
+        if (row.nonce < confirmedNonce || row.nonce >= pendingNonce) {
+          // Used by another send already, or nothing queued behind it: reuse later
+          await supabase
+            .from('hot_wallet_transactions')
+            .update({ status: 'released', last_error: 'Allocated but never broadcast', updated_at: now.toISOString() })
+            .eq('id', row.id);
+          summary.released++;
+          continue;
+        }
+
+        const gapSigner = await loadSigner();
+        if (!gapSigner) {
+          await escalate(row, 'Nonce gap blocks later transactions and no configured key controls this wallet');
+          continue;
+        }
+
+        const fees = computeOutgoingFees(await provider.getFeeData(), chain);
+        const response = await gapSigner.sendTransaction({
+          to: address,
+          value: 0,
+          nonce: row.nonce,
+          gasLimit: 21000,
+          ...fees,
+        });
+        await recordReplacement(row, response, 'nonce_gap_fill');
+        summary.gapsFilled++;
+      }
+
+      // 3. Fee-bump stuck sends
+      const stuck = rows.filter((r) =>
+        r.status === 'pending' &&
+        r.nonce >= confirmedNonce &&
+        minutesSince(r.last_bumped_at ?? r.broadcast_at, now) >= bumpAfterMinutes
+      );
+      if (stuck.length === 0) continue;
+
+      const feeData = await provider.getFeeData();
+      const networkFees = computeOutgoingFees(feeData, chain);
+      const feeCap = await getFeeCap(chain);
+
+      for (const row of stuck) {
+        const previousMaxFee = row.max_fee_per_gas ? BigInt(row.max_fee_per_gas) : BigInt(0);
+        const previousPriorityFee = row.max_priority_fee_per_gas ? BigInt(row.max_priority_fee_per_gas) : BigInt(0);
+
+        // Later nonces only wait on the head; bump them only if they're underpriced too
+        if (row.nonce !== confirmedNonce && previousMaxFee >= networkFees.maxFeePerGas) continue;
+
+        const newMaxFee = maxFee(
+          applyMultiplier(feeData.maxFeePerGas, GAS_BUFFER_MULTIPLIER) ?? networkFees.maxFeePerGas,
+          applyMultiplier(previousMaxFee, REPLACEMENT_BUMP_MULTIPLIER)
+        );
+        const bumpedPriorityFee = maxFee(
+          applyMultiplier(feeData.maxPriorityFeePerGas, GAS_BUFFER_MULTIPLIER) ?? networkFees.maxPriorityFeePerGas,
+          applyMultiplier(previousPriorityFee, REPLACEMENT_BUMP_MULTIPLIER)
+        );
+        const newPriorityFee = bumpedPriorityFee > newMaxFee ? newMaxFee : bumpedPriorityFee;
+
+        if (newMaxFee > feeCap) {
+          await escalate(row, `Replacement fee ${gwei(newMaxFee)} gwei exceeds the ${gwei(feeCap)} gwei cap`, {
+            previous_max_fee_gwei: gwei(previousMaxFee),
+            required_max_fee_gwei: gwei(newMaxFee),
+            fee_cap_gwei: gwei(feeCap),
+            bump_count: row.bump_count,
+          });
+          continue;
+        }
+
+        if (!row.to_address || row.gas_limit === null) {
+          await escalate(row, 'Original transaction details were not recorded, so it cannot be re-broadcast');
+          continue;
+        }
+
+        const bumpSigner = await loadSigner();
+        if (!bumpSigner) {
+          await escalate(row, 'No configured key controls this wallet');
+          continue;
+        }
+
+        try {
+          const response = await bumpSigner.sendTransaction({
+            to: row.to_address,
+            value: BigInt(row.value_wei || '0'),
+            data: row.data || '0x',
+            gasLimit: BigInt(row.gas_limit),
+            nonce: row.nonce,
+            maxFeePerGas: newMaxFee,
+            maxPriorityFeePerGas: newPriorityFee,
+          });
+
+          await recordReplacement(row, response);
+          await supabase.from('crypto_audit_log').insert({
+            event_type: 'stuck_tx_replaced',
+            entity_type: 'hot_wallet_transaction',
+            entity_id: row.id,
+            details: {
+              chain,
+              wallet,
+              address,
+              nonce: row.nonce,
+              purpose: row.purpose,
+              original_hash: row.tx_hash,
+              new_hash: response.hash,
+              previous_max_fee_gwei: gwei(previousMaxFee),
+              new_max_fee_gwei: gwei(newMaxFee),
+              bump_count: row.bump_count + 1,
+            },
+          });
+          summary.bumped++;
+          console.log(`[StuckTxReplacer] Bumped ${wallet} ${address} nonce ${row.nonce} on ${chain}: ${response.hash} at ${gwei(newMaxFee)} gwei`);
+        } catch (bumpError) {
+          const message = bumpError instanceof Error ? bumpError.message : 'Replacement failed';
+          await supabase
+            .from('hot_wallet_transactions')
+            .update({ last_error: message, updated_at: now.toISOString() })
+            .eq('id', row.id);
+          summary.errors.push(`${chain} ${address} nonce ${row.nonce}: ${message}`);
+        }
+      }
+    } catch (walletError) {
+      const message = walletError instanceof Error ? walletError.message : 'Unknown error';
+      console.error(`[StuckTxReplacer] ${chain} ${address} failed:`, walletError);
+      summary.errors.push(`${chain} ${address}: ${message}`);
+    }
+  }
+
+  if (summary.escalated.length > 0) {
+    await notifyAdminsOfEscalations(summary.escalated);
+  }
+
+  return summary;
+}
+
+/**
+ * Email superadmins the sends the cron won't bump on its own
+ */
+async function notifyAdminsOfEscalations(escalations: StuckTxEscalation[]): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { data: admins } = await supabase
+    .from('users')
+    .select('email')
+    .in('role', ['superadmin', 'superadmin+']);
+
+  if (!admins || admins.length === 0) {
+    console.warn('[StuckTxReplacer] No admins found to escalate stuck transactions to');
+    return;
+  }
+
+  const rows = escalations
+    .map((e) => `<li>${getChain(e.chain).name} ${e.wallet === 'gas_tank' ? 'gas tank' : 'payout wallet'} ${e.address}, nonce ${e.nonce}${e.txHash ? ` (${e.txHash})` : ''}: ${e.reason}</li>`)
+    .join('');
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #b45309;">Stuck transactions need attention</h2>
+      <p>The stuck transaction cron could not replace the following hot wallet transactions on its own:</p>
+      <ul>${rows}</ul>
+      <p>Review them from the stuck transactions panel on the admin financials page.</p>
+    </div>
+  `;
+
+  for (const admin of admins) {
+    if (!admin.email) continue;
+    const result = await sendEmail({
+      to: admin.email,
+      subject: `${escalations.length} stuck transaction(s) need attention`,
+      html,
+    });
+    if (!result.success) {
+      console.error(`[StuckTxReplacer] Escalation email to ${admin.email} failed:`, result.error);
+    }
+  }
+}
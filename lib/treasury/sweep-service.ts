@@ -1,14 +1,25 @@
 /**
  * Treasury Sweep Service
  * Consolidates USDC from user deposit addresses to the central treasury wallet
- * Uses HD wallet derivation to sign transactions from deposit addresses
+ * Uses HD wallet derivation to sign transactions from deposit addresses; the
+ * master xprv stays in key custody and is only decrypted to sign
  * Note: Polygon's native gas token is POL (formerly MATIC)
+ *
+ * The one-shot sweep here (manual admin sweep, legacy sweep-deposits cron) is
+ * Polygon-only; deposits on other chains are swept by the sweep-identify /
+ * fund / execute / verify pipeline, which follows users.sweep_chain.
  */
 
 import { ethers } from 'ethers';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { getTreasurySetting } from './treasury-service';
 import { polygonUSDCClient } from '@/lib/polygon/usdc-client';
+import { postDepositSwept } from '@/lib/ledger/ledger-service';
+import { getKeyCustody } from '@/lib/custody/key-custody';
+import { getDepositAddressSigner } from '@/lib/custody/custody-signer';
+import { ChainKey, DEFAULT_CHAIN, getChain, getChainProvider, getGasTankPrivateKey } from '@/lib/chains/registry';
+import { computeOutgoingFees } from './gas-config';
+import { sendManagedTransaction } from './nonce-manager';
 
 // Minimum USDC balance to sweep (to avoid wasting gas on dust)
 const MIN_SWEEP_AMOUNT_USDC = 1; // $1 minimum
@@ -31,39 +42,10 @@ export interface SweepSummary {
 }
 
 /**
- * Get master wallet xprv from treasury settings
+ * Whether the master xprv is in key custody (needed to sign sweeps)
  */
-export async function getMasterXprv(): Promise<string | null> {
-  return getTreasurySetting('master_wallet_xprv');
-}
-
-/**
- * Derive private key for a deposit address using BIP-44 derivation
- * Path: m/44'/60'/0'/0/{index}
- */
-export function derivePrivateKey(masterXprv: string, derivationIndex: number): string {
-  // Create HD node from xprv
-  const hdNode = ethers.HDNodeWallet.fromExtendedKey(masterXprv);
-
-  // Derive child at the specified index
-  // The xprv represents the account level (m/44'/60'/0'/0)
-  // We just need to derive the index
-  const childNode = hdNode.derivePath(derivationIndex.toString());
-
-  // Check if this is a private key wallet (has signing capability)
-  if (!('privateKey' in childNode) || !childNode.privateKey) {
-    throw new Error('Cannot derive private key from extended public key. Please configure master_wallet_xprv.');
-  }
-
-  return childNode.privateKey;
-}
-
-/**
- * Verify that a private key derives the expected address
- */
-export function verifyDerivedAddress(privateKey: string, expectedAddress: string): boolean {
-  const wallet = new ethers.Wallet(privateKey);
-  return wallet.address.toLowerCase() === expectedAddress.toLowerCase();
+export async function isMasterXprvConfigured(): Promise<boolean> {
+  return !!(await getKeyCustody().getKeyInfo('master_xprv'));
 }
 
 /**
@@ -107,8 +89,7 @@ export async function sweepUserDeposit(
   userId: string,
   depositAddress: string,
   derivationIndex: number,
-  treasuryAddress: string,
-  masterXprv: string
+  treasuryAddress: string
 ): Promise<SweepResult> {
   const result: SweepResult = {
     userId,
@@ -118,13 +99,9 @@ export async function sweepUserDeposit(
   };
 
   try {
-    // Derive private key
-    const privateKey = derivePrivateKey(masterXprv, derivationIndex);
-
-    // Verify the derived address matches
-    if (!verifyDerivedAddress(privateKey, depositAddress)) {
-      throw new Error(`Derived address mismatch! Expected ${depositAddress}`);
-    }
+    // Signs with the HD child of the custody master xprv; the derived
+    // address is checked against depositAddress before anything is signed
+    const signer = getDepositAddressSigner(derivationIndex, depositAddress);
 
     // Get current USDC balance
     const balanceResult = await polygonUSDCClient.getBalance(depositAddress);
@@ -154,7 +131,7 @@ export async function sweepUserDeposit(
 
     // Transfer USDC to treasury
     const transferResult = await polygonUSDCClient.transfer(
-      privateKey,
+      signer,
       treasuryAddress,
       balanceUsdc.toFixed(6)
     );
@@ -199,9 +176,8 @@ export async function sweepAllPendingDeposits(limit: number = 50): Promise<Sweep
     results: [],
   };
 
-  // Get master xprv
-  const masterXprv = await getMasterXprv();
-  if (!masterXprv) {
+  // Sweeps sign with the custody master xprv
+  if (!(await isMasterXprvConfigured())) {
     console.error('[SweepService] Master wallet xprv not configured');
     return summary;
   }
@@ -232,8 +208,7 @@ export async function sweepAllPendingDeposits(limit: number = 50): Promise<Sweep
       user.id,
       user.crypto_deposit_address,
       user.crypto_derivation_index,
-      treasuryAddress,
-      masterXprv
+      treasuryAddress
     );
 
     summary.results.push(result);
@@ -255,6 +230,13 @@ export async function sweepAllPendingDeposits(limit: number = 50): Promise<Sweep
           tx_hash: result.txHash,
         },
       });
+
+      await postDepositSwept({
+        userId: user.id,
+        depositAddress: user.crypto_deposit_address,
+        amountUsdc: result.amount,
+        txHash: result.txHash,
+      });
     } else if (!result.success || result.error) {
       // Only count as failed if there was an actual error (not just dust skip)
       if (!result.error?.includes('below minimum')) {
@@ -303,9 +285,8 @@ export async function sweepDepositById(userId: string): Promise<SweepResult> {
     };
   }
 
-  // Get master xprv
-  const masterXprv = await getMasterXprv();
-  if (!masterXprv) {
+  // Sweeps sign with the custody master xprv
+  if (!(await isMasterXprvConfigured())) {
     return {
       userId,
       depositAddress: user.crypto_deposit_address,
@@ -331,15 +312,15 @@ export async function sweepDepositById(userId: string): Promise<SweepResult> {
     user.id,
     user.crypto_deposit_address,
     user.crypto_derivation_index,
-    treasuryAddress,
-    masterXprv
+    treasuryAddress
   );
 }
 
 /**
- * Estimate gas for sweeping (for pre-funding deposit addresses with POL)
+ * Estimate gas for sweeping (for pre-funding deposit addresses with native gas)
+ * Cost is in the chain's native token (POL on Polygon, ETH on Base / Arbitrum)
  */
-export async function estimateSweepGas(): Promise<{
+export async function estimateSweepGas(chain: ChainKey = DEFAULT_CHAIN): Promise<{
   gasLimit: string;
   estimatedCostMatic: string;
 }> {
@@ -348,8 +329,7 @@ export async function estimateSweepGas(): Promise<{
   const estimatedGasLimit = 100000;
 
   // Get current gas price
-  const rpcUrl = process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com';
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const provider = getChainProvider(chain);
   const feeData = await provider.getFeeData();
 
   const maxFeePerGas = feeData.maxFeePerGas || ethers.parseUnits('100', 'gwei');
@@ -362,33 +342,35 @@ export async function estimateSweepGas(): Promise<{
 }
 
 /**
- * Fund a deposit address with POL for gas (from gas tank)
+ * Fund a deposit address with native gas (from the chain's gas tank)
  * POL is Polygon's native token (formerly MATIC)
  */
 export async function fundDepositForSweep(
   depositAddress: string,
-  amountPol: string = '0.15'
+  amountPol: string = '0.15',
+  chain: ChainKey = DEFAULT_CHAIN
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
   // Get gas tank private key
-  const gasTankPrivateKey = process.env.GAS_TANK_PRIVATE_KEY;
+  const gasTankPrivateKey = getGasTankPrivateKey(chain);
   if (!gasTankPrivateKey) {
     return { success: false, error: 'Gas tank not configured' };
   }
 
   try {
-    const rpcUrl = process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com';
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const provider = getChainProvider(chain);
     const wallet = new ethers.Wallet(gasTankPrivateKey, provider);
 
-    // Send POL for gas
-    const tx = await wallet.sendTransaction({
+    // Send native token for gas
+    const tx = await sendManagedTransaction(wallet, {
       to: depositAddress,
       value: ethers.parseEther(amountPol),
-    });
+      ...computeOutgoingFees(await provider.getFeeData(), chain),
+      gasLimit: 21000,
+    }, { wallet: 'gas_tank', chain, purpose: 'sweep_funding' });
 
     const receipt = await tx.wait();
 
-    console.log(`[SweepService] Funded ${depositAddress} with ${amountPol} POL, tx: ${receipt?.hash}`);
+    console.log(`[SweepService] Funded ${depositAddress} with ${amountPol} ${getChain(chain).nativeSymbol}, tx: ${receipt?.hash}`);
 
     return {
       success: true,
@@ -6,6 +6,7 @@
 import { ethers } from 'ethers';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { registerAddressWithAlchemy } from '@/lib/alchemy/notify-service';
+import { getKeyCustody } from '@/lib/custody/key-custody';
 
 export interface TreasurySettings {
   treasuryWalletAddress: string;
@@ -15,7 +16,13 @@ export interface TreasurySettings {
 
 export interface PayoutWalletSettings {
   payoutWalletAddress: string;
-  payoutWalletPrivateKey: string;
+  // The key itself lives in key custody and is never read back
+  hasPayoutPrivateKey: boolean;
+}
+
+export interface PayoutWalletSettingsUpdate {
+  payoutWalletAddress?: string;
+  payoutWalletPrivateKey?: string;
 }
 
 export interface DepositAddressResult {
@@ -747,78 +754,79 @@ export async function isTreasuryConfigured(): Promise<boolean> {
 // =============================================
 
 /**
- * Get payout wallet settings from database
+ * Get payout wallet settings (address from database, key status from custody)
  */
 export async function getPayoutWalletSettings(): Promise<PayoutWalletSettings | null> {
   const supabase = createServiceRoleClient();
 
   const { data, error } = await supabase
     .from('treasury_settings')
-    .select('setting_key, setting_value')
-    .in('setting_key', ['payout_wallet_address', 'payout_wallet_private_key']);
+    .select('setting_value')
+    .eq('setting_key', 'payout_wallet_address')
+    .maybeSingle();
 
-  if (error || !data) {
+  if (error) {
     console.error('[TreasuryService] Failed to fetch payout wallet settings:', error);
     return null;
   }
 
-  const settings: Record<string, string> = {};
-  for (const row of data) {
-    settings[row.setting_key] = row.setting_value;
-  }
+  const keyInfo = await getKeyCustody().getKeyInfo('payout_wallet');
 
   return {
-    payoutWalletAddress: settings['payout_wallet_address'] || '',
-    payoutWalletPrivateKey: settings['payout_wallet_private_key'] || '',
+    payoutWalletAddress: data?.setting_value || '',
+    hasPayoutPrivateKey: !!keyInfo,
   };
 }
 
 /**
  * Update payout wallet settings
+ * The private key goes to key custody (encrypted), not treasury_settings
  */
 export async function updatePayoutWalletSettings(
-  settings: Partial<PayoutWalletSettings>,
+  settings: PayoutWalletSettingsUpdate,
   updatedBy: string
 ): Promise<{ success: boolean; error?: string }> {
   const supabase = createServiceRoleClient();
 
-  const updates: { key: string; value: string }[] = [];
+  const updatedFields: string[] = [];
 
   if (settings.payoutWalletAddress !== undefined) {
     // Validate address format
     if (settings.payoutWalletAddress && !isValidEthereumAddress(settings.payoutWalletAddress)) {
       return { success: false, error: 'Invalid payout wallet address format' };
     }
-    updates.push({ key: 'payout_wallet_address', value: settings.payoutWalletAddress });
+
+    const { error } = await supabase
+      .from('treasury_settings')
+      .update({
+        setting_value: settings.payoutWalletAddress,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('setting_key', 'payout_wallet_address');
+
+    if (error) {
+      console.error('[TreasuryService] Failed to update payout_wallet_address:', error);
+      return { success: false, error: 'Failed to update payout_wallet_address' };
+    }
+    updatedFields.push('payout_wallet_address');
   }
 
-  if (settings.payoutWalletPrivateKey !== undefined) {
+  if (settings.payoutWalletPrivateKey) {
     // Validate private key format (basic check - should start with 0x and be 66 chars)
-    if (settings.payoutWalletPrivateKey && !isValidPrivateKey(settings.payoutWalletPrivateKey)) {
+    if (!isValidPrivateKey(settings.payoutWalletPrivateKey)) {
       return { success: false, error: 'Invalid private key format. Must be a 64-character hex string (with or without 0x prefix)' };
     }
     // Normalize private key to include 0x prefix
     const normalizedKey = settings.payoutWalletPrivateKey.startsWith('0x')
       ? settings.payoutWalletPrivateKey
       : `0x${settings.payoutWalletPrivateKey}`;
-    updates.push({ key: 'payout_wallet_private_key', value: normalizedKey });
-  }
-
-  // Update each setting
-  for (const update of updates) {
-    const { error } = await supabase
-      .from('treasury_settings')
-      .update({
-        setting_value: update.value,
-        updated_by: updatedBy,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('setting_key', update.key);
 
-    if (error) {
-      console.error(`[TreasuryService] Failed to update ${update.key}:`, error);
-      return { success: false, error: `Failed to update ${update.key}` };
+    const stored = await getKeyCustody().storeKey('payout_wallet', normalizedKey, updatedBy);
+    if (!stored.success) {
+      return { success: false, error: stored.error || 'Failed to store payout wallet key' };
     }
+    updatedFields.push('payout_wallet_key');
   }
 
   // Log audit event
@@ -828,7 +836,7 @@ export async function updatePayoutWalletSettings(
     entity_type: 'payout_wallet',
     entity_id: null,
     details: {
-      updated_fields: updates.map(u => u.key),
+      updated_fields: updatedFields,
       // Never log the actual private key
     },
   });
@@ -837,7 +845,7 @@ export async function updatePayoutWalletSettings(
 }
 
 /**
- * Check if payout wallet is properly configured in database
+ * Check if payout wallet is properly configured (address set, key in custody)
  */
 export async function isPayoutWalletConfiguredInDb(): Promise<boolean> {
   const settings = await getPayoutWalletSettings();
@@ -846,9 +854,8 @@ export async function isPayoutWalletConfiguredInDb(): Promise<boolean> {
 
   return !!(
     settings.payoutWalletAddress &&
-    settings.payoutWalletPrivateKey &&
-    isValidEthereumAddress(settings.payoutWalletAddress) &&
-    isValidPrivateKey(settings.payoutWalletPrivateKey)
+    settings.hasPayoutPrivateKey &&
+    isValidEthereumAddress(settings.payoutWalletAddress)
   );
 }
 
@@ -866,21 +873,6 @@ export async function getPayoutWalletAddress(): Promise<string> {
   return process.env.PAYOUT_WALLET_ADDRESS || process.env.PLATFORM_TREASURY_WALLET_ADDRESS || '';
 }
 
-/**
- * Get payout wallet private key (from DB first, then env var fallback)
- * WARNING: Handle with care - this returns sensitive data
- */
-export async function getPayoutWalletPrivateKey(): Promise<string> {
-  // Try database first
-  const dbSettings = await getPayoutWalletSettings();
-  if (dbSettings?.payoutWalletPrivateKey) {
-    return dbSettings.payoutWalletPrivateKey;
-  }
-
-  // Fall back to env var
-  return process.env.PAYOUT_WALLET_PRIVATE_KEY || process.env.PLATFORM_TREASURY_PRIVATE_KEY || '';
-}
-
 // =============================================
 // Helper Functions
 // =============================================
@@ -0,0 +1,667 @@
+/**
+ * Withdrawal Request Service
+ * Member-initiated payout of their available balance.
+ *
+ * Available balance is the member's pending/failed commissions that are not
+ * in a payout batch, not reserved by another request and not waiting on a
+ * broadcast transfer. A request reserves those commissions (oldest first, up
+ * to the daily/monthly limits) until an admin reviews it:
+ *   approve - commissions stay reserved and are paid through the normal payout
+ *             routes, which still apply multi-signature approval
+ *   reject  - commissions are released back to the regular payout run
+ * Eligibility follows canWithdrawEarnings; members also can't request while a
+ * recently changed payout wallet is cooling off.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getTreasurySetting } from './treasury-service';
+import { getCurrentCompensationPlan } from '@/lib/compensation/plan-service';
+import { evaluateMemberCommission } from '@/lib/compensation/plan-engine';
+import { canWithdrawEarnings } from '@/lib/network-positions';
+import { WITHDRAWAL_LIMITS } from '@/lib/coinbase/wallet-types';
+
+export type WithdrawalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface WithdrawalLimits {
+  minimumUsd: number;
+  dailyLimitUsd: number;
+  monthlyLimitUsd: number;
+  walletCooldownHours: number;
+}
+
+export interface WithdrawalRequest {
+  id: string;
+  user_id: string;
+  amount_usdc: string;
+  wallet_address: string;
+  commission_ids: string[];
+  status: WithdrawalStatus;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  mfa_verified_at: string;
+  created_at: string;
+}
+
+export interface WithdrawalOverview {
+  canWithdraw: boolean;
+  referralDeficit: number;
+  payoutWalletAddress: string | null;
+  walletCooldownEndsAt: string | null;
+  limits: WithdrawalLimits;
+  usedTodayUsdc: number;
+  usedThisMonthUsdc: number;
+  availableUsdc: number;
+  // What a request made now would cover (available, capped by the limits)
+  requestableUsdc: number;
+  pendingRequest: WithdrawalRequest | null;
+  // Why a request can't be made right now; empty when it can
+  blockers: string[];
+}
+
+export type WithdrawalResult =
+  | { success: true; request: WithdrawalRequest }
+  | { success: false; error: string };
+
+interface AvailableCommission {
+  id: string;
+  amountUsdc: number;
+}
+
+const DEFAULT_LIMITS: WithdrawalLimits = {
+  minimumUsd: parseFloat(WITHDRAWAL_LIMITS.MINIMUM_WITHDRAWAL),
+  dailyLimitUsd: parseFloat(WITHDRAWAL_LIMITS.DAILY_MAX_USDC),
+  monthlyLimitUsd: 25000,
+  walletCooldownHours: 48,
+};
+
+// Requests that count against the limits
+const COUNTED_STATUSES: WithdrawalStatus[] = ['pending', 'approved'];
+
+const REQUEST_COLUMNS =
+  'id, user_id, amount_usdc, wallet_address, commission_ids, status, rejection_reason, reviewed_by, reviewed_at, mfa_verified_at, created_at';
+
+function parseSetting(value: string | null, fallback: number): number {
+  const parsed = value === null ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function roundUsdc(amount: number): number {
+  return Math.round(amount * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Current withdrawal limits from treasury_settings
+ */
+export async function getWithdrawalLimits(): Promise<WithdrawalLimits> {
+  const [minimum, daily, monthly, cooldown] = await Promise.all([
+    getTreasurySetting('withdrawal_minimum_usd'),
+    getTreasurySetting('withdrawal_daily_limit_usd'),
+    getTreasurySetting('withdrawal_monthly_limit_usd'),
+    getTreasurySetting('withdrawal_wallet_cooldown_hours'),
+  ]);
+
+  return {
+    minimumUsd: parseSetting(minimum, DEFAULT_LIMITS.minimumUsd),
+    dailyLimitUsd: parseSetting(daily, DEFAULT_LIMITS.dailyLimitUsd),
+    monthlyLimitUsd: parseSetting(monthly, DEFAULT_LIMITS.monthlyLimitUsd),
+    walletCooldownHours: parseSetting(cooldown, DEFAULT_LIMITS.walletCooldownHours),
+  };
+}
+
+/**
+ * Commissions a new request could reserve, oldest first
+ */
+async function getAvailableCommissions(userId: string): Promise<AvailableCommission[]> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('commissions')
+    .select('id, amount, net_amount_usdc, error_message')
+    .eq('referrer_id', userId)
+    .in('status', ['pending', 'failed'])
+    .is('payout_batch_id', null)
+    .is('withdrawal_request_id', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[WithdrawalService] Failed to fetch available commissions:', error);
+    return [];
+  }
+
+  return (data || [])
+    // A broadcast transfer may still land; never offer it again
+    .filter((c) => !/broadcast, awaiting confirmation/.test(c.error_message || ''))
+    .map((c) => ({ id: c.id, amountUsdc: parseFloat(c.net_amount_usdc || c.amount) }));
+}
+
+/**
+ * Requested totals (pending + approved) since the start of the UTC day and month
+ */
+async function getRequestedTotals(userId: string): Promise<{ today: number; month: number }> {
+  const supabase = createServiceRoleClient();
+  const now = new Date();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const { data } = await supabase
+    .from('withdrawal_requests')
+    .select('amount_usdc, created_at')
+    .eq('user_id', userId)
+    .in('status', COUNTED_STATUSES)
+    .gte('created_at', monthStart.toISOString());
+
+  let today = 0;
+  let month = 0;
+  for (const row of data || []) {
+    const amount = parseFloat(row.amount_usdc);
+    month += amount;
+    if (new Date(row.created_at) >= dayStart) today += amount;
+  }
+
+  return { today: roundUsdc(today), month: roundUsdc(month) };
+}
+
+/**
+ * Withdrawal eligibility from the compensation plan in effect this month
+ */
+async function getEligibility(userId: string): Promise<{
+  canWithdraw: boolean;
+  referralDeficit: number;
+  payoutWalletAddress: string | null;
+  payoutWalletSetAt: string | null;
+} | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('is_active, bypass_subscription, bypass_direct_referrals, active_network_count, sniper_volume_current_month, payout_wallet_address, payout_wallet_set_at')
+    .eq('id', userId)
+    .single();
+
+  if (!user) return null;
+
+  const { count: directReferrals } = await supabase
+    .from('users')
+    .select('id', { count: 'exact', head: true })
+    .eq('referred_by', userId);
+
+  const plan = await getCurrentCompensationPlan();
+  const evaluation = evaluateMemberCommission(plan, {
+    sniperVolume: user.sniper_volume_current_month || 0,
+    activeNetworkCount: user.active_network_count || 0,
+    directReferrals: Math.max(directReferrals || 0, user.bypass_direct_referrals || 0),
+    isActive: !!(user.is_active || user.bypass_subscription),
+  });
+
+  const { canWithdraw, referralDeficit } = canWithdrawEarnings({
+    isActive: !!user.is_active,
+    bypassSubscription: !!user.bypass_subscription,
+    directReferrals: directReferrals || 0,
+    bypassDirectReferrals: user.bypass_direct_referrals || 0,
+    requiredDirectReferrals: evaluation.requiredDirectReferrals,
+  });
+
+  return {
+    canWithdraw,
+    referralDeficit,
+    payoutWalletAddress: user.payout_wallet_address || null,
+    payoutWalletSetAt: user.payout_wallet_set_at || null,
+  };
+}
+
+/**
+ * Pick commissions oldest first while they fit under the cap
+ */
+function selectCommissions(available: AvailableCommission[], capUsdc: number): { ids: string[]; total: number } {
+  const ids: string[] = [];
+  let total = 0;
+  for (const commission of available) {
+    if (total + commission.amountUsdc > capUsdc + 0.000001) break;
+    ids.push(commission.id);
+    total += commission.amountUsdc;
+  }
+  return { ids, total: roundUsdc(total) };
+}
+
+/**
+ * Everything the member's withdrawal card needs
+ */
+export async function getWithdrawalOverview(userId: string): Promise<WithdrawalOverview | null> {
+  const supabase = createServiceRoleClient();
+
+  const [eligibility, limits, totals, available, pending] = await Promise.all([
+    getEligibility(userId),
+    getWithdrawalLimits(),
+    getRequestedTotals(userId),
+    getAvailableCommissions(userId),
+    supabase
+      .from('withdrawal_requests')
+      .select(REQUEST_COLUMNS)
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .maybeSingle(),
+  ]);
+
+  if (!eligibility) return null;
+
+  const availableUsdc = roundUsdc(available.reduce((sum, c) => sum + c.amountUsdc, 0));
+  const capUsdc = Math.max(
+    0,
+    Math.min(limits.dailyLimitUsd - totals.today, limits.monthlyLimitUsd - totals.month)
+  );
+  const requestableUsdc = selectCommissions(available, capUsdc).total;
+
+  let walletCooldownEndsAt: string | null = null;
+  if (eligibility.payoutWalletSetAt) {
+    const endsAt = new Date(eligibility.payoutWalletSetAt).getTime() + limits.walletCooldownHours * 3600_000;
+    if (endsAt > Date.now()) walletCooldownEndsAt = new Date(endsAt).toISOString();
+  }
+
+  const blockers: string[] = [];
+  if (!eligibility.canWithdraw) {
+    blockers.push(
+      eligibility.referralDeficit > 0
+        ? `Need ${eligibility.referralDeficit} more direct referral${eligibility.referralDeficit !== 1 ? 's' : ''} to withdraw`
+        : 'Account not active (subscription payment required)'
+    );
+  }
+  if (!eligibility.payoutWalletAddress) {
+    blockers.push('Set a payout wallet before requesting a withdrawal');
+  }
+  if (walletCooldownEndsAt) {
+    blockers.push(`Payout wallet was changed recently; withdrawals reopen ${new Date(walletCooldownEndsAt).toUTCString()}`);
+  }
+  if (pending.data) {
+    blockers.push('You already have a withdrawal request awaiting review');
+  }
+  if (availableUsdc < limits.minimumUsd) {
+    blockers.push(`Available balance is below the $${limits.minimumUsd.toFixed(2)} minimum`);
+  } else if (requestableUsdc < limits.minimumUsd) {
+    blockers.push('Daily or monthly withdrawal limit reached');
+  }
+
+  return {
+    canWithdraw: eligibility.canWithdraw,
+    referralDeficit: eligibility.referralDeficit,
+    payoutWalletAddress: eligibility.payoutWalletAddress,
+    walletCooldownEndsAt,
+    limits,
+    usedTodayUsdc: totals.today,
+    usedThisMonthUsdc: totals.month,
+    availableUsdc,
+    requestableUsdc,
+    pendingRequest: (pending.data as WithdrawalRequest | null) ?? null,
+    blockers,
+  };
+}
+
+/**
+ * A member's recent requests, newest first
+ */
+export async function listMemberWithdrawalRequests(userId: string, limit: number = 20): Promise<WithdrawalRequest[]> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('withdrawal_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[WithdrawalService] Failed to fetch withdrawal requests:', error);
+    return [];
+  }
+
+  return (data || []) as WithdrawalRequest[];
+}
+
+export interface WithdrawalQueueItem extends WithdrawalRequest {
+  member: { name: string | null; email: string | null; currentWalletAddress: string | null };
+  // Reserved commissions still to pay (approved requests are paid from these)
+  unpaidCommissionIds: string[];
+  paidCommissions: number;
+}
+
+/**
+ * Requests for the admin queue, oldest first, with payout progress
+ */
+export async function listWithdrawalQueue(status: WithdrawalStatus, limit: number = 100): Promise<WithdrawalQueueItem[]> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('withdrawal_requests')
+    .select(`
+      ${REQUEST_COLUMNS},
+      users!withdrawal_requests_user_id_fkey (
+        name,
+        email,
+        payout_wallet_address
+      )
+    `)
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .limit(limit);
+
+  if (error) {
+    console.error('[WithdrawalService] Failed to fetch withdrawal queue:', error);
+    return [];
+  }
+
+  const requests = data || [];
+  const allCommissionIds = requests.flatMap((r) => r.commission_ids as string[]);
+  const { data: commissions } = allCommissionIds.length > 0
+    ? await supabase
+        .from('commissions')
+        .select('id, status, withdrawal_request_id')
+        .in('id', allCommissionIds)
+    : { data: [] };
+
+  return requests.map((row) => {
+    const { users, ...request } = row;
+    const user = Array.isArray(users) ? users[0] : users;
+    const own = (commissions || []).filter((c) => c.withdrawal_request_id === row.id);
+    return {
+      ...(request as WithdrawalRequest),
+      member: {
+        name: user?.name ?? null,
+        email: user?.email ?? null,
+        currentWalletAddress: user?.payout_wallet_address ?? null,
+      },
+      unpaidCommissionIds: own.filter((c) => c.status !== 'paid').map((c) => c.id),
+      paidCommissions: own.filter((c) => c.status === 'paid').length,
+    };
+  });
+}
+
+/**
+ * Request payout of the member's available balance (up to the limits)
+ * The caller must have re-verified 2FA; mfaVerifiedAt is recorded on the request.
+ */
+export async function createWithdrawalRequest(userId: string, mfaVerifiedAt: string): Promise<WithdrawalResult> {
+  const overview = await getWithdrawalOverview(userId);
+  if (!overview) return { success: false, error: 'User not found' };
+  if (overview.blockers.length > 0) return { success: false, error: overview.blockers[0] };
+
+  const capUsdc = Math.min(
+    overview.limits.dailyLimitUsd - overview.usedTodayUsdc,
+    overview.limits.monthlyLimitUsd - overview.usedThisMonthUsdc
+  );
+  const selected = selectCommissions(await getAvailableCommissions(userId), capUsdc);
+  if (selected.total < overview.limits.minimumUsd) {
+    return { success: false, error: `Withdrawals must be at least $${overview.limits.minimumUsd.toFixed(2)}` };
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: request, error: insertError } = await supabase
+    .from('withdrawal_requests')
+    .insert({
+      user_id: userId,
+      amount_usdc: selected.total.toFixed(6),
+      wallet_address: overview.payoutWalletAddress,
+      commission_ids: selected.ids,
+      mfa_verified_at: mfaVerifiedAt,
+    })
+    .select(REQUEST_COLUMNS)
+    .single();
+
+  if (insertError || !request) {
+    if (insertError?.code === '23505') {
+      return { success: false, error: 'You already have a withdrawal request awaiting review' };
+    }
+    console.error('[WithdrawalService] Failed to create withdrawal request:', insertError);
+    return { success: false, error: 'Failed to create withdrawal request' };
+  }
+
+  // Reserve the commissions; the guards skip any that an admin batched or
+  // paid since they were read
+  const { data: reserved } = await supabase
+    .from('commissions')
+    .update({ withdrawal_request_id: request.id })
+    .in('id', selected.ids)
+    .in('status', ['pending', 'failed'])
+    .is('payout_batch_id', null)
+    .is('withdrawal_request_id', null)
+    .select('id, amount, net_amount_usdc');
+
+  const reservedTotal = roundUsdc(
+    (reserved || []).reduce((sum, c) => sum + parseFloat(c.net_amount_usdc || c.amount), 0)
+  );
+
+  if (!reserved || reserved.length === 0 || reservedTotal < overview.limits.minimumUsd) {
+    await supabase.from('commissions').update({ withdrawal_request_id: null }).eq('withdrawal_request_id', request.id);
+    await supabase.from('withdrawal_requests').delete().eq('id', request.id);
+    return { success: false, error: 'Your balance changed while requesting; please try again' };
+  }
+
+  let finalRequest = request as WithdrawalRequest;
+  if (reserved.length !== selected.ids.length) {
+    const { data: updated } = await supabase
+      .from('withdrawal_requests')
+      .update({
+        amount_usdc: reservedTotal.toFixed(6),
+        commission_ids: reserved.map((c) => c.id),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', request.id)
+      .select(REQUEST_COLUMNS)
+      .single();
+    if (updated) finalRequest = updated as WithdrawalRequest;
+  }
+
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'withdrawal_requested',
+    user_id: userId,
+    entity_type: 'withdrawal_request',
+    entity_id: request.id,
+    details: {
+      amount_usdc: finalRequest.amount_usdc,
+      wallet_address: finalRequest.wallet_address,
+      commission_count: finalRequest.commission_ids.length,
+      mfa_verified_at: mfaVerifiedAt,
+    },
+  });
+
+  return { success: true, request: finalRequest };
+}
+
+/**
+ * Move a pending request to a final status and release its commissions
+ */
+async function closePendingRequest(
+  requestId: string,
+  status: 'rejected' | 'cancelled',
+  fields: { reviewed_by?: string; rejection_reason?: string }
+): Promise<WithdrawalResult> {
+  const supabase = createServiceRoleClient();
+  const now = new Date().toISOString();
+
+  const { data: closed, error } = await supabase
+    .from('withdrawal_requests')
+    .update({
+      status,
+      ...fields,
+      reviewed_at: fields.reviewed_by ? now : null,
+      updated_at: now,
+    })
+    .eq('id', requestId)
+    .eq('status', 'pending')
+    .select(REQUEST_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[WithdrawalService] Failed to mark request ${status}:`, error);
+    return { success: false, error: 'Failed to update withdrawal request' };
+  }
+  if (!closed) {
+    return { success: false, error: 'Withdrawal request is no longer pending' };
+  }
+
+  await supabase
+    .from('commissions')
+    .update({ withdrawal_request_id: null })
+    .eq('withdrawal_request_id', requestId);
+
+  return { success: true, request: closed as WithdrawalRequest };
+}
+
+/**
+ * Member cancels their own pending request
+ */
+export async function cancelWithdrawalRequest(userId: string, requestId: string): Promise<WithdrawalResult> {
+  const supabase = createServiceRoleClient();
+
+  const { data: request } = await supabase
+    .from('withdrawal_requests')
+    .select('id, user_id')
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (!request || request.user_id !== userId) {
+    return { success: false, error: 'Withdrawal request not found' };
+  }
+
+  const result = await closePendingRequest(requestId, 'cancelled', {});
+  if (!result.success) return result;
+
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'withdrawal_cancelled',
+    user_id: userId,
+    entity_type: 'withdrawal_request',
+    entity_id: requestId,
+    details: { amount_usdc: result.request.amount_usdc },
+  });
+
+  return result;
+}
+
+/**
+ * Admin approves a pending request
+ * The reserved commissions are then paid through the payout routes.
+ */
+export async function approveWithdrawalRequest(requestId: string, adminId: string): Promise<WithdrawalResult> {
+  const supabase = createServiceRoleClient();
+
+  const { data: request } = await supabase
+    .from('withdrawal_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (!request) return { success: false, error: 'Withdrawal request not found' };
+  if (request.status !== 'pending') return { success: false, error: 'Withdrawal request is no longer pending' };
+  if (request.user_id === adminId) return { success: false, error: 'You cannot approve your own withdrawal request' };
+
+  // Funds go to the member's current wallet; refuse if it isn't the one they requested to
+  const { data: member } = await supabase
+    .from('users')
+    .select('payout_wallet_address')
+    .eq('id', request.user_id)
+    .single();
+
+  if (member?.payout_wallet_address?.toLowerCase() !== request.wallet_address.toLowerCase()) {
+    return { success: false, error: 'Member changed their payout wallet after requesting; reject this request instead' };
+  }
+
+  const { count: reservedCount } = await supabase
+    .from('commissions')
+    .select('id', { count: 'exact', head: true })
+    .eq('withdrawal_request_id', requestId)
+    .in('status', ['pending', 'failed']);
+
+  if (!reservedCount) {
+    return { success: false, error: 'None of the requested commissions are still payable; reject this request instead' };
+  }
+
+  const now = new Date().toISOString();
+  const { data: approved, error } = await supabase
+    .from('withdrawal_requests')
+    .update({ status: 'approved', reviewed_by: adminId, reviewed_at: now, updated_at: now })
+    .eq('id', requestId)
+    .eq('status', 'pending')
+    .select(REQUEST_COLUMNS)
+    .maybeSingle();
+
+  if (error || !approved) {
+    return { success: false, error: 'Withdrawal request is no longer pending' };
+  }
+
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'withdrawal_approved',
+    user_id: request.user_id,
+    admin_id: adminId,
+    entity_type: 'withdrawal_request',
+    entity_id: requestId,
+    details: {
+      amount_usdc: request.amount_usdc,
+      wallet_address: request.wallet_address,
+      payable_commissions: reservedCount,
+    },
+  });
+
+  return { success: true, request: approved as WithdrawalRequest };
+}
+
+/**
+ * Admin rejects a pending request; the reason is shown to the member
+ */
+export async function rejectWithdrawalRequest(
+  requestId: string,
+  adminId: string,
+  reason: string | undefined
+): Promise<WithdrawalResult> {
+  const trimmed = (reason || '').trim();
+  if (!trimmed) {
+    return { success: false, error: 'A reason is required to reject a withdrawal request' };
+  }
+
+  const result = await closePendingRequest(requestId, 'rejected', {
+    reviewed_by: adminId,
+    rejection_reason: trimmed,
+  });
+  if (!result.success) return result;
+
+  const supabase = createServiceRoleClient();
+  await supabase.from('crypto_audit_log').insert({
+    event_type: 'withdrawal_rejected',
+    user_id: result.request.user_id,
+    admin_id: adminId,
+    entity_type: 'withdrawal_request',
+    entity_id: requestId,
+    details: {
+      amount_usdc: result.request.amount_usdc,
+      reason: trimmed,
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Of these commissions, the ones reserved by a request still awaiting review
+ * Payout routes skip them until the request is approved or rejected.
+ */
+export async function getCommissionsAwaitingWithdrawalReview(commissionIds: string[]): Promise<Set<string>> {
+  if (commissionIds.length === 0) return new Set();
+
+  const supabase = createServiceRoleClient();
+
+  const { data: reserved } = await supabase
+    .from('commissions')
+    .select('id, withdrawal_request_id')
+    .in('id', commissionIds)
+    .not('withdrawal_request_id', 'is', null);
+
+  if (!reserved || reserved.length === 0) return new Set();
+
+  const { data: pendingRequests } = await supabase
+    .from('withdrawal_requests')
+    .select('id')
+    .in('id', [...new Set(reserved.map((c) => c.withdrawal_request_id as string))])
+    .eq('status', 'pending');
+
+  const pendingIds = new Set((pendingRequests || []).map((r) => r.id));
+  return new Set(reserved.filter((c) => pendingIds.has(c.withdrawal_request_id)).map((c) => c.id));
+}
@@ -0,0 +1,24 @@
+/**
+ * Notification Locale Check
+ *
+ * Flags notification template keys present in one locale file
+ * (locales/notifications/*.json) but missing from another.
+ * Exits non-zero when any are found.
+ *
+ * Usage: npm run check-notification-locales
+ */
+
+import { findMissingNotificationKeys } from "../lib/notifications/i18n"
+
+const missing = findMissingNotificationKeys()
+
+if (missing.length === 0) {
+  console.log("✅ Notification locales are in sync")
+  process.exit(0)
+}
+
+for (const { key, missingIn } of missing) {
+  console.error(`❌ ${key} is missing from locales/notifications/${missingIn}.json`)
+}
+console.error(`\n${missing.length} missing notification translation(s)`)
+process.exit(1)
@@ -0,0 +1,431 @@
+-- =============================================
+-- Double-entry ledger for USDC money movement
+--
+-- Every movement of funds (deposit received, payment applied, sweep to
+-- treasury, commission accrued, treasury to payout wallet, commission paid,
+-- gas funding) is posted as a journal entry whose postings must balance per
+-- currency. Balances for any account are derived from postings only, so the
+-- finance view can never drift from the audit trail.
+--
+-- Chart of accounts:
+--   deposit:<address>    asset      USDC held at a member's HD deposit address
+--   treasury             asset      USDC swept into the treasury wallet
+--   payout_wallet        asset      USDC held by the payout hot wallet
+--   gas_tank             asset      POL held by the gas tank
+--   unapplied_deposits   liability  member funds received, not yet applied to a payment
+--   commissions_payable  liability  commissions owed to members
+--   platform_revenue     revenue    payments applied, net of commissions accrued
+--   network_fees         expense    POL spent on gas
+-- =============================================
+
+-- -----------------------------------------
+-- 1. Tables
+-- -----------------------------------------
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_code  TEXT UNIQUE NOT NULL,
+  account_type  TEXT NOT NULL CHECK (account_type IN ('asset', 'liability', 'revenue', 'expense')),
+  currency      TEXT NOT NULL DEFAULT 'USDC' CHECK (currency IN ('USDC', 'POL')),
+  name          TEXT NOT NULL,
+  user_id       UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  address       TEXT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_user_id ON public.ledger_accounts(user_id) WHERE user_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type       TEXT NOT NULL CHECK (entry_type IN (
+    'deposit_received',
+    'payment_applied',
+    'deposit_swept',
+    'commission_accrued',
+    'commission_cancelled',
+    'commission_paid',
+    'payout_wallet_funded',
+    'gas_funding',
+    'manual_adjustment'
+  )),
+  description      TEXT,
+  reference_type   TEXT,
+  reference_id     TEXT,
+  idempotency_key  TEXT UNIQUE,
+  tx_hash          TEXT,
+  created_by       UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_created_at ON public.ledger_entries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_reference ON public.ledger_entries(reference_type, reference_id);
+
+CREATE TABLE IF NOT EXISTS public.ledger_postings (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id    UUID NOT NULL REFERENCES public.ledger_entries(id) ON DELETE RESTRICT,
+  account_id  UUID NOT NULL REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT,
+  direction   TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount      NUMERIC(20,6) NOT NULL CHECK (amount > 0),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry_id ON public.ledger_postings(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_account_id ON public.ledger_postings(account_id);
+
+-- System accounts
+INSERT INTO public.ledger_accounts (account_code, account_type, currency, name) VALUES
+  ('treasury',            'asset',     'USDC', 'Treasury wallet'),
+  ('payout_wallet',       'asset',     'USDC', 'Payout wallet'),
+  ('gas_tank',            'asset',     'POL',  'Gas tank'),
+  ('unapplied_deposits',  'liability', 'USDC', 'Unapplied member deposits'),
+  ('commissions_payable', 'liability', 'USDC', 'Commissions payable'),
+  ('platform_revenue',    'revenue',   'USDC', 'Platform revenue'),
+  ('network_fees',        'expense',   'POL',  'Network fees')
+ON CONFLICT (account_code) DO NOTHING;
+
+-- -----------------------------------------
+-- 2. Invariants: entries balance, history is append-only
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.ledger_check_entry_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+DECLARE
+  v_unbalanced RECORD;
+BEGIN
+  SELECT a.currency,
+         SUM(CASE WHEN p.direction = 'debit'  THEN p.amount ELSE 0 END) AS debits,
+         SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE 0 END) AS credits
+  INTO v_unbalanced
+  FROM public.ledger_postings p
+  JOIN public.ledger_accounts a ON a.id = p.account_id
+  WHERE p.entry_id = NEW.entry_id
+  GROUP BY a.currency
+  HAVING SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END) <> 0
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Ledger entry % does not balance in %: debits %, credits %',
+      NEW.entry_id, v_unbalanced.currency, v_unbalanced.debits, v_unbalanced.credits;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- Deferred so every posting of an entry is inserted before the check runs.
+DROP TRIGGER IF EXISTS ledger_postings_balanced ON public.ledger_postings;
+CREATE CONSTRAINT TRIGGER ledger_postings_balanced
+  AFTER INSERT ON public.ledger_postings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.ledger_check_entry_balanced();
+
+CREATE OR REPLACE FUNCTION public.ledger_prevent_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  RAISE EXCEPTION 'Ledger history is append-only; post a reversing entry instead';
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION public.ledger_prevent_mutation();
+
+DROP TRIGGER IF EXISTS ledger_postings_append_only ON public.ledger_postings;
+CREATE TRIGGER ledger_postings_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_postings
+  FOR EACH ROW EXECUTE FUNCTION public.ledger_prevent_mutation();
+
+-- -----------------------------------------
+-- 3. RPC: post_ledger_entry
+-- Lines: [{ account_code, direction, amount, account_type?, currency?, name?, user_id?, address? }]
+-- Unknown account codes are created from the metadata on the line (used for
+-- per-member deposit address accounts). Returns the entry id; a repeated
+-- idempotency key returns the original entry without posting again.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.post_ledger_entry(
+  p_entry_type      TEXT,
+  p_lines           JSONB,
+  p_description     TEXT DEFAULT NULL,
+  p_reference_type  TEXT DEFAULT NULL,
+  p_reference_id    TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_tx_hash         TEXT DEFAULT NULL,
+  p_created_by      UUID DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_entry_id   UUID;
+  v_line       JSONB;
+  v_account_id UUID;
+  v_amount     NUMERIC(20,6);
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_entry_id FROM public.ledger_entries WHERE idempotency_key = p_idempotency_key;
+    IF v_entry_id IS NOT NULL THEN
+      RETURN v_entry_id;
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'A ledger entry needs at least two postings';
+  END IF;
+
+  INSERT INTO public.ledger_entries (
+    entry_type, description, reference_type, reference_id, idempotency_key, tx_hash, created_by
+  ) VALUES (
+    p_entry_type, p_description, p_reference_type, p_reference_id, p_idempotency_key, p_tx_hash, p_created_by
+  )
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_amount := (v_line->>'amount')::NUMERIC(20,6);
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Ledger posting amount must be positive (account %)', v_line->>'account_code';
+    END IF;
+
+    SELECT id INTO v_account_id FROM public.ledger_accounts WHERE account_code = v_line->>'account_code';
+
+    IF v_account_id IS NULL THEN
+      IF v_line->>'account_type' IS NULL THEN
+        RAISE EXCEPTION 'Unknown ledger account %', v_line->>'account_code';
+      END IF;
+
+      INSERT INTO public.ledger_accounts (account_code, account_type, currency, name, user_id, address)
+      VALUES (
+        v_line->>'account_code',
+        v_line->>'account_type',
+        COALESCE(v_line->>'currency', 'USDC'),
+        COALESCE(v_line->>'name', v_line->>'account_code'),
+        NULLIF(v_line->>'user_id', '')::UUID,
+        v_line->>'address'
+      )
+      ON CONFLICT (account_code) DO UPDATE SET account_code = EXCLUDED.account_code
+      RETURNING id INTO v_account_id;
+    END IF;
+
+    INSERT INTO public.ledger_postings (entry_id, account_id, direction, amount)
+    VALUES (v_entry_id, v_account_id, v_line->>'direction', v_amount);
+  END LOOP;
+
+  RETURN v_entry_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.post_ledger_entry(TEXT, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------
+-- 4. Reporting: balances and integrity check
+-- -----------------------------------------
+CREATE OR REPLACE VIEW public.ledger_account_balances AS
+SELECT a.id,
+       a.account_code,
+       a.account_type,
+       a.currency,
+       a.name,
+       a.user_id,
+       a.address,
+       COALESCE(SUM(CASE WHEN p.direction = 'debit'  THEN p.amount ELSE 0 END), 0) AS total_debits,
+       COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE 0 END), 0) AS total_credits,
+       CASE WHEN a.account_type IN ('asset', 'expense')
+         THEN COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END), 0)
+         ELSE COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE -p.amount END), 0)
+       END AS balance
+FROM public.ledger_accounts a
+LEFT JOIN public.ledger_postings p ON p.account_id = a.id
+GROUP BY a.id;
+
+-- Returns every entry whose postings do not balance (should always be empty;
+-- the deferred trigger rejects them at write time) plus any entry with fewer
+-- than two postings.
+CREATE OR REPLACE FUNCTION public.check_ledger_integrity()
+RETURNS TABLE (
+  entry_id      UUID,
+  currency      TEXT,
+  total_debits  NUMERIC,
+  total_credits NUMERIC,
+  posting_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT e.id,
+         a.currency,
+         COALESCE(SUM(CASE WHEN p.direction = 'debit'  THEN p.amount ELSE 0 END), 0),
+         COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE 0 END), 0),
+         COUNT(p.id)
+  FROM public.ledger_entries e
+  LEFT JOIN public.ledger_postings p ON p.entry_id = e.id
+  LEFT JOIN public.ledger_accounts a ON a.id = p.account_id
+  GROUP BY e.id, a.currency
+  HAVING COUNT(p.id) < 2
+      OR SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END) <> 0;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.check_ledger_integrity() FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------
+-- 5. Commission accrual / cancellation
+-- Every commission row (direct bonus or monthly residual) is a liability the
+-- moment it is created, regardless of which code path inserted it. The amount
+-- owed is what the payout routes send: net_amount_usdc when set, else amount.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.ledger_post_commission_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_owed NUMERIC := COALESCE(NULLIF(NEW.net_amount_usdc, 0), NEW.amount);
+BEGIN
+  BEGIN
+    IF TG_OP = 'INSERT' AND NEW.status <> 'cancelled' AND v_owed > 0 THEN
+      PERFORM public.post_ledger_entry(
+        'commission_accrued',
+        jsonb_build_array(
+          jsonb_build_object('account_code', 'platform_revenue',    'direction', 'debit',  'amount', v_owed),
+          jsonb_build_object('account_code', 'commissions_payable', 'direction', 'credit', 'amount', v_owed)
+        ),
+        NEW.commission_type || ' commission for ' || NEW.referrer_id,
+        'commission',
+        NEW.id::TEXT,
+        'commission_accrued:' || NEW.id
+      );
+    ELSIF TG_OP = 'UPDATE' AND NEW.status = 'cancelled' AND OLD.status NOT IN ('cancelled', 'paid') AND v_owed > 0 THEN
+      PERFORM public.post_ledger_entry(
+        'commission_cancelled',
+        jsonb_build_array(
+          jsonb_build_object('account_code', 'commissions_payable', 'direction', 'debit',  'amount', v_owed),
+          jsonb_build_object('account_code', 'platform_revenue',    'direction', 'credit', 'amount', v_owed)
+        ),
+        'Cancelled ' || NEW.commission_type || ' commission for ' || NEW.referrer_id,
+        'commission',
+        NEW.id::TEXT,
+        'commission_cancelled:' || NEW.id
+      );
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    -- Never block the commission write; the gap shows up in the ledger view.
+    RAISE WARNING 'Ledger posting for commission % failed: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS commissions_ledger_posting ON public.commissions;
+CREATE TRIGGER commissions_ledger_posting
+  AFTER INSERT OR UPDATE OF status ON public.commissions
+  FOR EACH ROW EXECUTE FUNCTION public.ledger_post_commission_change();
+
+-- -----------------------------------------
+-- 6. distribute_to_upline_batch: recognise the subscription payment
+-- Every subscription path (webhook, deposit processor, intent flow) calls this
+-- once per applied payment, so it is where unapplied member funds become
+-- platform revenue. p_payment_id makes the posting idempotent; callers that
+-- omit it keep the previous behaviour and post nothing.
+-- -----------------------------------------
+DROP FUNCTION IF EXISTS public.distribute_to_upline_batch(uuid, numeric);
+
+CREATE OR REPLACE FUNCTION public.distribute_to_upline_batch(
+  p_user_id    uuid,
+  p_amount     numeric,
+  p_payment_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $function$
+DECLARE
+    user_position_id   TEXT;
+    distribution_count INTEGER;
+BEGIN
+    IF p_payment_id IS NOT NULL AND p_amount > 0 THEN
+        BEGIN
+            PERFORM public.post_ledger_entry(
+                'payment_applied',
+                jsonb_build_array(
+                    jsonb_build_object('account_code', 'unapplied_deposits', 'direction', 'debit',  'amount', p_amount),
+                    jsonb_build_object('account_code', 'platform_revenue',   'direction', 'credit', 'amount', p_amount)
+                ),
+                'Subscription payment from ' || p_user_id,
+                'payment',
+                p_payment_id::TEXT,
+                'payment_applied:' || p_payment_id
+            );
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'Ledger posting for payment % failed: %', p_payment_id, SQLERRM;
+        END;
+    END IF;
+
+    SELECT network_position_id INTO user_position_id
+    FROM public.users
+    WHERE id = p_user_id;
+
+    IF user_position_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    -- First 9 ACTIVE ancestors (closest first). Inactive ancestors are skipped
+    -- and do not consume a slot; the walk continues further up the chain.
+    WITH active_ancestors AS (
+        SELECT uc.user_id
+        FROM public.get_upline_chain(user_position_id) uc
+        JOIN public.users u ON u.id = uc.user_id
+        WHERE uc.user_id <> p_user_id
+          AND u.is_active = TRUE
+        ORDER BY uc.network_level DESC
+        LIMIT 9
+    )
+    UPDATE public.users
+    SET sniper_volume_current_month = sniper_volume_current_month + p_amount
+    WHERE id IN (SELECT user_id FROM active_ancestors);
+
+    GET DIAGNOSTICS distribution_count = ROW_COUNT;
+
+    RETURN distribution_count;
+END;
+$function$;
+
+-- -----------------------------------------
+-- 7. RLS: finance admins read, only SECURITY DEFINER functions write
+-- -----------------------------------------
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_postings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "finance_admins_read_ledger_accounts" ON public.ledger_accounts;
+CREATE POLICY "finance_admins_read_ledger_accounts"
+  ON public.ledger_accounts FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'superadmin+' OR 'view_financials' = ANY(permissions))
+  ));
+
+DROP POLICY IF EXISTS "finance_admins_read_ledger_entries" ON public.ledger_entries;
+CREATE POLICY "finance_admins_read_ledger_entries"
+  ON public.ledger_entries FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'superadmin+' OR 'view_financials' = ANY(permissions))
+  ));
+
+DROP POLICY IF EXISTS "finance_admins_read_ledger_postings" ON public.ledger_postings;
+CREATE POLICY "finance_admins_read_ledger_postings"
+  ON public.ledger_postings FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'superadmin+' OR 'view_financials' = ANY(permissions))
+  ));
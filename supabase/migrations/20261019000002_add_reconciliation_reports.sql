@@ -0,0 +1,75 @@
+-- =============================================
+-- On-chain vs. database reconciliation reports
+--
+-- A daily job scans USDC Transfer events for every deposit address, the
+-- treasury and the payout wallet over the block range since the previous
+-- report, matches them against usdc_transactions / payments / sweep audit
+-- events, and stores one report per day plus one row per discrepancy so the
+-- admin financials page can drill down per address.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.reconciliation_reports (
+  id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_date        DATE NOT NULL UNIQUE,
+  from_block         BIGINT NOT NULL,
+  to_block           BIGINT NOT NULL,
+  status             TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  addresses_checked  INTEGER NOT NULL DEFAULT 0,
+  transfers_scanned  INTEGER NOT NULL DEFAULT 0,
+  discrepancy_count  INTEGER NOT NULL DEFAULT 0,
+  -- Per-wallet on-chain vs. ledger balances and per-type discrepancy counts
+  summary            JSONB NOT NULL DEFAULT '{}',
+  error_message      TEXT,
+  triggered_by       UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  started_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at       TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_reports_date ON public.reconciliation_reports(report_date DESC);
+
+CREATE TABLE IF NOT EXISTS public.reconciliation_discrepancies (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id         UUID NOT NULL REFERENCES public.reconciliation_reports(id) ON DELETE CASCADE,
+  address           TEXT NOT NULL,
+  address_type      TEXT NOT NULL CHECK (address_type IN ('deposit', 'treasury', 'payout_wallet')),
+  user_id           UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  discrepancy_type  TEXT NOT NULL CHECK (discrepancy_type IN (
+    'missed_deposit',         -- on-chain transfer in with no usdc_transactions row
+    'duplicate_deposit',      -- same funds recorded more than once
+    'phantom_transaction',    -- DB row claims an on-chain transfer that doesn't exist
+    'unmatched_sweep',        -- transfer out of a deposit address with no sweep audit event
+    'swept_without_payment',  -- swept funds that were never linked to a payment
+    'unrecorded_outflow',     -- transfer out of the payout wallet with no payout row
+    'balance_drift'           -- on-chain minus ledger balance moved since the last report
+  )),
+  tx_hash           TEXT,
+  onchain_amount    NUMERIC(20,6),
+  recorded_amount   NUMERIC(20,6),
+  details           JSONB NOT NULL DEFAULT '{}',
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_report ON public.reconciliation_discrepancies(report_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_address ON public.reconciliation_discrepancies(address);
+
+ALTER TABLE public.reconciliation_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reconciliation_discrepancies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "finance_admins_read_reconciliation_reports" ON public.reconciliation_reports;
+CREATE POLICY "finance_admins_read_reconciliation_reports"
+  ON public.reconciliation_reports FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'superadmin+' OR 'view_financials' = ANY(permissions))
+  ));
+
+DROP POLICY IF EXISTS "finance_admins_read_reconciliation_discrepancies" ON public.reconciliation_discrepancies;
+CREATE POLICY "finance_admins_read_reconciliation_discrepancies"
+  ON public.reconciliation_discrepancies FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'superadmin+' OR 'view_financials' = ANY(permissions))
+  ));
+-- No write policies: only the service-role reconciliation job writes here.
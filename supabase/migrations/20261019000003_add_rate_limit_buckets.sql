@@ -0,0 +1,86 @@
+-- =============================================
+-- Persistent rate limiting
+--
+-- Serverless instances don't share memory, so the in-process rate limiter
+-- only ever saw a fraction of a client's requests. Counters now live here and
+-- are updated through one atomic RPC.
+--
+-- Sliding-window counter: each key keeps a bucket per fixed window, and a
+-- request is judged against
+--   previous_bucket * (share of the previous window still in range) + current_bucket
+-- which approximates a true sliding window with two rows per key.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  key           TEXT NOT NULL,
+  window_start  TIMESTAMPTZ NOT NULL,
+  hit_count     INTEGER NOT NULL DEFAULT 0,
+  -- Once past this, the bucket can't affect any window (two windows after start)
+  expires_at    TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires ON public.rate_limit_buckets(expires_at);
+
+-- Service role only: no policies
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_ms INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now_ms BIGINT := floor(extract(epoch FROM clock_timestamp()) * 1000);
+  v_elapsed_ms BIGINT := v_now_ms % p_window_ms;
+  v_window INTERVAL := make_interval(secs => p_window_ms / 1000.0);
+  v_current_start TIMESTAMPTZ := to_timestamp((v_now_ms - v_elapsed_ms) / 1000.0);
+  v_current INTEGER;
+  v_previous INTEGER;
+  v_estimate NUMERIC;
+BEGIN
+  -- Count the hit first: the upsert locks the bucket row, so concurrent
+  -- requests for the same key are serialised and each sees every earlier hit.
+  INSERT INTO rate_limit_buckets (key, window_start, hit_count, expires_at)
+  VALUES (p_key, v_current_start, 1, v_current_start + v_window * 2)
+  ON CONFLICT (key, window_start)
+  DO UPDATE SET hit_count = rate_limit_buckets.hit_count + 1
+  RETURNING hit_count INTO v_current;
+
+  SELECT b.hit_count INTO v_previous
+  FROM rate_limit_buckets b
+  WHERE b.key = p_key AND b.window_start = v_current_start - v_window;
+
+  v_estimate := COALESCE(v_previous, 0) * (1 - v_elapsed_ms::NUMERIC / p_window_ms) + v_current;
+
+  IF v_estimate > p_limit THEN
+    -- Rejected requests don't consume quota
+    UPDATE rate_limit_buckets
+    SET hit_count = hit_count - 1
+    WHERE key = p_key AND window_start = v_current_start;
+
+    allowed := FALSE;
+    remaining := 0;
+  ELSE
+    allowed := TRUE;
+    remaining := GREATEST(floor(p_limit - v_estimate)::INTEGER, 0);
+  END IF;
+
+  reset_at := v_current_start + v_window;
+
+  -- Opportunistic cleanup of buckets no window can reach any more
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_buckets WHERE expires_at < clock_timestamp();
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT  EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) TO service_role;
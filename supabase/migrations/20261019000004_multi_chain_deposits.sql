@@ -0,0 +1,48 @@
+-- =============================================
+-- Multi-token / multi-chain deposits
+--
+-- Deposit addresses are HD-derived EOAs, so a member's single address is valid
+-- on every EVM chain in lib/chains/registry.ts. Transactions now record which
+-- chain and token they moved on, and the sweep pipeline records which chain
+-- the in-flight sweep is on (one chain per sweep cycle).
+--
+-- polygon_tx_hash keeps its name for compatibility; it holds the tx hash on
+-- whichever chain `chain` names.
+-- =============================================
+
+ALTER TABLE public.usdc_transactions
+  ADD COLUMN IF NOT EXISTS chain TEXT NOT NULL DEFAULT 'polygon',
+  ADD COLUMN IF NOT EXISTS token_symbol TEXT NOT NULL DEFAULT 'USDC',
+  ADD COLUMN IF NOT EXISTS token_contract TEXT;
+
+ALTER TABLE public.usdc_transactions
+  DROP CONSTRAINT IF EXISTS usdc_transactions_chain_check;
+ALTER TABLE public.usdc_transactions
+  ADD CONSTRAINT usdc_transactions_chain_check CHECK (chain IN ('polygon', 'base', 'arbitrum'));
+
+ALTER TABLE public.usdc_transactions
+  DROP CONSTRAINT IF EXISTS usdc_transactions_token_symbol_check;
+ALTER TABLE public.usdc_transactions
+  ADD CONSTRAINT usdc_transactions_token_symbol_check CHECK (token_symbol IN ('USDC', 'USDT'));
+
+CREATE INDEX IF NOT EXISTS idx_usdc_tx_chain_user ON public.usdc_transactions(chain, user_id)
+  WHERE transaction_type = 'deposit';
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS sweep_chain TEXT NOT NULL DEFAULT 'polygon';
+
+ALTER TABLE public.users
+  DROP CONSTRAINT IF EXISTS users_sweep_chain_check;
+ALTER TABLE public.users
+  ADD CONSTRAINT users_sweep_chain_check CHECK (sweep_chain IN ('polygon', 'base', 'arbitrum'));
+
+COMMENT ON COLUMN public.usdc_transactions.chain IS 'Chain the transfer happened on (lib/chains/registry ChainKey)';
+COMMENT ON COLUMN public.usdc_transactions.polygon_tx_hash IS 'Transaction hash on `chain` (name predates multi-chain support)';
+COMMENT ON COLUMN public.users.sweep_chain IS 'Chain of the current/last sweep cycle for this deposit address';
+
+-- Gas on Base / Arbitrum is paid in ETH; their gas tanks get ledger accounts
+-- (gas_tank:<chain>, network_fees:<chain>) created on first funding.
+ALTER TABLE public.ledger_accounts
+  DROP CONSTRAINT IF EXISTS ledger_accounts_currency_check;
+ALTER TABLE public.ledger_accounts
+  ADD CONSTRAINT ledger_accounts_currency_check CHECK (currency IN ('USDC', 'POL', 'ETH'));
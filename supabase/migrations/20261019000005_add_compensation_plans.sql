@@ -0,0 +1,284 @@
+-- =============================================
+-- Versioned compensation plans
+--
+-- Commission math (structure size, rate tiers, direct-referral requirements,
+-- caps) used to be hard-coded in lib/network-positions.ts and mirrored in
+-- process_monthly_volumes. It now lives here, one row per plan version, and is
+-- evaluated by a single TypeScript engine (lib/compensation/plan-engine.ts).
+--
+-- A plan applies from its effective_month until the next version's
+-- effective_month, so the business can schedule a change for a future month
+-- and past months keep being computed with the plan that applied then. Plans
+-- that have taken effect are immutable.
+--
+-- The month close (archive volume, create residual commissions, reset) moves
+-- from process_monthly_volumes to close_sniper_volume_month, which takes the
+-- commissions the engine computed and records one statement per member so a
+-- month's figures can be traced back to the plan version that produced them.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.compensation_plans (
+  id                              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version                         INTEGER NOT NULL UNIQUE,
+  name                            TEXT NOT NULL,
+  -- First day of the first month this plan applies to
+  effective_month                 DATE NOT NULL UNIQUE CHECK (EXTRACT(DAY FROM effective_month) = 1),
+  -- Active members that make up one structure (3 + 9 + 27 + 81 + 243 + 729)
+  structure_size                  INTEGER NOT NULL CHECK (structure_size > 0),
+  max_structures                  INTEGER NOT NULL CHECK (max_structures > 0),
+  -- Monthly member contribution used for volume and earnings projections
+  contribution_amount             NUMERIC(20,6) NOT NULL CHECK (contribution_amount > 0),
+  -- [{"structure": 1, "rate": 0.10}, ...]: a member on structure N earns the
+  -- rate of the highest tier with structure <= N
+  rate_tiers                      JSONB NOT NULL,
+  -- Direct referrals required per structure to withdraw earnings
+  direct_referrals_per_structure  INTEGER NOT NULL DEFAULT 0 CHECK (direct_referrals_per_structure >= 0),
+  -- Monthly sniper volume that earns commission; anything above is ignored
+  max_commissionable_volume       NUMERIC(20,6) CHECK (max_commissionable_volume > 0),
+  -- Optional ceiling on a single member's monthly residual commission
+  max_monthly_commission          NUMERIC(20,6) CHECK (max_monthly_commission > 0),
+  notes                           TEXT,
+  created_by                      UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at                      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT compensation_plans_rate_tiers_array CHECK (
+    jsonb_typeof(rate_tiers) = 'array' AND jsonb_array_length(rate_tiers) > 0
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_compensation_plans_effective ON public.compensation_plans(effective_month DESC);
+
+-- Plan in force before versioning: 1092-member structures, 10% on structure 1
+-- rising 1% per structure to 16% on structure 7, 3 direct referrals per
+-- structure, volume capped at 6,552 members x $199.
+INSERT INTO public.compensation_plans (
+  version, name, effective_month, structure_size, max_structures, contribution_amount,
+  rate_tiers, direct_referrals_per_structure, max_commissionable_volume, notes
+) VALUES (
+  1, 'Original sniper plan', DATE '2024-01-01', 1092, 7, 199,
+  '[{"structure": 1, "rate": 0.10}, {"structure": 2, "rate": 0.11}, {"structure": 3, "rate": 0.12},
+    {"structure": 4, "rate": 0.13}, {"structure": 5, "rate": 0.14}, {"structure": 6, "rate": 0.15},
+    {"structure": 7, "rate": 0.16}]'::JSONB,
+  3, 6552 * 199, 'Migrated from NETWORK_CONSTANTS'
+) ON CONFLICT (version) DO NOTHING;
+
+-- Plans that have started applying are history: reject edits and deletes.
+CREATE OR REPLACE FUNCTION public.protect_effective_compensation_plans()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF OLD.effective_month <= date_trunc('month', NOW())::DATE THEN
+    RAISE EXCEPTION 'Compensation plan version % is already in effect and cannot be changed', OLD.version;
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS compensation_plans_immutable ON public.compensation_plans;
+CREATE TRIGGER compensation_plans_immutable
+  BEFORE UPDATE OR DELETE ON public.compensation_plans
+  FOR EACH ROW EXECUTE FUNCTION public.protect_effective_compensation_plans();
+
+ALTER TABLE public.compensation_plans ENABLE ROW LEVEL SECURITY;
+
+-- Members see the plan too (earnings projections, structure progress).
+DROP POLICY IF EXISTS "authenticated_read_compensation_plans" ON public.compensation_plans;
+CREATE POLICY "authenticated_read_compensation_plans"
+  ON public.compensation_plans FOR SELECT
+  TO authenticated
+  USING (TRUE);
+-- No write policies: plans are created through the admin API (service role).
+
+-- -----------------------------------------
+-- Per-member monthly statements
+-- -----------------------------------------
+CREATE TABLE IF NOT EXISTS public.monthly_commission_statements (
+  id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  month_period          TEXT NOT NULL CHECK (month_period ~ '^\d{4}-\d{2}$'),
+  user_id               UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  plan_version          INTEGER NOT NULL REFERENCES public.compensation_plans(version),
+  sniper_volume         NUMERIC(20,6) NOT NULL,
+  commissionable_volume NUMERIC(20,6) NOT NULL,
+  active_network_count  INTEGER NOT NULL,
+  structure_number      INTEGER NOT NULL,
+  commission_rate       NUMERIC(6,4) NOT NULL,
+  eligible              BOOLEAN NOT NULL,
+  ineligible_reason     TEXT,
+  commission_amount     NUMERIC(20,6) NOT NULL DEFAULT 0,
+  commission_id         UUID REFERENCES public.commissions(id) ON DELETE SET NULL,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (month_period, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_monthly_commission_statements_user ON public.monthly_commission_statements(user_id, month_period DESC);
+
+ALTER TABLE public.monthly_commission_statements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_read_own_commission_statements" ON public.monthly_commission_statements;
+CREATE POLICY "users_read_own_commission_statements"
+  ON public.monthly_commission_statements FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "finance_admins_read_commission_statements" ON public.monthly_commission_statements;
+CREATE POLICY "finance_admins_read_commission_statements"
+  ON public.monthly_commission_statements FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'superadmin+' OR 'view_financials' = ANY(permissions))
+  ));
+
+ALTER TABLE public.commissions
+  ADD COLUMN IF NOT EXISTS compensation_plan_version INTEGER REFERENCES public.compensation_plans(version);
+
+COMMENT ON COLUMN public.commissions.compensation_plan_version IS
+  'Plan version a residual_monthly commission was computed with (NULL for commissions created before plans were versioned)';
+
+-- -----------------------------------------
+-- close_sniper_volume_month
+-- p_statements: one object per member with volume, as evaluated by the
+-- TypeScript engine: user_id, sniper_volume, commissionable_volume,
+-- active_network_count, structure_number, commission_rate, eligible,
+-- ineligible_reason, commission_amount.
+-- Only those members are archived and reset, by the volume they were
+-- evaluated with.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.close_sniper_volume_month(
+  p_month_period TEXT,
+  p_plan_version INTEGER,
+  p_statements JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_statement         JSONB;
+  v_commission_id     UUID;
+  v_archived          INTEGER;
+  v_total_volume      NUMERIC;
+  v_created           INTEGER := 0;
+  v_ineligible        INTEGER := 0;
+  v_total_payout      NUMERIC := 0;
+  v_reset             INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM monthly_commission_statements WHERE month_period = p_month_period) THEN
+    RAISE EXCEPTION 'Month % has already been closed', p_month_period;
+  END IF;
+
+  -- Lock the evaluated members so the checks below and the reset see the
+  -- same volume. Payments that land after the evaluation only ever add to it.
+  PERFORM 1
+  FROM users u
+  JOIN jsonb_array_elements(p_statements) s ON u.id = (s->>'user_id')::UUID
+  ORDER BY u.id
+  FOR UPDATE OF u;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_statements) s
+    LEFT JOIN users u ON u.id = (s->>'user_id')::UUID
+    WHERE u.id IS NULL
+       OR u.sniper_volume_current_month < (s->>'sniper_volume')::NUMERIC
+  ) THEN
+    RAISE EXCEPTION 'Member volumes changed since month % was evaluated', p_month_period;
+  END IF;
+
+  -- 1. Archive: evaluated members get the volume they were paid on; anyone
+  -- else had none this month.
+  UPDATE users u
+  SET sniper_volume_previous_month = (s->>'sniper_volume')::NUMERIC
+  FROM jsonb_array_elements(p_statements) s
+  WHERE u.id = (s->>'user_id')::UUID;
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  UPDATE users
+  SET sniper_volume_previous_month = 0
+  WHERE sniper_volume_previous_month > 0
+    AND id NOT IN (SELECT (s->>'user_id')::UUID FROM jsonb_array_elements(p_statements) s);
+
+  SELECT COALESCE(SUM((s->>'sniper_volume')::NUMERIC), 0) INTO v_total_volume
+  FROM jsonb_array_elements(p_statements) s;
+
+  INSERT INTO monthly_processing_logs (step_name, success, users_processed, total_volume, details)
+  VALUES ('Archive', TRUE, v_archived, v_total_volume,
+          jsonb_build_object('month_period', p_month_period, 'plan_version', p_plan_version));
+
+  -- 2. Commissions + statements
+  FOR v_statement IN SELECT * FROM jsonb_array_elements(p_statements) LOOP
+    v_commission_id := NULL;
+
+    IF (v_statement->>'eligible')::BOOLEAN AND (v_statement->>'commission_amount')::NUMERIC > 0 THEN
+      INSERT INTO commissions (
+        referrer_id, referred_id, commission_type, amount, net_amount_usdc,
+        status, description, compensation_plan_version
+      ) VALUES (
+        (v_statement->>'user_id')::UUID,
+        (v_statement->>'user_id')::UUID,
+        'residual_monthly',
+        (v_statement->>'commission_amount')::NUMERIC,
+        (v_statement->>'commission_amount')::NUMERIC,
+        'pending',
+        'Residual commission for ' || p_month_period || ' (plan v' || p_plan_version || ')',
+        p_plan_version
+      )
+      RETURNING id INTO v_commission_id;
+
+      v_created := v_created + 1;
+      v_total_payout := v_total_payout + (v_statement->>'commission_amount')::NUMERIC;
+    ELSE
+      v_ineligible := v_ineligible + 1;
+    END IF;
+
+    INSERT INTO monthly_commission_statements (
+      month_period, user_id, plan_version, sniper_volume, commissionable_volume,
+      active_network_count, structure_number, commission_rate, eligible,
+      ineligible_reason, commission_amount, commission_id
+    ) VALUES (
+      p_month_period,
+      (v_statement->>'user_id')::UUID,
+      p_plan_version,
+      (v_statement->>'sniper_volume')::NUMERIC,
+      (v_statement->>'commissionable_volume')::NUMERIC,
+      (v_statement->>'active_network_count')::INTEGER,
+      (v_statement->>'structure_number')::INTEGER,
+      (v_statement->>'commission_rate')::NUMERIC,
+      (v_statement->>'eligible')::BOOLEAN,
+      v_statement->>'ineligible_reason',
+      COALESCE((v_statement->>'commission_amount')::NUMERIC, 0),
+      v_commission_id
+    );
+  END LOOP;
+
+  INSERT INTO monthly_processing_logs (step_name, success, commissions_created, total_payout_amount, ineligible_users, details)
+  VALUES ('Commissions', TRUE, v_created, v_total_payout, v_ineligible,
+          jsonb_build_object('month_period', p_month_period, 'plan_version', p_plan_version));
+
+  -- 3. Reset: take off only the volume that was evaluated, so anything that
+  -- arrived since carries into the new month.
+  UPDATE users u
+  SET sniper_volume_current_month = u.sniper_volume_current_month - (s->>'sniper_volume')::NUMERIC
+  FROM jsonb_array_elements(p_statements) s
+  WHERE u.id = (s->>'user_id')::UUID;
+  GET DIAGNOSTICS v_reset = ROW_COUNT;
+
+  INSERT INTO monthly_processing_logs (step_name, success, users_processed, details)
+  VALUES ('Reset', TRUE, v_reset,
+          jsonb_build_object('month_period', p_month_period, 'plan_version', p_plan_version));
+
+  RETURN jsonb_build_object(
+    'month_period', p_month_period,
+    'plan_version', p_plan_version,
+    'users_archived', v_archived,
+    'total_volume', v_total_volume,
+    'commissions_created', v_created,
+    'total_payout_amount', v_total_payout,
+    'ineligible_users', v_ineligible,
+    'users_reset', v_reset
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.close_sniper_volume_month(TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT  EXECUTE ON FUNCTION public.close_sniper_volume_month(TEXT, INTEGER, JSONB) TO service_role;
@@ -0,0 +1,107 @@
+-- =============================================
+-- Notification campaigns: approval workflow, canary rollout, outbox delivery
+--
+-- notification_campaigns / notification_campaign_recipients already exist
+-- (supabase-notifications-schema.sql). This adds what the campaign service
+-- needs to run them:
+--   - who last edited / submitted / rejected a campaign and why a campaign
+--     failed
+--   - a deterministic idempotency key per recipient, so delivery status can be
+--     read back from notification_logs
+--   - campaign_id on notification_outbox, so a cancelled or aborted campaign
+--     can pull its not-yet-sent messages
+--   - users.preferred_language, mirrored from auth user metadata, so
+--     campaigns can target by locale
+-- =============================================
+
+ALTER TABLE notification_campaigns
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rejected_by UUID REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS failure_reason TEXT,
+  ADD COLUMN IF NOT EXISTS skipped_count INTEGER NOT NULL DEFAULT 0;
+
+-- Two-person rule: whoever approves must not have written, last edited or
+-- submitted the campaign
+ALTER TABLE notification_campaigns
+  DROP CONSTRAINT IF EXISTS notification_campaigns_approver_not_creator;
+ALTER TABLE notification_campaigns
+  ADD CONSTRAINT notification_campaigns_approver_not_creator
+  CHECK (
+    approved_by IS NULL
+    OR (approved_by <> created_by
+        AND approved_by IS DISTINCT FROM updated_by
+        AND approved_by IS DISTINCT FROM submitted_by)
+  );
+
+ALTER TABLE notification_campaign_recipients
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS queued_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_pending
+  ON notification_campaign_recipients(campaign_id, is_canary)
+  WHERE status = 'pending' AND queued_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_idempotency
+  ON notification_campaign_recipients(idempotency_key);
+
+ALTER TABLE notification_outbox
+  ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES notification_campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_outbox_campaign
+  ON notification_outbox(campaign_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- Holders of send_notifications (superadmin floor or explicit grant) manage campaigns
+-- through the API with the service role; RLS only gates direct reads.
+DROP POLICY IF EXISTS "Admins can view campaign recipients" ON notification_campaign_recipients;
+CREATE POLICY "Admins can view campaign recipients" ON notification_campaign_recipients
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND (users.role IN ('superadmin', 'superadmin+') OR 'send_notifications' = ANY(users.permissions))
+    )
+  );
+
+-- =============================================
+-- Member locale
+-- The language toggle stores preferred_language in auth user metadata; keep a
+-- copy on users so audiences can be filtered in one query.
+-- =============================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS preferred_language TEXT NOT NULL DEFAULT 'en';
+
+UPDATE users u
+SET preferred_language = au.raw_user_meta_data->>'preferred_language'
+FROM auth.users au
+WHERE au.id = u.id
+  AND au.raw_user_meta_data->>'preferred_language' IN ('en', 'es');
+
+CREATE OR REPLACE FUNCTION public.sync_user_preferred_language()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.raw_user_meta_data->>'preferred_language' IN ('en', 'es')
+     AND NEW.raw_user_meta_data->>'preferred_language'
+         IS DISTINCT FROM OLD.raw_user_meta_data->>'preferred_language' THEN
+    UPDATE public.users
+    SET preferred_language = NEW.raw_user_meta_data->>'preferred_language'
+    WHERE id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_language_change ON auth.users;
+CREATE TRIGGER on_auth_user_language_change
+  AFTER UPDATE OF raw_user_meta_data ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.sync_user_preferred_language();
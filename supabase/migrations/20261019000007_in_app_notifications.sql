@@ -0,0 +1,58 @@
+-- =============================================
+-- In-app notification inbox
+--
+-- The 'in_app' notification channel. sendNotification writes these rows
+-- directly (no outbox, no quiet hours); members read them from the bell in
+-- the dashboard header, which subscribes to inserts over Supabase Realtime.
+--
+-- Title and body are rendered client-side from notification_type + data so
+-- the inbox follows the member's current language.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS in_app_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- In-app destination, e.g. '/finance'
+  link TEXT,
+  -- Same key scheme as notification_outbox, so a retried event lands once
+  idempotency_key TEXT NOT NULL UNIQUE,
+  read_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_in_app_notifications_inbox
+  ON in_app_notifications(user_id, created_at DESC)
+  WHERE archived_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_in_app_notifications_unread
+  ON in_app_notifications(user_id)
+  WHERE read_at IS NULL AND archived_at IS NULL;
+
+ALTER TABLE in_app_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Members see their own inbox; realtime delivery is filtered by this policy too
+DROP POLICY IF EXISTS "Users can view own in-app notifications" ON in_app_notifications;
+CREATE POLICY "Users can view own in-app notifications" ON in_app_notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Members may only change read/archived state; inserts come from the service role
+DROP POLICY IF EXISTS "Users can update own in-app notifications" ON in_app_notifications;
+CREATE POLICY "Users can update own in-app notifications" ON in_app_notifications
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON in_app_notifications FROM authenticated;
+GRANT UPDATE (read_at, archived_at) ON in_app_notifications TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND tablename = 'in_app_notifications'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE in_app_notifications;
+  END IF;
+END $$;
@@ -0,0 +1,105 @@
+-- =============================================
+-- WhatsApp notification channel (Twilio)
+--
+--   - whatsapp_consent: double opt-in per number, same shape as sms_consent
+--   - notification_outbox accepts channel 'whatsapp'
+--   - notification_templates gains the Twilio Content API template a
+--     WhatsApp message is sent with. Business-initiated WhatsApp messages
+--     outside a 24h session must use a pre-approved template; body_template
+--     is only the free-form fallback.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS whatsapp_consent (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL, -- E.164, without the 'whatsapp:' prefix
+  opted_in BOOLEAN DEFAULT false,
+  consent_timestamp TIMESTAMP WITH TIME ZONE,
+  consent_source TEXT, -- 'web', 'admin', 'double-opt-in', 'api'
+  consent_ip_address TEXT,
+  consent_user_agent TEXT,
+  opt_out_timestamp TIMESTAMP WITH TIME ZONE,
+  opt_out_source TEXT, -- 'user', 'stop_command', 'admin', 'auto_disabled'
+  verification_code TEXT,
+  verification_sent_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  is_verified BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, phone_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_consent_user_id ON whatsapp_consent(user_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_consent_phone ON whatsapp_consent(phone_number);
+
+DROP TRIGGER IF EXISTS update_whatsapp_consent_updated_at ON whatsapp_consent;
+CREATE TRIGGER update_whatsapp_consent_updated_at BEFORE UPDATE ON whatsapp_consent
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Members can read their consent; opt-in, verification and STOP/START are
+-- written by the API with the service role so consent can't be self-granted
+ALTER TABLE whatsapp_consent ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own whatsapp consent" ON whatsapp_consent;
+CREATE POLICY "Users can view own whatsapp consent" ON whatsapp_consent
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all whatsapp consent" ON whatsapp_consent;
+CREATE POLICY "Admins can view all whatsapp consent" ON whatsapp_consent
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin', 'superadmin+')
+    )
+  );
+
+-- Outbox
+ALTER TABLE notification_outbox DROP CONSTRAINT IF EXISTS notification_outbox_channel_check;
+ALTER TABLE notification_outbox
+  ADD CONSTRAINT notification_outbox_channel_check CHECK (channel IN ('email', 'sms', 'whatsapp'));
+
+-- Templates
+ALTER TABLE notification_templates
+  -- Twilio Content SID (HX...) of the approved WhatsApp template
+  ADD COLUMN IF NOT EXISTS provider_template_id TEXT,
+  -- Event data keys for the template's {{1}}, {{2}}, ... placeholders, in order
+  ADD COLUMN IF NOT EXISTS provider_template_variables TEXT[] NOT NULL DEFAULT '{}';
+
+-- Free-form fallbacks; set provider_template_id once each template is
+-- approved in the Twilio console
+INSERT INTO notification_templates (template_key, template_name, description, channel, body_template, variables, provider_template_variables, is_active, version)
+VALUES
+  ('whatsapp_direct_bonus', 'Direct Bonus WhatsApp', 'Direct referral bonus earned', 'whatsapp',
+   '💰 You earned a ${{amount}} bonus for referring {{referredName}}!',
+   '{"amount": "Bonus amount", "referredName": "Referred member name"}'::jsonb, ARRAY['amount', 'referredName'], true, 1),
+
+  ('whatsapp_monthly_commission', 'Monthly Commission WhatsApp', 'Monthly residual commission calculated', 'whatsapp',
+   '📊 Your {{month}} commission is ${{amount}}.',
+   '{"month": "Month period", "amount": "Commission amount"}'::jsonb, ARRAY['month', 'amount'], true, 1),
+
+  ('whatsapp_payout_processed', 'Payout Sent WhatsApp', 'Payout sent to wallet', 'whatsapp',
+   '✅ Your ${{amount}} payout has been sent to your wallet.',
+   '{"amount": "Payout amount"}'::jsonb, ARRAY['amount'], true, 1),
+
+  ('whatsapp_payout_failed', 'Payout Failed WhatsApp', 'Payout failed, action required', 'whatsapp',
+   '⚠️ Your ${{amount}} payout failed: {{reason}}. Please check your payout wallet in the dashboard.',
+   '{"amount": "Payout amount", "reason": "Failure reason"}'::jsonb, ARRAY['amount', 'reason'], true, 1),
+
+  ('whatsapp_payment_failed', 'Payment Failed WhatsApp', 'Subscription payment failed', 'whatsapp',
+   '⚠️ Your ${{amount}} payment did not go through. Pay here to keep your account active: {{paymentUrl}}',
+   '{"amount": "Payment amount", "paymentUrl": "Payment link"}'::jsonb, ARRAY['amount', 'paymentUrl'], true, 1),
+
+  ('whatsapp_referral_signup', 'Referral Signup WhatsApp', 'Someone signed up with the referral code', 'whatsapp',
+   '🎉 {{referredName}} signed up with your referral code!',
+   '{"referredName": "Referred member name"}'::jsonb, ARRAY['referredName'], true, 1),
+
+  ('whatsapp_account_inactive', 'Account Inactive WhatsApp', 'Account deactivated', 'whatsapp',
+   '⚠️ Your account is inactive because your payment is {{daysOverdue}} days overdue. Reactivate: {{reactivateUrl}}',
+   '{"daysOverdue": "Days overdue", "reactivateUrl": "Reactivation link"}'::jsonb, ARRAY['daysOverdue', 'reactivateUrl'], true, 1),
+
+  ('whatsapp_admin_announcement', 'Announcement WhatsApp', 'Admin announcement', 'whatsapp',
+   '📢 {{message}}',
+   '{"message": "Announcement text"}'::jsonb, ARRAY['message'], true, 1)
+
+ON CONFLICT (template_key, channel) DO NOTHING;
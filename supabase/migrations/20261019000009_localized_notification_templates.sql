@@ -0,0 +1,122 @@
+-- =============================================
+-- Localized notification templates
+--
+--   - notification_templates gains a locale; one row per
+--     (template_key, channel, locale). direct-send.ts picks the member's
+--     users.preferred_language and falls back to 'en' with a warning.
+--   - Amounts and months are now formatted per locale before templates are
+--     filled in, so placeholders drop the literal '$' (${{amount}} -> {{amount}})
+--   - Spanish SMS and WhatsApp templates. Email copy lives in
+--     locales/notifications/*.json with the React Email templates.
+-- =============================================
+
+ALTER TABLE notification_templates
+  ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_template_key_key;
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_template_key_channel_key;
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_key_channel_locale_key;
+ALTER TABLE notification_templates
+  ADD CONSTRAINT notification_templates_key_channel_locale_key UNIQUE (template_key, channel, locale);
+
+UPDATE notification_templates
+SET
+  subject_template = replace(subject_template, '${{', '{{'),
+  body_template = replace(body_template, '${{', '{{'),
+  updated_at = NOW()
+WHERE subject_template LIKE '%${{%' OR body_template LIKE '%${{%';
+
+-- Spanish SMS
+INSERT INTO notification_templates (template_key, template_name, description, channel, locale, body_template, variables, is_active, version)
+VALUES
+  ('sms_referral_signup', 'Referral Signup SMS (es)', 'Someone signed up with the referral code', 'sms', 'es',
+   '🎉 {{referredName}} acaba de unirse con tu codigo de referido! Dale la bienvenida a la red.',
+   '{"referredName": "Referred member name"}'::jsonb, true, 1),
+
+  ('sms_direct_bonus', 'Direct Bonus Earned SMS (es)', 'Direct referral bonus earned', 'sms', 'es',
+   '💰 Ganaste {{amount}}! {{referredName}} completo su pago inicial. Revisa tu pagina de Finanzas.',
+   '{"amount": "Bonus amount", "referredName": "Referred member name"}'::jsonb, true, 1),
+
+  ('sms_payout_processed', 'Payout Processed SMS (es)', 'Payout sent to wallet', 'sms', 'es',
+   '✅ Tu pago de {{amount}} fue enviado a tu billetera cripto. Deberia llegar en minutos o unas pocas horas.',
+   '{"amount": "Payout amount"}'::jsonb, true, 1),
+
+  ('sms_payout_failed', 'Payout Failed SMS (es)', 'Payout failed, action required', 'sms', 'es',
+   '❌ Tu pago de {{amount}} fallo. Revisa los ajustes de tu billetera en {{dashboardUrl}}',
+   '{"amount": "Payout amount", "dashboardUrl": "Dashboard URL"}'::jsonb, true, 1),
+
+  ('sms_payment_failed', 'Payment Failed SMS (es)', 'Subscription payment failed', 'sms', 'es',
+   '⚠️ Fallo el pago de tu suscripcion por {{amount}}. Actualiza tu metodo de pago para mantener tu cuenta activa: {{paymentUrl}}',
+   '{"amount": "Payment amount", "paymentUrl": "Payment link"}'::jsonb, true, 1),
+
+  ('sms_welcome', 'Welcome SMS (es)', 'Welcome message for new users', 'sms', 'es',
+   'Bienvenido a Snipers Trading Academy, {{userName}}! Completa tu pago de activacion de $499 para desbloquear toda la plataforma. Visita tu panel para comenzar.',
+   '{"userName": "User display name"}'::jsonb, true, 1),
+
+  ('sms_network_join', 'Network Join SMS (es)', 'Someone joined the user''s network', 'sms', 'es',
+   '{{newMemberName}} se unio a tu red de Snipers Trading Academy en el nivel {{depth}}! Tu equipo esta creciendo. Mira tu red en el panel.',
+   '{"newMemberName": "New member name", "depth": "Network depth level"}'::jsonb, true, 1),
+
+  ('sms_account_inactive', 'Account Inactive SMS (es)', 'Account deactivated due to missed payment', 'sms', 'es',
+   'Tu cuenta de Snipers Trading Academy fue desactivada ({{daysOverdue}} dias de atraso). Actualiza tu metodo de pago para reactivarla: {{reactivateUrl}}',
+   '{"daysOverdue": "Days overdue", "reactivateUrl": "Reactivation URL"}'::jsonb, true, 1),
+
+  ('sms_account_reactivated', 'Account Reactivated SMS (es)', 'Account reactivated after payment', 'sms', 'es',
+   'Bienvenido de nuevo a Snipers Trading Academy! Tu cuenta esta activa otra vez. Tus comisiones se reanudaron.',
+   '{}'::jsonb, true, 1),
+
+  ('sms_payment_succeeded', 'Payment Succeeded SMS (es)', 'Subscription payment confirmed', 'sms', 'es',
+   'Snipers Trading Academy: Tu pago de {{amount}} fue confirmado. Tu cuenta sigue activa.',
+   '{"amount": "Payment amount"}'::jsonb, true, 1),
+
+  ('sms_volume_update', 'Volume Update SMS (es)', 'Sniper volume milestone reached', 'sms', 'es',
+   'Felicidades! Tu volumen sniper en Snipers Trading Academy llego a {{newVolume}} en {{month}}. Mas volumen = mas comisiones!',
+   '{"newVolume": "New volume amount", "month": "Month period"}'::jsonb, true, 1),
+
+  ('sms_monthly_commission', 'Monthly Commission SMS (es)', 'Monthly commission notification', 'sms', 'es',
+   'Tu comision de Snipers Trading Academy de {{month}} esta lista: {{amount}}. Mira los detalles en tu panel.',
+   '{"month": "Commission period", "amount": "Commission amount"}'::jsonb, true, 1),
+
+  ('sms_structure_milestone', 'Structure Milestone SMS (es)', 'Structure milestone achieved', 'sms', 'es',
+   'Felicidades! Alcanzaste la estructura {{structureNumber}} en Snipers Trading Academy con {{activeMembers}} miembros activos. Nueva tasa de comision: {{newRate}}%!',
+   '{"structureNumber": "Structure number", "activeMembers": "Active member count", "newRate": "New commission rate"}'::jsonb, true, 1)
+
+ON CONFLICT (template_key, channel, locale) DO NOTHING;
+
+-- Spanish WhatsApp (free-form fallbacks; approved Spanish Content API
+-- templates get their own provider_template_id)
+INSERT INTO notification_templates (template_key, template_name, description, channel, locale, body_template, variables, provider_template_variables, is_active, version)
+VALUES
+  ('whatsapp_direct_bonus', 'Direct Bonus WhatsApp (es)', 'Direct referral bonus earned', 'whatsapp', 'es',
+   '💰 Ganaste un bono de {{amount}} por referir a {{referredName}}!',
+   '{"amount": "Bonus amount", "referredName": "Referred member name"}'::jsonb, ARRAY['amount', 'referredName'], true, 1),
+
+  ('whatsapp_monthly_commission', 'Monthly Commission WhatsApp (es)', 'Monthly residual commission calculated', 'whatsapp', 'es',
+   '📊 Tu comision de {{month}} es de {{amount}}.',
+   '{"month": "Month period", "amount": "Commission amount"}'::jsonb, ARRAY['month', 'amount'], true, 1),
+
+  ('whatsapp_payout_processed', 'Payout Sent WhatsApp (es)', 'Payout sent to wallet', 'whatsapp', 'es',
+   '✅ Tu pago de {{amount}} fue enviado a tu billetera.',
+   '{"amount": "Payout amount"}'::jsonb, ARRAY['amount'], true, 1),
+
+  ('whatsapp_payout_failed', 'Payout Failed WhatsApp (es)', 'Payout failed, action required', 'whatsapp', 'es',
+   '⚠️ Tu pago de {{amount}} fallo: {{reason}}. Revisa tu billetera de pagos en el panel.',
+   '{"amount": "Payout amount", "reason": "Failure reason"}'::jsonb, ARRAY['amount', 'reason'], true, 1),
+
+  ('whatsapp_payment_failed', 'Payment Failed WhatsApp (es)', 'Subscription payment failed', 'whatsapp', 'es',
+   '⚠️ Tu pago de {{amount}} no se pudo procesar. Paga aqui para mantener tu cuenta activa: {{paymentUrl}}',
+   '{"amount": "Payment amount", "paymentUrl": "Payment link"}'::jsonb, ARRAY['amount', 'paymentUrl'], true, 1),
+
+  ('whatsapp_referral_signup', 'Referral Signup WhatsApp (es)', 'Someone signed up with the referral code', 'whatsapp', 'es',
+   '🎉 {{referredName}} se registro con tu codigo de referido!',
+   '{"referredName": "Referred member name"}'::jsonb, ARRAY['referredName'], true, 1),
+
+  ('whatsapp_account_inactive', 'Account Inactive WhatsApp (es)', 'Account deactivated', 'whatsapp', 'es',
+   '⚠️ Tu cuenta esta inactiva porque tu pago tiene {{daysOverdue}} dias de atraso. Reactivala: {{reactivateUrl}}',
+   '{"daysOverdue": "Days overdue", "reactivateUrl": "Reactivation link"}'::jsonb, ARRAY['daysOverdue', 'reactivateUrl'], true, 1),
+
+  ('whatsapp_admin_announcement', 'Announcement WhatsApp (es)', 'Admin announcement', 'whatsapp', 'es',
+   '📢 {{message}}',
+   '{"message": "Announcement text"}'::jsonb, ARRAY['message'], true, 1)
+
+ON CONFLICT (template_key, channel, locale) DO NOTHING;
@@ -0,0 +1,156 @@
+-- =============================================
+-- Admin-editable notification templates
+--
+--   - notification_template_versions keeps every edit of a template
+--     (template_key, channel, locale). Admins write drafts; publishing a
+--     version copies it onto the live notification_templates row and
+--     archives the version it replaces. Rolling back republishes an
+--     archived version.
+--   - notification_templates.use_body_template: when set on an email
+--     template, direct-send.ts renders body_template in the branded layout
+--     instead of the type's React Email component.
+-- =============================================
+
+ALTER TABLE notification_templates
+  ADD COLUMN IF NOT EXISTS use_body_template BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS notification_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_key TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'whatsapp')),
+  locale TEXT NOT NULL DEFAULT 'en',
+  version INTEGER NOT NULL,
+
+  subject_template TEXT,
+  body_template TEXT NOT NULL,
+  use_body_template BOOLEAN NOT NULL DEFAULT false,
+  provider_template_id TEXT,
+  provider_template_variables TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  published_by UUID REFERENCES users(id),
+  published_at TIMESTAMPTZ,
+
+  CONSTRAINT notification_template_versions_key_channel_locale_version_key
+    UNIQUE (template_key, channel, locale, version)
+);
+
+-- At most one published version per template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_template_versions_one_published
+  ON notification_template_versions(template_key, channel, locale)
+  WHERE status = 'published';
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_lookup
+  ON notification_template_versions(template_key, channel, locale, version DESC);
+
+-- Existing templates become the published version 1 history entry
+INSERT INTO notification_template_versions (
+  template_key, channel, locale, version, subject_template, body_template,
+  provider_template_id, provider_template_variables, notes, status,
+  created_by, published_by, published_at
+)
+SELECT
+  template_key, channel, locale, COALESCE(version, 1), subject_template, body_template,
+  provider_template_id, COALESCE(provider_template_variables, '{}'), 'Imported from notification_templates', 'published',
+  created_by, last_modified_by, COALESCE(updated_at, created_at, NOW())
+FROM notification_templates
+WHERE channel IN ('email', 'sms', 'whatsapp')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE notification_template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written through the admin API with the service role; RLS only
+-- gates direct reads.
+DROP POLICY IF EXISTS "Admins can view template versions" ON notification_template_versions;
+CREATE POLICY "Admins can view template versions" ON notification_template_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND (users.role IN ('superadmin', 'superadmin+') OR 'send_notifications' = ANY(users.permissions))
+    )
+  );
+
+-- =============================================
+-- publish_notification_template_version
+-- Makes a draft or archived version the live template in one transaction:
+-- archives the current published version, marks this one published and
+-- upserts notification_templates. Returns the replaced version number.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.publish_notification_template_version(
+  p_version_id UUID,
+  p_admin_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_version   notification_template_versions%ROWTYPE;
+  v_previous  INTEGER;
+BEGIN
+  SELECT * INTO v_version
+  FROM notification_template_versions
+  WHERE id = p_version_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template version % not found', p_version_id;
+  END IF;
+  IF v_version.status = 'published' THEN
+    RAISE EXCEPTION 'Template version % is already published', p_version_id;
+  END IF;
+
+  UPDATE notification_template_versions
+  SET status = 'archived', updated_at = NOW()
+  WHERE template_key = v_version.template_key
+    AND channel = v_version.channel
+    AND locale = v_version.locale
+    AND status = 'published'
+  RETURNING version INTO v_previous;
+
+  UPDATE notification_template_versions
+  SET status = 'published', published_by = p_admin_id, published_at = NOW(), updated_at = NOW()
+  WHERE id = p_version_id;
+
+  INSERT INTO notification_templates (
+    template_key, template_name, channel, locale, subject_template, body_template,
+    use_body_template, provider_template_id, provider_template_variables,
+    is_active, created_by, last_modified_by, version
+  )
+  VALUES (
+    v_version.template_key,
+    v_version.template_key || ' (' || v_version.locale || ')',
+    v_version.channel, v_version.locale, v_version.subject_template, v_version.body_template,
+    v_version.use_body_template, v_version.provider_template_id, v_version.provider_template_variables,
+    true, p_admin_id, p_admin_id, v_version.version
+  )
+  ON CONFLICT (template_key, channel, locale) DO UPDATE
+  SET subject_template = EXCLUDED.subject_template,
+      body_template = EXCLUDED.body_template,
+      use_body_template = EXCLUDED.use_body_template,
+      provider_template_id = EXCLUDED.provider_template_id,
+      provider_template_variables = EXCLUDED.provider_template_variables,
+      is_active = true,
+      last_modified_by = p_admin_id,
+      version = EXCLUDED.version,
+      updated_at = NOW();
+
+  RETURN jsonb_build_object(
+    'template_key', v_version.template_key,
+    'channel', v_version.channel,
+    'locale', v_version.locale,
+    'version', v_version.version,
+    'previous_version', v_previous
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_notification_template_version(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT  EXECUTE ON FUNCTION public.publish_notification_template_version(UUID, UUID) TO service_role;
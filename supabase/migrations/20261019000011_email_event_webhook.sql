@@ -0,0 +1,40 @@
+-- =============================================
+-- Email deliverability: SendGrid event webhook
+--
+--   - Auto-disable thresholds move from the auto_disable_channel_on_error
+--     trigger to lib/notifications/utils/delivery-health.ts, where they are
+--     configurable per environment and shared by the SendGrid and Twilio
+--     webhooks. The trigger would otherwise disable on the first bounce
+--     regardless of configuration.
+--   - notification_provider_events dedupes provider callbacks (SendGrid
+--     retries a batch until it gets a 2xx), so health counters are only
+--     incremented once per event.
+--   - Members can ask for a disabled channel back; admins review requests.
+-- =============================================
+
+DROP TRIGGER IF EXISTS auto_disable_notification_channel ON notification_health;
+DROP FUNCTION IF EXISTS auto_disable_channel_on_error();
+
+CREATE TABLE IF NOT EXISTS notification_provider_events (
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_provider_events_received
+  ON notification_provider_events(received_at);
+
+-- Service role only
+ALTER TABLE notification_provider_events ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE notification_health
+  ADD COLUMN IF NOT EXISTS re_enable_note TEXT,
+  ADD COLUMN IF NOT EXISTS re_enable_reviewed_by UUID REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS re_enable_reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS re_enable_declined_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_notification_health_re_enable_requested
+  ON notification_health(re_enable_requested_at)
+  WHERE re_enable_requested = true;
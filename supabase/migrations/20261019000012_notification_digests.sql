@@ -0,0 +1,43 @@
+-- =============================================
+-- Notification digests
+--
+-- Members can receive network_join, referral_signup and volume_update
+-- emails as one daily or weekly summary (notification_preferences.digest).
+-- The outbox processor moves those outbox rows here instead of sending
+-- them, due at the member's next send slot (send_after); due items are
+-- sent together as a single digest email and marked with that digest's
+-- idempotency key.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  data JSONB NOT NULL,
+  -- The held outbox row's key, so a re-claimed row is only held once
+  idempotency_key TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'skipped')),
+  -- Local date of the send slot (or minute, for members back on immediate)
+  period TEXT NOT NULL,
+  send_after TIMESTAMPTZ NOT NULL, -- pushed back by quiet hours and failed sends
+  -- notification_logs.idempotency_key of the digest that included the item
+  digest_key TEXT,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_items_due
+  ON notification_digest_items(send_after)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_digest_items_user_pending
+  ON notification_digest_items(user_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_digest_items_digest_key
+  ON notification_digest_items(digest_key)
+  WHERE digest_key IS NOT NULL;
+
+-- Service role only
+ALTER TABLE notification_digest_items ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,70 @@
+-- =============================================
+-- Treasury snapshot history
+--
+-- treasury_snapshots existed but nothing wrote to it. A daily job now
+-- records one row per day (re-running replaces that day's row):
+--   usdc_balance / matic_balance   treasury wallet
+--   payout_wallet_*                payout wallet
+--   gas_tank_matic                 gas tank
+--   total_user_wallets_usdc        unswept deposits (ledger deposit accounts)
+--   pending_commissions_usdc       pending/failed commissions not yet batched
+--   pending_payouts_usdc           pending/failed commissions in a payout batch
+--   coverage_ratio                 funds on hand / outstanding liability
+-- Payout wallet, gas tank and ledger balances that couldn't be read are
+-- left NULL and listed in errors, so charts show a gap instead of a false
+-- drop to zero.
+-- =============================================
+
+ALTER TABLE public.treasury_snapshots
+  ADD COLUMN IF NOT EXISTS snapshot_date DATE,
+  ADD COLUMN IF NOT EXISTS payout_wallet_usdc NUMERIC(20,6),
+  ADD COLUMN IF NOT EXISTS payout_wallet_matic NUMERIC(20,18),
+  ADD COLUMN IF NOT EXISTS gas_tank_matic NUMERIC(20,18),
+  ADD COLUMN IF NOT EXISTS coverage_ratio NUMERIC(12,4),
+  ADD COLUMN IF NOT EXISTS errors JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS triggered_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_treasury_snapshots_daily_date
+  ON public.treasury_snapshots(snapshot_date)
+  WHERE snapshot_type = 'daily';
+
+-- A failed ledger read is stored as NULL rather than as no unswept deposits
+ALTER TABLE public.treasury_snapshots
+  ALTER COLUMN total_user_wallets_usdc DROP NOT NULL;
+
+-- -----------------------------------------
+-- Snapshot totals, summed here so no row cap applies
+-- -----------------------------------------
+
+-- Unswept deposits across the per-member deposit:<address> accounts
+CREATE OR REPLACE FUNCTION public.ledger_deposit_totals()
+RETURNS TABLE (balance_usdc NUMERIC, funded_accounts INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT COALESCE(SUM(GREATEST(balance, 0)), 0),
+         (COUNT(*) FILTER (WHERE balance >= 0.000001))::INTEGER
+  FROM public.ledger_account_balances
+  WHERE account_code LIKE 'deposit:%'
+    AND currency = 'USDC';
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_deposit_totals() FROM PUBLIC, anon, authenticated;
+
+-- Pending/failed commissions, split by whether they are in a payout batch
+CREATE OR REPLACE FUNCTION public.outstanding_commission_totals()
+RETURNS TABLE (unbatched_usdc NUMERIC, batched_usdc NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT COALESCE(SUM(amount) FILTER (WHERE payout_batch_id IS NULL), 0),
+         COALESCE(SUM(amount) FILTER (WHERE payout_batch_id IS NOT NULL), 0)
+  FROM public.commissions
+  WHERE status IN ('pending', 'failed');
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.outstanding_commission_totals() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,52 @@
+-- =============================================
+-- Multi-signature approval for large payouts
+--
+-- Payout batches and single commission payouts above a USD threshold need
+-- approvals from N distinct admins before any execute route will send
+-- funds. The policy lives in treasury_settings:
+--   payout_approval_threshold_usd   amount above which approvals are needed
+--   payout_required_approvals       distinct approvers needed (0 = off)
+--   payout_approval_window_hours    how long an approval stays valid
+-- A bulk payout run whose total is above the threshold needs the same
+-- approvals for that exact set of commissions, even when each commission is
+-- below it. Whoever created a batch or manual payout can't approve it. An approval
+-- only counts for the amount that was approved, so a changed amount needs
+-- approving again. Each approval is also written to crypto_audit_log.
+-- =============================================
+
+ALTER TABLE public.payout_batches
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.payout_approvals (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type  TEXT NOT NULL CHECK (entity_type IN ('payout_batch', 'commission', 'bulk_payout')),
+  -- bulk_payout: a process-bulk run, identified by its set of commissions
+  entity_id    UUID NOT NULL,
+  approver_id  UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  amount_usdc  NUMERIC(20,6) NOT NULL,
+  approved_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at   TIMESTAMPTZ NOT NULL,
+  -- Re-approving after expiry refreshes the existing row
+  UNIQUE (entity_type, entity_id, approver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_approvals_entity ON public.payout_approvals(entity_type, entity_id);
+
+ALTER TABLE public.payout_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "payout_admins_read_payout_approvals" ON public.payout_approvals;
+CREATE POLICY "payout_admins_read_payout_approvals"
+  ON public.payout_approvals FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'superadmin+' OR 'manage_payouts' = ANY(permissions))
+  ));
+-- No write policies: approvals are recorded by the service role only.
+
+INSERT INTO public.treasury_settings (setting_key, setting_value, created_at, updated_at)
+VALUES
+  ('payout_approval_threshold_usd', '1000', NOW(), NOW()),
+  ('payout_required_approvals', '2', NOW(), NOW()),
+  ('payout_approval_window_hours', '24', NOW(), NOW())
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,52 @@
+-- =============================================
+-- Encrypted key custody
+--
+-- The payout wallet private key and the sweep master xprv used to sit in
+-- treasury_settings as plaintext. They now live in custody_keys, envelope
+-- encrypted (lib/custody):
+--   ciphertext          secret encrypted with a per-key data key (AES-256-GCM)
+--   encrypted_data_key  that data key, wrapped by the KMS master key
+--   kms_key_id          which master key wrapped it (for master key rotation)
+-- Rotating a key issues a fresh data key, re-wraps it under the current
+-- master key and bumps version. Existing plaintext settings are imported on
+-- first use and then blanked, since encrypting needs the master key from env.
+--
+-- Only the service role touches this table; every store, rotation and use
+-- is written to crypto_audit_log.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.custody_keys (
+  key_id              TEXT PRIMARY KEY CHECK (key_id IN ('payout_wallet', 'master_xprv')),
+  address             TEXT,
+  ciphertext          TEXT NOT NULL,
+  encrypted_data_key  TEXT NOT NULL,
+  kms_key_id          TEXT NOT NULL,
+  version             INTEGER NOT NULL DEFAULT 1,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by          UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  rotated_at          TIMESTAMPTZ,
+  rotated_by          UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  last_accessed_at    TIMESTAMPTZ
+);
+
+-- RLS on with no policies: unreachable except through the service role
+ALTER TABLE public.custody_keys ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.crypto_audit_log
+  DROP CONSTRAINT IF EXISTS crypto_audit_log_event_type_check;
+
+ALTER TABLE public.crypto_audit_log
+  ADD CONSTRAINT crypto_audit_log_event_type_check CHECK (event_type = ANY (ARRAY[
+    'wallet_created', 'wallet_exported', 'transaction_initiated', 'transaction_confirmed',
+    'transaction_failed', 'payout_approved', 'payout_executed', 'withdrawal_requested',
+    'withdrawal_completed', 'admin_action', 'deposit_detected_webhook', 'deposit_detected_cron',
+    'deposit_partial_webhook', 'deposit_underpaid_cron', 'deposit_swept', 'deposit_sweep_failed',
+    'sweep_cron_completed', 'manual_sweep_success', 'manual_sweep_failed', 'manual_sweep_batch_completed',
+    'deposit_address_created', 'permanent_deposit_address_created', 'alchemy_registration_failed',
+    'alchemy_registration_recovered', 'deposit_anomaly_skipped', 'volume_distribution_failure',
+    'overpayment_resolved', 'payout_wallet_settings_updated', 'sweep_identify_completed',
+    'sweep_fund_completed', 'sweep_execute_completed', 'sweep_verify_completed', 'manual_payout_executed',
+    'account_flagged_for_review', 'payment_review_check_skipped', 'payment_review_check_completed',
+    'review_flag_dismissed', 'review_flag_deactivated',
+    'custody_key_stored', 'custody_key_rotated', 'custody_key_accessed'
+  ]::text[]));
@@ -0,0 +1,83 @@
+-- =============================================
+-- Member withdrawal requests
+--
+-- Members can ask for their available balance (pending commissions not yet
+-- batched or in flight) to be paid out instead of waiting for the admin/cron
+-- payout run. A request reserves those commissions via
+-- commissions.withdrawal_request_id; while it is pending they are skipped by
+-- batching and by the payout routes. An admin then:
+--   approve  - commissions stay linked and are paid through the normal payout
+--              routes (multi-signature approval still applies)
+--   reject   - reason required; commissions are released back to the pool
+-- Members can cancel their own pending request.
+--
+-- Limits live in treasury_settings: per-request minimum, daily and monthly
+-- caps on requested amounts, and a cooling-off period after the member
+-- changes their payout wallet.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.withdrawal_requests (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  amount_usdc       NUMERIC(20,6) NOT NULL CHECK (amount_usdc > 0),
+  -- Payout wallet at request time; approval refuses if it has since changed
+  wallet_address    TEXT NOT NULL,
+  commission_ids    UUID[] NOT NULL DEFAULT '{}',
+  status            TEXT NOT NULL DEFAULT 'pending'
+                      CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  rejection_reason  TEXT,
+  reviewed_by       UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at       TIMESTAMPTZ,
+  mfa_verified_at   TIMESTAMPTZ NOT NULL,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_user ON public.withdrawal_requests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_status ON public.withdrawal_requests(status, created_at);
+
+-- One open request per member
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_requests_one_pending
+  ON public.withdrawal_requests(user_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.withdrawal_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own withdrawal requests"
+  ON public.withdrawal_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER TABLE public.commissions
+  ADD COLUMN IF NOT EXISTS withdrawal_request_id UUID REFERENCES public.withdrawal_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_commissions_withdrawal_request
+  ON public.commissions(withdrawal_request_id)
+  WHERE withdrawal_request_id IS NOT NULL;
+
+INSERT INTO public.treasury_settings (setting_key, setting_value, created_at, updated_at)
+VALUES
+  ('withdrawal_minimum_usd', '10', NOW(), NOW()),
+  ('withdrawal_daily_limit_usd', '10000', NOW(), NOW()),
+  ('withdrawal_monthly_limit_usd', '25000', NOW(), NOW()),
+  ('withdrawal_wallet_cooldown_hours', '48', NOW(), NOW())
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE public.crypto_audit_log
+  DROP CONSTRAINT IF EXISTS crypto_audit_log_event_type_check;
+
+ALTER TABLE public.crypto_audit_log
+  ADD CONSTRAINT crypto_audit_log_event_type_check CHECK (event_type = ANY (ARRAY[
+    'wallet_created', 'wallet_exported', 'transaction_initiated', 'transaction_confirmed',
+    'transaction_failed', 'payout_approved', 'payout_executed', 'withdrawal_requested',
+    'withdrawal_completed', 'admin_action', 'deposit_detected_webhook', 'deposit_detected_cron',
+    'deposit_partial_webhook', 'deposit_underpaid_cron', 'deposit_swept', 'deposit_sweep_failed',
+    'sweep_cron_completed', 'manual_sweep_success', 'manual_sweep_failed', 'manual_sweep_batch_completed',
+    'deposit_address_created', 'permanent_deposit_address_created', 'alchemy_registration_failed',
+    'alchemy_registration_recovered', 'deposit_anomaly_skipped', 'volume_distribution_failure',
+    'overpayment_resolved', 'payout_wallet_settings_updated', 'sweep_identify_completed',
+    'sweep_fund_completed', 'sweep_execute_completed', 'sweep_verify_completed', 'manual_payout_executed',
+    'account_flagged_for_review', 'payment_review_check_skipped', 'payment_review_check_completed',
+    'review_flag_dismissed', 'review_flag_deactivated',
+    'custody_key_stored', 'custody_key_rotated', 'custody_key_accessed',
+    'withdrawal_approved', 'withdrawal_rejected', 'withdrawal_cancelled'
+  ]::text[]));
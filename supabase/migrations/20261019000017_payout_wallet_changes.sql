@@ -0,0 +1,70 @@
+-- =============================================
+-- Payout wallet change protection
+--
+-- Replacing users.payout_wallet_address no longer happens in one request.
+--   1. The member asks for the change after a fresh 2FA challenge; a row is
+--      created here as pending_confirmation and a one-time link (only its
+--      SHA-256 is stored) is emailed to the account owner.
+--   2. Opening the link confirms it: the address is swapped and payouts are
+--      held until hold_until (users.payout_wallet_hold_until). Email and SMS
+--      on file are told.
+--   3. The link can also cancel it; a new request supersedes an older one.
+-- The first wallet is still set directly (nothing to redirect yet) and is
+-- recorded as a confirmed row without token or 2FA time. Confirmed rows are
+-- the member's wallet history for admins.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.payout_wallet_changes (
+  id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id            UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  previous_address   TEXT,
+  new_address        TEXT NOT NULL,
+  status             TEXT NOT NULL DEFAULT 'pending_confirmation'
+                       CHECK (status IN ('pending_confirmation', 'confirmed', 'cancelled', 'expired')),
+  token_hash         TEXT UNIQUE,
+  expires_at         TIMESTAMPTZ,
+  mfa_verified_at    TIMESTAMPTZ,
+  confirmed_at       TIMESTAMPTZ,
+  hold_until         TIMESTAMPTZ,
+  cancelled_at       TIMESTAMPTZ,
+  cancel_reason      TEXT,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_wallet_changes_user ON public.payout_wallet_changes(user_id, created_at DESC);
+
+-- One change awaiting email confirmation per member
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_wallet_changes_one_pending
+  ON public.payout_wallet_changes(user_id)
+  WHERE status = 'pending_confirmation';
+
+ALTER TABLE public.payout_wallet_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own payout wallet changes"
+  ON public.payout_wallet_changes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Payouts to the member are blocked until this passes
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS payout_wallet_hold_until TIMESTAMPTZ;
+
+ALTER TABLE public.crypto_audit_log
+  DROP CONSTRAINT IF EXISTS crypto_audit_log_event_type_check;
+
+ALTER TABLE public.crypto_audit_log
+  ADD CONSTRAINT crypto_audit_log_event_type_check CHECK (event_type = ANY (ARRAY[
+    'wallet_created', 'wallet_exported', 'transaction_initiated', 'transaction_confirmed',
+    'transaction_failed', 'payout_approved', 'payout_executed', 'withdrawal_requested',
+    'withdrawal_completed', 'admin_action', 'deposit_detected_webhook', 'deposit_detected_cron',
+    'deposit_partial_webhook', 'deposit_underpaid_cron', 'deposit_swept', 'deposit_sweep_failed',
+    'sweep_cron_completed', 'manual_sweep_success', 'manual_sweep_failed', 'manual_sweep_batch_completed',
+    'deposit_address_created', 'permanent_deposit_address_created', 'alchemy_registration_failed',
+    'alchemy_registration_recovered', 'deposit_anomaly_skipped', 'volume_distribution_failure',
+    'overpayment_resolved', 'payout_wallet_settings_updated', 'sweep_identify_completed',
+    'sweep_fund_completed', 'sweep_execute_completed', 'sweep_verify_completed', 'manual_payout_executed',
+    'account_flagged_for_review', 'payment_review_check_skipped', 'payment_review_check_completed',
+    'review_flag_dismissed', 'review_flag_deactivated',
+    'custody_key_stored', 'custody_key_rotated', 'custody_key_accessed',
+    'withdrawal_approved', 'withdrawal_rejected', 'withdrawal_cancelled',
+    'payout_wallet_change_requested', 'payout_wallet_set', 'payout_wallet_change_cancelled'
+  ]::text[]));
@@ -0,0 +1,176 @@
+-- =============================================
+-- Hot wallet nonce manager
+--
+-- Every send from a hot wallet (payout wallet, per-chain gas tanks) takes its
+-- nonce from allocate_hot_wallet_nonce, which locks the wallet's cursor row so
+-- concurrent sends from different function instances never share a nonce.
+-- Each nonce gets a hot_wallet_transactions row:
+--   allocated - handed out, not yet broadcast
+--   pending   - broadcast (tx_hash is the latest broadcast, tx_hashes all of them)
+--   confirmed - the chain's confirmed nonce passed it (mined_tx_hash says which
+--               broadcast landed, when known)
+--   released  - the send failed before reaching the network; the next
+--               allocation reuses it so no gap is left behind
+-- The replace-stuck-txs cron re-broadcasts pending rows older than
+-- stuck_tx_bump_after_minutes at a higher fee (same to/value/data) and emails
+-- admins once (escalated_at) when the bump would exceed the chain's fee cap.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.hot_wallet_nonces (
+  chain       TEXT NOT NULL,
+  address     TEXT NOT NULL,
+  wallet      TEXT NOT NULL CHECK (wallet IN ('payout_wallet', 'gas_tank')),
+  next_nonce  BIGINT NOT NULL,
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (chain, address)
+);
+
+CREATE TABLE IF NOT EXISTS public.hot_wallet_transactions (
+  id                        UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chain                     TEXT NOT NULL,
+  address                   TEXT NOT NULL,
+  wallet                    TEXT NOT NULL CHECK (wallet IN ('payout_wallet', 'gas_tank')),
+  nonce                     BIGINT NOT NULL,
+  status                    TEXT NOT NULL DEFAULT 'allocated'
+                              CHECK (status IN ('allocated', 'pending', 'confirmed', 'released')),
+  -- What the send was for, e.g. 'payout_transfer', 'sweep_funding'
+  purpose                   TEXT,
+  -- Enough of the original tx to re-broadcast it at a higher fee
+  to_address                TEXT,
+  value_wei                 TEXT,
+  data                      TEXT,
+  gas_limit                 TEXT,
+  max_fee_per_gas           TEXT,
+  max_priority_fee_per_gas  TEXT,
+  tx_hash                   TEXT,
+  tx_hashes                 TEXT[] NOT NULL DEFAULT '{}',
+  mined_tx_hash             TEXT,
+  bump_count                INTEGER NOT NULL DEFAULT 0,
+  last_error                TEXT,
+  broadcast_at              TIMESTAMPTZ,
+  last_bumped_at            TIMESTAMPTZ,
+  confirmed_at              TIMESTAMPTZ,
+  escalated_at              TIMESTAMPTZ,
+  created_at                TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at                TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (chain, address, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hot_wallet_transactions_open
+  ON public.hot_wallet_transactions(chain, address, nonce)
+  WHERE status IN ('allocated', 'pending', 'released');
+
+CREATE INDEX IF NOT EXISTS idx_hot_wallet_transactions_hashes
+  ON public.hot_wallet_transactions USING GIN (tx_hashes);
+
+-- Service role only
+ALTER TABLE public.hot_wallet_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hot_wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------
+-- RPC: allocate_hot_wallet_nonce
+-- p_chain_confirmed / p_chain_pending are the wallet's 'latest' and 'pending'
+-- transaction counts from the RPC. Released nonces the chain hasn't used yet
+-- are handed out first; otherwise the cursor advances, jumping ahead if the
+-- chain has seen sends made outside the manager.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.allocate_hot_wallet_nonce(
+  p_chain            TEXT,
+  p_address          TEXT,
+  p_wallet           TEXT,
+  p_chain_confirmed  BIGINT,
+  p_chain_pending    BIGINT,
+  p_purpose          TEXT DEFAULT NULL
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_next  BIGINT;
+  v_nonce BIGINT;
+BEGIN
+  INSERT INTO public.hot_wallet_nonces (chain, address, wallet, next_nonce)
+  VALUES (p_chain, p_address, p_wallet, p_chain_pending)
+  ON CONFLICT (chain, address) DO NOTHING;
+
+  SELECT next_nonce INTO v_next
+  FROM public.hot_wallet_nonces
+  WHERE chain = p_chain AND address = p_address
+  FOR UPDATE;
+
+  SELECT nonce INTO v_nonce
+  FROM public.hot_wallet_transactions
+  WHERE chain = p_chain
+    AND address = p_address
+    AND status = 'released'
+    AND nonce >= p_chain_confirmed
+  ORDER BY nonce
+  LIMIT 1;
+
+  IF v_nonce IS NULL THEN
+    v_nonce := GREATEST(v_next, p_chain_pending);
+    UPDATE public.hot_wallet_nonces
+    SET next_nonce = v_nonce + 1,
+        updated_at = NOW()
+    WHERE chain = p_chain AND address = p_address;
+  END IF;
+
+  INSERT INTO public.hot_wallet_transactions (chain, address, wallet, nonce, status, purpose)
+  VALUES (p_chain, p_address, p_wallet, v_nonce, 'allocated', p_purpose)
+  ON CONFLICT (chain, address, nonce) DO UPDATE
+  SET status = 'allocated',
+      wallet = EXCLUDED.wallet,
+      purpose = EXCLUDED.purpose,
+      to_address = NULL,
+      value_wei = NULL,
+      data = NULL,
+      gas_limit = NULL,
+      max_fee_per_gas = NULL,
+      max_priority_fee_per_gas = NULL,
+      tx_hash = NULL,
+      tx_hashes = '{}',
+      mined_tx_hash = NULL,
+      bump_count = 0,
+      last_error = NULL,
+      broadcast_at = NULL,
+      last_bumped_at = NULL,
+      confirmed_at = NULL,
+      escalated_at = NULL,
+      created_at = NOW(),
+      updated_at = NOW();
+
+  RETURN v_nonce;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.allocate_hot_wallet_nonce IS 'Atomically hands out the next nonce for a hot wallet, reusing released nonces first';
+
+REVOKE EXECUTE ON FUNCTION public.allocate_hot_wallet_nonce(TEXT, TEXT, TEXT, BIGINT, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO public.treasury_settings (setting_key, setting_value, created_at, updated_at)
+VALUES
+  ('stuck_tx_bump_after_minutes', '10', NOW(), NOW())
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE public.crypto_audit_log
+  DROP CONSTRAINT IF EXISTS crypto_audit_log_event_type_check;
+
+ALTER TABLE public.crypto_audit_log
+  ADD CONSTRAINT crypto_audit_log_event_type_check CHECK (event_type = ANY (ARRAY[
+    'wallet_created', 'wallet_exported', 'transaction_initiated', 'transaction_confirmed',
+    'transaction_failed', 'payout_approved', 'payout_executed', 'withdrawal_requested',
+    'withdrawal_completed', 'admin_action', 'deposit_detected_webhook', 'deposit_detected_cron',
+    'deposit_partial_webhook', 'deposit_underpaid_cron', 'deposit_swept', 'deposit_sweep_failed',
+    'sweep_cron_completed', 'manual_sweep_success', 'manual_sweep_failed', 'manual_sweep_batch_completed',
+    'deposit_address_created', 'permanent_deposit_address_created', 'alchemy_registration_failed',
+    'alchemy_registration_recovered', 'deposit_anomaly_skipped', 'volume_distribution_failure',
+    'overpayment_resolved', 'payout_wallet_settings_updated', 'sweep_identify_completed',
+    'sweep_fund_completed', 'sweep_execute_completed', 'sweep_verify_completed', 'manual_payout_executed',
+    'account_flagged_for_review', 'payment_review_check_skipped', 'payment_review_check_completed',
+    'review_flag_dismissed', 'review_flag_deactivated',
+    'custody_key_stored', 'custody_key_rotated', 'custody_key_accessed',
+    'withdrawal_approved', 'withdrawal_rejected', 'withdrawal_cancelled',
+    'payout_wallet_change_requested', 'payout_wallet_set', 'payout_wallet_change_cancelled',
+    'stuck_tx_replaced', 'stuck_tx_escalated', 'stuck_tx_cron_completed'
+  ]::text[]));
@@ -0,0 +1,101 @@
+-- =============================================
+-- Admin audit trail
+--
+-- One row per /api/admin/* mutation, written by lib/admin/audit-log:
+--   actor_id        - the admin who made the change
+--   action          - what they did, e.g. 'user.toggle_active'
+--   target_user_id  - the member affected, when there is one
+--   entity_type/id  - the record changed when it isn't (just) the user row
+--   changes         - {column: {from, to}} for the columns that changed
+--   reason          - free text the admin gave, if the route takes one
+-- No foreign keys: the trail has to outlive deleted users. The table is
+-- append-only, and existing 'admin_action' events from crypto_audit_log are
+-- copied in so the history starts complete.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id        UUID NOT NULL,
+  action          TEXT NOT NULL,
+  target_user_id  UUID,
+  entity_type     TEXT,
+  entity_id       TEXT,
+  changes         JSONB NOT NULL DEFAULT '{}',
+  reason          TEXT,
+  details         JSONB NOT NULL DEFAULT '{}',
+  ip_address      TEXT,
+  user_agent      TEXT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at
+  ON public.admin_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor
+  ON public.admin_audit_log(actor_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target
+  ON public.admin_audit_log(target_user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action
+  ON public.admin_audit_log(action, created_at DESC);
+
+-- Service role only
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.admin_audit_log_prevent_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  RAISE EXCEPTION 'The admin audit trail is append-only';
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS admin_audit_log_append_only ON public.admin_audit_log;
+CREATE TRIGGER admin_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.admin_audit_log_prevent_mutation();
+
+-- -----------------------------------------
+-- Backfill from crypto_audit_log
+-- Older routes logged admin actions there with the action name in details.
+-- -----------------------------------------
+INSERT INTO public.admin_audit_log (
+  actor_id, action, target_user_id, entity_type, entity_id,
+  reason, details, ip_address, user_agent, created_at
+)
+SELECT
+  cal.admin_id,
+  COALESCE(cal.details->>'action', 'admin_action'),
+  COALESCE(cal.user_id, CASE WHEN cal.entity_type = 'user' THEN cal.entity_id END),
+  cal.entity_type,
+  cal.entity_id::TEXT,
+  cal.details->>'reason',
+  COALESCE(cal.details, '{}') || jsonb_build_object('backfilled_from', cal.id),
+  cal.ip_address,
+  cal.user_agent,
+  cal.created_at
+FROM public.crypto_audit_log cal
+WHERE cal.event_type = 'admin_action'
+  AND cal.admin_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.admin_audit_log aal
+    WHERE aal.details->>'backfilled_from' = cal.id::TEXT
+  );
+
+-- -----------------------------------------
+-- RPC: admin_audit_actions
+-- Distinct action names, for the audit page's action filter.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.admin_audit_actions()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT DISTINCT action FROM public.admin_audit_log ORDER BY action;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_audit_actions() FROM PUBLIC, anon, authenticated;
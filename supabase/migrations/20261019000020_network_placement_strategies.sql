@@ -0,0 +1,291 @@
+-- =============================================
+-- Placement strategies for new members
+--
+-- assign_network_position places a new member by one fixed rule under their
+-- referrer. Referrers can now choose how their new members are placed:
+--   balanced       - first open slot under the referrer, level by level,
+--                    left to right (breadth-first)
+--   extreme_left   - bottom of the referrer's leftmost leg (slot 1 each level)
+--   extreme_right  - bottom of the referrer's rightmost leg (slot 3 each level)
+--   under_member   - breadth-first under a member of the referrer's downline
+-- A referrer without a preference keeps the existing rule.
+--
+-- place_network_member wraps assign_network_position: it assigns as before
+-- (so every existing side effect still happens), then moves the still-leaf
+-- member to the slot their referrer's strategy picks, adjusting upline
+-- counters the same way reassign_network_position does.
+-- =============================================
+
+-- -----------------------------------------
+-- 1. Per-referrer preference
+-- -----------------------------------------
+CREATE TABLE IF NOT EXISTS public.network_placement_preferences (
+  user_id         UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  strategy        TEXT NOT NULL
+                  CHECK (strategy IN ('balanced', 'extreme_left', 'extreme_right', 'under_member')),
+  target_user_id  UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (strategy <> 'under_member' OR target_user_id IS NOT NULL)
+);
+
+ALTER TABLE public.network_placement_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_read_own_placement_preference" ON public.network_placement_preferences;
+CREATE POLICY "users_read_own_placement_preference"
+  ON public.network_placement_preferences
+  FOR SELECT
+  USING (user_id = auth.uid());
+-- Writes go through /api/network/placement with the service role.
+
+-- Slot lookups walk the tree level by level
+CREATE INDEX IF NOT EXISTS idx_users_network_level_position
+  ON public.users(network_level, network_position);
+
+
+-- -----------------------------------------
+-- 2. Helper: is a position inside a subtree (inclusive of its root)
+-- NUMERIC so deep levels can't overflow 3^depth.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.is_in_network_subtree(
+  p_root_level     INTEGER,
+  p_root_position  BIGINT,
+  p_level          INTEGER,
+  p_position       BIGINT
+) RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT p_level >= p_root_level
+     AND p_position >  (p_root_position - 1) * power(3::NUMERIC, p_level - p_root_level)
+     AND p_position <= p_root_position * power(3::NUMERIC, p_level - p_root_level);
+$function$;
+
+
+-- -----------------------------------------
+-- 3. RPC: find_network_placement_slot
+-- The open slot a strategy picks under a referrer, without placing anyone.
+-- Used for the preview and by place_network_member.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.find_network_placement_slot(
+  p_referrer_id     UUID,
+  p_strategy        TEXT,
+  p_target_user_id  UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_referrer        RECORD;
+  v_anchor          RECORD;
+  v_level           INTEGER;
+  v_position        BIGINT;
+  v_slot            INTEGER;
+  v_span            NUMERIC;
+  v_depth           INTEGER;
+  v_found           RECORD;
+  v_parents_exist   BOOLEAN;
+BEGIN
+  IF p_strategy NOT IN ('balanced', 'extreme_left', 'extreme_right', 'under_member') THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'INVALID_STRATEGY');
+  END IF;
+
+  SELECT id, network_position_id, network_level, network_position
+  INTO v_referrer
+  FROM public.users
+  WHERE id = p_referrer_id;
+
+  IF v_referrer.id IS NULL OR v_referrer.network_position_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'REFERRER_NOT_PLACED');
+  END IF;
+
+  v_anchor := v_referrer;
+
+  -- under_member: the target must be the referrer or inside their subtree
+  IF p_strategy = 'under_member' THEN
+    SELECT id, network_position_id, network_level, network_position
+    INTO v_anchor
+    FROM public.users
+    WHERE id = p_target_user_id;
+
+    IF v_anchor.id IS NULL OR v_anchor.network_position_id IS NULL
+       OR NOT public.is_in_network_subtree(
+         v_referrer.network_level, v_referrer.network_position,
+         v_anchor.network_level, v_anchor.network_position
+       ) THEN
+      RETURN jsonb_build_object('success', FALSE, 'error_code', 'TARGET_NOT_IN_SUBTREE');
+    END IF;
+  END IF;
+
+  -- Outer legs: follow slot 1 (or 3) down until it's open
+  IF p_strategy IN ('extreme_left', 'extreme_right') THEN
+    v_slot     := CASE WHEN p_strategy = 'extreme_left' THEN 1 ELSE 3 END;
+    v_level    := v_anchor.network_level;
+    v_position := v_anchor.network_position;
+
+    FOR v_depth IN 1..100 LOOP
+      v_level    := v_level + 1;
+      v_position := (v_position - 1) * 3 + v_slot;
+
+      IF NOT public.is_position_occupied(v_level, v_position) THEN
+        RETURN jsonb_build_object(
+          'success',            TRUE,
+          'position_id',        public.format_network_position_id(v_level, v_position),
+          'parent_position_id', public.format_network_position_id(v_level - 1, public.get_parent_position(v_position)),
+          'level',              v_level,
+          'position',           v_position,
+          'slot',               v_slot
+        );
+      END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'NO_SLOT');
+  END IF;
+
+  -- Breadth-first: the lowest open child of any occupied position, one level
+  -- at a time, left to right
+  FOR v_depth IN 1..100 LOOP
+    v_level := v_anchor.network_level + v_depth;
+    v_span  := power(3::NUMERIC, v_depth - 1);
+
+    SELECT p.network_position_id AS parent_position_id,
+           s.slot,
+           (p.network_position - 1) * 3 + s.slot AS position
+    INTO v_found
+    FROM public.users p
+    CROSS JOIN generate_series(1, 3) AS s(slot)
+    WHERE p.network_level = v_level - 1
+      AND p.network_position >  (v_anchor.network_position - 1) * v_span
+      AND p.network_position <= v_anchor.network_position * v_span
+      AND NOT public.is_position_occupied(v_level, (p.network_position - 1) * 3 + s.slot)
+    ORDER BY position
+    LIMIT 1;
+
+    IF v_found.parent_position_id IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'success',            TRUE,
+        'position_id',        public.format_network_position_id(v_level, v_found.position),
+        'parent_position_id', v_found.parent_position_id,
+        'level',              v_level,
+        'position',           v_found.position,
+        'slot',               v_found.slot
+      );
+    END IF;
+
+    -- No one at the parent level means the previous level had the gap
+    SELECT EXISTS (
+      SELECT 1 FROM public.users p
+      WHERE p.network_level = v_level - 1
+        AND p.network_position >  (v_anchor.network_position - 1) * v_span
+        AND p.network_position <= v_anchor.network_position * v_span
+    ) INTO v_parents_exist;
+
+    IF NOT v_parents_exist THEN
+      EXIT;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', FALSE, 'error_code', 'NO_SLOT');
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.find_network_placement_slot(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+
+-- -----------------------------------------
+-- 4. RPC: place_network_member
+-- Drop-in replacement for assign_network_position that honours the
+-- referrer's placement preference. Returns the member's position id.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.place_network_member(
+  p_user_id      UUID,
+  p_referrer_id  UUID
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_preference       RECORD;
+  v_choice           JSONB;
+  v_assigned_id      TEXT;
+  v_member           RECORD;
+  v_ancestor         RECORD;
+BEGIN
+  SELECT strategy, target_user_id
+  INTO v_preference
+  FROM public.network_placement_preferences
+  WHERE user_id = p_referrer_id;
+
+  -- Pick the slot before assigning, while it's still open
+  IF v_preference.strategy IS NOT NULL THEN
+    v_choice := public.find_network_placement_slot(
+      p_referrer_id, v_preference.strategy, v_preference.target_user_id
+    );
+  END IF;
+
+  v_assigned_id := public.assign_network_position(p_user_id, p_referrer_id);
+
+  -- No preference, or it can't be honoured (e.g. the chosen member left the
+  -- subtree): keep the default placement
+  IF v_choice IS NULL
+     OR NOT (v_choice->>'success')::BOOLEAN
+     OR v_choice->>'position_id' = v_assigned_id THEN
+    RETURN v_assigned_id;
+  END IF;
+
+  SELECT id, network_position_id, is_active
+  INTO v_member
+  FROM public.users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF public.is_position_occupied((v_choice->>'level')::INTEGER, (v_choice->>'position')::BIGINT) THEN
+    RAISE EXCEPTION 'Placement slot % was taken', v_choice->>'position_id';
+  END IF;
+
+  -- Move the new (leaf) member: old upline loses them, new upline gains them
+  FOR v_ancestor IN
+    SELECT user_id
+    FROM public.get_upline_chain(v_member.network_position_id)
+    WHERE user_id IS NOT NULL
+      AND user_id <> p_user_id
+  LOOP
+    UPDATE public.users
+    SET total_network_count  = GREATEST(0, total_network_count - 1),
+        active_network_count = CASE
+          WHEN v_member.is_active THEN GREATEST(0, active_network_count - 1)
+          ELSE active_network_count
+        END
+    WHERE id = v_ancestor.user_id;
+  END LOOP;
+
+  UPDATE public.users
+  SET network_position_id             = v_choice->>'position_id',
+      network_level                   = (v_choice->>'level')::INTEGER,
+      network_position                = (v_choice->>'position')::BIGINT,
+      tree_parent_network_position_id = v_choice->>'parent_position_id'
+  WHERE id = p_user_id;
+
+  FOR v_ancestor IN
+    SELECT user_id
+    FROM public.get_upline_chain(v_choice->>'position_id')
+    WHERE user_id IS NOT NULL
+      AND user_id <> p_user_id
+  LOOP
+    UPDATE public.users
+    SET total_network_count  = total_network_count + 1,
+        active_network_count = CASE
+          WHEN v_member.is_active THEN active_network_count + 1
+          ELSE active_network_count
+        END
+    WHERE id = v_ancestor.user_id;
+  END LOOP;
+
+  RETURN v_choice->>'position_id';
+END;
+$function$;
+
+-- SECURITY DEFINER and takes any user id: service role only
+REVOKE EXECUTE ON FUNCTION public.place_network_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,396 @@
+-- =============================================
+-- Holding tank for unplaced members
+--
+-- With holding_tank_days > 0 (treasury_settings; 0 = off), a newly paid
+-- member isn't placed straight away. They wait in network_holding_tank for
+-- that many days, during which their sponsor can drop them into any open slot
+-- in their own subtree (place_held_member). Whoever is still waiting when the
+-- window expires is placed by the /api/cron/holding-tank cron
+-- (release_holding_tank), using the sponsor's placement strategy.
+--
+-- A held member is active but has no position, so their upline's active
+-- counts are only incremented once they're placed. Admin placement
+-- (fix-positions, bypass grants) still places immediately.
+-- =============================================
+
+INSERT INTO public.treasury_settings (setting_key, setting_value, created_at, updated_at)
+VALUES ('holding_tank_days', '0', NOW(), NOW())
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- -----------------------------------------
+-- 1. Holding tank
+-- -----------------------------------------
+CREATE TABLE IF NOT EXISTS public.network_holding_tank (
+  user_id      UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  referrer_id  UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  entered_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at   TIMESTAMPTZ NOT NULL,
+  placed_at    TIMESTAMPTZ,
+  -- Sponsor who placed them; NULL when the window expired (or an admin placed them)
+  placed_by    UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  position_id  TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_holding_tank_waiting_expiry
+  ON public.network_holding_tank(expires_at) WHERE placed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_holding_tank_waiting_referrer
+  ON public.network_holding_tank(referrer_id) WHERE placed_at IS NULL;
+
+ALTER TABLE public.network_holding_tank ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "sponsors_read_own_holding_tank" ON public.network_holding_tank;
+CREATE POLICY "sponsors_read_own_holding_tank"
+  ON public.network_holding_tank
+  FOR SELECT
+  USING (referrer_id = auth.uid() OR user_id = auth.uid());
+-- No INSERT/UPDATE/DELETE policies: only the SECURITY DEFINER RPCs write here.
+
+
+-- -----------------------------------------
+-- 2. Helper: place a member at a chosen slot
+-- Assigns with the default rule (keeping all of assign_network_position's
+-- side effects), then moves the new leaf to p_choice (a
+-- find_network_placement_slot result) if it differs. p_count_active moves the
+-- member's active count with them; pass FALSE when the caller increments the
+-- upline's active counts itself afterwards.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.place_network_member_at(
+  p_user_id       UUID,
+  p_referrer_id   UUID,
+  p_choice        JSONB,
+  p_count_active  BOOLEAN
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_assigned_id  TEXT;
+  v_member       RECORD;
+  v_ancestor     RECORD;
+BEGIN
+  v_assigned_id := public.assign_network_position(p_user_id, p_referrer_id);
+
+  IF p_choice IS NULL
+     OR NOT (p_choice->>'success')::BOOLEAN
+     OR p_choice->>'position_id' = v_assigned_id THEN
+    RETURN v_assigned_id;
+  END IF;
+
+  SELECT id, network_position_id
+  INTO v_member
+  FROM public.users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF public.is_position_occupied((p_choice->>'level')::INTEGER, (p_choice->>'position')::BIGINT) THEN
+    RAISE EXCEPTION 'Placement slot % was taken', p_choice->>'position_id';
+  END IF;
+
+  -- Move the new (leaf) member: old upline loses them, new upline gains them
+  FOR v_ancestor IN
+    SELECT user_id
+    FROM public.get_upline_chain(v_member.network_position_id)
+    WHERE user_id IS NOT NULL
+      AND user_id <> p_user_id
+  LOOP
+    UPDATE public.users
+    SET total_network_count  = GREATEST(0, total_network_count - 1),
+        active_network_count = CASE
+          WHEN p_count_active THEN GREATEST(0, active_network_count - 1)
+          ELSE active_network_count
+        END
+    WHERE id = v_ancestor.user_id;
+  END LOOP;
+
+  UPDATE public.users
+  SET network_position_id             = p_choice->>'position_id',
+      network_level                   = (p_choice->>'level')::INTEGER,
+      network_position                = (p_choice->>'position')::BIGINT,
+      tree_parent_network_position_id = p_choice->>'parent_position_id'
+  WHERE id = p_user_id;
+
+  FOR v_ancestor IN
+    SELECT user_id
+    FROM public.get_upline_chain(p_choice->>'position_id')
+    WHERE user_id IS NOT NULL
+      AND user_id <> p_user_id
+  LOOP
+    UPDATE public.users
+    SET total_network_count  = total_network_count + 1,
+        active_network_count = CASE
+          WHEN p_count_active THEN active_network_count + 1
+          ELSE active_network_count
+        END
+    WHERE id = v_ancestor.user_id;
+  END LOOP;
+
+  RETURN p_choice->>'position_id';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.place_network_member_at(UUID, UUID, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+
+-- -----------------------------------------
+-- 3. place_network_member, now built on place_network_member_at
+-- (same behaviour as 20261019000020)
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.place_network_member(
+  p_user_id      UUID,
+  p_referrer_id  UUID
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_preference  RECORD;
+  v_choice      JSONB;
+  v_is_active   BOOLEAN;
+BEGIN
+  SELECT strategy, target_user_id
+  INTO v_preference
+  FROM public.network_placement_preferences
+  WHERE user_id = p_referrer_id;
+
+  -- Pick the slot before assigning, while it's still open
+  IF v_preference.strategy IS NOT NULL THEN
+    v_choice := public.find_network_placement_slot(
+      p_referrer_id, v_preference.strategy, v_preference.target_user_id
+    );
+  END IF;
+
+  SELECT COALESCE(is_active, FALSE) INTO v_is_active
+  FROM public.users WHERE id = p_user_id;
+
+  RETURN public.place_network_member_at(p_user_id, p_referrer_id, v_choice, v_is_active);
+END;
+$function$;
+
+
+-- -----------------------------------------
+-- 4. RPC: admit_network_member
+-- What payment flows call once a member has paid. Holds them in the tank
+-- when it's on (returns NULL), otherwise places them now.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.admit_network_member(
+  p_user_id      UUID,
+  p_referrer_id  UUID
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_days         INTEGER;
+  v_position_id  TEXT;
+BEGIN
+  SELECT network_position_id INTO v_position_id
+  FROM public.users WHERE id = p_user_id;
+
+  IF v_position_id IS NOT NULL THEN
+    RETURN v_position_id;
+  END IF;
+
+  SELECT COALESCE(NULLIF(setting_value, '')::INTEGER, 0) INTO v_days
+  FROM public.treasury_settings
+  WHERE setting_key = 'holding_tank_days';
+
+  -- The root member (no referrer) has no sponsor to place them
+  IF COALESCE(v_days, 0) <= 0 OR p_referrer_id IS NULL THEN
+    RETURN public.place_network_member(p_user_id, p_referrer_id);
+  END IF;
+
+  INSERT INTO public.network_holding_tank (user_id, referrer_id, expires_at)
+  VALUES (p_user_id, p_referrer_id, NOW() + make_interval(days => v_days))
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.admit_network_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+
+-- -----------------------------------------
+-- 5. RPC: place_held_member
+-- The sponsor drops a waiting member into an open slot in their subtree.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.place_held_member(
+  p_user_id             UUID,
+  p_sponsor_id          UUID,
+  p_parent_position_id  TEXT,
+  p_slot                INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_held          RECORD;
+  v_sponsor       RECORD;
+  v_parent        RECORD;
+  v_member        RECORD;
+  v_level         INTEGER;
+  v_position      BIGINT;
+  v_position_id   TEXT;
+BEGIN
+  SELECT user_id, referrer_id
+  INTO v_held
+  FROM public.network_holding_tank
+  WHERE user_id = p_user_id
+    AND placed_at IS NULL
+  FOR UPDATE;
+
+  IF v_held.user_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'NOT_HELD');
+  END IF;
+
+  IF v_held.referrer_id IS DISTINCT FROM p_sponsor_id THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'NOT_SPONSOR');
+  END IF;
+
+  IF p_slot NOT IN (1, 2, 3) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'INVALID_SLOT');
+  END IF;
+
+  SELECT network_level, network_position
+  INTO v_sponsor
+  FROM public.users
+  WHERE id = p_sponsor_id;
+
+  SELECT id, network_level, network_position
+  INTO v_parent
+  FROM public.users
+  WHERE network_position_id = p_parent_position_id;
+
+  IF v_parent.id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'PARENT_NOT_FOUND');
+  END IF;
+
+  IF v_sponsor.network_level IS NULL
+     OR NOT public.is_in_network_subtree(
+       v_sponsor.network_level, v_sponsor.network_position,
+       v_parent.network_level, v_parent.network_position
+     ) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'PARENT_NOT_IN_SUBTREE');
+  END IF;
+
+  v_level       := v_parent.network_level + 1;
+  v_position    := (v_parent.network_position - 1) * 3 + p_slot;
+  v_position_id := public.format_network_position_id(v_level, v_position);
+
+  IF public.is_position_occupied(v_level, v_position) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'SLOT_OCCUPIED');
+  END IF;
+
+  SELECT network_position_id, COALESCE(is_active, FALSE) AS is_active
+  INTO v_member
+  FROM public.users
+  WHERE id = p_user_id;
+
+  -- Placed some other way in the meantime (e.g. by an admin)
+  IF v_member.network_position_id IS NOT NULL THEN
+    UPDATE public.network_holding_tank
+    SET placed_at = NOW(), position_id = v_member.network_position_id
+    WHERE user_id = p_user_id;
+
+    RETURN jsonb_build_object('success', FALSE, 'error_code', 'ALREADY_PLACED');
+  END IF;
+
+  v_position_id := public.place_network_member_at(
+    p_user_id,
+    v_held.referrer_id,
+    jsonb_build_object(
+      'success',            TRUE,
+      'position_id',        v_position_id,
+      'parent_position_id', p_parent_position_id,
+      'level',              v_level,
+      'position',           v_position,
+      'slot',               p_slot
+    ),
+    FALSE
+  );
+
+  IF v_member.is_active THEN
+    PERFORM public.increment_upchain_active_count(p_user_id);
+  END IF;
+
+  UPDATE public.network_holding_tank
+  SET placed_at = NOW(), placed_by = p_sponsor_id, position_id = v_position_id
+  WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object('success', TRUE, 'position_id', v_position_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.place_held_member(UUID, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+
+-- -----------------------------------------
+-- 6. RPC: release_holding_tank
+-- Place a member whose window has expired, by their sponsor's strategy.
+-- Returns their position id.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.release_holding_tank(
+  p_user_id  UUID
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_held         RECORD;
+  v_member       RECORD;
+  v_preference   RECORD;
+  v_choice       JSONB;
+  v_position_id  TEXT;
+BEGIN
+  SELECT user_id, referrer_id
+  INTO v_held
+  FROM public.network_holding_tank
+  WHERE user_id = p_user_id
+    AND placed_at IS NULL
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_held.user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT network_position_id, COALESCE(is_active, FALSE) AS is_active
+  INTO v_member
+  FROM public.users
+  WHERE id = p_user_id;
+
+  v_position_id := v_member.network_position_id;
+
+  IF v_position_id IS NULL THEN
+    SELECT strategy, target_user_id
+    INTO v_preference
+    FROM public.network_placement_preferences
+    WHERE user_id = v_held.referrer_id;
+
+    IF v_preference.strategy IS NOT NULL THEN
+      v_choice := public.find_network_placement_slot(
+        v_held.referrer_id, v_preference.strategy, v_preference.target_user_id
+      );
+    END IF;
+
+    v_position_id := public.place_network_member_at(p_user_id, v_held.referrer_id, v_choice, FALSE);
+
+    IF v_member.is_active THEN
+      PERFORM public.increment_upchain_active_count(p_user_id);
+    END IF;
+  END IF;
+
+  UPDATE public.network_holding_tank
+  SET placed_at = NOW(), position_id = v_position_id
+  WHERE user_id = p_user_id;
+
+  RETURN v_position_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.release_holding_tank(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,280 @@
+-- =============================================
+-- Downline closure table
+--
+-- Subtree queries used to walk the tree with recursive RPCs
+-- (get_downline_contributors, get_upline_chain, get_tree_children), and the
+-- denormalized total_network_count / active_network_count counters drift
+-- whenever one of the increment/decrement calls is missed.
+--
+-- network_closure holds one row per (ancestor, descendant) pair of placed
+-- members with their distance in levels. A trigger on users keeps it in step
+-- with placement, reassignment and removal of a position (deleting a user
+-- cascades), so "whole downline", "upline" and "tree children" are each a
+-- single indexed query.
+--
+-- check_network_consistency compares the table with the positions on users
+-- and the counters with the table, and with p_repair rebuilds both.
+-- =============================================
+
+-- -----------------------------------------
+-- 1. Closure table
+-- -----------------------------------------
+CREATE TABLE IF NOT EXISTS public.network_closure (
+  ancestor_id    UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  descendant_id  UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  depth          INTEGER NOT NULL CHECK (depth > 0),
+  PRIMARY KEY (ancestor_id, descendant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_network_closure_ancestor_depth
+  ON public.network_closure(ancestor_id, depth);
+CREATE INDEX IF NOT EXISTS idx_network_closure_descendant_depth
+  ON public.network_closure(descendant_id, depth);
+
+ALTER TABLE public.network_closure ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_read_own_closure" ON public.network_closure;
+CREATE POLICY "users_read_own_closure"
+  ON public.network_closure
+  FOR SELECT
+  USING (ancestor_id = auth.uid() OR descendant_id = auth.uid());
+-- No INSERT/UPDATE/DELETE policies: only the trigger and the SECURITY DEFINER
+-- functions below write here.
+
+
+-- -----------------------------------------
+-- 2. Expected closure, derived from positions
+-- The ancestor k levels above position p is ((p - 1) / 3^k) + 1. NUMERIC so
+-- deep levels can't overflow 3^k.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.network_closure_expected()
+RETURNS TABLE (ancestor_id UUID, descendant_id UUID, depth INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT a.id, d.id, k
+  FROM public.users d
+  CROSS JOIN LATERAL generate_series(1, d.network_level) AS k
+  JOIN public.users a
+    ON a.network_level = d.network_level - k
+   AND a.network_position = (floor((d.network_position - 1) / power(3::NUMERIC, k)) + 1)::BIGINT
+  WHERE d.network_position_id IS NOT NULL
+    AND a.network_position_id IS NOT NULL;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.network_closure_expected() FROM PUBLIC, anon, authenticated;
+
+
+-- -----------------------------------------
+-- 3. Refresh one member's rows
+-- Drops every pair the member is part of and re-adds them from their current
+-- position: ancestors above it, and anyone already sitting below it.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.refresh_network_closure(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_member     RECORD;
+  v_max_level  INTEGER;
+BEGIN
+  DELETE FROM public.network_closure
+  WHERE ancestor_id = p_user_id OR descendant_id = p_user_id;
+
+  SELECT network_position_id, network_level, network_position
+  INTO v_member
+  FROM public.users
+  WHERE id = p_user_id;
+
+  IF v_member.network_position_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.network_closure (ancestor_id, descendant_id, depth)
+  SELECT a.id, p_user_id, k
+  FROM generate_series(1, v_member.network_level) AS k
+  JOIN public.users a
+    ON a.network_level = v_member.network_level - k
+   AND a.network_position = (floor((v_member.network_position - 1) / power(3::NUMERIC, k)) + 1)::BIGINT
+  WHERE a.network_position_id IS NOT NULL
+  ON CONFLICT DO NOTHING;
+
+  SELECT MAX(network_level) INTO v_max_level FROM public.users;
+
+  -- Bounds cast to BIGINT so each level is a range scan on
+  -- idx_users_network_level_position
+  INSERT INTO public.network_closure (ancestor_id, descendant_id, depth)
+  SELECT p_user_id, d.id, k
+  FROM generate_series(1, GREATEST(v_max_level - v_member.network_level, 0)) AS k
+  JOIN public.users d
+    ON d.network_level = v_member.network_level + k
+   AND d.network_position BETWEEN ((v_member.network_position - 1) * power(3::NUMERIC, k) + 1)::BIGINT
+                              AND (v_member.network_position * power(3::NUMERIC, k))::BIGINT
+  WHERE d.network_position_id IS NOT NULL
+  ON CONFLICT DO NOTHING;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_network_closure(UUID) FROM PUBLIC, anon, authenticated;
+
+
+-- -----------------------------------------
+-- 4. Keep it in step with users
+-- Covers assign_network_position, place_network_member(_at),
+-- place_held_member, reassign_network_position and manual fixes alike.
+-- Deletes are handled by ON DELETE CASCADE.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.sync_network_closure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.refresh_network_closure(NEW.id);
+  RETURN NULL;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trg_users_network_closure_insert ON public.users;
+CREATE TRIGGER trg_users_network_closure_insert
+  AFTER INSERT ON public.users
+  FOR EACH ROW
+  WHEN (NEW.network_position_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_network_closure();
+
+DROP TRIGGER IF EXISTS trg_users_network_closure_update ON public.users;
+CREATE TRIGGER trg_users_network_closure_update
+  AFTER UPDATE OF network_position_id, network_level, network_position ON public.users
+  FOR EACH ROW
+  WHEN (
+    OLD.network_position_id IS DISTINCT FROM NEW.network_position_id
+    OR OLD.network_level IS DISTINCT FROM NEW.network_level
+    OR OLD.network_position IS DISTINCT FROM NEW.network_position
+  )
+  EXECUTE FUNCTION public.sync_network_closure();
+
+
+-- -----------------------------------------
+-- 5. Full rebuild
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.rebuild_network_closure()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  -- Block trigger writes while the table is swapped out
+  LOCK TABLE public.network_closure IN EXCLUSIVE MODE;
+
+  DELETE FROM public.network_closure;
+
+  INSERT INTO public.network_closure (ancestor_id, descendant_id, depth)
+  SELECT ancestor_id, descendant_id, depth
+  FROM public.network_closure_expected();
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.rebuild_network_closure() FROM PUBLIC, anon, authenticated;
+
+SELECT public.rebuild_network_closure();
+
+
+-- -----------------------------------------
+-- 6. RPC: check_network_consistency
+-- Reports closure rows that are missing or stale against positions, and
+-- users whose total/active network counters differ from their closure rows.
+-- With p_repair the closure is rebuilt (if off) and the counters rewritten.
+-- -----------------------------------------
+CREATE OR REPLACE FUNCTION public.check_network_consistency(
+  p_repair  BOOLEAN DEFAULT FALSE
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_missing          INTEGER;
+  v_stale            INTEGER;
+  v_closure_rebuilt  BOOLEAN := FALSE;
+  v_drifted          INTEGER;
+  v_sample           JSONB;
+  v_fixed            INTEGER := 0;
+BEGIN
+  SELECT COUNT(*) INTO v_missing
+  FROM (
+    SELECT ancestor_id, descendant_id, depth FROM public.network_closure_expected()
+    EXCEPT
+    SELECT ancestor_id, descendant_id, depth FROM public.network_closure
+  ) m;
+
+  SELECT COUNT(*) INTO v_stale
+  FROM (
+    SELECT ancestor_id, descendant_id, depth FROM public.network_closure
+    EXCEPT
+    SELECT ancestor_id, descendant_id, depth FROM public.network_closure_expected()
+  ) s;
+
+  IF p_repair AND (v_missing > 0 OR v_stale > 0) THEN
+    PERFORM public.rebuild_network_closure();
+    v_closure_rebuilt := TRUE;
+  END IF;
+
+  CREATE TEMP TABLE tmp_network_counts ON COMMIT DROP AS
+  SELECT u.id AS user_id,
+         COALESCE(u.total_network_count, 0)  AS total_network_count,
+         COALESCE(c.total, 0)                AS expected_total,
+         COALESCE(u.active_network_count, 0) AS active_network_count,
+         COALESCE(c.active, 0)               AS expected_active
+  FROM public.users u
+  LEFT JOIN (
+    SELECT cl.ancestor_id,
+           COUNT(*)                            AS total,
+           COUNT(*) FILTER (WHERE d.is_active) AS active
+    FROM public.network_closure cl
+    JOIN public.users d ON d.id = cl.descendant_id
+    GROUP BY cl.ancestor_id
+  ) c ON c.ancestor_id = u.id
+  WHERE COALESCE(u.total_network_count, 0)  <> COALESCE(c.total, 0)
+     OR COALESCE(u.active_network_count, 0) <> COALESCE(c.active, 0);
+
+  SELECT COUNT(*) INTO v_drifted FROM tmp_network_counts;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(t)), '[]'::JSONB) INTO v_sample
+  FROM (SELECT * FROM tmp_network_counts ORDER BY user_id LIMIT 50) t;
+
+  IF p_repair AND v_drifted > 0 THEN
+    UPDATE public.users u
+    SET total_network_count  = t.expected_total,
+        active_network_count = t.expected_active
+    FROM tmp_network_counts t
+    WHERE u.id = t.user_id;
+
+    GET DIAGNOSTICS v_fixed = ROW_COUNT;
+  END IF;
+
+  DROP TABLE tmp_network_counts;
+
+  RETURN jsonb_build_object(
+    'success',          TRUE,
+    'closure_missing',  v_missing,
+    'closure_stale',    v_stale,
+    'closure_rebuilt',  v_closure_rebuilt,
+    'counters_drifted', v_drifted,
+    'counters_fixed',   v_fixed,
+    'drifted',          v_sample
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.check_network_consistency(BOOLEAN) FROM PUBLIC, anon, authenticated;
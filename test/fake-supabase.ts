@@ -0,0 +1,282 @@
+/**
+ * In-memory stand-in for the Supabase client, for unit tests.
+ *
+ * Supports the query-builder calls the server code uses: select / insert /
+ * update / upsert / delete, the eq / neq / in / gt / gte / lt / lte / is
+ * filters, order / range / limit, and single / maybeSingle. Columns in
+ * select strings are not projected (rows come back whole), but to-one
+ * embeds through a foreign key, e.g. `ancestor:users!network_closure_ancestor_id_fkey(...)`,
+ * are attached. rpc() calls the handler registered for that function name.
+ */
+
+export type Row = Record<string, unknown>
+
+type Filter = (row: Row) => boolean
+type RpcHandler = (args: Record<string, unknown>) => unknown
+
+// alias:table!<from>_<column>_fkey(...) or table!<from>_<column>_fkey(...)
+const EMBED_PATTERN = /(?:(\w+):)?(\w+)!(\w+)\s*\(/g
+
+interface Embed {
+  alias: string
+  table: string
+  column: string
+}
+
+interface Result {
+  data: unknown
+  error: { message: string } | null
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  return String(a) < String(b) ? -1 : 1
+}
+
+function numeric(value: unknown): number | string {
+  return typeof value === "number" || (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)))
+    ? Number(value)
+    : String(value)
+}
+
+class QueryBuilder implements PromiseLike<Result> {
+  private filters: Filter[] = []
+  private operation: "select" | "insert" | "update" | "upsert" | "delete" = "select"
+  private payload: Row | Row[] | null = null
+  private conflictColumns: string[] = []
+  private returning = false
+  private sorts: Array<{ column: string; ascending: boolean }> = []
+  private offset = 0
+  private count: number | null = null
+  private mode: "many" | "single" | "maybeSingle" = "many"
+  private embeds: Embed[] = []
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(columns = "*") {
+    // After a write, select() asks for the written rows back
+    if (this.operation !== "select") this.returning = true
+
+    for (const [, alias, table, foreignKey] of columns.matchAll(EMBED_PATTERN)) {
+      const prefix = `${this.table}_`
+      if (!foreignKey.startsWith(prefix) || !foreignKey.endsWith("_fkey")) continue
+      this.embeds.push({
+        alias: alias || table,
+        table,
+        column: foreignKey.slice(prefix.length, -"_fkey".length),
+      })
+    }
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = "insert"
+    this.payload = rows
+    return this
+  }
+
+  update(patch: Row) {
+    this.operation = "update"
+    this.payload = patch
+    return this
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = "upsert"
+    this.payload = rows
+    this.conflictColumns = (options.onConflict || "id").split(",").map((c) => c.trim())
+    return this
+  }
+
+  delete() {
+    this.operation = "delete"
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && numeric(row[column]) > numeric(value))
+    return this
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && numeric(row[column]) >= numeric(value))
+    return this
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && numeric(row[column]) < numeric(value))
+    return this
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && numeric(row[column]) <= numeric(value))
+    return this
+  }
+
+  is(column: string, value: null) {
+    this.filters.push((row) => (row[column] ?? null) === value)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.sorts.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.offset = from
+    this.count = to - from + 1
+    return this
+  }
+
+  limit(count: number) {
+    this.count = count
+    return this
+  }
+
+  single() {
+    this.mode = "single"
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = "maybeSingle"
+    return this
+  }
+
+  then<TResult1 = Result, TResult2 = never>(
+    onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private matching(): Row[] {
+    return this.db.rows(this.table).filter((row) => this.filters.every((filter) => filter(row)))
+  }
+
+  private execute(): Result {
+    const failure = this.db.failureFor(this.table, this.operation)
+    if (failure) return { data: null, error: { message: failure } }
+
+    let rows: Row[]
+    switch (this.operation) {
+      case "select":
+        rows = this.matching()
+        break
+      case "insert":
+        rows = this.db.insertRows(this.table, ([] as Row[]).concat(this.payload || []))
+        break
+      case "update":
+        rows = this.matching().map((row) => Object.assign(row, this.payload))
+        break
+      case "upsert":
+        rows = ([] as Row[]).concat(this.payload || []).map((incoming) => {
+          const existing = this.db.rows(this.table).find((row) =>
+            this.conflictColumns.every((column) => row[column] === incoming[column])
+          )
+          return existing ? Object.assign(existing, incoming) : this.db.insertRows(this.table, [incoming])[0]
+        })
+        break
+      case "delete": {
+        const doomed = new Set(this.matching())
+        rows = [...doomed]
+        this.db.setRows(this.table, this.db.rows(this.table).filter((row) => !doomed.has(row)))
+        break
+      }
+    }
+
+    if (this.operation !== "select" && !this.returning && this.mode === "many") {
+      return { data: null, error: null }
+    }
+
+    for (const { column, ascending } of [...this.sorts].reverse()) {
+      rows = [...rows].sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]))
+    }
+    rows = rows.slice(this.offset, this.count === null ? undefined : this.offset + this.count)
+    const copies = rows.map((row) => {
+      const copy: Row = { ...row }
+      for (const embed of this.embeds) {
+        const target = this.db.rows(embed.table).find((candidate) => candidate.id === row[embed.column])
+        copy[embed.alias] = target ? { ...target } : null
+      }
+      return copy
+    })
+
+    if (this.mode === "many") return { data: copies, error: null }
+    if (copies.length > 1) return { data: null, error: { message: "Multiple rows returned" } }
+    if (copies.length === 0 && this.mode === "single") return { data: null, error: { message: "No rows returned" } }
+    return { data: copies[0] ?? null, error: null }
+  }
+}
+
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>()
+  private failures = new Map<string, string>()
+  private rpcs = new Map<string, RpcHandler>()
+  private nextId = 1
+
+  // Signed-in user returned by auth.getUser()
+  user: { id: string } | null = null
+
+  readonly auth = {
+    getUser: async () => ({ data: { user: this.user }, error: null }),
+  }
+
+  from(table: string) {
+    return new QueryBuilder(this, table)
+  }
+
+  async rpc(name: string, args: Record<string, unknown> = {}): Promise<Result> {
+    const handler = this.rpcs.get(name)
+    if (!handler) return { data: null, error: { message: `Unknown function ${name}` } }
+    return { data: handler(args), error: null }
+  }
+
+  onRpc(name: string, handler: RpcHandler): void {
+    this.rpcs.set(name, handler)
+  }
+
+  /**
+   * Make every call of `operation` on `table` return an error
+   */
+  fail(table: string, operation: string, message = "simulated failure"): void {
+    this.failures.set(`${table}:${operation}`, message)
+  }
+
+  failureFor(table: string, operation: string): string | undefined {
+    return this.failures.get(`${table}:${operation}`)
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, [])
+    return this.tables.get(table)!
+  }
+
+  setRows(table: string, rows: Row[]): void {
+    this.tables.set(table, rows)
+  }
+
+  insertRows(table: string, rows: Row[]): Row[] {
+    const stored = rows.map((row) => ({ id: `row-${this.nextId++}`, ...row }))
+    this.rows(table).push(...stored)
+    return stored
+  }
+}